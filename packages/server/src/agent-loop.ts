@@ -1,10 +1,14 @@
+import type { BudgetTracker } from "./budget/tracker";
+import type { FileSnapshotRecorder } from "./checkpoint";
 import { getSnapshot, setSnapshot } from "./compaction/cache";
 import { compactToBudget } from "./compaction/compact-to-budget";
 import { writeCompactionDump } from "./compaction/dump";
-import { COMPACTION_OUTPUT_TARGET, computeCharBudget, EMERGENCY_TARGET, totalContentChars } from "./compaction/strength";
+import { applyCompactionPolicy, type CompactionPolicy, DEFAULT_COMPACTION_POLICY } from "./compaction/policy";
+import { computeCharBudget, EMERGENCY_TARGET, totalContentChars } from "./compaction/strength";
 import type { DbGuard } from "./db-guard";
 import type { Logger } from "./log/logger";
 import { getScope } from "./log/logger";
+import type { AuthorizeToolCall, PermissionOutcome } from "./permission/gate";
 import { createIsolatedTurnProvider } from "./provider/isolated-turn";
 import { getProviderModelConfig } from "./provider/models";
 import { computeSafeMaxOutputTokens, estimateMessageChars } from "./provider/output-budget";
@@ -93,8 +97,11 @@ export type AgentEvent =
 			output: string | null;
 			mergeable: boolean;
 			summary?: string;
+			/** Unknown tool, denied call, thrown error or a result the tool itself flagged as failed. */
+			failed?: boolean;
 			metadata?: Record<string, unknown>;
 	  }
+	| { type: "tool_output"; id: string; output: string }
 	| { type: "status"; text: string };
 
 export interface AgentLoopOptions {
@@ -128,6 +135,26 @@ export interface AgentLoopOptions {
 	onMessage: (msg: Message) => void;
 	/** Precomputed session cost total for display during streaming. */
 	sessionCostDisplay?: string;
+	/** Permission gate consulted before each tool execution. Omitted = every call is allowed. */
+	authorizeToolCall?: AuthorizeToolCall;
+	/** Stores pre-edit file content for session checkpoints. Omitted = mutating tools take no snapshots. */
+	recordFileSnapshot?: FileSnapshotRecorder;
+	/** Called after every tool call with the output the model will see (plugin `onAfterToolCall` hooks). */
+	afterToolCall?: (call: CompletedToolCall) => Promise<void>;
+	/** Cost caps for the turn, charged after every provider call. Omitted = no limit. */
+	budget?: BudgetTracker;
+	/** Targets and per-tool constants for emergency compaction. Omitted = the built-in default policy. */
+	compactionPolicy?: CompactionPolicy;
+	/** tool_call_ids pinned with `.pin`, which emergency compaction leaves alone. */
+	pinned?: ReadonlySet<string>;
+}
+
+/** A finished tool call, as reported to `afterToolCall`. */
+export interface CompletedToolCall {
+	toolCallId: string;
+	toolName: string;
+	args: Record<string, unknown>;
+	output: string;
 }
 
 interface AccumulatedToolCall {
@@ -271,6 +298,9 @@ async function consumeProviderStream(
 			case "finish":
 				finishReason = event.reason;
 				break;
+			case "status":
+				onEvent({ type: "status", text: event.text });
+				break;
 		}
 	}
 
@@ -366,11 +396,35 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 	const REASONING_RETRY_LIMIT = 2;
 	let reasoningRetries = 0;
 
+	function snapshotFileFor(tc: ToolCallContent): ((filePath: string) => void) | undefined {
+		const record = options.recordFileSnapshot;
+		if (!record) return undefined;
+		return (filePath) => record(sessionId, tc.id, filePath);
+	}
+
+	async function authorizeToolCall(tc: ToolCallContent, args: Record<string, unknown>): Promise<PermissionOutcome> {
+		if (!options.authorizeToolCall) return { allowed: true };
+		return options.authorizeToolCall({ toolName: tc.function.name, args, toolCallId: tc.id, sessionId, signal });
+	}
+
+	/** Charge the tokens billed since `before` (a getTurnMetrics snapshot) to the budget. */
+	function chargeBudget(before: ReturnType<NonNullable<Provider["getTurnMetrics"]>> | undefined): void {
+		const after = provider.getTurnMetrics?.();
+		if (!options.budget || !after) return;
+		options.budget.recordUsage(provider.id, provider.resolveModel?.(model) ?? model, {
+			inputTokens: after.inputTokensTotal - (before?.inputTokensTotal ?? 0),
+			outputTokens: after.outputTokensTotal - (before?.outputTokensTotal ?? 0),
+			cachedInputTokens: after.cachedInputTokensTotal - (before?.cachedInputTokensTotal ?? 0),
+			cacheCreationInputTokens: after.cacheCreationInputTokensTotal - (before?.cacheCreationInputTokensTotal ?? 0),
+		});
+	}
+
 	function computeMaxOutputTokensForConversation(messages: Message[]): number {
 		const ABSOLUTE_FALLBACK = 16384;
 		let configuredMaxOutput = 0;
 		try {
-			configuredMaxOutput = getProviderModelConfig(provider.id as never, model, configDir)?.maxOutput ?? 0;
+			const servedModel = provider.resolveModel?.(model) ?? model;
+			configuredMaxOutput = getProviderModelConfig(provider.id as never, servedModel, configDir)?.maxOutput ?? 0;
 		} catch {
 			// Model not in catalog — use safe fallback
 		}
@@ -390,7 +444,11 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 		options.dbGuard?.assertConnected();
 		// Abort if the signal has been triggered (e.g. WebSocket closed)
 		signal?.throwIfAborted();
+		// Stop before the next call once a cap is reached (also covers subagents that just ran)
+		const overBudget = options.budget?.exceeded();
+		if (overBudget) throw overBudget;
 
+		const metricsBefore = provider.getTurnMetrics?.();
 		const { textContent, toolCalls, reasoning, finishReason } = await consumeProviderStream(
 			provider.stream({
 				model,
@@ -405,6 +463,7 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 			}),
 			onEvent,
 		);
+		chargeBudget(metricsBefore);
 
 		if (finishReason === "stop" || finishReason === "interrupted" || toolCalls.size === 0) {
 			// The model can produce reasoning without ever transitioning to the final
@@ -472,6 +531,18 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 			return newMessages;
 		}
 
+		// Over budget: keep what the model said, but do not run the tools it asked for
+		const exceededAfterCall = options.budget?.exceeded();
+		if (exceededAfterCall) {
+			if (textContent.trim().length > 0 || (reasoning && reasoning.length > 0)) {
+				const partialMsg: AssistantMessage = { role: "assistant", content: textContent, reasoning };
+				conversation.push(partialMsg);
+				newMessages.push(partialMsg);
+				onMessage(partialMsg);
+			}
+			throw exceededAfterCall;
+		}
+
 		// Tool calls response — build assistant message with tool_calls
 		const toolCallContents: ToolCallContent[] = [];
 		for (const [, tc] of toolCalls) {
@@ -535,6 +606,7 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 					uiOutput: string | null;
 					mergeable: boolean;
 					summary?: string;
+					failed?: boolean;
 					resultMetadata?: Record<string, unknown>;
 				}
 
@@ -555,36 +627,53 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 							llmOutput: `Unknown tool: ${tc.function.name}`,
 							uiOutput: `Unknown tool: ${tc.function.name}`,
 							mergeable: false,
+							failed: true,
 						};
 					} else {
-						try {
-							const isolated = createIsolatedTurnProvider(provider, configDir);
-							const execResult = await tool.execute(args, {
-								projectRoot,
-								sessionId,
-								toolCallId: tc.id,
-								provider: isolated,
-								signal,
-							});
-							result = {
-								tc,
-								llmOutput: execResult.llmOutput,
-								uiOutput: execResult.uiOutput,
-								mergeable: execResult.mergeable,
-								summary: execResult.summary,
-								resultMetadata: execResult.metadata,
-							};
-						} catch (err) {
+						const permission = await authorizeToolCall(tc, args);
+						if (!permission.allowed) {
 							result = {
 								tc,
-								llmOutput: `Tool execution error: ${(err as Error).message}`,
-								uiOutput: `Tool execution error: ${(err as Error).message}`,
+								llmOutput: permission.llmOutput,
+								uiOutput: permission.uiOutput,
 								mergeable: false,
+								failed: true,
 							};
+						} else {
+							try {
+								const isolated = createIsolatedTurnProvider(provider, configDir);
+								const execResult = await tool.execute(args, {
+									projectRoot,
+									sessionId,
+									toolCallId: tc.id,
+									provider: isolated,
+									signal,
+									onOutput: (output) => onEvent({ type: "tool_output", id: tc.id, output }),
+									snapshotFile: snapshotFileFor(tc),
+								});
+								result = {
+									tc,
+									llmOutput: execResult.llmOutput,
+									uiOutput: execResult.uiOutput,
+									mergeable: execResult.mergeable,
+									summary: execResult.summary,
+									failed: execResult.failed,
+									resultMetadata: execResult.metadata,
+								};
+							} catch (err) {
+								result = {
+									tc,
+									llmOutput: `Tool execution error: ${(err as Error).message}`,
+									uiOutput: `Tool execution error: ${(err as Error).message}`,
+									mergeable: false,
+									failed: true,
+								};
+							}
 						}
 					}
 
 					resultMap.set(tc.id, result);
+					await options.afterToolCall?.({ toolCallId: tc.id, toolName: tc.function.name, args, output: result.llmOutput });
 
 					// Emit UI event immediately so the user sees each task's
 					// status bar as soon as it completes (not after all finish).
@@ -594,6 +683,7 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 						output: result.uiOutput,
 						mergeable: result.mergeable,
 						summary: result.summary,
+						failed: result.failed,
 						metadata: result.resultMetadata,
 					});
 				});
@@ -624,32 +714,46 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 					let uiOutput: string | null = null;
 					let mergeable = false;
 					let summary: string | undefined;
+					let failed: boolean | undefined;
 					let resultMetadata: Record<string, unknown> | undefined;
 
 					if (!tool) {
 						llmOutput = `Unknown tool: ${tc.function.name}`;
 						uiOutput = `Unknown tool: ${tc.function.name}`;
+						failed = true;
 					} else {
-						try {
-							const result = await tool.execute(args, {
-								projectRoot,
-								sessionId,
-								toolCallId: tc.id,
-								provider,
-								signal,
-							});
-							llmOutput = result.llmOutput;
-							uiOutput = result.uiOutput;
-							mergeable = result.mergeable;
-							summary = result.summary;
-							resultMetadata = result.metadata;
-						} catch (err) {
-							llmOutput = `Tool execution error: ${(err as Error).message}`;
-							uiOutput = `Tool execution error: ${(err as Error).message}`;
+						const permission = await authorizeToolCall(tc, args);
+						if (!permission.allowed) {
+							llmOutput = permission.llmOutput;
+							uiOutput = permission.uiOutput;
+							failed = true;
+						} else {
+							try {
+								const result = await tool.execute(args, {
+									projectRoot,
+									sessionId,
+									toolCallId: tc.id,
+									provider,
+									signal,
+									onOutput: (output) => onEvent({ type: "tool_output", id: tc.id, output }),
+									snapshotFile: snapshotFileFor(tc),
+								});
+								llmOutput = result.llmOutput;
+								uiOutput = result.uiOutput;
+								mergeable = result.mergeable;
+								summary = result.summary;
+								failed = result.failed;
+								resultMetadata = result.metadata;
+							} catch (err) {
+								llmOutput = `Tool execution error: ${(err as Error).message}`;
+								uiOutput = `Tool execution error: ${(err as Error).message}`;
+								failed = true;
+							}
 						}
 					}
 
-					onEvent({ type: "tool_result", id: tc.id, output: uiOutput, mergeable, summary, metadata: resultMetadata });
+					onEvent({ type: "tool_result", id: tc.id, output: uiOutput, mergeable, summary, failed, metadata: resultMetadata });
+					await options.afterToolCall?.({ toolCallId: tc.id, toolName: tc.function.name, args, output: llmOutput });
 
 					const toolMsg: ToolMessage = { role: "tool", content: llmOutput, tool_call_id: tc.id };
 					conversation.push(toolMsg);
@@ -677,18 +781,19 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 			const rawPlusNew = [...options.rawMessages, ...newMessages];
 
 			// Stateful compaction: reuse cached snapshot if messages still fit under emergency threshold
-			const charBudget90 = computeCharBudget(options.contextWindow, EMERGENCY_TARGET, emgPromptTokens, emgPromptChars);
+			const policy = options.compactionPolicy ?? DEFAULT_COMPACTION_POLICY;
+			const emergencyBudget = computeCharBudget(options.contextWindow, policy.emergencyTarget, emgPromptTokens, emgPromptChars);
 			const existingSnapshot = getSnapshot(options.sessionId);
 
 			let needsCompaction = false;
 
-			if (existingSnapshot && charBudget90 > 0) {
+			if (existingSnapshot && emergencyBudget > 0) {
 				// Reconstruct: frozen prefix + new messages appended since snapshot
 				const appendedMessages = rawPlusNew.slice(existingSnapshot.rawMessageCount);
 				const candidateMessages = [...existingSnapshot.compactedMessages, ...appendedMessages];
 				const candidateChars = totalContentChars(candidateMessages);
 
-				if (candidateChars <= charBudget90) {
+				if (candidateChars <= emergencyBudget) {
 					// Still fits — use cached prefix, skip compaction entirely
 					conversation.length = 0;
 					conversation.push(...candidateMessages);
@@ -696,7 +801,7 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 					// Exceeded threshold — need to re-compact
 					needsCompaction = true;
 				}
-			} else if (charBudget90 > 0 && totalContentChars(rawPlusNew) > charBudget90) {
+			} else if (emergencyBudget > 0 && totalContentChars(rawPlusNew) > emergencyBudget) {
 				// No snapshot, but over threshold — need to compact
 				needsCompaction = true;
 			}
@@ -707,10 +812,11 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 					contextWindow: options.contextWindow,
 					promptTokens: emgPromptTokens,
 					promptChars: emgPromptChars,
-					target: COMPACTION_OUTPUT_TARGET,
+					target: policy.outputTarget,
 					type: "emergency",
-					tools,
+					tools: applyCompactionPolicy(tools, policy),
 					sessionId: options.sessionId,
+					pinned: options.pinned,
 					onReadFileCompacted: options.onReadFileCompacted,
 					logger: options.logger,
 				});
@@ -749,6 +855,9 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 	};
 	conversation.push(nudge);
 
+	const overBudget = options.budget?.exceeded();
+	if (overBudget) throw overBudget;
+	const metricsBefore = provider.getTurnMetrics?.();
 	const { textContent: finalText, reasoning: finalReasoning } = await consumeProviderStream(
 		provider.stream({
 			model,
@@ -762,6 +871,7 @@ export async function runAgentLoop(options: AgentLoopOptions): Promise<Message[]
 		}),
 		onEvent,
 	);
+	chargeBudget(metricsBefore);
 
 	const finalMsg: AssistantMessage = {
 		role: "assistant",
@@ -0,0 +1,22 @@
+export async function validateAnthropicKey(
+	apiKey: string,
+	deps: {
+		fetch?: typeof fetch;
+	} = {},
+): Promise<void> {
+	const runFetch = deps.fetch ?? fetch;
+	// Listing models checks the key without spending tokens.
+	const response = await runFetch("https://api.anthropic.com/v1/models", {
+		headers: {
+			"x-api-key": apiKey,
+			"anthropic-version": "2023-06-01",
+		},
+	});
+
+	if (!response.ok) {
+		const body = await response.text().catch(() => response.statusText);
+		throw new Error(`Anthropic validation failed: ${response.status} ${body}`);
+	}
+
+	await response.json();
+}
@@ -1,6 +1,10 @@
+import { OPENAI_COMPATIBLE_DEFAULT_BASE_URL } from "../provider/openai-compatible";
 import { refreshBedrockModelsFromFoundation } from "../provider/unified-model-catalog";
 import { AMAZON_BEDROCK_DEFAULT_REGION, fetchBedrockFoundationModels } from "./amazon-bedrock";
+import { validateAnthropicKey } from "./anthropic";
 import { validateDeepSeekKey } from "./deepseek";
+import { validateOpenAIKey } from "./openai";
+import { validateOpenAICompatibleEndpoint } from "./openai-compatible";
 import { validateOpenCodeGoKey } from "./opencode-go";
 import { validateOpenCodeZenKey } from "./opencode-zen";
 import { validateOpenRouterKey } from "./openrouter";
@@ -12,7 +16,10 @@ import {
 	loadAuthStore,
 	saveAuthStore,
 	setAmazonBedrockAuth,
+	setAnthropicAuth,
 	setDeepSeekAuth,
+	setOpenAIAuth,
+	setOpenAICompatibleAuth,
 	setOpenCodeGoAuth,
 	setOpenCodeZenAuth,
 	setOpenRouterAuth,
@@ -134,6 +141,69 @@ export async function authorizeAmazonBedrock(
 	);
 }
 
+export async function authorizeAnthropic(
+	configDir: string,
+	deps: {
+		promptSecret?: (prompt: string) => Promise<string>;
+		validateAnthropicKey?: (apiKey: string) => Promise<void>;
+	} = {},
+): Promise<void> {
+	await authorizeApiKeyProvider(configDir, {
+		prompt: "Paste Anthropic API key: ",
+		readSecret: deps.promptSecret ?? promptSecret,
+		validateKey: deps.validateAnthropicKey ?? validateAnthropicKey,
+		setAuth: setAnthropicAuth,
+		successMessage: "Anthropic key saved",
+	});
+}
+
+export async function authorizeOpenAI(
+	configDir: string,
+	deps: {
+		promptSecret?: (prompt: string) => Promise<string>;
+		validateOpenAIKey?: (apiKey: string) => Promise<void>;
+	} = {},
+): Promise<void> {
+	await authorizeApiKeyProvider(configDir, {
+		prompt: "Paste OpenAI API key: ",
+		readSecret: deps.promptSecret ?? promptSecret,
+		validateKey: deps.validateOpenAIKey ?? validateOpenAIKey,
+		setAuth: setOpenAIAuth,
+		successMessage: "OpenAI key saved",
+	});
+}
+
+export async function authorizeOpenAICompatible(
+	configDir: string,
+	deps: {
+		promptSecret?: (prompt: string) => Promise<string>;
+		promptBaseUrl?: (prompt: string) => Promise<string>;
+		validateOpenAICompatibleEndpoint?: typeof validateOpenAICompatibleEndpoint;
+	} = {},
+): Promise<void> {
+	const readSecret = deps.promptSecret ?? promptSecret;
+	const readBaseUrl = deps.promptBaseUrl ?? promptText;
+	const validateEndpoint = deps.validateOpenAICompatibleEndpoint ?? validateOpenAICompatibleEndpoint;
+
+	const baseUrlInput = await readBaseUrl(`Base URL [${OPENAI_COMPATIBLE_DEFAULT_BASE_URL}]: `);
+	const baseUrl = baseUrlInput.trim() || OPENAI_COMPATIBLE_DEFAULT_BASE_URL;
+	const apiKey = (await readSecret("Paste API key (leave empty if the server needs none): ")).trim();
+	const modelIds = await validateEndpoint(baseUrl, apiKey);
+
+	const store: AuthStore = loadAuthStore(configDir) ?? { version: 1, providers: {} };
+	// Keep hand-added headers when only the URL or key changes.
+	const headers = store.providers["openai-compatible"]?.headers;
+	saveAuthStore(
+		configDir,
+		setOpenAICompatibleAuth(store, { baseUrl, ...(apiKey ? { apiKey } : {}), ...(headers ? { headers } : {}) }),
+	);
+	console.log(`OpenAI-compatible endpoint saved: ${baseUrl}`);
+	if (modelIds.length > 0) {
+		console.log(`Models reported by the server: ${modelIds.join(", ")}`);
+	}
+	console.log("Declare the models to use under openaiCompatible.models in bobai.json");
+}
+
 export async function authorizeTavily(
 	configDir: string,
 	deps: {
@@ -192,6 +262,27 @@ const AUTH_PROVIDERS: AuthProviderEntry[] = [
 			await authorizeDeepSeek(configDir);
 		},
 	},
+	{
+		id: "anthropic",
+		category: "model-provider",
+		authorize: async (configDir: string) => {
+			await authorizeAnthropic(configDir);
+		},
+	},
+	{
+		id: "openai",
+		category: "model-provider",
+		authorize: async (configDir: string) => {
+			await authorizeOpenAI(configDir);
+		},
+	},
+	{
+		id: "openai-compatible",
+		category: "model-provider",
+		authorize: async (configDir: string) => {
+			await authorizeOpenAICompatible(configDir);
+		},
+	},
 	{
 		id: "tavily",
 		category: "web-search",
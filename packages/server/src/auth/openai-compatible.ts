@@ -0,0 +1,35 @@
+import { normalizeOpenAICompatibleBaseUrl } from "../provider/openai-compatible";
+
+/**
+ * Check that an OpenAI-compatible server answers at `baseUrl`. Lists models
+ * rather than running a completion, since a local server may have none loaded
+ * and the model ids are only known once they are declared in bobai.json.
+ * Returns the model ids the server reports, to help the user declare them.
+ */
+export async function validateOpenAICompatibleEndpoint(
+	baseUrl: string,
+	apiKey: string,
+	deps: {
+		fetch?: typeof fetch;
+	} = {},
+): Promise<string[]> {
+	const runFetch = deps.fetch ?? fetch;
+	const url = `${normalizeOpenAICompatibleBaseUrl(baseUrl)}/models`;
+	let response: Response;
+	try {
+		response = await runFetch(url, {
+			headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+		});
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new Error(`OpenAI-compatible endpoint validation failed: cannot reach ${url}: ${message}`);
+	}
+
+	if (!response.ok) {
+		const body = await response.text().catch(() => response.statusText);
+		throw new Error(`OpenAI-compatible endpoint validation failed: ${response.status} ${body}`);
+	}
+
+	const body = (await response.json().catch(() => ({}))) as { data?: { id?: unknown }[] };
+	return (body.data ?? []).map((model) => model.id).filter((id): id is string => typeof id === "string");
+}
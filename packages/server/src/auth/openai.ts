@@ -0,0 +1,21 @@
+export async function validateOpenAIKey(
+	apiKey: string,
+	deps: {
+		fetch?: typeof fetch;
+	} = {},
+): Promise<void> {
+	const runFetch = deps.fetch ?? fetch;
+	// Listing models checks the key without spending tokens.
+	const response = await runFetch("https://api.openai.com/v1/models", {
+		headers: {
+			Authorization: `Bearer ${apiKey}`,
+		},
+	});
+
+	if (!response.ok) {
+		const body = await response.text().catch(() => response.statusText);
+		throw new Error(`OpenAI validation failed: ${response.status} ${body}`);
+	}
+
+	await response.json();
+}
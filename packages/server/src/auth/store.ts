@@ -24,6 +24,22 @@ export interface DeepSeekAuth {
 	apiKey: string;
 }
 
+export interface AnthropicAuth {
+	apiKey: string;
+}
+
+export interface OpenAIAuth {
+	apiKey: string;
+}
+
+/** A self-hosted or local server speaking the OpenAI chat completions API. */
+export interface OpenAICompatibleAuth {
+	/** The API root, e.g. `http://localhost:11434/v1`; requests go to `<baseUrl>/chat/completions`. */
+	baseUrl: string;
+	apiKey?: string;
+	headers?: Record<string, string>;
+}
+
 export interface TavilyAuth {
 	apiKey: string;
 }
@@ -36,6 +52,9 @@ export interface AuthStore {
 		"opencode-zen"?: OpenCodeZenAuth;
 		"amazon-bedrock"?: AmazonBedrockAuth;
 		deepseek?: DeepSeekAuth;
+		anthropic?: AnthropicAuth;
+		openai?: OpenAIAuth;
+		"openai-compatible"?: OpenAICompatibleAuth;
 		tavily?: TavilyAuth;
 	};
 }
@@ -131,6 +150,48 @@ export function setDeepSeekAuth(store: AuthStore, auth: DeepSeekAuth): AuthStore
 	};
 }
 
+export function getAnthropicAuth(store: AuthStore): AnthropicAuth | undefined {
+	return store.providers.anthropic;
+}
+
+export function setAnthropicAuth(store: AuthStore, auth: AnthropicAuth): AuthStore {
+	return {
+		...store,
+		providers: {
+			...store.providers,
+			anthropic: auth,
+		},
+	};
+}
+
+export function getOpenAIAuth(store: AuthStore): OpenAIAuth | undefined {
+	return store.providers.openai;
+}
+
+export function setOpenAIAuth(store: AuthStore, auth: OpenAIAuth): AuthStore {
+	return {
+		...store,
+		providers: {
+			...store.providers,
+			openai: auth,
+		},
+	};
+}
+
+export function getOpenAICompatibleAuth(store: AuthStore): OpenAICompatibleAuth | undefined {
+	return store.providers["openai-compatible"];
+}
+
+export function setOpenAICompatibleAuth(store: AuthStore, auth: OpenAICompatibleAuth): AuthStore {
+	return {
+		...store,
+		providers: {
+			...store.providers,
+			"openai-compatible": auth,
+		},
+	};
+}
+
 export function getTavilyAuth(store: AuthStore): TavilyAuth | undefined {
 	return store.providers.tavily;
 }
@@ -0,0 +1,49 @@
+/** The `budget` section of bobai.json (global or project). Amounts are in dollars. */
+export interface BudgetConfig {
+	/** Cap on one prompt, including the subagents it starts. */
+	perTurn?: number;
+	/** Cap on a session over its lifetime, including its subagent sessions. */
+	perSession?: number;
+	/** Cap on all sessions of the project since local midnight. */
+	perDay?: number;
+	/** Fractions of a cap (0–1, exclusive of 1) at which a warning is shown. */
+	warnAt?: number[];
+}
+
+/** Merged, validated budget used at runtime. */
+export interface BudgetPolicy {
+	perTurn?: number;
+	perSession?: number;
+	perDay?: number;
+	/** Ascending, deduplicated. */
+	warnAt: number[];
+}
+
+export const DEFAULT_BUDGET_WARN_AT = [0.8];
+
+function sanitizeAmount(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function sanitizeWarnAt(value: unknown): number[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	const fractions = value.filter((f): f is number => typeof f === "number" && f > 0 && f < 1);
+	return [...new Set(fractions)].sort((a, b) => a - b);
+}
+
+/**
+ * Merge the project and global `budget` sections into a runtime policy.
+ *
+ * Each field is taken from the project when set there, otherwise from the
+ * global config. Returns undefined when no cap is configured, so callers can
+ * skip cost tracking entirely. Non-positive amounts and warning fractions
+ * outside (0, 1) are dropped; an explicit empty `warnAt` disables warnings.
+ */
+export function resolveBudgetPolicy(project?: BudgetConfig, global?: BudgetConfig): BudgetPolicy | undefined {
+	const perTurn = sanitizeAmount(project?.perTurn) ?? sanitizeAmount(global?.perTurn);
+	const perSession = sanitizeAmount(project?.perSession) ?? sanitizeAmount(global?.perSession);
+	const perDay = sanitizeAmount(project?.perDay) ?? sanitizeAmount(global?.perDay);
+	if (perTurn === undefined && perSession === undefined && perDay === undefined) return undefined;
+	const warnAt = sanitizeWarnAt(project?.warnAt) ?? sanitizeWarnAt(global?.warnAt) ?? DEFAULT_BUDGET_WARN_AT;
+	return { perTurn, perSession, perDay, warnAt };
+}
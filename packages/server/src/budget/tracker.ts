@@ -0,0 +1,128 @@
+import type { Database } from "bun:sqlite";
+import { computeTurnCostDollars } from "../provider/cost-utils";
+import {
+	computeProjectCostDollarsSince,
+	computeSessionCostDollars,
+	getProviderModelConfig,
+	type ProviderModelConfig,
+} from "../provider/models";
+import type { ProviderId } from "../provider/providers";
+import type { BudgetPolicy } from "./policy";
+
+/** Thrown by the agent loop once a budget cap is reached; the message is shown to the user as is. */
+export class BudgetExceededError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "BudgetExceededError";
+	}
+}
+
+/** Tokens billed for one provider call. */
+export interface BudgetUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cachedInputTokens: number;
+	cacheCreationInputTokens: number;
+}
+
+export interface BudgetTracker {
+	/** Add the cost of one provider call (main session or subagent) and emit any warnings it crosses. */
+	recordUsage(providerId: string, model: string, usage: BudgetUsage): void;
+	/** The first cap that has been reached, or null while the turn may continue. */
+	exceeded(): BudgetExceededError | null;
+}
+
+export interface BudgetTrackerOptions {
+	policy: BudgetPolicy;
+	/** Top-level session of the turn; its subagent sessions count toward the session cap. */
+	rootSessionId: string;
+	configDir?: string;
+	onWarning: (message: string) => void;
+	/** Clock for the daily cap. Defaults to the current time. */
+	now?: Date;
+}
+
+interface BudgetCap {
+	label: string;
+	limit: number;
+	/** Spend recorded before this turn started. */
+	baseline: number;
+	/** Highest warning fraction already reached. */
+	warned: number;
+}
+
+function formatDollars(amount: number): string {
+	return `$${amount.toFixed(2)}`;
+}
+
+function startOfLocalDay(now: Date): string {
+	const start = new Date(now);
+	start.setHours(0, 0, 0, 0);
+	return start.toISOString();
+}
+
+/**
+ * Track spend for one turn against the configured caps.
+ *
+ * Session and daily spend already stored in the database are read once when
+ * the turn starts; calls made during the turn are added as they complete.
+ * Models without pricing in the catalog count as free.
+ */
+export function createBudgetTracker(db: Database, options: BudgetTrackerOptions): BudgetTracker {
+	const { policy, configDir, onWarning } = options;
+	const caps: BudgetCap[] = [];
+	const add = (label: string, limit: number | undefined, baseline: () => number) => {
+		if (limit === undefined) return;
+		const spent = baseline();
+		// Thresholds passed in earlier turns were already announced
+		const warned = policy.warnAt.filter((f) => spent >= f * limit).at(-1) ?? 0;
+		caps.push({ label, limit, baseline: spent, warned });
+	};
+	add("Turn", policy.perTurn, () => 0);
+	add("Session", policy.perSession, () => computeSessionCostDollars(db, options.rootSessionId, configDir));
+	add("Daily", policy.perDay, () => computeProjectCostDollarsSince(db, startOfLocalDay(options.now ?? new Date()), configDir));
+
+	let turnSpent = 0;
+
+	return {
+		recordUsage(providerId, model, usage) {
+			let modelConfig: ProviderModelConfig | undefined;
+			try {
+				modelConfig = getProviderModelConfig(providerId as ProviderId, model, configDir);
+			} catch {
+				// Provider without a model catalog — nothing to price
+			}
+			if (!modelConfig || modelConfig.inputPrice == null || modelConfig.outputPrice == null) return;
+			turnSpent += computeTurnCostDollars(
+				usage.inputTokens,
+				usage.outputTokens,
+				usage.cachedInputTokens,
+				usage.cacheCreationInputTokens,
+				modelConfig,
+			);
+
+			for (const cap of caps) {
+				const spent = cap.baseline + turnSpent;
+				if (spent >= cap.limit) continue;
+				const reached = policy.warnAt.filter((f) => f > cap.warned && spent >= f * cap.limit).at(-1);
+				if (reached === undefined) continue;
+				cap.warned = reached;
+				onWarning(
+					`${cap.label} budget ${Math.round(reached * 100)}% used: ${formatDollars(spent)} of ${formatDollars(cap.limit)}`,
+				);
+			}
+		},
+
+		exceeded() {
+			for (const cap of caps) {
+				const spent = cap.baseline + turnSpent;
+				if (spent >= cap.limit) {
+					return new BudgetExceededError(
+						`${cap.label} budget exceeded: ${formatDollars(spent)} of ${formatDollars(cap.limit)}`,
+					);
+				}
+			}
+			return null;
+		},
+	};
+}
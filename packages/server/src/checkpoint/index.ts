@@ -0,0 +1,122 @@
+import type { Database } from "bun:sqlite";
+import fs from "node:fs";
+import path from "node:path";
+import { FileTime } from "../file/time";
+import { getDescendantSessionIds, getRootSessionId, truncateSessionMessages } from "../session/repository";
+import { deleteFileSnapshotsFrom, insertFileSnapshot, listFileSnapshotsFrom, listSnapshotPathsByTurn } from "./repository";
+
+/**
+ * Records a file's content before a mutating tool overwrites it.
+ * `filePath` is absolute; the snapshot is attributed to the current turn of
+ * the session's top-level parent so subagent edits roll back with it.
+ */
+export type FileSnapshotRecorder = (sessionId: string, toolCallId: string, filePath: string) => void;
+
+/** One user turn of a top-level session — the point `.undo` and `.checkpoint` roll back to. */
+export interface Checkpoint {
+	/** 1-based position among the session's turns. */
+	index: number;
+	/** sort_order of the user message that started the turn. */
+	sortOrder: number;
+	/** The user prompt that started the turn. */
+	text: string;
+	createdAt: string;
+	/** Paths (relative to the project root) the turn's tool calls modified. */
+	files: string[];
+}
+
+export interface RollbackResult {
+	/** Files written back to their pre-turn content. */
+	restored: string[];
+	/** Files the rolled-back turns created, now removed. */
+	deleted: string[];
+	/** Whether the conversation was truncated back to the checkpoint. */
+	truncated: boolean;
+}
+
+export function createFileSnapshotRecorder(db: Database, projectRoot: string): FileSnapshotRecorder {
+	return (sessionId, toolCallId, filePath) => {
+		let content: Uint8Array | null;
+		try {
+			content = fs.readFileSync(filePath);
+		} catch (err) {
+			if ((err as NodeJS.ErrnoException).code !== "ENOENT") return;
+			content = null;
+		}
+
+		const rootSessionId = getRootSessionId(db, sessionId);
+		const turn = db
+			.prepare("SELECT MAX(sort_order) AS sort_order FROM messages WHERE session_id = ? AND role = 'user'")
+			.get(rootSessionId) as { sort_order: number | null };
+
+		insertFileSnapshot(db, {
+			sessionId,
+			rootSessionId,
+			turnSortOrder: turn.sort_order ?? 0,
+			toolCallId,
+			filePath: path.relative(projectRoot, filePath),
+			content,
+		});
+	};
+}
+
+export function listCheckpoints(db: Database, sessionId: string): Checkpoint[] {
+	const turns = db
+		.prepare("SELECT content, sort_order, created_at FROM messages WHERE session_id = ? AND role = 'user' ORDER BY sort_order")
+		.all(sessionId) as { content: string; sort_order: number; created_at: string }[];
+	const pathsByTurn = listSnapshotPathsByTurn(db, sessionId);
+	return turns.map((t, i) => ({
+		index: i + 1,
+		sortOrder: t.sort_order,
+		text: t.content,
+		createdAt: t.created_at,
+		files: pathsByTurn.get(t.sort_order) ?? [],
+	}));
+}
+
+/**
+ * Roll the workspace back to its state before the checkpoint's turn.
+ *
+ * Every file touched in that turn or a later one gets the content of its
+ * earliest snapshot in the range; files that did not exist yet are removed.
+ * With `truncate`, the conversation is cut back to before the turn's prompt
+ * as well, so the model never sees edits that are no longer on disk.
+ */
+export function rollbackToCheckpoint(
+	db: Database,
+	projectRoot: string,
+	sessionId: string,
+	checkpoint: Checkpoint,
+	options: { truncate: boolean },
+): RollbackResult {
+	const earliest = new Map<string, Uint8Array | null>();
+	for (const snapshot of listFileSnapshotsFrom(db, sessionId, checkpoint.sortOrder)) {
+		if (!earliest.has(snapshot.filePath)) earliest.set(snapshot.filePath, snapshot.content);
+	}
+
+	const restored: string[] = [];
+	const deleted: string[] = [];
+	for (const [filePath, content] of earliest) {
+		const resolved = path.resolve(projectRoot, filePath);
+		if (content) {
+			fs.mkdirSync(path.dirname(resolved), { recursive: true });
+			fs.writeFileSync(resolved, content);
+			restored.push(filePath);
+		} else if (fs.existsSync(resolved)) {
+			fs.rmSync(resolved);
+			deleted.push(filePath);
+		}
+	}
+
+	// Read stamps no longer describe what is on disk — force a re-read before the next edit
+	for (const id of [sessionId, ...getDescendantSessionIds(db, sessionId)]) {
+		FileTime.clearSession(id);
+	}
+
+	deleteFileSnapshotsFrom(db, sessionId, checkpoint.sortOrder);
+	if (options.truncate) {
+		truncateSessionMessages(db, sessionId, checkpoint.sortOrder);
+	}
+
+	return { restored, deleted, truncated: options.truncate };
+}
@@ -0,0 +1,112 @@
+import type { Database } from "bun:sqlite";
+
+export interface FileSnapshot {
+	id: number;
+	sessionId: string;
+	rootSessionId: string;
+	turnSortOrder: number;
+	toolCallId: string;
+	/** Path relative to the project root. */
+	filePath: string;
+	/** File bytes before the tool ran; null when the file did not exist. */
+	content: Uint8Array | null;
+	createdAt: string;
+}
+
+type FileSnapshotRow = {
+	id: number;
+	session_id: string;
+	root_session_id: string;
+	turn_sort_order: number;
+	tool_call_id: string;
+	file_path: string;
+	content: Uint8Array | null;
+	created_at: string;
+};
+
+function mapRow(r: FileSnapshotRow): FileSnapshot {
+	return {
+		id: r.id,
+		sessionId: r.session_id,
+		rootSessionId: r.root_session_id,
+		turnSortOrder: r.turn_sort_order,
+		toolCallId: r.tool_call_id,
+		filePath: r.file_path,
+		content: r.content,
+		createdAt: r.created_at,
+	};
+}
+
+const SELECT_COLUMNS = "id, session_id, root_session_id, turn_sort_order, tool_call_id, file_path, content, created_at";
+
+/** Create the file_snapshots table and index if they don't exist. Idempotent. */
+export function ensureCheckpointSchema(db: Database): void {
+	db.exec(`
+		CREATE TABLE IF NOT EXISTS file_snapshots (
+			id              INTEGER PRIMARY KEY AUTOINCREMENT,
+			session_id      TEXT NOT NULL,
+			root_session_id TEXT NOT NULL,
+			turn_sort_order INTEGER NOT NULL,
+			tool_call_id    TEXT NOT NULL,
+			file_path       TEXT NOT NULL,
+			content         BLOB,
+			created_at      TEXT NOT NULL
+		)
+	`);
+	db.exec("CREATE INDEX IF NOT EXISTS idx_file_snapshots_turn ON file_snapshots(root_session_id, turn_sort_order)");
+}
+
+export interface InsertFileSnapshotInput {
+	sessionId: string;
+	rootSessionId: string;
+	turnSortOrder: number;
+	toolCallId: string;
+	filePath: string;
+	content: Uint8Array | null;
+}
+
+export function insertFileSnapshot(db: Database, input: InsertFileSnapshotInput): void {
+	db.prepare(
+		`INSERT INTO file_snapshots (session_id, root_session_id, turn_sort_order, tool_call_id, file_path, content, created_at)
+		 VALUES (?, ?, ?, ?, ?, ?, ?)`,
+	).run(
+		input.sessionId,
+		input.rootSessionId,
+		input.turnSortOrder,
+		input.toolCallId,
+		input.filePath,
+		input.content,
+		new Date().toISOString(),
+	);
+}
+
+/** Snapshots taken during the given turn and every later one, oldest first. */
+export function listFileSnapshotsFrom(db: Database, rootSessionId: string, turnSortOrder: number): FileSnapshot[] {
+	const rows = db
+		.prepare(`SELECT ${SELECT_COLUMNS} FROM file_snapshots WHERE root_session_id = ? AND turn_sort_order >= ? ORDER BY id`)
+		.all(rootSessionId, turnSortOrder) as FileSnapshotRow[];
+	return rows.map(mapRow);
+}
+
+/** Distinct snapshotted paths per turn, keyed by the turn's user message sort_order. */
+export function listSnapshotPathsByTurn(db: Database, rootSessionId: string): Map<number, string[]> {
+	const rows = db
+		.prepare(
+			`SELECT turn_sort_order, file_path FROM file_snapshots
+			 WHERE root_session_id = ?
+			 GROUP BY turn_sort_order, file_path
+			 ORDER BY turn_sort_order, MIN(id)`,
+		)
+		.all(rootSessionId) as { turn_sort_order: number; file_path: string }[];
+	const result = new Map<number, string[]>();
+	for (const row of rows) {
+		const paths = result.get(row.turn_sort_order) ?? [];
+		paths.push(row.file_path);
+		result.set(row.turn_sort_order, paths);
+	}
+	return result;
+}
+
+export function deleteFileSnapshotsFrom(db: Database, rootSessionId: string, turnSortOrder: number): void {
+	db.prepare("DELETE FROM file_snapshots WHERE root_session_id = ? AND turn_sort_order >= ?").run(rootSessionId, turnSortOrder);
+}
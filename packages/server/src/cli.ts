@@ -14,7 +14,116 @@ export interface RefreshCommand {
 	debug: boolean;
 }
 
-export type CLICommand = ServeCommand | AuthCommand | RefreshCommand;
+export interface RunCommand {
+	command: "run";
+	debug: boolean;
+	prompt: string;
+	sessionId?: string;
+	provider?: string;
+	model?: string;
+	/** Emit NDJSON events instead of plain text. */
+	json: boolean;
+}
+
+export interface ExportCommand {
+	command: "export";
+	debug: boolean;
+	sessionId: string;
+	format: "markdown" | "json" | "html";
+	/** File to write; stdout when omitted. */
+	output?: string;
+}
+
+export interface ImportCommand {
+	command: "import";
+	debug: boolean;
+	file: string;
+}
+
+export type CLICommand = ServeCommand | AuthCommand | RefreshCommand | RunCommand | ExportCommand | ImportCommand;
+
+const RUN_VALUE_FLAGS = ["--session", "--provider", "--model"] as const;
+
+function parseRun(argv: string[], debug: boolean): RunCommand {
+	const values: Partial<Record<(typeof RUN_VALUE_FLAGS)[number], string>> = {};
+	const positional: string[] = [];
+	let json = false;
+
+	for (let i = 1; i < argv.length; i++) {
+		const arg = argv[i] as string;
+		const flag = RUN_VALUE_FLAGS.find((f) => f === arg);
+		if (flag) {
+			const value = argv[i + 1];
+			if (value === undefined || value.startsWith("--")) {
+				throw new Error(`${flag} requires a value`);
+			}
+			values[flag] = value;
+			i++;
+		} else if (arg === "--json") {
+			json = true;
+		} else if (arg === "--debug") {
+			// handled above
+		} else if (arg.startsWith("--")) {
+			throw new Error(`Unknown option for run: ${arg}`);
+		} else {
+			positional.push(arg);
+		}
+	}
+
+	const prompt = positional.join(" ").trim();
+	if (!prompt) {
+		throw new Error('Usage: bobai run "<prompt>" [--session id] [--provider p --model m] [--json]');
+	}
+
+	return {
+		command: "run",
+		debug,
+		prompt,
+		json,
+		...(values["--session"] ? { sessionId: values["--session"] } : {}),
+		...(values["--provider"] ? { provider: values["--provider"] } : {}),
+		...(values["--model"] ? { model: values["--model"] } : {}),
+	};
+}
+
+const EXPORT_USAGE = "Usage: bobai export <sessionId> [--format markdown|json|html] [--output file]";
+
+function parseExport(argv: string[], debug: boolean): ExportCommand {
+	let format: ExportCommand["format"] = "markdown";
+	let output: string | undefined;
+	const positional: string[] = [];
+
+	for (let i = 1; i < argv.length; i++) {
+		const arg = argv[i] as string;
+		if (arg === "--format" || arg === "--output") {
+			const value = argv[i + 1];
+			if (value === undefined || value.startsWith("--")) {
+				throw new Error(`${arg} requires a value`);
+			}
+			if (arg === "--output") {
+				output = value;
+			} else if (value === "markdown" || value === "json" || value === "html") {
+				format = value;
+			} else {
+				throw new Error(`Unknown export format: ${value} (expected markdown, json or html)`);
+			}
+			i++;
+		} else if (arg === "--debug") {
+			// handled above
+		} else if (arg.startsWith("--")) {
+			throw new Error(`Unknown option for export: ${arg}`);
+		} else {
+			positional.push(arg);
+		}
+	}
+
+	const sessionId = positional[0];
+	if (!sessionId || positional.length > 1) {
+		throw new Error(EXPORT_USAGE);
+	}
+
+	return { command: "export", debug, sessionId, format, ...(output ? { output } : {}) };
+}
 
 export function parseCLI(argv: string[]): CLICommand {
 	const debug = argv.includes("--debug");
@@ -31,5 +140,21 @@ export function parseCLI(argv: string[]): CLICommand {
 		return { command: "refresh", debug };
 	}
 
+	if (argv[0] === "run") {
+		return parseRun(argv, debug);
+	}
+
+	if (argv[0] === "export") {
+		return parseExport(argv, debug);
+	}
+
+	if (argv[0] === "import") {
+		const file = argv.find((arg, index) => index > 0 && !arg.startsWith("--"));
+		if (!file) {
+			throw new Error("Usage: bobai import <file.json>");
+		}
+		return { command: "import", debug, file };
+	}
+
 	return { command: "serve", debug };
 }
@@ -1,4 +1,8 @@
 import type { Database } from "bun:sqlite";
+import { type Checkpoint, listCheckpoints, rollbackToCheckpoint } from "./checkpoint";
+import { clearSnapshot } from "./compaction/cache";
+import { type CompactionSettings, listCompactionPolicies, selectCompactionPolicy } from "./compaction/config";
+import { findPinTargets, listPinnedResults, type PinSummary, summarizePins } from "./compaction/pin";
 import { formatConfig } from "./config/display";
 import { updateGlobalConfig, updateProjectConfig } from "./config/write";
 import {
@@ -14,12 +18,38 @@ import {
 	clearSessionContextLimit,
 	countSessionMessages,
 	createSession,
+	forkSession,
+	getMessages,
 	getSession,
+	type StoredMessage,
+	setToolResultsPinned,
 	updateSessionBackend,
+	updateSessionCompactionPolicy,
 	updateSessionContextLimit,
 	updateSessionTitle,
 } from "./session/repository";
 
+/** Dot commands `handleCommand` runs on the server. */
+export const SERVER_COMMANDS = [
+	"checkpoint",
+	"configuration",
+	"fork",
+	"limit",
+	"model",
+	"pin",
+	"policy",
+	"provider",
+	"title",
+	"undo",
+	"unpin",
+] as const;
+
+/** Dot commands the UI handles on its own (approvals, navigation, downloads). */
+export const UI_COMMANDS = ["approve", "deny", "export", "new", "search", "session", "stop", "subagent", "view"] as const;
+
+/** Every built-in dot command; plugin commands cannot take these names. */
+export const BUILT_IN_COMMANDS: ReadonlySet<string> = new Set<string>([...SERVER_COMMANDS, ...UI_COMMANDS]);
+
 export interface CommandRequest {
 	command: string;
 	args: string;
@@ -34,6 +64,10 @@ export interface CommandOptions {
 	projectRoot?: string;
 	projectConfig?: { debug?: boolean; port?: number; provider?: string; model?: string; maxIterations?: number };
 	globalConfig?: { debug?: boolean; port?: number; provider?: string; model?: string; maxIterations?: number };
+	/** True while an agent loop is running for the session — rollback is refused then. */
+	isSessionBusy?: (sessionId: string) => boolean;
+	/** Compaction policies `.policy` can select from. Omitted = the built-in ones. */
+	compaction?: CompactionSettings;
 }
 
 export type CommandResult =
@@ -45,6 +79,10 @@ export type CommandResult =
 			model?: string;
 			contextLimit?: number | null;
 			messages?: { text: string; kind: "info" | "success" | "error" }[];
+			/** Set by rollback commands when session messages were removed — the client reloads the session. */
+			truncated?: boolean;
+			/** Set by `.pin` / `.unpin`: the session's pins after the command. */
+			pins?: PinSummary;
 	  }
 	| { ok: false; error: string };
 
@@ -54,6 +92,14 @@ export function handleCommand(db: Database, req: CommandRequest, options: Comman
 	const defaultProviderId = options.defaultProviderId ?? null;
 	const defaultModel = options.defaultModel ?? null;
 
+	// Nothing to roll back without a session
+	if (!sessionId && (command === "undo" || command === "checkpoint")) {
+		return { ok: false, error: "No session to roll back" };
+	}
+	if (!sessionId && command === "fork") {
+		return { ok: false, error: "No session to fork" };
+	}
+
 	// Create a session on the fly if none exists yet (skip for configuration command)
 	if (!sessionId && command !== "configuration") {
 		const backend = resolveConfiguredSessionBackend(defaultProviderId, defaultModel);
@@ -98,6 +144,18 @@ export function handleCommand(db: Database, req: CommandRequest, options: Comman
 				handleLimitCommand(db, sessionId, args, { defaultProviderId, defaultModel, configDir: options.configDir }),
 				sessionId,
 			);
+		case "policy":
+			return withSessionId(handlePolicyCommand(db, sessionId, args, options), sessionId);
+		case "pin":
+		case "unpin":
+			return withSessionId(handlePinCommand(db, sessionId, args, command === "pin"), sessionId);
+		case "undo":
+			return withSessionId(handleUndoCommand(db, sessionId, args, options), sessionId);
+		case "checkpoint":
+			return withSessionId(handleCheckpointCommand(db, sessionId, args, options), sessionId);
+		case "fork":
+			// The result carries the new session's id, not the current one
+			return handleForkCommand(db, sessionId, args, options);
 		case "configuration":
 			return handleConfigurationCommand(args, options);
 		default:
@@ -215,10 +273,11 @@ function handleProviderCommand(
 				hasMessages,
 				current,
 				nextProvider: selected.id as ProviderId,
+				configDir: options.configDir,
 			})
 		: hasMessages
 			? { ok: false, error: "Changing provider for a session with messages is not yet supported." }
-			: { ok: true, next: getDefaultSessionBackend(selected.id as ProviderId) };
+			: { ok: true, next: getDefaultSessionBackend(selected.id as ProviderId, options.configDir) };
 	if (!transition.ok) {
 		return transition;
 	}
@@ -287,6 +346,187 @@ function handleLimitCommand(
 	};
 }
 
+/** `.policy [n|name]` — show or pick the session's compaction policy. */
+function handlePolicyCommand(db: Database, sessionId: string, args: string, options: CommandOptions): CommandResult {
+	const trimmed = args.trim();
+	if (!trimmed) {
+		const current = selectCompactionPolicy(options.compaction, getSession(db, sessionId)?.compactionPolicy);
+		return { ok: true, messages: [{ text: `Compaction policy: ${current.name} — ${current.description}`, kind: "info" }] };
+	}
+	const policies = listCompactionPolicies(options.compaction);
+	const policy = /^\d+$/.test(trimmed)
+		? policies.find((p) => p.index === Number.parseInt(trimmed, 10))
+		: policies.find((p) => p.name === trimmed);
+	if (!policy) {
+		return {
+			ok: false,
+			error: `Unknown compaction policy: "${trimmed}". Available: ${policies.map((p) => p.name).join(", ")}`,
+		};
+	}
+	updateSessionCompactionPolicy(db, sessionId, policy.name);
+	// The cached prefix was compacted under the old policy; the next prompt recompacts from scratch
+	clearSnapshot(sessionId);
+	return { ok: true, messages: [{ text: `Compaction policy: ${policy.name}`, kind: "success" }] };
+}
+
+// ---------------------------------------------------------------------------
+// Pin commands (.pin / .unpin)
+// ---------------------------------------------------------------------------
+
+/**
+ * `.pin [last|file]` — keep the most recent tool result, or the latest
+ * read_file result of a file, out of compaction. Without an argument, lists
+ * the pins. `.unpin [last|file]` releases the matching pins, or all of them.
+ */
+function handlePinCommand(db: Database, sessionId: string, args: string, pin: boolean): CommandResult {
+	const session = getSession(db, sessionId);
+	if (session?.parentId) {
+		return { ok: false, error: "Subagent sessions cannot be pinned" };
+	}
+	const target = args.trim();
+	const stored = getMessages(db, sessionId);
+	const pinned = listPinnedResults(stored);
+	const summarize = (messages: StoredMessage[]) =>
+		summarizePins(messages, session?.promptTokens ?? 0, session?.promptChars ?? 0);
+
+	if (pin && !target) {
+		if (pinned.length === 0) {
+			return { ok: true, messages: [{ text: "No pinned tool results", kind: "info" }] };
+		}
+		const pins = summarize(stored);
+		return {
+			ok: true,
+			pins,
+			messages: [
+				{ text: `${pinned.length} pinned, ~${pins.tokens} tokens`, kind: "info" },
+				...pinned.map((p) => ({ text: p.label, kind: "info" as const })),
+			],
+		};
+	}
+
+	const ids = target ? findPinTargets(stored, target, pin) : pinned.map((p) => p.toolCallId);
+	if (ids.length === 0) {
+		if (!target) return { ok: false, error: "Nothing is pinned" };
+		return { ok: false, error: target === "last" ? "No tool results yet" : `No read_file result for "${target}"` };
+	}
+	const changed = setToolResultsPinned(db, sessionId, ids, pin);
+	// The cached prefix was compacted under the old pins; the next prompt recompacts from scratch
+	if (changed > 0) clearSnapshot(sessionId);
+
+	const after = getMessages(db, sessionId);
+	const pins = summarize(after);
+	const what = pin
+		? (listPinnedResults(after).find((p) => p.toolCallId === ids[0])?.label ?? target)
+		: `${changed} result${changed === 1 ? "" : "s"}`;
+	const text =
+		changed > 0
+			? `${pin ? "Pinned" : "Unpinned"} ${what} (~${pins.tokens} tokens pinned)`
+			: pin
+				? "Already pinned"
+				: "Not pinned";
+	return { ok: true, pins, messages: [{ text, kind: changed > 0 ? "success" : "info" }] };
+}
+
+// ---------------------------------------------------------------------------
+// Checkpoint commands (.undo / .checkpoint)
+// ---------------------------------------------------------------------------
+
+/** `.undo [n]` — roll back the last n turns (default 1), files and conversation. */
+function handleUndoCommand(db: Database, sessionId: string, args: string, options: CommandOptions): CommandResult {
+	const trimmed = args.trim();
+	const count = trimmed ? Number.parseInt(trimmed, 10) : 1;
+	if (!/^\d*$/.test(trimmed) || count < 1) {
+		return { ok: false, error: `Invalid turn count: "${trimmed}"` };
+	}
+	const checkpoints = listCheckpoints(db, sessionId);
+	if (checkpoints.length === 0) {
+		return { ok: false, error: "Nothing to undo" };
+	}
+	if (count > checkpoints.length) {
+		return { ok: false, error: `Only ${checkpoints.length} turn${checkpoints.length === 1 ? "" : "s"} to undo` };
+	}
+	return rollback(db, sessionId, checkpoints[checkpoints.length - count] as Checkpoint, true, options);
+}
+
+/** `.checkpoint <n> [files]` — roll back to before turn n; `files` keeps the conversation. */
+function handleCheckpointCommand(db: Database, sessionId: string, args: string, options: CommandOptions): CommandResult {
+	const [indexArg = "", mode, ...rest] = args.trim().split(/\s+/);
+	const index = Number.parseInt(indexArg, 10);
+	if (!/^\d+$/.test(indexArg) || rest.length > 0 || (mode !== undefined && mode !== "files")) {
+		return { ok: false, error: "Usage: .checkpoint <n> [files]" };
+	}
+	const checkpoint = listCheckpoints(db, sessionId).find((c) => c.index === index);
+	if (!checkpoint) {
+		return { ok: false, error: `Invalid checkpoint index: ${indexArg}` };
+	}
+	return rollback(db, sessionId, checkpoint, mode !== "files", options);
+}
+
+function rollback(
+	db: Database,
+	sessionId: string,
+	checkpoint: Checkpoint,
+	truncate: boolean,
+	options: CommandOptions,
+): CommandResult {
+	if (getSession(db, sessionId)?.parentId) {
+		return { ok: false, error: "Subagent sessions cannot be rolled back" };
+	}
+	if (options.isSessionBusy?.(sessionId)) {
+		return { ok: false, error: "Cannot roll back while the agent is working" };
+	}
+	if (!options.projectRoot) {
+		return { ok: false, error: "Project root not available" };
+	}
+
+	const result = rollbackToCheckpoint(db, options.projectRoot, sessionId, checkpoint, { truncate });
+	const changed = result.restored.length + result.deleted.length;
+	const files = changed === 0 ? "no files changed" : `${changed} file${changed === 1 ? "" : "s"} restored`;
+	const scope = truncate ? "workspace and conversation" : "workspace";
+	const messages: { text: string; kind: "info" | "success" | "error" }[] = [
+		{ text: `Rolled ${scope} back to before turn ${checkpoint.index} (${files})`, kind: "success" },
+	];
+	for (const file of result.restored) messages.push({ text: `restored ${file}`, kind: "info" });
+	for (const file of result.deleted) messages.push({ text: `deleted ${file}`, kind: "info" });
+	return { ok: true, messages, truncated: result.truncated };
+}
+
+// ---------------------------------------------------------------------------
+// Fork command
+// ---------------------------------------------------------------------------
+
+/** `.fork [n]` — continue in a new session holding the first n turns (default: all of them). */
+function handleForkCommand(db: Database, sessionId: string, args: string, options: CommandOptions): CommandResult {
+	const trimmed = args.trim();
+	if (!/^\d*$/.test(trimmed)) {
+		return { ok: false, error: "Usage: .fork [n]" };
+	}
+	const source = getSession(db, sessionId);
+	if (source?.parentId) {
+		return { ok: false, error: "Subagent sessions cannot be forked" };
+	}
+	if (options.isSessionBusy?.(sessionId)) {
+		return { ok: false, error: "Cannot fork while the agent is working" };
+	}
+	const turnCount = listCheckpoints(db, sessionId).length;
+	if (turnCount === 0) {
+		return { ok: false, error: "Nothing to fork" };
+	}
+	const turns = trimmed ? Number.parseInt(trimmed, 10) : turnCount;
+	if (turns < 1 || turns > turnCount) {
+		return { ok: false, error: `Invalid turn: ${trimmed}` };
+	}
+
+	const fork = forkSession(db, sessionId, turns);
+	if (!fork) return { ok: false, error: "Session not found" };
+	const range = turns === 1 ? "turn 1" : `turns 1–${turns}`;
+	return {
+		ok: true,
+		sessionId: fork.id,
+		messages: [{ text: `Forked ${range} of ${source?.title ?? "the session"} into a new session`, kind: "success" }],
+	};
+}
+
 // ---------------------------------------------------------------------------
 // Configuration command
 // ---------------------------------------------------------------------------
@@ -15,6 +15,8 @@ export interface CompactToBudgetOptions {
 	/** Label for the log line: "pre-prompt" or "emergency". */
 	type: "pre-prompt" | "emergency";
 	sessionId?: string;
+	/** tool_call_ids whose results are never compacted or evicted. */
+	pinned?: ReadonlySet<string>;
 	onReadFileCompacted?: (toolCallId: string, callArgs: Record<string, unknown>) => void;
 	logger?: Logger;
 }
@@ -52,7 +54,7 @@ export interface CompactToBudgetResult {
  * - Content already fits within the budget
  */
 export function compactToBudget(options: CompactToBudgetOptions): CompactToBudgetResult {
-	const { messages, contextWindow, promptTokens, promptChars, target, tools, sessionId, logger } = options;
+	const { messages, contextWindow, promptTokens, promptChars, target, tools, sessionId, pinned, logger } = options;
 
 	const charsPerToken = promptTokens > 0 && promptChars > 0 ? promptChars / promptTokens : 0;
 	const charBudget = computeCharBudget(contextWindow, target, promptTokens, promptChars);
@@ -113,6 +115,7 @@ export function compactToBudget(options: CompactToBudgetOptions): CompactToBudge
 			multiplier,
 			tools,
 			sessionId,
+			pinned,
 			onReadFileCompacted: options.onReadFileCompacted,
 		});
 
@@ -164,6 +167,7 @@ export function compactToBudget(options: CompactToBudgetOptions): CompactToBudge
 		multiplier: bestMultiplier,
 		tools,
 		sessionId,
+		pinned,
 	});
 	const finalCharsAfter = totalContentChars(finalMessages);
 
@@ -207,6 +211,7 @@ export function compactWithMultiplier(
 	multiplier: number,
 	tools: ToolRegistry,
 	sessionId?: string,
+	pinned?: ReadonlySet<string>,
 ): CompactWithMultiplierResult {
 	const {
 		messages: finalMessages,
@@ -217,6 +222,7 @@ export function compactWithMultiplier(
 		multiplier,
 		tools,
 		sessionId,
+		pinned,
 	});
 	return { messages: finalMessages, preEviction, details };
 }
@@ -0,0 +1,82 @@
+import {
+	BUILTIN_COMPACTION_POLICIES,
+	type CompactionPolicy,
+	type CompactionPolicyConfig,
+	DEFAULT_COMPACTION_POLICY,
+	DEFAULT_COMPACTION_POLICY_NAME,
+	layerCompactionPolicy,
+} from "./policy";
+
+/**
+ * The `compaction` section of bobai.json (global or project). The policy
+ * fields at the top level tune the base every named policy is layered on.
+ */
+export interface CompactionConfig extends CompactionPolicyConfig {
+	/** Replace evicted tool output with an LLM-written summary of the evicted span. Default false. */
+	summarize?: boolean;
+	/** Policy for sessions that have not picked one with `.policy`. Default "default". */
+	policy?: string;
+	/** Named policies, added to the built-in ones or overriding their fields. */
+	policies?: Record<string, CompactionPolicyConfig>;
+}
+
+/** Merged compaction settings used at runtime. */
+export interface CompactionSettings {
+	summarize: boolean;
+	/** Name of the policy used by sessions without their own choice; always a key of `policies`. */
+	defaultPolicy: string;
+	/** Every selectable policy by name, built-ins first. */
+	policies: Record<string, CompactionPolicy>;
+}
+
+/**
+ * Merge the project and global `compaction` sections; project fields win.
+ *
+ * Each policy is the built-in default, then the global and project
+ * top-level fields, then the built-in policy of that name, then the global
+ * and project `policies` entries of that name. An unknown `policy` falls
+ * back to "default".
+ */
+export function resolveCompactionSettings(project?: CompactionConfig, global?: CompactionConfig): CompactionSettings {
+	const summarize = typeof project?.summarize === "boolean" ? project.summarize : global?.summarize === true;
+	const base = layerCompactionPolicy(DEFAULT_COMPACTION_POLICY, DEFAULT_COMPACTION_POLICY_NAME, [global, project]);
+	const names = new Set([
+		...Object.keys(BUILTIN_COMPACTION_POLICIES),
+		...Object.keys(global?.policies ?? {}),
+		...Object.keys(project?.policies ?? {}),
+	]);
+	const policies: Record<string, CompactionPolicy> = {};
+	for (const name of names) {
+		policies[name] = layerCompactionPolicy(base, name, [
+			BUILTIN_COMPACTION_POLICIES[name],
+			global?.policies?.[name],
+			project?.policies?.[name],
+		]);
+	}
+	const requested = project?.policy ?? global?.policy;
+	const defaultPolicy = requested && policies[requested] ? requested : DEFAULT_COMPACTION_POLICY_NAME;
+	return { summarize, defaultPolicy, policies };
+}
+
+/**
+ * The policy a session compacts with: its own `.policy` choice while that
+ * still exists, otherwise the configured default. Without settings, the
+ * built-in policies apply.
+ */
+export function selectCompactionPolicy(
+	settings: CompactionSettings | undefined,
+	sessionPolicy?: string | null,
+): CompactionPolicy {
+	const resolved = settings ?? resolveCompactionSettings();
+	return (
+		(sessionPolicy ? resolved.policies[sessionPolicy] : undefined) ??
+		resolved.policies[resolved.defaultPolicy] ??
+		DEFAULT_COMPACTION_POLICY
+	);
+}
+
+/** Selectable policies in pick-list order, numbered from 1 as `.policy <n>` expects. */
+export function listCompactionPolicies(settings?: CompactionSettings): (CompactionPolicy & { index: number })[] {
+	const resolved = settings ?? resolveCompactionSettings();
+	return Object.values(resolved.policies).map((policy, i) => ({ ...policy, index: i + 1 }));
+}
@@ -17,6 +17,8 @@ export interface CompactionOptions {
 	tools: ToolRegistry;
 	/** Session identifier passed to tool compact() context (e.g. for task tool). */
 	sessionId?: string;
+	/** tool_call_ids pinned with `.pin`: their results and call arguments are never compacted or evicted. */
+	pinned?: ReadonlySet<string>;
 	/** Called when a read_file tool output is compacted, so callers can invalidate FileTime stamps. */
 	onReadFileCompacted?(toolCallId: string, callArgs: Record<string, unknown>): void;
 }
@@ -49,6 +51,8 @@ export interface CompactionDetail {
 	wasCompacted: boolean;
 	/** Whether this message was evicted (factor >= 1.0). */
 	wasEvicted: boolean;
+	/** Pinned with `.pin`: kept verbatim whatever the factor. */
+	pinned?: boolean;
 	/** If compaction was skipped because savings were below MIN_COMPACTION_SAVINGS. */
 	belowMinSavings?: boolean;
 	/** Characters saved by output compaction. */
@@ -131,6 +135,7 @@ export function compactMessagesWithStats(options: CompactionOptions): Compaction
 
 function compactMessagesInternal(options: CompactionOptions): CompactionResult {
 	const { messages, multiplier, tools, sessionId } = options;
+	const pinned = options.pinned ?? new Set<string>();
 	const totalMessages = messages.length;
 
 	// Count total tool messages for stats
@@ -192,8 +197,10 @@ function compactMessagesInternal(options: CompactionOptions): CompactionResult {
 		if (msg.role === "assistant") {
 			const assistantMsg = msg as AssistantMessage;
 			const factor = computeCompactionFactor(distance, multiplier, NON_TOOL_DISTANCE);
+			// A pinned tool result needs the call that produced it
+			const holdsPin = assistantMsg.tool_calls?.some((tc) => pinned.has(tc.id)) ?? false;
 
-			if (factor >= 1.0) {
+			if (factor >= 1.0 && !holdsPin) {
 				evictedIndices.add(i);
 				evictedCount++;
 				anyChanged = true;
@@ -210,7 +217,7 @@ function compactMessagesInternal(options: CompactionOptions): CompactionResult {
 			const clonedCalls = assistantMsg.tool_calls.map((tc) => {
 				const info = toolCallMap.get(tc.id);
 				const tool = info?.tool;
-				if (!tool) return tc;
+				if (!tool || pinned.has(tc.id)) return tc;
 				if (tool.argsThreshold === undefined) return tc;
 				if (!tool.compactArgs) return tc;
 
@@ -286,6 +293,24 @@ function compactMessagesInternal(options: CompactionOptions): CompactionResult {
 			const priorDetail = details.get(toolMsg.tool_call_id);
 			const savedArgsChars = priorDetail?.savedArgsChars ?? 0;
 
+			// Pinned → kept verbatim
+			if (pinned.has(toolMsg.tool_call_id)) {
+				compactedMessages.push(msg);
+				details.set(toolMsg.tool_call_id, {
+					distance,
+					compactionFactor: factor,
+					baseDistance: maxDist,
+					outputThreshold: tool?.outputThreshold,
+					argsThreshold: tool?.argsThreshold,
+					wasCompacted: false,
+					wasEvicted: false,
+					pinned: true,
+					savedChars: 0,
+					savedArgsChars,
+				});
+				continue;
+			}
+
 			// Factor >= 1.0 → evict
 			if (factor >= 1.0) {
 				evictedIndices.add(i);
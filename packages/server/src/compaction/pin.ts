@@ -0,0 +1,111 @@
+import path from "node:path";
+import type { StoredMessage } from "../session/repository";
+import { estimateCharsPerToken } from "./strength";
+
+/** A tool result the user pinned, so compaction keeps it verbatim. */
+export interface PinnedResult {
+	toolCallId: string;
+	tool: string;
+	/** Tool name, followed by the file path for file tools. */
+	label: string;
+	/** Characters the result keeps in context: its output plus its call arguments. */
+	chars: number;
+}
+
+/** What a session's pins cost, as shown in the status bar. */
+export interface PinSummary {
+	toolCallIds: string[];
+	chars: number;
+	/** `chars` at the session's measured chars-per-token ratio. */
+	tokens: number;
+}
+
+interface ToolCallInfo {
+	name: string;
+	args: Record<string, unknown>;
+	argsChars: number;
+}
+
+function collectToolCalls(stored: StoredMessage[]): Map<string, ToolCallInfo> {
+	const calls = new Map<string, ToolCallInfo>();
+	for (const msg of stored) {
+		if (msg.role !== "assistant") continue;
+		const toolCalls = msg.metadata?.tool_calls as { id: string; function: { name: string; arguments: string } }[] | undefined;
+		for (const tc of toolCalls ?? []) {
+			let args: Record<string, unknown>;
+			try {
+				args = JSON.parse(tc.function.arguments);
+			} catch {
+				args = {};
+			}
+			calls.set(tc.id, { name: tc.function.name, args, argsChars: tc.function.arguments.length });
+		}
+	}
+	return calls;
+}
+
+function toolCallIdOf(msg: StoredMessage): string | undefined {
+	return msg.role === "tool" ? (msg.metadata?.tool_call_id as string | undefined) : undefined;
+}
+
+/** tool_call_ids of the session's pinned tool results, for the compaction engine. */
+export function getPinnedToolCallIds(stored: StoredMessage[]): Set<string> {
+	const pinned = new Set<string>();
+	for (const msg of stored) {
+		const id = toolCallIdOf(msg);
+		if (id && msg.metadata?.pinned === true) pinned.add(id);
+	}
+	return pinned;
+}
+
+/** The session's pinned tool results in conversation order. */
+export function listPinnedResults(stored: StoredMessage[]): PinnedResult[] {
+	const calls = collectToolCalls(stored);
+	const results: PinnedResult[] = [];
+	for (const msg of stored) {
+		const id = toolCallIdOf(msg);
+		if (!id || msg.metadata?.pinned !== true) continue;
+		const call = calls.get(id);
+		const tool = call?.name ?? "unknown";
+		const filePath = typeof call?.args.path === "string" ? call.args.path : null;
+		results.push({
+			toolCallId: id,
+			tool,
+			label: filePath ? `${tool} ${filePath}` : tool,
+			chars: msg.content.length + (call?.argsChars ?? 0),
+		});
+	}
+	return results;
+}
+
+/** Total size of the session's pins, estimated in tokens. */
+export function summarizePins(stored: StoredMessage[], promptTokens: number, promptChars: number): PinSummary {
+	const results = listPinnedResults(stored);
+	const chars = results.reduce((sum, r) => sum + r.chars, 0);
+	return {
+		toolCallIds: results.map((r) => r.toolCallId),
+		chars,
+		tokens: Math.round(chars / estimateCharsPerToken(promptTokens, promptChars)),
+	};
+}
+
+/**
+ * tool_call_ids a `.pin` / `.unpin` argument refers to: "last" is the most
+ * recent tool result; anything else is a file path, matching read_file
+ * results whose path is the same or ends with it. With `latestOnly`, only
+ * the most recent match is returned.
+ */
+export function findPinTargets(stored: StoredMessage[], target: string, latestOnly: boolean): string[] {
+	const calls = collectToolCalls(stored);
+	const ids = stored.map(toolCallIdOf).filter((id): id is string => id !== undefined);
+	if (target === "last") return ids.slice(-1);
+
+	const wanted = path.normalize(target);
+	const matches = ids.filter((id) => {
+		const call = calls.get(id);
+		if (call?.name !== "read_file" || typeof call.args.path !== "string") return false;
+		const readPath = path.normalize(call.args.path);
+		return readPath === wanted || readPath.endsWith(`${path.sep}${wanted}`);
+	});
+	return latestOnly ? matches.slice(-1) : matches;
+}
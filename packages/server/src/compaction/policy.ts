@@ -0,0 +1,148 @@
+import type { Tool, ToolRegistry } from "../tool/tool";
+import { COMPACTION_OUTPUT_TARGET, EMERGENCY_TARGET, NON_TOOL_DISTANCE, PRE_PROMPT_TARGET } from "./strength";
+
+/** Replaces the compaction constants a tool module declares. */
+export interface ToolCompactionOverride {
+	baseDistance?: number;
+	/** Ignored for tools without a compact() method. */
+	outputThreshold?: number;
+	/** Ignored for tools without a compactArgs() method. */
+	argsThreshold?: number;
+}
+
+/** A compaction policy as written in bobai.json; unset fields keep the value it is layered on. */
+export interface CompactionPolicyConfig {
+	description?: string;
+	/** Pre-prompt compaction triggers above this fraction of the context window (0–1). */
+	prePromptTarget?: number;
+	/** Mid-turn (emergency) compaction triggers above this fraction of the context window (0–1). */
+	emergencyTarget?: number;
+	/** Triggered compaction compacts down to this fraction of the context window (0–1). */
+	outputTarget?: number;
+	/** Per-tool overrides keyed by tool name. */
+	tools?: Record<string, ToolCompactionOverride>;
+}
+
+/** A fully resolved compaction policy. */
+export interface CompactionPolicy {
+	name: string;
+	description: string;
+	prePromptTarget: number;
+	emergencyTarget: number;
+	outputTarget: number;
+	tools: Record<string, ToolCompactionOverride>;
+}
+
+export const DEFAULT_COMPACTION_POLICY_NAME = "default";
+
+export const DEFAULT_COMPACTION_POLICY: CompactionPolicy = {
+	name: DEFAULT_COMPACTION_POLICY_NAME,
+	description: "Built-in targets and per-tool thresholds",
+	prePromptTarget: PRE_PROMPT_TARGET,
+	emergencyTarget: EMERGENCY_TARGET,
+	outputTarget: COMPACTION_OUTPUT_TARGET,
+	tools: {},
+};
+
+/** Policies every project can select, in pick-list order. bobai.json may override their fields. */
+export const BUILTIN_COMPACTION_POLICIES: Record<string, CompactionPolicyConfig> = {
+	[DEFAULT_COMPACTION_POLICY_NAME]: {},
+	conservative: {
+		description: "Compact late and keep more output; for short sessions and small scripts",
+		prePromptTarget: 0.9,
+		emergencyTarget: 0.95,
+		outputTarget: 0.7,
+	},
+	aggressive: {
+		description: "Compact early and deep; for long sessions in large repositories",
+		prePromptTarget: 0.6,
+		emergencyTarget: 0.85,
+		outputTarget: 0.35,
+		tools: {
+			read_file: { outputThreshold: 0.15 },
+			grep_search: { outputThreshold: 0.15 },
+			findstr: { outputThreshold: 0.15 },
+			list_directory: { outputThreshold: 0.1 },
+		},
+	},
+	"keep-reads": {
+		description: "Never compact or evict read_file output; other tools absorb the pressure",
+		tools: { read_file: { baseDistance: NON_TOOL_DISTANCE } },
+	},
+};
+
+function sanitizeFraction(value: unknown): number | undefined {
+	return typeof value === "number" && value > 0 && value <= 1 ? value : undefined;
+}
+
+function sanitizeThreshold(value: unknown): number | undefined {
+	return typeof value === "number" && value >= 0 && value <= 1 ? value : undefined;
+}
+
+function sanitizeToolOverride(value: unknown): ToolCompactionOverride {
+	if (!value || typeof value !== "object") return {};
+	const raw = value as Record<string, unknown>;
+	const override: ToolCompactionOverride = {};
+	if (typeof raw.baseDistance === "number" && Number.isFinite(raw.baseDistance) && raw.baseDistance > 0) {
+		override.baseDistance = raw.baseDistance;
+	}
+	const outputThreshold = sanitizeThreshold(raw.outputThreshold);
+	if (outputThreshold !== undefined) override.outputThreshold = outputThreshold;
+	const argsThreshold = sanitizeThreshold(raw.argsThreshold);
+	if (argsThreshold !== undefined) override.argsThreshold = argsThreshold;
+	return override;
+}
+
+/**
+ * Layer policy configs onto a resolved policy, later layers winning field by
+ * field. Tool overrides merge per tool and per field. Targets outside (0, 1],
+ * thresholds outside [0, 1] and non-positive distances are dropped.
+ */
+export function layerCompactionPolicy(
+	base: CompactionPolicy,
+	name: string,
+	layers: (CompactionPolicyConfig | undefined)[],
+): CompactionPolicy {
+	const policy: CompactionPolicy = { ...base, name, tools: { ...base.tools } };
+	for (const layer of layers) {
+		if (!layer) continue;
+		if (typeof layer.description === "string") policy.description = layer.description;
+		policy.prePromptTarget = sanitizeFraction(layer.prePromptTarget) ?? policy.prePromptTarget;
+		policy.emergencyTarget = sanitizeFraction(layer.emergencyTarget) ?? policy.emergencyTarget;
+		policy.outputTarget = sanitizeFraction(layer.outputTarget) ?? policy.outputTarget;
+		if (layer.tools && typeof layer.tools === "object") {
+			for (const [toolName, override] of Object.entries(layer.tools)) {
+				policy.tools[toolName] = { ...policy.tools[toolName], ...sanitizeToolOverride(override) };
+			}
+		}
+	}
+	return policy;
+}
+
+/**
+ * Wrap a tool registry so the compaction engine sees the policy's per-tool
+ * constants. Execution is unaffected; only compaction reads these fields.
+ */
+export function applyCompactionPolicy(tools: ToolRegistry, policy: CompactionPolicy): ToolRegistry {
+	if (Object.keys(policy.tools).length === 0) return tools;
+	const cache = new Map<string, Tool | undefined>();
+	return {
+		definitions: tools.definitions,
+		get(name: string) {
+			if (cache.has(name)) return cache.get(name);
+			const tool = tools.get(name);
+			const override = policy.tools[name];
+			const result =
+				tool && override
+					? {
+							...tool,
+							baseDistance: override.baseDistance ?? tool.baseDistance,
+							outputThreshold: tool.compact ? (override.outputThreshold ?? tool.outputThreshold) : tool.outputThreshold,
+							argsThreshold: tool.compactArgs ? (override.argsThreshold ?? tool.argsThreshold) : tool.argsThreshold,
+						}
+					: tool;
+			cache.set(name, result);
+			return result;
+		},
+	};
+}
@@ -13,6 +13,7 @@
 
 import fs from "node:fs";
 import path from "node:path";
+import { applyPatchTool } from "../tool/apply-patch";
 import { editFileTool } from "../tool/edit-file";
 import { fileSearchTool } from "../tool/file-search";
 import { listDirectoryTool } from "../tool/list-directory";
@@ -100,6 +101,7 @@ export function createCompactionRegistry(availableTools?: import("../platform/ty
 		fileSearchTool,
 		writeFileTool,
 		editFileTool,
+		applyPatchTool,
 		sqlite3Tool,
 		webFetchTool,
 		webSearchCompactionStub,
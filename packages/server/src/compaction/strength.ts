@@ -35,6 +35,11 @@ export const COMPACTION_OUTPUT_TARGET = 0.5;
  */
 const FALLBACK_CHARS_PER_TOKEN = 3;
 
+/** The session's measured chars-per-token ratio, or the fallback before the first API call. */
+export function estimateCharsPerToken(promptTokens: number, promptChars: number): number {
+	return promptTokens > 0 && promptChars > 0 ? promptChars / promptTokens : FALLBACK_CHARS_PER_TOKEN;
+}
+
 /**
  * Compute the character budget for a given context window and target fraction.
  *
@@ -44,8 +49,7 @@ const FALLBACK_CHARS_PER_TOKEN = 3;
  */
 export function computeCharBudget(contextWindow: number, target: number, promptTokens: number, promptChars: number): number {
 	if (contextWindow <= 0) return 0;
-	const charsPerToken = promptTokens > 0 && promptChars > 0 ? promptChars / promptTokens : FALLBACK_CHARS_PER_TOKEN;
-	return Math.round(contextWindow * target * charsPerToken);
+	return Math.round(contextWindow * target * estimateCharsPerToken(promptTokens, promptChars));
 }
 
 function extractReasoningText(reasoning: { kind: string; text?: string; summary?: string; details?: unknown }): string {
@@ -0,0 +1,177 @@
+import type { Logger } from "../log/logger";
+import { computeTurnCostDollars } from "../provider/cost-utils";
+import type { ProviderModelConfig } from "../provider/models";
+import type { AssistantMessage, Message, Provider, StreamMetrics } from "../provider/provider";
+import type { CompactionDetail } from "./engine";
+
+/** Output cap for the summary call; the summary replaces content, so it must stay small. */
+export const SUMMARY_MAX_OUTPUT_TOKENS = 2048;
+
+/** Per-message cap in the transcript sent to the summarizer. */
+const SUMMARY_MESSAGE_CHAR_LIMIT = 2000;
+
+const SUMMARY_SYSTEM_PROMPT = `You condense the early part of a coding-agent conversation whose tool output is about to be dropped from the context window.
+
+Write a structured summary with exactly these Markdown sections:
+
+## Goals
+## Decisions
+## Files touched
+## Open TODOs
+
+Use terse bullet points. Keep file paths, identifiers, commands and numbers exact. Record what was found and decided, not the steps taken to find it. Write "- none" for an empty section.
+
+When a previous summary is given, merge it with the new messages into one summary that replaces it.`;
+
+/** LLM-written summary of the conversation span whose tool output was evicted. */
+export interface CompactionSummary {
+	text: string;
+	/** Number of conversation messages (system prompt excluded) the summary covers, counted from the start. */
+	coveredMessages: number;
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+	cachedInputTokens: number;
+	cacheCreationInputTokens: number;
+	/** Estimated from catalog prices; 0 for unpriced models. */
+	costDollars: number;
+}
+
+export interface SummarizeEvictionOptions {
+	provider: Provider;
+	model: string;
+	/** Post-compaction, pre-eviction messages with the system prompt at index 0. */
+	compacted: Message[];
+	/** Per-tool-call decisions of the same compaction run. */
+	details: Map<string, CompactionDetail>;
+	/** Summary stored by an earlier compaction of this session, extended instead of rewritten. */
+	previous?: CompactionSummary;
+	/** Upper bound on the transcript sent to the summarizer, in characters. */
+	maxTranscriptChars: number;
+	modelConfig?: ProviderModelConfig;
+	sessionId?: string;
+	signal?: AbortSignal;
+	logger?: Logger;
+}
+
+/**
+ * Number of conversation messages, counted from the start, up to and
+ * including the last tool result that the compaction run evicted.
+ * Returns 0 when nothing was evicted.
+ */
+export function findEvictedSpan(compacted: Message[], details: Map<string, CompactionDetail>): number {
+	let covered = 0;
+	for (let i = 1; i < compacted.length; i++) {
+		const msg = compacted[i];
+		if (msg.role === "tool" && details.get(msg.tool_call_id)?.wasEvicted) covered = i;
+	}
+	return covered;
+}
+
+function formatTranscriptMessage(msg: Message): string {
+	const clip = (text: string) =>
+		text.length > SUMMARY_MESSAGE_CHAR_LIMIT ? `${text.slice(0, SUMMARY_MESSAGE_CHAR_LIMIT)}\n[…truncated]` : text;
+	if (msg.role === "assistant") {
+		const assistant = msg as AssistantMessage;
+		const calls = (assistant.tool_calls ?? []).map((tc) => `→ ${tc.function.name}(${clip(tc.function.arguments)})`);
+		return [`[assistant]`, assistant.content ? clip(assistant.content) : "", ...calls].filter(Boolean).join("\n");
+	}
+	if (msg.role === "tool") return `[tool result ${msg.tool_call_id}]\n${clip(msg.content)}`;
+	return `[${msg.role}]\n${clip(msg.content)}`;
+}
+
+/** Render messages as a plain transcript, dropping the oldest ones when over `maxChars`. */
+function buildTranscript(messages: Message[], maxChars: number): string {
+	const parts = messages.map(formatTranscriptMessage);
+	let total = parts.reduce((sum, p) => sum + p.length + 2, 0);
+	let dropped = 0;
+	while (dropped < parts.length - 1 && total > maxChars) {
+		total -= parts[dropped].length + 2;
+		dropped++;
+	}
+	const kept = parts.slice(dropped);
+	if (dropped > 0) kept.unshift(`[${dropped} earlier messages omitted]`);
+	return kept.join("\n\n");
+}
+
+/**
+ * Summarize the span whose tool output the compaction run evicted.
+ *
+ * Makes one tool-less provider call over the span's compacted messages. A
+ * previous summary that already covers the span is reused as is; one that
+ * covers part of it is merged with the newly evicted messages only. When the
+ * call fails, the previous summary (if any) is kept and compaction falls back
+ * to plain eviction for the rest.
+ */
+export async function summarizeEviction(options: SummarizeEvictionOptions): Promise<CompactionSummary | undefined> {
+	const { provider, model, compacted, previous, modelConfig, logger } = options;
+	const covered = findEvictedSpan(compacted, options.details);
+	const conversationLength = compacted.length - 1;
+	const usablePrevious = previous && previous.coveredMessages <= conversationLength ? previous : undefined;
+	if (covered === 0) return undefined;
+	if (usablePrevious && usablePrevious.coveredMessages >= covered) return usablePrevious;
+
+	const from = usablePrevious?.coveredMessages ?? 0;
+	const transcript = buildTranscript(compacted.slice(1 + from, 1 + covered), options.maxTranscriptChars);
+	const prompt = usablePrevious
+		? `<previous_summary>\n${usablePrevious.text}\n</previous_summary>\n\n<conversation>\n${transcript}\n</conversation>`
+		: `<conversation>\n${transcript}\n</conversation>`;
+
+	let text = "";
+	const usage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, cacheCreationInputTokens: 0 };
+	const onMetrics = (metrics: StreamMetrics) => {
+		usage.inputTokens += metrics.promptTokens;
+		usage.outputTokens += metrics.outputTokens;
+		usage.cachedInputTokens += metrics.cachedInputTokens ?? 0;
+		usage.cacheCreationInputTokens += metrics.cacheCreationInputTokens ?? 0;
+	};
+	try {
+		for await (const event of provider.stream({
+			model,
+			messages: [
+				{ role: "system", content: SUMMARY_SYSTEM_PROMPT },
+				{ role: "user", content: prompt },
+			],
+			signal: options.signal,
+			sessionId: options.sessionId,
+			maxOutputTokens: Math.min(SUMMARY_MAX_OUTPUT_TOKENS, modelConfig?.maxOutput ?? SUMMARY_MAX_OUTPUT_TOKENS),
+			onMetrics,
+		})) {
+			if (event.type === "text") text += event.text;
+		}
+	} catch (err) {
+		logger?.warn("COMPACTION", `summarization failed, keeping plain eviction: ${(err as Error).message}`);
+		return usablePrevious;
+	}
+	if (!text.trim()) {
+		logger?.warn("COMPACTION", "summarization returned no text, keeping plain eviction");
+		return usablePrevious;
+	}
+
+	const costDollars = modelConfig
+		? computeTurnCostDollars(
+				usage.inputTokens,
+				usage.outputTokens,
+				usage.cachedInputTokens,
+				usage.cacheCreationInputTokens,
+				modelConfig,
+			)
+		: 0;
+	logger?.debug(
+		"COMPACTION",
+		`summarized messages ${from + 1}-${covered}: in: ${usage.inputTokens}, out: ${usage.outputTokens}, chars: ${text.length}`,
+	);
+	return { text: text.trim(), coveredMessages: covered, model, ...usage, costDollars };
+}
+
+/** The message that stands in for the summarized span. */
+export function formatSummaryMessage(summary: CompactionSummary): string {
+	return `[Summary of conversation messages 1-${summary.coveredMessages}, written when their tool output was evicted from context]\n\n${summary.text}`;
+}
+
+/** Insert the summary right after the system prompt, where the evicted span began. */
+export function injectSummary(messages: Message[], summary: CompactionSummary): Message[] {
+	const summaryMessage: Message = { role: "user", content: formatSummaryMessage(summary) };
+	if (messages[0]?.role === "system") return [messages[0], summaryMessage, ...messages.slice(1)];
+	return [summaryMessage, ...messages];
+}
@@ -43,7 +43,7 @@ function validateLayer(layer: BackendConfigLayer, configDir: string, logger?: Pi
 	}
 	const modelExists = buildSortedProviderModelList(provider, configDir).some((entry) => entry.id === model);
 	if (!modelExists) {
-		const defaultModel = getDefaultModelForProvider(provider);
+		const defaultModel = getDefaultModelForProvider(provider, configDir);
 		logError(logger, `Model ${model} in ${filePath} is invalid, falling back to ${defaultModel}`);
 		return { provider, model: defaultModel };
 	}
@@ -1,5 +1,14 @@
 import fs from "node:fs";
 import path from "node:path";
+import type { BudgetConfig } from "../budget/policy";
+import type { CompactionConfig } from "../compaction/config";
+import type { McpServersConfig } from "../mcp/config";
+import type { PermissionConfig } from "../permission/policy";
+import type { SandboxConfig } from "../platform/sandbox";
+import type { PluginsConfig } from "../plugins/api";
+import type { FailoverConfig } from "../provider/failover-policy";
+import type { ModelRolesConfig } from "../provider/model-roles";
+import type { OpenAICompatibleConfig } from "../provider/openai-compatible-models";
 
 export interface GlobalPreferences {
 	provider?: string;
@@ -7,6 +16,15 @@ export interface GlobalPreferences {
 	maxIterations?: number;
 	debug?: boolean;
 	port?: number;
+	permissions?: PermissionConfig;
+	budget?: BudgetConfig;
+	failover?: FailoverConfig;
+	roles?: ModelRolesConfig;
+	compaction?: CompactionConfig;
+	mcpServers?: McpServersConfig;
+	plugins?: PluginsConfig;
+	sandbox?: SandboxConfig;
+	openaiCompatible?: OpenAICompatibleConfig;
 }
 
 export interface GlobalConfig {
@@ -0,0 +1,86 @@
+import { structuredPatch } from "diff";
+
+/** Hunks past this many lines are dropped from a file's diff and `truncated` is set. */
+export const MAX_DIFF_LINES = 2000;
+
+/** Unchanged lines shown around each change. */
+const CONTEXT_LINES = 3;
+
+/**
+ * Diffing gives up past this many changed lines or this long, since the diff
+ * runs on the server's event loop and would be truncated anyway.
+ */
+const MAX_EDIT_LENGTH = MAX_DIFF_LINES;
+const DIFF_TIMEOUT_MS = 500;
+
+/** One hunk of a unified diff; each line starts with " ", "+", "-" or "\" (no newline at end of file). */
+export interface DiffHunk {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	lines: string[];
+}
+
+/**
+ * What a tool changed in one file, sent to the UI with the tool result and
+ * persisted in the tool message metadata under `diff`.
+ */
+export interface FileDiff {
+	/** Path as given in the tool call. */
+	path: string;
+	status: "modified" | "created" | "deleted";
+	added: number;
+	removed: number;
+	hunks: DiffHunk[];
+	/**
+	 * Set when the last hunks were dropped to stay under MAX_DIFF_LINES; `added` and `removed` still count every line.
+	 * When the change was too large to diff at all, there are no hunks and the counts treat the file as rewritten.
+	 */
+	truncated?: boolean;
+}
+
+/** The diff between `before` and `after`; null stands for a file that does not exist. */
+export function buildFileDiff(filePath: string, before: string | null, after: string | null): FileDiff {
+	const patch = structuredPatch(filePath, filePath, before ?? "", after ?? "", undefined, undefined, {
+		context: CONTEXT_LINES,
+		maxEditLength: MAX_EDIT_LENGTH,
+		timeout: DIFF_TIMEOUT_MS,
+	});
+	const diff: FileDiff = {
+		path: filePath,
+		status: before === null ? "created" : after === null ? "deleted" : "modified",
+		added: 0,
+		removed: 0,
+		hunks: [],
+	};
+	if (!patch) {
+		return { ...diff, added: countLines(after ?? ""), removed: countLines(before ?? ""), truncated: true };
+	}
+	let kept = 0;
+	for (const hunk of patch.hunks) {
+		for (const line of hunk.lines) {
+			if (line.startsWith("+")) diff.added++;
+			else if (line.startsWith("-")) diff.removed++;
+		}
+		if (diff.truncated || kept + hunk.lines.length > MAX_DIFF_LINES) {
+			diff.truncated = true;
+			continue;
+		}
+		kept += hunk.lines.length;
+		diff.hunks.push({
+			oldStart: hunk.oldStart,
+			oldLines: hunk.oldLines,
+			newStart: hunk.newStart,
+			newLines: hunk.newLines,
+			lines: hunk.lines,
+		});
+	}
+	return diff;
+}
+
+function countLines(text: string): number {
+	if (text === "") return 0;
+	const lines = text.split("\n").length;
+	return text.endsWith("\n") ? lines - 1 : lines;
+}
@@ -1,28 +1,43 @@
 import type { Database } from "bun:sqlite";
 import path from "node:path";
-import type { AgentEvent } from "./agent-loop";
+import type { AgentEvent, CompletedToolCall } from "./agent-loop";
 import { runAgentLoop } from "./agent-loop";
 import { getTavilyAuth, loadAuthStore } from "./auth/store";
+import type { BudgetPolicy } from "./budget/policy";
+import { BudgetExceededError, createBudgetTracker } from "./budget/tracker";
+import { createFileSnapshotRecorder } from "./checkpoint";
 import { getSnapshot, setSnapshot } from "./compaction/cache";
 import { type CompactToBudgetResult, compactToBudget } from "./compaction/compact-to-budget";
+import { type CompactionSettings, selectCompactionPolicy } from "./compaction/config";
 import { writeCompactionDump } from "./compaction/dump";
-import { COMPACTION_OUTPUT_TARGET, computeCharBudget, PRE_PROMPT_TARGET, totalContentChars } from "./compaction/strength";
+import { getPinnedToolCallIds } from "./compaction/pin";
+import { applyCompactionPolicy } from "./compaction/policy";
+import { computeCharBudget, totalContentChars } from "./compaction/strength";
+import { type CompactionSummary, injectSummary, summarizeEviction } from "./compaction/summarize";
 import { DbDisconnectedError, type DbGuard } from "./db-guard";
+import type { FileDiff } from "./file/diff";
 import { FileTime } from "./file/time";
 import { formatPromptDate } from "./format-date";
 import { loadInstructions } from "./instructions";
 import type { Logger } from "./log/logger";
 import { runWithScope } from "./log/logger";
 import { sessionScope } from "./log/session-tag";
-import { buildMemoryIndex } from "./memory/index";
-import { listMemories } from "./memory/repository";
+import { buildMemoryIndex, buildMemoryRecall, MEMORY_RECALL_METADATA_KEY, withRecalledMemories } from "./memory/index";
+import { listIndexableMemories, recallMemories } from "./memory/scope";
 import { repairMessageOrdering } from "./message-repair";
-import type { AvailableTools, PlatformInfo } from "./platform";
+import { createPermissionGate, type RequestApproval } from "./permission/gate";
+import type { PermissionPolicy } from "./permission/policy";
+import { type AvailableTools, describeSandbox, type PlatformInfo, type Sandbox } from "./platform";
+import { appendPluginTools, type PluginRegistry } from "./plugins/registry";
+import type { ProcessManager } from "./process/manager";
 import { getProjectInfo } from "./project-info";
 import type { StagedSkill } from "./protocol";
 import { send } from "./protocol";
 import { getApiFamilyForModel, getDefaultSessionBackend } from "./provider/backend-policy";
+import { createFailoverProvider, type FailoverProvider } from "./provider/failover";
+import type { FailoverPolicy } from "./provider/failover-policy";
 import { createIsolatedTurnProvider } from "./provider/isolated-turn";
+import { type ModelRoles, type RoleBackend, resolveRoleBackend } from "./provider/model-roles";
 import { formatProviderModelDisplay, formatSessionCostDisplay, getProviderModelConfig } from "./provider/models";
 import type { AssistantMessage, Message, Provider } from "./provider/provider";
 import { AuthError, ProviderError, TimeoutError } from "./provider/provider";
@@ -44,6 +59,7 @@ import type { SkillRegistry } from "./skill/skill";
 import { SubagentStatus } from "./subagent-status";
 import type { SystemPromptDebug, SystemPromptMetadata } from "./system-prompt";
 import { buildSystemPrompt } from "./system-prompt";
+import { applyPatchTool } from "./tool/apply-patch";
 import { browserCloseTabTool } from "./tool/browser-close-tab";
 import { browserConnectTool } from "./tool/browser-connect";
 import { browserEvaluateTool } from "./tool/browser-evaluate";
@@ -53,12 +69,13 @@ import { editFileTool } from "./tool/edit-file";
 import { fileSearchTool } from "./tool/file-search";
 import { listDirectoryTool } from "./tool/list-directory";
 import { createMemoryTool } from "./tool/memory";
+import { createProcessTool } from "./tool/process";
 import { readFileTool } from "./tool/read-file";
 import { getGrepTool, getShellTool } from "./tool/registry-helpers";
 import { createSkillTool } from "./tool/skill";
 import { sqlite3Tool } from "./tool/sqlite3";
 import { createTaskTool } from "./tool/task";
-import { createToolRegistry } from "./tool/tool";
+import { createToolRegistry, type Tool } from "./tool/tool";
 import { webFetchTool } from "./tool/web-fetch";
 import { createWebSearchTool } from "./tool/web-search";
 import { writeFileTool } from "./tool/write-file";
@@ -70,6 +87,8 @@ const subagentStatus = new SubagentStatus();
 export interface PromptRequest {
 	ws: { send: (msg: string) => void };
 	db: Database;
+	/** Cross-project memory store (~/.config/bobai/memory.db). Omitted = project memories only. */
+	globalMemoryDb?: Database;
 	provider?: Provider;
 	runtimeManager?: ProviderRuntimeManager;
 	defaultProviderId?: ProviderId | null;
@@ -89,6 +108,26 @@ export interface PromptRequest {
 	dbGuard?: DbGuard;
 	availableTools?: AvailableTools;
 	platformInfo?: PlatformInfo;
+	/** Sandbox for shell commands (the `sandbox` section of bobai.json). Omitted = commands run unconfined. */
+	sandbox?: Sandbox;
+	/** Tool permission policy from bobai.json. Omitted = every tool call is allowed. */
+	permissions?: PermissionPolicy;
+	/** Asks the connected client to approve a tool call ("ask" policy). */
+	requestApproval?: RequestApproval;
+	/** Tools from connected MCP servers (see mcp/manager.ts). */
+	mcpTools?: Tool[];
+	/** Background processes; offers the `process` tool when bash is available. Not given to subagents. */
+	processes?: ProcessManager;
+	/** Tools, hooks and prompt sections registered by plugins (see plugins/loader.ts). */
+	plugins?: PluginRegistry;
+	/** Cost caps from bobai.json. Omitted = no limit. */
+	budget?: BudgetPolicy;
+	/** Retry and failover settings from bobai.json. Omitted = a provider error ends the turn. */
+	failover?: FailoverPolicy;
+	/** Models for subagents and compaction summaries from bobai.json. Omitted = the session's model. */
+	modelRoles?: ModelRoles;
+	/** Compaction settings from bobai.json. Omitted = the built-in default policy, without summaries. */
+	compaction?: CompactionSettings;
 }
 
 function resolveConfiguredSessionBackend(defaultProviderId: ProviderId | null, defaultModel: string | null) {
@@ -101,6 +140,44 @@ function resolveConfiguredSessionBackend(defaultProviderId: ProviderId | null, d
 	};
 }
 
+/** `turn_metrics` message metadata, read back by the session cost total. */
+function turnMetricsMetadata(turnMetrics: ReturnType<NonNullable<Provider["getTurnMetrics"]>> | undefined) {
+	if (!turnMetrics) return {};
+	return {
+		turn_metrics: {
+			input_tokens_total: turnMetrics.inputTokensTotal,
+			output_tokens_total: turnMetrics.outputTokensTotal,
+			input_tokens_last: turnMetrics.inputTokensLast,
+			output_tokens_last: turnMetrics.outputTokensLast,
+			context_delta: turnMetrics.contextDelta,
+			cached_input_tokens_total: turnMetrics.cachedInputTokensTotal,
+			cache_creation_input_tokens_total: turnMetrics.cacheCreationInputTokensTotal,
+		},
+	};
+}
+
+/** `turn_provider` and `turn_model` metadata: the backend that served the turn, which a failover may have changed. */
+function servedBackendMetadata(provider: Provider | undefined, fallbackProviderId: string | undefined, model: string | null) {
+	return {
+		turn_model: model ? (provider?.resolveModel?.(model) ?? model) : model,
+		turn_provider: provider?.id ?? fallbackProviderId,
+	};
+}
+
+/** `failover` message metadata: the backend switches made during the turn. */
+function failoverMetadata(failover: FailoverProvider | undefined) {
+	const records = failover?.getFailovers() ?? [];
+	return records.length > 0 ? { failover: records } : {};
+}
+
+/** The turn summary with the providers it failed over through, e.g. " | failover: opencode-zen → openrouter". */
+function withFailoverSummary(summary: string | undefined, failover: FailoverProvider | undefined): string | undefined {
+	const records = failover?.getFailovers() ?? [];
+	if (!summary || records.length === 0) return summary;
+	const providers = [records[0]?.from.provider, ...records.map((r) => r.to.provider)];
+	return `${summary} | failover: ${providers.join(" → ")}`;
+}
+
 function routeEventToWs(ws: { send: (msg: string) => void }, event: AgentEvent & { sessionId?: string }) {
 	if (event.type === "text") {
 		send(ws, { type: "token", text: event.text, sessionId: event.sessionId });
@@ -119,8 +196,12 @@ function routeEventToWs(ws: { send: (msg: string) => void }, event: AgentEvent &
 			output: event.output,
 			mergeable: event.mergeable,
 			summary: event.summary,
+			diff: event.metadata?.diff as FileDiff[] | undefined,
+			failed: event.failed,
 			sessionId: event.sessionId,
 		});
+	} else if (event.type === "tool_output") {
+		send(ws, { type: "tool_output", id: event.id, output: event.output, sessionId: event.sessionId });
 	} else if (event.type === "status") {
 		send(ws, { type: "status", text: event.text, sessionId: event.sessionId });
 	}
@@ -138,6 +219,7 @@ export async function handlePrompt(req: PromptRequest) {
 	let effectiveModel = model ?? null;
 	let lastAssistantMessageId: string | null = null;
 	let turnProvider: ReturnType<typeof createIsolatedTurnProvider> | undefined;
+	let failoverProvider: FailoverProvider | undefined;
 	let scopedLogger: ReturnType<NonNullable<PromptRequest["logger"]>["withScope"]> | undefined;
 
 	try {
@@ -229,8 +311,16 @@ export async function handlePrompt(req: PromptRequest) {
 			send(ws, { type: "prompt_echo", text });
 		}
 
-		// Persist the user message
-		appendMessage(db, currentSessionId, "user", text);
+		// Persist the user message, with the memories relevant to it; the system prompt only lists recent ones
+		const memoryRecall = buildMemoryRecall(recallMemories(db, req.globalMemoryDb, text));
+		appendMessage(
+			db,
+			currentSessionId,
+			"user",
+			text,
+			memoryRecall ? { [MEMORY_RECALL_METADATA_KEY]: memoryRecall } : undefined,
+		);
+		await req.plugins?.runBeforeTurn({ sessionId: currentSessionId, prompt: text, projectRoot });
 
 		// Load full conversation history and convert to Message[]
 		const stored = getMessages(db, currentSessionId);
@@ -251,7 +341,7 @@ export async function handlePrompt(req: PromptRequest) {
 						...(m.metadata?.reasoning ? { reasoning: m.metadata.reasoning as AssistantMessage["reasoning"] } : {}),
 					};
 				}
-				return { role: m.role as "user", content: m.content };
+				return { role: m.role as "user", content: withRecalledMemories(m.content, m.metadata) };
 			});
 
 		// Repair any message ordering issues from interrupted or concurrent agent loops
@@ -265,8 +355,42 @@ export async function handlePrompt(req: PromptRequest) {
 		const tavilyApiKey = authStore ? getTavilyAuth(authStore)?.apiKey : undefined;
 		const webSearchTool = createWebSearchTool(tavilyApiKey);
 
+		const authorizeToolCall = req.permissions ? createPermissionGate(req.permissions, req.requestApproval) : undefined;
+		const recordFileSnapshot = createFileSnapshotRecorder(db, projectRoot);
+		const budget = req.budget
+			? createBudgetTracker(db, {
+					policy: req.budget,
+					rootSessionId: currentSessionId,
+					configDir,
+					onWarning: (message) => send(ws, { type: "warning", message }),
+				})
+			: undefined;
+		const plugins = req.plugins;
+		const afterToolCall = plugins
+			? (call: CompletedToolCall) => plugins.runAfterToolCall({ ...call, sessionId: currentSessionId as string })
+			: undefined;
+
+		// The session's `.policy` choice, or the configured default
+		const compactionPolicy = selectCompactionPolicy(req.compaction, getSession(db, currentSessionId)?.compactionPolicy);
+		// Tool results pinned with `.pin` are never compacted or evicted
+		const pinned = getPinnedToolCallIds(stored);
+
+		// Backends on other providers for roles (subagents, summaries), with the same retries and failover
+		async function getRoleProvider(id: ProviderId): Promise<Provider> {
+			if (!runtimeManager) throw new Error("No provider runtime to create it");
+			const roleProvider = await runtimeManager.get(id);
+			if (!req.failover) return roleProvider;
+			return createFailoverProvider({
+				primary: roleProvider,
+				policy: req.failover,
+				getProvider: (fallbackId) => runtimeManager.get(fallbackId),
+				logger: scopedLogger,
+			});
+		}
+
 		const taskTool = createTaskTool({
 			db,
+			globalMemoryDb: req.globalMemoryDb,
 			provider: activeProvider,
 			model: effectiveModel,
 			parentSessionId: currentSessionId,
@@ -285,14 +409,23 @@ export async function handlePrompt(req: PromptRequest) {
 			subagentStatus,
 			availableTools: req.availableTools,
 			platformInfo: req.platformInfo,
+			sandbox: req.sandbox,
 			webSearchTool,
 			browserEvaluateTool,
 			browserExportSessionTool,
+			authorizeToolCall,
+			recordFileSnapshot,
+			budget,
+			mcpTools: req.mcpTools,
+			plugins: req.plugins,
+			compactionPolicy,
+			modelRoles: req.modelRoles,
+			getProvider: runtimeManager ? getRoleProvider : undefined,
 		});
 
 		const skillTool = createSkillTool(skills);
 
-		const memoryTool = createMemoryTool(db);
+		const memoryTool = createMemoryTool(db, { globalDb: req.globalMemoryDb });
 
 		// Build the tool registry dynamically based on platform-available tools.
 		const availableTools = req.availableTools ?? { shells: [], grepTools: [], git: false };
@@ -302,6 +435,7 @@ export async function handlePrompt(req: PromptRequest) {
 			fileSearchTool,
 			writeFileTool,
 			editFileTool,
+			applyPatchTool,
 			sqlite3Tool,
 			webFetchTool,
 			webSearchTool,
@@ -316,13 +450,18 @@ export async function handlePrompt(req: PromptRequest) {
 		];
 
 		for (const kind of availableTools.shells) {
-			const tool = getShellTool(kind);
+			const tool = getShellTool(kind, req.sandbox);
 			if (tool) dynamicTools.push(tool);
 		}
 		for (const kind of availableTools.grepTools) {
 			const tool = getGrepTool(kind);
 			if (tool) dynamicTools.push(tool);
 		}
+		if (req.processes && availableTools.shells.includes("bash")) {
+			dynamicTools.push(createProcessTool(req.processes, currentSessionId));
+		}
+		appendPluginTools(dynamicTools, req.plugins, scopedLogger);
+		if (req.mcpTools) dynamicTools.push(...req.mcpTools);
 
 		const tools = createToolRegistry(dynamicTools);
 
@@ -333,16 +472,18 @@ export async function handlePrompt(req: PromptRequest) {
 			projectDir: projectRoot,
 			gitBranch: projectInfo.git?.branch,
 			platform: req.platformInfo?.id,
+			sandbox: req.sandbox && describeSandbox(req.sandbox.status),
 		};
 		const debugInfo: SystemPromptDebug | undefined =
 			req.debug && currentSessionId ? { sessionId: currentSessionId } : undefined;
 		const platformToolNames = [...availableTools.shells, ...availableTools.grepTools];
-		const memoryIndex = buildMemoryIndex(listMemories(db));
+		const memoryIndex = buildMemoryIndex(listIndexableMemories(db, req.globalMemoryDb));
 		const systemPrompt = buildSystemPrompt(skills.list(), instructions, {
 			metadata,
 			debug: debugInfo,
 			toolNames: platformToolNames,
 			memories: memoryIndex,
+			pluginSections: req.plugins?.systemPromptSections({ sessionId: currentSessionId, projectRoot, subagent: false }),
 		});
 
 		// Prepend the dynamic system prompt (always fresh, reflects current skills/config)
@@ -372,84 +513,125 @@ export async function handlePrompt(req: PromptRequest) {
 		const rawMessages = [...messages];
 		const beforeCompaction = messages;
 
-		// Stateful compaction: reuse cached snapshot if messages still fit
-		const charBudget80 = computeCharBudget(contextWindow, PRE_PROMPT_TARGET, sessionPromptTokens, sessionPromptChars);
-		const existingSnapshot = getSnapshot(currentSessionId as string);
-
-		let compactionResult: CompactToBudgetResult | undefined;
-
-		if (existingSnapshot && charBudget80 > 0) {
-			// Reconstruct: frozen prefix + new messages appended since snapshot
-			const appendedMessages = rawMessages.slice(existingSnapshot.rawMessageCount);
-			const candidateMessages = [...existingSnapshot.compactedMessages, ...appendedMessages];
-			const candidateChars = totalContentChars(candidateMessages);
-
-			if (candidateChars <= charBudget80) {
-				// Still fits — use cached prefix, skip compaction entirely
-				messages = candidateMessages;
-			} else {
-				// Exceeded threshold — re-compact everything to 50%
-				compactionResult = compactToBudget({
-					messages: rawMessages,
-					contextWindow,
-					promptTokens: sessionPromptTokens,
-					promptChars: sessionPromptChars,
-					target: COMPACTION_OUTPUT_TARGET,
-					type: "pre-prompt",
-					tools,
-					sessionId: currentSessionId as string,
-					onReadFileCompacted: invalidateCompactedRead,
+		// Create an isolated turn provider so concurrent sessions don't corrupt each other's metrics.
+		// Created before compaction so a summarization call counts toward the turn.
+		// Transient provider errors are retried, then moved along the configured failover chain.
+		failoverProvider = req.failover
+			? createFailoverProvider({
+					primary: activeProvider,
+					policy: req.failover,
+					getProvider: runtimeManager ? (id) => runtimeManager.get(id) : undefined,
 					logger: scopedLogger,
-				});
-				messages = compactionResult.messages;
-				setSnapshot(currentSessionId as string, {
-					compactedMessages: compactionResult.messages,
-					rawMessageCount: rawMessages.length,
-					snapshotChars: totalContentChars(compactionResult.messages),
-				});
-				updateSessionCompaction(db, currentSessionId as string, {
-					multiplier: compactionResult.multiplier,
-					iterations: compactionResult.iterations,
-					charsBefore: compactionResult.charsBefore,
-					charsAfter: compactionResult.charsAfter,
-					charBudget: compactionResult.charBudget,
-					charsPerToken: compactionResult.charsPerToken,
-					target: COMPACTION_OUTPUT_TARGET,
-					type: "pre-prompt",
-					elapsedMs: compactionResult.elapsedMs,
-				});
+				})
+			: undefined;
+		turnProvider = createIsolatedTurnProvider(failoverProvider ?? activeProvider, configDir);
+		turnProvider.beginTurn?.(sessionPromptTokens);
+
+		// The `compactionSummary` role may put summaries on a cheaper backend. The turn provider
+		// is only used for the session's own backend, so its turn metrics stay priced by one model.
+		async function resolveSummarizer(): Promise<{ provider: Provider; backend: RoleBackend }> {
+			const sessionBackend = { provider: providerId, model: effectiveModel as string };
+			const backend = resolveRoleBackend(req.modelRoles, "compactionSummary", sessionBackend, configDir, (message) =>
+				scopedLogger?.warn("CONFIG", message),
+			);
+			if (backend === sessionBackend) return { provider: turnProvider as Provider, backend };
+			if (backend.provider === providerId) return { provider: activeProvider as Provider, backend };
+			try {
+				return { provider: await getRoleProvider(backend.provider), backend };
+			} catch (err) {
+				scopedLogger?.warn("CONFIG", `Cannot summarize on ${backend.provider}: ${(err as Error).message}`);
+				return { provider: turnProvider as Provider, backend: sessionBackend };
 			}
-		} else if (charBudget80 > 0 && totalContentChars(messages) > charBudget80) {
-			// No snapshot, but over threshold — compact to 50% and cache
-			compactionResult = compactToBudget({
-				messages,
+		}
+
+		// Compact rawMessages to the policy's output target, optionally summarizing
+		// the evicted span, then cache the result as the session's frozen prefix.
+		async function compactPrePrompt(): Promise<CompactToBudgetResult> {
+			const result = compactToBudget({
+				messages: rawMessages,
 				contextWindow,
 				promptTokens: sessionPromptTokens,
 				promptChars: sessionPromptChars,
-				target: COMPACTION_OUTPUT_TARGET,
+				target: compactionPolicy.outputTarget,
 				type: "pre-prompt",
-				tools,
+				tools: applyCompactionPolicy(tools, compactionPolicy),
 				sessionId: currentSessionId as string,
+				pinned,
 				onReadFileCompacted: invalidateCompactedRead,
 				logger: scopedLogger,
 			});
-			messages = compactionResult.messages;
+			let compacted = result.messages;
+			let summary: CompactionSummary | undefined;
+			if (req.compaction?.summarize) {
+				const summarizer = await resolveSummarizer();
+				summary = await summarizeEviction({
+					provider: summarizer.provider,
+					model: summarizer.backend.model,
+					compacted: result.compacted,
+					details: result.details,
+					previous: currentSession?.lastCompaction?.summary as CompactionSummary | undefined,
+					maxTranscriptChars: result.charBudget,
+					modelConfig: getProviderModelConfig(summarizer.backend.provider, summarizer.backend.model, configDir),
+					sessionId: currentSessionId,
+					signal: req.signal,
+					logger: scopedLogger,
+				});
+				if (summary) {
+					compacted = injectSummary(result.messages, summary);
+					if (summary !== currentSession?.lastCompaction?.summary) {
+						budget?.recordUsage(summarizer.backend.provider, summary.model, summary);
+					}
+				}
+			}
+			messages = compacted;
 			setSnapshot(currentSessionId as string, {
-				compactedMessages: compactionResult.messages,
+				compactedMessages: compacted,
 				rawMessageCount: rawMessages.length,
-				snapshotChars: totalContentChars(compactionResult.messages),
+				snapshotChars: totalContentChars(compacted),
 			});
 			updateSessionCompaction(db, currentSessionId as string, {
-				multiplier: compactionResult.multiplier,
-				iterations: compactionResult.iterations,
-				charsBefore: compactionResult.charsBefore,
-				charsAfter: compactionResult.charsAfter,
-				charBudget: compactionResult.charBudget,
-				charsPerToken: compactionResult.charsPerToken,
-				target: COMPACTION_OUTPUT_TARGET,
+				multiplier: result.multiplier,
+				iterations: result.iterations,
+				charsBefore: result.charsBefore,
+				charsAfter: result.charsAfter,
+				charBudget: result.charBudget,
+				charsPerToken: result.charsPerToken,
+				target: compactionPolicy.outputTarget,
 				type: "pre-prompt",
-				elapsedMs: compactionResult.elapsedMs,
+				policy: compactionPolicy.name,
+				elapsedMs: result.elapsedMs,
+				...(summary ? { summary } : {}),
 			});
+			return result;
+		}
+
+		// Stateful compaction: reuse cached snapshot if messages still fit
+		const triggerBudget = computeCharBudget(
+			contextWindow,
+			compactionPolicy.prePromptTarget,
+			sessionPromptTokens,
+			sessionPromptChars,
+		);
+		const existingSnapshot = getSnapshot(currentSessionId as string);
+
+		let compactionResult: CompactToBudgetResult | undefined;
+
+		if (existingSnapshot && triggerBudget > 0) {
+			// Reconstruct: frozen prefix + new messages appended since snapshot
+			const appendedMessages = rawMessages.slice(existingSnapshot.rawMessageCount);
+			const candidateMessages = [...existingSnapshot.compactedMessages, ...appendedMessages];
+			const candidateChars = totalContentChars(candidateMessages);
+
+			if (candidateChars <= triggerBudget) {
+				// Still fits — use cached prefix, skip compaction entirely
+				messages = candidateMessages;
+			} else {
+				// Exceeded threshold — re-compact everything to the output target
+				compactionResult = await compactPrePrompt();
+			}
+		} else if (triggerBudget > 0 && totalContentChars(messages) > triggerBudget) {
+			// No snapshot, but over threshold — compact to the output target and cache
+			compactionResult = await compactPrePrompt();
 		}
 
 		// Write debug dump if compaction changed something
@@ -465,10 +647,6 @@ export async function handlePrompt(req: PromptRequest) {
 			});
 		}
 
-		// Create an isolated turn provider so concurrent sessions don't corrupt each other's metrics
-		turnProvider = createIsolatedTurnProvider(activeProvider, configDir);
-		turnProvider.beginTurn?.(sessionPromptTokens);
-
 		// Compute prior session total so streaming status shows the completed total
 		const costProviderId = (effectiveProviderId ?? activeProvider?.id) as ProviderId;
 		const priorSessionCost = currentSessionId
@@ -508,6 +686,12 @@ export async function handlePrompt(req: PromptRequest) {
 				dbGuard: req.dbGuard,
 				onReadFileCompacted: invalidateCompactedRead,
 				sessionCostDisplay: priorSessionCost,
+				authorizeToolCall,
+				recordFileSnapshot,
+				afterToolCall,
+				budget,
+				compactionPolicy,
+				pinned,
 				onEvent(event: AgentEvent) {
 					routeEventToWs(ws, event);
 					if (event.type === "tool_call") {
@@ -557,7 +741,7 @@ export async function handlePrompt(req: PromptRequest) {
 			}),
 		);
 
-		const summary = turnProvider?.getTurnSummary?.();
+		const summary = withFailoverSummary(turnProvider?.getTurnSummary?.(), failoverProvider);
 		const promptTokens = turnProvider?.getTurnPromptTokens?.() ?? 0;
 		const promptChars = turnProvider?.getTurnPromptChars?.() ?? 0;
 		const turnMetrics = turnProvider?.getTurnMetrics?.();
@@ -567,20 +751,9 @@ export async function handlePrompt(req: PromptRequest) {
 		if (lastAssistantMessageId && (summary || effectiveModel)) {
 			updateMessageMetadata(db, lastAssistantMessageId, {
 				...(summary ? { summary } : {}),
-				turn_model: effectiveModel,
-				...(turnMetrics
-					? {
-							turn_metrics: {
-								input_tokens_total: turnMetrics.inputTokensTotal,
-								output_tokens_total: turnMetrics.outputTokensTotal,
-								input_tokens_last: turnMetrics.inputTokensLast,
-								output_tokens_last: turnMetrics.outputTokensLast,
-								context_delta: turnMetrics.contextDelta,
-								cached_input_tokens_total: turnMetrics.cachedInputTokensTotal,
-								cache_creation_input_tokens_total: turnMetrics.cacheCreationInputTokensTotal,
-							},
-						}
-					: {}),
+				...servedBackendMetadata(turnProvider, effectiveProviderId ?? activeProvider?.id, effectiveModel),
+				...turnMetricsMetadata(turnMetrics),
+				...failoverMetadata(failoverProvider),
 			});
 		}
 		// Recompute and broadcast the final session total after persistence
@@ -648,6 +821,9 @@ export async function handlePrompt(req: PromptRequest) {
 				send(ws, { type: "error", message: err.body });
 			} else if (err instanceof ProviderError) {
 				send(ws, { type: "error", message: `Provider error (${err.status}): ${err.body}` });
+			} else if (err instanceof BudgetExceededError) {
+				scopedLogger?.info("HANDLER", err.message);
+				send(ws, { type: "error", message: err.message });
 			} else {
 				scopedLogger?.error("HANDLER", `Unexpected error: ${(err as Error).message}`);
 				console.error("Unexpected error in handlePrompt:", err);
@@ -657,16 +833,19 @@ export async function handlePrompt(req: PromptRequest) {
 
 		// Send done so UI gets sessionId (even on abort — needed for session continuity)
 		if (currentSessionId) {
-			const errSummary = turnProvider?.getTurnSummary?.();
+			const errSummary = withFailoverSummary(turnProvider?.getTurnSummary?.(), failoverProvider);
 			const errPromptTokens = turnProvider?.getTurnPromptTokens?.() ?? 0;
 			const errPromptChars = turnProvider?.getTurnPromptChars?.() ?? 0;
 			if (errPromptTokens > 0) {
 				updateSessionPromptTokens(db, currentSessionId, errPromptTokens, errPromptChars);
 			}
 			if (lastAssistantMessageId && (errSummary || effectiveModel)) {
+				// Tokens spent before the failure still count toward the session cost and budgets
 				updateMessageMetadata(db, lastAssistantMessageId, {
 					...(errSummary ? { summary: errSummary } : {}),
-					turn_model: effectiveModel,
+					...servedBackendMetadata(turnProvider, effectiveProviderId ?? activeProvider?.id, effectiveModel),
+					...turnMetricsMetadata(turnProvider?.getTurnMetrics?.()),
+					...failoverMetadata(failoverProvider),
 				});
 			}
 			// Recompute and broadcast the final session total after error persistence
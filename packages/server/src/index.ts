@@ -2,22 +2,35 @@ import fs from "node:fs";
 import path from "node:path";
 import { getAuthProvider, listSupportedAuthProviders } from "./auth/authorize";
 import { loadAuthStore } from "./auth/store";
+import { resolveBudgetPolicy } from "./budget/policy";
 import { parseCLI } from "./cli";
+import { resolveCompactionSettings } from "./compaction/config";
 import { resolveValidatedDefaultBackend } from "./config/default-backend";
 import { loadGlobalConfig } from "./config/global";
 import { resolveConfig } from "./config/resolve";
 import { createTrackingFetch } from "./log/fetch";
 import { createLogger } from "./log/logger";
-import { createPlatform, detectAvailableTools } from "./platform";
+import { resolveMcpServers } from "./mcp/config";
+import { createMcpManager } from "./mcp/manager";
+import { openGlobalMemoryDb } from "./memory/scope";
+import { resolvePermissionPolicy } from "./permission/policy";
+import { createPlatform, createSandbox, detectAvailableTools, resolveSandboxSettings } from "./platform";
 import { loadPlugins } from "./plugins/loader";
 import { resolvePort } from "./port";
+import { createProcessManager } from "./process/manager";
 import { initProject } from "./project";
+import { resolveFailoverPolicy } from "./provider/failover-policy";
 import { ensureModelCatalogAvailable } from "./provider/model-catalog-startup";
+import { resolveModelRoles } from "./provider/model-roles";
 import { providerModelsConfigExists } from "./provider/models";
+import { loadOpenAICompatibleModels } from "./provider/openai-compatible-models";
 import { isSupportedAuthProvider, isSupportedProvider } from "./provider/providers";
+import { getProviderDescriptor, listPluginProviderIds, registerPluginProvider } from "./provider/registry";
 import { createProviderRuntimeManager } from "./provider/runtime-manager";
 import { refreshUnifiedModelCatalog, unifiedModelsConfigExists } from "./provider/unified-model-catalog";
+import { runHeadless } from "./run";
 import { createServer } from "./server";
+import { exportSession, importSessionBundle } from "./session/export";
 import { builtinSkills } from "./skill/builtin";
 import { discoverSkills } from "./skill/skill";
 
@@ -87,6 +100,33 @@ if (cli.command === "refresh") {
 const globalConfig = loadGlobalConfig(globalConfigDir);
 const project = await initProject(process.cwd());
 
+if (cli.command === "export") {
+	const file = exportSession(project.db, cli.sessionId, cli.format);
+	if (!file) {
+		console.error(`Session not found: ${cli.sessionId}`);
+		process.exit(1);
+	}
+	if (cli.output) {
+		await Bun.write(cli.output, file.content);
+		console.log(`Wrote ${cli.output}`);
+	} else {
+		await Bun.write(Bun.stdout, file.content);
+	}
+	process.exit(0);
+}
+
+if (cli.command === "import") {
+	try {
+		const session = importSessionBundle(project.db, JSON.parse(fs.readFileSync(cli.file, "utf8")));
+		console.log(`Imported session ${session.id}${session.title ? ` "${session.title}"` : ""}`);
+		process.exit(0);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`Import failed: ${message}`);
+		process.exit(1);
+	}
+}
+
 // Merge debug: CLI flag OR global config OR project config
 const debug = cli.debug || globalConfig.preferences.debug === true || project.debug === true;
 const logger = createLogger({ level: debug ? "debug" : "info", logDir });
@@ -96,12 +136,25 @@ logger.info("SERVER", `Starting bobai (debug=${debug})`);
 const bobaiVersion = process.env.BOBAI_VERSION ?? "dev";
 logger.info("SERVER", `Version: ${bobaiVersion}`);
 
+// Plugins load before the configured provider is checked, since they can add or replace providers
+const plugins = await loadPlugins(globalConfigDir, logger, {
+	projectDir: project.dir,
+	projectRoot: process.cwd(),
+	disabled: [...(globalConfig.preferences.plugins?.disabled ?? []), ...(project.plugins?.disabled ?? [])],
+	version: bobaiVersion,
+});
+for (const provider of plugins.addedProviders()) {
+	registerPluginProvider(provider);
+	logger.info("PLUGIN", `${provider.plugin}: added provider ${provider.id} (${provider.models.length} model(s))`);
+}
+
 await ensureModelCatalogAvailable({
 	catalogExists: () => unifiedModelsConfigExists(globalConfigDir),
 	refreshCatalog: async () => {
 		const result = await refreshUnifiedModelCatalog(globalConfigDir);
 		logger.info("MODEL", `Wrote ${result.modelCount} models to ${result.configPath}`);
 	},
+	canRunWithoutCatalog: () => loadOpenAICompatibleModels(globalConfigDir).length > 0 || listPluginProviderIds().length > 0,
 	logger,
 });
 
@@ -128,13 +181,16 @@ for (const skill of skills.list()) {
 	logger.info("SKILL", `${skill.name}: ${skill.filePath}`);
 }
 
-if (defaultBackend?.provider && !isSupportedProvider(defaultBackend.provider)) {
-	console.error(`Unsupported provider: ${defaultBackend.provider}`);
+// `bobai run --provider` replaces the configured provider, so only that one has to be usable
+const selectedProvider = (cli.command === "run" ? cli.provider : undefined) ?? defaultBackend?.provider;
+
+if (selectedProvider && !isSupportedProvider(selectedProvider)) {
+	console.error(`Unsupported provider: ${selectedProvider}`);
 	process.exit(1);
 }
 
-if (defaultBackend?.provider && !providerModelsConfigExists(defaultBackend.provider, globalConfigDir)) {
-	console.error("Model configuration not found. Please run: bobai refresh");
+if (selectedProvider && !providerModelsConfigExists(selectedProvider, globalConfigDir)) {
+	console.error(getProviderDescriptor(selectedProvider).missingModelsMessage);
 	process.exit(1);
 }
 
@@ -142,6 +198,7 @@ const runtimeManager = createProviderRuntimeManager({
 	configDir: globalConfigDir,
 	logger,
 	fetch: trackingFetch,
+	plugins,
 });
 const port = resolvePort(process.argv.slice(2), { port: project.port }, { port: globalConfig.preferences.port });
 
@@ -149,9 +206,92 @@ const port = resolvePort(process.argv.slice(2), { port: project.port }, { port:
 const availableTools = await detectAvailableTools(platform.info);
 logger.info(
 	"PLATFORM",
-	`${platform.info.id}: shells=[${availableTools.shells.join(",")}] grep=[${availableTools.grepTools.join(",")}] git=${availableTools.git}`,
+	`${platform.info.id}: shells=[${availableTools.shells.join(",")}] grep=[${availableTools.grepTools.join(",")}] git=${availableTools.git} sandbox=${availableTools.sandbox ?? "none"}`,
 );
 
+const sandbox = createSandbox(
+	resolveSandboxSettings(project.sandbox, globalConfig.preferences.sandbox),
+	availableTools,
+	process.cwd(),
+);
+if (sandbox?.status.mode === "unavailable") {
+	const message = "Sandbox is enabled but bubblewrap (bwrap) is not installed; shell commands will fail.";
+	logger.warn("PLATFORM", message);
+	console.error(message);
+}
+
+const permissions = resolvePermissionPolicy(project.permissions, globalConfig.preferences.permissions);
+const budget = resolveBudgetPolicy(project.budget, globalConfig.preferences.budget);
+const failover = resolveFailoverPolicy(project.failover, globalConfig.preferences.failover);
+const modelRoles = resolveModelRoles(project.roles, globalConfig.preferences.roles);
+const compaction = resolveCompactionSettings(project.compaction, globalConfig.preferences.compaction);
+const globalMemoryDb = openGlobalMemoryDb(globalConfigDir);
+
+// Connect MCP servers in the background; their tools join prompts once connected.
+const mcp = createMcpManager({
+	servers: resolveMcpServers(project.mcpServers, globalConfig.preferences.mcpServers),
+	projectRoot: process.cwd(),
+	clientVersion: bobaiVersion,
+	logger,
+});
+
+// Background processes started with the `process` tool
+const processes = createProcessManager({ projectRoot: process.cwd(), logger, sandbox });
+
+if (cli.command === "run") {
+	// Headless runs have a single turn, so wait for MCP tools before starting it
+	await mcp.start();
+	const controller = new AbortController();
+	process.on("SIGINT", () => controller.abort());
+	const exitCode = await runHeadless({
+		db: project.db,
+		globalMemoryDb,
+		dbGuard: project.dbGuard,
+		runtimeManager,
+		projectRoot: process.cwd(),
+		configDir: globalConfigDir,
+		skills,
+		maxIterations: config.maxIterations,
+		logger,
+		logDir,
+		debug,
+		startedAt: Date.now(),
+		availableTools,
+		platformInfo: platform.info,
+		sandbox,
+		permissions,
+		budget,
+		failover,
+		modelRoles,
+		compaction,
+		mcpTools: mcp.tools(),
+		processes,
+		plugins,
+		prompt: cli.prompt,
+		sessionId: cli.sessionId,
+		defaultProviderId: defaultBackend?.provider ?? null,
+		defaultModel: defaultBackend?.model ?? null,
+		providerOverride: cli.provider,
+		modelOverride: cli.model,
+		json: cli.json,
+		signal: controller.signal,
+		stdout: (text) => process.stdout.write(text),
+		stderr: (text) => process.stderr.write(text),
+	});
+	await mcp.close();
+	processes.close();
+	process.exit(exitCode);
+}
+
+mcp.start();
+process.on("exit", () => {
+	mcp.close();
+	processes.close();
+});
+// Background processes lead their own process groups, so Ctrl+C does not reach them; exit through the handler above
+process.on("SIGINT", () => process.exit(130));
+process.on("SIGTERM", () => process.exit(143));
+
 // Bundled layout: server.js + ui/ live side-by-side in dist/.
 // Source layout:  packages/server/src/index.ts → ../../ui/dist.
 const bundledUi = path.resolve(import.meta.dir, "ui");
@@ -162,6 +302,7 @@ const server = createServer({
 	port,
 	staticDir,
 	db: project.db,
+	globalMemoryDb,
 	dbGuard: project.dbGuard,
 	runtimeManager,
 	providerId: defaultBackend?.provider,
@@ -185,6 +326,15 @@ const server = createServer({
 	startedAt: Date.now(),
 	availableTools,
 	platformInfo: platform.info,
+	sandbox,
+	permissions,
+	budget,
+	failover,
+	modelRoles,
+	compaction,
+	mcp,
+	processes,
+	plugins,
 });
 
 logger.info("SERVER", `Project: ${project.id}`);
@@ -194,5 +344,3 @@ logger.info("SERVER", `Listening at http://localhost:${server.port}/bobai`);
 console.log(`Project: ${project.id}`);
 console.log(`Provider: ${defaultBackend ? `${defaultBackend.provider} / ${defaultBackend.model}` : "(none)"}`);
 console.log(`http://localhost:${server.port}/bobai`);
-
-await loadPlugins(platform.pluginsDir, logger);
@@ -0,0 +1,180 @@
+import type { JsonRpcMessage, McpTransport } from "./transport";
+
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+
+/** A tool as advertised by an MCP server's `tools/list`. */
+export interface McpToolInfo {
+	name: string;
+	description?: string;
+	inputSchema?: Record<string, unknown>;
+}
+
+/** One block of a `tools/call` result. Only text is passed through verbatim; other kinds are summarized. */
+export type McpContentBlock =
+	| { type: "text"; text: string }
+	| { type: "image" | "audio"; mimeType?: string; data?: string }
+	| { type: "resource"; resource: { uri: string; text?: string; mimeType?: string } }
+	| { type: "resource_link"; uri: string; name?: string }
+	| { type: string; [key: string]: unknown };
+
+export interface McpCallResult {
+	content: McpContentBlock[];
+	isError?: boolean;
+	structuredContent?: unknown;
+}
+
+export interface McpClient {
+	/** Handshake with the server. Resolves with the server's reported name, when it gave one. */
+	initialize(clientVersion: string): Promise<{ serverName?: string }>;
+	listTools(): Promise<McpToolInfo[]>;
+	callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpCallResult>;
+	close(): Promise<void>;
+}
+
+export class McpError extends Error {
+	constructor(
+		message: string,
+		public readonly code?: number,
+	) {
+		super(message);
+		this.name = "McpError";
+	}
+}
+
+/**
+ * JSON-RPC client for one MCP server.
+ *
+ * Requests are matched to responses by id. Server-initiated requests are
+ * answered too: `ping` with an empty result, anything else with
+ * "method not found", since Bob AI offers no client capabilities.
+ * `onClose` fires when the transport drops; pending requests are rejected.
+ */
+export function createMcpClient(
+	transport: McpTransport,
+	options: { requestTimeoutMs?: number; onClose?: (error?: Error) => void } = {},
+): McpClient {
+	const timeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+	const pending = new Map<number, { resolve: (result: unknown) => void; reject: (err: Error) => void }>();
+	let nextId = 1;
+	let starting: Promise<void> | undefined;
+	let closed = false;
+
+	function failPending(error: Error) {
+		for (const p of pending.values()) p.reject(error);
+		pending.clear();
+	}
+
+	function handleMessage(message: JsonRpcMessage) {
+		// Response to one of our requests
+		if (message.method === undefined && typeof message.id === "number") {
+			const p = pending.get(message.id);
+			if (!p) return;
+			pending.delete(message.id);
+			if (message.error) p.reject(new McpError(message.error.message, message.error.code));
+			else p.resolve(message.result);
+			return;
+		}
+		// Request from the server
+		if (message.method !== undefined && message.id !== undefined) {
+			const reply: JsonRpcMessage =
+				message.method === "ping"
+					? { jsonrpc: "2.0", id: message.id, result: {} }
+					: { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+			transport.send(reply).catch(() => {});
+		}
+		// Notifications (progress, list_changed, logging) are ignored
+	}
+
+	/** Start the transport once. Connecting counts against the request timeout, since an SSE server may never announce its endpoint. */
+	function ensureStarted(): Promise<void> {
+		starting ??= (async () => {
+			const { promise: timedOut, reject } = Promise.withResolvers<never>();
+			const timer = setTimeout(() => reject(new McpError(`connect timed out after ${timeoutMs}ms`)), timeoutMs);
+			try {
+				await Promise.race([
+					transport.start(handleMessage, (error) => {
+						closed = true;
+						failPending(error ?? new McpError("Connection closed"));
+						options.onClose?.(error);
+					}),
+					timedOut,
+				]);
+			} finally {
+				clearTimeout(timer);
+			}
+		})();
+		return starting;
+	}
+
+	async function request(method: string, params: unknown, signal?: AbortSignal): Promise<unknown> {
+		if (closed) throw new McpError("Connection closed");
+		await ensureStarted();
+		const id = nextId++;
+		const { promise, resolve, reject } = Promise.withResolvers<unknown>();
+		pending.set(id, { resolve, reject });
+
+		const timer = setTimeout(() => {
+			pending.delete(id);
+			reject(new McpError(`${method} timed out after ${timeoutMs}ms`));
+		}, timeoutMs);
+		const onAbort = () => {
+			pending.delete(id);
+			transport.send({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: id } }).catch(() => {});
+			reject(new McpError(`${method} aborted`));
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		try {
+			// Race the send too: HTTP transports only finish sending once the reply
+			// body is read, and a timeout or abort must not wait for that (or
+			// reject `promise` with nothing listening).
+			return await Promise.race([transport.send({ jsonrpc: "2.0", id, method, params }).then(() => promise), promise]);
+		} catch (err) {
+			pending.delete(id);
+			throw err;
+		} finally {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+		}
+	}
+
+	return {
+		async initialize(clientVersion) {
+			const result = (await request("initialize", {
+				protocolVersion: MCP_PROTOCOL_VERSION,
+				capabilities: {},
+				clientInfo: { name: "bobai", version: clientVersion },
+			})) as { serverInfo?: { name?: string } } | undefined;
+			await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+			return { serverName: result?.serverInfo?.name };
+		},
+
+		async listTools() {
+			const tools: McpToolInfo[] = [];
+			let cursor: string | undefined;
+			do {
+				const page = (await request("tools/list", cursor ? { cursor } : {})) as {
+					tools?: McpToolInfo[];
+					nextCursor?: string;
+				};
+				tools.push(...(page?.tools ?? []).filter((t) => typeof t?.name === "string"));
+				cursor = page?.nextCursor;
+			} while (cursor);
+			return tools;
+		},
+
+		async callTool(name, args, signal) {
+			const result = (await request("tools/call", { name, arguments: args }, signal)) as McpCallResult | undefined;
+			return { ...result, content: Array.isArray(result?.content) ? result.content : [] };
+		},
+
+		async close() {
+			if (closed) return;
+			closed = true;
+			failPending(new McpError("Connection closed"));
+			await transport.close();
+		},
+	};
+}
@@ -0,0 +1,85 @@
+/** A local MCP server launched as a child process, speaking JSON-RPC over stdio. */
+export interface McpStdioServerConfig {
+	command: string;
+	args?: string[];
+	env?: Record<string, string>;
+	/** Working directory, relative to the project root. Defaults to the project root. */
+	cwd?: string;
+	disabled?: boolean;
+}
+
+/** A running MCP server reached over HTTP — streamable HTTP by default, or the older SSE transport. */
+export interface McpRemoteServerConfig {
+	url: string;
+	transport?: "http" | "sse";
+	headers?: Record<string, string>;
+	disabled?: boolean;
+}
+
+export type McpServerConfig = McpStdioServerConfig | McpRemoteServerConfig;
+
+/** The `mcpServers` section of bobai.json (global or project), keyed by server name. */
+export type McpServersConfig = Record<string, McpServerConfig>;
+
+/** Validated server entry used at runtime. */
+export type ResolvedMcpServer =
+	| { name: string; transport: "stdio"; command: string; args: string[]; env: Record<string, string>; cwd?: string }
+	| { name: string; transport: "http" | "sse"; url: string; headers: Record<string, string> };
+
+function sanitizeStringRecord(value: unknown): Record<string, string> {
+	const result: Record<string, string> = {};
+	if (!value || typeof value !== "object" || Array.isArray(value)) return result;
+	for (const [key, v] of Object.entries(value)) {
+		if (typeof v === "string") result[key] = v;
+	}
+	return result;
+}
+
+function sanitizeServer(name: string, value: unknown): ResolvedMcpServer | undefined {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+	const raw = value as Record<string, unknown>;
+	if (raw.disabled === true) return undefined;
+
+	if (typeof raw.command === "string" && raw.command.length > 0) {
+		return {
+			name,
+			transport: "stdio",
+			command: raw.command,
+			args: Array.isArray(raw.args) ? raw.args.filter((a): a is string => typeof a === "string") : [],
+			env: sanitizeStringRecord(raw.env),
+			...(typeof raw.cwd === "string" ? { cwd: raw.cwd } : {}),
+		};
+	}
+
+	if (typeof raw.url === "string" && /^https?:\/\//.test(raw.url)) {
+		return {
+			name,
+			transport: raw.transport === "sse" ? "sse" : "http",
+			url: raw.url,
+			headers: sanitizeStringRecord(raw.headers),
+		};
+	}
+
+	return undefined;
+}
+
+/**
+ * Merge the project and global `mcpServers` sections into a server list.
+ *
+ * A project entry replaces the global entry with the same name, so a project
+ * can also switch off a global server with `"disabled": true`. Entries with
+ * neither a `command` nor an http(s) `url` are dropped.
+ */
+export function resolveMcpServers(project?: McpServersConfig, global?: McpServersConfig): ResolvedMcpServer[] {
+	const merged: Record<string, unknown> = { ...(isRecord(global) ? global : {}), ...(isRecord(project) ? project : {}) };
+	const servers: ResolvedMcpServer[] = [];
+	for (const [name, value] of Object.entries(merged)) {
+		const server = sanitizeServer(name, value);
+		if (server) servers.push(server);
+	}
+	return servers;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
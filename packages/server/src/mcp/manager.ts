@@ -0,0 +1,127 @@
+import path from "node:path";
+import type { Logger } from "../log/logger";
+import type { Tool } from "../tool/tool";
+import { createMcpClient, type McpClient } from "./client";
+import type { ResolvedMcpServer } from "./config";
+import { createMcpTool } from "./tool";
+import { createHttpTransport, createSseTransport, createStdioTransport, type McpTransport } from "./transport";
+
+export type McpServerState = "connecting" | "connected" | "error";
+
+/** Connection state of one configured server, as shown in the UI. */
+export interface McpServerStatus {
+	name: string;
+	transport: ResolvedMcpServer["transport"];
+	state: McpServerState;
+	/** Number of tools the server exposes (0 until connected). */
+	toolCount: number;
+	error?: string;
+}
+
+export interface McpManager {
+	/** Connect to every configured server. Failures are recorded per server, never thrown. */
+	start(): Promise<void>;
+	/** Tools of all currently connected servers. */
+	tools(): Tool[];
+	status(): McpServerStatus[];
+	close(): Promise<void>;
+}
+
+export interface McpManagerOptions {
+	servers: ResolvedMcpServer[];
+	projectRoot: string;
+	clientVersion: string;
+	logger?: Logger;
+	/** Per-request timeout for handshake and tool calls. */
+	requestTimeoutMs?: number;
+	/** Overridable for tests. */
+	createTransport?: (server: ResolvedMcpServer) => McpTransport;
+}
+
+function defaultTransport(server: ResolvedMcpServer, projectRoot: string): McpTransport {
+	switch (server.transport) {
+		case "stdio":
+			return createStdioTransport({
+				command: server.command,
+				args: server.args,
+				env: server.env,
+				cwd: server.cwd ? path.resolve(projectRoot, server.cwd) : projectRoot,
+			});
+		case "http":
+			return createHttpTransport({ url: server.url, headers: server.headers });
+		case "sse":
+			return createSseTransport({ url: server.url, headers: server.headers });
+	}
+}
+
+interface ServerEntry {
+	status: McpServerStatus;
+	client?: McpClient;
+	tools: Tool[];
+}
+
+export function createMcpManager(options: McpManagerOptions): McpManager {
+	const { logger } = options;
+	const entries = options.servers.map(
+		(server): ServerEntry => ({
+			status: { name: server.name, transport: server.transport, state: "connecting", toolCount: 0 },
+			tools: [],
+		}),
+	);
+
+	function markFailed(entry: ServerEntry, error: unknown) {
+		const message = error instanceof Error ? error.message : String(error);
+		entry.status = { ...entry.status, state: "error", toolCount: 0, error: message };
+		entry.tools = [];
+		logger?.warn("MCP", `${entry.status.name}: ${message}`);
+	}
+
+	async function connect(server: ResolvedMcpServer, entry: ServerEntry) {
+		const transport = options.createTransport?.(server) ?? defaultTransport(server, options.projectRoot);
+		const client = createMcpClient(transport, {
+			requestTimeoutMs: options.requestTimeoutMs,
+			onClose: (error) => markFailed(entry, error ?? new Error("Connection closed")),
+		});
+		entry.client = client;
+		try {
+			await client.initialize(options.clientVersion);
+			const infos = await client.listTools();
+			// Names that still clash after sanitizing (`a.b` and `a_b`) keep the first tool; providers reject duplicates
+			const claimed = new Set(entries.flatMap((e) => e.tools.map((t) => t.definition.function.name)));
+			entry.tools = [];
+			for (const info of infos) {
+				const tool = createMcpTool(server.name, info, client);
+				const name = tool.definition.function.name;
+				if (claimed.has(name)) {
+					logger?.warn("MCP", `${server.name}: skipped tool "${info.name}", its name ${name} is already taken`);
+					continue;
+				}
+				claimed.add(name);
+				entry.tools.push(tool);
+			}
+			entry.status = { ...entry.status, state: "connected", toolCount: entry.tools.length };
+			logger?.info("MCP", `${server.name}: connected (${server.transport}), ${entry.tools.length} tool(s)`);
+		} catch (err) {
+			markFailed(entry, err);
+			await client.close().catch(() => {});
+		}
+	}
+
+	return {
+		async start() {
+			await Promise.all(options.servers.map((server, i) => connect(server, entries[i] as ServerEntry)));
+		},
+
+		tools() {
+			return entries.filter((e) => e.status.state === "connected").flatMap((e) => e.tools);
+		},
+
+		status() {
+			return entries.map((e) => ({ ...e.status }));
+		},
+
+		async close() {
+			await Promise.all(entries.map((e) => e.client?.close().catch(() => {})));
+		},
+	};
+}
@@ -0,0 +1,127 @@
+import { createHash } from "node:crypto";
+import { COMPACTION_MARKER } from "../compaction/default-strategy";
+import type { Tool, ToolResult } from "../tool/tool";
+import { escapeMarkdown } from "../tool/tool";
+import type { McpCallResult, McpClient, McpToolInfo } from "./client";
+
+const MAX_OUTPUT_CHARS = 50_000;
+const MAX_ARGS_PREVIEW = 120;
+const COMPACT_KEEP_LINES = 10;
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/**
+ * Name under which an MCP tool is exposed to the LLM: `mcp__<server>__<tool>`.
+ * Characters providers reject are replaced with `_`. Longer names are cut to
+ * 64 characters, the common provider limit, ending in a hash of the full name
+ * so tools sharing a long prefix keep distinct names.
+ */
+export function mcpToolName(serverName: string, toolName: string): string {
+	const clean = (s: string) => s.replace(/[^a-zA-Z0-9_-]/g, "_");
+	const name = `mcp__${clean(serverName)}__${clean(toolName)}`;
+	if (name.length <= MAX_TOOL_NAME_LENGTH) return name;
+	const hash = createHash("sha256").update(`${serverName}\0${toolName}`).digest("hex").slice(0, 8);
+	return `${name.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+}
+
+function formatSummary(status: string, elapsedSec: number): string {
+	return `${status} | ${elapsedSec.toFixed(2)}s`;
+}
+
+function previewArgs(args: Record<string, unknown>): string {
+	const json = JSON.stringify(args);
+	if (json === "{}") return "";
+	return json.length > MAX_ARGS_PREVIEW ? `${json.slice(0, MAX_ARGS_PREVIEW - 1)}…` : json;
+}
+
+/** Flatten a `tools/call` result to text. Binary blocks are replaced by a one-line placeholder. */
+export function renderMcpContent(result: McpCallResult): string {
+	const parts: string[] = [];
+	for (const block of result.content) {
+		if (block.type === "text" && typeof block.text === "string") {
+			parts.push(block.text);
+		} else if (block.type === "resource" && block.resource && typeof block.resource === "object") {
+			const resource = block.resource as { uri?: string; text?: string };
+			parts.push(typeof resource.text === "string" ? resource.text : `[resource ${resource.uri ?? "?"}]`);
+		} else if (block.type === "resource_link") {
+			parts.push(`[resource ${String(block.uri ?? "?")}]`);
+		} else {
+			const mimeType = typeof block.mimeType === "string" ? ` ${block.mimeType}` : "";
+			parts.push(`[${block.type}${mimeType} omitted]`);
+		}
+	}
+	if (parts.length === 0 && result.structuredContent !== undefined) {
+		parts.push(JSON.stringify(result.structuredContent, null, 2));
+	}
+	const text = parts.join("\n\n");
+	if (text.length <= MAX_OUTPUT_CHARS) return text;
+	return `${text.slice(0, MAX_OUTPUT_CHARS)}\n\n... truncated (total: ${text.length} chars)`;
+}
+
+/** Adapt one MCP server tool into a Bob AI `Tool`. Calls go through the server's live client. */
+export function createMcpTool(serverName: string, info: McpToolInfo, client: McpClient): Tool {
+	const name = mcpToolName(serverName, info.name);
+	const label = `${serverName}/${info.name}`;
+
+	return {
+		definition: {
+			type: "function",
+			function: {
+				name,
+				description: info.description ? `[MCP ${serverName}] ${info.description}` : `[MCP ${serverName}] ${info.name}`,
+				parameters: info.inputSchema ?? { type: "object", properties: {} },
+			},
+		},
+
+		mergeable: false,
+
+		baseDistance: 150,
+
+		outputThreshold: 0.4,
+
+		compact(output: string, callArgs: Record<string, unknown>): string {
+			if (output.startsWith("Error")) return output;
+			const lines = output.split("\n");
+			if (lines.length <= COMPACT_KEEP_LINES) return output;
+			const head = lines.slice(0, COMPACT_KEEP_LINES).join("\n");
+			const removed = lines.length - COMPACT_KEEP_LINES;
+			return `${COMPACTION_MARKER} ${removed} lines from ${label}(${previewArgs(callArgs)}) omitted\n${head}`;
+		},
+
+		formatCall(args: Record<string, unknown>): string {
+			const preview = previewArgs(args);
+			return `▸ ${escapeMarkdown(label)}${preview ? ` ${escapeMarkdown(preview)}` : ""}`;
+		},
+
+		async execute(args, ctx): Promise<ToolResult> {
+			const startTime = performance.now();
+			try {
+				const result = await client.callTool(info.name, args, ctx.signal);
+				const elapsed = (performance.now() - startTime) / 1000;
+				const text = renderMcpContent(result) || "(no output)";
+				if (result.isError) {
+					return {
+						llmOutput: `Error: ${text}`,
+						uiOutput: `Error: ${text}`,
+						summary: formatSummary("error", elapsed),
+						mergeable: false,
+						failed: true,
+					};
+				}
+				return {
+					llmOutput: text,
+					uiOutput: text,
+					summary: formatSummary("ok", elapsed),
+					mergeable: false,
+				};
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				return {
+					llmOutput: `Error: MCP server "${serverName}" failed: ${message}`,
+					uiOutput: `Error: MCP server "${serverName}" failed: ${message}`,
+					mergeable: false,
+					failed: true,
+				};
+			}
+		},
+	};
+}
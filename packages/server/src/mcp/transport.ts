@@ -0,0 +1,287 @@
+/** A JSON-RPC 2.0 request, response, or notification as exchanged with an MCP server. */
+export interface JsonRpcMessage {
+	jsonrpc: "2.0";
+	id?: number | string;
+	method?: string;
+	params?: unknown;
+	result?: unknown;
+	error?: { code: number; message: string; data?: unknown };
+}
+
+/**
+ * Moves JSON-RPC messages between the client and one MCP server.
+ * Incoming messages (responses, notifications, server requests) are
+ * delivered through `onMessage`; `onClose` fires once when the connection
+ * ends on its own, with the reason when it failed.
+ */
+export interface McpTransport {
+	start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void>;
+	send(message: JsonRpcMessage): Promise<void>;
+	close(): Promise<void>;
+}
+
+function parseMessage(text: string): JsonRpcMessage | undefined {
+	try {
+		const parsed = JSON.parse(text);
+		return parsed && typeof parsed === "object" && parsed.jsonrpc === "2.0" ? (parsed as JsonRpcMessage) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+// ---------------------------------------------------------------------------
+// stdio — newline-delimited JSON on the child's stdin/stdout
+// ---------------------------------------------------------------------------
+
+const MAX_STDERR_CHARS = 2000;
+
+export function createStdioTransport(options: {
+	command: string;
+	args: string[];
+	env: Record<string, string>;
+	cwd: string;
+}): McpTransport {
+	let proc: Bun.Subprocess<"pipe", "pipe", "pipe"> | undefined;
+	let closing = false;
+	let stderr = "";
+
+	async function readLines(stream: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+		const decoder = new TextDecoder();
+		let buffer = "";
+		for await (const chunk of stream) {
+			buffer += decoder.decode(chunk, { stream: true });
+			let newline = buffer.indexOf("\n");
+			while (newline !== -1) {
+				const line = buffer.slice(0, newline).trim();
+				buffer = buffer.slice(newline + 1);
+				if (line) onLine(line);
+				newline = buffer.indexOf("\n");
+			}
+		}
+	}
+
+	return {
+		async start(onMessage, onClose) {
+			proc = Bun.spawn([options.command, ...options.args], {
+				cwd: options.cwd,
+				env: { ...process.env, ...options.env },
+				stdin: "pipe",
+				stdout: "pipe",
+				stderr: "pipe",
+			});
+			const child = proc;
+
+			readLines(child.stdout, (line) => {
+				const message = parseMessage(line);
+				if (message) onMessage(message);
+			}).catch(() => {});
+
+			// Keep the tail of stderr so a crash on startup can be reported
+			const stderrDone = readLines(child.stderr, (line) => {
+				stderr = `${stderr}${line}\n`.slice(-MAX_STDERR_CHARS);
+			}).catch(() => {});
+
+			child.exited.then(async (code) => {
+				if (closing) return;
+				await stderrDone;
+				const detail = stderr.trim() ? `: ${stderr.trim()}` : "";
+				onClose(new Error(`${options.command} exited with code ${code}${detail}`));
+			});
+		},
+
+		async send(message) {
+			if (!proc) throw new Error("Transport not started");
+			proc.stdin.write(`${JSON.stringify(message)}\n`);
+			await proc.stdin.flush();
+		},
+
+		async close() {
+			closing = true;
+			if (!proc) return;
+			try {
+				proc.stdin.end();
+			} catch {
+				// stdin already closed by the child
+			}
+			proc.kill();
+			await proc.exited;
+		},
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Server-sent events parsing (shared by the HTTP transports)
+// ---------------------------------------------------------------------------
+
+interface SseEvent {
+	event: string;
+	data: string;
+}
+
+async function readSseEvents(
+	body: ReadableStream<Uint8Array>,
+	onEvent: (event: SseEvent) => void,
+	signal?: AbortSignal,
+): Promise<void> {
+	const decoder = new TextDecoder();
+	let buffer = "";
+	let event = "message";
+	let data: string[] = [];
+	for await (const chunk of body) {
+		if (signal?.aborted) return;
+		buffer += decoder.decode(chunk, { stream: true });
+		let newline = buffer.indexOf("\n");
+		while (newline !== -1) {
+			const line = buffer.slice(0, newline).replace(/\r$/, "");
+			buffer = buffer.slice(newline + 1);
+			if (line === "") {
+				if (data.length > 0) onEvent({ event, data: data.join("\n") });
+				event = "message";
+				data = [];
+			} else if (line.startsWith("event:")) {
+				event = line.slice(6).trim();
+			} else if (line.startsWith("data:")) {
+				data.push(line.slice(5).replace(/^ /, ""));
+			}
+			newline = buffer.indexOf("\n");
+		}
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Streamable HTTP — POST each message; the reply is JSON or an SSE stream
+// ---------------------------------------------------------------------------
+
+export function createHttpTransport(options: {
+	url: string;
+	headers: Record<string, string>;
+	fetch?: typeof fetch;
+}): McpTransport {
+	const doFetch = options.fetch ?? fetch;
+	const controller = new AbortController();
+	let sessionId: string | undefined;
+	let deliver: ((message: JsonRpcMessage) => void) | undefined;
+
+	return {
+		async start(onMessage) {
+			deliver = onMessage;
+		},
+
+		async send(message) {
+			const res = await doFetch(options.url, {
+				method: "POST",
+				headers: {
+					...options.headers,
+					"Content-Type": "application/json",
+					Accept: "application/json, text/event-stream",
+					...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+				},
+				body: JSON.stringify(message),
+				signal: controller.signal,
+			});
+			sessionId = res.headers.get("mcp-session-id") ?? sessionId;
+
+			if (!res.ok) {
+				throw new Error(`HTTP ${res.status} from ${options.url}`);
+			}
+			if (res.status === 202 || !res.body) return;
+
+			const contentType = res.headers.get("content-type") ?? "";
+			if (contentType.includes("text/event-stream")) {
+				// Read the stream in the background; the response arrives as one of its events
+				readSseEvents(
+					res.body,
+					(event) => {
+						const parsed = parseMessage(event.data);
+						if (parsed) deliver?.(parsed);
+					},
+					controller.signal,
+				).catch(() => {});
+				return;
+			}
+
+			const text = await res.text();
+			if (!text.trim()) return;
+			const parsed = JSON.parse(text) as JsonRpcMessage | JsonRpcMessage[];
+			for (const m of Array.isArray(parsed) ? parsed : [parsed]) {
+				deliver?.(m);
+			}
+		},
+
+		async close() {
+			controller.abort();
+			if (sessionId) {
+				await doFetch(options.url, { method: "DELETE", headers: { ...options.headers, "Mcp-Session-Id": sessionId } }).catch(
+					() => {},
+				);
+			}
+		},
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Legacy SSE — one long-lived GET stream; messages are POSTed to the endpoint it announces
+// ---------------------------------------------------------------------------
+
+export function createSseTransport(options: {
+	url: string;
+	headers: Record<string, string>;
+	fetch?: typeof fetch;
+}): McpTransport {
+	const doFetch = options.fetch ?? fetch;
+	const controller = new AbortController();
+	let endpoint: string | undefined;
+
+	return {
+		async start(onMessage, onClose) {
+			const res = await doFetch(options.url, {
+				headers: { ...options.headers, Accept: "text/event-stream" },
+				signal: controller.signal,
+			});
+			if (!res.ok || !res.body) {
+				throw new Error(`HTTP ${res.status} from ${options.url}`);
+			}
+
+			const { promise: endpointReady, resolve, reject } = Promise.withResolvers<void>();
+			readSseEvents(
+				res.body,
+				(event) => {
+					if (event.event === "endpoint") {
+						endpoint = new URL(event.data, options.url).toString();
+						resolve();
+						return;
+					}
+					const parsed = parseMessage(event.data);
+					if (parsed) onMessage(parsed);
+				},
+				controller.signal,
+			)
+				.then(() => {
+					reject(new Error(`${options.url} closed before announcing an endpoint`));
+					if (!controller.signal.aborted) onClose(new Error(`Event stream from ${options.url} ended`));
+				})
+				.catch((err) => {
+					reject(err);
+					if (!controller.signal.aborted) onClose(err instanceof Error ? err : new Error(String(err)));
+				});
+			await endpointReady;
+		},
+
+		async send(message) {
+			if (!endpoint) throw new Error("Transport not started");
+			const res = await doFetch(endpoint, {
+				method: "POST",
+				headers: { ...options.headers, "Content-Type": "application/json" },
+				body: JSON.stringify(message),
+				signal: controller.signal,
+			});
+			if (!res.ok) {
+				throw new Error(`HTTP ${res.status} from ${endpoint}`);
+			}
+		},
+
+		async close() {
+			controller.abort();
+		},
+	};
+}
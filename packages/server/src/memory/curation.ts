@@ -0,0 +1,86 @@
+import type { Database } from "bun:sqlite";
+import { MEMORY_INDEX_MAX_BYTES, MEMORY_INDEX_MAX_ENTRIES, selectIndexedMemories } from "./index";
+import { type CreateMemoryInput, isMemoryType, MEMORY_TYPES, type MemoryType, type UpdateMemoryPatch } from "./repository";
+import { listAllScopedMemories, listIndexableMemories, type MemoryScope, type ScopedMemory } from "./scope";
+
+/** A memory as shown in the Memories view. */
+export interface CuratedMemory extends ScopedMemory {
+	/**
+	 * Whether the memory is in the bounded index injected into the system
+	 * prompt, which holds the most recently updated memories. A memory left
+	 * out can still be recalled into a prompt it matches.
+	 */
+	indexed: boolean;
+}
+
+/** GET /bobai/memories response. */
+export interface MemoryListing {
+	memories: CuratedMemory[];
+	index: { shown: number; total: number; maxEntries: number; maxBytes: number };
+}
+
+/**
+ * Every memory of both stores, or those of one type or scope, marked with
+ * whether it made it into the system prompt index, computed as the agent
+ * computes it. The index is computed over all memories, so filtering does
+ * not change which ones are marked.
+ */
+export function listMemoriesForCuration(
+	db: Database,
+	options: { type?: MemoryType; scope?: MemoryScope; globalDb?: Database; now?: Date } = {},
+): MemoryListing {
+	const all = listAllScopedMemories(db, options.globalDb);
+	const indexed = new Set(selectIndexedMemories(listIndexableMemories(db, options.globalDb), options.now).map((m) => m.id));
+	return {
+		memories: all
+			.filter((m) => (!options.type || m.type === options.type) && (!options.scope || m.scope === options.scope))
+			.map((m) => ({ ...m, indexed: indexed.has(m.id) })),
+		index: {
+			shown: indexed.size,
+			total: all.length,
+			maxEntries: MEMORY_INDEX_MAX_ENTRIES,
+			maxBytes: MEMORY_INDEX_MAX_BYTES,
+		},
+	};
+}
+
+function trimmed(value: unknown): string | undefined {
+	return typeof value === "string" ? value.trim() : undefined;
+}
+
+/**
+ * Validate a PATCH /bobai/memories/:id body. Returns the patch, or an error
+ * message. An empty description clears it; title and content cannot be empty.
+ */
+export function parseMemoryPatch(body: unknown): UpdateMemoryPatch | string {
+	if (typeof body !== "object" || body === null) return "Expected a JSON object";
+	const { type, title, description, content } = body as Record<string, unknown>;
+	const patch: UpdateMemoryPatch = {};
+	if (type !== undefined) {
+		if (!isMemoryType(type)) return `type must be one of: ${MEMORY_TYPES.join(", ")}`;
+		patch.type = type;
+	}
+	if (title !== undefined) {
+		const value = trimmed(title);
+		if (!value) return "title cannot be empty";
+		patch.title = value;
+	}
+	if (description !== undefined) {
+		if (description !== null && typeof description !== "string") return "description must be a string";
+		patch.description = trimmed(description) || null;
+	}
+	if (content !== undefined) {
+		const value = trimmed(content);
+		if (!value) return "content cannot be empty";
+		patch.content = value;
+	}
+	return patch;
+}
+
+/** Validate a POST /bobai/memories body. Returns the input, or an error message. */
+export function parseMemoryInput(body: unknown): CreateMemoryInput | string {
+	const patch = parseMemoryPatch(body);
+	if (typeof patch === "string") return patch;
+	if (!patch.type || !patch.title || !patch.content) return "type, title and content are required";
+	return { type: patch.type, title: patch.title, content: patch.content, description: patch.description ?? undefined };
+}
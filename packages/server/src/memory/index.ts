@@ -1,9 +1,14 @@
 import type { Memory } from "./repository";
+import type { MemoryScope, RecalledMemory } from "./scope";
 
 /** Maximum number of memory entries injected into the system prompt index. */
 export const MEMORY_INDEX_MAX_ENTRIES = 32;
 /** Maximum byte size of the injected index (defense in depth against huge titles/descriptions). */
 export const MEMORY_INDEX_MAX_BYTES = 4000;
+/** Maximum number of memories recalled into a user message. */
+export const MEMORY_RECALL_MAX_ENTRIES = 8;
+/** Metadata key under which a stored user message keeps the memories recalled for it. */
+export const MEMORY_RECALL_METADATA_KEY = "memory_recall";
 
 /** First N characters of a memory id, used as a compact reference in listings. */
 export function shortMemoryId(id: string): string {
@@ -45,39 +50,83 @@ export function memorySummary(memory: Memory): string {
 	return collapsed.length > 120 ? `${collapsed.slice(0, 117)}…` : collapsed;
 }
 
-/**
- * Build the memory index injected into the system prompt.
- * Returns the inner markdown (header + bounded entry list), or "" when there
- * are no memories. Bounded by MEMORY_INDEX_MAX_ENTRIES and MEMORY_INDEX_MAX_BYTES.
- */
-export function buildMemoryIndex(memories: Memory[], now: Date = new Date()): string {
-	if (memories.length === 0) return "";
+type IndexableMemory = Memory & { scope?: MemoryScope };
 
-	const header = [
+function indexHeader(memories: IndexableMemory[]): string {
+	const lines = [
 		"## Project Memory",
 		"",
 		"Memories saved in previous sessions. Read a full entry with `memory get <id>`, or search with `memory search <query>`.",
-		"",
-	].join("\n");
+	];
+	if (memories.some((m) => m.scope === "global")) {
+		lines.push("Entries marked `global` apply to every project; a project memory with the same title takes precedence.");
+	}
+	lines.push("");
+	return lines.join("\n");
+}
 
-	let bytes = Buffer.byteLength(header, "utf8");
-	const lines: string[] = [];
-	let shown = 0;
+function memoryIndexLine(memory: IndexableMemory, now: Date): string {
+	const label = memory.scope === "global" ? `${memory.type}, global` : memory.type;
+	return `- \`${shortMemoryId(memory.id)}\` [${label}] ${memory.title} — ${memorySummary(memory)} (${formatMemoryAge(memory.updatedAt, now)})`;
+}
+
+/**
+ * The leading memories that fit in the index, bounded by
+ * MEMORY_INDEX_MAX_ENTRIES and MEMORY_INDEX_MAX_BYTES. `memories` is in
+ * index order: most recently updated first, as listMemories returns them,
+ * and project before global, as mergeMemoryScopes returns them.
+ */
+export function selectIndexedMemories<T extends IndexableMemory>(memories: T[], now: Date = new Date()): T[] {
+	let bytes = Buffer.byteLength(indexHeader(memories), "utf8");
+	const shown: T[] = [];
 
 	for (const memory of memories) {
-		const line = `- \`${shortMemoryId(memory.id)}\` [${memory.type}] ${memory.title} — ${memorySummary(memory)} (${formatMemoryAge(memory.updatedAt, now)})`;
-		const lineBytes = Buffer.byteLength(line, "utf8");
-		if (shown >= MEMORY_INDEX_MAX_ENTRIES || bytes + lineBytes > MEMORY_INDEX_MAX_BYTES) {
+		const lineBytes = Buffer.byteLength(memoryIndexLine(memory, now), "utf8");
+		if (shown.length >= MEMORY_INDEX_MAX_ENTRIES || bytes + lineBytes > MEMORY_INDEX_MAX_BYTES) {
 			break;
 		}
-		lines.push(line);
+		shown.push(memory);
 		bytes += lineBytes;
-		shown += 1;
 	}
 
-	const body = lines.join("\n");
-	const hidden = memories.length - shown;
+	return shown;
+}
+
+/**
+ * Build the memory index injected into the system prompt.
+ * Returns the inner markdown (header + bounded entry list), or "" when there
+ * are no memories. Bounded by MEMORY_INDEX_MAX_ENTRIES and MEMORY_INDEX_MAX_BYTES.
+ * Global memories are labelled as such.
+ */
+export function buildMemoryIndex(memories: IndexableMemory[], now: Date = new Date()): string {
+	if (memories.length === 0) return "";
+
+	const shown = selectIndexedMemories(memories, now);
+	const body = shown.map((memory) => memoryIndexLine(memory, now)).join("\n");
+	const hidden = memories.length - shown.length;
 	const note = hidden > 0 ? `\n\n(… ${hidden} more memories not shown — use \`memory list\` to see all)` : "";
 
-	return `${header}${body}${note}`;
+	return `${indexHeader(memories)}${body}${note}`;
+}
+
+/**
+ * The memories relevant to one request, appended to its user message rather
+ * than to the system prompt, so the system prompt stays the same from turn
+ * to turn and keeps hitting the prompt cache. "" when none match.
+ */
+export function buildMemoryRecall(memories: RecalledMemory[], now: Date = new Date()): string {
+	const relevant = memories.filter((m) => m.relevant).slice(0, MEMORY_RECALL_MAX_ENTRIES);
+	if (relevant.length === 0) return "";
+	return [
+		"<recalled-memories>",
+		"Saved memories that match this request, most relevant first. Read a full entry with `memory get <id>`.",
+		...relevant.map((memory) => memoryIndexLine(memory, now)),
+		"</recalled-memories>",
+	].join("\n");
+}
+
+/** A stored user message as the model sees it: its text, then the memories recalled for it. */
+export function withRecalledMemories(content: string, metadata: Record<string, unknown> | null): string {
+	const recall = metadata?.[MEMORY_RECALL_METADATA_KEY];
+	return typeof recall === "string" && recall ? `${content}\n\n${recall}` : content;
 }
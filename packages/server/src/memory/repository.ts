@@ -59,6 +59,43 @@ export function ensureMemoriesSchema(db: Database): void {
 		)
 	`);
 	db.exec("CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type)");
+	ensureMemoriesFtsSchema(db);
+}
+
+/**
+ * Create the memories_fts index and the triggers that keep it in sync with
+ * the memories table. Existing memories are indexed on first creation. FTS
+ * rows share the rowid of the memory they index. Without FTS5 support the
+ * index is skipped and ranking falls back to recency (see rankMemories).
+ */
+function ensureMemoriesFtsSchema(db: Database): void {
+	const exists = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memories_fts'").get();
+	try {
+		db.exec("CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(title, description, content, tokenize = 'unicode61')");
+	} catch {
+		return;
+	}
+	db.exec(`
+		CREATE TRIGGER IF NOT EXISTS memories_fts_insert AFTER INSERT ON memories BEGIN
+			INSERT INTO memories_fts (rowid, title, description, content) VALUES (new.rowid, new.title, new.description, new.content);
+		END
+	`);
+	db.exec(`
+		CREATE TRIGGER IF NOT EXISTS memories_fts_delete AFTER DELETE ON memories BEGIN
+			DELETE FROM memories_fts WHERE rowid = old.rowid;
+		END
+	`);
+	db.exec(`
+		CREATE TRIGGER IF NOT EXISTS memories_fts_update AFTER UPDATE OF title, description, content ON memories BEGIN
+			DELETE FROM memories_fts WHERE rowid = old.rowid;
+			INSERT INTO memories_fts (rowid, title, description, content) VALUES (new.rowid, new.title, new.description, new.content);
+		END
+	`);
+	if (!exists) {
+		db.exec(
+			"INSERT INTO memories_fts (rowid, title, description, content) SELECT rowid, title, description, content FROM memories",
+		);
+	}
 }
 
 export function listMemories(db: Database, options?: { type?: MemoryType }): Memory[] {
@@ -151,9 +188,79 @@ export function deleteMemory(db: Database, id: string): boolean {
 	return row.count > 0;
 }
 
-/** Keyword search across title, description, and content. Most recent first. */
+/** Words too common to say anything about relevance. */
+const STOP_WORDS = new Set(
+	(
+		"a an and are as at be but by can do does for from has have how i if in into is it its me my no not of on or our " +
+		"please should so that the their then there these this to up us was we what when where which who why will with " +
+		"would you your"
+	).split(" "),
+);
+
+/** Most distinct words of a prompt used for ranking; longer prompts add little beyond this. */
+const MAX_RECALL_TERMS = 32;
+
+/**
+ * Turn free text into an FTS5 query matching any of its words, each as a
+ * prefix so "tests" finds "testing". Stop words and one-letter words are
+ * dropped; words are quoted so punctuation never trips the FTS5 syntax.
+ */
+export function toMemoryRecallQuery(text: string): string | null {
+	const words = new Set(
+		text
+			.toLowerCase()
+			.split(/[^\p{L}\p{N}_]+/u)
+			.filter((w) => w.length > 1 && !STOP_WORDS.has(w)),
+	);
+	if (words.size === 0) return null;
+	return [...words]
+		.slice(0, MAX_RECALL_TERMS)
+		.map((w) => `"${w}"*`)
+		.join(" OR ");
+}
+
+export interface RankedMemory {
+	memory: Memory;
+	/** BM25 score; lower is more relevant. Comparable only within one query. */
+	score: number;
+}
+
+/**
+ * Memories relevant to `text`, best first, ranked by BM25 over the title,
+ * description and content (weighted in that order). Deterministic and
+ * offline. Returns [] when nothing matches or the FTS index is unavailable.
+ */
+export function rankMemories(db: Database, text: string, limit: number): RankedMemory[] {
+	const query = toMemoryRecallQuery(text);
+	if (!query) return [];
+	try {
+		const rows = db
+			.prepare(
+				`SELECT m.id, m.type, m.title, m.description, m.content, m.session_id, m.created_at, m.updated_at,
+				        bm25(memories_fts, 10.0, 5.0, 1.0) AS score
+				 FROM memories_fts
+				 JOIN memories m ON m.rowid = memories_fts.rowid
+				 WHERE memories_fts MATCH ?
+				 ORDER BY score, m.updated_at DESC
+				 LIMIT ?`,
+			)
+			.all(query, limit) as (MemoryRow & { score: number })[];
+		return rows.map((r) => ({ memory: mapRow(r), score: r.score }));
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Search across title, description, and content: memories ranked by
+ * relevance first, then any other substring matches, most recent first.
+ */
 export function searchMemories(db: Database, query: string, limit = 20): Memory[] {
+	const ranked = rankMemories(db, query, limit).map((r) => r.memory);
+	if (ranked.length >= limit) return ranked;
+
 	const like = `%${query}%`;
+	const seen = new Set(ranked.map((m) => m.id));
 	const rows = db
 		.prepare(
 			`SELECT ${SELECT_COLUMNS} FROM memories
@@ -161,5 +268,15 @@ export function searchMemories(db: Database, query: string, limit = 20): Memory[
 			 ORDER BY updated_at DESC, rowid DESC LIMIT ?`,
 		)
 		.all(like, like, like, limit) as MemoryRow[];
-	return rows.map(mapRow);
+	const substring = rows.map(mapRow).filter((m) => !seen.has(m.id));
+	return [...ranked, ...substring].slice(0, limit);
+}
+
+/** Delete several memories at once. Returns the number of rows removed. */
+export function deleteMemories(db: Database, ids: string[]): number {
+	if (ids.length === 0) return 0;
+	const placeholders = ids.map(() => "?").join(", ");
+	db.prepare(`DELETE FROM memories WHERE id IN (${placeholders})`).run(...ids);
+	const row = db.query("SELECT changes() as count").get() as { count: number };
+	return row.count;
 }
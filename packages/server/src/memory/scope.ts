@@ -0,0 +1,131 @@
+import { Database } from "bun:sqlite";
+import fs from "node:fs";
+import path from "node:path";
+import { MEMORY_INDEX_MAX_ENTRIES } from "./index";
+import {
+	createMemory,
+	deleteMemory,
+	ensureMemoriesSchema,
+	findMemoryByTitle,
+	getMemory,
+	listMemories,
+	type Memory,
+	rankMemories,
+	updateMemory,
+} from "./repository";
+
+export const MEMORY_SCOPES = ["project", "global"] as const;
+export type MemoryScope = (typeof MEMORY_SCOPES)[number];
+
+export function isMemoryScope(value: unknown): value is MemoryScope {
+	return typeof value === "string" && (MEMORY_SCOPES as readonly string[]).includes(value);
+}
+
+/** A memory tagged with the store it lives in. */
+export interface ScopedMemory extends Memory {
+	scope: MemoryScope;
+}
+
+/** File name of the global memory store inside the global config dir. */
+export const GLOBAL_MEMORY_DB_FILE = "memory.db";
+
+/**
+ * Open the cross-project memory store (`~/.config/bobai/memory.db`), creating
+ * it on first use. It holds only the memories table.
+ */
+export function openGlobalMemoryDb(configDir: string): Database {
+	fs.mkdirSync(configDir, { recursive: true });
+	const db = new Database(path.join(configDir, GLOBAL_MEMORY_DB_FILE), { create: true });
+	db.exec("PRAGMA journal_mode = WAL");
+	ensureMemoriesSchema(db);
+	return db;
+}
+
+/** The store backing a scope, or null when the global store is not available. */
+export function memoryStore(db: Database, globalDb: Database | undefined, scope: MemoryScope): Database | null {
+	return scope === "project" ? db : (globalDb ?? null);
+}
+
+function tag(memories: Memory[], scope: MemoryScope): ScopedMemory[] {
+	return memories.map((m) => ({ ...m, scope }));
+}
+
+/**
+ * Project and global memories in index order: project first, then global.
+ * A global memory whose title (case-insensitive) matches a project memory is
+ * dropped, so the project can override a global memory.
+ */
+export function mergeMemoryScopes(project: Memory[], global: Memory[]): ScopedMemory[] {
+	const titles = new Set(project.map((m) => m.title.toLowerCase()));
+	return [...tag(project, "project"), ...tag(global, "global").filter((m) => !titles.has(m.title.toLowerCase()))];
+}
+
+/** Both stores merged for the system prompt index (see mergeMemoryScopes). */
+export function listIndexableMemories(db: Database, globalDb?: Database): ScopedMemory[] {
+	return mergeMemoryScopes(listMemories(db), globalDb ? listMemories(globalDb) : []);
+}
+
+/** A memory in index order for a prompt, flagged when it matched the prompt. */
+export interface RecalledMemory extends ScopedMemory {
+	relevant: boolean;
+}
+
+/**
+ * Memories in index order for a prompt: those relevant to it first, then
+ * the rest in the order of listIndexableMemories. Each store is ranked on
+ * its own, since BM25 scores from two FTS indexes are not comparable, and
+ * the two rankings are interleaved: each store's best match, then each
+ * store's second best, project before global. Without a prompt, or when
+ * nothing matches, this is plain recency order.
+ */
+export function recallMemories(db: Database, globalDb: Database | undefined, prompt: string): RecalledMemory[] {
+	const memories = listIndexableMemories(db, globalDb);
+	const ranks = new Map<string, number>();
+	for (const store of globalDb ? [db, globalDb] : [db]) {
+		rankMemories(store, prompt, MEMORY_INDEX_MAX_ENTRIES).forEach(({ memory }, rank) => {
+			ranks.set(memory.id, rank);
+		});
+	}
+	// Stable sort, so equal ranks keep the project-first order of listIndexableMemories
+	const relevant = memories
+		.filter((m) => ranks.has(m.id))
+		.sort((a, b) => (ranks.get(a.id) ?? 0) - (ranks.get(b.id) ?? 0))
+		.map((m) => ({ ...m, relevant: true }));
+	const rest = memories.filter((m) => !ranks.has(m.id)).map((m) => ({ ...m, relevant: false }));
+	return [...relevant, ...rest];
+}
+
+/** Every memory of both stores, project first; unlike the index, shadowed global memories are kept. */
+export function listAllScopedMemories(db: Database, globalDb?: Database): ScopedMemory[] {
+	return [...tag(listMemories(db), "project"), ...tag(globalDb ? listMemories(globalDb) : [], "global")];
+}
+
+/** Look a memory up by exact id in the project store, then the global one. */
+export function getScopedMemory(db: Database, globalDb: Database | undefined, id: string): ScopedMemory | null {
+	const project = getMemory(db, id);
+	if (project) return { ...project, scope: "project" };
+	const global = globalDb ? getMemory(globalDb, id) : null;
+	return global ? { ...global, scope: "global" } : null;
+}
+
+/**
+ * Move a project memory to the global store. A global memory with the same
+ * title is updated in place rather than duplicated. Returns the global
+ * memory, or null when the id is not a project memory.
+ */
+export function promoteMemory(db: Database, globalDb: Database, id: string): ScopedMemory | null {
+	const memory = getMemory(db, id);
+	if (!memory) return null;
+	const existing = findMemoryByTitle(globalDb, memory.title);
+	const fields = { type: memory.type, title: memory.title, content: memory.content };
+	const promoted = existing
+		? updateMemory(globalDb, existing.id, { ...fields, description: memory.description })
+		: createMemory(globalDb, {
+				...fields,
+				description: memory.description ?? undefined,
+				sessionId: memory.sessionId ?? undefined,
+			});
+	if (!promoted) return null;
+	deleteMemory(db, memory.id);
+	return { ...promoted, scope: "global" };
+}
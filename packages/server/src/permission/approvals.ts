@@ -0,0 +1,73 @@
+interface PendingApproval {
+	owner: object;
+	resolve: (approved: boolean) => void;
+	cleanup: () => void;
+}
+
+export interface ApprovalRegistry {
+	/**
+	 * Register a pending approval owned by `owner` (a WebSocket). The returned
+	 * promise settles when the owner answers, the owner disconnects (denied),
+	 * or the signal aborts (rejected with the abort reason).
+	 */
+	request(owner: object, signal?: AbortSignal): { id: string; approved: Promise<boolean> };
+	/** Answer a pending approval. Returns false for unknown ids or a foreign owner. */
+	respond(owner: object, id: string, approved: boolean): boolean;
+	/** Deny every approval still pending for `owner`. */
+	cancelOwner(owner: object): void;
+	/** Number of approvals still waiting for an answer. */
+	size(): number;
+}
+
+/** Tracks approval requests awaiting an answer from the UI. */
+export function createApprovalRegistry(): ApprovalRegistry {
+	const pending = new Map<string, PendingApproval>();
+
+	function settle(id: string, approved: boolean) {
+		const entry = pending.get(id);
+		if (!entry) return;
+		pending.delete(id);
+		entry.cleanup();
+		entry.resolve(approved);
+	}
+
+	return {
+		request(owner, signal) {
+			const id = crypto.randomUUID();
+			const approved = new Promise<boolean>((resolve, reject) => {
+				if (signal?.aborted) {
+					reject(signal.reason);
+					return;
+				}
+				const onAbort = () => {
+					pending.delete(id);
+					reject(signal?.reason);
+				};
+				signal?.addEventListener("abort", onAbort, { once: true });
+				pending.set(id, {
+					owner,
+					resolve,
+					cleanup: () => signal?.removeEventListener("abort", onAbort),
+				});
+			});
+			return { id, approved };
+		},
+
+		respond(owner, id, approved) {
+			const entry = pending.get(id);
+			if (!entry || entry.owner !== owner) return false;
+			settle(id, approved);
+			return true;
+		},
+
+		cancelOwner(owner) {
+			for (const [id, entry] of [...pending]) {
+				if (entry.owner === owner) settle(id, false);
+			}
+		},
+
+		size() {
+			return pending.size;
+		},
+	};
+}
@@ -0,0 +1,69 @@
+import { evaluatePermission, type PermissionPolicy } from "./policy";
+
+/** A tool call about to execute, as seen by the permission gate. */
+export interface ToolCallPermissionRequest {
+	toolName: string;
+	args: Record<string, unknown>;
+	toolCallId: string;
+	sessionId: string;
+	signal?: AbortSignal;
+}
+
+export type PermissionOutcome = { allowed: true } | { allowed: false; llmOutput: string; uiOutput: string };
+
+/** Called by the agent loop before every tool execution. */
+export type AuthorizeToolCall = (request: ToolCallPermissionRequest) => Promise<PermissionOutcome>;
+
+/** Payload shown to the user when a call needs explicit approval. */
+export interface ApprovalPrompt {
+	toolCallId: string;
+	tool: string;
+	/** Subject matched by pattern rules, or a truncated JSON dump of the arguments. */
+	detail: string;
+	sessionId: string;
+}
+
+/** Resolves true when the user approves, false when they deny. */
+export type RequestApproval = (prompt: ApprovalPrompt, signal?: AbortSignal) => Promise<boolean>;
+
+const MAX_DETAIL_LENGTH = 500;
+
+function describeArgs(args: Record<string, unknown>): string {
+	const json = JSON.stringify(args);
+	return json.length > MAX_DETAIL_LENGTH ? `${json.slice(0, MAX_DETAIL_LENGTH - 1)}…` : json;
+}
+
+function denied(toolName: string, why: string): PermissionOutcome {
+	return {
+		allowed: false,
+		llmOutput: `Permission denied: ${toolName} ${why}. Do not retry this call — ask the user how to proceed.`,
+		uiOutput: `▸ Permission denied: ${toolName} ${why}`,
+	};
+}
+
+/**
+ * Build the agent-loop hook that enforces a permission policy.
+ *
+ * "ask" decisions are forwarded to `requestApproval`; without one (no
+ * interactive client) they are denied rather than silently allowed.
+ */
+export function createPermissionGate(policy: PermissionPolicy, requestApproval?: RequestApproval): AuthorizeToolCall {
+	return async (request) => {
+		const decision = evaluatePermission(policy, request.toolName, request.args);
+
+		if (decision.action === "allow") return { allowed: true };
+		if (decision.action === "deny") return denied(request.toolName, `is blocked by ${decision.reason}`);
+		if (!requestApproval) return denied(request.toolName, "requires approval but no client can answer");
+
+		const approved = await requestApproval(
+			{
+				toolCallId: request.toolCallId,
+				tool: request.toolName,
+				detail: decision.subject ?? describeArgs(request.args),
+				sessionId: request.sessionId,
+			},
+			request.signal,
+		);
+		return approved ? { allowed: true } : denied(request.toolName, "was rejected by the user");
+	};
+}
@@ -0,0 +1,250 @@
+import { patchedPaths } from "../tool/apply-patch";
+
+export const PERMISSION_ACTIONS = ["allow", "ask", "deny"] as const;
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number];
+
+export function isPermissionAction(value: unknown): value is PermissionAction {
+	return typeof value === "string" && (PERMISSION_ACTIONS as readonly string[]).includes(value);
+}
+
+/** Per-tool rule: a fallback action plus glob patterns matched against the tool's subject. */
+export interface ToolPermissionRule {
+	action?: PermissionAction;
+	allow?: string[];
+	ask?: string[];
+	deny?: string[];
+}
+
+/** The `permissions` section of bobai.json (global or project). */
+export interface PermissionConfig {
+	default?: PermissionAction;
+	tools?: Record<string, PermissionAction | ToolPermissionRule>;
+}
+
+/** Merged, validated policy used at runtime. */
+export interface PermissionPolicy {
+	defaultAction: PermissionAction;
+	tools: Record<string, ToolPermissionRule>;
+}
+
+export interface PermissionDecision {
+	action: PermissionAction;
+	/** The argument value patterns were matched against (e.g. the bash command). */
+	subject?: string;
+	/** Which part of the policy produced the decision, for logs and denial messages. */
+	reason: string;
+}
+
+/**
+ * Argument inspected by pattern rules for each tool. Tools not listed here
+ * can only be governed by their tool-level action.
+ */
+export const PERMISSION_SUBJECT_ARGS: Record<string, string> = {
+	bash: "command",
+	cmd: "command",
+	powershell: "command",
+	process: "script",
+	write_file: "path",
+	edit_file: "path",
+	sqlite3: "query",
+	web_fetch: "url",
+	browser_navigate: "url",
+	browser_evaluate: "expression",
+};
+
+function sanitizePatterns(value: unknown): string[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	const patterns = value.filter((p): p is string => typeof p === "string" && p.length > 0);
+	return patterns.length > 0 ? patterns : undefined;
+}
+
+function sanitizeRule(value: unknown): ToolPermissionRule | undefined {
+	if (isPermissionAction(value)) return { action: value };
+	if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+	const raw = value as Record<string, unknown>;
+	const rule: ToolPermissionRule = {};
+	if (isPermissionAction(raw.action)) rule.action = raw.action;
+	const allow = sanitizePatterns(raw.allow);
+	const ask = sanitizePatterns(raw.ask);
+	const deny = sanitizePatterns(raw.deny);
+	if (allow) rule.allow = allow;
+	if (ask) rule.ask = ask;
+	if (deny) rule.deny = deny;
+	return Object.keys(rule).length > 0 ? rule : undefined;
+}
+
+function sanitizeTools(config: PermissionConfig | undefined): Record<string, ToolPermissionRule> {
+	const tools: Record<string, ToolPermissionRule> = {};
+	if (!config?.tools || typeof config.tools !== "object") return tools;
+	for (const [name, value] of Object.entries(config.tools)) {
+		const rule = sanitizeRule(value);
+		if (rule) tools[name] = rule;
+	}
+	return tools;
+}
+
+/**
+ * Merge the project and global `permissions` sections into a runtime policy.
+ *
+ * A project tool entry replaces the global entry for the same tool; the
+ * project default wins over the global default. Returns undefined when
+ * neither layer configures permissions, so callers can skip gating entirely.
+ * Invalid actions and non-string patterns are dropped.
+ */
+export function resolvePermissionPolicy(project?: PermissionConfig, global?: PermissionConfig): PermissionPolicy | undefined {
+	if (!project && !global) return undefined;
+	const projectDefault = isPermissionAction(project?.default) ? project.default : undefined;
+	const globalDefault = isPermissionAction(global?.default) ? global.default : undefined;
+	return {
+		defaultAction: projectDefault ?? globalDefault ?? "allow",
+		tools: { ...sanitizeTools(global), ...sanitizeTools(project) },
+	};
+}
+
+/** Extract the value pattern rules are matched against, or undefined for tools without one. */
+export function permissionSubject(toolName: string, args: Record<string, unknown>): string | undefined {
+	// Input typed into a running process reaches its shell like a script does
+	const argName = toolName === "process" && args.command === "input" ? "text" : PERMISSION_SUBJECT_ARGS[toolName];
+	if (!argName) return undefined;
+	const value = args[argName];
+	return typeof value === "string" ? value.trim() : undefined;
+}
+
+/**
+ * Glob match: `*` matches any run of characters (including none), `?` matches
+ * exactly one. The pattern must match the whole subject.
+ */
+export function matchesPermissionPattern(pattern: string, subject: string): boolean {
+	const source = pattern
+		.split("")
+		.map((ch) => {
+			if (ch === "*") return "[\\s\\S]*";
+			if (ch === "?") return "[\\s\\S]";
+			return ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}$`).test(subject);
+}
+
+/** Tools whose subject is a shell command that can chain several commands. */
+const SHELL_TOOLS = new Set(["bash", "cmd", "powershell", "process"]);
+
+/** Command separators, and the openers and closers of command substitutions and subshells. */
+const SHELL_SEPARATOR = /&&|\|\||\$\(|[;&|\n`()]/;
+
+/**
+ * The commands a shell subject runs: split at `;`, `&&`, `||`, `|`, `&`,
+ * newlines, `$(`, backticks and parentheses. Quoting is ignored, so a quoted
+ * separator splits too; that only ever makes a command harder to allow.
+ */
+export function splitShellCommand(command: string): string[] {
+	return command
+		.split(SHELL_SEPARATOR)
+		.map((segment) => segment.trim())
+		.filter((segment) => segment.length > 0);
+}
+
+/** Tools whose path rules also govern every file apply_patch changes. */
+const FILE_WRITE_TOOLS = ["write_file", "edit_file"];
+
+/** Shells whose command rules also govern the scripts and input of background processes. */
+const SHELL_COMMAND_TOOLS = ["bash", "cmd", "powershell"];
+
+const STRICTNESS: Record<PermissionAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+/**
+ * Decide what to do with a tool call.
+ *
+ * Order: deny patterns, ask patterns, allow patterns, the tool's own action,
+ * then the policy default. Deny is checked first so a broad allow rule can
+ * never re-enable a command that is explicitly blocked.
+ *
+ * Shell commands are also checked command by command: deny and ask apply
+ * when the whole subject or any chained command matches, and allow only
+ * when every chained command matches an allow pattern, so `git status*`
+ * does not allow `git status; rm -rf ~`.
+ *
+ * apply_patch has no subject of its own; each file it changes is also
+ * checked against the write_file and edit_file rules, and the strictest
+ * decision wins, so `"write_file": { "deny": ["*.env"] }` covers patches too.
+ *
+ * process scripts and the input typed into a running process are likewise
+ * checked against the bash, cmd and powershell rules, so a shell deny rule
+ * cannot be sidestepped by starting the command in the background.
+ */
+export function evaluatePermission(
+	policy: PermissionPolicy,
+	toolName: string,
+	args: Record<string, unknown>,
+): PermissionDecision {
+	const decision = evaluateToolPermission(policy, toolName, args);
+	if (toolName === "process") return strictestShellDecision(policy, decision, args);
+	if (toolName !== "apply_patch") return decision;
+
+	const paths = patchedPaths(args);
+	let strictest = decision;
+	for (const filePath of paths) {
+		for (const fileTool of FILE_WRITE_TOOLS) {
+			// Only configured file tools count; the default already applied to apply_patch itself
+			if (!policy.tools[fileTool]) continue;
+			const fileDecision = evaluateToolPermission(policy, fileTool, { path: filePath });
+			if (STRICTNESS[fileDecision.action] > STRICTNESS[strictest.action]) {
+				strictest = { ...fileDecision, reason: `${fileDecision.reason} (${filePath})` };
+			}
+		}
+	}
+	return { ...strictest, subject: paths.length > 0 ? paths.join(", ") : undefined };
+}
+
+function strictestShellDecision(
+	policy: PermissionPolicy,
+	decision: PermissionDecision,
+	args: Record<string, unknown>,
+): PermissionDecision {
+	const script = permissionSubject("process", args);
+	if (script === undefined) return decision;
+	let strictest = decision;
+	for (const shellTool of SHELL_COMMAND_TOOLS) {
+		// Only configured shells count; the default already applied to process itself
+		if (!policy.tools[shellTool]) continue;
+		const shellDecision = evaluateToolPermission(policy, shellTool, { command: script });
+		if (STRICTNESS[shellDecision.action] > STRICTNESS[strictest.action]) strictest = shellDecision;
+	}
+	return { ...strictest, subject: script };
+}
+
+function evaluateToolPermission(policy: PermissionPolicy, toolName: string, args: Record<string, unknown>): PermissionDecision {
+	const rule = policy.tools[toolName];
+	const subject = permissionSubject(toolName, args);
+
+	if (rule && subject !== undefined) {
+		const segments = SHELL_TOOLS.has(toolName) ? splitShellCommand(subject) : [subject];
+		const findMatch = (patterns: string[] | undefined, value: string) =>
+			patterns?.find((pattern) => matchesPermissionPattern(pattern, value));
+
+		for (const action of ["deny", "ask"] as const) {
+			for (const value of [subject, ...segments]) {
+				const match = findMatch(rule[action], value);
+				if (match !== undefined) {
+					return { action, subject, reason: `${action} rule "${match}" for ${toolName}` };
+				}
+			}
+		}
+
+		const allowed = segments.map((segment) => findMatch(rule.allow, segment));
+		if (allowed.length > 0 && allowed.every((match) => match !== undefined)) {
+			const matches = [...new Set(allowed)];
+			const reason =
+				matches.length === 1
+					? `allow rule "${matches[0]}" for ${toolName}`
+					: `allow rules ${matches.map((m) => `"${m}"`).join(", ")} for ${toolName}`;
+			return { action: "allow", subject, reason };
+		}
+	}
+
+	if (rule?.action) {
+		return { action: rule.action, subject, reason: `${toolName} policy "${rule.action}"` };
+	}
+
+	return { action: policy.defaultAction, subject, reason: `default policy "${policy.defaultAction}"` };
+}
@@ -1,6 +1,6 @@
 import fs from "node:fs";
 import path from "node:path";
-import type { AvailableTools, GrepToolKind, PlatformInfo, ShellToolKind } from "./types";
+import type { AvailableTools, GrepToolKind, PlatformInfo, SandboxKind, ShellToolKind } from "./types";
 
 interface ShellCandidate {
 	kind: ShellToolKind;
@@ -62,11 +62,17 @@ async function commandExists(resolve: string, knownPath: boolean): Promise<boole
 	return Bun.which(resolve) !== null;
 }
 
+/** bubblewrap needs Linux namespaces, so Linux and WSL only. */
+async function detectSandbox(info: PlatformInfo): Promise<SandboxKind | undefined> {
+	if (info.os !== "linux" && info.variant !== "wsl") return undefined;
+	return (await commandExists("bwrap", false)) ? "bubblewrap" : undefined;
+}
+
 export async function detectAvailableTools(info: PlatformInfo): Promise<AvailableTools> {
 	const shellCandidates = getShellCandidates(info);
 	const grepCandidates = getGrepCandidates(info);
 
-	const [shellResults, grepResults, gitAvailable] = await Promise.all([
+	const [shellResults, grepResults, gitAvailable, sandbox] = await Promise.all([
 		Promise.all(
 			shellCandidates.map(async (c) => ({
 				kind: c.kind,
@@ -80,11 +86,13 @@ export async function detectAvailableTools(info: PlatformInfo): Promise<Availabl
 			})),
 		),
 		commandExists("git", false),
+		detectSandbox(info),
 	]);
 
 	return {
 		shells: shellResults.filter((r) => r.available).map((r) => r.kind),
 		grepTools: grepResults.filter((r) => r.available).map((r) => r.kind),
 		git: gitAvailable,
+		sandbox,
 	};
 }
@@ -2,6 +2,8 @@ import { PlatformResolver, parsePlatformId } from "./resolver";
 
 export { detectAvailableTools } from "./detection";
 export { PlatformResolver } from "./resolver";
+export type { Sandbox, SandboxConfig, SandboxStatus } from "./sandbox";
+export { createSandbox, describeSandbox, resolveSandboxSettings } from "./sandbox";
 export type { AvailableTools, PlatformId, PlatformInfo, PlatformPaths } from "./types";
 
 /**
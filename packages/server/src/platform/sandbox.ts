@@ -0,0 +1,124 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AvailableTools } from "./types";
+
+/** The `sandbox` section of bobai.json (global or project). */
+export interface SandboxConfig {
+	/** Run shell commands in a sandbox (Linux and WSL, needs bubblewrap). Off by default. */
+	enabled?: boolean;
+	/** Let sandboxed commands use the network. Defaults to true. */
+	network?: boolean;
+	/** Paths commands may write to besides the project directory. `~/` is the home directory; relative paths start at the project. */
+	writable?: string[];
+}
+
+/** Merged sandbox settings. */
+export interface SandboxSettings {
+	enabled: boolean;
+	network: boolean;
+	writable: string[];
+}
+
+/** "bubblewrap" when commands run sandboxed; "unavailable" when the sandbox is enabled but cannot run here. */
+export type SandboxMode = "bubblewrap" | "unavailable";
+
+/** What the system prompt and the UI report about the sandbox. */
+export interface SandboxStatus {
+	mode: SandboxMode;
+	network: boolean;
+	/** Absolute extra writable paths. */
+	writable: string[];
+}
+
+export interface Sandbox {
+	status: SandboxStatus;
+	/**
+	 * The argv that runs `argv` inside the sandbox with `cwd` as its working
+	 * directory. Throws when the sandbox is unavailable, so commands never
+	 * run unconfined while the sandbox is enabled.
+	 */
+	wrap(argv: string[], cwd: string): string[];
+}
+
+/**
+ * Merge the project and global `sandbox` sections. Each field is taken from
+ * the project when set there, otherwise from the global config.
+ */
+export function resolveSandboxSettings(project?: SandboxConfig, global?: SandboxConfig): SandboxSettings {
+	const pick = <K extends keyof SandboxConfig>(key: K) => project?.[key] ?? global?.[key];
+	const writable = pick("writable");
+	return {
+		enabled: pick("enabled") === true,
+		network: pick("network") !== false,
+		writable: Array.isArray(writable) ? writable.filter((p): p is string => typeof p === "string" && p.trim() !== "") : [],
+	};
+}
+
+function resolveWritablePath(entry: string, projectRoot: string): string {
+	const trimmed = entry.trim();
+	if (trimmed === "~") return os.homedir();
+	if (trimmed.startsWith("~/")) return path.join(os.homedir(), trimmed.slice(2));
+	return path.resolve(projectRoot, trimmed);
+}
+
+/**
+ * Arguments for bubblewrap: the whole filesystem read-only, a private /dev,
+ * /proc and /tmp, the project and the extra paths writable, and optionally
+ * no network. The project's `.bobai` (sessions, memories, project config),
+ * git config and git hooks stay read-only, so a command cannot plant something
+ * that runs or is trusted outside the sandbox. `--new-session` detaches the
+ * command from the terminal, so it cannot push keystrokes into it with
+ * TIOCSTI. bwrap itself keeps the caller's process group, and killing it takes
+ * the whole PID namespace down, so killing the group still reaches everything
+ * the command started.
+ */
+export function bubblewrapArgs(status: SandboxStatus, projectRoot: string, cwd: string): string[] {
+	const args = ["bwrap", "--ro-bind", "/", "/", "--dev", "/dev", "--proc", "/proc", "--tmpfs", "/tmp"];
+	// After /tmp, so a project under /tmp stays visible and writable
+	args.push("--bind", projectRoot, projectRoot);
+	for (const writable of status.writable) args.push("--bind-try", writable, writable);
+	// Last, so no writable bind above can cover them again
+	const bobaiDir = path.join(projectRoot, ".bobai");
+	args.push("--ro-bind", bobaiDir, bobaiDir);
+	// Git config can point hooks, filters and fsmonitor at any command, so it is as sensitive as the hooks
+	for (const gitPath of [path.join(projectRoot, ".git", "config"), path.join(projectRoot, ".git", "hooks")]) {
+		if (fs.existsSync(gitPath)) args.push("--ro-bind", gitPath, gitPath);
+	}
+	if (!status.network) args.push("--unshare-net");
+	args.push("--unshare-pid", "--new-session", "--die-with-parent", "--chdir", cwd, "--");
+	return args;
+}
+
+/**
+ * Build the sandbox for the shell tools, or undefined when it is not enabled.
+ * When it is enabled but bubblewrap was not detected, the sandbox is still
+ * returned, in "unavailable" mode, and refuses to run commands.
+ */
+export function createSandbox(settings: SandboxSettings, available: AvailableTools, projectRoot: string): Sandbox | undefined {
+	if (!settings.enabled) return undefined;
+	const status: SandboxStatus = {
+		mode: available.sandbox === "bubblewrap" ? "bubblewrap" : "unavailable",
+		network: settings.network,
+		writable: [...new Set(settings.writable.map((p) => resolveWritablePath(p, projectRoot)))],
+	};
+	return {
+		status,
+		wrap(argv, cwd) {
+			if (status.mode === "unavailable") {
+				throw new Error("the sandbox is enabled in bobai.json, but bubblewrap (bwrap) is not installed on this machine");
+			}
+			return [...bubblewrapArgs(status, projectRoot, cwd), ...argv];
+		},
+	};
+}
+
+/** One line for the system prompt metadata. */
+export function describeSandbox(status: SandboxStatus): string {
+	if (status.mode === "unavailable") {
+		return "enabled but unavailable (bubblewrap is not installed); shell commands fail until it is";
+	}
+	const writable = ["the project directory except .bobai, .git/config and .git/hooks", ...status.writable].join(", ");
+	const network = status.network ? "allowed" : "disabled";
+	return `shell commands run in a bubblewrap sandbox (writable: ${writable}; the rest of the filesystem is read-only; /tmp is private; network ${network})`;
+}
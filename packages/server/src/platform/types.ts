@@ -26,8 +26,12 @@ export type ShellToolKind = "bash" | "cmd" | "powershell";
 
 export type GrepToolKind = "grep_search" | "findstr";
 
+export type SandboxKind = "bubblewrap";
+
 export interface AvailableTools {
 	shells: ShellToolKind[];
 	grepTools: GrepToolKind[];
 	git: boolean;
+	/** Sandbox runtime for the shell tools, when one is installed (see the `sandbox` config section). */
+	sandbox?: SandboxKind;
 }
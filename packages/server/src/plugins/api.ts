@@ -0,0 +1,111 @@
+import type { Logger } from "../log/logger";
+import type { Provider } from "../provider/provider";
+import type { ApiFamily, ProviderModelConfig } from "../provider/registry";
+import type { Tool } from "../tool/tool";
+
+export type PluginScope = "global" | "project";
+
+/** Logger handed to a plugin. Messages are written under the PLUGIN system, prefixed with the plugin name. */
+export interface PluginLogger {
+	debug(message: string): void;
+	info(message: string): void;
+	warn(message: string): void;
+	error(message: string): void;
+}
+
+export interface PluginCommandContext {
+	/** Session the command was typed in. Undefined before the first prompt of a new chat. */
+	sessionId?: string;
+	projectRoot: string;
+}
+
+/** What a command run returns: a line to show, explicit messages, or nothing. */
+export type PluginCommandOutput = string | { messages: { text: string; kind: "info" | "success" | "error" }[] } | undefined;
+
+/** A dot command contributed by a plugin (`.name args`). */
+export interface PluginCommand {
+	/** Lowercase letters only; must not clash with a built-in command. */
+	name: string;
+	description: string;
+	run(args: string, ctx: PluginCommandContext): PluginCommandOutput | Promise<PluginCommandOutput>;
+}
+
+export interface PluginProviderContext {
+	configDir: string;
+	logger?: Logger;
+	fetch?: typeof fetch;
+	/** Build the provider Bob AI would have used, e.g. to wrap it. Rejects for a provider the plugin added. */
+	createDefault(): Promise<Provider>;
+}
+
+/** Supplies the runtime implementation of a provider, in place of the built-in one or for a new provider id. */
+export type PluginProviderFactory = (ctx: PluginProviderContext) => Provider | Promise<Provider>;
+
+/** What Bob AI needs to know about a provider id it does not ship. */
+export interface PluginProviderOptions {
+	/** Models offered by `.model` and priced like catalog models. The first one is the default. */
+	models: ProviderModelConfig[];
+	/** Request format of the provider's models, recorded on the session. Defaults to "openai-chat-completions". */
+	apiFamily?: ApiFamily;
+}
+
+export interface BeforeTurnEvent {
+	sessionId: string;
+	prompt: string;
+	projectRoot: string;
+}
+
+export interface AfterToolCallEvent {
+	sessionId: string;
+	toolCallId: string;
+	toolName: string;
+	args: Record<string, unknown>;
+	/** Output as the model sees it. */
+	output: string;
+}
+
+export type BeforeTurnHook = (event: BeforeTurnEvent) => void | Promise<void>;
+export type AfterToolCallHook = (event: AfterToolCallEvent) => void | Promise<void>;
+
+export interface SystemPromptSectionContext {
+	sessionId: string;
+	projectRoot: string;
+	/** True when the prompt is built for a subagent. */
+	subagent: boolean;
+}
+
+/** Fixed text, or a function evaluated for every turn. Empty results are skipped. */
+export type SystemPromptSection = string | ((ctx: SystemPromptSectionContext) => string | undefined);
+
+/** Registration functions passed to a plugin's `setup`. */
+export interface PluginApi {
+	/** Bob AI version ("dev" when run from source). */
+	version: string;
+	/** Plugin name: the file name without extension. */
+	name: string;
+	projectRoot: string;
+	logger: PluginLogger;
+	registerTool(tool: Tool): void;
+	registerCommand(command: PluginCommand): void;
+	/**
+	 * Replace the runtime of a built-in provider, or add a provider under a new
+	 * id (lowercase letters, digits and dashes), which needs `options.models`.
+	 */
+	registerProvider(providerId: string, factory: PluginProviderFactory, options?: PluginProviderOptions): void;
+	onBeforeTurn(hook: BeforeTurnHook): void;
+	onAfterToolCall(hook: AfterToolCallHook): void;
+	addSystemPromptSection(section: SystemPromptSection): void;
+}
+
+/**
+ * Shape of a plugin module: `export default function setup(api) { ... }`
+ * or `export default { setup(api) { ... } }`.
+ */
+export type PluginSetup = (api: PluginApi) => void | Promise<void>;
+export type PluginModule = { default?: PluginSetup | { setup: PluginSetup } };
+
+/** `plugins` section of bobai.json. */
+export interface PluginsConfig {
+	/** Plugin names (file name without extension) that are not loaded. */
+	disabled?: string[];
+}
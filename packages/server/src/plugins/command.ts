@@ -0,0 +1,21 @@
+import type { CommandRequest, CommandResult } from "../command";
+import type { Logger } from "../log/logger";
+import type { PluginCommand } from "./api";
+
+/** Run a plugin dot command and shape its output like a built-in command result. */
+export async function runPluginCommand(
+	command: PluginCommand,
+	req: CommandRequest,
+	projectRoot: string,
+	logger?: Logger,
+): Promise<CommandResult> {
+	try {
+		const output = await command.run(req.args, { sessionId: req.sessionId, projectRoot });
+		const messages = typeof output === "string" ? [{ text: output, kind: "info" as const }] : output?.messages;
+		return { ok: true, ...(req.sessionId ? { sessionId: req.sessionId } : {}), ...(messages ? { messages } : {}) };
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		logger?.warn("PLUGIN", `.${command.name} failed: ${message}`);
+		return { ok: false, error: `.${command.name} failed: ${message}` };
+	}
+}
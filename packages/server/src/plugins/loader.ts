@@ -1,28 +1,88 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { Logger } from "../log/logger";
+import type { PluginModule, PluginScope, PluginSetup } from "./api";
+import { createPluginRegistry, type PluginRegistry } from "./registry";
 
-export async function loadPlugins(configDir: string, logger: Logger): Promise<void> {
-	const pluginsDir = path.join(configDir, "plugins");
+export interface LoadPluginsOptions {
+	/** Project `.bobai` directory; its `plugins/` subdirectory is loaded after the global one. */
+	projectDir?: string;
+	projectRoot?: string;
+	/** Plugin names to skip (`plugins.disabled` in bobai.json). */
+	disabled?: string[];
+	version?: string;
+}
+
+interface PluginFile {
+	name: string;
+	scope: PluginScope;
+	path: string;
+}
+
+function listPluginFiles(baseDir: string, scope: PluginScope): PluginFile[] {
+	const pluginsDir = path.join(baseDir, "plugins");
 
 	if (!fs.existsSync(pluginsDir)) {
-		return;
+		return [];
 	}
 
 	const entries = fs.readdirSync(pluginsDir, { withFileTypes: true });
-	const pluginPaths = entries
+	return entries
 		.filter((e) => (e.isFile() || e.isSymbolicLink()) && (e.name.endsWith(".ts") || e.name.endsWith(".js")))
-		.map((e) => path.join(pluginsDir, e.name))
-		.sort();
+		.map((e) => e.name)
+		.sort()
+		.map((fileName) => ({ name: fileName.replace(/\.(ts|js)$/, ""), scope, path: path.join(pluginsDir, fileName) }));
+}
+
+function resolveSetup(mod: PluginModule): PluginSetup | undefined {
+	const exported = mod.default;
+	if (typeof exported === "function") return exported;
+	if (exported && typeof exported.setup === "function") return exported.setup.bind(exported);
+	return undefined;
+}
+
+/**
+ * Load plugins from `<configDir>/plugins/` and then `<projectDir>/plugins/`,
+ * alphabetically within each directory. A project plugin replaces a global
+ * plugin with the same name.
+ *
+ * A plugin's default export is called with a `PluginApi` to register its
+ * tools, commands, providers, hooks and prompt sections. Files without a
+ * default export are still imported for their side effects. A plugin that
+ * throws while loading is disabled and reported; the others keep loading.
+ */
+export async function loadPlugins(
+	configDir: string,
+	logger: Logger,
+	options: LoadPluginsOptions = {},
+): Promise<PluginRegistry> {
+	const builder = createPluginRegistry(logger);
+	const projectFiles = options.projectDir ? listPluginFiles(options.projectDir, "project") : [];
+	const projectNames = new Set(projectFiles.map((f) => f.name));
+	const globalFiles = listPluginFiles(configDir, "global").filter((f) => !projectNames.has(f.name));
+	const disabled = new Set(options.disabled ?? []);
+	const context = { version: options.version ?? "dev", projectRoot: options.projectRoot ?? process.cwd() };
+
+	for (const file of [...globalFiles, ...projectFiles]) {
+		const api = builder.add({ name: file.name, scope: file.scope, path: file.path }, context);
+
+		if (disabled.has(file.name)) {
+			builder.reject(file.name, "disabled");
+			logger.info("PLUGIN", `Skipped disabled plugin ${file.path}`);
+			continue;
+		}
 
-	for (const pluginPath of pluginPaths) {
 		try {
-			await import(pluginPath);
-			logger.info("PLUGIN", `Loaded plugin ${pluginPath}`);
+			const mod = (await import(file.path)) as PluginModule;
+			await resolveSetup(mod)?.(api);
+			logger.info("PLUGIN", `Loaded plugin ${file.path}`);
 		} catch (err) {
 			const detail = err instanceof Error ? (err.stack ?? err.message) : String(err);
-			console.log(`Failed to load plugin ${pluginPath}:\n${detail}`);
-			process.exit(1);
+			builder.reject(file.name, "failed", err instanceof Error ? err.message : String(err));
+			logger.error("PLUGIN", `Failed to load plugin ${file.path}: ${detail}`);
+			console.log(`Failed to load plugin ${file.path} — it is disabled:\n${detail}`);
 		}
 	}
+
+	return builder.registry;
 }
@@ -0,0 +1,255 @@
+import { BUILT_IN_COMMANDS } from "../command";
+import type { Logger } from "../log/logger";
+import { isSupportedAuthProvider, type ProviderId, SUPPORTED_RUNTIME_PROVIDERS } from "../provider/providers";
+import type { PluginProviderDefinition } from "../provider/registry";
+import type { Tool } from "../tool/tool";
+import type {
+	AfterToolCallEvent,
+	AfterToolCallHook,
+	BeforeTurnEvent,
+	BeforeTurnHook,
+	PluginApi,
+	PluginCommand,
+	PluginProviderFactory,
+	PluginProviderOptions,
+	PluginScope,
+	SystemPromptSection,
+	SystemPromptSectionContext,
+} from "./api";
+
+export type PluginState = "loaded" | "failed" | "disabled";
+
+export interface PluginStatus {
+	name: string;
+	scope: PluginScope;
+	path: string;
+	state: PluginState;
+	error?: string;
+}
+
+interface PluginEntry {
+	status: PluginStatus;
+	tools: Tool[];
+	commands: PluginCommand[];
+	providers: Map<string, PluginProviderFactory>;
+	/** Models of the providers this plugin added under new ids. */
+	addedProviders: Map<string, PluginProviderOptions>;
+	beforeTurn: BeforeTurnHook[];
+	afterToolCall: AfterToolCallHook[];
+	promptSections: SystemPromptSection[];
+}
+
+/** Everything the loaded plugins registered. Failed and disabled plugins contribute nothing. */
+export interface PluginRegistry {
+	status(): PluginStatus[];
+	tools(): Tool[];
+	commands(): PluginCommand[];
+	getCommand(name: string): PluginCommand | undefined;
+	getProvider(providerId: ProviderId): PluginProviderFactory | undefined;
+	/** Providers added under ids Bob AI does not ship; a later plugin wins for the same id. */
+	addedProviders(): PluginProviderDefinition[];
+	/** Rendered prompt sections, in load order. */
+	systemPromptSections(ctx: SystemPromptSectionContext): { plugin: string; content: string }[];
+	/** Run every `onBeforeTurn` hook. Hook errors are logged, never thrown. */
+	runBeforeTurn(event: BeforeTurnEvent): Promise<void>;
+	/** Run every `onAfterToolCall` hook. Hook errors are logged, never thrown. */
+	runAfterToolCall(event: AfterToolCallEvent): Promise<void>;
+}
+
+/** Mutable side of the registry, used by the loader. */
+export interface PluginRegistryBuilder {
+	registry: PluginRegistry;
+	/** Add a plugin and build the API object its `setup` receives. */
+	add(status: Omit<PluginStatus, "state">, context: { version: string; projectRoot: string }): PluginApi;
+	/** Mark a plugin failed or disabled; its registrations are dropped. */
+	reject(name: string, state: Exclude<PluginState, "loaded">, error?: string): void;
+}
+
+function message(err: unknown): string {
+	return err instanceof Error ? err.message : String(err);
+}
+
+export function createPluginRegistry(logger?: Logger): PluginRegistryBuilder {
+	const entries: PluginEntry[] = [];
+	const loaded = () => entries.filter((e) => e.status.state === "loaded");
+
+	function claimedCommand(name: string): string | undefined {
+		return loaded().find((e) => e.commands.some((c) => c.name === name))?.status.name;
+	}
+
+	function claimedTool(name: string): string | undefined {
+		return loaded().find((e) => e.tools.some((t) => t.definition.function.name === name))?.status.name;
+	}
+
+	async function runHooks<T>(kind: string, hooks: [string, (event: T) => void | Promise<void>][], event: T) {
+		for (const [plugin, hook] of hooks) {
+			try {
+				await hook(event);
+			} catch (err) {
+				logger?.warn("PLUGIN", `${plugin}: ${kind} hook failed: ${message(err)}`);
+			}
+		}
+	}
+
+	const registry: PluginRegistry = {
+		status: () => entries.map((e) => ({ ...e.status })),
+
+		tools: () => loaded().flatMap((e) => e.tools),
+
+		commands: () => loaded().flatMap((e) => e.commands),
+
+		getCommand: (name) => registry.commands().find((c) => c.name === name),
+
+		getProvider(providerId) {
+			// Later plugins win, so a project plugin can replace a global one
+			for (const entry of loaded().reverse()) {
+				const factory = entry.providers.get(providerId);
+				if (factory) return factory;
+			}
+			return undefined;
+		},
+
+		addedProviders() {
+			const added = new Map<string, PluginProviderDefinition>();
+			for (const entry of loaded()) {
+				for (const [id, options] of entry.addedProviders) {
+					added.delete(id);
+					added.set(id, { id, plugin: entry.status.name, ...options });
+				}
+			}
+			return [...added.values()];
+		},
+
+		systemPromptSections(ctx) {
+			const sections: { plugin: string; content: string }[] = [];
+			for (const entry of loaded()) {
+				for (const section of entry.promptSections) {
+					let content: string | undefined;
+					try {
+						content = typeof section === "string" ? section : section(ctx);
+					} catch (err) {
+						logger?.warn("PLUGIN", `${entry.status.name}: system prompt section failed: ${message(err)}`);
+					}
+					if (content?.trim()) sections.push({ plugin: entry.status.name, content: content.trim() });
+				}
+			}
+			return sections;
+		},
+
+		runBeforeTurn: (event) =>
+			runHooks(
+				"onBeforeTurn",
+				loaded().flatMap((e) => e.beforeTurn.map((hook) => [e.status.name, hook] as [string, BeforeTurnHook])),
+				event,
+			),
+
+		runAfterToolCall: (event) =>
+			runHooks(
+				"onAfterToolCall",
+				loaded().flatMap((e) => e.afterToolCall.map((hook) => [e.status.name, hook] as [string, AfterToolCallHook])),
+				event,
+			),
+	};
+
+	return {
+		registry,
+
+		add(status, context) {
+			const entry: PluginEntry = {
+				status: { ...status, state: "loaded" },
+				tools: [],
+				commands: [],
+				providers: new Map(),
+				addedProviders: new Map(),
+				beforeTurn: [],
+				afterToolCall: [],
+				promptSections: [],
+			};
+			entries.push(entry);
+			const name = status.name;
+			const log = (level: "debug" | "info" | "warn" | "error") => (text: string) =>
+				logger?.[level]("PLUGIN", `${name}: ${text}`);
+
+			return {
+				version: context.version,
+				name,
+				projectRoot: context.projectRoot,
+				logger: { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") },
+
+				registerTool(tool) {
+					const toolName = tool?.definition?.function?.name;
+					if (!toolName) throw new Error("registerTool: tool.definition.function.name is required");
+					const owner = claimedTool(toolName);
+					if (owner) throw new Error(`registerTool: "${toolName}" is already registered by plugin ${owner}`);
+					entry.tools.push(tool);
+				},
+
+				registerCommand(command) {
+					if (!/^[a-z]+$/.test(command?.name ?? "")) {
+						throw new Error(`registerCommand: invalid name "${command?.name}" (lowercase letters only)`);
+					}
+					if (BUILT_IN_COMMANDS.has(command.name)) {
+						throw new Error(`registerCommand: ".${command.name}" is a built-in command`);
+					}
+					const owner = claimedCommand(command.name);
+					if (owner) throw new Error(`registerCommand: ".${command.name}" is already registered by plugin ${owner}`);
+					entry.commands.push(command);
+				},
+
+				registerProvider(providerId, factory, options) {
+					if ((SUPPORTED_RUNTIME_PROVIDERS as readonly string[]).includes(providerId)) {
+						if (options) throw new Error(`registerProvider: "${providerId}" is a built-in provider and has its own models`);
+						entry.providers.set(providerId, factory);
+						return;
+					}
+					if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(providerId ?? "")) {
+						throw new Error(`registerProvider: invalid provider id "${providerId}" (lowercase letters, digits and dashes)`);
+					}
+					if (isSupportedAuthProvider(providerId)) {
+						throw new Error(`registerProvider: "${providerId}" is not a model provider`);
+					}
+					if (!options?.models?.length) {
+						throw new Error(`registerProvider: new provider "${providerId}" needs at least one model`);
+					}
+					entry.providers.set(providerId, factory);
+					entry.addedProviders.set(providerId, { ...options, models: [...options.models] });
+				},
+
+				onBeforeTurn(hook) {
+					entry.beforeTurn.push(hook);
+				},
+
+				onAfterToolCall(hook) {
+					entry.afterToolCall.push(hook);
+				},
+
+				addSystemPromptSection(section) {
+					entry.promptSections.push(section);
+				},
+			};
+		},
+
+		reject(name, state, error) {
+			const entry = entries.find((e) => e.status.name === name);
+			if (!entry) return;
+			entry.status = { ...entry.status, state, ...(error ? { error } : {}) };
+		},
+	};
+}
+
+/**
+ * Add plugin tools to a tool list. A plugin tool named like a tool already in
+ * the list is skipped, since providers reject duplicate tool names.
+ */
+export function appendPluginTools(tools: Tool[], plugins: PluginRegistry | undefined, logger?: Logger): void {
+	const names = new Set(tools.map((t) => t.definition.function.name));
+	for (const tool of plugins?.tools() ?? []) {
+		const name = tool.definition.function.name;
+		if (names.has(name)) {
+			logger?.warn("PLUGIN", `Tool "${name}" clashes with a built-in tool and was skipped`);
+			continue;
+		}
+		names.add(name);
+		tools.push(tool);
+	}
+}
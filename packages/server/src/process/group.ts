@@ -0,0 +1,17 @@
+import type { Subprocess } from "bun";
+
+/**
+ * Signal a process and every process it started. The process must lead its
+ * own group (spawned with `detached: true`); otherwise only it is signalled.
+ */
+export function signalProcessGroup(proc: Subprocess, signal: NodeJS.Signals = "SIGKILL") {
+	try {
+		process.kill(-proc.pid, signal);
+	} catch {
+		try {
+			proc.kill(signal);
+		} catch {
+			// Already gone
+		}
+	}
+}
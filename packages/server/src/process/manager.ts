@@ -0,0 +1,239 @@
+import { type Subprocess, stripANSI } from "bun";
+import type { Logger } from "../log/logger";
+import type { Sandbox } from "../platform/sandbox";
+import { signalProcessGroup } from "./group";
+
+export type BackgroundProcessState = "running" | "exited" | "killed";
+
+/** A background process as listed by the `process` tool and in the UI. */
+export interface BackgroundProcessStatus {
+	name: string;
+	command: string;
+	state: BackgroundProcessState;
+	pid: number;
+	/** Exit code once the process has exited on its own; null while running or after a kill. */
+	exitCode: number | null;
+	startedAt: string;
+}
+
+/** Output gathered since the previous read. */
+export interface ProcessOutput {
+	output: string;
+	/** Characters dropped because more than MAX_BUFFERED_CHARS arrived between reads. */
+	dropped: number;
+	status: BackgroundProcessStatus;
+}
+
+export interface ProcessManager {
+	/** Start `command` under `name`. Throws when the name is taken by a running process or the session is full. */
+	start(sessionId: string, name: string, command: string): BackgroundProcessStatus;
+	/** Take the output that arrived since the last read, waiting up to `waitMs` for some when there is none. */
+	read(sessionId: string, name: string, waitMs?: number): Promise<ProcessOutput>;
+	/** Write `input` to the process's stdin. */
+	write(sessionId: string, name: string, input: string): void;
+	/** Stop the process and everything it started: SIGTERM, then SIGKILL after a grace period. */
+	kill(sessionId: string, name: string): Promise<BackgroundProcessStatus>;
+	list(sessionId: string): BackgroundProcessStatus[];
+	/** Kill a session's processes and forget them (the session was closed). */
+	stopSession(sessionId: string): Promise<void>;
+	/** Listen for changes to a session's process list (start, exit, kill). Returns an unsubscribe function. */
+	onChange(listener: (sessionId: string) => void): () => void;
+	/** Kill every process at once. Synchronous, so it can run in a process "exit" handler. */
+	close(): void;
+}
+
+export interface ProcessManagerOptions {
+	projectRoot: string;
+	logger?: Logger;
+	/** Runs every process inside the sandbox when set. */
+	sandbox?: Sandbox;
+	/** Overridable for tests. */
+	killGraceMs?: number;
+}
+
+/** Running processes allowed per session. */
+export const MAX_PROCESSES_PER_SESSION = 8;
+/** Unread output kept per process; the oldest output is dropped first. */
+export const MAX_BUFFERED_CHARS = 32_000;
+const DEFAULT_KILL_GRACE_MS = 2000;
+const NAME_PATTERN = /^[A-Za-z0-9][\w.-]{0,63}$/;
+
+interface ProcessEntry {
+	sessionId: string;
+	status: BackgroundProcessStatus;
+	proc: Subprocess<"pipe", "pipe", "pipe">;
+	buffer: string;
+	dropped: number;
+	/** Set by kill/stopSession so the exit is reported as "killed". */
+	stopping: boolean;
+	/** Resolves once the process has exited and its output is read. */
+	done: Promise<void>;
+	/** Wakes a read waiting for output. */
+	wake?: () => void;
+}
+
+export function createProcessManager(options: ProcessManagerOptions): ProcessManager {
+	const { logger } = options;
+	const killGraceMs = options.killGraceMs ?? DEFAULT_KILL_GRACE_MS;
+	const sessions = new Map<string, Map<string, ProcessEntry>>();
+	const listeners = new Set<(sessionId: string) => void>();
+
+	function changed(sessionId: string) {
+		for (const listener of listeners) listener(sessionId);
+	}
+
+	function find(sessionId: string, name: string): ProcessEntry {
+		const entry = sessions.get(sessionId)?.get(name);
+		if (!entry) throw new Error(`no process named "${name}". Use \`list\` to see this session's processes.`);
+		return entry;
+	}
+
+	function append(entry: ProcessEntry, text: string) {
+		entry.buffer += text;
+		if (entry.buffer.length > MAX_BUFFERED_CHARS) {
+			entry.dropped += entry.buffer.length - MAX_BUFFERED_CHARS;
+			entry.buffer = entry.buffer.slice(-MAX_BUFFERED_CHARS);
+		}
+		entry.wake?.();
+	}
+
+	async function pump(entry: ProcessEntry, stream: ReadableStream<Uint8Array>) {
+		const decoder = new TextDecoder();
+		try {
+			for await (const chunk of stream) {
+				const text = decoder.decode(chunk, { stream: true });
+				if (text) append(entry, stripANSI(text));
+			}
+		} catch {
+			// The stream closes when the process is killed
+		}
+	}
+
+	async function stop(entry: ProcessEntry): Promise<void> {
+		if (entry.status.state !== "running") return;
+		entry.stopping = true;
+		signalProcessGroup(entry.proc, "SIGTERM");
+		const exited = await Promise.race([entry.proc.exited.then(() => true), Bun.sleep(killGraceMs).then(() => false)]);
+		if (!exited) signalProcessGroup(entry.proc, "SIGKILL");
+		await entry.done;
+	}
+
+	return {
+		start(sessionId, name, command) {
+			if (!NAME_PATTERN.test(name)) {
+				throw new Error(`invalid name "${name}". Use letters, digits, ".", "-" and "_" (at most 64 characters).`);
+			}
+			const processes = sessions.get(sessionId) ?? new Map<string, ProcessEntry>();
+			const existing = processes.get(name);
+			if (existing?.status.state === "running") {
+				throw new Error(`a process named "${name}" is already running (pid ${existing.status.pid}). Kill it first.`);
+			}
+			const running = [...processes.values()].filter((e) => e.status.state === "running").length;
+			if (running >= MAX_PROCESSES_PER_SESSION) {
+				throw new Error(`${running} processes are already running in this session. Kill one first.`);
+			}
+
+			// detached: the process leads its own group, so kill reaches everything it started
+			const argv = ["/bin/bash", "-c", command];
+			const proc = Bun.spawn(options.sandbox ? options.sandbox.wrap(argv, options.projectRoot) : argv, {
+				cwd: options.projectRoot,
+				stdin: "pipe",
+				stdout: "pipe",
+				stderr: "pipe",
+				detached: true,
+			});
+			const entry: ProcessEntry = {
+				sessionId,
+				status: {
+					name,
+					command,
+					state: "running",
+					pid: proc.pid,
+					exitCode: null,
+					startedAt: new Date().toISOString(),
+				},
+				proc,
+				buffer: "",
+				dropped: 0,
+				stopping: false,
+				done: Promise.resolve(),
+			};
+			const output = Promise.all([pump(entry, proc.stdout), pump(entry, proc.stderr)]);
+			entry.done = proc.exited.then(async (code) => {
+				// Output still in flight when the group is gone is not worth waiting long for
+				await Promise.race([output, Bun.sleep(1000)]);
+				entry.status = {
+					...entry.status,
+					state: entry.stopping ? "killed" : "exited",
+					exitCode: entry.stopping ? null : code,
+				};
+				logger?.info("PROCESS", `${name} (pid ${proc.pid}) ${entry.status.state}${entry.stopping ? "" : ` with code ${code}`}`);
+				entry.wake?.();
+				if (sessions.get(sessionId)?.get(name) === entry) changed(sessionId);
+			});
+
+			processes.set(name, entry);
+			sessions.set(sessionId, processes);
+			logger?.info("PROCESS", `${name} (pid ${proc.pid}) started: ${command}`);
+			changed(sessionId);
+			return { ...entry.status };
+		},
+
+		async read(sessionId, name, waitMs = 0) {
+			const entry = find(sessionId, name);
+			if (!entry.buffer && entry.status.state === "running" && waitMs > 0) {
+				let timer: ReturnType<typeof setTimeout> | undefined;
+				await new Promise<void>((resolve) => {
+					entry.wake = resolve;
+					timer = setTimeout(resolve, waitMs);
+				});
+				clearTimeout(timer);
+				entry.wake = undefined;
+			}
+			const result = { output: entry.buffer, dropped: entry.dropped, status: { ...entry.status } };
+			entry.buffer = "";
+			entry.dropped = 0;
+			return result;
+		},
+
+		write(sessionId, name, input) {
+			const entry = find(sessionId, name);
+			if (entry.status.state !== "running") throw new Error(`process "${name}" is not running.`);
+			entry.proc.stdin.write(input);
+			entry.proc.stdin.flush();
+		},
+
+		async kill(sessionId, name) {
+			const entry = find(sessionId, name);
+			await stop(entry);
+			return { ...entry.status };
+		},
+
+		list(sessionId) {
+			return [...(sessions.get(sessionId)?.values() ?? [])].map((e) => ({ ...e.status }));
+		},
+
+		async stopSession(sessionId) {
+			const processes = sessions.get(sessionId);
+			if (!processes) return;
+			sessions.delete(sessionId);
+			await Promise.all([...processes.values()].map(stop));
+			if (processes.size > 0) changed(sessionId);
+		},
+
+		onChange(listener) {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		},
+
+		close() {
+			for (const processes of sessions.values()) {
+				for (const entry of processes.values()) {
+					if (entry.status.state !== "running") continue;
+					entry.stopping = true;
+					signalProcessGroup(entry.proc, "SIGKILL");
+				}
+			}
+		},
+	};
+}
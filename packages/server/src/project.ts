@@ -1,8 +1,18 @@
 import { Database } from "bun:sqlite";
 import fs from "node:fs";
 import path from "node:path";
+import type { BudgetConfig } from "./budget/policy";
+import { ensureCheckpointSchema } from "./checkpoint/repository";
+import type { CompactionConfig } from "./compaction/config";
 import { createDbGuard, type DbGuard } from "./db-guard";
+import type { McpServersConfig } from "./mcp/config";
 import { ensureMemoriesSchema } from "./memory/repository";
+import type { PermissionConfig } from "./permission/policy";
+import type { SandboxConfig } from "./platform/sandbox";
+import type { PluginsConfig } from "./plugins/api";
+import type { FailoverConfig } from "./provider/failover-policy";
+import type { ModelRolesConfig } from "./provider/model-roles";
+import { ensureSearchSchema } from "./session/search";
 
 export interface BobaiConfig {
 	id?: string;
@@ -11,6 +21,14 @@ export interface BobaiConfig {
 	model?: string;
 	maxIterations?: number;
 	debug?: boolean;
+	permissions?: PermissionConfig;
+	budget?: BudgetConfig;
+	failover?: FailoverConfig;
+	roles?: ModelRolesConfig;
+	compaction?: CompactionConfig;
+	mcpServers?: McpServersConfig;
+	plugins?: PluginsConfig;
+	sandbox?: SandboxConfig;
 }
 
 export interface Project {
@@ -20,6 +38,14 @@ export interface Project {
 	model?: string;
 	maxIterations?: number;
 	debug?: boolean;
+	permissions?: PermissionConfig;
+	budget?: BudgetConfig;
+	failover?: FailoverConfig;
+	roles?: ModelRolesConfig;
+	compaction?: CompactionConfig;
+	mcpServers?: McpServersConfig;
+	plugins?: PluginsConfig;
+	sandbox?: SandboxConfig;
 	dir: string;
 	configFilePath: string;
 	db: Database;
@@ -120,9 +146,27 @@ export async function initProject(projectRoot: string): Promise<Project> {
 		db.exec("ALTER TABLE sessions ADD COLUMN last_compaction TEXT");
 	}
 
+	// Migrate: add compaction_policy column to sessions if missing (per-session .policy choice)
+	if (!sessionColumns.some((c) => c.name === "compaction_policy")) {
+		db.exec("ALTER TABLE sessions ADD COLUMN compaction_policy TEXT");
+	}
+
+	// Migrate: add fork columns to sessions if missing (.fork lineage). No foreign key:
+	// the original session may be deleted while its forks live on.
+	if (!sessionColumns.some((c) => c.name === "forked_from")) {
+		db.exec("ALTER TABLE sessions ADD COLUMN forked_from TEXT");
+		db.exec("ALTER TABLE sessions ADD COLUMN fork_turn INTEGER");
+	}
+
 	// Project memory table (feature added later than the core schema)
 	ensureMemoriesSchema(db);
 
+	// File snapshots backing session checkpoints and .undo
+	ensureCheckpointSchema(db);
+
+	// Full-text index over messages for /bobai/search and .search
+	ensureSearchSchema(db);
+
 	return {
 		id,
 		port: config.port,
@@ -130,6 +174,14 @@ export async function initProject(projectRoot: string): Promise<Project> {
 		model: config.model,
 		maxIterations: config.maxIterations,
 		debug: config.debug,
+		permissions: config.permissions,
+		budget: config.budget,
+		failover: config.failover,
+		roles: config.roles,
+		compaction: config.compaction,
+		mcpServers: config.mcpServers,
+		plugins: config.plugins,
+		sandbox: config.sandbox,
 		dir: bobaiDir,
 		configFilePath: projectFile,
 		db,
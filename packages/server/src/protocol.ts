@@ -1,3 +1,6 @@
+import type { FileDiff } from "./file/diff";
+import type { BackgroundProcessStatus } from "./process/manager";
+
 export type StagedSkill = { name: string; content: string };
 
 // Client → Server
@@ -5,7 +8,8 @@ export type ClientMessage =
 	| { type: "prompt"; text: string; sessionId?: string; stagedSkills?: StagedSkill[] }
 	| { type: "subscribe"; sessionId: string }
 	| { type: "unsubscribe" }
-	| { type: "cancel" };
+	| { type: "cancel" }
+	| { type: "permission_response"; id: string; approved: boolean };
 
 // Server → Client
 export type ServerMessage =
@@ -14,16 +18,38 @@ export type ServerMessage =
 	| { type: "reasoning_token"; text: string; sessionId?: string }
 	| { type: "reasoning_end"; sessionId?: string }
 	| { type: "tool_call"; id: string; output: string; mergeable: boolean; sessionId?: string }
-	| { type: "tool_result"; id: string; output: string | null; mergeable: boolean; summary?: string; sessionId?: string }
+	| {
+			type: "tool_result";
+			id: string;
+			output: string | null;
+			mergeable: boolean;
+			summary?: string;
+			/** What write_file, edit_file and apply_patch changed on disk. */
+			diff?: FileDiff[];
+			/** The call failed; headless runs count it toward their exit code. */
+			failed?: boolean;
+			sessionId?: string;
+	  }
+	| { type: "tool_output"; id: string; output: string; sessionId?: string }
 	| { type: "status"; text: string; sessionId?: string }
 	| { type: "done"; sessionId: string; provider?: string; model: string; title?: string | null; summary?: string }
 	| { type: "error"; message: string; sessionId?: string }
+	| { type: "warning"; message: string }
 	| { type: "prompt_echo"; text: string; sessionId?: string }
 	| { type: "session_created"; sessionId: string }
 	| { type: "subagent_start"; sessionId: string; title: string; toolCallId: string }
 	| { type: "subagent_done"; sessionId: string; model: string; summary?: string }
 	| { type: "session_subscribed"; sessionId: string }
 	| { type: "session_locked"; sessionId: string }
+	| { type: "processes"; sessionId: string; processes: BackgroundProcessStatus[] }
+	| {
+			type: "permission_request";
+			id: string;
+			toolCallId: string;
+			tool: string;
+			detail: string;
+			sessionId: string;
+	  }
 	| { type: "db_disconnected" };
 
 export function send(ws: { send: (msg: string) => void }, msg: ServerMessage) {
@@ -2,7 +2,7 @@ import type { Logger } from "../log/logger";
 import { convertMessagesToAnthropic, convertToolsToAnthropic } from "./anthropic-convert";
 import { formatProviderModelDisplay, getProviderModelConfig } from "./models";
 import type { Provider, ProviderOptions, StreamEvent } from "./provider";
-import { ProviderError } from "./provider";
+import { ProviderError, providerErrorFromResponse } from "./provider";
 import type { ProviderId } from "./providers";
 import { getReasoningCapabilities, type ReasoningCapabilities } from "./reasoning-capabilities";
 import { parseSSE, SSE_DONE } from "./sse";
@@ -143,7 +143,7 @@ export function createAnthropicCompatibleProvider(
 			});
 
 			if (!response.ok) {
-				throw new ProviderError(response.status, await response.text());
+				throw await providerErrorFromResponse(response);
 			}
 			if (!response.body) {
 				yield { type: "finish", reason: "stop" };
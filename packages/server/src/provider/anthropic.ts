@@ -0,0 +1,23 @@
+import type { AnthropicAuth } from "../auth/store";
+import type { Logger } from "../log/logger";
+import { createAnthropicCompatibleProvider } from "./anthropic-compatible";
+import type { Provider } from "./provider";
+
+export function createAnthropicProvider(
+	auth: AnthropicAuth,
+	logger?: Logger,
+	fetchFn: typeof fetch = fetch,
+	configDir?: string,
+): Provider {
+	return createAnthropicCompatibleProvider(
+		{
+			providerId: "anthropic",
+			baseUrl: "https://api.anthropic.com/v1/messages",
+			apiKey: auth.apiKey,
+			anthropicVersion: "2023-06-01",
+		},
+		logger,
+		fetchFn,
+		configDir,
+	);
+}
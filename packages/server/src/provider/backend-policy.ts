@@ -11,8 +11,8 @@ export interface SessionBackendState {
 	apiFamily: ApiFamily;
 }
 
-export function getDefaultSessionBackend(providerId: ProviderId): SessionBackendState {
-	const model = getDefaultModelForProvider(providerId);
+export function getDefaultSessionBackend(providerId: ProviderId, configDir?: string): SessionBackendState {
+	const model = getDefaultModelForProvider(providerId, configDir);
 	return {
 		provider: providerId,
 		model,
@@ -38,6 +38,7 @@ export function validateProviderSwitch(options: {
 	hasMessages: boolean;
 	current: SessionBackendState;
 	nextProvider: ProviderId;
+	configDir?: string;
 }): BackendTransitionResult {
 	if (options.hasMessages) {
 		return { ok: false, error: "Changing provider for a session with messages is not yet supported." };
@@ -47,7 +48,7 @@ export function validateProviderSwitch(options: {
 		return { ok: false, error: `Provider runtime is not supported yet: ${options.nextProvider}` };
 	}
 
-	return { ok: true, next: getDefaultSessionBackend(options.nextProvider) };
+	return { ok: true, next: getDefaultSessionBackend(options.nextProvider, options.configDir) };
 }
 
 export function validateModelSwitch(options: {
@@ -4,7 +4,7 @@ import { appendCachePoint, convertMessagesToConverse, convertToolsToConverse } f
 import { parseBedrockEventStream } from "./bedrock-event-stream";
 import { formatProviderModelDisplay, getProviderModelConfig } from "./models";
 import type { Provider, ProviderOptions, StreamEvent } from "./provider";
-import { ProviderError } from "./provider";
+import { ProviderError, providerErrorFromResponse } from "./provider";
 
 function bedrockRuntimeUrl(region: string, modelId: string): string {
 	return `https://bedrock-runtime.${region}.amazonaws.com/model/${encodeURIComponent(modelId)}/converse-stream`;
@@ -52,7 +52,7 @@ export function createBedrockConverseProvider(
 			});
 
 			if (!response.ok) {
-				throw new ProviderError(response.status, await response.text());
+				throw await providerErrorFromResponse(response);
 			}
 			if (!response.body) {
 				yield { type: "finish", reason: "stop" };
@@ -1,16 +1,22 @@
 import {
 	type AmazonBedrockAuth,
+	type AnthropicAuth,
 	type AuthStore,
 	type DeepSeekAuth,
 	loadAuthStore as defaultLoadAuthStore,
+	type OpenAIAuth,
+	type OpenAICompatibleAuth,
 	type OpenCodeGoAuth,
 	type OpenCodeZenAuth,
 	type OpenRouterAuth,
 } from "../auth/store";
 import type { Logger } from "../log/logger";
 import { createAmazonBedrockProvider as defaultCreateAmazonBedrockProvider } from "./amazon-bedrock";
+import { createAnthropicProvider as defaultCreateAnthropicProvider } from "./anthropic";
 import { createDeepSeekProvider as defaultCreateDeepSeekProvider } from "./deepseek";
 import { providerModelsConfigExists as defaultProviderModelsConfigExists } from "./models";
+import { createOpenAIProvider as defaultCreateOpenAIProvider } from "./openai";
+import { createOpenAICompatibleProvider as defaultCreateOpenAICompatibleProvider } from "./openai-compatible";
 import { createOpenCodeGoProvider as defaultCreateOpenCodeGoProvider } from "./opencode-go";
 import { createOpenCodeZenProvider as defaultCreateOpenCodeZenProvider } from "./opencode-zen";
 import { createOpenRouterProvider as defaultCreateOpenRouterProvider } from "./openrouter";
@@ -38,6 +44,14 @@ export interface CreateProviderDeps {
 		configDir?: string,
 	) => Provider;
 	createDeepSeekProvider?: (auth: DeepSeekAuth, logger?: Logger, fetchFn?: typeof fetch, configDir?: string) => Provider;
+	createAnthropicProvider?: (auth: AnthropicAuth, logger?: Logger, fetchFn?: typeof fetch, configDir?: string) => Provider;
+	createOpenAIProvider?: (auth: OpenAIAuth, logger?: Logger, fetchFn?: typeof fetch, configDir?: string) => Provider;
+	createOpenAICompatibleProvider?: (
+		auth: OpenAICompatibleAuth,
+		logger?: Logger,
+		fetchFn?: typeof fetch,
+		configDir?: string,
+	) => Provider;
 }
 
 export async function createConfiguredProvider(
@@ -52,7 +66,7 @@ export async function createConfiguredProvider(
 	}
 
 	if (!providerModelsConfigExists(options.providerId, options.configDir)) {
-		throw new Error("Model configuration not found. Please run: bobai refresh");
+		throw new Error(descriptor.missingModelsMessage);
 	}
 
 	return descriptor.createConfiguredProvider({
@@ -65,5 +79,8 @@ export async function createConfiguredProvider(
 		createOpenCodeZenProvider: deps.createOpenCodeZenProvider ?? defaultCreateOpenCodeZenProvider,
 		createAmazonBedrockProvider: deps.createAmazonBedrockProvider ?? defaultCreateAmazonBedrockProvider,
 		createDeepSeekProvider: deps.createDeepSeekProvider ?? defaultCreateDeepSeekProvider,
+		createAnthropicProvider: deps.createAnthropicProvider ?? defaultCreateAnthropicProvider,
+		createOpenAIProvider: deps.createOpenAIProvider ?? defaultCreateOpenAIProvider,
+		createOpenAICompatibleProvider: deps.createOpenAICompatibleProvider ?? defaultCreateOpenAICompatibleProvider,
 	});
 }
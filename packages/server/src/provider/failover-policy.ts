@@ -0,0 +1,86 @@
+import { isSupportedProvider, type ProviderId } from "./providers";
+
+/** One provider/model pair in a failover chain. */
+export interface FailoverBackend {
+	provider: ProviderId;
+	model: string;
+}
+
+/** The `failover` section of bobai.json (global or project). */
+export interface FailoverConfig {
+	/** Retries on the same backend before moving down the chain. Default 2. */
+	retries?: number;
+	/** Wait before the first retry, doubled on each further one. Default 1000. */
+	baseDelayMs?: number;
+	/** Longest wait before a retry; a longer `Retry-After` moves straight to the next backend. Default 30000. */
+	maxDelayMs?: number;
+	/** Groups of equivalent backends, in the order they are tried. */
+	chains?: { provider?: string; model?: string }[][];
+}
+
+/** Merged, validated failover settings used at runtime. */
+export interface FailoverPolicy {
+	retries: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	/** Each chain has at least two backends. */
+	chains: FailoverBackend[][];
+}
+
+export const DEFAULT_FAILOVER_RETRIES = 2;
+export const DEFAULT_FAILOVER_BASE_DELAY_MS = 1000;
+export const DEFAULT_FAILOVER_MAX_DELAY_MS = 30_000;
+
+function sanitizeCount(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+function sanitizeDelay(value: unknown): number | undefined {
+	return typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function sanitizeChains(value: unknown): FailoverBackend[][] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	const chains: FailoverBackend[][] = [];
+	for (const chain of value) {
+		if (!Array.isArray(chain)) continue;
+		const backends = chain.filter(
+			(entry): entry is FailoverBackend =>
+				typeof entry?.provider === "string" &&
+				isSupportedProvider(entry.provider) &&
+				typeof entry.model === "string" &&
+				entry.model.length > 0,
+		);
+		if (backends.length > 1) chains.push(backends.map(({ provider, model }) => ({ provider, model })));
+	}
+	return chains;
+}
+
+/**
+ * Merge the project and global `failover` sections into a runtime policy.
+ *
+ * Each field is taken from the project when set there, otherwise from the
+ * global config, otherwise from the defaults, so transient errors are
+ * retried even without a `failover` section. Chains naming an unsupported
+ * provider or a missing model lose that entry; chains left with fewer than
+ * two backends are dropped.
+ */
+export function resolveFailoverPolicy(project?: FailoverConfig, global?: FailoverConfig): FailoverPolicy {
+	return {
+		retries: sanitizeCount(project?.retries) ?? sanitizeCount(global?.retries) ?? DEFAULT_FAILOVER_RETRIES,
+		baseDelayMs: sanitizeDelay(project?.baseDelayMs) ?? sanitizeDelay(global?.baseDelayMs) ?? DEFAULT_FAILOVER_BASE_DELAY_MS,
+		maxDelayMs: sanitizeDelay(project?.maxDelayMs) ?? sanitizeDelay(global?.maxDelayMs) ?? DEFAULT_FAILOVER_MAX_DELAY_MS,
+		chains: sanitizeChains(project?.chains) ?? sanitizeChains(global?.chains) ?? [],
+	};
+}
+
+/**
+ * The backends to try for `provider`/`model`: that backend first, then the
+ * rest of the first chain containing it, in chain order.
+ */
+export function resolveFailoverBackends(policy: FailoverPolicy, provider: ProviderId, model: string): FailoverBackend[] {
+	const primary = { provider, model };
+	const chain = policy.chains.find((c) => c.some((b) => b.provider === provider && b.model === model));
+	if (!chain) return [primary];
+	return [primary, ...chain.filter((b) => b.provider !== provider || b.model !== model)];
+}
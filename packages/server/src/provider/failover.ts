@@ -0,0 +1,178 @@
+import type { Logger } from "../log/logger";
+import { type FailoverBackend, type FailoverPolicy, resolveFailoverBackends } from "./failover-policy";
+import { AuthError, type Provider, ProviderError, type ProviderOptions, type StreamEvent, TimeoutError } from "./provider";
+import type { ProviderId } from "./providers";
+
+/** A switch from one backend to the next, kept in the assistant message metadata. */
+export interface FailoverRecord {
+	from: FailoverBackend;
+	to: FailoverBackend;
+	/** The error that made `from` give up. */
+	error: string;
+}
+
+export interface FailoverProvider extends Provider {
+	/** Backend switches made so far, oldest first. */
+	getFailovers(): FailoverRecord[];
+}
+
+export interface CreateFailoverProviderOptions {
+	primary: Provider;
+	policy: FailoverPolicy;
+	/** Provider for another backend of a chain. Omitted = retries on the primary only. */
+	getProvider?: (providerId: ProviderId) => Promise<Provider>;
+	logger?: Logger;
+	sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/** Overloaded, rate limited or timed out: worth another attempt. Auth failures never are. */
+export function isRetryableProviderError(err: unknown): err is ProviderError {
+	if (err instanceof TimeoutError) return true;
+	if (!(err instanceof ProviderError) || err instanceof AuthError) return false;
+	return err.status === 429 || err.status >= 500;
+}
+
+/**
+ * Wait before retry number `attempt` (from 0): exponential backoff, or the
+ * provider's `Retry-After` when that is longer. Undefined when `Retry-After`
+ * exceeds the policy's longest wait, so the caller moves on instead.
+ */
+export function computeRetryDelayMs(policy: FailoverPolicy, attempt: number, retryAfterMs?: number): number | undefined {
+	const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+	if (retryAfterMs === undefined) return backoff;
+	if (retryAfterMs > policy.maxDelayMs) return undefined;
+	return Math.max(backoff, retryAfterMs);
+}
+
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+function describeError(err: ProviderError): string {
+	return err instanceof TimeoutError ? "a timeout" : `${err.status}`;
+}
+
+function label(backend: FailoverBackend): string {
+	return `${backend.provider} / ${backend.model}`;
+}
+
+/**
+ * Wrap the session's provider with retries and failover.
+ *
+ * A call that fails with a retryable error before producing any output is
+ * retried on the same backend with backoff, then moved to the next backend
+ * of the chain containing the requested provider/model. Each retry and switch
+ * is reported as a `status` stream event. A switch lasts for the rest of the
+ * wrapper's life (one turn), so later calls, subagents included, go straight
+ * to the backend that worked. Errors after output has streamed are never
+ * retried, since the response cannot be replayed.
+ */
+export function createFailoverProvider(options: CreateFailoverProviderOptions): FailoverProvider {
+	const { primary, policy, logger } = options;
+	const sleep = options.sleep ?? abortableSleep;
+	const failovers: FailoverRecord[] = [];
+	// Index into the backends of each requested model that calls currently start from
+	const activeIndex = new Map<string, number>();
+	let currentProviderId = primary.id;
+
+	function backendsFor(model: string): FailoverBackend[] {
+		if (!options.getProvider) return [{ provider: primary.id as ProviderId, model }];
+		return resolveFailoverBackends(policy, primary.id as ProviderId, model);
+	}
+
+	async function providerFor(backend: FailoverBackend): Promise<Provider> {
+		if (backend.provider === primary.id) return primary;
+		return (options.getProvider as NonNullable<CreateFailoverProviderOptions["getProvider"]>)(backend.provider);
+	}
+
+	/** Stream from one backend, retrying retryable errors. Returns the last error once retries run out. */
+	async function* streamWithRetries(
+		provider: Provider,
+		backend: FailoverBackend,
+		streamOptions: ProviderOptions,
+	): AsyncGenerator<StreamEvent, ProviderError | undefined> {
+		for (let attempt = 0; ; attempt++) {
+			let started = false;
+			try {
+				for await (const event of provider.stream({ ...streamOptions, model: backend.model })) {
+					if (event.type !== "status") started = true;
+					yield event;
+				}
+				return undefined;
+			} catch (err) {
+				if (started || streamOptions.signal?.aborted || !isRetryableProviderError(err)) throw err;
+				const delay = attempt < policy.retries ? computeRetryDelayMs(policy, attempt, err.retryAfterMs) : undefined;
+				if (delay === undefined) return err;
+				const text = `${label(backend)} returned ${describeError(err)} — retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 1}/${policy.retries})`;
+				logger?.warn("FAILOVER", `${text}: ${err.body}`);
+				yield { type: "status", text };
+				await sleep(delay, streamOptions.signal);
+			}
+		}
+	}
+
+	return {
+		get id() {
+			return currentProviderId;
+		},
+		configDir: primary.configDir,
+
+		resolveModel(model: string): string {
+			return backendsFor(model)[activeIndex.get(model) ?? 0]?.model ?? model;
+		},
+
+		getFailovers(): FailoverRecord[] {
+			return [...failovers];
+		},
+
+		async *stream(streamOptions: ProviderOptions): AsyncGenerator<StreamEvent> {
+			const backends = backendsFor(streamOptions.model);
+			let index = activeIndex.get(streamOptions.model) ?? 0;
+
+			while (true) {
+				const backend = backends[index] as FailoverBackend;
+				let provider: Provider | undefined;
+				let reason: string;
+				let detail: string;
+				try {
+					provider = await providerFor(backend);
+				} catch (err) {
+					// A fallback backend that cannot be created (e.g. not authenticated) is skipped
+					if (index === 0 || !backends[index + 1]) throw err;
+					reason = "unavailable";
+					detail = (err as Error).message;
+				}
+				if (provider) {
+					currentProviderId = provider.id;
+					const failure = yield* streamWithRetries(provider, backend, streamOptions);
+					if (!failure) return;
+					if (!backends[index + 1]) throw failure;
+					reason = describeError(failure);
+					detail = failure.body;
+				}
+
+				const next = backends[index + 1] as FailoverBackend;
+				failovers.push({ from: backend, to: next, error: `${reason}: ${detail}` });
+				const text = `${label(backend)} failed (${reason}) — failing over to ${label(next)}`;
+				logger?.warn("FAILOVER", `${text}: ${detail}`);
+				yield { type: "status", text };
+				index++;
+				activeIndex.set(streamOptions.model, Math.max(activeIndex.get(streamOptions.model) ?? 0, index));
+			}
+		},
+	};
+}
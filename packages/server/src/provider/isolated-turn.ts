@@ -24,9 +24,16 @@ export function createIsolatedTurnProvider(original: Provider, configDir?: strin
 	let baselineTokens = 0;
 
 	return {
-		id: original.id,
+		// Read through, since a failover wrapper changes its id when it switches backends
+		get id() {
+			return original.id;
+		},
 		configDir: configDir ?? original.configDir,
 
+		resolveModel(model: string): string {
+			return original.resolveModel?.(model) ?? model;
+		},
+
 		async *stream(options: ProviderOptions): AsyncGenerator<StreamEvent> {
 			yield* original.stream({
 				...options,
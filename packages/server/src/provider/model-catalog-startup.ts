@@ -3,6 +3,8 @@ import type { Logger } from "../log/logger";
 export async function ensureModelCatalogAvailable(options: {
 	catalogExists: () => boolean;
 	refreshCatalog: () => Promise<void>;
+	/** True when some provider works without the catalog, e.g. `openai-compatible` models declared in bobai.json. */
+	canRunWithoutCatalog?: () => boolean;
 	logger?: Pick<Logger, "error">;
 }): Promise<void> {
 	if (options.catalogExists()) {
@@ -17,6 +19,10 @@ export async function ensureModelCatalogAvailable(options: {
 			options.logger?.error("MODEL", `Model catalog refresh failed: ${message}. Using existing stale model catalog.`);
 			return;
 		}
+		if (options.canRunWithoutCatalog?.()) {
+			options.logger?.error("MODEL", `Model catalog refresh failed: ${message}. Only locally declared models are available.`);
+			return;
+		}
 		options.logger?.error("MODEL", `Model catalog refresh failed: ${message}`);
 		throw error;
 	}
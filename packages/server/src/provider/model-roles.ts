@@ -0,0 +1,73 @@
+import { getProviderModelConfig } from "./models";
+import { isSupportedProvider, type ProviderId } from "./providers";
+
+/** Work that can run on a different model than the session's main loop. */
+export type ModelRole = "subagent" | "compactionSummary";
+
+export const MODEL_ROLES: readonly ModelRole[] = ["subagent", "compactionSummary"];
+
+/** A role's model. Without `provider`, the model is looked up on the session's provider. */
+export interface ModelRoleBackend {
+	provider?: ProviderId;
+	model: string;
+}
+
+/**
+ * The `roles` section of bobai.json (global or project). The main loop keeps
+ * using the top-level `provider` and `model` (or the session's `.model` choice).
+ */
+export type ModelRolesConfig = Partial<Record<ModelRole, { provider?: string; model?: string }>>;
+
+/** Merged, validated role assignments used at runtime. */
+export type ModelRoles = Partial<Record<ModelRole, ModelRoleBackend>>;
+
+/** A provider and model to run on. */
+export interface RoleBackend {
+	provider: ProviderId;
+	model: string;
+}
+
+function sanitizeRole(value: { provider?: unknown; model?: unknown } | undefined): ModelRoleBackend | undefined {
+	if (typeof value?.model !== "string" || !value.model) return undefined;
+	if (value.provider === undefined) return { model: value.model };
+	if (typeof value.provider !== "string" || !isSupportedProvider(value.provider)) return undefined;
+	return { provider: value.provider, model: value.model };
+}
+
+/**
+ * Merge the project and global `roles` sections. Each role is taken from the
+ * project when set there, otherwise from the global config. Entries without a
+ * model or naming an unsupported provider are dropped.
+ */
+export function resolveModelRoles(project?: ModelRolesConfig, global?: ModelRolesConfig): ModelRoles {
+	const roles: ModelRoles = {};
+	for (const role of MODEL_ROLES) {
+		const backend = sanitizeRole(project?.[role]) ?? sanitizeRole(global?.[role]);
+		if (backend) roles[role] = backend;
+	}
+	return roles;
+}
+
+/**
+ * The backend `role` runs on in a session on `session`: the configured one
+ * when its model is in the catalog, otherwise the session's own. `onInvalid`
+ * hears about a configured model the catalog does not know.
+ */
+export function resolveRoleBackend(
+	roles: ModelRoles | undefined,
+	role: ModelRole,
+	session: RoleBackend,
+	configDir?: string,
+	onInvalid?: (message: string) => void,
+): RoleBackend {
+	const configured = roles?.[role];
+	if (!configured) return session;
+	const backend = { provider: configured.provider ?? session.provider, model: configured.model };
+	if (!getProviderModelConfig(backend.provider, backend.model, configDir)) {
+		onInvalid?.(
+			`Model "${backend.model}" for the ${role} role is not in the ${backend.provider} catalog; using ${session.model}`,
+		);
+		return session;
+	}
+	return backend;
+}
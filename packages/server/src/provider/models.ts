@@ -1,5 +1,10 @@
 import type { Database } from "bun:sqlite";
-import { getAssistantMessagesWithTurnMetrics, getDescendantSessionIds } from "../session/repository";
+import {
+	type AssistantTurnRecord,
+	getAssistantMessagesWithTurnMetrics,
+	getAssistantMessagesWithTurnMetricsSince,
+	getDescendantSessionIds,
+} from "../session/repository";
 import { computeTurnCostDollars } from "./cost-utils";
 import type { ProviderId } from "./providers";
 import { getProviderDescriptor, type ProviderModelConfig, type SortedProviderModelListItem } from "./registry";
@@ -45,16 +50,27 @@ export function formatProviderModelDisplay(
 	return getDescriptor(providerId).formatModelDisplay(modelId, promptTokens, configDir, contextLimit, sessionCostDisplay);
 }
 
-export function computeDollarSessionTotal(db: Database, rootSessionId: string, configDir?: string): string {
+/** Dollar cost of a session and all of its subagent sessions. Turns of unpriced models count as free. */
+export function computeSessionCostDollars(db: Database, rootSessionId: string, configDir?: string): number {
 	const descendantIds = getDescendantSessionIds(db, rootSessionId);
 	const allSessionIds = [rootSessionId, ...descendantIds];
-	const turns = getAssistantMessagesWithTurnMetrics(db, allSessionIds);
+	return sumTurnCostDollars(db, getAssistantMessagesWithTurnMetrics(db, allSessionIds), configDir);
+}
+
+/** Dollar cost of every turn in the project recorded at or after `since` (ISO timestamp). */
+export function computeProjectCostDollarsSince(db: Database, since: string, configDir?: string): number {
+	return sumTurnCostDollars(db, getAssistantMessagesWithTurnMetricsSince(db, since), configDir);
+}
 
+export function computeDollarSessionTotal(db: Database, rootSessionId: string, configDir?: string): string {
+	return `$${computeSessionCostDollars(db, rootSessionId, configDir).toFixed(2)}`;
+}
+
+function sumTurnCostDollars(db: Database, turns: AssistantTurnRecord[], configDir?: string): number {
 	let total = 0;
 	for (const turn of turns) {
 		if (turn.inputTokensTotal == null || turn.outputTokensTotal == null) continue;
-		const session = getSessionProvider(db, turn.sessionId);
-		const providerId = session?.provider as ProviderId | undefined;
+		const providerId = (turn.turnProvider ?? getSessionProvider(db, turn.sessionId)?.provider) as ProviderId | undefined;
 		if (!providerId) continue;
 		const modelConfig = getProviderModelConfig(providerId, turn.turnModel as string, configDir);
 		if (!modelConfig || modelConfig.inputPrice == null || modelConfig.outputPrice == null) continue;
@@ -67,8 +83,7 @@ export function computeDollarSessionTotal(db: Database, rootSessionId: string, c
 			modelConfig,
 		);
 	}
-
-	return `$${total.toFixed(2)}`;
+	return total;
 }
 
 export function formatSessionCostDisplay(db: Database, _providerId: ProviderId, sessionId: string, configDir?: string): string {
@@ -10,7 +10,7 @@ import type {
 	ReasoningState,
 	StreamEvent,
 } from "./provider";
-import { ProviderError } from "./provider";
+import { ProviderError, providerErrorFromResponse } from "./provider";
 import type { ProviderId } from "./providers";
 import { getChatReasoningEffort, getReasoningCapabilities, type ReasoningCapabilities } from "./reasoning-capabilities";
 import { parseSSE, SSE_DONE } from "./sse";
@@ -32,7 +32,10 @@ function estimatePromptChars(messages: ProviderOptions["messages"]): number {
 export interface OpenAIChatCompatibleProviderOptions {
 	providerId: ProviderId;
 	baseUrl: string;
+	/** Sent as a bearer token. Left out when empty, for local servers that take no key. */
 	apiKey: string;
+	/** Extra request headers, e.g. for a proxy in front of the server. */
+	headers?: Record<string, string>;
 }
 
 type OpenAIChatMessage = Message | (AssistantMessage & Partial<Record<InterleavedChatReasoningField, unknown>>);
@@ -136,7 +139,8 @@ export function createOpenAIChatCompatibleProvider(
 				headers: {
 					"Content-Type": "application/json",
 					"User-Agent": "BobAI/1.0",
-					Authorization: `Bearer ${config.apiKey}`,
+					...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+					...config.headers,
 					...(options.sessionId
 						? {
 								[config.providerId.startsWith("opencode") ? "x-opencode-session" : "x-session-affinity"]:
@@ -160,7 +164,7 @@ export function createOpenAIChatCompatibleProvider(
 			});
 
 			if (!response.ok) {
-				throw new ProviderError(response.status, await response.text());
+				throw await providerErrorFromResponse(response);
 			}
 			if (!response.body) {
 				yield { type: "finish", reason: "stop" };
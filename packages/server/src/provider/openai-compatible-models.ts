@@ -0,0 +1,54 @@
+import { loadGlobalConfig } from "../config/global";
+import type { ProviderModelConfig } from "./registry";
+
+/** A model served by the endpoint, declared by hand since these servers do not report limits or prices. */
+export interface OpenAICompatibleModelConfig {
+	id: string;
+	name?: string;
+	contextWindow: number;
+	maxOutput: number;
+	/** Dollars per million tokens. Defaults to 0, which suits a local model. */
+	inputPrice?: number;
+	outputPrice?: number;
+}
+
+/** The `openaiCompatible` section of the global bobai.json. */
+export interface OpenAICompatibleConfig {
+	models?: OpenAICompatibleModelConfig[];
+}
+
+function isPositiveNumber(value: unknown): value is number {
+	return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function sanitizeModel(value: unknown): ProviderModelConfig | undefined {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+	const raw = value as Record<string, unknown>;
+	if (typeof raw.id !== "string" || raw.id.length === 0) return undefined;
+	if (!isPositiveNumber(raw.contextWindow) || !isPositiveNumber(raw.maxOutput)) return undefined;
+	return {
+		id: raw.id,
+		name: typeof raw.name === "string" && raw.name.length > 0 ? raw.name : raw.id,
+		contextWindow: raw.contextWindow,
+		maxOutput: raw.maxOutput,
+		inputPrice: typeof raw.inputPrice === "number" ? raw.inputPrice : 0,
+		outputPrice: typeof raw.outputPrice === "number" ? raw.outputPrice : 0,
+	};
+}
+
+/**
+ * The models declared in `openaiCompatible.models` of the global bobai.json, in
+ * file order. Entries without an id or a positive context window and max output
+ * are dropped; a later entry with the same id replaces an earlier one.
+ */
+export function loadOpenAICompatibleModels(configDir?: string): ProviderModelConfig[] {
+	if (!configDir) return [];
+	const section = loadGlobalConfig(configDir).preferences.openaiCompatible;
+	if (!Array.isArray(section?.models)) return [];
+	const models = new Map<string, ProviderModelConfig>();
+	for (const entry of section.models) {
+		const model = sanitizeModel(entry);
+		if (model) models.set(model.id, model);
+	}
+	return [...models.values()];
+}
@@ -0,0 +1,31 @@
+import type { OpenAICompatibleAuth } from "../auth/store";
+import type { Logger } from "../log/logger";
+import { createOpenAIChatCompatibleProvider } from "./openai-chat-compatible";
+import type { Provider } from "./provider";
+
+/** Ollama's OpenAI-compatible endpoint, offered as the default by `bobai auth openai-compatible`. */
+export const OPENAI_COMPATIBLE_DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+/** `http://host/v1/` and `http://host/v1` name the same endpoint. */
+export function normalizeOpenAICompatibleBaseUrl(baseUrl: string): string {
+	return baseUrl.trim().replace(/\/+$/, "");
+}
+
+export function createOpenAICompatibleProvider(
+	auth: OpenAICompatibleAuth,
+	logger?: Logger,
+	fetchFn: typeof fetch = fetch,
+	configDir?: string,
+): Provider {
+	return createOpenAIChatCompatibleProvider(
+		{
+			providerId: "openai-compatible",
+			baseUrl: `${normalizeOpenAICompatibleBaseUrl(auth.baseUrl)}/chat/completions`,
+			apiKey: auth.apiKey ?? "",
+			headers: auth.headers,
+		},
+		logger,
+		fetchFn,
+		configDir,
+	);
+}
@@ -1,7 +1,7 @@
 import type { Logger } from "../log/logger";
 import { formatProviderModelDisplay, getProviderModelConfig } from "./models";
 import type { Provider, ProviderOptions, StreamEvent } from "./provider";
-import { ProviderError } from "./provider";
+import { providerErrorFromResponse } from "./provider";
 import type { ProviderId } from "./providers";
 import { getReasoningCapabilities } from "./reasoning-capabilities";
 import { convertMessagesToResponses, convertToolsToResponses } from "./responses-convert";
@@ -26,6 +26,8 @@ export interface OpenAIResponsesCompatibleProviderOptions {
 	baseUrl: string;
 	apiKey: string;
 	headers?: Record<string, string>;
+	/** Send the session id as `prompt_cache_key`, so turns of one session reuse the same prompt cache. */
+	promptCacheKey?: boolean;
 }
 
 export function createOpenAIResponsesCompatibleProvider(
@@ -80,12 +82,13 @@ export function createOpenAIResponsesCompatibleProvider(
 					reasoning: { effort: "medium", summary: "auto" },
 					include: ["reasoning.encrypted_content"],
 					...(tools ? { tools } : {}),
+					...(config.promptCacheKey && options.sessionId ? { prompt_cache_key: options.sessionId } : {}),
 				}),
 				signal: options.signal,
 			});
 
 			if (!response.ok) {
-				throw new ProviderError(response.status, await response.text());
+				throw await providerErrorFromResponse(response);
 			}
 			if (!response.body) {
 				yield { type: "finish", reason: "stop" };
@@ -0,0 +1,23 @@
+import type { OpenAIAuth } from "../auth/store";
+import type { Logger } from "../log/logger";
+import { createOpenAIResponsesCompatibleProvider } from "./openai-responses-compatible";
+import type { Provider } from "./provider";
+
+export function createOpenAIProvider(
+	auth: OpenAIAuth,
+	logger?: Logger,
+	fetchFn: typeof fetch = fetch,
+	configDir?: string,
+): Provider {
+	return createOpenAIResponsesCompatibleProvider(
+		{
+			providerId: "openai",
+			baseUrl: "https://api.openai.com/v1/responses",
+			apiKey: auth.apiKey,
+			promptCacheKey: true,
+		},
+		logger,
+		fetchFn,
+		configDir,
+	);
+}
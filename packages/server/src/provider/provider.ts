@@ -94,7 +94,9 @@ export type StreamEvent =
 			cachedInputTokens?: number;
 			cacheCreationInputTokens?: number;
 	  }
-	| { type: "finish"; reason: "stop" | "tool_calls" | "interrupted" };
+	| { type: "finish"; reason: "stop" | "tool_calls" | "interrupted" }
+	/** A note for the status bar that is not part of the response, e.g. a retry or failover. */
+	| { type: "status"; text: string };
 
 // --- Provider interface ---
 
@@ -142,6 +144,8 @@ export interface Provider {
 	readonly id: string;
 	readonly configDir?: string;
 	stream(options: ProviderOptions): AsyncIterable<StreamEvent>;
+	/** The model that actually serves requests for `model`; differs from it after a failover switched backends. */
+	resolveModel?(model: string): string;
 	/** Reset per-turn stats. Called before the agent loop starts.
 	 *  @param sessionPromptTokens — last known prompt token count from the DB,
 	 *  used as baseline when no in-memory state exists (e.g. after server restart). */
@@ -174,12 +178,29 @@ export class ProviderError extends Error {
 	constructor(
 		public readonly status: number,
 		public readonly body: string,
+		/** How long the provider asked us to wait before retrying (its `Retry-After` header). */
+		public readonly retryAfterMs?: number,
 	) {
 		super(`Provider error (${status}): ${body}`);
 		this.name = "ProviderError";
 	}
 }
 
+/** Parse a `Retry-After` header, given either in seconds or as an HTTP date. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+	if (!value) return undefined;
+	const trimmed = value.trim();
+	if (/^\d+(\.\d+)?$/.test(trimmed)) return Math.round(Number(trimmed) * 1000);
+	const date = Date.parse(trimmed);
+	if (Number.isNaN(date)) return undefined;
+	return Math.max(0, date - now);
+}
+
+/** Build the error for a non-OK provider response, keeping its `Retry-After` hint. */
+export async function providerErrorFromResponse(response: Response): Promise<ProviderError> {
+	return new ProviderError(response.status, await response.text(), parseRetryAfter(response.headers.get("retry-after")));
+}
+
 export class TimeoutError extends ProviderError {
 	constructor(attempts: number, cause?: unknown) {
 		const causeMsg = cause instanceof Error ? `: ${cause.message}` : "";
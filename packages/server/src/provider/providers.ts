@@ -19,10 +19,11 @@ export function isSupportedAuthProvider(value: string): value is AuthProviderId
 	return SUPPORTED_AUTH_PROVIDER_IDS.includes(value as AuthProviderId);
 }
 
-export function getDefaultModelForProvider(providerId: ProviderId): string {
+/** The model a session starts on. `configDir` lets providers with user-declared models pick the first one. */
+export function getDefaultModelForProvider(providerId: ProviderId, configDir?: string): string {
 	const descriptor = getProviderDescriptor(providerId);
 	if (!descriptor) {
 		throw new Error(`Unsupported provider: ${providerId}`);
 	}
-	return descriptor.defaultModel;
+	return descriptor.resolveDefaultModel(configDir);
 }
@@ -1,13 +1,17 @@
 import type {
 	AmazonBedrockAuth,
+	AnthropicAuth,
 	AuthStore,
 	DeepSeekAuth,
+	OpenAIAuth,
+	OpenAICompatibleAuth,
 	OpenCodeGoAuth,
 	OpenCodeZenAuth,
 	OpenRouterAuth,
 } from "../auth/store";
 import type { Logger } from "../log/logger";
 import { computeTurnCostDollars } from "./cost-utils";
+import { loadOpenAICompatibleModels } from "./openai-compatible-models";
 import { getOpenCodeGoApiFamily, getOpenCodeZenApiFamily } from "./opencode-routing";
 import type { Provider } from "./provider";
 import { loadUnifiedModelsFile, unifiedModelsConfigExists } from "./unified-model-catalog";
@@ -18,6 +22,9 @@ export const SUPPORTED_RUNTIME_PROVIDER_IDS = [
 	"opencode-zen",
 	"amazon-bedrock",
 	"deepseek",
+	"anthropic",
+	"openai",
+	"openai-compatible",
 ] as const;
 export const SUPPORTED_AUTH_PROVIDER_IDS = [
 	"openrouter",
@@ -25,6 +32,9 @@ export const SUPPORTED_AUTH_PROVIDER_IDS = [
 	"opencode-zen",
 	"amazon-bedrock",
 	"deepseek",
+	"anthropic",
+	"openai",
+	"openai-compatible",
 	"tavily",
 ] as const;
 
@@ -72,7 +82,11 @@ export interface ProviderDescriptor {
 	runtimeSupported: boolean;
 	defaultModel: string;
 	auth: ProviderAuthMetadata;
+	/** Shown when modelsConfigExists() is false. */
+	missingModelsMessage: string;
 	getApiFamily(modelId: string): ApiFamily;
+	/** defaultModel, unless the provider's models come from user config. */
+	resolveDefaultModel(configDir?: string): string;
 	modelsConfigExists(configDir?: string): boolean;
 	loadModels(configDir?: string): ProviderModelConfig[];
 	buildSortedModels(configDir?: string): SortedProviderModelListItem[];
@@ -108,6 +122,14 @@ export interface ProviderDescriptor {
 			configDir?: string,
 		) => Provider;
 		createDeepSeekProvider?: (auth: DeepSeekAuth, logger?: Logger, fetchFn?: typeof fetch, configDir?: string) => Provider;
+		createAnthropicProvider?: (auth: AnthropicAuth, logger?: Logger, fetchFn?: typeof fetch, configDir?: string) => Provider;
+		createOpenAIProvider?: (auth: OpenAIAuth, logger?: Logger, fetchFn?: typeof fetch, configDir?: string) => Provider;
+		createOpenAICompatibleProvider?: (
+			auth: OpenAICompatibleAuth,
+			logger?: Logger,
+			fetchFn?: typeof fetch,
+			configDir?: string,
+		) => Provider;
 	}): Promise<Provider>;
 }
 
@@ -160,7 +182,8 @@ function defaultModelName(modelId: string): string {
 
 function loadProviderModelsFromUnifiedCatalog(providerId: ProviderId, configDir?: string): ProviderModelConfig[] {
 	try {
-		return loadUnifiedModelsFile(configDir).providers[providerId] ?? [];
+		const providers: Partial<Record<ProviderId, ProviderModelConfig[]>> = loadUnifiedModelsFile(configDir).providers;
+		return providers[providerId] ?? [];
 	} catch {
 		return [];
 	}
@@ -181,6 +204,12 @@ interface ApiKeyProviderDescriptorOptions<Auth> {
 		configDir?: string;
 		billable?: boolean;
 	}) => ProviderSummaryParts;
+	/** Where the provider's models come from. Defaults to its section of models.json. */
+	models?: {
+		exist(configDir?: string): boolean;
+		load(configDir?: string): ProviderModelConfig[];
+		missingMessage: string;
+	};
 	getAuth(store: AuthStore | undefined): Auth | undefined;
 	missingAuthMessage: string;
 	createProvider(options: {
@@ -198,25 +227,43 @@ interface ApiKeyProviderDescriptorOptions<Auth> {
 			configDir?: string,
 		) => Provider;
 		createDeepSeekProvider?: (auth: DeepSeekAuth, logger?: Logger, fetchFn?: typeof fetch, configDir?: string) => Provider;
+		createAnthropicProvider?: (auth: AnthropicAuth, logger?: Logger, fetchFn?: typeof fetch, configDir?: string) => Provider;
+		createOpenAIProvider?: (auth: OpenAIAuth, logger?: Logger, fetchFn?: typeof fetch, configDir?: string) => Provider;
+		createOpenAICompatibleProvider?: (
+			auth: OpenAICompatibleAuth,
+			logger?: Logger,
+			fetchFn?: typeof fetch,
+			configDir?: string,
+		) => Provider;
 	}): Promise<Provider>;
 }
 
 function createApiKeyProviderDescriptor<Auth>(options: ApiKeyProviderDescriptorOptions<Auth>): ProviderDescriptor {
+	const models = options.models ?? {
+		exist: (configDir?: string) => unifiedModelsConfigExists(configDir),
+		load: (configDir?: string) => loadProviderModelsFromUnifiedCatalog(options.id, configDir),
+		missingMessage: "Model configuration not found. Please run: bobai refresh",
+	};
 	return {
 		id: options.id,
 		authSupported: true,
 		runtimeSupported: true,
 		defaultModel: options.defaultModel,
 		auth: options.auth,
+		missingModelsMessage: models.missingMessage,
 		getApiFamily: options.getApiFamily,
+		resolveDefaultModel(configDir?: string): string {
+			return options.models ? (models.load(configDir)[0]?.id ?? options.defaultModel) : options.defaultModel;
+		},
 		modelsConfigExists(configDir?: string): boolean {
-			return unifiedModelsConfigExists(configDir);
+			return models.exist(configDir);
 		},
 		loadModels(configDir?: string): ProviderModelConfig[] {
-			return loadProviderModelsFromUnifiedCatalog(options.id, configDir);
+			return models.load(configDir);
 		},
 		buildSortedModels(configDir?: string): SortedProviderModelListItem[] {
-			return loadProviderModelsFromUnifiedCatalog(options.id, configDir)
+			return models
+				.load(configDir)
 				.map((model) => ({
 					id: model.id,
 					cost: formatProviderCostLabel(options.id, model),
@@ -234,7 +281,7 @@ function createApiKeyProviderDescriptor<Auth>(options: ApiKeyProviderDescriptorO
 			return formatGenericProviderModelDisplay(
 				options.id,
 				modelId,
-				loadProviderModelsFromUnifiedCatalog(options.id, configDir).find((model) => model.id === modelId),
+				models.load(configDir).find((model) => model.id === modelId),
 				promptTokens,
 				contextLimit,
 				sessionCostDisplay,
@@ -245,9 +292,7 @@ function createApiKeyProviderDescriptor<Auth>(options: ApiKeyProviderDescriptorO
 				return options.buildTurnSummaryParts(summaryOptions);
 			}
 			const modelName = defaultModelName(summaryOptions.modelId);
-			const modelConfig = loadProviderModelsFromUnifiedCatalog(options.id, summaryOptions.configDir).find(
-				(model) => model.id === summaryOptions.modelId,
-			);
+			const modelConfig = models.load(summaryOptions.configDir).find((model) => model.id === summaryOptions.modelId);
 			if (
 				modelConfig?.inputPrice !== undefined &&
 				modelConfig.outputPrice !== undefined &&
@@ -282,6 +327,9 @@ function createApiKeyProviderDescriptor<Auth>(options: ApiKeyProviderDescriptorO
 				createOpenCodeZenProvider: providerOptions.createOpenCodeZenProvider,
 				createAmazonBedrockProvider: providerOptions.createAmazonBedrockProvider,
 				createDeepSeekProvider: providerOptions.createDeepSeekProvider,
+				createAnthropicProvider: providerOptions.createAnthropicProvider,
+				createOpenAIProvider: providerOptions.createOpenAIProvider,
+				createOpenAICompatibleProvider: providerOptions.createOpenAICompatibleProvider,
 			});
 		},
 	};
@@ -400,11 +448,87 @@ const deepseekDescriptor = createApiKeyProviderDescriptor<DeepSeekAuth>({
 	},
 });
 
+const anthropicDescriptor = createApiKeyProviderDescriptor<AnthropicAuth>({
+	id: "anthropic",
+	defaultModel: "claude-opus-4-7",
+	auth: {
+		cliCommand: "bobai auth anthropic",
+		missingAuthMessage: "Anthropic authentication not found. Please run: bobai auth anthropic",
+		permanentAuthErrorMessage: "Authentication expired. Run `bobai auth anthropic` to re-authenticate.",
+	},
+	getApiFamily(): ApiFamily {
+		return "anthropic-messages";
+	},
+	getAuth(store) {
+		return store?.providers.anthropic;
+	},
+	missingAuthMessage: "Anthropic authentication not found. Please run: bobai auth anthropic",
+	async createProvider(options): Promise<Provider> {
+		const anthropicModule = await import("./anthropic");
+		const createAnthropicProvider = options.createAnthropicProvider ?? anthropicModule.createAnthropicProvider;
+		return createAnthropicProvider(options.auth, options.logger, options.fetch, options.configDir);
+	},
+});
+
+const openAIDescriptor = createApiKeyProviderDescriptor<OpenAIAuth>({
+	id: "openai",
+	defaultModel: "gpt-5.4",
+	auth: {
+		cliCommand: "bobai auth openai",
+		missingAuthMessage: "OpenAI authentication not found. Please run: bobai auth openai",
+		permanentAuthErrorMessage: "Authentication expired. Run `bobai auth openai` to re-authenticate.",
+	},
+	getApiFamily(): ApiFamily {
+		return "openai-responses";
+	},
+	getAuth(store) {
+		return store?.providers.openai;
+	},
+	missingAuthMessage: "OpenAI authentication not found. Please run: bobai auth openai",
+	async createProvider(options): Promise<Provider> {
+		const openAIModule = await import("./openai");
+		const createOpenAIProvider = options.createOpenAIProvider ?? openAIModule.createOpenAIProvider;
+		return createOpenAIProvider(options.auth, options.logger, options.fetch, options.configDir);
+	},
+});
+
+const openAICompatibleDescriptor = createApiKeyProviderDescriptor<OpenAICompatibleAuth>({
+	id: "openai-compatible",
+	// Only used when no model is declared; the first declared model is the real default.
+	defaultModel: "local-model",
+	auth: {
+		cliCommand: "bobai auth openai-compatible",
+		missingAuthMessage: "OpenAI-compatible endpoint not configured. Please run: bobai auth openai-compatible",
+		permanentAuthErrorMessage: "Authentication failed. Run `bobai auth openai-compatible` to update the endpoint or API key.",
+	},
+	getApiFamily(): ApiFamily {
+		return "openai-chat-completions";
+	},
+	models: {
+		exist: (configDir?: string) => loadOpenAICompatibleModels(configDir).length > 0,
+		load: loadOpenAICompatibleModels,
+		missingMessage: "No OpenAI-compatible models configured. Add them to openaiCompatible.models in bobai.json",
+	},
+	getAuth(store) {
+		return store?.providers["openai-compatible"];
+	},
+	missingAuthMessage: "OpenAI-compatible endpoint not configured. Please run: bobai auth openai-compatible",
+	async createProvider(options): Promise<Provider> {
+		const openAICompatibleModule = await import("./openai-compatible");
+		const createOpenAICompatibleProvider =
+			options.createOpenAICompatibleProvider ?? openAICompatibleModule.createOpenAICompatibleProvider;
+		return createOpenAICompatibleProvider(options.auth, options.logger, options.fetch, options.configDir);
+	},
+});
+
 const PROVIDER_DESCRIPTORS: Record<ProviderId, ProviderDescriptor> = {
 	openrouter: openRouterDescriptor,
 	"opencode-go": openCodeGoDescriptor,
 	"opencode-zen": openCodeZenDescriptor,
 	deepseek: deepseekDescriptor,
+	anthropic: anthropicDescriptor,
+	openai: openAIDescriptor,
+	"openai-compatible": openAICompatibleDescriptor,
 	"amazon-bedrock": createApiKeyProviderDescriptor<AmazonBedrockAuth>({
 		id: "amazon-bedrock",
 		defaultModel: "anthropic.claude-opus-4-7",
@@ -432,14 +556,71 @@ const PROVIDER_DESCRIPTORS: Record<ProviderId, ProviderDescriptor> = {
 	}),
 };
 
+/** A provider a plugin added under an id Bob AI does not ship. */
+export interface PluginProviderDefinition {
+	id: string;
+	/** Name of the plugin that registered it. */
+	plugin: string;
+	models: ProviderModelConfig[];
+	apiFamily?: ApiFamily;
+}
+
+/** Plugin providers by id. Their ids are typed as ProviderId once registered. */
+const pluginProviderDescriptors = new Map<string, ProviderDescriptor>();
+
+/**
+ * Make a plugin provider known to provider selection, `.model` and pricing.
+ * Its runtime comes from the plugin's factory, so the descriptor cannot
+ * create one itself. Returns a function that removes it again.
+ */
+export function registerPluginProvider(definition: PluginProviderDefinition): () => void {
+	const notBuiltIn = `Provider ${definition.id} comes from the ${definition.plugin} plugin and has no built-in implementation`;
+	const descriptor: ProviderDescriptor = {
+		...createApiKeyProviderDescriptor<never>({
+			id: definition.id as ProviderId,
+			defaultModel: definition.models[0]?.id ?? "",
+			auth: {
+				cliCommand: "",
+				missingAuthMessage: notBuiltIn,
+				permanentAuthErrorMessage: `Authentication failed. Check the credentials the ${definition.plugin} plugin uses.`,
+			},
+			getApiFamily: () => definition.apiFamily ?? "openai-chat-completions",
+			models: {
+				exist: () => definition.models.length > 0,
+				load: () => definition.models,
+				missingMessage: `The ${definition.plugin} plugin declares no models for ${definition.id}`,
+			},
+			getAuth: () => undefined,
+			missingAuthMessage: notBuiltIn,
+			async createProvider(): Promise<Provider> {
+				throw new Error(notBuiltIn);
+			},
+		}),
+		authSupported: false,
+	};
+	pluginProviderDescriptors.set(definition.id, descriptor);
+	return () => {
+		if (pluginProviderDescriptors.get(definition.id) === descriptor) pluginProviderDescriptors.delete(definition.id);
+	};
+}
+
 export function getProviderDescriptor(providerId: ProviderId): ProviderDescriptor;
 export function getProviderDescriptor(providerId: string): ProviderDescriptor | undefined;
 export function getProviderDescriptor(providerId: string): ProviderDescriptor | undefined {
-	return PROVIDER_DESCRIPTORS[providerId as ProviderId];
+	if (Object.hasOwn(PROVIDER_DESCRIPTORS, providerId)) return PROVIDER_DESCRIPTORS[providerId as ProviderId];
+	return pluginProviderDescriptors.get(providerId);
 }
 
 export function listRuntimeProviders(): ProviderDescriptor[] {
-	return SUPPORTED_RUNTIME_PROVIDER_IDS.map((providerId) => PROVIDER_DESCRIPTORS[providerId]);
+	return [
+		...SUPPORTED_RUNTIME_PROVIDER_IDS.map((providerId) => PROVIDER_DESCRIPTORS[providerId]),
+		...pluginProviderDescriptors.values(),
+	];
+}
+
+/** Ids of the registered plugin providers, in registration order. */
+export function listPluginProviderIds(): ProviderId[] {
+	return [...pluginProviderDescriptors.keys()] as ProviderId[];
 }
 
 export function listAuthProviders(): ProviderDescriptor[] {
@@ -1,4 +1,5 @@
 import type { Logger } from "../log/logger";
+import type { PluginRegistry } from "../plugins/registry";
 import { createConfiguredProvider } from "./factory";
 import type { Provider } from "./provider";
 import type { ProviderId } from "./providers";
@@ -11,6 +12,8 @@ export interface CreateProviderRuntimeManagerOptions {
 	configDir: string;
 	logger?: Logger;
 	fetch?: typeof fetch;
+	/** Plugin-registered providers take precedence over the built-in implementation. */
+	plugins?: PluginRegistry;
 }
 
 export interface CreateProviderRuntimeManagerDeps {
@@ -36,7 +39,17 @@ export function createProviderRuntimeManager(
 		get(providerId: ProviderId): Promise<Provider> {
 			const cached = cache.get(providerId);
 			if (cached) return cached;
-			const created = createProvider(providerId);
+			const pluginFactory = options.plugins?.getProvider(providerId);
+			const created = pluginFactory
+				? Promise.resolve(
+						pluginFactory({
+							configDir: options.configDir,
+							logger: options.logger,
+							fetch: options.fetch,
+							createDefault: () => createProvider(providerId),
+						}),
+					)
+				: createProvider(providerId);
 			cache.set(providerId, created);
 			return created;
 		},
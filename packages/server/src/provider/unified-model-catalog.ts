@@ -19,10 +19,13 @@ export interface UnifiedProviderModel {
 	premiumRequestMultiplier?: number;
 }
 
+/** Providers whose models come from models.dev. `openai-compatible` models are declared in bobai.json instead. */
+export type CatalogProviderId = Exclude<ProviderId, "openai-compatible">;
+
 export interface UnifiedModelsFile {
 	version: 1;
 	generatedAt: string;
-	providers: Record<ProviderId, UnifiedProviderModel[]>;
+	providers: Record<CatalogProviderId, UnifiedProviderModel[]>;
 }
 
 export interface UnifiedModelCatalogRefreshResult {
@@ -33,12 +36,14 @@ export interface UnifiedModelCatalogRefreshResult {
 
 const MODELS_FILE_NAME = "models.json";
 
-const PROVIDER_SOURCE_MAP: Record<ProviderId, string> = {
+const PROVIDER_SOURCE_MAP: Record<CatalogProviderId, string> = {
 	openrouter: "openrouter",
 	"opencode-go": "opencode-go",
 	"opencode-zen": "opencode",
 	"amazon-bedrock": "amazon-bedrock",
 	deepseek: "deepseek",
+	anthropic: "anthropic",
+	openai: "openai",
 };
 
 function defaultConfigDir(): string {
@@ -72,7 +77,7 @@ function hasStrictMetadata(model: ModelsDevModel): model is ModelsDevModel & {
 	);
 }
 
-function normalizeProviderModels(providerId: ProviderId, catalog: ModelsDevCatalog): UnifiedProviderModel[] {
+function normalizeProviderModels(providerId: CatalogProviderId, catalog: ModelsDevCatalog): UnifiedProviderModel[] {
 	const sourceId = PROVIDER_SOURCE_MAP[providerId];
 	const source = catalog[sourceId];
 	if (!source) return [];
@@ -144,6 +149,8 @@ export async function refreshUnifiedModelCatalog(
 			"opencode-go": normalizeProviderModels("opencode-go", catalog),
 			"opencode-zen": normalizeProviderModels("opencode-zen", catalog),
 			deepseek: normalizeProviderModels("deepseek", catalog),
+			anthropic: normalizeProviderModels("anthropic", catalog),
+			openai: normalizeProviderModels("openai", catalog),
 			"amazon-bedrock": bedrockModels,
 		},
 	};
@@ -284,6 +291,8 @@ export async function refreshBedrockModelsFromFoundation(
 				"opencode-go": [],
 				"opencode-zen": [],
 				deepseek: [],
+				anthropic: [],
+				openai: [],
 				"amazon-bedrock": [],
 			},
 		};
@@ -0,0 +1,260 @@
+import type { Database } from "bun:sqlite";
+import { handlePrompt, type PromptRequest } from "./handler";
+import type { ServerMessage } from "./protocol";
+import {
+	getApiFamilyForModel,
+	getDefaultSessionBackend,
+	type SessionBackendState,
+	validateModelSwitch,
+	validateProviderSwitch,
+} from "./provider/backend-policy";
+import { isSupportedProvider, type ProviderId } from "./provider/providers";
+import { countSessionMessages, getMessages, getSession, updateSessionBackend } from "./session/repository";
+
+/** Exit codes of `bobai run`. */
+export const RUN_EXIT = {
+	ok: 0,
+	/** Setup, provider, or unexpected error — the turn did not complete. */
+	error: 1,
+	/** The turn completed, but at least one tool call failed or was denied. */
+	toolFailure: 2,
+	/** Stopped with Ctrl+C. */
+	interrupted: 130,
+} as const;
+
+export interface HeadlessRunOptions
+	extends Pick<
+		PromptRequest,
+		| "db"
+		| "globalMemoryDb"
+		| "runtimeManager"
+		| "projectRoot"
+		| "configDir"
+		| "skills"
+		| "maxIterations"
+		| "logger"
+		| "logDir"
+		| "debug"
+		| "startedAt"
+		| "dbGuard"
+		| "availableTools"
+		| "platformInfo"
+		| "sandbox"
+		| "permissions"
+		| "budget"
+		| "failover"
+		| "modelRoles"
+		| "compaction"
+		| "mcpTools"
+		| "processes"
+		| "plugins"
+		| "provider"
+	> {
+	prompt: string;
+	sessionId?: string;
+	/** Backend from config, used for new sessions unless overridden. */
+	defaultProviderId: ProviderId | null;
+	defaultModel: string | null;
+	/** `--provider` / `--model` overrides. */
+	providerOverride?: string;
+	modelOverride?: string;
+	json: boolean;
+	signal?: AbortSignal;
+	stdout: (text: string) => void;
+	stderr: (text: string) => void;
+}
+
+/**
+ * NDJSON form of a server message. Field names mirror `AgentEvent`
+ * (`token` becomes `text`); UI-only messages are dropped.
+ */
+function toJsonEvent(msg: ServerMessage): Record<string, unknown> | undefined {
+	switch (msg.type) {
+		case "token":
+			return { ...msg, type: "text" };
+		case "prompt_echo":
+		case "session_subscribed":
+		case "session_locked":
+		case "permission_request":
+		case "db_disconnected":
+			return undefined;
+		default:
+			return msg;
+	}
+}
+
+/**
+ * Apply `--provider` / `--model` to the backend a run will use. Existing
+ * sessions go through the same switch rules as `.provider` / `.model`.
+ */
+function resolveBackendOverride(
+	db: Database,
+	options: HeadlessRunOptions,
+): { ok: true; providerId: ProviderId | null; model: string | null } | { ok: false; error: string } {
+	const { providerOverride, modelOverride } = options;
+	if (providerOverride && !isSupportedProvider(providerOverride)) {
+		return { ok: false, error: `Unsupported provider: ${providerOverride}` };
+	}
+	const overrideProvider = providerOverride as ProviderId | undefined;
+
+	if (!options.sessionId) {
+		if (overrideProvider && overrideProvider !== options.defaultProviderId) {
+			return { ok: true, providerId: overrideProvider, model: modelOverride ?? null };
+		}
+		return { ok: true, providerId: options.defaultProviderId, model: modelOverride ?? options.defaultModel };
+	}
+
+	if (!overrideProvider && !modelOverride) {
+		return { ok: true, providerId: options.defaultProviderId, model: options.defaultModel };
+	}
+
+	const session = getSession(db, options.sessionId);
+	if (!session) return { ok: false, error: `Session not found: ${options.sessionId}` };
+	const hasMessages = countSessionMessages(db, options.sessionId) > 0;
+
+	const sessionProvider = (session.provider as ProviderId | null) ?? options.defaultProviderId;
+	const sessionModel = session.model ?? options.defaultModel;
+	let next: SessionBackendState | null =
+		sessionProvider && sessionModel
+			? {
+					provider: sessionProvider,
+					model: sessionModel,
+					apiFamily: session.apiFamily ?? getApiFamilyForModel(sessionProvider, sessionModel),
+				}
+			: null;
+
+	if (overrideProvider && overrideProvider !== next?.provider) {
+		const transition = next
+			? validateProviderSwitch({ hasMessages, current: next, nextProvider: overrideProvider, configDir: options.configDir })
+			: ({ ok: true, next: getDefaultSessionBackend(overrideProvider, options.configDir) } as const);
+		if (!transition.ok) return transition;
+		next = transition.next;
+	}
+	if (modelOverride && next && modelOverride !== next.model) {
+		const transition = validateModelSwitch({ hasMessages, current: next, nextModel: modelOverride });
+		if (!transition.ok) return transition;
+		next = transition.next;
+	}
+	if (!next) return { ok: false, error: "Provider or model not selected" };
+
+	updateSessionBackend(db, options.sessionId, next);
+	return { ok: true, providerId: options.defaultProviderId, model: options.defaultModel };
+}
+
+/**
+ * Run one prompt without the browser UI (`bobai run`).
+ *
+ * The turn goes through `handlePrompt` exactly like a UI prompt, so the
+ * session, tool calls and metrics are persisted in `.bobai/bobai.db` and can
+ * be continued later with `--session` or from the UI. Output is written as
+ * plain text (assistant tokens and tool call lines; failed tool output goes
+ * to stderr) or, with `json`, one JSON event per line. Tool calls that need approval are denied, since
+ * there is nobody to ask. Resolves with the process exit code.
+ */
+export async function runHeadless(options: HeadlessRunOptions): Promise<number> {
+	const { db, json, stdout, stderr } = options;
+
+	const backend = resolveBackendOverride(db, options);
+	if (!backend.ok) {
+		if (json) stdout(`${JSON.stringify({ type: "error", message: backend.error })}\n`);
+		else stderr(`Error: ${backend.error}\n`);
+		return RUN_EXIT.error;
+	}
+
+	let exitCode: number = RUN_EXIT.ok;
+	let rootSessionId = options.sessionId;
+	let atLineStart = true;
+	// Tool calls flagged as failed, in this session or any subagent it spawned
+	const failures: { sessionId?: string; toolCallId: string }[] = [];
+
+	const write = (text: string) => {
+		if (!text) return;
+		stdout(text);
+		atLineStart = text.endsWith("\n");
+	};
+	const writeLine = (text: string) => {
+		write(`${atLineStart ? "" : "\n"}${text}\n`);
+	};
+
+	function handle(msg: ServerMessage) {
+		if (msg.type === "session_created") rootSessionId = msg.sessionId;
+		if (msg.type === "error") exitCode = RUN_EXIT.error;
+		if (msg.type === "tool_result" && msg.failed) failures.push({ sessionId: msg.sessionId, toolCallId: msg.id });
+
+		if (json) {
+			const event = toJsonEvent(msg);
+			if (event) stdout(`${JSON.stringify(event)}\n`);
+			return;
+		}
+
+		// Plain text: the main session's answer and tool calls; subagents only announce themselves
+		const isSubagent = "sessionId" in msg && msg.sessionId !== undefined && msg.sessionId !== rootSessionId;
+		switch (msg.type) {
+			case "token":
+				if (!isSubagent) write(msg.text);
+				break;
+			case "tool_call":
+				if (!isSubagent) writeLine(msg.output);
+				break;
+			case "subagent_start":
+				writeLine(`▸ Subagent: ${msg.title}`);
+				break;
+			case "error":
+				stderr(`${atLineStart ? "" : "\n"}Error: ${msg.message}\n`);
+				break;
+			case "warning":
+				stderr(`${atLineStart ? "" : "\n"}Warning: ${msg.message}\n`);
+				break;
+			case "done":
+				if (!atLineStart) write("\n");
+				break;
+		}
+	}
+
+	await handlePrompt({
+		ws: { send: (raw: string) => handle(JSON.parse(raw) as ServerMessage) },
+		db,
+		globalMemoryDb: options.globalMemoryDb,
+		provider: options.provider,
+		runtimeManager: options.runtimeManager,
+		defaultProviderId: backend.providerId,
+		model: backend.model ?? undefined,
+		text: options.prompt,
+		sessionId: options.sessionId,
+		projectRoot: options.projectRoot,
+		configDir: options.configDir,
+		skills: options.skills,
+		maxIterations: options.maxIterations,
+		logger: options.logger,
+		logDir: options.logDir,
+		signal: options.signal,
+		debug: options.debug,
+		startedAt: options.startedAt,
+		dbGuard: options.dbGuard,
+		availableTools: options.availableTools,
+		platformInfo: options.platformInfo,
+		sandbox: options.sandbox,
+		permissions: options.permissions,
+		budget: options.budget,
+		failover: options.failover,
+		modelRoles: options.modelRoles,
+		compaction: options.compaction,
+		mcpTools: options.mcpTools,
+		processes: options.processes,
+		plugins: options.plugins,
+	});
+
+	if (options.signal?.aborted) return RUN_EXIT.interrupted;
+	if (exitCode !== RUN_EXIT.ok || !rootSessionId) return exitCode;
+
+	// Report what the model saw; the UI output of a failed call can read like a success
+	if (!json) {
+		for (const failure of failures) {
+			const stored = getMessages(db, failure.sessionId ?? rootSessionId).find(
+				(m) => m.role === "tool" && m.metadata?.tool_call_id === failure.toolCallId,
+			);
+			if (stored) stderr(`${stored.content}\n`);
+		}
+	}
+	return failures.length > 0 ? RUN_EXIT.toolFailure : RUN_EXIT.ok;
+}
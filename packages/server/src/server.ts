@@ -1,10 +1,18 @@
 import type { Database } from "bun:sqlite";
 import path from "node:path";
 import { listAuthenticatedProviders as listAuthProviderIds, loadAuthStore } from "./auth/store";
+import type { BudgetPolicy } from "./budget/policy";
+import { listCheckpoints } from "./checkpoint";
 import { type CommandRequest, handleCommand } from "./command";
+import { clearSnapshot } from "./compaction/cache";
 import { compactToBudget, compactWithMultiplier } from "./compaction/compact-to-budget";
+import { type CompactionSettings, listCompactionPolicies, selectCompactionPolicy } from "./compaction/config";
+import type { CompactionDetail } from "./compaction/engine";
+import { getPinnedToolCallIds, summarizePins } from "./compaction/pin";
+import { applyCompactionPolicy } from "./compaction/policy";
 import { createCompactionRegistry } from "./compaction/registry";
-import { COMPACTION_OUTPUT_TARGET, NON_TOOL_DISTANCE, PRE_PROMPT_TARGET } from "./compaction/strength";
+import { NON_TOOL_DISTANCE } from "./compaction/strength";
+import { type CompactionSummary, formatSummaryMessage } from "./compaction/summarize";
 import { mapEvictedToStored } from "./compaction/view";
 import type { DbGuard } from "./db-guard";
 import { DbDisconnectedError } from "./db-guard";
@@ -13,11 +21,22 @@ import { handlePrompt } from "./handler";
 import { loadInstructions } from "./instructions";
 import type { Logger } from "./log/logger";
 import { sessionScope } from "./log/session-tag";
-import type { AvailableTools, PlatformInfo } from "./platform";
+import type { McpManager } from "./mcp/manager";
+import { listMemoriesForCuration, parseMemoryInput, parseMemoryPatch } from "./memory/curation";
+import { createMemory, deleteMemories, deleteMemory, isMemoryType, updateMemory } from "./memory/repository";
+import { getScopedMemory, isMemoryScope, memoryStore, promoteMemory } from "./memory/scope";
+import { createApprovalRegistry } from "./permission/approvals";
+import type { PermissionPolicy } from "./permission/policy";
+import { type AvailableTools, describeSandbox, type PlatformInfo, type Sandbox } from "./platform";
+import { runPluginCommand } from "./plugins/command";
+import type { PluginRegistry } from "./plugins/registry";
+import type { ProcessManager } from "./process/manager";
 import { getProjectInfo } from "./project-info";
 import type { ClientMessage } from "./protocol";
 import { send } from "./protocol";
 import { isRuntimeSupportedProvider } from "./provider/backend-policy";
+import type { FailoverPolicy } from "./provider/failover-policy";
+import type { ModelRoles } from "./provider/model-roles";
 import {
 	buildSortedProviderModelList,
 	formatProviderModelDisplay,
@@ -31,7 +50,9 @@ import {
 	isSupportedProvider,
 	type ProviderId,
 } from "./provider/providers";
+import { listPluginProviderIds } from "./provider/registry";
 import type { ProviderRuntimeManager } from "./provider/runtime-manager";
+import { exportSession, importSessionBundle, isExportFormat } from "./session/export";
 import {
 	deleteSession,
 	getMessages,
@@ -40,7 +61,11 @@ import {
 	getSession,
 	listSessions,
 	listSubagentSessions,
+	type StoredMessage,
+	setToolResultsPinned,
 } from "./session/repository";
+import { searchMessages } from "./session/search";
+import { buildUsageReport, renderUsageCsv, usageSinceDays } from "./session/usage";
 import type { SkillRegistry } from "./skill/skill";
 import { buildSystemPrompt } from "./system-prompt";
 import welcomeTemplate from "./welcome.md" with { type: "text" };
@@ -49,6 +74,8 @@ export interface ServerOptions {
 	port: number;
 	staticDir?: string;
 	db?: Database;
+	/** Cross-project memory store (~/.config/bobai/memory.db), shown in the Memories view and given to the memory tool. */
+	globalMemoryDb?: Database;
 	dbGuard?: DbGuard;
 	provider?: Provider;
 	runtimeManager?: ProviderRuntimeManager;
@@ -67,6 +94,24 @@ export interface ServerOptions {
 	startedAt?: number;
 	availableTools?: AvailableTools;
 	platformInfo?: PlatformInfo;
+	/** Sandbox for shell commands (project over global). Omitted = commands run unconfined. */
+	sandbox?: Sandbox;
+	/** Merged tool permission policy (project over global). Omitted = no gating. */
+	permissions?: PermissionPolicy;
+	/** Merged cost caps (project over global). Omitted = no limit. */
+	budget?: BudgetPolicy;
+	/** Merged retry and failover settings (project over global). Omitted = provider errors end the turn. */
+	failover?: FailoverPolicy;
+	/** Merged role models (project over global). Omitted = subagents and summaries use the session's model. */
+	modelRoles?: ModelRoles;
+	/** Merged compaction settings (project over global). */
+	compaction?: CompactionSettings;
+	/** Connected MCP servers; their tools are offered to every prompt. */
+	mcp?: McpManager;
+	/** Background processes started with the `process` tool, stopped when their session is released. */
+	processes?: ProcessManager;
+	/** Loaded plugins: tools, dot commands, hooks and prompt sections. */
+	plugins?: PluginRegistry;
 }
 
 function resolveConfiguredProviderId(providerId?: ProviderId, runtimeProviderId?: string): ProviderId | null {
@@ -93,6 +138,21 @@ export function createServer(options: ServerOptions) {
 	// Track all connected WebSockets for broadcasting
 	const allWebSockets = new Set<object>();
 
+	// Tool calls paused on an "ask" permission, waiting for the owning WebSocket to answer
+	const approvals = createApprovalRegistry();
+
+	/** Providers `.provider` offers: the authenticated built-in ones, then the ones plugins added. */
+	function listSelectableProviders() {
+		const store = loadAuthStore(options.configDir ?? "");
+		return [...listAuthProviderIds(store), ...listPluginProviderIds()]
+			.map((id, i) => ({
+				index: i + 1,
+				id,
+				runtimeSupported: isRuntimeSupportedProvider(id),
+			}))
+			.filter((p) => p.runtimeSupported);
+	}
+
 	function handleDbDisconnected(err: DbDisconnectedError) {
 		options.logger?.error("DB", err.message);
 		// Abort all active agent loops
@@ -119,10 +179,23 @@ export function createServer(options: ServerOptions) {
 			wsOwnedSessions.delete(ws);
 			if (sessionOwners.get(ownedSessionId) === ws) {
 				sessionOwners.delete(ownedSessionId);
+				// Closing a session stops its background processes
+				options.processes?.stopSession(ownedSessionId);
 			}
 		}
 	}
 
+	function sendProcesses(ws: object, sessionId: string) {
+		const processes = options.processes?.list(sessionId) ?? [];
+		send(ws as { send: (msg: string) => void }, { type: "processes", sessionId, processes });
+	}
+
+	// Keep the owning tab's process list current
+	options.processes?.onChange((sessionId) => {
+		const owner = sessionOwners.get(sessionId);
+		if (owner) sendProcesses(owner, sessionId);
+	});
+
 	return Bun.serve({
 		port: options.port,
 		async fetch(req, server) {
@@ -140,7 +213,20 @@ export function createServer(options: ServerOptions) {
 
 			if (url.pathname === "/bobai/project-info") {
 				const info = await getProjectInfo(options.projectRoot ?? process.cwd());
-				return Response.json(info);
+				return Response.json(options.sandbox ? { ...info, sandbox: options.sandbox.status } : info);
+			}
+
+			// GET /bobai/mcp — connection status of configured MCP servers
+			if (url.pathname === "/bobai/mcp") {
+				return Response.json(options.mcp?.status() ?? []);
+			}
+
+			// GET /bobai/plugins — plugin load status and the dot commands they registered
+			if (url.pathname === "/bobai/plugins") {
+				return Response.json({
+					plugins: options.plugins?.status() ?? [],
+					commands: (options.plugins?.commands() ?? []).map((c) => ({ name: c.name, description: c.description })),
+				});
 			}
 
 			if (url.pathname === "/bobai/welcome") {
@@ -178,6 +264,144 @@ export function createServer(options: ServerOptions) {
 				return Response.json(prompts);
 			}
 
+			// GET /bobai/search?q=<text>[&limit=N] — full-text search across all sessions
+			if (url.pathname === "/bobai/search") {
+				if (!options.db) {
+					return new Response("Database not available", { status: 503 });
+				}
+				const limitParam = Number(url.searchParams.get("limit") ?? 20);
+				const limit = Math.min(Math.max(1, Number.isFinite(limitParam) ? limitParam : 20), 50);
+				return Response.json(searchMessages(options.db, url.searchParams.get("q") ?? "", limit));
+			}
+
+			// Usage analytics: GET /bobai/usage[?days=N][&format=csv]
+			if (url.pathname === "/bobai/usage") {
+				if (!options.db) {
+					return new Response("Database not available", { status: 503 });
+				}
+				const daysParam = url.searchParams.get("days");
+				const days = daysParam === null ? null : Number(daysParam);
+				if (days !== null && (!Number.isInteger(days) || days < 1)) {
+					return new Response(`Invalid days: ${daysParam}`, { status: 400 });
+				}
+				const report = buildUsageReport(options.db, {
+					since: days === null ? undefined : usageSinceDays(days),
+					configDir: options.configDir,
+				});
+				if (url.searchParams.get("format") === "csv") {
+					return new Response(renderUsageCsv(report), {
+						headers: {
+							"Content-Type": "text/csv; charset=utf-8",
+							"Content-Disposition": 'attachment; filename="bobai-usage.csv"',
+						},
+					});
+				}
+				return Response.json(report);
+			}
+
+			// Compaction policies for the .policy pick list: GET /bobai/compaction/policies[?sessionId=ID]
+			if (url.pathname === "/bobai/compaction/policies") {
+				const sessionId = url.searchParams.get("sessionId");
+				const session = sessionId && options.db ? getSession(options.db, sessionId) : null;
+				const current = selectCompactionPolicy(options.compaction, session?.compactionPolicy);
+				const policies = listCompactionPolicies(options.compaction).map((p) => ({
+					index: p.index,
+					name: p.name,
+					description: p.description,
+				}));
+				return Response.json({ policies, current: current.name });
+			}
+
+			// Memories view: GET /bobai/memories[?type=T][&scope=S], POST {type, title, description?, content, scope?},
+			// DELETE {ids} for bulk removal from either store
+			if (url.pathname === "/bobai/memories") {
+				if (!options.db) {
+					return new Response("Database not available", { status: 503 });
+				}
+				if (req.method === "POST") {
+					const body = (await req.json()) as { scope?: unknown };
+					const input = parseMemoryInput(body);
+					if (typeof input === "string") {
+						return Response.json({ error: input }, { status: 400 });
+					}
+					const scope = body.scope ?? "project";
+					if (!isMemoryScope(scope)) {
+						return Response.json({ error: "scope must be project or global" }, { status: 400 });
+					}
+					const store = memoryStore(options.db, options.globalMemoryDb, scope);
+					if (!store) {
+						return Response.json({ error: "Global memory store not available" }, { status: 400 });
+					}
+					return Response.json({ ...createMemory(store, input), scope }, { status: 201 });
+				}
+				if (req.method === "DELETE") {
+					const body = (await req.json()) as { ids?: unknown };
+					if (!Array.isArray(body.ids)) {
+						return Response.json({ error: "ids is required" }, { status: 400 });
+					}
+					const ids = body.ids.filter((id): id is string => typeof id === "string");
+					const deleted =
+						deleteMemories(options.db, ids) + (options.globalMemoryDb ? deleteMemories(options.globalMemoryDb, ids) : 0);
+					return Response.json({ deleted });
+				}
+				const type = url.searchParams.get("type");
+				if (type !== null && !isMemoryType(type)) {
+					return new Response(`Unknown memory type: ${type}`, { status: 400 });
+				}
+				const scope = url.searchParams.get("scope");
+				if (scope !== null && !isMemoryScope(scope)) {
+					return new Response(`Unknown memory scope: ${scope}`, { status: 400 });
+				}
+				return Response.json(
+					listMemoriesForCuration(options.db, {
+						type: type ?? undefined,
+						scope: scope ?? undefined,
+						globalDb: options.globalMemoryDb,
+					}),
+				);
+			}
+
+			// POST /bobai/memories/:id/promote — move a project memory to the global store
+			const promoteMatch = url.pathname.match(/^\/bobai\/memories\/([^/]+)\/promote$/);
+			if (promoteMatch && req.method === "POST") {
+				if (!options.db) {
+					return new Response("Database not available", { status: 503 });
+				}
+				if (!options.globalMemoryDb) {
+					return Response.json({ error: "Global memory store not available" }, { status: 400 });
+				}
+				const promoted = promoteMemory(options.db, options.globalMemoryDb, decodeURIComponent(promoteMatch[1]));
+				return promoted ? Response.json(promoted) : new Response("Project memory not found", { status: 404 });
+			}
+
+			// GET, PATCH or DELETE /bobai/memories/:id, in whichever store holds it
+			const memoryMatch = url.pathname.match(/^\/bobai\/memories\/([^/]+)$/);
+			if (memoryMatch) {
+				if (!options.db) {
+					return new Response("Database not available", { status: 503 });
+				}
+				const memory = getScopedMemory(options.db, options.globalMemoryDb, decodeURIComponent(memoryMatch[1]));
+				const store = memory && memoryStore(options.db, options.globalMemoryDb, memory.scope);
+				if (!memory || !store) {
+					return new Response("Memory not found", { status: 404 });
+				}
+				if (req.method === "PATCH") {
+					const patch = parseMemoryPatch(await req.json());
+					if (typeof patch === "string") {
+						return Response.json({ error: patch }, { status: 400 });
+					}
+					const updated = updateMemory(store, memory.id, patch);
+					return updated
+						? Response.json({ ...updated, scope: memory.scope })
+						: new Response("Memory not found", { status: 404 });
+				}
+				if (req.method === "DELETE") {
+					deleteMemory(store, memory.id);
+					return Response.json({ deleted: 1 });
+				}
+				return Response.json(memory);
+			}
+
 			// Context endpoint: GET /bobai/session/:id/context[?compacted=true]
 			const contextMatch = url.pathname.match(/^\/bobai\/session\/([^/]+)\/context$/);
 			if (contextMatch) {
@@ -196,6 +420,7 @@ export function createServer(options: ServerOptions) {
 					projectDir: options.projectRoot ?? process.cwd(),
 					gitBranch: projectInfo.git?.branch,
 					platform: options.platformInfo?.id,
+					sandbox: options.sandbox && describeSandbox(options.sandbox.status),
 				};
 				const debugInfo =
 					options.debug && options.startedAt != null
@@ -203,7 +428,17 @@ export function createServer(options: ServerOptions) {
 						: undefined;
 				const available = options.availableTools ?? { shells: [], grepTools: [], git: false };
 				const toolNames: string[] = [...available.shells, ...available.grepTools];
-				const systemPrompt = buildSystemPrompt(skills.list(), instructions, { metadata, debug: debugInfo, toolNames });
+				const pluginSections = options.plugins?.systemPromptSections({
+					sessionId,
+					projectRoot: options.projectRoot ?? process.cwd(),
+					subagent: false,
+				});
+				const systemPrompt = buildSystemPrompt(skills.list(), instructions, {
+					metadata,
+					debug: debugInfo,
+					toolNames,
+					pluginSections,
+				});
 
 				// BACKWARD COMPAT: Sessions created before the dynamic system prompt change
 				// stored the system message in the DB at sort_order 0. Strip it — we always
@@ -343,11 +578,19 @@ export function createServer(options: ServerOptions) {
 					return reach;
 				}
 
-				const tools = createCompactionRegistry(options.availableTools);
-
 				const lastCompaction = session?.lastCompaction as Record<string, unknown> | null;
 				const storedMultiplier = typeof lastCompaction?.multiplier === "number" ? lastCompaction.multiplier : undefined;
 
+				// Reproduce a stored compaction with the policy that produced it; preview with the session's current one
+				const recordedPolicy = typeof lastCompaction?.policy === "string" ? lastCompaction.policy : undefined;
+				const policy = selectCompactionPolicy(options.compaction, recordedPolicy ?? session?.compactionPolicy);
+				const tools = applyCompactionPolicy(createCompactionRegistry(options.availableTools), policy);
+				const pinned = getPinnedToolCallIds(storedMessages);
+
+				function detailsWithPolicy(details: Map<string, CompactionDetail>) {
+					return Object.fromEntries([...details].map(([id, detail]) => [id, { ...detail, policy: policy.name }]));
+				}
+
 				// When stored compaction stats exist, reproduce the same compaction
 				// that was actually sent to the LLM instead of re-running with stale
 				// charsPerToken from the current session.
@@ -356,9 +599,38 @@ export function createServer(options: ServerOptions) {
 						messages: compactedMsgs,
 						preEviction,
 						details,
-					} = compactWithMultiplier(messages, storedMultiplier, tools, sessionId);
+					} = compactWithMultiplier(messages, storedMultiplier, tools, sessionId, pinned);
 
-					const compactedStored = mapEvictedToStored(preEviction, compactedMsgs, conversationMessages, sessionId);
+					const compactedStored: (StoredMessage & { originalIndex?: number })[] = mapEvictedToStored(
+						preEviction,
+						compactedMsgs,
+						conversationMessages,
+						sessionId,
+					);
+
+					// The summary that stood in for the evicted span, with what it cost to write
+					const summary = lastCompaction?.summary as CompactionSummary | undefined;
+					const summaryStats =
+						summary && summary.coveredMessages <= conversationMessages.length
+							? {
+									coveredMessages: summary.coveredMessages,
+									model: summary.model,
+									inputTokens: summary.inputTokens,
+									outputTokens: summary.outputTokens,
+									costDollars: summary.costDollars,
+								}
+							: undefined;
+					if (summary && summaryStats) {
+						compactedStored.splice(compactedStored[0]?.role === "system" ? 1 : 0, 0, {
+							id: "compaction-summary",
+							sessionId,
+							role: "user",
+							content: formatSummaryMessage(summary),
+							createdAt: "",
+							sortOrder: -1,
+							metadata: { compaction_summary: summaryStats },
+						});
+					}
 
 					const charsPerToken = (lastCompaction?.charsPerToken as number) ?? 0;
 					const charsBefore = (lastCompaction?.charsBefore as number) ?? 0;
@@ -382,27 +654,30 @@ export function createServer(options: ServerOptions) {
 								defaultMaxDistance: NON_TOOL_DISTANCE,
 							},
 							estimatedContextNeeded,
-							target: lastCompaction?.target ?? COMPACTION_OUTPUT_TARGET,
+							target: lastCompaction?.target ?? policy.outputTarget,
+							policy: policy.name,
 							elapsedMs: lastCompaction?.elapsedMs ?? 0,
 							messagesBefore: countByRole(messages),
 							messagesAfter: countByRole(compactedMsgs),
 							toolReach,
+							...(summaryStats ? { summary: summaryStats } : {}),
 						},
-						details: Object.fromEntries(details),
+						details: detailsWithPolicy(details),
 					});
 				}
 
 				// No stored stats — fall back to running compaction with current session data.
-				// Use PRE_PROMPT_TARGET (80%) so the view shows a "what-if" preview.
+				// Use the policy's pre-prompt target so the view shows a "what-if" preview.
 				const compactionResult = compactToBudget({
 					messages,
 					contextWindow,
 					promptTokens: storedPromptTokens,
 					promptChars: storedPromptChars,
-					target: PRE_PROMPT_TARGET,
+					target: policy.prePromptTarget,
 					type: "pre-prompt",
 					tools,
 					sessionId,
+					pinned,
 				});
 
 				const compactedStored = mapEvictedToStored(
@@ -431,26 +706,19 @@ export function createServer(options: ServerOptions) {
 							defaultMaxDistance: NON_TOOL_DISTANCE,
 						},
 						estimatedContextNeeded,
-						target: PRE_PROMPT_TARGET,
+						target: policy.prePromptTarget,
+						policy: policy.name,
 						elapsedMs: compactionResult.elapsedMs,
 						messagesBefore: countByRole(messages),
 						messagesAfter: countByRole(compactionResult.messages),
 						toolReach,
 					},
-					details: Object.fromEntries(compactionResult.details),
+					details: detailsWithPolicy(compactionResult.details),
 				});
 			}
 
 			if (url.pathname === "/bobai/providers") {
-				const store = loadAuthStore(options.configDir ?? "");
-				const providers = listAuthProviderIds(store)
-					.map((id, i) => ({
-						index: i + 1,
-						id,
-						runtimeSupported: isRuntimeSupportedProvider(id),
-					}))
-					.filter((p) => p.runtimeSupported);
-				return Response.json({ providers, defaultProvider: configuredProviderId });
+				return Response.json({ providers: listSelectableProviders(), defaultProvider: configuredProviderId });
 			}
 
 			if (url.pathname === "/bobai/models") {
@@ -464,11 +732,10 @@ export function createServer(options: ServerOptions) {
 						defaultStatus: options.defaultStatus ?? "select provider and model",
 					});
 				}
-				if (!isSupportedAuthProvider(requestedProvider)) {
-					return new Response(`Unsupported provider: ${requestedProvider}`, { status: 400 });
-				}
 				if (!isSupportedProvider(requestedProvider)) {
-					return new Response(`Provider runtime is not supported yet: ${requestedProvider}`, { status: 400 });
+					return isSupportedAuthProvider(requestedProvider)
+						? new Response(`Provider runtime is not supported yet: ${requestedProvider}`, { status: 400 })
+						: new Response(`Unsupported provider: ${requestedProvider}`, { status: 400 });
 				}
 				const models = buildSortedProviderModelList(requestedProvider, options.configDir).map((model, i) => ({
 					index: i + 1,
@@ -476,8 +743,8 @@ export function createServer(options: ServerOptions) {
 				}));
 				const defaultModel =
 					requestedProvider === configuredProviderId
-						? (options.model ?? getDefaultModelForProvider(requestedProvider))
-						: getDefaultModelForProvider(requestedProvider);
+						? (options.model ?? getDefaultModelForProvider(requestedProvider, options.configDir))
+						: getDefaultModelForProvider(requestedProvider, options.configDir);
 				const defaultStatus = formatProviderModelDisplay(requestedProvider, defaultModel, 0, options.configDir);
 				return Response.json({ providerId: requestedProvider, models, defaultModel, defaultStatus });
 			}
@@ -489,14 +756,13 @@ export function createServer(options: ServerOptions) {
 				try {
 					options.dbGuard?.assertConnected();
 					const body = (await req.json()) as CommandRequest;
-					const store = loadAuthStore(options.configDir ?? "");
-					const authenticatedProviders = listAuthProviderIds(store)
-						.map((id, i) => ({
-							index: i + 1,
-							id,
-							runtimeSupported: isRuntimeSupportedProvider(id),
-						}))
-						.filter((p) => p.runtimeSupported);
+					const pluginCommand = options.plugins?.getCommand(body.command);
+					if (pluginCommand) {
+						return Response.json(
+							await runPluginCommand(pluginCommand, body, options.projectRoot ?? process.cwd(), options.logger),
+						);
+					}
+					const authenticatedProviders = listSelectableProviders();
 					const result = handleCommand(options.db, body, {
 						defaultProviderId: configuredProviderId,
 						defaultModel: options.model ?? null,
@@ -505,6 +771,8 @@ export function createServer(options: ServerOptions) {
 						projectRoot: options.projectRoot,
 						projectConfig: options.projectConfig,
 						globalConfig: options.globalConfig,
+						isSessionBusy: (sid) => sessionLocks.has(sid),
+						compaction: options.compaction,
 					});
 					return Response.json(result);
 				} catch (err) {
@@ -620,6 +888,8 @@ export function createServer(options: ServerOptions) {
 						provider: session.provider,
 						model: session.model,
 						parentId: session.parentId,
+						forkedFrom: session.forkedFrom,
+						forkTurn: session.forkTurn,
 						contextLimit: session.contextLimit,
 					},
 					messages,
@@ -627,6 +897,96 @@ export function createServer(options: ServerOptions) {
 				});
 			}
 
+			// GET /bobai/session/:id/checkpoints — turns that .undo / .checkpoint can roll back to
+			const checkpointsMatch = url.pathname.match(/^\/bobai\/session\/([^/]+)\/checkpoints$/);
+			if (checkpointsMatch) {
+				if (!options.db) {
+					return new Response("Database not available", { status: 503 });
+				}
+				const sessionId = decodeURIComponent(checkpointsMatch[1]);
+				if (!getSession(options.db, sessionId)) {
+					return new Response("Session not found", { status: 404 });
+				}
+				const body = listCheckpoints(options.db, sessionId).map((c) => ({
+					index: c.index,
+					text: c.text,
+					createdAt: c.createdAt,
+					files: c.files,
+				}));
+				return Response.json(body);
+			}
+
+			// GET /bobai/session/:id/pins — pinned tool results and their token cost
+			// POST /bobai/session/:id/pins {toolCallIds, pinned} — pin or unpin tool results (Chat view panels)
+			const pinsMatch = url.pathname.match(/^\/bobai\/session\/([^/]+)\/pins$/);
+			if (pinsMatch) {
+				if (!options.db) {
+					return new Response("Database not available", { status: 503 });
+				}
+				const sessionId = decodeURIComponent(pinsMatch[1]);
+				const session = getSession(options.db, sessionId);
+				if (!session) {
+					return new Response("Session not found", { status: 404 });
+				}
+				if (req.method === "POST") {
+					const body = (await req.json()) as { toolCallIds?: unknown; pinned?: unknown };
+					if (!Array.isArray(body.toolCallIds) || typeof body.pinned !== "boolean") {
+						return Response.json({ error: "toolCallIds and pinned are required" }, { status: 400 });
+					}
+					if (session.parentId) {
+						return Response.json({ error: "Subagent sessions cannot be pinned" }, { status: 400 });
+					}
+					const ids = body.toolCallIds.filter((id): id is string => typeof id === "string");
+					// The cached prefix was compacted under the old pins; the next prompt recompacts from scratch
+					if (setToolResultsPinned(options.db, sessionId, ids, body.pinned) > 0) clearSnapshot(sessionId);
+				}
+				return Response.json(summarizePins(getMessages(options.db, sessionId), session.promptTokens, session.promptChars));
+			}
+
+			// GET /bobai/session/:id/export?format=markdown|json|html — download a session with its subagents
+			const exportMatch = url.pathname.match(/^\/bobai\/session\/([^/]+)\/export$/);
+			if (exportMatch) {
+				if (!options.db) {
+					return new Response("Database not available", { status: 503 });
+				}
+				const format = url.searchParams.get("format") ?? "markdown";
+				if (!isExportFormat(format)) {
+					return new Response(`Unknown export format: ${format}`, { status: 400 });
+				}
+				const file = exportSession(options.db, decodeURIComponent(exportMatch[1]), format);
+				if (!file) {
+					return new Response("Session not found", { status: 404 });
+				}
+				return new Response(file.content, {
+					headers: {
+						"Content-Type": file.contentType,
+						"Content-Disposition": `attachment; filename="${file.fileName}"`,
+					},
+				});
+			}
+
+			// POST /bobai/session/import — import a JSON session export
+			if (url.pathname === "/bobai/session/import" && req.method === "POST") {
+				if (!options.db) {
+					return Response.json({ ok: false, error: "Database not available" });
+				}
+				try {
+					options.dbGuard?.assertConnected();
+				} catch (err) {
+					if (err instanceof DbDisconnectedError) {
+						handleDbDisconnected(err);
+						return Response.json({ ok: false, error: "Database disconnected" });
+					}
+					throw err;
+				}
+				try {
+					const session = importSessionBundle(options.db, await req.json());
+					return Response.json({ ok: true, sessionId: session.id, title: session.title });
+				} catch (err) {
+					return Response.json({ ok: false, error: err instanceof Error ? err.message : String(err) });
+				}
+			}
+
 			// GET /bobai/session/:id/ownership — check if session is owned
 			const ownershipMatch = url.pathname.match(/^\/bobai\/session\/([^/]+)\/ownership$/);
 			if (ownershipMatch) {
@@ -698,12 +1058,16 @@ export function createServer(options: ServerOptions) {
 						sessionOwners.set(msg.sessionId, ws);
 						wsOwnedSessions.set(ws, msg.sessionId);
 						send(ws, { type: "session_subscribed", sessionId: msg.sessionId });
+						if (options.processes) sendProcesses(ws, msg.sessionId);
 					}
 					return;
 				}
 
 				if (msg.type === "unsubscribe") {
 					releaseOwnership(ws);
+					// The tab left the session (new chat): nobody is left to answer its
+					// pending approvals, so deny them and let the turn finish.
+					approvals.cancelOwner(ws);
 					return;
 				}
 
@@ -715,6 +1079,13 @@ export function createServer(options: ServerOptions) {
 					return;
 				}
 
+				if (msg.type === "permission_response") {
+					if (!approvals.respond(ws, msg.id, msg.approved === true)) {
+						send(ws, { type: "error", message: "No pending permission request with that id" });
+					}
+					return;
+				}
+
 				if (msg.type === "prompt") {
 					const { db, provider, runtimeManager, model } = options;
 					if (db) {
@@ -726,6 +1097,7 @@ export function createServer(options: ServerOptions) {
 							handlePrompt({
 								ws,
 								db,
+								globalMemoryDb: options.globalMemoryDb,
 								provider,
 								runtimeManager,
 								defaultProviderId: configuredProviderId,
@@ -745,6 +1117,20 @@ export function createServer(options: ServerOptions) {
 								dbGuard: options.dbGuard,
 								availableTools: options.availableTools ?? { shells: [], grepTools: [], git: false },
 								platformInfo: options.platformInfo,
+								sandbox: options.sandbox,
+								permissions: options.permissions,
+								budget: options.budget,
+								failover: options.failover,
+								modelRoles: options.modelRoles,
+								compaction: options.compaction,
+								mcpTools: options.mcp?.tools(),
+								processes: options.processes,
+								plugins: options.plugins,
+								requestApproval: async (prompt, signal) => {
+									const { id, approved } = approvals.request(ws, signal);
+									send(ws, { type: "permission_request", id, ...prompt });
+									return approved;
+								},
 							})
 								.catch((err) => {
 									if (err instanceof DbDisconnectedError) {
@@ -784,6 +1170,7 @@ export function createServer(options: ServerOptions) {
 			close(ws) {
 				allWebSockets.delete(ws);
 				releaseOwnership(ws);
+				approvals.cancelOwner(ws);
 				const controller = wsAbortControllers.get(ws);
 				if (controller) {
 					controller.abort();
@@ -0,0 +1,361 @@
+import type { Database } from "bun:sqlite";
+import { getMessages, getSession, listSubagentSessions, type Session, type StoredMessage } from "./repository";
+
+export const EXPORT_FORMATS = ["markdown", "json", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: string): value is ExportFormat {
+	return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export interface ExportedSession {
+	session: Session;
+	messages: StoredMessage[];
+}
+
+/** Lossless JSON export of a session and all of its subagent sessions. */
+export interface SessionBundle {
+	format: "bobai-session";
+	version: 1;
+	exportedAt: string;
+	rootSessionId: string;
+	/** The exported session first, then its subagent sessions, every parent before its children. */
+	sessions: ExportedSession[];
+}
+
+export interface ExportedFile {
+	content: string;
+	contentType: string;
+	fileName: string;
+}
+
+export function buildSessionBundle(db: Database, sessionId: string): SessionBundle | null {
+	const root = getSession(db, sessionId);
+	if (!root) return null;
+
+	const sessions: ExportedSession[] = [];
+	const queue: Session[] = [root];
+	while (queue.length > 0) {
+		const session = queue.shift() as Session;
+		sessions.push({ session, messages: getMessages(db, session.id) });
+		// listSubagentSessions returns newest first; export in creation order
+		queue.push(...listSubagentSessions(db, session.id).reverse());
+	}
+
+	return { format: "bobai-session", version: 1, exportedAt: new Date().toISOString(), rootSessionId: root.id, sessions };
+}
+
+type ToolCall = { id: string; function: { name: string; arguments: string } };
+
+/** One chat-view panel: what the Chat view shows for a stored message, in order. */
+type TranscriptPart =
+	| { kind: "user"; text: string; createdAt: string }
+	| { kind: "assistant"; text: string }
+	| { kind: "reasoning"; text: string }
+	| { kind: "tool"; call: string; output: string | null };
+
+function toolResultsById(messages: StoredMessage[]): Map<string, StoredMessage> {
+	const results = new Map<string, StoredMessage>();
+	for (const m of messages) {
+		const id = m.metadata?.tool_call_id;
+		if (m.role === "tool" && typeof id === "string") results.set(id, m);
+	}
+	return results;
+}
+
+/** Flatten stored messages into the panels the Chat view would render. */
+function transcriptParts(messages: StoredMessage[]): TranscriptPart[] {
+	const results = toolResultsById(messages);
+	const parts: TranscriptPart[] = [];
+
+	for (const m of messages) {
+		if (m.role === "user") {
+			parts.push({ kind: "user", text: m.content, createdAt: m.createdAt });
+		} else if (m.role === "assistant") {
+			const reasoning = (m.metadata?.reasoning as { text?: string; summary?: string }[] | undefined) ?? [];
+			for (const r of reasoning) {
+				const text = r.text ?? r.summary ?? "";
+				if (text.trim()) parts.push({ kind: "reasoning", text });
+			}
+			if (m.content.trim()) parts.push({ kind: "assistant", text: m.content });
+			for (const call of (m.metadata?.tool_calls as ToolCall[] | undefined) ?? []) {
+				const result = results.get(call.id);
+				const formatCall = result?.metadata?.format_call;
+				const hasUiOutput = result?.metadata != null && "ui_output" in result.metadata;
+				parts.push({
+					kind: "tool",
+					call: typeof formatCall === "string" ? formatCall : `**${call.function.name}** ${call.function.arguments}`,
+					output: hasUiOutput ? ((result?.metadata?.ui_output as string | null) ?? null) : (result?.content ?? null),
+				});
+			}
+		}
+	}
+
+	return parts;
+}
+
+function sessionLabel(session: Session): string {
+	return session.title || "Untitled session";
+}
+
+function describeSession(session: Session): string[] {
+	const lines = [`- Session: ${session.id}`];
+	if (session.parentId) lines.push(`- Parent session: ${session.parentId}`);
+	if (session.provider || session.model)
+		lines.push(`- Model: ${[session.provider, session.model].filter(Boolean).join(" / ")}`);
+	lines.push(`- Created: ${session.createdAt}`, `- Updated: ${session.updatedAt}`);
+	return lines;
+}
+
+/** Self-contained Markdown transcript. Subagent sessions follow the main conversation. */
+export function renderSessionMarkdown(bundle: SessionBundle): string {
+	const out: string[] = [];
+
+	for (const [i, { session, messages }] of bundle.sessions.entries()) {
+		out.push(i === 0 ? `# ${sessionLabel(session)}` : `# Subagent: ${sessionLabel(session)}`, "");
+		out.push(...describeSession(session));
+		if (i === 0) out.push(`- Exported: ${bundle.exportedAt}`);
+		out.push("");
+
+		let turn = 0;
+		for (const part of transcriptParts(messages)) {
+			if (part.kind === "user") {
+				turn++;
+				out.push(`## Turn ${turn} — ${part.createdAt}`, "");
+				out.push(...part.text.split("\n").map((line) => `> ${line}`), "");
+			} else if (part.kind === "reasoning") {
+				out.push("<details><summary>Reasoning</summary>", "", part.text, "", "</details>", "");
+			} else if (part.kind === "assistant") {
+				out.push(part.text, "");
+			} else {
+				out.push(part.call, "");
+				if (part.output) out.push(part.output, "");
+			}
+		}
+	}
+
+	return `${out.join("\n").trimEnd()}\n`;
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// The schemes react-markdown keeps in links and images; other URLs are emptied like the UI does
+const SAFE_URL_PROTOCOL = /^(https?|ircs?|mailto|xmpp)$/i;
+
+function safeUrl(url: string): string {
+	const colon = url.indexOf(":");
+	const pathStart = url.search(/[/?#]/);
+	if (colon === -1 || (pathStart !== -1 && pathStart < colon) || SAFE_URL_PROTOCOL.test(url.slice(0, colon))) return url;
+	return "";
+}
+
+/** Markdown rendered like the Chat view: GFM, raw HTML shown as text, unsafe link schemes dropped. */
+function renderMarkdownHtml(text: string): string {
+	const html = Bun.markdown.html(text, { noHtmlBlocks: true, noHtmlSpans: true, autolinks: true });
+	// Text content has its quotes escaped, so these only match attributes the renderer wrote
+	return `<div class="md">${html.replace(/ (href|src)="([^"]*)"/g, (_, attr, url) => ` ${attr}="${safeUrl(url)}"`)}</div>`;
+}
+
+// Colors and panel layout follow the UI theme (packages/ui/src/styles).
+const HTML_STYLE = `
+body { margin: 0; background: #000; color: #e0e0e0; font: 15px/1.5 monospace; }
+main { max-width: 960px; margin: 0 auto; padding: 1em 0; }
+h1, h2 { font-size: 1em; margin: 2em 1em 0.5em; color: #b0c4ff; }
+.meta { margin: 0 1em; color: #666; }
+.panel { margin: 1em 1em 0; padding: 0.5em 1em 0.5em calc(1em - 2px); background: #1a1a1a;
+	white-space: pre-wrap; word-wrap: break-word; border-left: 2px groove transparent; }
+.panel--user { color: #fff; }
+.panel--assistant { border-left-color: #b0c4ff; }
+.panel--reasoning { border-left-color: #b0c4ff; opacity: 0.65; }
+.panel--tool { border-left-color: #4caf50; }
+.panel-status { color: #666; }
+.md { white-space: normal; }
+.md p, .md h1, .md h2, .md h3, .md h4, .md h5, .md h6, .md ul, .md ol, .md pre, .md blockquote, .md table, .md hr { margin: 1em 0; }
+.md > :first-child { margin-top: 0; }
+.md > :last-child { margin-bottom: 0; }
+.md h1, .md h2, .md h3, .md h4, .md h5, .md h6 { color: #fff; font-size: inherit; }
+.md strong, .md th { font-weight: 700; color: #b0c4ff; }
+.md code { color: #a8e6a3; font: inherit; }
+.md pre { white-space: pre-wrap; word-wrap: break-word; }
+.md ul, .md ol { padding-left: 2em; }
+.md li::marker { color: #d4a846; }
+.md a { color: #b0c4ff; }
+.md blockquote { border-left: 2px solid #888; padding-left: 1em; }
+.md hr { border: none; border-top: 1px solid #888; }
+.md table { border-collapse: collapse; max-width: 100%; }
+.md th, .md td { padding: 0.4em 0.8em; text-align: left; border: 1px solid #888; }
+`;
+
+/** Static HTML page laid out like the Chat view. Assistant text, reasoning and tool panels are rendered as Markdown. */
+export function renderSessionHtml(bundle: SessionBundle): string {
+	const body: string[] = [];
+
+	for (const [i, { session, messages }] of bundle.sessions.entries()) {
+		const heading = i === 0 ? sessionLabel(session) : `Subagent: ${sessionLabel(session)}`;
+		body.push(`<h${i === 0 ? 1 : 2}>${escapeHtml(heading)}</h${i === 0 ? 1 : 2}>`);
+		body.push(
+			`<div class="meta">${describeSession(session)
+				.map((l) => escapeHtml(l.slice(2)))
+				.join("<br>")}</div>`,
+		);
+
+		for (const part of transcriptParts(messages)) {
+			if (part.kind === "user") {
+				body.push(
+					`<div class="panel panel--user">${escapeHtml(part.text)}<div class="panel-status">${escapeHtml(part.createdAt)}</div></div>`,
+				);
+			} else if (part.kind === "tool") {
+				const text = part.output ? `${part.call}\n\n${part.output}` : part.call;
+				body.push(`<div class="panel panel--tool">${renderMarkdownHtml(text)}</div>`);
+			} else {
+				body.push(`<div class="panel panel--${part.kind}">${renderMarkdownHtml(part.text)}</div>`);
+			}
+		}
+	}
+
+	const title = escapeHtml(sessionLabel(bundle.sessions[0]?.session as Session));
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title} — Bob AI</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<main>
+${body.join("\n")}
+</main>
+</body>
+</html>
+`;
+}
+
+function exportFileName(session: Session, extension: string): string {
+	const slug = (session.title ?? "")
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, "-")
+		.replace(/^-|-$/g, "")
+		.slice(0, 40);
+	return `bobai-${slug || session.id.slice(0, 8)}.${extension}`;
+}
+
+/** Render a session in the given format. Returns null when the session does not exist. */
+export function exportSession(db: Database, sessionId: string, format: ExportFormat): ExportedFile | null {
+	const bundle = buildSessionBundle(db, sessionId);
+	if (!bundle) return null;
+	const session = bundle.sessions[0]?.session as Session;
+
+	switch (format) {
+		case "json":
+			return {
+				content: `${JSON.stringify(bundle, null, 2)}\n`,
+				contentType: "application/json",
+				fileName: exportFileName(session, "json"),
+			};
+		case "html":
+			return {
+				content: renderSessionHtml(bundle),
+				contentType: "text/html; charset=utf-8",
+				fileName: exportFileName(session, "html"),
+			};
+		case "markdown":
+			return {
+				content: renderSessionMarkdown(bundle),
+				contentType: "text/markdown; charset=utf-8",
+				fileName: exportFileName(session, "md"),
+			};
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateBundle(value: unknown): SessionBundle {
+	if (!isRecord(value) || value.format !== "bobai-session") {
+		throw new Error('Not a Bob AI session export (expected format "bobai-session")');
+	}
+	if (value.version !== 1) {
+		throw new Error(`Unsupported session export version: ${String(value.version)}`);
+	}
+	if (!Array.isArray(value.sessions) || value.sessions.length === 0) {
+		throw new Error("Session export contains no sessions");
+	}
+	for (const entry of value.sessions) {
+		if (
+			!isRecord(entry) ||
+			!isRecord(entry.session) ||
+			typeof entry.session.id !== "string" ||
+			!Array.isArray(entry.messages)
+		) {
+			throw new Error("Session export has a malformed session entry");
+		}
+	}
+	const bundle = value as unknown as SessionBundle;
+	if (bundle.sessions[0]?.session.id !== bundle.rootSessionId) {
+		throw new Error("Session export does not start with its root session");
+	}
+	return bundle;
+}
+
+/**
+ * Import a JSON bundle produced by `exportSession(..., "json")`. Session and
+ * message ids are kept, so task ids and subagent links in the transcript stay
+ * valid; importing a session that already exists is refused. The imported
+ * root session becomes a top-level session even if it was a subagent.
+ */
+export function importSessionBundle(db: Database, value: unknown): Session {
+	const bundle = validateBundle(value);
+	// Check the root first so re-importing the same file names the session the user knows
+	const existing = bundle.sessions
+		.map((s) => s.session.id)
+		.find((id) => db.prepare("SELECT 1 FROM sessions WHERE id = ?").get(id) !== null);
+	if (existing) {
+		throw new Error(`Session ${existing} already exists`);
+	}
+
+	const insertSession = db.prepare(
+		`INSERT INTO sessions (id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, compaction_policy, last_compaction, forked_from, fork_turn, created_at, updated_at)
+		 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+	);
+	const insertMessage = db.prepare(
+		"INSERT INTO messages (id, session_id, role, content, created_at, sort_order, metadata) VALUES (?, ?, ?, ?, ?, ?, ?)",
+	);
+
+	db.transaction(() => {
+		for (const { session, messages } of bundle.sessions) {
+			insertSession.run(
+				session.id,
+				session.title ?? null,
+				session.model ?? null,
+				session.provider ?? null,
+				session.apiFamily ?? null,
+				session.id === bundle.rootSessionId ? null : (session.parentId ?? null),
+				session.promptTokens ?? 0,
+				session.promptChars ?? 0,
+				session.contextLimit ?? null,
+				session.compactionPolicy ?? null,
+				session.lastCompaction ? JSON.stringify(session.lastCompaction) : null,
+				session.forkedFrom ?? null,
+				session.forkTurn ?? null,
+				session.createdAt,
+				session.updatedAt,
+			);
+			for (const m of messages) {
+				insertMessage.run(
+					m.id,
+					session.id,
+					m.role,
+					m.content,
+					m.createdAt,
+					m.sortOrder,
+					m.metadata ? JSON.stringify(m.metadata) : null,
+				);
+			}
+		}
+	})();
+
+	return getSession(db, bundle.rootSessionId) as Session;
+}
@@ -1,4 +1,5 @@
 import type { Database } from "bun:sqlite";
+import type { CompactionSummary } from "../compaction/summarize";
 
 export interface Session {
 	id: string;
@@ -10,7 +11,13 @@ export interface Session {
 	promptTokens: number;
 	promptChars: number;
 	contextLimit: number | null;
+	/** Named compaction policy chosen with `.policy`; null follows the configured default. */
+	compactionPolicy: string | null;
 	lastCompaction: Record<string, unknown> | null;
+	/** Session this one was forked from with `.fork`, if any. Unlike parentId, a fork is a top-level session. */
+	forkedFrom: string | null;
+	/** Number of the original session's turns copied into the fork. */
+	forkTurn: number | null;
 	createdAt: string;
 	updatedAt: string;
 }
@@ -24,7 +31,11 @@ export interface CompactionRecord {
 	charsPerToken: number;
 	target: number;
 	type: string;
+	/** Name of the compaction policy that produced the record. Absent in records written before policies. */
+	policy?: string;
 	elapsedMs: number;
+	/** Present when summarization replaced the evicted span (compaction.summarize). */
+	summary?: CompactionSummary;
 }
 
 export interface StoredMessage {
@@ -47,7 +58,10 @@ type SessionRow = {
 	prompt_tokens: number;
 	prompt_chars: number;
 	context_limit: number | null;
+	compaction_policy: string | null;
 	last_compaction: string | null;
+	forked_from: string | null;
+	fork_turn: number | null;
 	created_at: string;
 	updated_at: string;
 };
@@ -82,7 +96,10 @@ export function createSession(db: Database, options?: { provider?: string; model
 		promptTokens: 0,
 		promptChars: 0,
 		contextLimit: null,
+		compactionPolicy: null,
 		lastCompaction: null,
+		forkedFrom: null,
+		forkTurn: null,
 		createdAt: now,
 		updatedAt: now,
 	};
@@ -122,6 +139,30 @@ export function updateMessageMetadata(db: Database, messageId: string, patch: Re
 	db.prepare("UPDATE messages SET metadata = ? WHERE id = ?").run(JSON.stringify(merged), messageId);
 }
 
+/**
+ * Set or clear the `pinned` flag on a session's tool results, matched by
+ * tool_call_id. Returns the number of results changed.
+ */
+export function setToolResultsPinned(db: Database, sessionId: string, toolCallIds: string[], pinned: boolean): number {
+	const wanted = new Set(toolCallIds);
+	const rows = db
+		.prepare("SELECT id, metadata FROM messages WHERE session_id = ? AND role = 'tool' AND metadata IS NOT NULL")
+		.all(sessionId) as { id: string; metadata: string }[];
+	const update = db.prepare("UPDATE messages SET metadata = ? WHERE id = ?");
+	let changed = 0;
+	db.transaction(() => {
+		for (const row of rows) {
+			const metadata = JSON.parse(row.metadata) as Record<string, unknown>;
+			if (!wanted.has(metadata.tool_call_id as string) || (metadata.pinned === true) === pinned) continue;
+			if (pinned) metadata.pinned = true;
+			else delete metadata.pinned;
+			update.run(JSON.stringify(metadata), row.id);
+			changed++;
+		}
+	})();
+	return changed;
+}
+
 export function getMessages(db: Database, sessionId: string): StoredMessage[] {
 	const rows = db
 		.prepare(
@@ -143,7 +184,7 @@ export function getMessages(db: Database, sessionId: string): StoredMessage[] {
 export function getSession(db: Database, sessionId: string): Session | null {
 	const row = db
 		.prepare(
-			"SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, last_compaction, created_at, updated_at FROM sessions WHERE id = ?",
+			"SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, compaction_policy, last_compaction, forked_from, fork_turn, created_at, updated_at FROM sessions WHERE id = ?",
 		)
 		.get(sessionId) as SessionRow | null;
 
@@ -158,7 +199,10 @@ export function getSession(db: Database, sessionId: string): Session | null {
 		promptTokens: row.prompt_tokens,
 		promptChars: row.prompt_chars,
 		contextLimit: row.context_limit,
+		compactionPolicy: row.compaction_policy,
 		lastCompaction: row.last_compaction ? (JSON.parse(row.last_compaction) as Record<string, unknown>) : null,
+		forkedFrom: row.forked_from,
+		forkTurn: row.fork_turn,
 		createdAt: row.created_at,
 		updatedAt: row.updated_at,
 	};
@@ -183,8 +227,8 @@ export function getRecentPrompts(db: Database, limit: number): string[] {
 
 export function listSessions(db: Database, limit?: number): Session[] {
 	const sql = limit
-		? "SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, last_compaction, created_at, updated_at FROM sessions WHERE parent_id IS NULL ORDER BY updated_at DESC, rowid DESC LIMIT ?"
-		: "SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, last_compaction, created_at, updated_at FROM sessions WHERE parent_id IS NULL ORDER BY updated_at DESC, rowid DESC";
+		? "SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, compaction_policy, last_compaction, forked_from, fork_turn, created_at, updated_at FROM sessions WHERE parent_id IS NULL ORDER BY updated_at DESC, rowid DESC LIMIT ?"
+		: "SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, compaction_policy, last_compaction, forked_from, fork_turn, created_at, updated_at FROM sessions WHERE parent_id IS NULL ORDER BY updated_at DESC, rowid DESC";
 	const rows = (limit ? db.prepare(sql).all(limit) : db.prepare(sql).all()) as SessionRow[];
 
 	return rows.map((r) => ({
@@ -197,7 +241,10 @@ export function listSessions(db: Database, limit?: number): Session[] {
 		promptTokens: r.prompt_tokens,
 		promptChars: r.prompt_chars,
 		contextLimit: r.context_limit,
+		compactionPolicy: r.compaction_policy,
 		lastCompaction: r.last_compaction ? (JSON.parse(r.last_compaction) as Record<string, unknown>) : null,
+		forkedFrom: r.forked_from,
+		forkTurn: r.fork_turn,
 		createdAt: r.created_at,
 		updatedAt: r.updated_at,
 	}));
@@ -260,7 +307,10 @@ export function createSubagentSession(
 		promptTokens: 0,
 		promptChars: 0,
 		contextLimit: null,
+		compactionPolicy: null,
 		lastCompaction: null,
+		forkedFrom: null,
+		forkTurn: null,
 		createdAt: now,
 		updatedAt: now,
 	};
@@ -268,8 +318,8 @@ export function createSubagentSession(
 
 export function listSubagentSessions(db: Database, parentId: string, limit?: number): Session[] {
 	const sql = limit
-		? "SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, last_compaction, created_at, updated_at FROM sessions WHERE parent_id = ? ORDER BY updated_at DESC, rowid DESC LIMIT ?"
-		: "SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, last_compaction, created_at, updated_at FROM sessions WHERE parent_id = ? ORDER BY updated_at DESC, rowid DESC";
+		? "SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, compaction_policy, last_compaction, forked_from, fork_turn, created_at, updated_at FROM sessions WHERE parent_id = ? ORDER BY updated_at DESC, rowid DESC LIMIT ?"
+		: "SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, compaction_policy, last_compaction, forked_from, fork_turn, created_at, updated_at FROM sessions WHERE parent_id = ? ORDER BY updated_at DESC, rowid DESC";
 	const rows = (limit ? db.prepare(sql).all(parentId, limit) : db.prepare(sql).all(parentId)) as SessionRow[];
 
 	return rows.map((r) => ({
@@ -282,7 +332,10 @@ export function listSubagentSessions(db: Database, parentId: string, limit?: num
 		promptTokens: r.prompt_tokens,
 		promptChars: r.prompt_chars,
 		contextLimit: r.context_limit,
+		compactionPolicy: r.compaction_policy,
 		lastCompaction: r.last_compaction ? (JSON.parse(r.last_compaction) as Record<string, unknown>) : null,
+		forkedFrom: r.forked_from,
+		forkTurn: r.fork_turn,
 		createdAt: r.created_at,
 		updatedAt: r.updated_at,
 	}));
@@ -291,7 +344,7 @@ export function listSubagentSessions(db: Database, parentId: string, limit?: num
 export function getMostRecentParentSession(db: Database): Session | null {
 	const row = db
 		.prepare(
-			"SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, last_compaction, created_at, updated_at FROM sessions WHERE parent_id IS NULL ORDER BY updated_at DESC, rowid DESC LIMIT 1",
+			"SELECT id, title, model, provider, api_family, parent_id, prompt_tokens, prompt_chars, context_limit, compaction_policy, last_compaction, forked_from, fork_turn, created_at, updated_at FROM sessions WHERE parent_id IS NULL ORDER BY updated_at DESC, rowid DESC LIMIT 1",
 		)
 		.get() as SessionRow | null;
 
@@ -306,7 +359,10 @@ export function getMostRecentParentSession(db: Database): Session | null {
 		promptTokens: row.prompt_tokens,
 		promptChars: row.prompt_chars,
 		contextLimit: row.context_limit,
+		compactionPolicy: row.compaction_policy,
 		lastCompaction: row.last_compaction ? (JSON.parse(row.last_compaction) as Record<string, unknown>) : null,
+		forkedFrom: row.forked_from,
+		forkTurn: row.fork_turn,
 		createdAt: row.created_at,
 		updatedAt: row.updated_at,
 	};
@@ -322,7 +378,96 @@ export function deleteSession(db: Database, sessionId: string): void {
 		db.prepare("DELETE FROM messages WHERE session_id = ?").run(sessionId);
 		// Delete the target session
 		db.prepare("DELETE FROM sessions WHERE id = ?").run(sessionId);
+		// Delete file checkpoints recorded for the session tree
+		db.prepare("DELETE FROM file_snapshots WHERE root_session_id = ?").run(sessionId);
+	})();
+}
+
+/**
+ * Delete the messages of a session from the given sort_order onward, together
+ * with the subagent sessions (and their descendants) started in that range.
+ */
+export function truncateSessionMessages(db: Database, sessionId: string, fromSortOrder: number): void {
+	const first = db
+		.prepare("SELECT created_at FROM messages WHERE session_id = ? AND sort_order >= ? ORDER BY sort_order LIMIT 1")
+		.get(sessionId, fromSortOrder) as { created_at: string } | null;
+	if (!first) return;
+
+	const children = db
+		.prepare("SELECT id FROM sessions WHERE parent_id = ? AND created_at >= ?")
+		.all(sessionId, first.created_at) as { id: string }[];
+	const removedSessions = children.flatMap((c) => [c.id, ...getDescendantSessionIds(db, c.id)]);
+
+	db.transaction(() => {
+		// Deepest sessions last in the list — delete in reverse so parent_id references stay valid
+		for (const id of [...removedSessions].reverse()) {
+			db.prepare("DELETE FROM messages WHERE session_id = ?").run(id);
+			db.prepare("DELETE FROM sessions WHERE id = ?").run(id);
+		}
+		db.prepare("DELETE FROM messages WHERE session_id = ? AND sort_order >= ?").run(sessionId, fromSortOrder);
+		db.prepare("UPDATE sessions SET updated_at = ? WHERE id = ?").run(new Date().toISOString(), sessionId);
+	})();
+}
+
+/**
+ * Start a new top-level session from the first `turns` user turns of another
+ * session. Messages are copied with new ids; the subagent sessions they link
+ * to stay with the original session.
+ */
+export function forkSession(db: Database, sessionId: string, turns: number): Session | null {
+	const source = getSession(db, sessionId);
+	if (!source) return null;
+
+	// The fork ends right before the prompt of the first turn it leaves out
+	const cut = db
+		.prepare("SELECT sort_order FROM messages WHERE session_id = ? AND role = 'user' ORDER BY sort_order LIMIT 1 OFFSET ?")
+		.get(sessionId, turns) as { sort_order: number } | null;
+	const rows = db
+		.prepare(
+			"SELECT role, content, created_at, sort_order, metadata FROM messages WHERE session_id = ? AND sort_order < ? ORDER BY sort_order",
+		)
+		.all(sessionId, cut?.sort_order ?? Number.MAX_SAFE_INTEGER) as Omit<MessageRow, "id" | "session_id">[];
+
+	const id = crypto.randomUUID();
+	const now = new Date().toISOString();
+	const title = source.title ? `${source.title} (fork)` : null;
+
+	db.transaction(() => {
+		db.prepare(
+			`INSERT INTO sessions (id, title, model, provider, api_family, context_limit, compaction_policy, forked_from, fork_turn, created_at, updated_at)
+			 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+		).run(
+			id,
+			title,
+			source.model,
+			source.provider,
+			source.apiFamily,
+			source.contextLimit,
+			source.compactionPolicy,
+			sessionId,
+			turns,
+			now,
+			now,
+		);
+		const insert = db.prepare(
+			"INSERT INTO messages (id, session_id, role, content, created_at, sort_order, metadata) VALUES (?, ?, ?, ?, ?, ?, ?)",
+		);
+		for (const r of rows) {
+			insert.run(crypto.randomUUID(), id, r.role, r.content, r.created_at, r.sort_order, r.metadata);
+		}
 	})();
+
+	return getSession(db, id);
+}
+
+/** Follow parent_id links up to the top-level session. Returns the id itself for parent sessions. */
+export function getRootSessionId(db: Database, sessionId: string): string {
+	let current = sessionId;
+	for (;;) {
+		const row = db.prepare("SELECT parent_id FROM sessions WHERE id = ?").get(current) as { parent_id: string | null } | null;
+		if (!row?.parent_id) return current;
+		current = row.parent_id;
+	}
 }
 
 export function updateSessionContextLimit(db: Database, sessionId: string, contextLimit: number): void {
@@ -337,6 +482,14 @@ export function clearSessionContextLimit(db: Database, sessionId: string): void
 	db.prepare("UPDATE sessions SET context_limit = NULL, updated_at = ? WHERE id = ?").run(new Date().toISOString(), sessionId);
 }
 
+export function updateSessionCompactionPolicy(db: Database, sessionId: string, policy: string): void {
+	db.prepare("UPDATE sessions SET compaction_policy = ?, updated_at = ? WHERE id = ?").run(
+		policy,
+		new Date().toISOString(),
+		sessionId,
+	);
+}
+
 export function updateSessionCompaction(db: Database, sessionId: string, record: CompactionRecord): void {
 	db.prepare("UPDATE sessions SET last_compaction = ?, updated_at = ? WHERE id = ?").run(
 		JSON.stringify(record),
@@ -361,6 +514,8 @@ export function getDescendantSessionIds(db: Database, parentId: string): string[
 
 export interface AssistantTurnRecord {
 	sessionId: string;
+	/** The provider that served the turn; null for turns recorded before it was stored. */
+	turnProvider: string | null;
 	turnModel: string | null;
 	inputTokensTotal: number | null;
 	outputTokensTotal: number | null;
@@ -380,6 +535,24 @@ export function getAssistantMessagesWithTurnMetrics(db: Database, sessionIds: st
 		)
 		.all(...sessionIds) as { session_id: string; metadata: string }[];
 
+	return toTurnRecords(rows);
+}
+
+/** Turn metrics of every session (subagents included) recorded at or after `since` (ISO timestamp). */
+export function getAssistantMessagesWithTurnMetricsSince(db: Database, since: string): AssistantTurnRecord[] {
+	const rows = db
+		.prepare(
+			`SELECT session_id, metadata FROM messages
+			 WHERE role = 'assistant'
+			   AND metadata IS NOT NULL
+			   AND created_at >= ?`,
+		)
+		.all(since) as { session_id: string; metadata: string }[];
+
+	return toTurnRecords(rows);
+}
+
+function toTurnRecords(rows: { session_id: string; metadata: string }[]): AssistantTurnRecord[] {
 	return rows
 		.map((r) => {
 			const metadata = JSON.parse(r.metadata) as Record<string, unknown>;
@@ -387,6 +560,7 @@ export function getAssistantMessagesWithTurnMetrics(db: Database, sessionIds: st
 			const turnMetrics = metadata.turn_metrics as Record<string, number> | undefined;
 			return {
 				sessionId: r.session_id,
+				turnProvider: typeof metadata.turn_provider === "string" ? metadata.turn_provider : null,
 				turnModel,
 				inputTokensTotal: turnMetrics?.input_tokens_total ?? null,
 				outputTokensTotal: turnMetrics?.output_tokens_total ?? null,
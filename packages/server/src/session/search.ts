@@ -0,0 +1,112 @@
+import type { Database } from "bun:sqlite";
+
+export interface SearchHit {
+	messageId: string;
+	sessionId: string;
+	sessionTitle: string | null;
+	/** Set when the hit is in a subagent session. */
+	parentId: string | null;
+	role: "user" | "assistant" | "tool";
+	/** 1-based user turn of the session the message belongs to; 0 before the first prompt. */
+	turn: number;
+	snippet: string;
+	createdAt: string;
+}
+
+type SearchRow = {
+	id: string;
+	session_id: string;
+	title: string | null;
+	parent_id: string | null;
+	role: string;
+	turn: number;
+	snippet: string;
+	created_at: string;
+};
+
+// Text indexed for a message: its content, plus tool names and arguments from
+// assistant tool_calls metadata. Tool results are role 'tool' messages, so
+// their output is the content.
+const TOOL_CALLS_TEXT = (row: "new" | "messages") =>
+	`(SELECT group_concat(json_extract(value, '$.function.name') || ' ' || json_extract(value, '$.function.arguments'), char(10))
+	  FROM json_each(COALESCE(${row}.metadata, '{}'), '$.tool_calls'))`;
+
+/**
+ * Create the messages_fts index and the triggers that keep it in sync with
+ * the messages table. Existing messages are indexed on first creation.
+ * Idempotent. FTS rows share the rowid of the message they index.
+ */
+export function ensureSearchSchema(db: Database): void {
+	const exists = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'").get();
+
+	db.exec(`CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(content, tool_calls, tokenize = 'unicode61')`);
+	db.exec(`
+		CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages WHEN new.role != 'system' BEGIN
+			INSERT INTO messages_fts (rowid, content, tool_calls) VALUES (new.rowid, new.content, ${TOOL_CALLS_TEXT("new")});
+		END
+	`);
+	db.exec(`
+		CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+			DELETE FROM messages_fts WHERE rowid = old.rowid;
+		END
+	`);
+	db.exec(`
+		CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content, metadata ON messages WHEN new.role != 'system' BEGIN
+			DELETE FROM messages_fts WHERE rowid = old.rowid;
+			INSERT INTO messages_fts (rowid, content, tool_calls) VALUES (new.rowid, new.content, ${TOOL_CALLS_TEXT("new")});
+		END
+	`);
+
+	if (!exists) {
+		db.exec(
+			`INSERT INTO messages_fts (rowid, content, tool_calls)
+			 SELECT rowid, content, ${TOOL_CALLS_TEXT("messages")} FROM messages WHERE role != 'system'`,
+		);
+	}
+}
+
+/**
+ * Turn free text into an FTS5 query: every word must match, the last one as a
+ * prefix so results follow typing. Words are quoted, so punctuation in file
+ * names or code never trips the FTS5 query syntax.
+ */
+export function toFtsQuery(text: string): string | null {
+	const words = text
+		.split(/\s+/)
+		.map((w) => w.replace(/"/g, ""))
+		.filter((w) => /[\p{L}\p{N}]/u.test(w));
+	if (words.length === 0) return null;
+	return words.map((w, i) => `"${w}"${i === words.length - 1 ? "*" : ""}`).join(" ");
+}
+
+/** Messages across all sessions matching `text`, best match first. */
+export function searchMessages(db: Database, text: string, limit: number): SearchHit[] {
+	const query = toFtsQuery(text);
+	if (!query) return [];
+
+	const rows = db
+		.prepare(
+			`SELECT m.id, m.session_id, s.title, s.parent_id, m.role, m.created_at,
+			        snippet(messages_fts, -1, '', '', '…', 16) AS snippet,
+			        (SELECT COUNT(*) FROM messages u
+			         WHERE u.session_id = m.session_id AND u.role = 'user' AND u.sort_order <= m.sort_order) AS turn
+			 FROM messages_fts
+			 JOIN messages m ON m.rowid = messages_fts.rowid
+			 JOIN sessions s ON s.id = m.session_id
+			 WHERE messages_fts MATCH ?
+			 ORDER BY bm25(messages_fts), m.created_at DESC
+			 LIMIT ?`,
+		)
+		.all(query, limit) as SearchRow[];
+
+	return rows.map((r) => ({
+		messageId: r.id,
+		sessionId: r.session_id,
+		sessionTitle: r.title,
+		parentId: r.parent_id,
+		role: r.role as SearchHit["role"],
+		turn: r.turn,
+		snippet: r.snippet.replace(/\s+/g, " ").trim(),
+		createdAt: r.created_at,
+	}));
+}
@@ -0,0 +1,235 @@
+import type { Database } from "bun:sqlite";
+import { computeTurnCostDollars } from "../provider/cost-utils";
+import { getProviderModelConfig, type ProviderModelConfig } from "../provider/models";
+import type { ProviderId } from "../provider/providers";
+
+/** Token and cost totals for a group of turns. */
+export interface UsageTotals {
+	turns: number;
+	inputTokens: number;
+	outputTokens: number;
+	cachedInputTokens: number;
+	cacheCreationInputTokens: number;
+	/** Share of input tokens read from the provider cache (0–1). */
+	cacheHitRatio: number;
+	/** Estimated from catalog prices; models without prices count as free. */
+	costDollars: number;
+}
+
+export interface UsageRow extends UsageTotals {
+	/** Stable group key: the day, provider id, `provider/model` or root session id. */
+	key: string;
+	label: string;
+}
+
+/** Spend and token usage of the project, with subagent turns counted toward their top-level session. */
+export interface UsageReport {
+	/** Start of the reported period (ISO timestamp), or null for all time. */
+	since: string | null;
+	total: UsageTotals;
+	/** Newest day first. */
+	byDay: UsageRow[];
+	/** Most expensive first, then by tokens. */
+	byProvider: UsageRow[];
+	byModel: UsageRow[];
+	bySession: UsageRow[];
+}
+
+type TurnRow = {
+	session_id: string;
+	created_at: string;
+	/** Null for turns recorded before the provider was stored per turn. */
+	provider: string | null;
+	model: string;
+	input: number | null;
+	output: number | null;
+	cached: number | null;
+	cache_creation: number | null;
+};
+
+type SessionRow = { id: string; parent_id: string | null; title: string | null; provider: string | null };
+
+function emptyTotals(): UsageTotals {
+	return {
+		turns: 0,
+		inputTokens: 0,
+		outputTokens: 0,
+		cachedInputTokens: 0,
+		cacheCreationInputTokens: 0,
+		cacheHitRatio: 0,
+		costDollars: 0,
+	};
+}
+
+function localDay(timestamp: string): string {
+	const d = new Date(timestamp);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Start of the local day `days - 1` days ago, so `days = 1` means today. */
+export function usageSinceDays(days: number, now: Date = new Date()): string {
+	const start = new Date(now);
+	start.setHours(0, 0, 0, 0);
+	start.setDate(start.getDate() - (days - 1));
+	return start.toISOString();
+}
+
+/**
+ * Aggregate the turn metrics stored on assistant messages by day, provider,
+ * model and top-level session. Subagent turns are attributed to the session
+ * that started them. Each turn counts toward the provider that served it;
+ * older turns without one fall back to the session's current provider.
+ * Turns recorded before metrics existed count as turns without tokens.
+ */
+export function buildUsageReport(db: Database, options: { since?: string; configDir?: string } = {}): UsageReport {
+	const since = options.since ?? null;
+	const turns = db
+		.prepare(
+			`SELECT session_id, created_at,
+			        json_extract(metadata, '$.turn_provider') AS provider,
+			        json_extract(metadata, '$.turn_model') AS model,
+			        json_extract(metadata, '$.turn_metrics.input_tokens_total') AS input,
+			        json_extract(metadata, '$.turn_metrics.output_tokens_total') AS output,
+			        json_extract(metadata, '$.turn_metrics.cached_input_tokens_total') AS cached,
+			        json_extract(metadata, '$.turn_metrics.cache_creation_input_tokens_total') AS cache_creation
+			 FROM messages
+			 WHERE role = 'assistant'
+			   AND metadata IS NOT NULL
+			   AND json_extract(metadata, '$.turn_model') IS NOT NULL
+			   AND created_at >= ?
+			 ORDER BY created_at`,
+		)
+		.all(since ?? "") as TurnRow[];
+
+	const sessions = new Map(
+		(db.prepare("SELECT id, parent_id, title, provider FROM sessions").all() as SessionRow[]).map((s) => [s.id, s]),
+	);
+	const rootOf = (sessionId: string): SessionRow | undefined => {
+		let session = sessions.get(sessionId);
+		while (session?.parent_id && sessions.has(session.parent_id)) session = sessions.get(session.parent_id);
+		return session;
+	};
+
+	const prices = new Map<string, ProviderModelConfig | undefined>();
+	const priceOf = (providerId: string, model: string): ProviderModelConfig | undefined => {
+		const key = `${providerId}/${model}`;
+		if (!prices.has(key)) {
+			let config: ProviderModelConfig | undefined;
+			try {
+				config = getProviderModelConfig(providerId as ProviderId, model, options.configDir);
+			} catch {
+				// Provider no longer available — its turns count as free
+			}
+			prices.set(key, config?.inputPrice != null && config.outputPrice != null ? config : undefined);
+		}
+		return prices.get(key);
+	};
+
+	const total = emptyTotals();
+	const groups = {
+		byDay: new Map<string, UsageRow>(),
+		byProvider: new Map<string, UsageRow>(),
+		byModel: new Map<string, UsageRow>(),
+		bySession: new Map<string, UsageRow>(),
+	};
+	const rowFor = (group: Map<string, UsageRow>, key: string, label: string): UsageRow => {
+		let row = group.get(key);
+		if (!row) {
+			row = { key, label, ...emptyTotals() };
+			group.set(key, row);
+		}
+		return row;
+	};
+
+	for (const turn of turns) {
+		const providerId = turn.provider ?? sessions.get(turn.session_id)?.provider ?? "unknown";
+		const root = rootOf(turn.session_id);
+		const input = turn.input ?? 0;
+		const output = turn.output ?? 0;
+		const cached = turn.cached ?? 0;
+		const cacheCreation = turn.cache_creation ?? 0;
+		const price = priceOf(providerId, turn.model);
+		const cost = price ? computeTurnCostDollars(input, output, cached, cacheCreation, price) : 0;
+
+		for (const totals of [
+			total,
+			rowFor(groups.byDay, localDay(turn.created_at), localDay(turn.created_at)),
+			rowFor(groups.byProvider, providerId, providerId),
+			rowFor(groups.byModel, `${providerId}/${turn.model}`, `${providerId} / ${turn.model}`),
+			rowFor(groups.bySession, root?.id ?? turn.session_id, root?.title || "(untitled)"),
+		]) {
+			totals.turns++;
+			totals.inputTokens += input;
+			totals.outputTokens += output;
+			totals.cachedInputTokens += cached;
+			totals.cacheCreationInputTokens += cacheCreation;
+			totals.costDollars += cost;
+		}
+	}
+
+	const finish = (rows: UsageRow[]) => {
+		for (const row of rows) row.cacheHitRatio = row.inputTokens > 0 ? row.cachedInputTokens / row.inputTokens : 0;
+		return rows;
+	};
+	const bySpend = (a: UsageRow, b: UsageRow) =>
+		b.costDollars - a.costDollars || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens);
+	total.cacheHitRatio = total.inputTokens > 0 ? total.cachedInputTokens / total.inputTokens : 0;
+
+	return {
+		since,
+		total,
+		byDay: finish([...groups.byDay.values()].sort((a, b) => b.key.localeCompare(a.key))),
+		byProvider: finish([...groups.byProvider.values()].sort(bySpend)),
+		byModel: finish([...groups.byModel.values()].sort(bySpend)),
+		bySession: finish([...groups.bySession.values()].sort(bySpend)),
+	};
+}
+
+function csvField(value: string | number): string {
+	const text = String(value);
+	return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One CSV table with every grouping, distinguished by the `group` column. */
+export function renderUsageCsv(report: UsageReport): string {
+	const header = [
+		"group",
+		"key",
+		"label",
+		"turns",
+		"input_tokens",
+		"output_tokens",
+		"cached_input_tokens",
+		"cache_creation_input_tokens",
+		"cache_hit_ratio",
+		"cost_usd",
+	];
+	const line = (group: string, row: UsageTotals & { key: string; label: string }) =>
+		[
+			group,
+			row.key,
+			row.label,
+			row.turns,
+			row.inputTokens,
+			row.outputTokens,
+			row.cachedInputTokens,
+			row.cacheCreationInputTokens,
+			row.cacheHitRatio.toFixed(4),
+			row.costDollars.toFixed(6),
+		]
+			.map(csvField)
+			.join(",");
+
+	const lines = [header.join(",")];
+	lines.push(line("total", { key: "total", label: "Total", ...report.total }));
+	for (const [group, rows] of [
+		["day", report.byDay],
+		["provider", report.byProvider],
+		["model", report.byModel],
+		["session", report.bySession],
+	] as const) {
+		for (const row of rows) lines.push(line(group, row));
+	}
+	return `${lines.join("\n")}\n`;
+}
@@ -6,6 +6,8 @@ const TOOL_DESCRIPTIONS: Record<string, string> = {
 	list_directory: "List the contents of a directory.",
 	write_file: "Create or overwrite a file. Parent directories are created automatically.",
 	edit_file: "Edit a file by replacing an exact string with new content. The old_string must match exactly one location.",
+	apply_patch:
+		"Apply a unified diff or a list of exact replacements across one or more files, all or nothing. Use for changes to several places or files at once.",
 	grep_search: "Search file contents for a pattern. Returns matching lines with paths and line numbers.",
 	findstr: "Search file contents using findstr (Windows built-in). Returns matching lines with file paths and line numbers.",
 	bash: "Execute a bash script in the project directory. Use for running tests, builds, linters, git, and other shell operations.",
@@ -30,6 +32,7 @@ const PARENT_SHARED_TOOLS = [
 	"list_directory",
 	"write_file",
 	"edit_file",
+	"apply_patch",
 	"sqlite3",
 	"web_fetch",
 	"web_search",
@@ -42,6 +45,7 @@ const SUBAGENT_SHARED_TOOLS = [
 	"list_directory",
 	"write_file",
 	"edit_file",
+	"apply_patch",
 	"sqlite3",
 	"web_fetch",
 	"web_search",
@@ -111,7 +115,7 @@ ${toolList}${subagentNote}
 
 When working with code:${searchGuidance ? `\n${searchGuidance}` : ""}${cwdGuidance ? `\n${cwdGuidance}` : ""}
 - Read files to understand context before making changes.
-- Use edit_file for modifying existing files and write_file for creating new ones.
+- Use edit_file for modifying existing files and write_file for creating new ones. For changes to several places or files at once, use apply_patch.
 - After making changes, run relevant tests or builds to verify correctness.${taskGuidance}
 - Projects often contain context files (AGENT.md, CLAUDE.md, README.md, etc.) that describe conventions, architecture, and workflows. Context files found in the project root directory (AGENT.md, AGENTS.md, CLAUDE.md) are automatically included in this system prompt as <instructions type="project-specific"> blocks — do not re-read them. In monorepos, subdirectories may contain their own context files; read those when working in a specific subdirectory.
 - README.md is not auto-injected. Read it when you need to understand a project's purpose, setup, or structure.
@@ -129,6 +133,8 @@ export interface SystemPromptMetadata {
 	gitBranch?: string;
 	/** Platform identifier, e.g. "linux-x64", "darwin-arm64", "win32-x64-native". */
 	platform?: string;
+	/** How shell commands are sandboxed, when the sandbox is enabled. */
+	sandbox?: string;
 }
 
 export interface SystemPromptDebug {
@@ -144,6 +150,8 @@ export interface SystemPromptOptions {
 	toolNames?: string[];
 	/** Pre-formatted memory index content to inject as a <memories> block. */
 	memories?: string;
+	/** Sections contributed by plugins (`addSystemPromptSection`), one <plugin> block each. */
+	pluginSections?: { plugin: string; content: string }[];
 }
 
 export function buildSystemPrompt(
@@ -156,7 +164,7 @@ export function buildSystemPrompt(
 	];
 
 	if (options?.metadata) {
-		const { date, projectDir, gitBranch, platform } = options.metadata;
+		const { date, projectDir, gitBranch, platform, sandbox } = options.metadata;
 		const lines = [`- Date: ${date}`, `- Project: ${projectDir}`];
 		if (gitBranch !== undefined) {
 			lines.push(`- Branch: ${gitBranch}`);
@@ -164,6 +172,9 @@ export function buildSystemPrompt(
 		if (platform !== undefined) {
 			lines.push(`- Platform: ${platform}`);
 		}
+		if (sandbox !== undefined) {
+			lines.push(`- Sandbox: ${sandbox}`);
+		}
 		parts.push(`<metadata>\n${lines.join("\n")}\n</metadata>`);
 	}
 
@@ -188,5 +199,9 @@ export function buildSystemPrompt(
 		parts.push(`<memories>\n${options.memories}\n</memories>`);
 	}
 
+	for (const section of options?.pluginSections ?? []) {
+		parts.push(`<plugin name="${section.plugin}">\n${section.content}\n</plugin>`);
+	}
+
 	return parts.join("\n\n");
 }
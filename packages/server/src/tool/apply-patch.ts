@@ -0,0 +1,391 @@
+import fs from "node:fs";
+import path from "node:path";
+import { applyPatch, diffLines, parsePatch, type StructuredPatch } from "diff";
+import { COMPACTION_MARKER } from "../compaction/default-strategy";
+import { buildFileDiff, type FileDiff } from "../file/diff";
+import { FileTime } from "../file/time";
+import type { Tool, ToolContext, ToolResult } from "./tool";
+import { escapeMarkdown } from "./tool";
+
+const DEV_NULL = "/dev/null";
+
+/** A validated change to one file, computed in memory before anything is written. */
+interface FileChange {
+	/** Path as given in the call. */
+	path: string;
+	resolved: string;
+	/** Content before the change; null when the file is created. */
+	before: string | null;
+	/** Content after the change; null when the file is deleted. */
+	after: string | null;
+	/** "2 hunks" or "3 edits". */
+	parts: string;
+}
+
+/** The changes when every file validated, otherwise one problem per file that did not. */
+interface Plan {
+	changes: FileChange[];
+	problems: string[];
+}
+
+function errorResult(message: string, call?: string): ToolResult {
+	return { llmOutput: message, uiOutput: call ? `${call} — not applied` : message, mergeable: false, failed: true };
+}
+
+function plural(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/** git diffs name files a/path and b/path. */
+function stripPrefix(fileName: string | undefined, prefix: string): string {
+	const name = (fileName ?? "").trim();
+	return name.startsWith(prefix) ? name.slice(prefix.length) : name;
+}
+
+/** The current content of a file the change starts from, after checking it was read in this session. */
+function readForChange(resolved: string, sessionId: string): string {
+	if (!fs.existsSync(resolved)) throw new Error("file not found");
+	FileTime.assert(sessionId, resolved);
+	return fs.readFileSync(resolved, "utf-8");
+}
+
+function describeHunk(hunk: StructuredPatch["hunks"][number]): string {
+	return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+function planPatch(patchText: string, ctx: ToolContext): Plan {
+	let files: StructuredPatch[];
+	try {
+		files = parsePatch(patchText).filter((file) => file.hunks.length > 0);
+	} catch (err) {
+		return { changes: [], problems: [`the patch could not be parsed: ${(err as Error).message}`] };
+	}
+	if (files.length === 0) return { changes: [], problems: ["the patch contains no hunks"] };
+
+	const changes: FileChange[] = [];
+	const problems: string[] = [];
+	const seen = new Set<string>();
+	for (const file of files) {
+		const oldName = stripPrefix(file.oldFileName, "a/");
+		const newName = stripPrefix(file.newFileName, "b/");
+		const creates = oldName === DEV_NULL;
+		const deletes = newName === DEV_NULL;
+		const filePath = creates ? newName : oldName;
+		if (!filePath) {
+			problems.push("hunks without --- and +++ file headers");
+			continue;
+		}
+		if (!creates && !deletes && oldName !== newName) {
+			problems.push(`${filePath}: renames are not supported (to ${newName}); move the file with a shell command first`);
+			continue;
+		}
+		if (seen.has(filePath)) {
+			problems.push(`${filePath}: appears more than once in the patch; put all of its hunks under one header`);
+			continue;
+		}
+		seen.add(filePath);
+
+		const resolved = path.resolve(ctx.projectRoot, filePath);
+		let before: string | null = null;
+		try {
+			if (creates) {
+				if (fs.existsSync(resolved)) throw new Error("already exists, but the patch creates it (--- /dev/null)");
+			} else {
+				before = readForChange(resolved, ctx.sessionId);
+			}
+		} catch (err) {
+			problems.push(`${filePath}: ${(err as Error).message}`);
+			continue;
+		}
+
+		const patched = applyPatch(before ?? "", file);
+		if (patched === false) {
+			const failing = file.hunks.findIndex((hunk) => applyPatch(before ?? "", { ...file, hunks: [hunk] }) === false);
+			problems.push(
+				failing === -1
+					? `${filePath}: the hunks overlap and do not apply together`
+					: `${filePath}: hunk ${failing + 1} (${describeHunk(file.hunks[failing])}) does not match the file`,
+			);
+			continue;
+		}
+		if (deletes && patched !== "") {
+			problems.push(`${filePath}: the patch deletes the file (+++ /dev/null) but does not remove all of its lines`);
+			continue;
+		}
+		changes.push({
+			path: filePath,
+			resolved,
+			before,
+			after: deletes ? null : patched,
+			parts: plural(file.hunks.length, "hunk"),
+		});
+	}
+	return { changes, problems };
+}
+
+interface Edit {
+	path: string;
+	oldString: string;
+	newString: string;
+	replaceAll: boolean;
+}
+
+function parseEdits(value: unknown[]): { edits: Edit[]; problems: string[] } {
+	const edits: Edit[] = [];
+	const problems: string[] = [];
+	value.forEach((raw, i) => {
+		const edit = (raw ?? {}) as Record<string, unknown>;
+		if (typeof edit.path !== "string" || edit.path.length === 0) {
+			problems.push(`edit ${i + 1}: 'path' is required`);
+		} else if (typeof edit.old_string !== "string" || edit.old_string.length === 0) {
+			problems.push(`edit ${i + 1} (${edit.path}): 'old_string' must be a non-empty string`);
+		} else if (typeof edit.new_string !== "string") {
+			problems.push(`edit ${i + 1} (${edit.path}): 'new_string' must be a string`);
+		} else {
+			edits.push({
+				path: edit.path,
+				oldString: edit.old_string,
+				newString: edit.new_string,
+				replaceAll: edit.replace_all === true,
+			});
+		}
+	});
+	return { edits, problems };
+}
+
+function countOccurrences(content: string, search: string): number {
+	let count = 0;
+	let idx = content.indexOf(search);
+	while (idx !== -1) {
+		count++;
+		idx = content.indexOf(search, idx + search.length);
+	}
+	return count;
+}
+
+function planEdits(rawEdits: unknown[], ctx: ToolContext): Plan {
+	const { edits, problems } = parseEdits(rawEdits);
+	if (problems.length > 0) return { changes: [], problems };
+
+	// Edits to the same file apply in order, each to the result of the previous one
+	const byFile = new Map<string, { edit: Edit; index: number }[]>();
+	edits.forEach((edit, index) => {
+		const resolved = path.resolve(ctx.projectRoot, edit.path);
+		byFile.set(resolved, [...(byFile.get(resolved) ?? []), { edit, index }]);
+	});
+
+	const changes: FileChange[] = [];
+	for (const [resolved, fileEdits] of byFile) {
+		const filePath = fileEdits[0].edit.path;
+		let content: string;
+		try {
+			content = readForChange(resolved, ctx.sessionId);
+		} catch (err) {
+			problems.push(`${filePath}: ${(err as Error).message}`);
+			continue;
+		}
+		const before = content;
+		const fileProblems: string[] = [];
+		for (const { edit, index } of fileEdits) {
+			const count = countOccurrences(content, edit.oldString);
+			if (count === 0) {
+				fileProblems.push(`${filePath}: edit ${index + 1}: old_string not found`);
+			} else if (count > 1 && !edit.replaceAll) {
+				fileProblems.push(
+					`${filePath}: edit ${index + 1}: old_string found ${count} times; include more context or set replace_all`,
+				);
+			} else {
+				content = edit.replaceAll
+					? content.split(edit.oldString).join(edit.newString)
+					: content.replace(edit.oldString, () => edit.newString);
+			}
+		}
+		if (fileProblems.length > 0) {
+			problems.push(...fileProblems);
+			continue;
+		}
+		changes.push({ path: filePath, resolved, before, after: content, parts: plural(fileEdits.length, "edit") });
+	}
+	return { changes, problems };
+}
+
+/** Write every change, or restore the files already written and rethrow when one write fails. */
+function writeAll(changes: FileChange[], ctx: ToolContext): void {
+	const written: FileChange[] = [];
+	try {
+		for (const change of changes) {
+			ctx.snapshotFile?.(change.resolved);
+			if (change.after === null) {
+				fs.rmSync(change.resolved);
+			} else {
+				fs.mkdirSync(path.dirname(change.resolved), { recursive: true });
+				fs.writeFileSync(change.resolved, change.after, "utf-8");
+			}
+			written.push(change);
+		}
+	} catch (err) {
+		for (const change of written.reverse()) {
+			if (change.before === null) fs.rmSync(change.resolved, { force: true });
+			else fs.writeFileSync(change.resolved, change.before, "utf-8");
+		}
+		throw err;
+	}
+}
+
+/** "src/a.ts (2 hunks), src/b.ts (1 hunk)" — what a patch touches, for the call line and compacted arguments. */
+function summarizePatch(patchText: string): string {
+	try {
+		return parsePatch(patchText)
+			.filter((file) => file.hunks.length > 0)
+			.map((file) => {
+				const oldName = stripPrefix(file.oldFileName, "a/");
+				const name = oldName === DEV_NULL ? stripPrefix(file.newFileName, "b/") : oldName;
+				return `${name || "?"} (${plural(file.hunks.length, "hunk")})`;
+			})
+			.join(", ");
+	} catch {
+		return "";
+	}
+}
+
+/** Every file a call would change, as named in its patch headers or edits; the permission policy checks each one. */
+export function patchedPaths(args: Record<string, unknown>): string[] {
+	const paths = new Set<string>();
+	if (typeof args.patch === "string") {
+		try {
+			for (const file of parsePatch(args.patch)) {
+				if (file.hunks.length === 0) continue;
+				for (const name of [stripPrefix(file.oldFileName, "a/"), stripPrefix(file.newFileName, "b/")]) {
+					if (name && name !== DEV_NULL) paths.add(name);
+				}
+			}
+		} catch {
+			// The tool reports the parse error; there is no file to check
+		}
+	}
+	if (Array.isArray(args.edits)) {
+		for (const edit of args.edits) {
+			const filePath = (edit as Record<string, unknown> | null)?.path;
+			if (typeof filePath === "string" && filePath.trim()) paths.add(filePath.trim());
+		}
+	}
+	return [...paths];
+}
+
+function formatEdit(edit: Record<string, unknown>): string {
+	const filePath = typeof edit.path === "string" ? edit.path : "?";
+	const oldString = typeof edit.old_string === "string" ? edit.old_string : "";
+	const newString = typeof edit.new_string === "string" ? edit.new_string : "";
+	const lines: string[] = [];
+	for (const change of diffLines(oldString, newString)) {
+		const prefix = change.added ? "+" : change.removed ? "-" : " ";
+		for (const line of change.value.replace(/\n$/, "").split("\n")) lines.push(`${prefix} ${line}`);
+	}
+	return `${escapeMarkdown(filePath)}\n\n\`\`\`diff\n${lines.join("\n")}\n\`\`\``;
+}
+
+export const applyPatchTool: Tool = {
+	definition: {
+		type: "function",
+		function: {
+			name: "apply_patch",
+			description:
+				"Change several places in one or more files in a single call, all or nothing: every change is checked first, and if any does not apply, no file is touched. Pass either `patch`, a unified diff (git diff format; `--- /dev/null` creates a file, `+++ /dev/null` deletes one), or `edits`, a list of exact string replacements applied in order. Existing files must have been read first. Use edit_file for a single replacement.",
+			parameters: {
+				type: "object",
+				properties: {
+					patch: {
+						type: "string",
+						description: "Unified diff with ---/+++ headers per file and @@ hunks with a few lines of context",
+					},
+					edits: {
+						type: "array",
+						description: "Exact string replacements, as with edit_file",
+						items: {
+							type: "object",
+							properties: {
+								path: { type: "string", description: "Relative path to the file from the project root" },
+								old_string: { type: "string", description: "The exact string to replace" },
+								new_string: { type: "string", description: "The replacement" },
+								replace_all: {
+									type: "boolean",
+									description: "Replace every occurrence instead of requiring exactly one",
+								},
+							},
+							required: ["path", "old_string", "new_string"],
+						},
+					},
+				},
+			},
+		},
+	},
+
+	mergeable: false,
+
+	baseDistance: 150,
+
+	argsThreshold: 0.35,
+
+	compactArgs(args: Record<string, unknown>): Record<string, unknown> {
+		const result = { ...args };
+		if (typeof result.patch === "string") result.patch = `${COMPACTION_MARKER} patch to ${summarizePatch(result.patch)}`;
+		if (Array.isArray(result.edits)) {
+			result.edits = result.edits.map((edit) => ({
+				path: (edit as Record<string, unknown> | null)?.path,
+				old_string: COMPACTION_MARKER,
+				new_string: COMPACTION_MARKER,
+			}));
+		}
+		return result;
+	},
+
+	formatCall(args: Record<string, unknown>): string {
+		if (typeof args.patch === "string") {
+			return `▸ Patching ${escapeMarkdown(summarizePatch(args.patch) || "?")}\n\n\`\`\`diff\n${args.patch.replace(/\n$/, "")}\n\`\`\``;
+		}
+		const edits = Array.isArray(args.edits) ? (args.edits as Record<string, unknown>[]) : [];
+		return [`▸ Applying ${plural(edits.length, "edit")}`, ...edits.map((edit) => formatEdit(edit ?? {}))].join("\n\n");
+	},
+
+	async execute(args: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
+		const hasPatch = typeof args.patch === "string" && args.patch.trim().length > 0;
+		const hasEdits = Array.isArray(args.edits) && args.edits.length > 0;
+		if (hasPatch === hasEdits) {
+			return errorResult("Error: pass exactly one of 'patch' (a unified diff) or 'edits' (a non-empty list)");
+		}
+		const call = (applyPatchTool.formatCall(args).split("\n")[0] ?? "").trimEnd();
+
+		const { changes, problems } = hasPatch ? planPatch(args.patch as string, ctx) : planEdits(args.edits as unknown[], ctx);
+		if (problems.length > 0) {
+			return errorResult(
+				`Error: no files were changed. Fix these problems and send the whole change again:\n${problems.map((p) => `- ${p}`).join("\n")}`,
+				call,
+			);
+		}
+
+		try {
+			writeAll(changes, ctx);
+		} catch (err) {
+			return errorResult(`Error writing files: ${(err as Error).message}. No files were changed.`, call);
+		}
+		for (const change of changes) FileTime.read(ctx.sessionId, change.resolved);
+
+		let totalAdded = 0;
+		let totalRemoved = 0;
+		const diffs = changes.map((change) => buildFileDiff(change.path, change.before, change.after));
+		const lines = changes.map((change, i) => {
+			const { added, removed, status } = diffs[i] as FileDiff;
+			totalAdded += added;
+			totalRemoved += removed;
+			const action = status === "modified" ? "" : `${status}, `;
+			return `- ${change.path}: ${action}${change.parts}, +${added} -${removed}`;
+		});
+		return {
+			llmOutput: `Changed ${plural(changes.length, "file")}:\n${lines.join("\n")}`,
+			uiOutput: null,
+			summary: `${plural(changes.length, "file")} | +${totalAdded} -${totalRemoved}`,
+			mergeable: false,
+			metadata: { diff: diffs },
+		};
+	},
+};
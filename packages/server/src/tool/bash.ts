@@ -1,132 +1,179 @@
 import { stripANSI } from "bun";
 import { COMPACTION_MARKER } from "../compaction/default-strategy";
+import type { Sandbox } from "../platform/sandbox";
+import { signalProcessGroup } from "../process/group";
 import type { Tool, ToolContext, ToolResult } from "./tool";
 
 const DEFAULT_TIMEOUT_MS = 30_000;
 const MAX_OUTPUT_BYTES = 32_000;
 
-export const bashTool: Tool = {
-	definition: {
-		type: "function",
-		function: {
-			name: "bash",
-			description:
-				"Execute a bash script in the project directory. Returns stdout, stderr, and exit code. The command is executed as a script — use multiple lines freely instead of long && chains. For readability, split long commands with line continuations (\\) or separate lines.",
-			parameters: {
-				type: "object",
-				properties: {
-					command: {
-						type: "string",
-						description: "The bash script to execute. Can be multiline — prefer separate lines over long && chains.",
-					},
-					timeout: {
-						type: "number",
-						description: `Timeout in milliseconds. Defaults to ${DEFAULT_TIMEOUT_MS}.`,
+/**
+ * The bash tool. With a sandbox, every command runs inside it; a sandbox that
+ * is unavailable makes every command fail instead of running unconfined.
+ */
+export function createBashTool(sandbox?: Sandbox): Tool {
+	return {
+		definition: {
+			type: "function",
+			function: {
+				name: "bash",
+				description:
+					"Execute a bash script in the project directory. Returns stdout, stderr, and exit code. The command is executed as a script — use multiple lines freely instead of long && chains. For readability, split long commands with line continuations (\\) or separate lines.",
+				parameters: {
+					type: "object",
+					properties: {
+						command: {
+							type: "string",
+							description: "The bash script to execute. Can be multiline — prefer separate lines over long && chains.",
+						},
+						timeout: {
+							type: "number",
+							description: `Timeout in milliseconds. Defaults to ${DEFAULT_TIMEOUT_MS}.`,
+						},
 					},
+					required: ["command"],
 				},
-				required: ["command"],
 			},
 		},
-	},
-
-	mergeable: false,
-
-	baseDistance: 150,
-
-	outputThreshold: 0.4,
-
-	compact(output: string, callArgs: Record<string, unknown>): string {
-		const command = typeof callArgs.command === "string" ? callArgs.command : "?";
-		if (output.startsWith("Error")) return output;
-		const lines = output.split("\n");
-		const total = lines.length;
-		if (total <= 10) return output;
-		const tail = lines.slice(-10).join("\n");
-		const removed = total - 10;
-		return `${COMPACTION_MARKER} ${removed} lines from bash(${JSON.stringify({ command })}) omitted\n${tail}`;
-	},
-
-	formatCall(args: Record<string, unknown>): string {
-		const command = typeof args.command === "string" ? args.command : "?";
-		return formatScript(command);
-	},
-
-	async execute(args: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
-		const command = args.command;
-		if (typeof command !== "string" || command.length === 0) {
-			return {
-				llmOutput: "Error: 'command' argument is required and must be a non-empty string",
-				uiOutput: "Error: 'command' argument is required and must be a non-empty string",
-				mergeable: false,
-			};
-		}
 
-		const timeoutMs = typeof args.timeout === "number" && args.timeout > 0 ? args.timeout : DEFAULT_TIMEOUT_MS;
-		const startTime = performance.now();
+		mergeable: false,
+
+		baseDistance: 150,
 
-		try {
-			const proc = Bun.spawn(["/bin/bash", "-c", command], {
-				cwd: ctx.projectRoot,
-				stdout: "pipe",
-				stderr: "pipe",
-			});
+		outputThreshold: 0.4,
+
+		compact(output: string, callArgs: Record<string, unknown>): string {
+			const command = typeof callArgs.command === "string" ? callArgs.command : "?";
+			if (output.startsWith("Error")) return output;
+			const lines = output.split("\n");
+			const total = lines.length;
+			if (total <= 10) return output;
+			const tail = lines.slice(-10).join("\n");
+			const removed = total - 10;
+			return `${COMPACTION_MARKER} ${removed} lines from bash(${JSON.stringify({ command })}) omitted\n${tail}`;
+		},
 
-			let timerId: ReturnType<typeof setTimeout> | undefined;
-			const timeoutPromise = new Promise<"timeout">((resolve) => {
-				timerId = setTimeout(() => resolve("timeout"), timeoutMs);
-			});
-			const exitPromise = proc.exited;
+		formatCall(args: Record<string, unknown>): string {
+			const command = typeof args.command === "string" ? args.command : "?";
+			return formatScript(command);
+		},
 
-			const result = await Promise.race([exitPromise.then((code) => ({ kind: "done" as const, code })), timeoutPromise]);
+		async execute(args: Record<string, unknown>, ctx: ToolContext): Promise<ToolResult> {
+			const command = args.command;
+			if (typeof command !== "string" || command.length === 0) {
+				return {
+					llmOutput: "Error: 'command' argument is required and must be a non-empty string",
+					uiOutput: "Error: 'command' argument is required and must be a non-empty string",
+					mergeable: false,
+					failed: true,
+				};
+			}
+
+			const timeoutMs = typeof args.timeout === "number" && args.timeout > 0 ? args.timeout : DEFAULT_TIMEOUT_MS;
+			const startTime = performance.now();
+
+			try {
+				// detached: bash leads its own process group, so a timeout or .stop kills everything it started
+				const argv = ["/bin/bash", "-c", command];
+				const proc = Bun.spawn(sandbox ? sandbox.wrap(argv, ctx.projectRoot) : argv, {
+					cwd: ctx.projectRoot,
+					stdout: "pipe",
+					stderr: "pipe",
+					detached: true,
+				});
+				const stdout = collectOutput(proc.stdout, ctx.onOutput);
+				const stderr = collectOutput(proc.stderr, ctx.onOutput);
+
+				let timerId: ReturnType<typeof setTimeout> | undefined;
+				const timeoutPromise = new Promise<"timeout">((resolve) => {
+					timerId = setTimeout(() => resolve("timeout"), timeoutMs);
+				});
+				let onAbort: (() => void) | undefined;
+				const abortPromise = new Promise<"aborted">((resolve) => {
+					if (!ctx.signal) return;
+					onAbort = () => resolve("aborted");
+					if (ctx.signal.aborted) onAbort();
+					else ctx.signal.addEventListener("abort", onAbort, { once: true });
+				});
+				const exitPromise = proc.exited;
+
+				const result = await Promise.race([
+					exitPromise.then((code) => ({ kind: "done" as const, code })),
+					timeoutPromise,
+					abortPromise,
+				]);
+				if (timerId !== undefined) clearTimeout(timerId);
+				if (onAbort) ctx.signal?.removeEventListener("abort", onAbort);
+
+				if (result === "timeout" || result === "aborted") {
+					signalProcessGroup(proc);
+					const elapsed = (performance.now() - startTime) / 1000;
+					const output = truncate(`${await stdout.partial(2000)}${await stderr.partial(2000)}`.trim());
+					const status = result === "timeout" ? `Command timed out after ${timeoutMs}ms` : "Command aborted";
+					const llm = output.length > 0 ? `${output}\n\n${status}` : status;
+					return {
+						llmOutput: llm,
+						uiOutput: formatBashOutput(command, output || "(no output)"),
+						summary: formatSummary(result === "timeout" ? "timed out" : "aborted", elapsed),
+						mergeable: false,
+					};
+				}
 
-			if (result === "timeout") {
-				proc.kill();
 				const elapsed = (performance.now() - startTime) / 1000;
-				const partialRead = async (stream: ReadableStream<Uint8Array>) => {
-					const text = await Promise.race([
-						new Response(stream).text(),
-						new Promise<string>((r) => setTimeout(() => r(""), 2000)),
-					]);
-					return stripANSI(text);
+				const combined = `${await stdout.text()}${await stderr.text()}`.trim();
+				const truncated = truncate(combined);
+				const displayOutput = truncated || "(no output)";
+				const llmOutput = truncated ? `${truncated}\n\nexit code: ${result.code}` : `(no output)\n\nexit code: ${result.code}`;
+
+				return {
+					llmOutput,
+					uiOutput: formatBashOutput(command, displayOutput),
+					summary: formatSummary(`exit code: ${result.code}`, elapsed),
+					mergeable: false,
 				};
-				const stdout = await partialRead(proc.stdout);
-				const stderr = await partialRead(proc.stderr);
-				const output = truncate(`${stdout}${stderr}`.trim());
-				const status = `Command timed out after ${timeoutMs}ms`;
-				const llm = output.length > 0 ? `${output}\n\n${status}` : status;
+			} catch (err) {
+				const msg = (err as Error).message;
 				return {
-					llmOutput: llm,
-					uiOutput: formatBashOutput(command, output || "(no output)"),
-					summary: formatSummary("timed out", elapsed),
+					llmOutput: `Error executing command: ${msg}`,
+					uiOutput: formatBashOutput(command, `Error: ${msg}`),
 					mergeable: false,
+					failed: true,
 				};
 			}
+		},
+	};
+}
 
-			if (timerId !== undefined) clearTimeout(timerId);
-			const elapsed = (performance.now() - startTime) / 1000;
-			const stdout = stripANSI(await new Response(proc.stdout).text());
-			const stderr = stripANSI(await new Response(proc.stderr).text());
-			const combined = `${stdout}${stderr}`.trim();
-			const truncated = truncate(combined);
-			const displayOutput = truncated || "(no output)";
-			const llmOutput = truncated ? `${truncated}\n\nexit code: ${result.code}` : `(no output)\n\nexit code: ${result.code}`;
-
-			return {
-				llmOutput,
-				uiOutput: formatBashOutput(command, displayOutput),
-				summary: formatSummary(`exit code: ${result.code}`, elapsed),
-				mergeable: false,
-			};
-		} catch (err) {
-			const msg = (err as Error).message;
-			return {
-				llmOutput: `Error executing command: ${msg}`,
-				uiOutput: formatBashOutput(command, `Error: ${msg}`),
-				mergeable: false,
-			};
+export const bashTool = createBashTool();
+
+/**
+ * Read a process stream to its end, handing each chunk to `onChunk` as it
+ * arrives (ANSI codes removed) so the UI can show output while the command runs.
+ */
+function collectOutput(stream: ReadableStream<Uint8Array>, onChunk?: (text: string) => void) {
+	let text = "";
+	const done = (async () => {
+		const decoder = new TextDecoder();
+		for await (const chunk of stream) {
+			const decoded = decoder.decode(chunk, { stream: true });
+			text += decoded;
+			if (decoded) onChunk?.(stripANSI(decoded));
 		}
-	},
-};
+		text += decoder.decode();
+	})().catch(() => {});
+	return {
+		/** The whole stream once it has ended. */
+		async text(): Promise<string> {
+			await done;
+			return stripANSI(text);
+		},
+		/** What has arrived so far, waiting at most `ms` for the stream to end. */
+		async partial(ms: number): Promise<string> {
+			await Promise.race([done, Bun.sleep(ms)]);
+			return stripANSI(text);
+		},
+	};
+}
 
 /** Truncate output keeping the tail (most recent/relevant output). */
 function truncate(text: string): string {
@@ -59,6 +59,7 @@ export const browserCloseTabTool: Tool = {
 				llmOutput: msg,
 				uiOutput: msg,
 				mergeable: false,
+				failed: true,
 			};
 		}
 	},
@@ -52,6 +52,7 @@ export const browserConnectTool: Tool = {
 				llmOutput: "Error: endpoint is required (e.g. 'localhost:9222')",
 				uiOutput: "Error: endpoint is required",
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -80,6 +81,7 @@ export const browserConnectTool: Tool = {
 				llmOutput: msg,
 				uiOutput: msg,
 				mergeable: false,
+				failed: true,
 			};
 		}
 	},
@@ -105,6 +105,7 @@ export const browserEvaluateTool: Tool = {
 				llmOutput: "Error: expression is required",
 				uiOutput: "Error: expression is required",
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -161,6 +162,7 @@ export const browserEvaluateTool: Tool = {
 				llmOutput: msg,
 				uiOutput: msg,
 				mergeable: false,
+				failed: true,
 			};
 		}
 	},
@@ -117,6 +117,7 @@ export const browserExportSessionTool: Tool = {
 				llmOutput: msg,
 				uiOutput: msg,
 				mergeable: false,
+				failed: true,
 			};
 		}
 	},
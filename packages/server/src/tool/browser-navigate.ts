@@ -68,6 +68,7 @@ export const browserNavigateTool: Tool = {
 				llmOutput: "Error: URL must start with http:// or https://",
 				uiOutput: "Error: URL must start with http:// or https://",
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -99,6 +100,7 @@ export const browserNavigateTool: Tool = {
 				llmOutput: msg,
 				uiOutput: msg,
 				mergeable: false,
+				failed: true,
 			};
 		}
 	},
@@ -57,6 +57,7 @@ export const cmdTool: Tool = {
 				llmOutput: "Error: 'command' argument is required and must be a non-empty string",
 				uiOutput: "Error: 'command' argument is required and must be a non-empty string",
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -117,6 +118,7 @@ export const cmdTool: Tool = {
 				llmOutput: `Error executing command: ${msg}`,
 				uiOutput: formatOutput(command, `Error: ${msg}`),
 				mergeable: false,
+				failed: true,
 			};
 		}
 	},
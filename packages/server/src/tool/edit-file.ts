@@ -2,6 +2,7 @@ import fs from "node:fs";
 import path from "node:path";
 import { diffLines } from "diff";
 import { COMPACTION_MARKER } from "../compaction/default-strategy";
+import { buildFileDiff } from "../file/diff";
 import { FileTime } from "../file/time";
 import type { Tool, ToolContext, ToolResult } from "./tool";
 import { escapeMarkdown } from "./tool";
@@ -83,6 +84,7 @@ export const editFileTool: Tool = {
 				uiOutput: "Error: 'path' argument is required and must be a non-empty string",
 
 				mergeable: false,
+				failed: true,
 			};
 		}
 		const oldString = args.old_string;
@@ -92,6 +94,7 @@ export const editFileTool: Tool = {
 				uiOutput: "Error: 'old_string' argument is required and must be a non-empty string",
 
 				mergeable: false,
+				failed: true,
 			};
 		}
 		const newString = args.new_string;
@@ -101,6 +104,7 @@ export const editFileTool: Tool = {
 				uiOutput: "Error: 'new_string' argument is required and must be a string",
 
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -113,6 +117,7 @@ export const editFileTool: Tool = {
 				llmOutput: `Error: ${(err as Error).message}`,
 				uiOutput: `▸ Editing ${escapeMarkdown(filePath)} — stale read`,
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -127,6 +132,7 @@ export const editFileTool: Tool = {
 					uiOutput: `▸ Editing ${escapeMarkdown(filePath)} — file not found`,
 
 					mergeable: false,
+					failed: true,
 				};
 			}
 			return {
@@ -134,6 +140,7 @@ export const editFileTool: Tool = {
 				uiOutput: `▸ Editing ${escapeMarkdown(filePath)} — error: ${(err as Error).message}`,
 
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -151,6 +158,7 @@ export const editFileTool: Tool = {
 				uiOutput: `▸ Editing ${escapeMarkdown(filePath)} — old_string not found`,
 
 				mergeable: false,
+				failed: true,
 			};
 		}
 		if (count > 1) {
@@ -159,11 +167,13 @@ export const editFileTool: Tool = {
 				uiOutput: `▸ Editing ${escapeMarkdown(filePath)} — multiple matches`,
 
 				mergeable: false,
+				failed: true,
 			};
 		}
 
 		// Perform the replacement
 		const newContent = content.replace(oldString, () => newString);
+		ctx.snapshotFile?.(resolved);
 		fs.writeFileSync(resolved, newContent, "utf-8");
 		FileTime.read(ctx.sessionId, resolved);
 
@@ -183,6 +193,11 @@ export const editFileTool: Tool = {
 		const ctxEnd = Math.min(lines.length, editLine + newString.split("\n").length + 3);
 		const contextLines = lines.slice(ctxStart, ctxEnd).map((l, i) => `${ctxStart + i + 1}: ${l}`);
 
-		return { llmOutput: `Edited ${filePath}:\n${contextLines.join("\n")}`, uiOutput: null, mergeable: false };
+		return {
+			llmOutput: `Edited ${filePath}:\n${contextLines.join("\n")}`,
+			uiOutput: null,
+			mergeable: false,
+			metadata: { diff: [buildFileDiff(filePath, content, newContent)] },
+		};
 	},
 };
@@ -63,6 +63,7 @@ export const fileSearchTool: Tool = {
 				llmOutput: "Error: 'pattern' argument is required and must be a non-empty string",
 				uiOutput: "Error: 'pattern' argument is required and must be a non-empty string",
 				mergeable: true,
+				failed: true,
 			};
 		}
 
@@ -77,6 +78,7 @@ export const fileSearchTool: Tool = {
 					llmOutput: `Error: '${dirPath}' is not a directory`,
 					uiOutput: `▸ Searching ${escapeMarkdown(pattern)} in ${escapeMarkdown(dirPath)} — not a directory`,
 					mergeable: true,
+					failed: true,
 				};
 			}
 		} catch (err) {
@@ -86,12 +88,14 @@ export const fileSearchTool: Tool = {
 					llmOutput: `Error: directory not found: ${dirPath}`,
 					uiOutput: `▸ Searching ${escapeMarkdown(pattern)} in ${escapeMarkdown(dirPath)} — directory not found`,
 					mergeable: true,
+					failed: true,
 				};
 			}
 			return {
 				llmOutput: `Error: ${(err as Error).message}`,
 				uiOutput: `▸ Searching ${escapeMarkdown(pattern)} in ${escapeMarkdown(dirPath)} — error: ${(err as Error).message}`,
 				mergeable: true,
+				failed: true,
 			};
 		}
 
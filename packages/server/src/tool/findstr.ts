@@ -68,6 +68,7 @@ export const findstrTool: Tool = {
 				llmOutput: "Error: 'pattern' argument is required and must be a non-empty string",
 				uiOutput: "Error: 'pattern' argument is required and must be a non-empty string",
 				mergeable: true,
+				failed: true,
 			};
 		}
 
@@ -137,6 +138,7 @@ export const findstrTool: Tool = {
 					llmOutput: `Error running findstr: ${brief}`,
 					uiOutput: `▸ Searching ${escapeMarkdown(pattern)} in ${escapeMarkdown(searchPath)} (error: ${escapeMarkdown(brief)})`,
 					mergeable: true,
+					failed: true,
 				};
 			}
 
@@ -186,6 +188,7 @@ export const findstrTool: Tool = {
 				llmOutput: `Error running search: ${msg}`,
 				uiOutput: `▸ Searching ${escapeMarkdown(pattern)} in ${escapeMarkdown(searchPath)} (error: ${escapeMarkdown(msg)})`,
 				mergeable: true,
+				failed: true,
 			};
 		}
 	},
@@ -69,6 +69,7 @@ export const grepSearchTool: Tool = {
 				uiOutput: "Error: 'pattern' argument is required and must be a non-empty string",
 
 				mergeable: true,
+				failed: true,
 			};
 		}
 
@@ -125,6 +126,7 @@ export const grepSearchTool: Tool = {
 					uiOutput: `▸ Searching ${escapeMarkdown(pattern)} in ${escapeMarkdown(searchPath)} (error: ${escapeMarkdown(brief)})`,
 
 					mergeable: true,
+					failed: true,
 				};
 			}
 
@@ -173,6 +175,7 @@ export const grepSearchTool: Tool = {
 				uiOutput: `▸ Searching ${escapeMarkdown(pattern)} in ${escapeMarkdown(searchPath)} (error: ${escapeMarkdown(msg)})`,
 
 				mergeable: true,
+				failed: true,
 			};
 		}
 	},
@@ -66,6 +66,7 @@ export const listDirectoryTool: Tool = {
 					uiOutput: `▸ Listing ${escapeMarkdown(dirPath)} — not found`,
 
 					mergeable: true,
+					failed: true,
 				};
 			}
 			if (code === "ENOTDIR") {
@@ -74,6 +75,7 @@ export const listDirectoryTool: Tool = {
 					uiOutput: `▸ Listing ${escapeMarkdown(dirPath)} — not a directory`,
 
 					mergeable: true,
+					failed: true,
 				};
 			}
 			return {
@@ -81,6 +83,7 @@ export const listDirectoryTool: Tool = {
 				uiOutput: `▸ Listing ${escapeMarkdown(dirPath)} — error: ${(err as Error).message}`,
 
 				mergeable: true,
+				failed: true,
 			};
 		}
 	},
@@ -4,14 +4,20 @@ import {
 	createMemory,
 	deleteMemory,
 	findMemoryByTitle,
-	getMemory,
 	isMemoryType,
-	listMemories,
-	type Memory,
 	type MemoryType,
 	searchMemories,
 	updateMemory,
 } from "../memory/repository";
+import {
+	getScopedMemory,
+	isMemoryScope,
+	listAllScopedMemories,
+	type MemoryScope,
+	memoryStore,
+	promoteMemory,
+	type ScopedMemory,
+} from "../memory/scope";
 import type { Tool, ToolContext, ToolResult } from "./tool";
 
 /** Base distance for memory tool compaction factor calculation. */
@@ -22,10 +28,12 @@ const MAX_LIST_RESULTS = 50;
 /** Max entries returned by `search`. */
 const MAX_SEARCH_RESULTS = 20;
 
-const WRITE_COMMANDS = ["save", "update", "delete"] as const;
+const WRITE_COMMANDS = ["save", "update", "delete", "promote"] as const;
 const READ_COMMANDS = ["list", "search", "get"] as const;
 type Command = (typeof READ_COMMANDS)[number] | (typeof WRITE_COMMANDS)[number];
 
+const GLOBAL_UNAVAILABLE_ERROR = "Error: the global memory store is not available.";
+
 const READ_ONLY_ERROR =
 	"Error: memories are read-only in subagent context. If you discovered something worth remembering, " +
 	"report it in your final response so the main agent can decide whether to save it.";
@@ -33,25 +41,31 @@ const READ_ONLY_ERROR =
 export interface MemoryToolOptions {
 	/** When true, only read commands are exposed and writes are rejected. */
 	readOnly?: boolean;
+	/**
+	 * Cross-project store (see memory/scope.ts). When set, the tool gains a
+	 * `scope` parameter and the `promote` command.
+	 */
+	globalDb?: Database;
 }
 
 function errorResult(message: string): ToolResult {
-	return { llmOutput: message, uiOutput: message, mergeable: true };
+	return { llmOutput: message, uiOutput: message, mergeable: true, failed: true };
 }
 
-function formatEntry(memory: Memory): string {
+function formatEntry(memory: ScopedMemory): string {
 	const summary = memorySummary(memory);
 	const desc = summary ? ` — ${summary}` : "";
-	return `- \`${memory.id}\` [${memory.type}] ${memory.title}${desc} (${formatMemoryAge(memory.updatedAt)})`;
+	const label = memory.scope === "global" ? `${memory.type}, global` : memory.type;
+	return `- \`${memory.id}\` [${label}] ${memory.title}${desc} (${formatMemoryAge(memory.updatedAt)})`;
 }
 
-/** Resolve a memory id by exact match or unique prefix (>= 4 chars). */
-function resolveMemory(db: Database, id: string): { memory: Memory } | { error: string } {
-	const exact = getMemory(db, id);
+/** Resolve a memory id in either store by exact match or unique prefix (>= 4 chars). */
+function resolveMemory(db: Database, globalDb: Database | undefined, id: string): { memory: ScopedMemory } | { error: string } {
+	const exact = getScopedMemory(db, globalDb, id);
 	if (exact) return { memory: exact };
 
 	if (id.length >= 4) {
-		const matches = listMemories(db).filter((m) => m.id.startsWith(id));
+		const matches = listAllScopedMemories(db, globalDb).filter((m) => m.id.startsWith(id));
 		if (matches.length === 1 && matches[0]) return { memory: matches[0] };
 		if (matches.length > 1) {
 			return { error: `Error: id "${id}" is ambiguous — it matches ${matches.length} memories. Use a longer id or \`list\`. ` };
@@ -67,11 +81,25 @@ function asString(value: unknown): string | undefined {
 
 export function createMemoryTool(db: Database, options?: MemoryToolOptions): Tool {
 	const readOnly = options?.readOnly ?? false;
-	const commands: readonly Command[] = readOnly ? READ_COMMANDS : [...READ_COMMANDS, ...WRITE_COMMANDS];
+	const globalDb = options?.globalDb;
+	const writeCommands = WRITE_COMMANDS.filter((c) => c !== "promote" || globalDb);
+	const commands: readonly Command[] = readOnly ? READ_COMMANDS : [...READ_COMMANDS, ...writeCommands];
 
-	const description = readOnly
+	const baseDescription = readOnly
 		? "Read project memories saved in previous sessions. Commands: list, search, get. Memories are read-only for subagents — if you discover something worth remembering, report it in your final response so the main agent can save it."
 		: "Store and retrieve project memories that persist across sessions. Use when you learn something worth remembering about this project — user preferences, corrections, non-obvious decisions, gotchas, or external references. Commands: list, search, get, save, update, delete. `save` creates a memory or updates an existing one with the same title.";
+	const scopeDescription = readOnly
+		? " Memories come from the project store and the global store shared by all projects."
+		: " Memories live in the project store or the global store shared by all projects: save `user` and `feedback` memories that hold in any project with scope `global`, and move a project memory there with `promote`.";
+	const description = globalDb ? `${baseDescription}${scopeDescription}` : baseDescription;
+
+	const scopeProperty = {
+		scope: {
+			type: "string",
+			enum: ["project", "global"],
+			description: "Store for save (default project), or to filter list and search (default both)",
+		},
+	};
 
 	return {
 		definition: {
@@ -89,7 +117,9 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 						},
 						id: {
 							type: "string",
-							description: "Memory id (full id or unique prefix) for get, update, or delete",
+							description: globalDb
+								? "Memory id (full id or unique prefix) for get, update, delete, or promote"
+								: "Memory id (full id or unique prefix) for get, update, or delete",
 						},
 						query: {
 							type: "string",
@@ -112,6 +142,7 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 							type: "string",
 							description: "Full memory text (save or update)",
 						},
+						...(globalDb ? scopeProperty : {}),
 					},
 					required: ["command"],
 				},
@@ -128,7 +159,7 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 				const target = command === "save" ? (title ?? "?") : (id ?? "?");
 				return `▸ memory ${command} "${target}"`;
 			}
-			if (command === "get" || command === "delete") {
+			if (command === "get" || command === "delete" || command === "promote") {
 				const id = typeof args.id === "string" ? args.id : "?";
 				return `▸ memory ${command} ${id}`;
 			}
@@ -150,13 +181,20 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 				return errorResult(`Error: unknown or unavailable command "${command}". Available commands: ${valid}`);
 			}
 
+			const scope = globalDb && args.scope !== undefined ? args.scope : undefined;
+			if (scope !== undefined && !isMemoryScope(scope)) {
+				return errorResult(`Error: invalid scope "${String(scope)}". Valid scopes: project, global.`);
+			}
+
 			switch (command) {
 				case "list": {
 					const type = typeof args.type === "string" ? args.type : undefined;
 					if (type !== undefined && !isMemoryType(type)) {
 						return errorResult(`Error: invalid type "${type}". Valid types: user, feedback, project, reference.`);
 					}
-					const memories = listMemories(db, type ? { type } : undefined);
+					const memories = listAllScopedMemories(db, globalDb).filter(
+						(m) => (!type || m.type === type) && (!scope || m.scope === scope),
+					);
 					if (memories.length === 0) {
 						return errorResult(type ? `No "${type}" memories saved yet.` : "No memories saved yet.");
 					}
@@ -177,7 +215,13 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 					if (!query) {
 						return errorResult("Error: 'query' parameter is required for search.");
 					}
-					const memories = searchMemories(db, query, MAX_SEARCH_RESULTS);
+					const stores: MemoryScope[] = scope ? [scope] : ["project", "global"];
+					const memories = stores
+						.flatMap((s) => {
+							const store = memoryStore(db, globalDb, s);
+							return store ? searchMemories(store, query, MAX_SEARCH_RESULTS).map((m) => ({ ...m, scope: s })) : [];
+						})
+						.slice(0, MAX_SEARCH_RESULTS);
 					if (memories.length === 0) {
 						return errorResult(`No memories match "${query}".`);
 					}
@@ -194,7 +238,7 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 					if (!id) {
 						return errorResult("Error: 'id' parameter is required for get.");
 					}
-					const resolved = resolveMemory(db, id);
+					const resolved = resolveMemory(db, globalDb, id);
 					if ("error" in resolved) return errorResult(resolved.error);
 					const memory = resolved.memory;
 					const caveat = memoryFreshnessCaveat(memory.updatedAt);
@@ -202,6 +246,7 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 						`# ${memory.title}`,
 						"",
 						`Type: ${memory.type}`,
+						memory.scope === "global" ? "Scope: global" : null,
 						memory.description ? `Summary: ${memory.description}` : null,
 						`Updated: ${formatMemoryAge(memory.updatedAt)} (${memory.updatedAt})`,
 						"",
@@ -232,9 +277,13 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 						return errorResult("Error: 'content' is required and must be a non-empty string.");
 					}
 
-					const existing = findMemoryByTitle(db, title);
+					const store = memoryStore(db, globalDb, scope ?? "project");
+					if (!store) return errorResult(GLOBAL_UNAVAILABLE_ERROR);
+					const where = scope === "global" ? " to global memory" : "";
+
+					const existing = findMemoryByTitle(store, title);
 					if (existing) {
-						const updated = updateMemory(db, existing.id, {
+						const updated = updateMemory(store, existing.id, {
 							type: type as MemoryType,
 							title,
 							content,
@@ -242,13 +291,13 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 						});
 						const id = updated?.id ?? existing.id;
 						return {
-							llmOutput: `Updated existing memory \`${id}\` ("${title}").`,
+							llmOutput: `Updated existing memory \`${id}\` ("${title}")${where}.`,
 							uiOutput: `▸ Updated memory "${title}"`,
 							mergeable: true,
 						};
 					}
 
-					const created = createMemory(db, {
+					const created = createMemory(store, {
 						type: type as MemoryType,
 						title,
 						content,
@@ -256,7 +305,7 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 						sessionId: ctx.sessionId,
 					});
 					return {
-						llmOutput: `Saved memory \`${created.id}\` ("${title}").`,
+						llmOutput: `Saved memory \`${created.id}\` ("${title}")${where}.`,
 						uiOutput: `▸ Saved memory "${title}"`,
 						mergeable: true,
 					};
@@ -268,8 +317,9 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 					if (!id) {
 						return errorResult("Error: 'id' parameter is required for update.");
 					}
-					const resolved = resolveMemory(db, id);
+					const resolved = resolveMemory(db, globalDb, id);
 					if ("error" in resolved) return errorResult(resolved.error);
+					const store = memoryStore(db, globalDb, resolved.memory.scope) ?? db;
 
 					const patch: {
 						type?: MemoryType;
@@ -303,7 +353,7 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 						return errorResult("Error: provide at least one field to update (type, title, description, or content).");
 					}
 
-					const updated = updateMemory(db, resolved.memory.id, patch);
+					const updated = updateMemory(store, resolved.memory.id, patch);
 					if (!updated) return errorResult(`Error: no memory found with id "${resolved.memory.id}".`);
 					return {
 						llmOutput: `Updated memory \`${updated.id}\` ("${updated.title}").`,
@@ -318,10 +368,10 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 					if (!id) {
 						return errorResult("Error: 'id' parameter is required for delete.");
 					}
-					const resolved = resolveMemory(db, id);
+					const resolved = resolveMemory(db, globalDb, id);
 					if ("error" in resolved) return errorResult(resolved.error);
 					const memory = resolved.memory;
-					deleteMemory(db, memory.id);
+					deleteMemory(memoryStore(db, globalDb, memory.scope) ?? db, memory.id);
 					return {
 						llmOutput: `Deleted memory \`${memory.id}\` ("${memory.title}").`,
 						uiOutput: `▸ Deleted memory "${memory.title}"`,
@@ -329,6 +379,27 @@ export function createMemoryTool(db: Database, options?: MemoryToolOptions): Too
 					};
 				}
 
+				case "promote": {
+					if (readOnly) return errorResult(READ_ONLY_ERROR);
+					if (!globalDb) return errorResult(GLOBAL_UNAVAILABLE_ERROR);
+					const id = asString(args.id);
+					if (!id) {
+						return errorResult("Error: 'id' parameter is required for promote.");
+					}
+					const resolved = resolveMemory(db, globalDb, id);
+					if ("error" in resolved) return errorResult(resolved.error);
+					if (resolved.memory.scope === "global") {
+						return errorResult(`Error: memory \`${resolved.memory.id}\` is already global.`);
+					}
+					const promoted = promoteMemory(db, globalDb, resolved.memory.id);
+					if (!promoted) return errorResult(`Error: no memory found with id "${resolved.memory.id}".`);
+					return {
+						llmOutput: `Promoted memory "${promoted.title}" to global memory as \`${promoted.id}\`.`,
+						uiOutput: `▸ Promoted memory "${promoted.title}" to global`,
+						mergeable: true,
+					};
+				}
+
 				default:
 					return errorResult(`Error: unknown command "${command}".`);
 			}
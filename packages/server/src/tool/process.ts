@@ -0,0 +1,166 @@
+import type { BackgroundProcessStatus, ProcessManager } from "../process/manager";
+import type { Tool, ToolResult } from "./tool";
+
+const COMMANDS = ["start", "output", "input", "kill", "list"] as const;
+type Command = (typeof COMMANDS)[number];
+
+/** Longest `output` wait the model may ask for. */
+const MAX_WAIT_MS = 60_000;
+
+function errorResult(message: string): ToolResult {
+	return { llmOutput: message, uiOutput: message, mergeable: false, failed: true };
+}
+
+function asString(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/** "running (pid 123)", "exited with code 1" or "killed". */
+export function describeProcessState(status: BackgroundProcessStatus): string {
+	if (status.state === "running") return `running (pid ${status.pid})`;
+	if (status.state === "exited") return `exited with code ${status.exitCode}`;
+	return "killed";
+}
+
+function formatListing(processes: BackgroundProcessStatus[]): string {
+	if (processes.length === 0) return "No background processes in this session.";
+	const lines = processes.map((p) => `- \`${p.name}\` ${describeProcessState(p)}: ${p.command}`);
+	return `Background processes (${processes.length}):\n${lines.join("\n")}`;
+}
+
+/** The call line plus, when there is any, the output below a rule (the bash panel layout). */
+function formatPanel(call: string, output: string | undefined): string {
+	return output ? `${call}\n\n---\n\n\`\`\`\n${output}\n\`\`\`` : call;
+}
+
+/**
+ * The `process` tool: long-running commands (dev servers, watchers, log
+ * tails) that keep running in the background while the agent works. They
+ * belong to `sessionId`, the root session of the prompt.
+ */
+export function createProcessTool(manager: ProcessManager, sessionId: string): Tool {
+	const tool: Tool = {
+		definition: {
+			type: "function",
+			function: {
+				name: "process",
+				description:
+					"Run long-lived commands in the background (dev servers, watchers, log tails) and keep working while they run. Commands: start (run `script` in the project directory under `name`), output (new stdout/stderr since the last read; `timeout` waits for output), input (write `text` to stdin), kill (stop the process and everything it started), list. Processes are stopped when the session is closed. Use bash for commands that finish on their own.",
+				parameters: {
+					type: "object",
+					properties: {
+						command: {
+							type: "string",
+							enum: [...COMMANDS],
+							description: "The process command to run",
+						},
+						name: {
+							type: "string",
+							description: "Process name, e.g. dev-server (start, output, input, kill)",
+						},
+						script: {
+							type: "string",
+							description: "Bash script to run (start)",
+						},
+						text: {
+							type: "string",
+							description: 'Text written to stdin as-is; end it with "\\n" to send a line (input)',
+						},
+						timeout: {
+							type: "number",
+							description: `Milliseconds to wait for output when there is none yet (output). Defaults to 0, at most ${MAX_WAIT_MS}.`,
+						},
+					},
+					required: ["command"],
+				},
+			},
+		},
+
+		mergeable: false,
+
+		baseDistance: 150,
+
+		outputThreshold: 0.4,
+
+		formatCall(args: Record<string, unknown>): string {
+			const command = typeof args.command === "string" ? args.command : "?";
+			const name = typeof args.name === "string" ? args.name : "?";
+			if (command === "start") {
+				const script = typeof args.script === "string" ? args.script : "?";
+				return `▸ process start ${name}\n\n\`\`\`bash\n${script}\n\`\`\``;
+			}
+			if (command === "list") return "▸ process list";
+			return `▸ process ${command} ${name}`;
+		},
+
+		async execute(args: Record<string, unknown>): Promise<ToolResult> {
+			const command = typeof args.command === "string" ? args.command : "";
+			if (!COMMANDS.includes(command as Command)) {
+				return errorResult(`Error: unknown command "${command}". Available commands: ${COMMANDS.join(", ")}`);
+			}
+			const call = tool.formatCall(args);
+
+			if (command === "list") {
+				const listing = formatListing(manager.list(sessionId));
+				return { llmOutput: listing, uiOutput: formatPanel(call, listing), mergeable: false };
+			}
+
+			const name = asString(args.name);
+			if (!name) return errorResult(`Error: 'name' parameter is required for ${command}.`);
+
+			try {
+				switch (command as Exclude<Command, "list">) {
+					case "start": {
+						const script = asString(args.script);
+						if (!script) return errorResult("Error: 'script' parameter is required for start.");
+						const status = manager.start(sessionId, name, script);
+						return {
+							llmOutput: `Started \`${name}\` (pid ${status.pid}). Use output to read what it prints.`,
+							uiOutput: call,
+							summary: `${name} | ${describeProcessState(status)}`,
+							mergeable: false,
+						};
+					}
+
+					case "output": {
+						const timeout = typeof args.timeout === "number" && args.timeout > 0 ? Math.min(args.timeout, MAX_WAIT_MS) : 0;
+						const { output, dropped, status } = await manager.read(sessionId, name, timeout);
+						const text = output.trimEnd();
+						const note = dropped > 0 ? `... ${dropped} earlier characters dropped (read more often)\n` : "";
+						const body = text ? `${note}${text}` : "(no new output)";
+						return {
+							llmOutput: `${body}\n\nstatus: ${describeProcessState(status)}`,
+							uiOutput: formatPanel(call, body),
+							summary: `${name} | ${describeProcessState(status)}`,
+							mergeable: false,
+						};
+					}
+
+					case "input": {
+						const text = typeof args.text === "string" ? args.text : "";
+						if (!text) return errorResult("Error: 'text' parameter is required for input.");
+						manager.write(sessionId, name, text);
+						return {
+							llmOutput: `Wrote ${text.length} characters to \`${name}\`.`,
+							uiOutput: formatPanel(call, text.trimEnd()),
+							mergeable: false,
+						};
+					}
+
+					case "kill": {
+						const status = await manager.kill(sessionId, name);
+						return {
+							llmOutput: `\`${name}\` ${describeProcessState(status)}.`,
+							uiOutput: call,
+							summary: `${name} | ${describeProcessState(status)}`,
+							mergeable: false,
+						};
+					}
+				}
+			} catch (err) {
+				return errorResult(`Error: ${(err as Error).message}`);
+			}
+		},
+	};
+	return tool;
+}
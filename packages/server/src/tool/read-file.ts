@@ -72,6 +72,7 @@ export const readFileTool: Tool = {
 				uiOutput: "Error: 'path' argument is required and must be a non-empty string",
 
 				mergeable: true,
+				failed: true,
 			};
 		}
 
@@ -88,6 +89,7 @@ export const readFileTool: Tool = {
 					uiOutput: `▸ Reading ${escapeMarkdown(filePath)} — file not found`,
 
 					mergeable: true,
+					failed: true,
 				};
 			}
 			if (code === "EISDIR") {
@@ -96,6 +98,7 @@ export const readFileTool: Tool = {
 					uiOutput: `▸ Reading ${escapeMarkdown(filePath)} — is a directory`,
 
 					mergeable: true,
+					failed: true,
 				};
 			}
 			return {
@@ -103,6 +106,7 @@ export const readFileTool: Tool = {
 				uiOutput: `▸ Reading ${escapeMarkdown(filePath)} — error: ${(err as Error).message}`,
 
 				mergeable: true,
+				failed: true,
 			};
 		}
 
@@ -119,6 +123,7 @@ export const readFileTool: Tool = {
 				uiOutput: `▸ Reading ${escapeMarkdown(filePath)} — from (${from}) is beyond end of file (${totalLines} lines)`,
 
 				mergeable: true,
+				failed: true,
 			};
 		}
 
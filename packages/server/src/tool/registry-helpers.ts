@@ -1,5 +1,6 @@
+import type { Sandbox } from "../platform/sandbox";
 import type { GrepToolKind, ShellToolKind } from "../platform/types";
-import { bashTool } from "./bash";
+import { bashTool, createBashTool } from "./bash";
 import { cmdTool } from "./cmd";
 import { findstrTool } from "./findstr";
 import { grepSearchTool } from "./grep-search";
@@ -17,8 +18,13 @@ const GREP_TOOLS: Record<GrepToolKind, Tool> = {
 	findstr: findstrTool,
 };
 
-export function getShellTool(kind: ShellToolKind): Tool | undefined {
-	return SHELL_TOOLS[kind];
+/**
+ * The tool for a shell. With a sandbox, only bash is offered (running inside
+ * it): cmd and powershell cannot be sandboxed, so they are left out.
+ */
+export function getShellTool(kind: ShellToolKind, sandbox?: Sandbox): Tool | undefined {
+	if (!sandbox) return SHELL_TOOLS[kind];
+	return kind === "bash" ? createBashTool(sandbox) : undefined;
 }
 
 export function getGrepTool(kind: GrepToolKind): Tool | undefined {
@@ -52,7 +52,7 @@ export function createSkillTool(skills: SkillRegistry): Tool {
 			const name = args.name;
 			if (typeof name !== "string" || name.trim().length === 0) {
 				const msg = "Error: 'name' parameter is required and must be a non-empty string.";
-				return { llmOutput: msg, uiOutput: msg, mergeable: true };
+				return { llmOutput: msg, uiOutput: msg, mergeable: true, failed: true };
 			}
 
 			const skill = skills.get(name);
@@ -61,7 +61,7 @@ export function createSkillTool(skills: SkillRegistry): Tool {
 				const msg = namesList
 					? `Skill "${name}" not found. Available skills: ${namesList}`
 					: `Skill "${name}" not found. No skills are available.`;
-				return { llmOutput: msg, uiOutput: `▸ Loading ${name} skill — not found`, mergeable: true };
+				return { llmOutput: msg, uiOutput: `▸ Loading ${name} skill — not found`, mergeable: true, failed: true };
 			}
 
 			const baseDir = path.dirname(skill.filePath);
@@ -122,6 +122,7 @@ export const sqlite3Tool: Tool = {
 				llmOutput: "Error: 'database' argument is required and must be a non-empty string",
 				uiOutput: "Error: 'database' argument is required and must be a non-empty string",
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -131,6 +132,7 @@ export const sqlite3Tool: Tool = {
 				llmOutput: "Error: 'query' argument is required and must be a non-empty string",
 				uiOutput: "Error: 'query' argument is required and must be a non-empty string",
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -172,6 +174,7 @@ export const sqlite3Tool: Tool = {
 				llmOutput: `Error: ${errorMsg}`,
 				uiOutput: formatUiOutput(database, query, null),
 				mergeable: false,
+				failed: true,
 				summary: formatSummary(errorMsg, elapsed),
 			};
 		} finally {
@@ -3,28 +3,36 @@ import fs from "node:fs";
 import path from "node:path";
 import type { AgentEvent } from "../agent-loop";
 import { runAgentLoop } from "../agent-loop";
+import type { BudgetTracker } from "../budget/tracker";
+import type { FileSnapshotRecorder } from "../checkpoint";
 import { compactToBudget } from "../compaction/compact-to-budget";
 import { COMPACTION_MARKER } from "../compaction/default-strategy";
-import { PRE_PROMPT_TARGET } from "../compaction/strength";
+import { applyCompactionPolicy, type CompactionPolicy, DEFAULT_COMPACTION_POLICY } from "../compaction/policy";
 import { FileTime } from "../file/time";
 import { formatPromptDate } from "../format-date";
 import type { InstructionFile } from "../instructions";
 import type { Logger } from "../log/logger";
 import { runWithScope } from "../log/logger";
 import { subagentScope } from "../log/session-tag";
-import { buildMemoryIndex } from "../memory/index";
-import { listMemories } from "../memory/repository";
+import { buildMemoryIndex, buildMemoryRecall, MEMORY_RECALL_METADATA_KEY, withRecalledMemories } from "../memory/index";
+import { listIndexableMemories, recallMemories } from "../memory/scope";
+import type { AuthorizeToolCall } from "../permission/gate";
+import { describeSandbox, type Sandbox } from "../platform/sandbox";
+import { appendPluginTools, type PluginRegistry } from "../plugins/registry";
 import { getProjectInfo } from "../project-info";
 import { getApiFamilyForModel } from "../provider/backend-policy";
+import { createIsolatedTurnProvider } from "../provider/isolated-turn";
+import { type ModelRoles, type RoleBackend, resolveRoleBackend } from "../provider/model-roles";
 import { getProviderModelConfig } from "../provider/models";
 import type { AssistantMessage, Message, Provider } from "../provider/provider";
-import type { ProviderId } from "../provider/providers";
+import { isSupportedProvider, type ProviderId } from "../provider/providers";
 import { DEFAULT_REASONING_DEFAULTS } from "../provider/reasoning-defaults";
 import {
 	appendMessage,
 	createSubagentSession,
 	getMessages,
 	getSession,
+	type Session,
 	updateMessageMetadata,
 	updateSessionPromptTokens,
 } from "../session/repository";
@@ -32,6 +40,7 @@ import type { SkillRegistry } from "../skill/skill";
 import type { SubagentStatus } from "../subagent-status";
 import type { SystemPromptDebug, SystemPromptMetadata } from "../system-prompt";
 import { buildSystemPrompt } from "../system-prompt";
+import { applyPatchTool } from "./apply-patch";
 import { editFileTool } from "./edit-file";
 import { fileSearchTool } from "./file-search";
 import { listDirectoryTool } from "./list-directory";
@@ -60,6 +69,8 @@ function formatTimestamp(): string {
 
 export interface TaskToolDeps {
 	db: Database;
+	/** Cross-project memory store, readable by subagents as well. */
+	globalMemoryDb?: Database;
 	provider: Provider;
 	model: string;
 	parentSessionId: string;
@@ -77,11 +88,29 @@ export interface TaskToolDeps {
 	startedAt?: number;
 	availableTools?: import("../platform/types").AvailableTools;
 	platformInfo?: import("../platform/types").PlatformInfo;
+	/** The parent's shell sandbox, applied to subagents as well. */
+	sandbox?: Sandbox;
 	webSearchTool?: Tool;
 	/** Subagents get browser_evaluate (read/interact with existing tabs) but not browser_connect or browser_navigate. */
 	browserEvaluateTool?: Tool;
 	/** Subagents get browser_export_session (extract cookies for download scripts). */
 	browserExportSessionTool?: Tool;
+	/** Permission gate shared with the parent loop so subagent tool calls obey the same policy. */
+	authorizeToolCall?: AuthorizeToolCall;
+	/** Snapshot recorder shared with the parent loop so subagent edits belong to the parent's checkpoint. */
+	recordFileSnapshot?: FileSnapshotRecorder;
+	/** Budget tracker shared with the parent loop so subagent spend counts toward the same caps. */
+	budget?: BudgetTracker;
+	/** Tools from connected MCP servers, available to subagents as well. */
+	mcpTools?: Tool[];
+	/** Plugin tools, hooks and prompt sections, applied to subagents as well. */
+	plugins?: PluginRegistry;
+	/** The parent session's compaction policy, applied to subagents as well. */
+	compactionPolicy?: CompactionPolicy;
+	/** Role assignments from bobai.json; the `subagent` role picks the model subagents run on. */
+	modelRoles?: ModelRoles;
+	/** Provider for a subagent backend on another provider than the parent's. Omitted = the parent's backend. */
+	getProvider?: (providerId: ProviderId) => Promise<Provider>;
 }
 
 export function createTaskTool(deps: TaskToolDeps): Tool {
@@ -103,10 +132,66 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 		startedAt,
 		availableTools,
 		platformInfo,
+		sandbox,
 		webSearchTool,
 		browserEvaluateTool,
 		browserExportSessionTool,
+		authorizeToolCall,
+		recordFileSnapshot,
+		budget,
+		mcpTools,
+		plugins,
+		globalMemoryDb,
 	} = deps;
+	const compactionPolicy = deps.compactionPolicy ?? DEFAULT_COMPACTION_POLICY;
+
+	/**
+	 * The provider and model a subagent runs on. A resumed subagent keeps its
+	 * own backend, a new one uses the `subagent` role (the parent's backend when
+	 * unset), and a `model` hint from the caller replaces the model on that
+	 * provider after checking it against the catalog.
+	 */
+	async function resolveSubagentBackend(
+		parentProvider: Provider,
+		resumed: Session | null,
+		modelHint: string | undefined,
+	): Promise<{ provider: Provider; backend: RoleBackend } | { error: string }> {
+		const configDir = parentProvider.configDir;
+		const parentBackend: RoleBackend = {
+			provider: parentProvider.id as ProviderId,
+			model: parentProvider.resolveModel?.(model) ?? model,
+		};
+		let backend: RoleBackend =
+			resumed?.provider && resumed.model && isSupportedProvider(resumed.provider)
+				? { provider: resumed.provider, model: resumed.model }
+				: resolveRoleBackend(deps.modelRoles, "subagent", parentBackend, configDir, (message) =>
+						logger?.warn("CONFIG", message),
+					);
+		if (modelHint) {
+			if (!getProviderModelConfig(backend.provider, modelHint, configDir)) {
+				return {
+					error: `Error: model "${modelHint}" is not in the ${backend.provider} catalog. Omit model to use the default subagent model.`,
+				};
+			}
+			backend = { ...backend, model: modelHint };
+		}
+		if (backend.provider === parentProvider.id) return { provider: parentProvider, backend };
+
+		try {
+			const other = await deps.getProvider?.(backend.provider);
+			if (other) return { provider: createIsolatedTurnProvider(other, configDir), backend };
+		} catch (err) {
+			logger?.warn("CONFIG", `Cannot run the subagent on ${backend.provider}: ${(err as Error).message}`);
+		}
+		return { provider: parentProvider, backend: parentBackend };
+	}
+
+	const defaultSubagentBackend = resolveRoleBackend(
+		deps.modelRoles,
+		"subagent",
+		{ provider: provider.id as ProviderId, model },
+		provider.configDir,
+	);
 
 	return {
 		definition: {
@@ -134,6 +219,10 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 							type: "string",
 							description: "Resume a previous subagent session (optional)",
 						},
+						model: {
+							type: "string",
+							description: `Model ID for the subagent (optional). Defaults to ${defaultSubagentBackend.model} on ${defaultSubagentBackend.provider}. Pick a cheaper model of the same provider for simple exploration.`,
+						},
 					},
 					required: ["description", "prompt"],
 				},
@@ -164,42 +253,60 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 			return `▸ ${args.description ?? "task"}`;
 		},
 		async execute(args: Record<string, unknown>, _ctx: ToolContext): Promise<ToolResult> {
-			const activeProvider = _ctx.provider ?? provider;
 			const description = args.description as string;
 			const prompt = args.prompt as string;
 			const taskId = args.task_id as string | undefined;
+			const modelHint = typeof args.model === "string" && args.model.trim() ? args.model.trim() : undefined;
+
+			// Resume existing session — validate it exists and is a subagent
+			const resumed = taskId ? getSession(db, taskId) : null;
+			if (taskId && !resumed) {
+				return {
+					llmOutput: `Error: session "${taskId}" not found. Cannot resume a non-existent subagent.`,
+					uiOutput: null,
+					mergeable: false,
+					failed: true,
+				};
+			}
+			if (resumed && !resumed.parentId) {
+				return {
+					llmOutput: `Error: session "${taskId}" is not a subagent session. Cannot resume.`,
+					uiOutput: null,
+					mergeable: false,
+					failed: true,
+				};
+			}
+
+			const subagent = await resolveSubagentBackend(_ctx.provider ?? provider, resumed, modelHint);
+			if ("error" in subagent) {
+				return { llmOutput: subagent.error, uiOutput: null, mergeable: false };
+			}
+			const { provider: childProvider, backend: childBackend } = subagent;
+			const childModel = childBackend.model;
 
 			let childSessionId: string;
 
-			if (taskId) {
-				// Resume existing session — validate it exists and is a subagent
-				const existing = getSession(db, taskId);
-				if (!existing) {
-					return {
-						llmOutput: `Error: session "${taskId}" not found. Cannot resume a non-existent subagent.`,
-						uiOutput: null,
-						mergeable: false,
-					};
-				}
-				if (!existing.parentId) {
-					return {
-						llmOutput: `Error: session "${taskId}" is not a subagent session. Cannot resume.`,
-						uiOutput: null,
-						mergeable: false,
-					};
-				}
-				childSessionId = taskId;
+			if (resumed) {
+				childSessionId = resumed.id;
 			} else {
 				// Create child session with description as title
-				const inheritedProviderId = activeProvider.id as ProviderId;
-				const inheritedApiFamily = getApiFamilyForModel(inheritedProviderId, model);
-				const child = createSubagentSession(db, parentSessionId, description, model, inheritedProviderId, inheritedApiFamily);
+				const childApiFamily = getApiFamilyForModel(childBackend.provider, childModel);
+				const child = createSubagentSession(
+					db,
+					parentSessionId,
+					description,
+					childModel,
+					childBackend.provider,
+					childApiFamily,
+				);
 				childSessionId = child.id;
 
-				// Add the task prompt as a user message with agent metadata
+				// Add the task prompt as a user message with agent metadata and the memories relevant to the task
+				const memoryRecall = buildMemoryRecall(recallMemories(db, globalMemoryDb, `${description}\n${prompt}`));
 				appendMessage(db, childSessionId, "user", prompt, {
 					source: "agent",
 					parentSessionId,
+					...(memoryRecall ? { [MEMORY_RECALL_METADATA_KEY]: memoryRecall } : {}),
 				});
 			}
 
@@ -240,12 +347,12 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 							...(m.metadata?.reasoning ? { reasoning: m.metadata.reasoning as AssistantMessage["reasoning"] } : {}),
 						};
 					}
-					return { role: m.role as "user", content: m.content };
+					return { role: m.role as "user", content: withRecalledMemories(m.content, m.metadata) };
 				});
 
 			// Build tool registry without the task tool itself (no recursion)
 			const skillTool = createSkillTool(skills);
-			const memoryTool = createMemoryTool(db, { readOnly: true });
+			const memoryTool = createMemoryTool(db, { readOnly: true, globalDb: globalMemoryDb });
 			const avail = availableTools ?? { shells: [], grepTools: [], git: false };
 			const childDynamicTools = [
 				readFileTool,
@@ -253,6 +360,7 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 				fileSearchTool,
 				writeFileTool,
 				editFileTool,
+				applyPatchTool,
 				sqlite3Tool,
 				webFetchTool,
 				skillTool,
@@ -262,13 +370,15 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 			if (browserEvaluateTool) childDynamicTools.push(browserEvaluateTool);
 			if (browserExportSessionTool) childDynamicTools.push(browserExportSessionTool);
 			for (const kind of avail.shells) {
-				const tool = getShellTool(kind);
+				const tool = getShellTool(kind, sandbox);
 				if (tool) childDynamicTools.push(tool);
 			}
 			for (const kind of avail.grepTools) {
 				const tool = getGrepTool(kind);
 				if (tool) childDynamicTools.push(tool);
 			}
+			appendPluginTools(childDynamicTools, plugins, childLogger);
+			if (mcpTools) childDynamicTools.push(...mcpTools);
 			const childTools = createToolRegistry(childDynamicTools);
 
 			// Prepend the dynamic system prompt (always fresh, reflects current skills/config)
@@ -278,6 +388,7 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 				projectDir: projectRoot,
 				gitBranch: projectInfo.git?.branch,
 				platform: platformInfo?.id,
+				sandbox: sandbox && describeSandbox(sandbox.status),
 			};
 			const debugInfo: SystemPromptDebug | undefined =
 				debug && startedAt != null
@@ -289,7 +400,8 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 				metadata,
 				debug: debugInfo,
 				toolNames: platformToolNames,
-				memories: buildMemoryIndex(listMemories(db)),
+				memories: buildMemoryIndex(listIndexableMemories(db, globalMemoryDb)),
+				pluginSections: plugins?.systemPromptSections({ sessionId: childSessionId, projectRoot, subagent: true }),
 			});
 			messages.unshift({ role: "system", content: subagentPrompt });
 
@@ -297,11 +409,10 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 			// New sessions have no tool messages yet, so this is a no-op.
 			const childSession = getSession(db, childSessionId);
 			const childPromptTokens = childSession?.promptTokens ?? 0;
-			const providerId = provider.id as ProviderId;
-			const childModelConfig = getProviderModelConfig(providerId, model, undefined);
+			const childModelConfig = getProviderModelConfig(childBackend.provider, childModel, childProvider.configDir);
 			const childContextWindow = childModelConfig?.contextWindow ?? 0;
 			if (childContextWindow <= 0) {
-				childLogger?.warn("CONFIG", `No contextWindow for model "${model}"; subagent compaction disabled`);
+				childLogger?.warn("CONFIG", `No contextWindow for model "${childModel}"; subagent compaction disabled`);
 			}
 			function invalidateCompactedRead(_toolCallId: string, callArgs: Record<string, unknown>) {
 				const filePath = typeof callArgs.path === "string" ? callArgs.path : null;
@@ -319,9 +430,9 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 					contextWindow: childContextWindow,
 					promptTokens: childPromptTokens,
 					promptChars: childPromptChars,
-					target: PRE_PROMPT_TARGET,
+					target: compactionPolicy.prePromptTarget,
 					type: "pre-prompt",
-					tools: childTools,
+					tools: applyCompactionPolicy(childTools, compactionPolicy),
 					sessionId: childSessionId,
 					onReadFileCompacted: invalidateCompactedRead,
 					logger: childLogger,
@@ -331,8 +442,8 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 
 			// Run agent loop with provider turn state isolation
 			let newMessages: Message[];
-			const parentState = activeProvider.saveTurnState?.();
-			activeProvider.beginTurn?.(childPromptTokens);
+			const parentState = childProvider.saveTurnState?.();
+			childProvider.beginTurn?.(childPromptTokens);
 
 			// Capture tool metadata from onEvent (same pattern as handler.ts)
 			const toolMeta = new Map<
@@ -350,8 +461,8 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 			try {
 				newMessages = await runWithScope(scope, () =>
 					runAgentLoop({
-						provider: activeProvider,
-						model,
+						provider: childProvider,
+						model: childModel,
 						messages,
 						tools: childTools,
 						projectRoot,
@@ -364,6 +475,11 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 						logger: childLogger,
 						logDir,
 						onReadFileCompacted: invalidateCompactedRead,
+						authorizeToolCall,
+						recordFileSnapshot,
+						budget,
+						compactionPolicy,
+						afterToolCall: plugins ? (call) => plugins.runAfterToolCall({ ...call, sessionId: childSessionId }) : undefined,
 						onEvent(event: AgentEvent) {
 							onEvent({ ...event, sessionId: childSessionId });
 							if (event.type === "tool_call") {
@@ -415,12 +531,12 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 				);
 			} catch (err) {
 				subagentStatus.set(childSessionId, "error");
-				const turnSummary = activeProvider.getTurnSummary?.() ?? "";
-				const turnMetrics = activeProvider.getTurnMetrics?.();
-				sendWs?.({ type: "subagent_done", sessionId: childSessionId, model, summary: turnSummary });
-				const errChildTokens = activeProvider.getTurnPromptTokens?.() ?? 0;
-				const errChildChars = activeProvider.getTurnPromptChars?.() ?? 0;
-				if (parentState !== undefined) activeProvider.restoreTurnState?.(parentState);
+				const turnSummary = childProvider.getTurnSummary?.() ?? "";
+				const turnMetrics = childProvider.getTurnMetrics?.();
+				sendWs?.({ type: "subagent_done", sessionId: childSessionId, model: childModel, summary: turnSummary });
+				const errChildTokens = childProvider.getTurnPromptTokens?.() ?? 0;
+				const errChildChars = childProvider.getTurnPromptChars?.() ?? 0;
+				if (parentState !== undefined) childProvider.restoreTurnState?.(parentState);
 				// Persist child session's prompt token count
 				if (errChildTokens > 0) {
 					updateSessionPromptTokens(db, childSessionId, errChildTokens, errChildChars);
@@ -429,7 +545,8 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 				if (lastAssistantMessageId && turnSummary) {
 					updateMessageMetadata(db, lastAssistantMessageId, {
 						summary: turnSummary,
-						turn_model: model,
+						turn_model: childProvider.resolveModel?.(childModel) ?? childModel,
+						turn_provider: childProvider.id,
 						...(turnMetrics
 							? {
 									turn_metrics: {
@@ -450,16 +567,17 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 					llmOutput: `Subagent failed: ${(err as Error).message}\n\n[task_id: ${childSessionId}]`,
 					uiOutput: null,
 					mergeable: false,
+					failed: true,
 					summary: turnSummary ? `${ts}${turnSummary} (error)` : undefined,
 					metadata: { subagent_session_id: childSessionId },
 				};
 			}
 
-			const turnSummary = activeProvider.getTurnSummary?.();
-			const turnMetrics = activeProvider.getTurnMetrics?.();
-			const childPromptTokensFinal = activeProvider.getTurnPromptTokens?.() ?? 0;
-			const childPromptCharsFinal = activeProvider.getTurnPromptChars?.() ?? 0;
-			if (parentState !== undefined) activeProvider.restoreTurnState?.(parentState);
+			const turnSummary = childProvider.getTurnSummary?.();
+			const turnMetrics = childProvider.getTurnMetrics?.();
+			const childPromptTokensFinal = childProvider.getTurnPromptTokens?.() ?? 0;
+			const childPromptCharsFinal = childProvider.getTurnPromptChars?.() ?? 0;
+			if (parentState !== undefined) childProvider.restoreTurnState?.(parentState);
 
 			// Persist child session's prompt token count so it can be displayed when loading from DB
 			if (childPromptTokensFinal > 0) {
@@ -467,10 +585,12 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 			}
 
 			// Persist turn summary on last assistant message for reconstruction
-			if (lastAssistantMessageId && (turnSummary || model)) {
+			if (lastAssistantMessageId && (turnSummary || childModel)) {
 				updateMessageMetadata(db, lastAssistantMessageId, {
 					...(turnSummary ? { summary: turnSummary } : {}),
-					turn_model: model,
+					// The parent's failover chain may have moved the child to another backend
+					turn_model: childProvider.resolveModel?.(childModel) ?? childModel,
+					turn_provider: childProvider.id,
 					...(turnMetrics
 						? {
 								turn_metrics: {
@@ -488,7 +608,7 @@ export function createTaskTool(deps: TaskToolDeps): Tool {
 			}
 
 			subagentStatus.set(childSessionId, "done");
-			sendWs?.({ type: "subagent_done", sessionId: childSessionId, model, summary: turnSummary });
+			sendWs?.({ type: "subagent_done", sessionId: childSessionId, model: childModel, summary: turnSummary });
 
 			// Extract final assistant text
 			const lastAssistant = [...newMessages]
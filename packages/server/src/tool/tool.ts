@@ -10,6 +10,10 @@ export interface ToolContext {
 	provider?: import("../provider/provider").Provider;
 	/** Abort signal that fires when the user stops the session (.stop or session close). */
 	signal?: AbortSignal;
+	/** Receives output while the tool runs (e.g. bash stdout/stderr), for live display. The result is unaffected. */
+	onOutput?: (text: string) => void;
+	/** Record a file's current content before overwriting it, so the turn can be rolled back (.undo). */
+	snapshotFile?: (filePath: string) => void;
 }
 
 /** Escape characters that have special meaning in Markdown so they render as literal text. */
@@ -23,6 +27,8 @@ export interface ToolResult {
 	mergeable: boolean;
 	/** Optional summary line (e.g. subagent turn stats) rendered as a status bar on the tool panel. */
 	summary?: string;
+	/** Set when the call did not do its job (bad arguments, failed operation), so headless runs can report it. */
+	failed?: boolean;
 	/** Optional metadata to persist alongside the tool message in the DB. */
 	metadata?: Record<string, unknown>;
 }
@@ -192,6 +192,7 @@ export const webFetchTool: Tool = {
 				llmOutput: "Error: URL must start with http:// or https://",
 				uiOutput: "Error: URL must start with http:// or https://",
 				mergeable: false,
+				failed: true,
 			};
 		}
 
@@ -221,6 +222,7 @@ export const webFetchTool: Tool = {
 					llmOutput: msg,
 					uiOutput: url,
 					mergeable: false,
+					failed: true,
 					summary: formatSummary(`HTTP ${response.status} ${response.statusText}`, elapsed),
 				};
 			}
@@ -234,6 +236,7 @@ export const webFetchTool: Tool = {
 					llmOutput: msg,
 					uiOutput: msg,
 					mergeable: false,
+					failed: true,
 					summary: formatSummary("too large", elapsed),
 				};
 			}
@@ -247,6 +250,7 @@ export const webFetchTool: Tool = {
 					llmOutput: msg,
 					uiOutput: msg,
 					mergeable: false,
+					failed: true,
 					summary: formatSummary("too large", elapsed),
 				};
 			}
@@ -281,6 +285,7 @@ export const webFetchTool: Tool = {
 						llmOutput: msg,
 						uiOutput: msg,
 						mergeable: false,
+						failed: true,
 						summary: formatSummary("PDF error", elapsed),
 					};
 				}
@@ -341,6 +346,7 @@ export const webFetchTool: Tool = {
 				llmOutput: msg,
 				uiOutput: msg,
 				mergeable: false,
+				failed: true,
 				summary: formatSummary("error", elapsed),
 			};
 		}
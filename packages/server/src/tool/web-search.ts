@@ -232,6 +232,7 @@ export function createWebSearchTool(apiKey: string | undefined, fetchFn?: typeof
 					llmOutput: "Error: No web search provider configured. Add a Tavily API key with: `bobai auth tavily`",
 					uiOutput: "Error: No web search provider configured. Run `bobai auth tavily` to set up.",
 					mergeable: false,
+					failed: true,
 				};
 			}
 
@@ -241,6 +242,7 @@ export function createWebSearchTool(apiKey: string | undefined, fetchFn?: typeof
 					llmOutput: "Error: A non-empty query string is required.",
 					uiOutput: "Error: query is required.",
 					mergeable: false,
+					failed: true,
 				};
 			}
 
@@ -286,6 +288,7 @@ export function createWebSearchTool(apiKey: string | undefined, fetchFn?: typeof
 						llmOutput: `Error: Tavily search failed — ${response.status} ${body}`,
 						uiOutput: `Error: HTTP ${response.status}`,
 						mergeable: false,
+						failed: true,
 						summary: formatSummaryLine(`${response.status} ${response.statusText}`, elapsed),
 					};
 				}
@@ -324,6 +327,7 @@ export function createWebSearchTool(apiKey: string | undefined, fetchFn?: typeof
 					llmOutput: `Error: ${(err as Error).message}`,
 					uiOutput: `Error: ${(err as Error).message}`,
 					mergeable: false,
+					failed: true,
 					summary: formatSummaryLine("error", elapsed),
 				};
 			}
@@ -1,6 +1,7 @@
 import fs from "node:fs";
 import path from "node:path";
 import { COMPACTION_MARKER } from "../compaction/default-strategy";
+import { buildFileDiff } from "../file/diff";
 import { FileTime } from "../file/time";
 import type { Tool, ToolContext, ToolResult } from "./tool";
 import { escapeMarkdown } from "./tool";
@@ -56,6 +57,7 @@ export const writeFileTool: Tool = {
 				uiOutput: "Error: 'path' argument is required and must be a non-empty string",
 
 				mergeable: true,
+				failed: true,
 			};
 		}
 		const content = args.content;
@@ -65,6 +67,7 @@ export const writeFileTool: Tool = {
 				uiOutput: "Error: 'content' argument is required and must be a string",
 
 				mergeable: true,
+				failed: true,
 			};
 		}
 
@@ -79,11 +82,14 @@ export const writeFileTool: Tool = {
 					llmOutput: `Error: ${(err as Error).message}`,
 					uiOutput: `▸ Writing ${escapeMarkdown(filePath)} — stale read`,
 					mergeable: true,
+					failed: true,
 				};
 			}
 		}
 
 		try {
+			const before = fs.existsSync(resolved) ? fs.readFileSync(resolved, "utf-8") : null;
+			ctx.snapshotFile?.(resolved);
 			fs.mkdirSync(path.dirname(resolved), { recursive: true });
 			fs.writeFileSync(resolved, content, "utf-8");
 			FileTime.read(ctx.sessionId, resolved);
@@ -92,6 +98,7 @@ export const writeFileTool: Tool = {
 				uiOutput: `▸ Writing ${escapeMarkdown(filePath)} (${content.length} bytes)`,
 
 				mergeable: true,
+				metadata: { diff: [buildFileDiff(filePath, before, content)] },
 			};
 		} catch (err) {
 			return {
@@ -99,6 +106,7 @@ export const writeFileTool: Tool = {
 				uiOutput: `▸ Writing ${escapeMarkdown(filePath)} — error: ${(err as Error).message}`,
 
 				mergeable: true,
+				failed: true,
 			};
 		}
 	},
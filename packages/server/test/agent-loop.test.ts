@@ -1126,6 +1126,38 @@ describe("runAgentLoop", () => {
 		// Should match return value
 		expect(collected).toEqual(messages);
 	});
+
+	test("forwards live tool output as tool_output events before the result", async () => {
+		const events: AgentEvent[] = [];
+		const streaming: Tool = {
+			...echoTool(),
+			async execute(args, ctx): Promise<ToolResult> {
+				ctx.onOutput?.("line 1\n");
+				ctx.onOutput?.("line 2\n");
+				return { llmOutput: `echoed: ${args.text}`, uiOutput: "done", mergeable: false };
+			},
+		};
+
+		await runAgentLoop({
+			provider: toolThenTextProvider("call_1", "echo", '{"text":"hello"}', ["Done"]),
+			model: "test",
+			messages: [{ role: "user", content: "use echo" }],
+			tools: createToolRegistry([streaming]),
+			projectRoot: "/tmp",
+			onEvent(event) {
+				events.push(event);
+			},
+			onMessage() {},
+		});
+
+		expect(events.filter((e) => e.type.startsWith("tool_")).map((e) => e.type)).toEqual([
+			"tool_call",
+			"tool_output",
+			"tool_output",
+			"tool_result",
+		]);
+		expect(events).toContainEqual({ type: "tool_output", id: "call_1", output: "line 2\n" });
+	});
 });
 
 describe("parallel task execution", () => {
@@ -1594,3 +1626,170 @@ describe("parallel task execution", () => {
 		expect((toolMsgs[1] as { content: string }).content).toBe("result of task-B");
 	});
 });
+
+describe("tool permission gate", () => {
+	test("denied calls are not executed and the denial is returned to the model", async () => {
+		let executed = false;
+		const tool: Tool = {
+			...echoTool(),
+			async execute(): Promise<ToolResult> {
+				executed = true;
+				return { llmOutput: "ran", uiOutput: null, mergeable: true };
+			},
+		};
+		const events: AgentEvent[] = [];
+		const requests: { toolName: string; args: Record<string, unknown>; toolCallId: string; sessionId: string }[] = [];
+
+		const messages = await runAgentLoop({
+			provider: toolThenTextProvider("call_1", "echo", '{"text":"hi"}', ["ok"]),
+			model: "test",
+			messages: [{ role: "user", content: "go" }],
+			tools: createToolRegistry([tool]),
+			projectRoot: "/tmp",
+			sessionId: "perm-session",
+			async authorizeToolCall(request) {
+				requests.push({
+					toolName: request.toolName,
+					args: request.args,
+					toolCallId: request.toolCallId,
+					sessionId: request.sessionId,
+				});
+				return { allowed: false, llmOutput: "Permission denied: echo", uiOutput: "▸ Permission denied: echo" };
+			},
+			onEvent(event) {
+				events.push(event);
+			},
+			onMessage() {},
+		});
+
+		expect(executed).toBe(false);
+		expect(requests).toEqual([{ toolName: "echo", args: { text: "hi" }, toolCallId: "call_1", sessionId: "perm-session" }]);
+		expect((messages[1] as ToolMessage).content).toBe("Permission denied: echo");
+		const result = events.find((e) => e.type === "tool_result");
+		expect(result).toMatchObject({ output: "▸ Permission denied: echo", mergeable: false });
+	});
+
+	test("allowed calls execute normally", async () => {
+		const messages = await runAgentLoop({
+			provider: toolThenTextProvider("call_1", "echo", '{"text":"hi"}', ["ok"]),
+			model: "test",
+			messages: [{ role: "user", content: "go" }],
+			tools: createToolRegistry([echoTool()]),
+			projectRoot: "/tmp",
+			sessionId: "perm-session",
+			async authorizeToolCall() {
+				return { allowed: true };
+			},
+			onEvent() {},
+			onMessage() {},
+		});
+
+		expect((messages[1] as ToolMessage).content).toBe("echoed: hi");
+	});
+
+	test("parallel task calls are gated individually", async () => {
+		const executed: string[] = [];
+		const taskTool: Tool = {
+			definition: {
+				type: "function",
+				function: { name: "task", description: "", parameters: { type: "object", properties: {} } },
+			},
+			mergeable: false,
+			formatCall: () => "▸ task",
+			async execute(args: Record<string, unknown>): Promise<ToolResult> {
+				executed.push(args.description as string);
+				return { llmOutput: `result of ${args.description}`, uiOutput: null, mergeable: false };
+			},
+		};
+		let callCount = 0;
+		const provider: Provider = {
+			id: "openrouter",
+			async *stream(): AsyncGenerator<StreamEvent> {
+				callCount++;
+				if (callCount === 1) {
+					yield { type: "tool_call_start", index: 0, id: "tc1", name: "task" };
+					yield { type: "tool_call_delta", index: 0, arguments: '{"description":"A"}' };
+					yield { type: "tool_call_start", index: 1, id: "tc2", name: "task" };
+					yield { type: "tool_call_delta", index: 1, arguments: '{"description":"B"}' };
+					yield { type: "finish", reason: "tool_calls" };
+				} else {
+					yield { type: "text", text: "Done." };
+					yield { type: "finish", reason: "stop" };
+				}
+			},
+		};
+
+		const messages = await runAgentLoop({
+			provider,
+			model: "test",
+			messages: [{ role: "user", content: "go" }],
+			tools: createToolRegistry([taskTool]),
+			projectRoot: "/tmp",
+			sessionId: "perm-session",
+			async authorizeToolCall(request) {
+				return request.args.description === "A"
+					? { allowed: true }
+					: { allowed: false, llmOutput: "Permission denied: task", uiOutput: "▸ denied" };
+			},
+			onEvent() {},
+			onMessage() {},
+		});
+
+		expect(executed).toEqual(["A"]);
+		const toolMsgs = messages.filter((m): m is ToolMessage => m.role === "tool");
+		expect(toolMsgs.map((m) => m.content)).toEqual(["result of A", "Permission denied: task"]);
+	});
+});
+
+describe("file snapshots", () => {
+	test("tools receive a snapshotFile hook bound to the session and tool call", async () => {
+		const recorded: string[] = [];
+		const tool: Tool = {
+			...echoTool(),
+			async execute(_args, ctx): Promise<ToolResult> {
+				ctx.snapshotFile?.("/tmp/file.txt");
+				return { llmOutput: "ran", uiOutput: null, mergeable: true };
+			},
+		};
+
+		await runAgentLoop({
+			provider: toolThenTextProvider("call_1", "echo", '{"text":"hi"}', ["ok"]),
+			model: "test",
+			messages: [{ role: "user", content: "go" }],
+			tools: createToolRegistry([tool]),
+			projectRoot: "/tmp",
+			sessionId: "snap-session",
+			recordFileSnapshot(sessionId, toolCallId, filePath) {
+				recorded.push(`${sessionId}/${toolCallId}/${filePath}`);
+			},
+			onEvent() {},
+			onMessage() {},
+		});
+
+		expect(recorded).toEqual(["snap-session/call_1//tmp/file.txt"]);
+	});
+
+	test("snapshotFile is absent when no recorder is configured", async () => {
+		let hook: unknown = "unset";
+		const tool: Tool = {
+			...echoTool(),
+			async execute(_args, ctx): Promise<ToolResult> {
+				hook = ctx.snapshotFile;
+				return { llmOutput: "ran", uiOutput: null, mergeable: true };
+			},
+		};
+
+		await runAgentLoop({
+			provider: toolThenTextProvider("call_1", "echo", '{"text":"hi"}', ["ok"]),
+			model: "test",
+			messages: [{ role: "user", content: "go" }],
+			tools: createToolRegistry([tool]),
+			projectRoot: "/tmp",
+			sessionId: "snap-session",
+			onEvent() {},
+			onMessage() {},
+		});
+
+		expect(hook).toBeUndefined();
+	});
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createAnthropicProvider } from "../src/provider/anthropic";
+import type { StreamEvent } from "../src/provider/provider";
+import { createTestModels, writeUnifiedModelsConfig } from "./test-models";
+
+function sseStream(events: Record<string, unknown>[]): ReadableStream<Uint8Array> {
+	return new ReadableStream({
+		start(controller) {
+			for (const event of events) {
+				controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`));
+			}
+			controller.close();
+		},
+	});
+}
+
+async function collect(events: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+	const out: StreamEvent[] = [];
+	for await (const event of events) out.push(event);
+	return out;
+}
+
+describe("anthropic provider", () => {
+	let configDir: string;
+
+	beforeEach(() => {
+		configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-anthropic-"));
+		writeUnifiedModelsConfig(configDir, {
+			anthropic: createTestModels([
+				{
+					id: "claude-opus-4-7",
+					contextWindow: 200000,
+					maxOutput: 64000,
+					inputPrice: 5,
+					outputPrice: 25,
+					cacheReadPrice: 0.5,
+					cacheWritePrice: 6.25,
+					supportsCaching: true,
+				},
+			]),
+		});
+	});
+
+	afterEach(() => {
+		fs.rmSync(configDir, { recursive: true, force: true });
+	});
+
+	test("calls the Messages API directly with caching and reasoning settings", async () => {
+		let capturedUrl = "";
+		let capturedInit: RequestInit | undefined;
+		const fetchFn = (async (url: string | URL | Request, init?: RequestInit) => {
+			capturedUrl = url.toString();
+			capturedInit = init;
+			return new Response(
+				sseStream([
+					{ type: "message_start", message: { usage: { input_tokens: 10, cache_read_input_tokens: 90 } } },
+					{ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "hi" } },
+					{ type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 2 } },
+					{ type: "message_stop" },
+				]),
+				{ status: 200, headers: { "Content-Type": "text/event-stream" } },
+			);
+		}) as typeof fetch;
+
+		const provider = createAnthropicProvider({ apiKey: "sk-ant" }, undefined, fetchFn, configDir);
+		const events = await collect(
+			provider.stream({
+				model: "claude-opus-4-7",
+				messages: [
+					{ role: "system", content: "be brief" },
+					{ role: "user", content: "hello" },
+				],
+				maxOutputTokens: 1024,
+			}),
+		);
+
+		expect(capturedUrl).toBe("https://api.anthropic.com/v1/messages");
+		const headers = capturedInit?.headers as Record<string, string>;
+		expect(headers["x-api-key"]).toBe("sk-ant");
+		expect(headers["anthropic-version"]).toBe("2023-06-01");
+		const body = JSON.parse(capturedInit?.body as string);
+		expect(body.cache_control).toEqual({ type: "ephemeral" });
+		expect(body.output_config).toEqual({ effort: "high" });
+		expect(body.max_tokens).toBe(1024);
+		expect(events).toContainEqual({
+			type: "usage",
+			tokenCount: 100,
+			tokenLimit: 200000,
+			display: "anthropic | claude-opus-4-7 [$5.00 $25.00] | $0.00 | 100 / 200000 | 0%",
+		});
+	});
+});
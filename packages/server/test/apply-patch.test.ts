@@ -0,0 +1,271 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { COMPACTION_MARKER } from "../src/compaction/default-strategy";
+import { FileTime } from "../src/file/time";
+import { applyPatchTool } from "../src/tool/apply-patch";
+import type { ToolContext } from "../src/tool/tool";
+
+describe("applyPatchTool", () => {
+	let tmpDir: string;
+	let ctx: ToolContext;
+
+	beforeAll(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-apply-patch-"));
+	});
+
+	afterAll(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	beforeEach(() => {
+		fs.rmSync(path.join(tmpDir, "src"), { recursive: true, force: true });
+		fs.mkdirSync(path.join(tmpDir, "src"));
+		ctx = { projectRoot: tmpDir, sessionId: "test-session" };
+	});
+
+	afterEach(() => {
+		FileTime.clearSession("test-session");
+	});
+
+	function writeAndTrack(relativePath: string, content: string) {
+		const resolved = path.join(tmpDir, relativePath);
+		fs.writeFileSync(resolved, content);
+		FileTime.read("test-session", resolved);
+	}
+
+	function readFile(relativePath: string): string {
+		return fs.readFileSync(path.join(tmpDir, relativePath), "utf-8");
+	}
+
+	describe("unified diff", () => {
+		test("modifies, creates and deletes files in one call", async () => {
+			writeAndTrack("src/a.ts", "one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\n");
+			writeAndTrack("src/old.ts", "bye\n");
+			const patch = [
+				"diff --git a/src/a.ts b/src/a.ts",
+				"--- a/src/a.ts",
+				"+++ b/src/a.ts",
+				"@@ -1,3 +1,3 @@",
+				" one",
+				"-two",
+				"+TWO",
+				" three",
+				"@@ -6,3 +6,4 @@",
+				" six",
+				" seven",
+				"+seven and a half",
+				" eight",
+				"--- /dev/null",
+				"+++ b/src/new.ts",
+				"@@ -0,0 +1,2 @@",
+				"+hello",
+				"+world",
+				"--- a/src/old.ts",
+				"+++ /dev/null",
+				"@@ -1 +0,0 @@",
+				"-bye",
+				"",
+			].join("\n");
+
+			const result = await applyPatchTool.execute({ patch }, ctx);
+
+			expect(result.llmOutput).toBe(
+				"Changed 3 files:\n- src/a.ts: 2 hunks, +2 -1\n- src/new.ts: created, 1 hunk, +2 -0\n- src/old.ts: deleted, 1 hunk, +0 -1",
+			);
+			expect(result.summary).toBe("3 files | +4 -2");
+			expect(readFile("src/a.ts")).toBe("one\nTWO\nthree\nfour\nfive\nsix\nseven\nseven and a half\neight\n");
+			expect(readFile("src/new.ts")).toBe("hello\nworld\n");
+			expect(fs.existsSync(path.join(tmpDir, "src/old.ts"))).toBe(false);
+			expect(result.metadata?.diff).toMatchObject([
+				{ path: "src/a.ts", status: "modified", added: 2, removed: 1 },
+				{ path: "src/new.ts", status: "created", hunks: [{ lines: ["+hello", "+world"] }] },
+				{ path: "src/old.ts", status: "deleted", hunks: [{ lines: ["-bye"] }] },
+			]);
+		});
+
+		test("changes nothing when one hunk does not match", async () => {
+			writeAndTrack("src/a.ts", "one\ntwo\n");
+			writeAndTrack("src/b.ts", "alpha\nbeta\n");
+			const patch = [
+				"--- a/src/a.ts",
+				"+++ b/src/a.ts",
+				"@@ -1,2 +1,2 @@",
+				" one",
+				"-two",
+				"+2",
+				"--- a/src/b.ts",
+				"+++ b/src/b.ts",
+				"@@ -1,2 +1,2 @@",
+				" alpha",
+				"-gamma",
+				"+delta",
+				"",
+			].join("\n");
+
+			const result = await applyPatchTool.execute({ patch }, ctx);
+
+			expect(result.llmOutput).toBe(
+				"Error: no files were changed. Fix these problems and send the whole change again:\n- src/b.ts: hunk 1 (@@ -1,2 +1,2 @@) does not match the file",
+			);
+			expect(result.uiOutput).toBe("▸ Patching src/a.ts (1 hunk), src/b.ts (1 hunk) — not applied");
+			expect(readFile("src/a.ts")).toBe("one\ntwo\n");
+			expect(readFile("src/b.ts")).toBe("alpha\nbeta\n");
+		});
+
+		test("requires existing files to have been read, and refuses to create one that exists", async () => {
+			fs.writeFileSync(path.join(tmpDir, "src/unread.ts"), "x\n");
+			const patch = [
+				"--- a/src/unread.ts",
+				"+++ b/src/unread.ts",
+				"@@ -1 +1 @@",
+				"-x",
+				"+y",
+				"--- /dev/null",
+				"+++ b/src/unread.ts",
+				"@@ -0,0 +1 @@",
+				"+z",
+				"",
+			].join("\n");
+
+			const result = await applyPatchTool.execute({ patch }, ctx);
+
+			expect(result.llmOutput).toContain("- src/unread.ts: You must read file");
+			expect(result.llmOutput).toContain("- src/unread.ts: appears more than once in the patch");
+			expect(readFile("src/unread.ts")).toBe("x\n");
+		});
+
+		test("rejects renames and patches without hunks", async () => {
+			writeAndTrack("src/a.ts", "one\n");
+			const rename = ["--- a/src/a.ts", "+++ b/src/b.ts", "@@ -1 +1 @@", "-one", "+uno", ""].join("\n");
+			expect((await applyPatchTool.execute({ patch: rename }, ctx)).llmOutput).toContain(
+				"- src/a.ts: renames are not supported (to src/b.ts)",
+			);
+			expect((await applyPatchTool.execute({ patch: "just some text" }, ctx)).llmOutput).toContain(
+				"- the patch contains no hunks",
+			);
+		});
+
+		test("updates read stamps so the files can be edited again", async () => {
+			writeAndTrack("src/a.ts", "one\n");
+			const patch = ["--- a/src/a.ts", "+++ b/src/a.ts", "@@ -1 +1 @@", "-one", "+two", ""].join("\n");
+			await applyPatchTool.execute({ patch }, ctx);
+
+			expect(() => FileTime.assert("test-session", path.join(tmpDir, "src/a.ts"))).not.toThrow();
+		});
+
+		test("snapshots every file before writing", async () => {
+			writeAndTrack("src/a.ts", "one\n");
+			const snapshots: string[] = [];
+			const patch = [
+				"--- a/src/a.ts",
+				"+++ b/src/a.ts",
+				"@@ -1 +1 @@",
+				"-one",
+				"+two",
+				"--- /dev/null",
+				"+++ b/src/c.ts",
+				"@@ -0,0 +1 @@",
+				"+c",
+				"",
+			].join("\n");
+			await applyPatchTool.execute({ patch }, { ...ctx, snapshotFile: (filePath) => snapshots.push(filePath) });
+
+			expect(snapshots).toEqual([path.join(tmpDir, "src/a.ts"), path.join(tmpDir, "src/c.ts")]);
+		});
+	});
+
+	describe("edits", () => {
+		test("applies edits to several files, in order within a file", async () => {
+			writeAndTrack("src/a.ts", "const a = oldName();\nconst b = oldName();\n");
+			writeAndTrack("src/b.ts", "export function oldName() {}\n");
+
+			const result = await applyPatchTool.execute(
+				{
+					edits: [
+						{ path: "src/a.ts", old_string: "oldName", new_string: "newName", replace_all: true },
+						{ path: "src/b.ts", old_string: "function oldName", new_string: "function newName" },
+						{ path: "src/a.ts", old_string: "const b", new_string: "const c" },
+					],
+				},
+				ctx,
+			);
+
+			expect(result.llmOutput).toBe("Changed 2 files:\n- src/a.ts: 2 edits, +2 -2\n- src/b.ts: 1 edit, +1 -1");
+			expect(readFile("src/a.ts")).toBe("const a = newName();\nconst c = newName();\n");
+			expect(readFile("src/b.ts")).toBe("export function newName() {}\n");
+		});
+
+		test("reports every problem and changes nothing", async () => {
+			writeAndTrack("src/a.ts", "x\nx\n");
+			writeAndTrack("src/b.ts", "y\n");
+
+			const result = await applyPatchTool.execute(
+				{
+					edits: [
+						{ path: "src/b.ts", old_string: "y", new_string: "Y" },
+						{ path: "src/a.ts", old_string: "x", new_string: "X" },
+						{ path: "src/a.ts", old_string: "z", new_string: "Z" },
+						{ path: "src/missing.ts", old_string: "a", new_string: "b" },
+					],
+				},
+				ctx,
+			);
+
+			expect(result.llmOutput).toBe(
+				[
+					"Error: no files were changed. Fix these problems and send the whole change again:",
+					"- src/a.ts: edit 2: old_string found 2 times; include more context or set replace_all",
+					"- src/a.ts: edit 3: old_string not found",
+					"- src/missing.ts: file not found",
+				].join("\n"),
+			);
+			expect(readFile("src/b.ts")).toBe("y\n");
+		});
+
+		test("validates the shape of each edit", async () => {
+			const result = await applyPatchTool.execute({ edits: [{ path: "src/a.ts", old_string: "" }, {}] }, ctx);
+			expect(result.llmOutput).toContain("- edit 1 (src/a.ts): 'old_string' must be a non-empty string");
+			expect(result.llmOutput).toContain("- edit 2: 'path' is required");
+		});
+	});
+
+	test("requires exactly one of patch or edits", async () => {
+		const expected = "Error: pass exactly one of 'patch' (a unified diff) or 'edits' (a non-empty list)";
+		expect((await applyPatchTool.execute({}, ctx)).llmOutput).toBe(expected);
+		expect((await applyPatchTool.execute({ patch: "x", edits: [{}] }, ctx)).llmOutput).toBe(expected);
+	});
+
+	test("compactArgs folds the patch to a file and hunk summary", () => {
+		const patch = [
+			"--- a/src/a.ts",
+			"+++ b/src/a.ts",
+			"@@ -1 +1 @@",
+			"-one",
+			"+two",
+			"@@ -5 +5 @@",
+			"-five",
+			"+5",
+			"--- /dev/null",
+			"+++ b/src/new.ts",
+			"@@ -0,0 +1 @@",
+			"+new",
+			"",
+		].join("\n");
+		expect(applyPatchTool.compactArgs?.({ patch })).toEqual({
+			patch: `${COMPACTION_MARKER} patch to src/a.ts (2 hunks), src/new.ts (1 hunk)`,
+		});
+		expect(applyPatchTool.compactArgs?.({ edits: [{ path: "src/a.ts", old_string: "a", new_string: "b" }] })).toEqual({
+			edits: [{ path: "src/a.ts", old_string: COMPACTION_MARKER, new_string: COMPACTION_MARKER }],
+		});
+	});
+
+	test("formatCall shows the patch or each edit as a diff", () => {
+		const patch = "--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1 +1 @@\n-one\n+two\n";
+		expect(applyPatchTool.formatCall({ patch })).toBe(`▸ Patching src/a.ts (1 hunk)\n\n\`\`\`diff\n${patch.trimEnd()}\n\`\`\``);
+		expect(applyPatchTool.formatCall({ edits: [{ path: "src/a.ts", old_string: "one", new_string: "two" }] })).toBe(
+			"▸ Applying 1 edit\n\nsrc/a.ts\n\n```diff\n- one\n+ two\n```",
+		);
+	});
+});
@@ -9,6 +9,9 @@ describe("auth provider registry", () => {
 			"opencode-zen",
 			"amazon-bedrock",
 			"deepseek",
+			"anthropic",
+			"openai",
+			"openai-compatible",
 			"tavily",
 		]);
 	});
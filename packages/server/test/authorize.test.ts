@@ -6,6 +6,7 @@ import { AMAZON_BEDROCK_DEFAULT_REGION } from "../src/auth/amazon-bedrock";
 import {
 	authorizeAmazonBedrock,
 	authorizeDeepSeek,
+	authorizeOpenAICompatible,
 	authorizeOpenCodeGo,
 	authorizeOpenCodeZen,
 	authorizeOpenRouter,
@@ -209,6 +210,67 @@ describe("authorizeAmazonBedrock", () => {
 	});
 });
 
+describe("authorizeOpenAICompatible", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-auth-openai-compatible-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	test("defaults to the local Ollama endpoint and saves no key when none is given", async () => {
+		const checked: [string, string][] = [];
+		await authorizeOpenAICompatible(tmpDir, {
+			promptBaseUrl: async () => "",
+			promptSecret: async () => "",
+			validateOpenAICompatibleEndpoint: async (baseUrl, apiKey) => {
+				checked.push([baseUrl, apiKey]);
+				return ["qwen2.5-coder:32b"];
+			},
+		});
+
+		expect(checked).toEqual([["http://localhost:11434/v1", ""]]);
+		const raw = JSON.parse(fs.readFileSync(path.join(tmpDir, "auth.json"), "utf8")) as AuthStore;
+		expect(raw.providers["openai-compatible"]).toEqual({ baseUrl: "http://localhost:11434/v1" });
+	});
+
+	test("keeps hand-added headers and does not save an unreachable endpoint", async () => {
+		fs.writeFileSync(
+			path.join(tmpDir, "auth.json"),
+			JSON.stringify({
+				version: 1,
+				providers: { "openai-compatible": { baseUrl: "http://old:8000/v1", headers: { "X-Team": "core" } } },
+			}),
+		);
+		await authorizeOpenAICompatible(tmpDir, {
+			promptBaseUrl: async () => "http://gpu-box:8000/v1",
+			promptSecret: async () => "vllm-key",
+			validateOpenAICompatibleEndpoint: async () => [],
+		});
+		const raw = JSON.parse(fs.readFileSync(path.join(tmpDir, "auth.json"), "utf8")) as AuthStore;
+		expect(raw.providers["openai-compatible"]).toEqual({
+			baseUrl: "http://gpu-box:8000/v1",
+			apiKey: "vllm-key",
+			headers: { "X-Team": "core" },
+		});
+
+		await expect(
+			authorizeOpenAICompatible(tmpDir, {
+				promptBaseUrl: async () => "http://nowhere:1/v1",
+				promptSecret: async () => "",
+				validateOpenAICompatibleEndpoint: async () => {
+					throw new Error("OpenAI-compatible endpoint validation failed: cannot reach http://nowhere:1/v1/models");
+				},
+			}),
+		).rejects.toThrow(/cannot reach/);
+		const after = JSON.parse(fs.readFileSync(path.join(tmpDir, "auth.json"), "utf8")) as AuthStore;
+		expect(after.providers["openai-compatible"]?.baseUrl).toBe("http://gpu-box:8000/v1");
+	});
+});
+
 describe("listSupportedAuthProviders / getAuthProvider", () => {
 	test("listSupportedAuthProviders includes an entry with id amazon-bedrock", () => {
 		const providers = listSupportedAuthProviders();
@@ -225,6 +287,16 @@ describe("listSupportedAuthProviders / getAuthProvider", () => {
 
 	test("listSupportedAuthProviders returns providers in stable canonical order", () => {
 		const ids = listSupportedAuthProviders().map((p) => p.id);
-		expect(ids).toEqual(["openrouter", "opencode-go", "opencode-zen", "amazon-bedrock", "deepseek", "tavily"]);
+		expect(ids).toEqual([
+			"openrouter",
+			"opencode-go",
+			"opencode-zen",
+			"amazon-bedrock",
+			"deepseek",
+			"anthropic",
+			"openai",
+			"openai-compatible",
+			"tavily",
+		]);
 	});
 });
@@ -0,0 +1,191 @@
+import type { Database } from "bun:sqlite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createProcessManager, MAX_BUFFERED_CHARS, type ProcessManager } from "../src/process/manager";
+import type { ServerMessage } from "../src/protocol";
+import { createSession } from "../src/session/repository";
+import { createProcessTool } from "../src/tool/process";
+import { createTestDb, openWs, startTestServer, waitForWsMessage } from "./helpers";
+
+/** Whether `pid` is still running; a killed process its parent has not reaped yet counts as gone. */
+function isRunning(pid: number): boolean {
+	const state = Bun.spawnSync(["ps", "-o", "stat=", "-p", String(pid)])
+		.stdout.toString()
+		.trim();
+	return state.length > 0 && !state.startsWith("Z");
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000) {
+	const deadline = Date.now() + timeoutMs;
+	while (!condition()) {
+		if (Date.now() > deadline) throw new Error("condition not met in time");
+		await Bun.sleep(20);
+	}
+}
+
+describe("process manager", () => {
+	let tmpDir: string;
+	let manager: ProcessManager;
+
+	beforeAll(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-processes-"));
+	});
+
+	afterAll(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	beforeEach(() => {
+		manager = createProcessManager({ projectRoot: tmpDir, killGraceMs: 200 });
+	});
+
+	afterEach(() => {
+		manager.close();
+	});
+
+	test("reads only the output that arrived since the last read", async () => {
+		manager.start("s1", "echo", "echo one\nsleep 0.2\necho two >&2\nsleep 30");
+
+		expect((await manager.read("s1", "echo", 2000)).output).toBe("one\n");
+		const second = await manager.read("s1", "echo", 2000);
+		expect(second.output).toBe("two\n");
+		expect(second.status.state).toBe("running");
+		expect((await manager.read("s1", "echo")).output).toBe("");
+	});
+
+	test("passes input to stdin and reports the exit code", async () => {
+		manager.start("s1", "cat", "read line\necho got $line\nexit 3");
+		manager.write("s1", "cat", "hello\n");
+
+		const changes: string[] = [];
+		manager.onChange((sessionId) => changes.push(sessionId));
+		await waitFor(() => manager.list("s1")[0]?.state === "exited");
+
+		const { output, status } = await manager.read("s1", "cat");
+		expect(output).toBe("got hello\n");
+		expect(status).toMatchObject({ name: "cat", state: "exited", exitCode: 3 });
+		expect(changes).toEqual(["s1"]);
+		expect(() => manager.write("s1", "cat", "again\n")).toThrow('process "cat" is not running.');
+	});
+
+	test("kill stops the process and everything it started", async () => {
+		const pidFile = path.join(tmpDir, "child.pid");
+		manager.start("s1", "server", `sleep 30 &\necho $! > ${pidFile}\nwait`);
+		await waitFor(() => fs.existsSync(pidFile) && fs.readFileSync(pidFile, "utf8").trim().length > 0);
+
+		const status = await manager.kill("s1", "server");
+
+		expect(status.state).toBe("killed");
+		expect(status.exitCode).toBeNull();
+		expect(isRunning(Number(fs.readFileSync(pidFile, "utf8")))).toBe(false);
+	});
+
+	test("names are unique among running processes and scoped to the session", async () => {
+		manager.start("s1", "dev", "sleep 30");
+		expect(() => manager.start("s1", "dev", "sleep 30")).toThrow('a process named "dev" is already running');
+		expect(() => manager.start("s1", "no spaces", "true")).toThrow('invalid name "no spaces"');
+		expect(() => manager.read("s2", "dev")).toThrow('no process named "dev"');
+
+		manager.start("s2", "dev", "sleep 30");
+		await manager.stopSession("s1");
+		expect(manager.list("s1")).toEqual([]);
+		expect(manager.list("s2").map((p) => p.state)).toEqual(["running"]);
+	});
+
+	test("drops the oldest output when the buffer fills between reads", async () => {
+		manager.start("s1", "flood", `head -c ${MAX_BUFFERED_CHARS + 100} /dev/zero | tr '\\0' x`);
+		await waitFor(() => manager.list("s1")[0]?.state === "exited");
+
+		const { output, dropped } = await manager.read("s1", "flood");
+		expect(output).toHaveLength(MAX_BUFFERED_CHARS);
+		expect(dropped).toBe(100);
+	});
+});
+
+describe("process tool", () => {
+	let manager: ProcessManager;
+
+	beforeEach(() => {
+		manager = createProcessManager({ projectRoot: os.tmpdir(), killGraceMs: 200 });
+	});
+
+	afterEach(() => {
+		manager.close();
+	});
+
+	test("starts, reads, lists and kills processes of its session", async () => {
+		const tool = createProcessTool(manager, "root-session");
+		const ctx = { projectRoot: os.tmpdir(), sessionId: "child-session" };
+
+		const started = await tool.execute({ command: "start", name: "watch", script: "echo ready\nsleep 30" }, ctx);
+		expect(started.llmOutput).toMatch(/^Started `watch` \(pid \d+\)\. Use output to read what it prints\.$/);
+		expect(manager.list("root-session")).toHaveLength(1);
+
+		const output = await tool.execute({ command: "output", name: "watch", timeout: 2000 }, ctx);
+		expect(output.llmOutput).toMatch(/^ready\n\nstatus: running \(pid \d+\)$/);
+		expect(output.uiOutput).toContain("▸ process output watch\n\n---\n\n```\nready\n```");
+
+		const listed = await tool.execute({ command: "list" }, ctx);
+		expect(listed.llmOutput).toMatch(/^Background processes \(1\):\n- `watch` running \(pid \d+\): echo ready/);
+
+		const killed = await tool.execute({ command: "kill", name: "watch" }, ctx);
+		expect(killed.llmOutput).toBe("`watch` killed.");
+		expect(killed.summary).toBe("watch | killed");
+	});
+
+	test("reports missing arguments and unknown processes as errors", async () => {
+		const tool = createProcessTool(manager, "root-session");
+		const ctx = { projectRoot: os.tmpdir(), sessionId: "root-session" };
+
+		expect((await tool.execute({ command: "restart", name: "x" }, ctx)).llmOutput).toBe(
+			'Error: unknown command "restart". Available commands: start, output, input, kill, list',
+		);
+		expect((await tool.execute({ command: "start", name: "x" }, ctx)).llmOutput).toBe(
+			"Error: 'script' parameter is required for start.",
+		);
+		expect((await tool.execute({ command: "output" }, ctx)).llmOutput).toBe("Error: 'name' parameter is required for output.");
+		expect((await tool.execute({ command: "input", name: "x", text: "y" }, ctx)).llmOutput).toBe(
+			'Error: no process named "x". Use `list` to see this session\'s processes.',
+		);
+	});
+});
+
+describe("background processes over the WebSocket", () => {
+	let db: Database;
+	let manager: ProcessManager;
+	let server: ReturnType<typeof Bun.serve>;
+	let wsUrl: string;
+
+	beforeAll(() => {
+		db = createTestDb();
+		manager = createProcessManager({ projectRoot: os.tmpdir(), killGraceMs: 200 });
+		const started = startTestServer({ port: 0, db, processes: manager });
+		server = started.server;
+		wsUrl = started.wsUrl;
+	});
+
+	afterAll(() => {
+		manager.close();
+		server.stop(true);
+		db.close();
+	});
+
+	test("the owning tab sees the process list, and closing the session stops its processes", async () => {
+		const session = createSession(db);
+		const ws = await openWs(wsUrl);
+		ws.send(JSON.stringify({ type: "subscribe", sessionId: session.id }));
+		const initial = await waitForWsMessage(ws, (m) => m.type === "processes");
+		expect(initial).toEqual({ type: "processes", sessionId: session.id, processes: [] });
+
+		const update = waitForWsMessage(ws, (m) => m.type === "processes");
+		const { pid } = manager.start(session.id, "dev", "sleep 30");
+		const listed = (await update) as Extract<ServerMessage, { type: "processes" }>;
+		expect(listed.processes.map((p) => [p.name, p.state])).toEqual([["dev", "running"]]);
+
+		ws.close();
+		await waitFor(() => !isRunning(pid));
+		expect(manager.list(session.id)).toEqual([]);
+	});
+});
@@ -5,6 +5,14 @@ import path from "node:path";
 import { bashTool } from "../src/tool/bash";
 import type { ToolContext } from "../src/tool/tool";
 
+/** Whether `pid` is still running; a killed process its parent has not reaped yet counts as gone. */
+function isRunning(pid: number): boolean {
+	const state = Bun.spawnSync(["ps", "-o", "stat=", "-p", String(pid)])
+		.stdout.toString()
+		.trim();
+	return state.length > 0 && !state.startsWith("Z");
+}
+
 describe("bashTool", () => {
 	let tmpDir: string;
 	let ctx: ToolContext;
@@ -150,4 +158,50 @@ describe("bashTool", () => {
 			expect(result.summary).toMatch(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2} \| timed out \| \d+\.\d{2}s$/);
 		}, 10000);
 	});
+
+	describe("live output", () => {
+		test("streams output while the command runs and keeps the final result unchanged", async () => {
+			const chunks: { text: string; at: number }[] = [];
+			const start = performance.now();
+			const result = await bashTool.execute(
+				{ command: "echo first\nsleep 0.5\necho second >&2" },
+				{ ...ctx, onOutput: (text) => chunks.push({ text, at: performance.now() - start }) },
+			);
+
+			expect(chunks.map((c) => c.text).join("")).toBe("first\nsecond\n");
+			// The first line arrives before the command finishes
+			expect(chunks[0]?.text).toBe("first\n");
+			expect(chunks[0]?.at).toBeLessThan(400);
+			expect(result.llmOutput).toBe("first\nsecond\n\nexit code: 0");
+		}, 10000);
+
+		test("abort kills the whole process group", async () => {
+			const pidFile = path.join(tmpDir, "child.pid");
+			const controller = new AbortController();
+			const pending = bashTool.execute(
+				{ command: `sleep 30 &\necho $! > ${pidFile}\necho started\nwait` },
+				{
+					...ctx,
+					signal: controller.signal,
+					onOutput: (text) => {
+						if (text.includes("started")) controller.abort();
+					},
+				},
+			);
+
+			const result = await pending;
+			expect(result.llmOutput).toBe("started\n\nCommand aborted");
+			expect(result.summary).toMatch(/ \| aborted \| /);
+			const childPid = Number(fs.readFileSync(pidFile, "utf8"));
+			expect(isRunning(childPid)).toBe(false);
+		}, 10000);
+
+		test("a timeout also kills background children", async () => {
+			const pidFile = path.join(tmpDir, "timeout-child.pid");
+			const result = await bashTool.execute({ command: `sleep 30 &\necho $! > ${pidFile}\nwait`, timeout: 300 }, ctx);
+			expect(result.llmOutput).toBe("Command timed out after 300ms");
+			const childPid = Number(fs.readFileSync(pidFile, "utf8"));
+			expect(isRunning(childPid)).toBe(false);
+		}, 10000);
+	});
 });
@@ -0,0 +1,223 @@
+import type { Database } from "bun:sqlite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { resolveBudgetPolicy } from "../src/budget/policy";
+import { createBudgetTracker } from "../src/budget/tracker";
+import { handlePrompt } from "../src/handler";
+import type { Provider, ProviderOptions, StreamEvent } from "../src/provider/provider";
+import { appendMessage, createSession, createSubagentSession, getMessages } from "../src/session/repository";
+import type { SkillRegistry } from "../src/skill/skill";
+import { createTestDb } from "./helpers";
+import { writeUnifiedModelsConfig } from "./test-models";
+
+const MODEL = "priced-model";
+/** $1 per million input tokens, so every 100k-token call costs $0.10. */
+const CALL = { inputTokens: 100_000, outputTokens: 0, cachedInputTokens: 0, cacheCreationInputTokens: 0 };
+
+let configDir: string;
+let db: Database;
+
+beforeAll(() => {
+	configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-budget-"));
+	writeUnifiedModelsConfig(configDir, {
+		openrouter: [{ id: MODEL, name: "Priced", contextWindow: 1_000_000, maxOutput: 16384, inputPrice: 1, outputPrice: 0 }],
+	});
+});
+
+afterAll(() => {
+	fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+	db = createTestDb();
+});
+
+afterEach(() => {
+	db.close();
+});
+
+/** A finished turn that spent `inputTokens` on the priced model. */
+function seedTurn(sessionId: string, inputTokens: number) {
+	appendMessage(db, sessionId, "user", "go");
+	appendMessage(db, sessionId, "assistant", "done", {
+		turn_model: MODEL,
+		turn_metrics: { input_tokens_total: inputTokens, output_tokens_total: 0 },
+	});
+}
+
+describe("resolveBudgetPolicy", () => {
+	test("returns undefined without any cap", () => {
+		expect(resolveBudgetPolicy(undefined, undefined)).toBeUndefined();
+		expect(resolveBudgetPolicy({ warnAt: [0.5] }, {})).toBeUndefined();
+	});
+
+	test("project fields win over global ones", () => {
+		expect(resolveBudgetPolicy({ perSession: 5 }, { perSession: 10, perDay: 20, warnAt: [0.9] })).toEqual({
+			perTurn: undefined,
+			perSession: 5,
+			perDay: 20,
+			warnAt: [0.9],
+		});
+	});
+
+	test("drops invalid amounts and warning fractions", () => {
+		expect(resolveBudgetPolicy({ perTurn: -1, perDay: 3, warnAt: [0.9, 2, 0, 0.5, 0.9] })).toEqual({
+			perTurn: undefined,
+			perSession: undefined,
+			perDay: 3,
+			warnAt: [0.5, 0.9],
+		});
+		expect(resolveBudgetPolicy({ perDay: 3 })?.warnAt).toEqual([0.8]);
+		expect(resolveBudgetPolicy({ perDay: 3, warnAt: [] })?.warnAt).toEqual([]);
+	});
+});
+
+describe("createBudgetTracker", () => {
+	test("warns once per threshold and stops at the cap", () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		const warnings: string[] = [];
+		const tracker = createBudgetTracker(db, {
+			policy: { perTurn: 0.3, warnAt: [0.5, 0.8] },
+			rootSessionId: session.id,
+			configDir,
+			onWarning: (message) => warnings.push(message),
+		});
+
+		tracker.recordUsage("openrouter", MODEL, CALL);
+		expect(warnings).toEqual([]);
+		tracker.recordUsage("openrouter", MODEL, CALL);
+		expect(warnings).toEqual(["Turn budget 50% used: $0.20 of $0.30"]);
+		expect(tracker.exceeded()).toBeNull();
+
+		tracker.recordUsage("openrouter", MODEL, CALL);
+		expect(warnings).toHaveLength(1);
+		expect(tracker.exceeded()?.message).toBe("Turn budget exceeded: $0.30 of $0.30");
+	});
+
+	test("counts earlier turns of the session and its subagents", () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		seedTurn(session.id, 200_000);
+		const child = createSubagentSession(db, session.id, "Explore", MODEL, "openrouter");
+		seedTurn(child.id, 100_000);
+		const warnings: string[] = [];
+
+		const tracker = createBudgetTracker(db, {
+			policy: { perSession: 0.35, warnAt: [0.8] },
+			rootSessionId: session.id,
+			configDir,
+			onWarning: (message) => warnings.push(message),
+		});
+		expect(tracker.exceeded()).toBeNull();
+
+		tracker.recordUsage("openrouter", MODEL, CALL);
+		// 80% was already passed before this turn
+		expect(warnings).toEqual([]);
+		expect(tracker.exceeded()?.message).toBe("Session budget exceeded: $0.40 of $0.35");
+	});
+
+	test("daily cap counts every session since local midnight", () => {
+		seedTurn(createSession(db, { provider: "openrouter", model: MODEL }).id, 300_000);
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		const options = { policy: { perDay: 0.3, warnAt: [] }, rootSessionId: session.id, configDir, onWarning: () => {} };
+
+		expect(createBudgetTracker(db, options).exceeded()?.message).toBe("Daily budget exceeded: $0.30 of $0.30");
+		const tomorrow = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+		expect(createBudgetTracker(db, { ...options, now: tomorrow }).exceeded()).toBeNull();
+	});
+
+	test("models without prices are free", () => {
+		const session = createSession(db);
+		const tracker = createBudgetTracker(db, {
+			policy: { perTurn: 0.01, warnAt: [] },
+			rootSessionId: session.id,
+			configDir,
+			onWarning: () => {},
+		});
+		tracker.recordUsage("openrouter", "unpriced", CALL);
+		tracker.recordUsage("mock", MODEL, CALL);
+		expect(tracker.exceeded()).toBeNull();
+	});
+});
+
+describe("handlePrompt with a budget", () => {
+	const emptySkills: SkillRegistry = { get: () => undefined, list: () => [] };
+
+	/** Calls list_directory forever, billing 100k input tokens per call. */
+	function loopingProvider(): Provider & { calls: number } {
+		const provider = {
+			id: "openrouter",
+			calls: 0,
+			async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+				provider.calls++;
+				opts.onMetrics?.({ model: MODEL, promptTokens: 100_000, outputTokens: 0, promptChars: 100, totalTokens: 100_000 });
+				yield { type: "tool_call_start", index: 0, id: `call_${provider.calls}`, name: "list_directory" };
+				yield { type: "tool_call_delta", index: 0, arguments: '{"path":"."}' };
+				yield { type: "finish", reason: "tool_calls" };
+			},
+		};
+		return provider;
+	}
+
+	function mockWs() {
+		const sent: { type: string; message?: string; sessionId?: string }[] = [];
+		return { send: (msg: string) => sent.push(JSON.parse(msg)), sent };
+	}
+
+	test("stops the turn once a cap is exceeded and records what was spent", async () => {
+		const provider = loopingProvider();
+		const ws = mockWs();
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+
+		await handlePrompt({
+			ws,
+			db,
+			provider,
+			model: MODEL,
+			sessionId: session.id,
+			text: "list everything",
+			projectRoot: os.tmpdir(),
+			configDir,
+			skills: emptySkills,
+			budget: { perTurn: 0.25, warnAt: [0.8] },
+		});
+
+		expect(provider.calls).toBe(3);
+		expect(ws.sent.filter((m) => m.type === "warning")).toEqual([
+			{ type: "warning", message: "Turn budget 80% used: $0.20 of $0.25" },
+		]);
+		expect(ws.sent.filter((m) => m.type === "error")).toEqual([
+			{ type: "error", message: "Turn budget exceeded: $0.30 of $0.25" },
+		]);
+		const stored = getMessages(db, session.id);
+		// The third call's tool is never run
+		expect(stored.filter((m) => m.role === "tool")).toHaveLength(2);
+		expect(stored.at(-1)?.content).toBe("[Error: Turn budget exceeded: $0.30 of $0.25]");
+		expect(stored.at(-1)?.metadata?.turn_metrics).toMatchObject({ input_tokens_total: 300_000 });
+		expect(ws.sent.at(-1)?.type).toBe("done");
+	});
+
+	test("refuses new turns once the session cap is spent", async () => {
+		const provider = loopingProvider();
+		const ws = mockWs();
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		seedTurn(session.id, 300_000);
+
+		await handlePrompt({
+			ws,
+			db,
+			provider,
+			model: MODEL,
+			sessionId: session.id,
+			text: "one more thing",
+			projectRoot: os.tmpdir(),
+			configDir,
+			skills: emptySkills,
+			budget: { perSession: 0.25, warnAt: [] },
+		});
+
+		expect(provider.calls).toBe(0);
+		expect(ws.sent.find((m) => m.type === "error")?.message).toBe("Session budget exceeded: $0.30 of $0.25");
+	});
+});
@@ -0,0 +1,315 @@
+import type { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createFileSnapshotRecorder, listCheckpoints, rollbackToCheckpoint } from "../src/checkpoint";
+import { listFileSnapshotsFrom } from "../src/checkpoint/repository";
+import { handleCommand } from "../src/command";
+import { FileTime } from "../src/file/time";
+import {
+	appendMessage,
+	createSession,
+	createSubagentSession,
+	deleteSession,
+	getMessages,
+	getRootSessionId,
+	getSession,
+} from "../src/session/repository";
+import { createTestDb, startTestServer } from "./helpers";
+
+let db: Database;
+let root: string;
+
+beforeEach(() => {
+	db = createTestDb();
+	root = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-checkpoint-"));
+});
+
+afterEach(() => {
+	db.close();
+	fs.rmSync(root, { recursive: true, force: true });
+});
+
+function file(relative: string): string {
+	return path.join(root, relative);
+}
+
+function read(relative: string): string {
+	return fs.readFileSync(file(relative), "utf-8");
+}
+
+/** Simulate a tool writing a file: snapshot first, then overwrite. */
+function toolWrite(sessionId: string, toolCallId: string, relative: string, content: string) {
+	const record = createFileSnapshotRecorder(db, root);
+	record(sessionId, toolCallId, file(relative));
+	fs.mkdirSync(path.dirname(file(relative)), { recursive: true });
+	fs.writeFileSync(file(relative), content);
+}
+
+/** Three turns: turn 1 edits a.txt, turn 2 edits a.txt and creates b.txt, turn 3 touches nothing. */
+function seedSession(): string {
+	fs.writeFileSync(file("a.txt"), "v0");
+	const session = createSession(db);
+
+	appendMessage(db, session.id, "user", "first");
+	toolWrite(session.id, "call_1", "a.txt", "v1");
+	appendMessage(db, session.id, "assistant", "done 1");
+
+	appendMessage(db, session.id, "user", "second");
+	toolWrite(session.id, "call_2", "a.txt", "v2");
+	toolWrite(session.id, "call_3", "nested/b.txt", "new");
+	appendMessage(db, session.id, "assistant", "done 2");
+
+	appendMessage(db, session.id, "user", "third");
+	appendMessage(db, session.id, "assistant", "done 3");
+	return session.id;
+}
+
+describe("createFileSnapshotRecorder", () => {
+	test("stores the prior content under the current turn with a project-relative path", () => {
+		const sessionId = seedSession();
+
+		const snapshots = listFileSnapshotsFrom(db, sessionId, 0);
+
+		expect(snapshots.map((s) => [s.toolCallId, s.filePath, s.turnSortOrder])).toEqual([
+			["call_1", "a.txt", 0],
+			["call_2", "a.txt", 2],
+			["call_3", path.join("nested", "b.txt"), 2],
+		]);
+		expect(new TextDecoder().decode(snapshots[0]?.content ?? undefined)).toBe("v0");
+		expect(snapshots[2]?.content).toBeNull();
+	});
+
+	test("attributes subagent edits to the parent's current turn", () => {
+		const parent = createSession(db);
+		appendMessage(db, parent.id, "user", "delegate");
+		const child = createSubagentSession(db, parent.id, "Task", "m", "openrouter", "openai-chat");
+
+		toolWrite(child.id, "call_child", "c.txt", "from child");
+
+		const [snapshot] = listFileSnapshotsFrom(db, parent.id, 0);
+		expect(snapshot).toMatchObject({ sessionId: child.id, rootSessionId: parent.id, turnSortOrder: 0 });
+	});
+});
+
+describe("listCheckpoints", () => {
+	test("lists one checkpoint per user turn with the files it changed", () => {
+		const sessionId = seedSession();
+
+		const checkpoints = listCheckpoints(db, sessionId);
+
+		expect(checkpoints.map((c) => [c.index, c.text, c.files])).toEqual([
+			[1, "first", ["a.txt"]],
+			[2, "second", ["a.txt", path.join("nested", "b.txt")]],
+			[3, "third", []],
+		]);
+	});
+});
+
+describe("rollbackToCheckpoint", () => {
+	test("restores files to their state before the turn and removes files the turns created", () => {
+		const sessionId = seedSession();
+		const checkpoint = listCheckpoints(db, sessionId)[1];
+		if (!checkpoint) throw new Error("checkpoint expected");
+
+		const result = rollbackToCheckpoint(db, root, sessionId, checkpoint, { truncate: false });
+
+		expect(result).toEqual({ restored: ["a.txt"], deleted: [path.join("nested", "b.txt")], truncated: false });
+		expect(read("a.txt")).toBe("v1");
+		expect(fs.existsSync(file("nested/b.txt"))).toBe(false);
+		expect(getMessages(db, sessionId)).toHaveLength(6);
+		expect(listFileSnapshotsFrom(db, sessionId, 0).map((s) => s.toolCallId)).toEqual(["call_1"]);
+	});
+
+	test("uses the earliest snapshot when several turns touched the same file", () => {
+		const sessionId = seedSession();
+		const checkpoint = listCheckpoints(db, sessionId)[0];
+		if (!checkpoint) throw new Error("checkpoint expected");
+
+		rollbackToCheckpoint(db, root, sessionId, checkpoint, { truncate: false });
+
+		expect(read("a.txt")).toBe("v0");
+	});
+
+	test("truncate removes the turn's prompt and everything after it", () => {
+		const sessionId = seedSession();
+		const checkpoint = listCheckpoints(db, sessionId)[1];
+		if (!checkpoint) throw new Error("checkpoint expected");
+
+		rollbackToCheckpoint(db, root, sessionId, checkpoint, { truncate: true });
+
+		expect(getMessages(db, sessionId).map((m) => m.content)).toEqual(["first", "done 1"]);
+		expect(listCheckpoints(db, sessionId)).toHaveLength(1);
+	});
+
+	test("truncate deletes subagent sessions started in the removed turns", async () => {
+		const parent = createSession(db);
+		appendMessage(db, parent.id, "user", "keep");
+		const kept = createSubagentSession(db, parent.id, "Kept", "m", "openrouter", "openai-chat");
+		await Bun.sleep(5);
+		appendMessage(db, parent.id, "user", "drop");
+		const dropped = createSubagentSession(db, parent.id, "Dropped", "m", "openrouter", "openai-chat");
+		appendMessage(db, dropped.id, "user", "child prompt");
+		const checkpoint = listCheckpoints(db, parent.id)[1];
+		if (!checkpoint) throw new Error("checkpoint expected");
+
+		rollbackToCheckpoint(db, root, parent.id, checkpoint, { truncate: true });
+
+		expect(getSession(db, kept.id)).not.toBeNull();
+		expect(getSession(db, dropped.id)).toBeNull();
+		expect(getMessages(db, dropped.id)).toEqual([]);
+	});
+
+	test("clears read stamps so the next edit must re-read the file", () => {
+		const sessionId = seedSession();
+		FileTime.read(sessionId, file("a.txt"));
+		const checkpoint = listCheckpoints(db, sessionId)[0];
+		if (!checkpoint) throw new Error("checkpoint expected");
+
+		rollbackToCheckpoint(db, root, sessionId, checkpoint, { truncate: false });
+
+		expect(() => FileTime.assert(sessionId, file("a.txt"))).toThrow("You must read file");
+	});
+});
+
+describe("session helpers", () => {
+	test("getRootSessionId follows parent links", () => {
+		const parent = createSession(db);
+		const child = createSubagentSession(db, parent.id, "Task", "m", "openrouter", "openai-chat");
+		const grandchild = createSubagentSession(db, child.id, "Nested", "m", "openrouter", "openai-chat");
+
+		expect(getRootSessionId(db, grandchild.id)).toBe(parent.id);
+		expect(getRootSessionId(db, parent.id)).toBe(parent.id);
+	});
+
+	test("deleteSession removes the session's snapshots", () => {
+		const sessionId = seedSession();
+
+		deleteSession(db, sessionId);
+
+		expect(listFileSnapshotsFrom(db, sessionId, 0)).toEqual([]);
+	});
+});
+
+describe(".undo and .checkpoint commands", () => {
+	test(".undo rolls back the last turn by default", () => {
+		const sessionId = seedSession();
+		fs.writeFileSync(file("a.txt"), "v2");
+
+		const result = handleCommand(db, { command: "undo", args: "", sessionId }, { projectRoot: root });
+
+		expect(result).toMatchObject({ ok: true, sessionId, truncated: true });
+		expect(getMessages(db, sessionId).map((m) => m.content)).toEqual(["first", "done 1", "second", "done 2"]);
+		expect(read("a.txt")).toBe("v2");
+	});
+
+	test(".undo n rolls back the last n turns and reports the changed files", () => {
+		const sessionId = seedSession();
+
+		const result = handleCommand(db, { command: "undo", args: "2", sessionId }, { projectRoot: root });
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.messages?.map((m) => m.text)).toEqual([
+			"Rolled workspace and conversation back to before turn 2 (2 files restored)",
+			"restored a.txt",
+			`deleted ${path.join("nested", "b.txt")}`,
+		]);
+		expect(read("a.txt")).toBe("v1");
+	});
+
+	test(".undo rejects counts larger than the session", () => {
+		const sessionId = seedSession();
+		expect(handleCommand(db, { command: "undo", args: "4", sessionId }, { projectRoot: root })).toEqual({
+			ok: false,
+			error: "Only 3 turns to undo",
+		});
+		expect(handleCommand(db, { command: "undo", args: "x", sessionId }, { projectRoot: root })).toEqual({
+			ok: false,
+			error: 'Invalid turn count: "x"',
+		});
+	});
+
+	test(".undo without any turns reports nothing to undo", () => {
+		const session = createSession(db);
+		expect(handleCommand(db, { command: "undo", args: "", sessionId: session.id }, { projectRoot: root })).toEqual({
+			ok: false,
+			error: "Nothing to undo",
+		});
+	});
+
+	test(".checkpoint n files restores files but keeps the conversation", () => {
+		const sessionId = seedSession();
+
+		const result = handleCommand(db, { command: "checkpoint", args: "1 files", sessionId }, { projectRoot: root });
+
+		expect(result).toMatchObject({ ok: true, truncated: false });
+		expect(read("a.txt")).toBe("v0");
+		expect(getMessages(db, sessionId)).toHaveLength(6);
+	});
+
+	test(".checkpoint validates its arguments", () => {
+		const sessionId = seedSession();
+		expect(handleCommand(db, { command: "checkpoint", args: "9", sessionId }, { projectRoot: root })).toEqual({
+			ok: false,
+			error: "Invalid checkpoint index: 9",
+		});
+		expect(handleCommand(db, { command: "checkpoint", args: "1 all", sessionId }, { projectRoot: root })).toEqual({
+			ok: false,
+			error: "Usage: .checkpoint <n> [files]",
+		});
+	});
+
+	test("rollback is refused without a session, for subagents, and while the agent is working", () => {
+		expect(handleCommand(db, { command: "undo", args: "" }, { projectRoot: root })).toEqual({
+			ok: false,
+			error: "No session to roll back",
+		});
+
+		const sessionId = seedSession();
+		const child = createSubagentSession(db, sessionId, "Task", "m", "openrouter", "openai-chat");
+		appendMessage(db, child.id, "user", "child prompt");
+		expect(handleCommand(db, { command: "undo", args: "", sessionId: child.id }, { projectRoot: root })).toEqual({
+			ok: false,
+			error: "Subagent sessions cannot be rolled back",
+		});
+
+		expect(
+			handleCommand(db, { command: "undo", args: "", sessionId }, { projectRoot: root, isSessionBusy: () => true }),
+		).toEqual({ ok: false, error: "Cannot roll back while the agent is working" });
+		expect(handleCommand(db, { command: "undo", args: "", sessionId }, {})).toEqual({
+			ok: false,
+			error: "Project root not available",
+		});
+	});
+});
+
+describe("checkpoints endpoint", () => {
+	test("GET /bobai/session/:id/checkpoints lists the session's turns", async () => {
+		const sessionId = seedSession();
+		const started = startTestServer({ port: 0, db, projectRoot: root });
+		try {
+			const res = await fetch(`${started.baseUrl}/bobai/session/${sessionId}/checkpoints`);
+			const body = (await res.json()) as { index: number; text: string; files: string[] }[];
+			expect(body.map((c) => [c.index, c.text, c.files.length])).toEqual([
+				[1, "first", 1],
+				[2, "second", 2],
+				[3, "third", 0],
+			]);
+
+			expect((await fetch(`${started.baseUrl}/bobai/session/missing/checkpoints`)).status).toBe(404);
+		} finally {
+			started.server.stop(true);
+		}
+	});
+
+	test("returns 503 when db is not configured", async () => {
+		const started = startTestServer({ port: 0, projectRoot: root });
+		try {
+			expect((await fetch(`${started.baseUrl}/bobai/session/s1/checkpoints`)).status).toBe(503);
+		} finally {
+			started.server.stop(true);
+		}
+	});
+});
@@ -42,4 +42,65 @@ describe("parseCLI", () => {
 	test("refresh rejects removed --verify flag", () => {
 		expect(() => parseCLI(["refresh", "--verify"])).toThrow(/--verify has been removed/);
 	});
+	test("run joins positional arguments into the prompt", () => {
+		const result = parseCLI(["run", "fix", "the tests"]);
+		expect(result).toEqual({ command: "run", debug: false, prompt: "fix the tests", json: false });
+	});
+
+	test("run parses session, backend and output flags", () => {
+		const result = parseCLI([
+			"run",
+			"hello",
+			"--session",
+			"s1",
+			"--provider",
+			"openrouter",
+			"--model",
+			"m1",
+			"--json",
+			"--debug",
+		]);
+		expect(result).toEqual({
+			command: "run",
+			debug: true,
+			prompt: "hello",
+			json: true,
+			sessionId: "s1",
+			provider: "openrouter",
+			model: "m1",
+		});
+	});
+
+	test("run rejects a missing prompt, missing values and unknown options", () => {
+		expect(() => parseCLI(["run"])).toThrow("Usage: bobai run");
+		expect(() => parseCLI(["run", "hi", "--session"])).toThrow("--session requires a value");
+		expect(() => parseCLI(["run", "hi", "--model", "--json"])).toThrow("--model requires a value");
+		expect(() => parseCLI(["run", "hi", "--verbose"])).toThrow("Unknown option for run: --verbose");
+	});
+
+	test("export defaults to markdown on stdout", () => {
+		expect(parseCLI(["export", "s1"])).toEqual({ command: "export", debug: false, sessionId: "s1", format: "markdown" });
+	});
+
+	test("export parses format and output", () => {
+		expect(parseCLI(["export", "s1", "--format", "html", "--output", "out.html"])).toEqual({
+			command: "export",
+			debug: false,
+			sessionId: "s1",
+			format: "html",
+			output: "out.html",
+		});
+	});
+
+	test("export rejects a missing session, unknown formats and options", () => {
+		expect(() => parseCLI(["export"])).toThrow("Usage: bobai export");
+		expect(() => parseCLI(["export", "s1", "--format", "pdf"])).toThrow("Unknown export format: pdf");
+		expect(() => parseCLI(["export", "s1", "--output"])).toThrow("--output requires a value");
+		expect(() => parseCLI(["export", "s1", "--zip"])).toThrow("Unknown option for export: --zip");
+	});
+
+	test("import takes a file", () => {
+		expect(parseCLI(["import", "session.json"])).toEqual({ command: "import", debug: false, file: "session.json" });
+		expect(() => parseCLI(["import"])).toThrow("Usage: bobai import");
+	});
 });
@@ -0,0 +1,210 @@
+import type { Database } from "bun:sqlite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { handleCommand } from "../src/command";
+import { getSnapshot, setSnapshot } from "../src/compaction/cache";
+import { compactMessagesWithStats } from "../src/compaction/engine";
+import { findPinTargets, getPinnedToolCallIds, summarizePins } from "../src/compaction/pin";
+import { createCompactionRegistry } from "../src/compaction/registry";
+import { handlePrompt } from "../src/handler";
+import type { Message, Provider, ProviderOptions, StreamEvent } from "../src/provider/provider";
+import {
+	appendMessage,
+	createSession,
+	createSubagentSession,
+	getMessages,
+	setToolResultsPinned,
+	updateSessionPromptTokens,
+} from "../src/session/repository";
+import type { SkillRegistry } from "../src/skill/skill";
+import { createTestDb, startTestServer } from "./helpers";
+import { writeUnifiedModelsConfig } from "./test-models";
+
+const MODEL = "small-model";
+
+let configDir: string;
+let db: Database;
+
+beforeAll(() => {
+	configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-pin-"));
+	writeUnifiedModelsConfig(configDir, {
+		openrouter: [{ id: MODEL, name: "Small", contextWindow: 10_000, maxOutput: 4096 }],
+	});
+});
+
+afterAll(() => {
+	fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+	db = createTestDb();
+});
+
+afterEach(() => {
+	db.close();
+});
+
+function readCall(id: string, filePath: string) {
+	return { id, type: "function" as const, function: { name: "read_file", arguments: JSON.stringify({ path: filePath }) } };
+}
+
+/** A session that read src/a.ts twice and lib/b.ts once. */
+function seedReads(sessionId: string, output = "1: const a = 1;") {
+	appendMessage(db, sessionId, "user", "read the sources");
+	appendMessage(db, sessionId, "assistant", "", { tool_calls: [readCall("r1", "src/a.ts"), readCall("r2", "lib/b.ts")] });
+	appendMessage(db, sessionId, "tool", output, { tool_call_id: "r1" });
+	appendMessage(db, sessionId, "tool", output, { tool_call_id: "r2" });
+	appendMessage(db, sessionId, "assistant", "", { tool_calls: [readCall("r3", "src/a.ts")] });
+	appendMessage(db, sessionId, "tool", output, { tool_call_id: "r3" });
+	appendMessage(db, sessionId, "assistant", "Read them.");
+}
+
+describe("compaction engine with pins", () => {
+	test("keeps pinned results and the calls that produced them verbatim", () => {
+		const messages: Message[] = [
+			{ role: "system", content: "system prompt" },
+			{ role: "user", content: "read the sources" },
+			{ role: "assistant", content: null, tool_calls: [readCall("r1", "src/a.ts"), readCall("r2", "lib/b.ts")] },
+			{ role: "tool", content: "x".repeat(2000), tool_call_id: "r1" },
+			{ role: "tool", content: "y".repeat(2000), tool_call_id: "r2" },
+			{ role: "user", content: "thanks" },
+			{ role: "assistant", content: "Done." },
+		];
+		const tools = createCompactionRegistry({ shells: [], grepTools: [], git: false });
+
+		const unpinned = compactMessagesWithStats({ messages, multiplier: 0.01, tools });
+		expect(unpinned.messages.some((m) => m.role === "tool")).toBe(false);
+
+		const result = compactMessagesWithStats({ messages, multiplier: 0.01, tools, pinned: new Set(["r1"]) });
+		expect(result.messages.filter((m) => m.role === "tool")).toEqual([messages[3] as Message]);
+		const assistant = result.messages.find((m) => m.role === "assistant" && m.tool_calls);
+		expect(assistant?.role === "assistant" && assistant.tool_calls?.map((tc) => tc.id)).toEqual(["r1"]);
+		expect(result.details.get("r1")).toMatchObject({ pinned: true, wasCompacted: false, wasEvicted: false });
+		expect(result.details.get("r2")?.wasEvicted).toBe(true);
+	});
+});
+
+describe("pin helpers", () => {
+	test("find targets by file or as the last result and total their cost", () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		seedReads(session.id);
+		const stored = getMessages(db, session.id);
+
+		expect(findPinTargets(stored, "src/a.ts", true)).toEqual(["r3"]);
+		expect(findPinTargets(stored, "a.ts", false)).toEqual(["r1", "r3"]);
+		expect(findPinTargets(stored, "last", true)).toEqual(["r3"]);
+		expect(findPinTargets(stored, "missing.ts", true)).toEqual([]);
+
+		expect(setToolResultsPinned(db, session.id, ["r1", "r2"], true)).toBe(2);
+		expect(setToolResultsPinned(db, session.id, ["r1"], true)).toBe(0);
+		const pinned = getMessages(db, session.id);
+		expect(getPinnedToolCallIds(pinned)).toEqual(new Set(["r1", "r2"]));
+		// Output (15 chars) plus arguments (19 and 19 chars) per result, at the fallback 3 chars per token
+		expect(summarizePins(pinned, 0, 0)).toEqual({ toolCallIds: ["r1", "r2"], chars: 68, tokens: 23 });
+		expect(summarizePins(pinned, 100, 400).tokens).toBe(17);
+	});
+});
+
+describe(".pin and .unpin commands", () => {
+	test("pin by file or last, list, and unpin", () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		seedReads(session.id);
+		const run = (command: string, args = "") => handleCommand(db, { command, args, sessionId: session.id });
+
+		expect(run("pin")).toMatchObject({ ok: true, messages: [{ text: "No pinned tool results" }] });
+
+		setSnapshot(session.id, { compactedMessages: [], rawMessageCount: 0, snapshotChars: 0 });
+		expect(run("pin", "a.ts")).toMatchObject({
+			ok: true,
+			pins: { toolCallIds: ["r3"] },
+			messages: [{ text: expect.stringContaining("Pinned read_file src/a.ts"), kind: "success" }],
+		});
+		expect(getSnapshot(session.id)).toBeUndefined();
+		expect(run("pin", "last")).toMatchObject({ ok: true, messages: [{ text: "Already pinned", kind: "info" }] });
+		expect(run("pin", "lib/b.ts").ok).toBe(true);
+
+		expect(run("pin")).toMatchObject({
+			ok: true,
+			messages: [{ text: expect.stringContaining("2 pinned") }, { text: "read_file lib/b.ts" }, { text: "read_file src/a.ts" }],
+		});
+
+		expect(run("unpin", "src/a.ts")).toMatchObject({ ok: true, pins: { toolCallIds: ["r2"] } });
+		expect(run("unpin")).toMatchObject({ ok: true, pins: { toolCallIds: [] } });
+		expect(run("unpin")).toEqual({ ok: false, error: "Nothing is pinned" });
+		expect(run("pin", "nope.ts")).toEqual({ ok: false, error: 'No read_file result for "nope.ts"' });
+	});
+
+	test("refuses subagent sessions", () => {
+		const parent = createSession(db, { provider: "openrouter", model: MODEL });
+		const child = createSubagentSession(db, parent.id, "child", MODEL, "openrouter");
+		expect(handleCommand(db, { command: "pin", args: "last", sessionId: child.id })).toEqual({
+			ok: false,
+			error: "Subagent sessions cannot be pinned",
+		});
+	});
+});
+
+describe("handlePrompt with pins", () => {
+	const emptySkills: SkillRegistry = { get: () => undefined, list: () => [] };
+
+	test("pre-prompt compaction leaves pinned results in context", async () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		// 3 chars per token puts the 80% mark at 24k chars; three 15k reads exceed it
+		seedReads(session.id, "z".repeat(15_000));
+		updateSessionPromptTokens(db, session.id, 1000, 3000);
+		handleCommand(db, { command: "pin", args: "lib/b.ts", sessionId: session.id });
+		const calls: ProviderOptions[] = [];
+		const provider: Provider = {
+			id: "openrouter",
+			async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+				calls.push(opts);
+				yield { type: "text", text: "answer" };
+				yield { type: "finish", reason: "stop" };
+			},
+		};
+
+		await handlePrompt({
+			ws: { send: () => {} },
+			db,
+			provider,
+			model: MODEL,
+			sessionId: session.id,
+			text: "now edit b",
+			projectRoot: os.tmpdir(),
+			configDir,
+			skills: emptySkills,
+		});
+
+		const sent = calls[0]?.messages ?? [];
+		const pinnedResult = sent.find((m) => m.role === "tool" && m.tool_call_id === "r2");
+		expect(pinnedResult?.content).toBe("z".repeat(15_000));
+		const others = sent.filter((m) => m.role === "tool" && m.tool_call_id !== "r2");
+		expect(others.every((m) => m.content.length < 15_000)).toBe(true);
+	});
+});
+
+describe("pin endpoints", () => {
+	test("GET lists the pins and POST toggles them", async () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		seedReads(session.id);
+		const { server, baseUrl } = startTestServer({ port: 0, db, configDir });
+		try {
+			const url = `${baseUrl}/bobai/session/${session.id}/pins`;
+			expect(await (await fetch(url)).json()).toEqual({ toolCallIds: [], chars: 0, tokens: 0 });
+
+			const post = (body: unknown) =>
+				fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+			const pinned = (await (await post({ toolCallIds: ["r1", "r3"], pinned: true })).json()) as { toolCallIds: string[] };
+			expect(pinned.toolCallIds).toEqual(["r1", "r3"]);
+			const unpinned = (await (await post({ toolCallIds: ["r1"], pinned: false })).json()) as { toolCallIds: string[] };
+			expect(unpinned.toolCallIds).toEqual(["r3"]);
+
+			expect((await post({ pinned: true })).status).toBe(400);
+			expect((await fetch(`${baseUrl}/bobai/session/missing/pins`)).status).toBe(404);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
@@ -0,0 +1,264 @@
+import type { Database } from "bun:sqlite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { handleCommand } from "../src/command";
+import { getSnapshot, setSnapshot } from "../src/compaction/cache";
+import { listCompactionPolicies, resolveCompactionSettings, selectCompactionPolicy } from "../src/compaction/config";
+import { applyCompactionPolicy, DEFAULT_COMPACTION_POLICY } from "../src/compaction/policy";
+import { createCompactionRegistry } from "../src/compaction/registry";
+import { NON_TOOL_DISTANCE } from "../src/compaction/strength";
+import { handlePrompt } from "../src/handler";
+import type { Provider, ProviderOptions, StreamEvent } from "../src/provider/provider";
+import {
+	appendMessage,
+	createSession,
+	forkSession,
+	getSession,
+	updateSessionCompaction,
+	updateSessionPromptTokens,
+} from "../src/session/repository";
+import type { SkillRegistry } from "../src/skill/skill";
+import { createTestDb, startTestServer } from "./helpers";
+import { writeUnifiedModelsConfig } from "./test-models";
+
+const MODEL = "small-model";
+
+let configDir: string;
+let db: Database;
+
+beforeAll(() => {
+	configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-policy-"));
+	writeUnifiedModelsConfig(configDir, {
+		openrouter: [{ id: MODEL, name: "Small", contextWindow: 10_000, maxOutput: 4096 }],
+	});
+});
+
+afterAll(() => {
+	fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+	db = createTestDb();
+});
+
+afterEach(() => {
+	db.close();
+});
+
+describe("resolveCompactionSettings", () => {
+	test("lists the built-in policies with the default first", () => {
+		const settings = resolveCompactionSettings();
+		expect(settings.defaultPolicy).toBe("default");
+		expect(Object.keys(settings.policies)).toEqual(["default", "conservative", "aggressive", "keep-reads"]);
+		expect(settings.policies.default).toMatchObject({ prePromptTarget: 0.8, emergencyTarget: 0.9, outputTarget: 0.5 });
+		expect(settings.policies["keep-reads"]?.tools.read_file?.baseDistance).toBe(NON_TOOL_DISTANCE);
+	});
+
+	test("top-level fields tune every policy and named policies override them", () => {
+		const settings = resolveCompactionSettings(
+			{
+				outputTarget: 0.4,
+				tools: { bash: { outputThreshold: 0.2 } },
+				policies: {
+					aggressive: { outputTarget: 0.3 },
+					monorepo: { description: "Big repo", prePromptTarget: 0.7, tools: { bash: { baseDistance: 60 } } },
+				},
+				policy: "monorepo",
+			},
+			{ prePromptTarget: 0.75, policies: { scripts: { prePromptTarget: 0.95 } } },
+		);
+
+		expect(settings.defaultPolicy).toBe("monorepo");
+		expect(settings.policies.default).toMatchObject({ prePromptTarget: 0.75, outputTarget: 0.4 });
+		expect(settings.policies.conservative).toMatchObject({ prePromptTarget: 0.9, outputTarget: 0.7 });
+		expect(settings.policies.aggressive?.outputTarget).toBe(0.3);
+		expect(settings.policies.monorepo).toMatchObject({
+			name: "monorepo",
+			description: "Big repo",
+			prePromptTarget: 0.7,
+			outputTarget: 0.4,
+			tools: { bash: { outputThreshold: 0.2, baseDistance: 60 } },
+		});
+		expect(settings.policies.scripts?.prePromptTarget).toBe(0.95);
+	});
+
+	test("drops out-of-range values and falls back from an unknown default policy", () => {
+		const settings = resolveCompactionSettings({
+			prePromptTarget: 1.5,
+			outputTarget: 0,
+			tools: { bash: { baseDistance: -1, outputThreshold: 2, argsThreshold: 0.5 } },
+			policy: "missing",
+		});
+		expect(settings.defaultPolicy).toBe("default");
+		expect(settings.policies.default).toMatchObject({ prePromptTarget: 0.8, outputTarget: 0.5 });
+		expect(settings.policies.default?.tools.bash).toEqual({ argsThreshold: 0.5 });
+	});
+});
+
+describe("selectCompactionPolicy", () => {
+	test("prefers the session's choice while it exists", () => {
+		const settings = resolveCompactionSettings({ policy: "conservative" });
+		expect(selectCompactionPolicy(settings, "aggressive").name).toBe("aggressive");
+		expect(selectCompactionPolicy(settings, "removed").name).toBe("conservative");
+		expect(selectCompactionPolicy(settings, null).name).toBe("conservative");
+		expect(selectCompactionPolicy(undefined, "keep-reads").name).toBe("keep-reads");
+	});
+});
+
+describe("applyCompactionPolicy", () => {
+	test("overrides distances and thresholds the tool can act on", () => {
+		const registry = createCompactionRegistry({ shells: ["bash"], grepTools: [], git: false });
+		const policy = {
+			...DEFAULT_COMPACTION_POLICY,
+			tools: {
+				read_file: { baseDistance: 500, outputThreshold: 0.1 },
+				write_file: { outputThreshold: 0.1, argsThreshold: 0.2 },
+			},
+		};
+		const applied = applyCompactionPolicy(registry, policy);
+
+		expect(applied.get("read_file")).toMatchObject({ baseDistance: 500, outputThreshold: 0.1 });
+		// write_file has compactArgs() but no compact(), so only the argument threshold applies
+		expect(applied.get("write_file")?.outputThreshold).toBeUndefined();
+		expect(applied.get("write_file")?.argsThreshold).toBe(0.2);
+		expect(applied.get("bash")).toBe(registry.get("bash"));
+		expect(applyCompactionPolicy(registry, DEFAULT_COMPACTION_POLICY)).toBe(registry);
+	});
+});
+
+describe(".policy command", () => {
+	test("shows, selects by index or name, and rejects unknown policies", () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		const req = (args: string) => handleCommand(db, { command: "policy", args, sessionId: session.id });
+
+		expect(req("")).toMatchObject({ ok: true, messages: [{ text: expect.stringContaining("Compaction policy: default —") }] });
+
+		setSnapshot(session.id, { compactedMessages: [], rawMessageCount: 0, snapshotChars: 0 });
+		expect(req("3")).toMatchObject({ ok: true, messages: [{ text: "Compaction policy: aggressive", kind: "success" }] });
+		expect(getSession(db, session.id)?.compactionPolicy).toBe("aggressive");
+		expect(getSnapshot(session.id)).toBeUndefined();
+
+		expect(req("keep-reads").ok).toBe(true);
+		expect(getSession(db, session.id)?.compactionPolicy).toBe("keep-reads");
+
+		const unknown = req("tiny");
+		expect(unknown.ok).toBe(false);
+		expect(!unknown.ok && unknown.error).toContain("Available: default, conservative, aggressive, keep-reads");
+		expect(req("9").ok).toBe(false);
+	});
+
+	test("lists configured policies and carries the choice into forks", () => {
+		const compaction = resolveCompactionSettings({ policies: { monorepo: { prePromptTarget: 0.7 } } });
+		expect(listCompactionPolicies(compaction).map((p) => [p.index, p.name])).toContainEqual([5, "monorepo"]);
+
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		appendMessage(db, session.id, "user", "hi");
+		appendMessage(db, session.id, "assistant", "hello");
+		expect(handleCommand(db, { command: "policy", args: "5", sessionId: session.id }, { compaction }).ok).toBe(true);
+		expect(forkSession(db, session.id, 1)?.compactionPolicy).toBe("monorepo");
+	});
+});
+
+describe("handlePrompt with a session policy", () => {
+	const emptySkills: SkillRegistry = { get: () => undefined, list: () => [] };
+
+	function recordingProvider(): Provider & { calls: ProviderOptions[] } {
+		const calls: ProviderOptions[] = [];
+		return {
+			id: "openrouter",
+			calls,
+			async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+				calls.push(opts);
+				yield { type: "text", text: "answer" };
+				yield { type: "finish", reason: "stop" };
+			},
+		};
+	}
+
+	test("compacts with the policy's targets and records its name", async () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		// 3 chars per token: 22k chars stay under the default 80% mark (24k) but exceed aggressive's 60% (18k)
+		appendMessage(db, session.id, "user", "write the parser");
+		appendMessage(db, session.id, "assistant", "", {
+			tool_calls: [{ id: "c1", type: "function", function: { name: "write_file", arguments: '{"path":"a.ts"}' } }],
+		});
+		appendMessage(db, session.id, "tool", "x".repeat(22_000), { tool_call_id: "c1" });
+		appendMessage(db, session.id, "assistant", "Parser written.");
+		updateSessionPromptTokens(db, session.id, 1000, 3000);
+		handleCommand(db, { command: "policy", args: "aggressive", sessionId: session.id });
+		const provider = recordingProvider();
+
+		await handlePrompt({
+			ws: { send: () => {} },
+			db,
+			provider,
+			model: MODEL,
+			sessionId: session.id,
+			text: "now the tests",
+			projectRoot: os.tmpdir(),
+			configDir,
+			skills: emptySkills,
+		});
+
+		expect(provider.calls[0]?.messages.some((m) => m.role === "tool")).toBe(false);
+		expect(getSession(db, session.id)?.lastCompaction).toMatchObject({ policy: "aggressive", target: 0.35 });
+	});
+});
+
+describe("compaction policy endpoints", () => {
+	test("GET /bobai/compaction/policies lists policies with the session's current one", async () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		handleCommand(db, { command: "policy", args: "conservative", sessionId: session.id });
+		const { server, baseUrl } = startTestServer({ port: 0, db, configDir });
+		try {
+			const body = (await (await fetch(`${baseUrl}/bobai/compaction/policies?sessionId=${session.id}`)).json()) as {
+				policies: { index: number; name: string; description: string }[];
+				current: string;
+			};
+			expect(body.current).toBe("conservative");
+			expect(body.policies.map((p) => p.name)).toEqual(["default", "conservative", "aggressive", "keep-reads"]);
+			expect(body.policies[0]?.index).toBe(1);
+
+			const fresh = (await (await fetch(`${baseUrl}/bobai/compaction/policies`)).json()) as { current: string };
+			expect(fresh.current).toBe("default");
+		} finally {
+			server.stop(true);
+		}
+	});
+
+	test("the compacted context view names the policy behind each decision", async () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		updateSessionPromptTokens(db, session.id, 100, 400);
+		appendMessage(db, session.id, "user", "read it");
+		appendMessage(db, session.id, "assistant", "", {
+			tool_calls: [{ id: "tc1", type: "function", function: { name: "read_file", arguments: '{"path":"a.ts"}' } }],
+		});
+		appendMessage(db, session.id, "tool", "1: const a = 1;", { tool_call_id: "tc1" });
+		updateSessionCompaction(db, session.id, {
+			multiplier: 1,
+			iterations: 1,
+			charsBefore: 500,
+			charsAfter: 400,
+			charBudget: 450,
+			charsPerToken: 4,
+			target: 0.5,
+			type: "pre-prompt",
+			policy: "keep-reads",
+			elapsedMs: 1,
+		});
+		const { server, baseUrl } = startTestServer({ port: 0, db, configDir, providerId: "openrouter", model: MODEL });
+		try {
+			const body = (await (await fetch(`${baseUrl}/bobai/session/${session.id}/context?compacted=true`)).json()) as {
+				stats: { policy: string; toolReach: { name: string; baseDistance: number }[] };
+				details: Record<string, { policy: string }>;
+			};
+			expect(body.stats.policy).toBe("keep-reads");
+			expect(body.details.tc1?.policy).toBe("keep-reads");
+			expect(body.stats.toolReach.find((r) => r.name === "read_file")?.baseDistance).toBe(NON_TOOL_DISTANCE);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
@@ -0,0 +1,228 @@
+import type { Database } from "bun:sqlite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { resolveCompactionSettings } from "../src/compaction/config";
+import type { CompactionDetail } from "../src/compaction/engine";
+import { type CompactionSummary, findEvictedSpan, injectSummary, summarizeEviction } from "../src/compaction/summarize";
+import { handlePrompt } from "../src/handler";
+import type { Message, Provider, ProviderOptions, StreamEvent } from "../src/provider/provider";
+import { ProviderError } from "../src/provider/provider";
+import { appendMessage, createSession, getSession, updateSessionPromptTokens } from "../src/session/repository";
+import type { SkillRegistry } from "../src/skill/skill";
+import { createTestDb } from "./helpers";
+import { writeUnifiedModelsConfig } from "./test-models";
+
+const MODEL = "small-model";
+const SUMMARY = "## Goals\n- ship the parser\n## Decisions\n- none\n## Files touched\n- src/parser.ts\n## Open TODOs\n- none";
+
+/** Answers summary calls with SUMMARY and everything else with "answer", reporting 1000 in / 100 out tokens per call. */
+function summarizingProvider(): Provider & { calls: ProviderOptions[] } {
+	const calls: ProviderOptions[] = [];
+	return {
+		id: "openrouter",
+		calls,
+		async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+			calls.push(opts);
+			const isSummary = opts.messages[0]?.content?.startsWith("You condense");
+			yield { type: "text", text: isSummary ? SUMMARY : "answer" };
+			opts.onMetrics?.({ model: MODEL, promptTokens: 1000, outputTokens: 100, promptChars: 3000, totalTokens: 1100 });
+			yield { type: "finish", reason: "stop" };
+		},
+	};
+}
+
+function evicted(): CompactionDetail {
+	return {
+		distance: 0,
+		compactionFactor: 1,
+		baseDistance: 150,
+		wasCompacted: false,
+		wasEvicted: true,
+		savedChars: 0,
+		savedArgsChars: 0,
+	};
+}
+
+function writeCall(id: string): Message {
+	return {
+		role: "assistant",
+		content: null,
+		tool_calls: [{ id, type: "function", function: { name: "write_file", arguments: '{"path":"a.ts"}' } }],
+	};
+}
+
+const conversation: Message[] = [
+	{ role: "system", content: "system prompt" },
+	{ role: "user", content: "write the parser" },
+	writeCall("c1"),
+	{ role: "tool", content: "wrote src/parser.ts", tool_call_id: "c1" },
+	{ role: "user", content: "now the tests" },
+	writeCall("c2"),
+	{ role: "tool", content: "wrote test/parser.test.ts", tool_call_id: "c2" },
+];
+
+describe("resolveCompactionSettings", () => {
+	test("is off by default and project wins over global", () => {
+		expect(resolveCompactionSettings(undefined, undefined).summarize).toBe(false);
+		expect(resolveCompactionSettings(undefined, { summarize: true }).summarize).toBe(true);
+		expect(resolveCompactionSettings({ summarize: false }, { summarize: true }).summarize).toBe(false);
+	});
+});
+
+describe("findEvictedSpan", () => {
+	test("ends at the last evicted tool result", () => {
+		expect(findEvictedSpan(conversation, new Map())).toBe(0);
+		expect(findEvictedSpan(conversation, new Map([["c1", evicted()]]))).toBe(3);
+		expect(findEvictedSpan(conversation, new Map([["c2", evicted()]]))).toBe(6);
+	});
+});
+
+describe("summarizeEviction", () => {
+	test("summarizes the evicted span in one tool-less call and prices it", async () => {
+		const provider = summarizingProvider();
+		const summary = await summarizeEviction({
+			provider,
+			model: MODEL,
+			compacted: conversation,
+			details: new Map([["c1", evicted()]]),
+			maxTranscriptChars: 10_000,
+			modelConfig: { id: MODEL, name: "Small", contextWindow: 10_000, maxOutput: 1000, inputPrice: 1, outputPrice: 10 },
+		});
+
+		expect(summary).toEqual({
+			text: SUMMARY,
+			coveredMessages: 3,
+			model: MODEL,
+			inputTokens: 1000,
+			outputTokens: 100,
+			cachedInputTokens: 0,
+			cacheCreationInputTokens: 0,
+			costDollars: 0.002,
+		});
+		expect(provider.calls).toHaveLength(1);
+		expect(provider.calls[0]?.tools).toBeUndefined();
+		expect(provider.calls[0]?.maxOutputTokens).toBe(1000);
+		const prompt = provider.calls[0]?.messages[1]?.content ?? "";
+		expect(prompt).toContain("wrote src/parser.ts");
+		expect(prompt).not.toContain("now the tests");
+	});
+
+	test("reuses a previous summary that covers the span and extends one that does not", async () => {
+		const provider = summarizingProvider();
+		const previous: CompactionSummary = {
+			text: "earlier summary",
+			coveredMessages: 3,
+			model: MODEL,
+			inputTokens: 1,
+			outputTokens: 1,
+			cachedInputTokens: 0,
+			cacheCreationInputTokens: 0,
+			costDollars: 0,
+		};
+		const options = { provider, model: MODEL, compacted: conversation, previous, maxTranscriptChars: 10_000 };
+
+		expect(await summarizeEviction({ ...options, details: new Map([["c1", evicted()]]) })).toBe(previous);
+		expect(provider.calls).toHaveLength(0);
+
+		const extended = await summarizeEviction({ ...options, details: new Map([["c2", evicted()]]) });
+		expect(extended?.coveredMessages).toBe(6);
+		const prompt = provider.calls[0]?.messages[1]?.content ?? "";
+		expect(prompt).toContain("<previous_summary>\nearlier summary\n</previous_summary>");
+		expect(prompt).toContain("wrote test/parser.test.ts");
+		expect(prompt).not.toContain("wrote src/parser.ts");
+	});
+
+	test("falls back to plain eviction when the call fails", async () => {
+		const provider: Provider = {
+			id: "openrouter",
+			stream() {
+				async function* gen(): AsyncGenerator<StreamEvent> {
+					yield* [];
+					throw new ProviderError(500, "boom");
+				}
+				return gen();
+			},
+		};
+		const summary = await summarizeEviction({
+			provider,
+			model: MODEL,
+			compacted: conversation,
+			details: new Map([["c1", evicted()]]),
+			maxTranscriptChars: 10_000,
+		});
+		expect(summary).toBeUndefined();
+	});
+});
+
+describe("injectSummary", () => {
+	test("puts the summary right after the system prompt", () => {
+		const summary = { text: SUMMARY, coveredMessages: 3 } as CompactionSummary;
+		const result = injectSummary(conversation.slice(0, 2), summary);
+		expect(result.map((m) => m.role)).toEqual(["system", "user", "user"]);
+		expect(result[1]?.content).toStartWith("[Summary of conversation messages 1-3");
+		expect(result[1]?.content).toEndWith(SUMMARY);
+	});
+});
+
+describe("handlePrompt with compaction.summarize", () => {
+	const emptySkills: SkillRegistry = { get: () => undefined, list: () => [] };
+	let configDir: string;
+	let db: Database;
+
+	beforeAll(() => {
+		configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-summarize-"));
+		writeUnifiedModelsConfig(configDir, {
+			openrouter: [{ id: MODEL, name: "Small", contextWindow: 10_000, maxOutput: 4096, inputPrice: 1, outputPrice: 10 }],
+		});
+	});
+
+	afterAll(() => {
+		fs.rmSync(configDir, { recursive: true, force: true });
+	});
+
+	beforeEach(() => {
+		db = createTestDb();
+	});
+
+	afterEach(() => {
+		db.close();
+	});
+
+	test("replaces the evicted span with a stored summary and counts its tokens", async () => {
+		const session = createSession(db, { provider: "openrouter", model: MODEL });
+		// write_file output is never truncated, only evicted; 3 chars per token puts the 80% mark at 24k chars
+		appendMessage(db, session.id, "user", "write the parser");
+		appendMessage(db, session.id, "assistant", "", {
+			tool_calls: [{ id: "c1", type: "function", function: { name: "write_file", arguments: '{"path":"a.ts"}' } }],
+		});
+		appendMessage(db, session.id, "tool", "x".repeat(30_000), { tool_call_id: "c1" });
+		appendMessage(db, session.id, "assistant", "Parser written.");
+		updateSessionPromptTokens(db, session.id, 1000, 3000);
+		const provider = summarizingProvider();
+		const sent: { type: string }[] = [];
+
+		await handlePrompt({
+			ws: { send: (msg: string) => sent.push(JSON.parse(msg)) },
+			db,
+			provider,
+			model: MODEL,
+			sessionId: session.id,
+			text: "now the tests",
+			projectRoot: os.tmpdir(),
+			configDir,
+			skills: emptySkills,
+			compaction: resolveCompactionSettings({ summarize: true }),
+		});
+
+		expect(provider.calls).toHaveLength(2);
+		const turnMessages = provider.calls[1]?.messages ?? [];
+		expect(turnMessages[1]?.content).toStartWith("[Summary of conversation messages 1-3");
+		expect(turnMessages.some((m) => m.role === "tool")).toBe(false);
+		const record = getSession(db, session.id)?.lastCompaction;
+		expect(record?.summary).toMatchObject({ text: SUMMARY, coveredMessages: 3, inputTokens: 1000, outputTokens: 100 });
+		const done = sent.find((m) => m.type === "done") as { summary?: string } | undefined;
+		expect(done?.summary).toContain("in: 2000");
+	});
+});
@@ -2,7 +2,13 @@ import type { Database } from "bun:sqlite";
 import { afterEach, describe, expect, test } from "bun:test";
 import fs from "node:fs";
 import path from "node:path";
-import { appendMessage, createSession, updateSessionModel, updateSessionPromptTokens } from "../src/session/repository";
+import {
+	appendMessage,
+	createSession,
+	updateSessionCompaction,
+	updateSessionModel,
+	updateSessionPromptTokens,
+} from "../src/session/repository";
 import { createTestDb, startTestServer } from "./helpers";
 import { createTestModels, writeUnifiedModelsConfig } from "./test-models";
 
@@ -184,4 +190,62 @@ describe("context endpoint", () => {
 			db.close();
 		}
 	});
+
+	test("GET /bobai/session/:id/context?compacted=true shows the stored summary with its token cost", async () => {
+		const db = createTestDb();
+		const configDir = makeTempDir("context-endpoint-config-");
+		writeModelsConfig(configDir, [{ id: "test-model", name: "Test Model", contextWindow: 1000, maxOutput: 200 }]);
+		const started = startTestServer({
+			port: 0,
+			db,
+			projectRoot: import.meta.dir,
+			configDir,
+			providerId: "openrouter",
+			model: "test-model",
+		});
+		try {
+			const session = createSession(db);
+			updateSessionModel(db, session.id, "test-model");
+			updateSessionPromptTokens(db, session.id, 100, 400);
+			appendMessage(db, session.id, "user", "please inspect the project");
+			appendMessage(db, session.id, "assistant", "I found the project files.");
+			const summary = {
+				text: "## Goals\n- inspect",
+				coveredMessages: 1,
+				model: "test-model",
+				inputTokens: 900,
+				outputTokens: 40,
+				cachedInputTokens: 0,
+				cacheCreationInputTokens: 0,
+				costDollars: 0.0012,
+			};
+			updateSessionCompaction(db, session.id, {
+				multiplier: 1,
+				iterations: 3,
+				charsBefore: 500,
+				charsAfter: 400,
+				charBudget: 450,
+				charsPerToken: 4,
+				target: 0.5,
+				type: "pre-prompt",
+				elapsedMs: 1,
+				summary,
+			});
+
+			const res = await fetch(`${started.baseUrl}/bobai/session/${session.id}/context?compacted=true`);
+			const body = (await res.json()) as {
+				messages: Array<{ id: string; role: string; content: string; metadata: Record<string, unknown> | null }>;
+				stats: { summary?: Record<string, unknown> };
+			};
+
+			const expected = { coveredMessages: 1, model: "test-model", inputTokens: 900, outputTokens: 40, costDollars: 0.0012 };
+			expect(body.stats.summary).toEqual(expected);
+			expect(body.messages.map((m) => m.id).slice(0, 2)).toEqual(["system-dynamic", "compaction-summary"]);
+			expect(body.messages[1]?.content).toEndWith("## Goals\n- inspect");
+			expect(body.messages[1]?.metadata).toEqual({ compaction_summary: expected });
+		} finally {
+			started.server.stop(true);
+			db.close();
+		}
+	});
 });
@@ -49,6 +49,19 @@ describe("editFileTool", () => {
 		expect(result.llmOutput).toContain("target.ts");
 	});
 
+	test("snapshots the file before writing the edit", async () => {
+		writeAndTrack("snapshot.txt", "alpha beta");
+		const snapshots: string[] = [];
+
+		await editFileTool.execute(
+			{ path: "snapshot.txt", old_string: "beta", new_string: "gamma" },
+			{ ...ctx, snapshotFile: (filePath) => snapshots.push(fs.readFileSync(filePath, "utf-8")) },
+		);
+
+		expect(snapshots).toEqual(["alpha beta"]);
+		expect(fs.readFileSync(path.join(tmpDir, "snapshot.txt"), "utf-8")).toBe("alpha gamma");
+	});
+
 	test("returns error when old_string is not found", async () => {
 		writeAndTrack("no-match.ts", "hello world\n");
 		const result = await editFileTool.execute(
@@ -105,6 +118,20 @@ describe("editFileTool", () => {
 		expect(result.llmOutput).toContain("LINE_THREE");
 	});
 
+	test("reports the change as a diff in the metadata", async () => {
+		writeAndTrack("diffed.ts", "a\nb\nc\n");
+		const result = await editFileTool.execute({ path: "diffed.ts", old_string: "b", new_string: "B\nB2" }, ctx);
+		expect(result.metadata?.diff).toEqual([
+			{
+				path: "diffed.ts",
+				status: "modified",
+				added: 2,
+				removed: 1,
+				hunks: [{ oldStart: 1, oldLines: 3, newStart: 1, newLines: 4, lines: [" a", "-b", "+B", "+B2", " c"] }],
+			},
+		]);
+	});
+
 	describe("formatCall", () => {
 		test("produces interleaved unified diff for a single changed line", () => {
 			const output = editFileTool.formatCall({
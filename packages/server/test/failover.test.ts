@@ -0,0 +1,322 @@
+import type { Database } from "bun:sqlite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { handlePrompt } from "../src/handler";
+import { computeRetryDelayMs, createFailoverProvider } from "../src/provider/failover";
+import { type FailoverPolicy, resolveFailoverBackends, resolveFailoverPolicy } from "../src/provider/failover-policy";
+import { computeProjectCostDollarsSince } from "../src/provider/models";
+import {
+	AuthError,
+	type Provider,
+	ProviderError,
+	type ProviderOptions,
+	parseRetryAfter,
+	type StreamEvent,
+	TimeoutError,
+} from "../src/provider/provider";
+import { createSession, getMessages } from "../src/session/repository";
+import { buildUsageReport } from "../src/session/usage";
+import type { SkillRegistry } from "../src/skill/skill";
+import { createTestDb } from "./helpers";
+import { writeUnifiedModelsConfig } from "./test-models";
+
+const POLICY: FailoverPolicy = {
+	retries: 2,
+	baseDelayMs: 1000,
+	maxDelayMs: 30_000,
+	chains: [
+		[
+			{ provider: "opencode-zen", model: "claude-sonnet-4-6" },
+			{ provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+			{ provider: "amazon-bedrock", model: "anthropic.claude-sonnet-4-6" },
+		],
+	],
+};
+
+/** Fails with the queued errors, in order, then answers with "ok from <id>". */
+function scriptedProvider(id: string, errors: unknown[] = []): Provider & { models: string[] } {
+	const provider = {
+		id,
+		models: [] as string[],
+		async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+			provider.models.push(opts.model);
+			const error = errors.shift();
+			if (error) throw error;
+			opts.onMetrics?.({ model: opts.model, promptTokens: 10, outputTokens: 2, promptChars: 40, totalTokens: 12 });
+			yield { type: "text", text: `ok from ${id}` };
+			yield { type: "finish", reason: "stop" };
+		},
+	};
+	return provider;
+}
+
+async function collect(events: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+	const out: StreamEvent[] = [];
+	for await (const event of events) out.push(event);
+	return out;
+}
+
+function statuses(events: StreamEvent[]): string[] {
+	return events.flatMap((e) => (e.type === "status" ? [e.text] : []));
+}
+
+const call = { model: "claude-sonnet-4-6", messages: [{ role: "user" as const, content: "hi" }], maxOutputTokens: 1024 };
+
+describe("resolveFailoverPolicy", () => {
+	test("retries transient errors by default, with no chains", () => {
+		expect(resolveFailoverPolicy()).toEqual({ retries: 2, baseDelayMs: 1000, maxDelayMs: 30_000, chains: [] });
+	});
+
+	test("project fields win and invalid chain entries are dropped", () => {
+		const policy = resolveFailoverPolicy(
+			{
+				retries: 0,
+				chains: [[{ provider: "opencode-zen", model: "m" }, { provider: "nope", model: "m" }, { provider: "openrouter" }]],
+			},
+			{
+				retries: 5,
+				maxDelayMs: 5000,
+				chains: [
+					[
+						{ provider: "opencode-zen", model: "m" },
+						{ provider: "openrouter", model: "vendor/m" },
+					],
+				],
+			},
+		);
+		expect(policy).toEqual({ retries: 0, baseDelayMs: 1000, maxDelayMs: 5000, chains: [] });
+	});
+
+	test("the chain containing the backend supplies its fallbacks", () => {
+		expect(resolveFailoverBackends(POLICY, "openrouter", "anthropic/claude-sonnet-4.6")).toEqual([
+			{ provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+			{ provider: "opencode-zen", model: "claude-sonnet-4-6" },
+			{ provider: "amazon-bedrock", model: "anthropic.claude-sonnet-4-6" },
+		]);
+		expect(resolveFailoverBackends(POLICY, "openrouter", "other")).toEqual([{ provider: "openrouter", model: "other" }]);
+	});
+});
+
+describe("retry delays", () => {
+	test("back off exponentially and honour a Retry-After within the limit", () => {
+		expect([0, 1, 2, 6].map((attempt) => computeRetryDelayMs(POLICY, attempt))).toEqual([1000, 2000, 4000, 30_000]);
+		expect(computeRetryDelayMs(POLICY, 0, 7000)).toBe(7000);
+		expect(computeRetryDelayMs(POLICY, 2, 100)).toBe(4000);
+		expect(computeRetryDelayMs(POLICY, 0, 60_000)).toBeUndefined();
+	});
+
+	test("Retry-After is read as seconds or as an HTTP date", () => {
+		const now = Date.parse("2026-01-01T00:00:00Z");
+		expect(parseRetryAfter("3", now)).toBe(3000);
+		expect(parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now)).toBe(10_000);
+		expect(parseRetryAfter("soon", now)).toBeUndefined();
+		expect(parseRetryAfter(null, now)).toBeUndefined();
+	});
+});
+
+describe("createFailoverProvider", () => {
+	test("retries a transient error on the same backend after backing off", async () => {
+		const primary = scriptedProvider("opencode-zen", [new ProviderError(529, "overloaded"), new TimeoutError(1)]);
+		const slept: number[] = [];
+		const failover = createFailoverProvider({ primary, policy: POLICY, sleep: async (ms) => void slept.push(ms) });
+
+		const events = await collect(failover.stream(call));
+
+		expect(slept).toEqual([1000, 2000]);
+		expect(statuses(events)).toEqual([
+			"opencode-zen / claude-sonnet-4-6 returned 529 — retrying in 1s (attempt 1/2)",
+			"opencode-zen / claude-sonnet-4-6 returned a timeout — retrying in 2s (attempt 2/2)",
+		]);
+		expect(events).toContainEqual({ type: "text", text: "ok from opencode-zen" });
+		expect(failover.getFailovers()).toEqual([]);
+	});
+
+	test("moves down the chain once retries run out and stays there for the turn", async () => {
+		const primary = scriptedProvider("opencode-zen", [
+			new ProviderError(503, "down"),
+			new ProviderError(429, "slow down", 120_000),
+		]);
+		const bedrock = scriptedProvider("amazon-bedrock");
+		const failover = createFailoverProvider({
+			primary,
+			policy: POLICY,
+			sleep: async () => {},
+			getProvider: async (id) => {
+				if (id === "openrouter") throw new Error("No openrouter credentials found");
+				return bedrock;
+			},
+		});
+
+		const events = await collect(failover.stream(call));
+
+		// The Retry-After is longer than maxDelayMs, so the second attempt is the last
+		expect(primary.models).toHaveLength(2);
+		expect(statuses(events).slice(1)).toEqual([
+			"opencode-zen / claude-sonnet-4-6 failed (429) — failing over to openrouter / anthropic/claude-sonnet-4.6",
+			"openrouter / anthropic/claude-sonnet-4.6 failed (unavailable) — failing over to amazon-bedrock / anthropic.claude-sonnet-4-6",
+		]);
+		expect(events).toContainEqual({ type: "text", text: "ok from amazon-bedrock" });
+		expect(failover.getFailovers()).toEqual([
+			{
+				from: { provider: "opencode-zen", model: "claude-sonnet-4-6" },
+				to: { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+				error: "429: slow down",
+			},
+			{
+				from: { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+				to: { provider: "amazon-bedrock", model: "anthropic.claude-sonnet-4-6" },
+				error: "unavailable: No openrouter credentials found",
+			},
+		]);
+		expect(failover.id).toBe("amazon-bedrock");
+		expect(failover.resolveModel?.("claude-sonnet-4-6")).toBe("anthropic.claude-sonnet-4-6");
+
+		await collect(failover.stream(call));
+		expect(primary.models).toHaveLength(2);
+		expect(bedrock.models).toEqual(["anthropic.claude-sonnet-4-6", "anthropic.claude-sonnet-4-6"]);
+	});
+
+	test("does not retry auth and client errors, errors after output, or the end of the chain", async () => {
+		const noSleep = async () => {};
+		const auth = createFailoverProvider({
+			primary: scriptedProvider("opencode-zen", [new AuthError(401, "bad key", true)]),
+			policy: POLICY,
+			sleep: noSleep,
+			getProvider: async (id) => scriptedProvider(id),
+		});
+		await expect(collect(auth.stream(call))).rejects.toThrow("bad key");
+
+		const badRequest = createFailoverProvider({
+			primary: scriptedProvider("opencode-zen", [new ProviderError(400, "bad request")]),
+			policy: POLICY,
+			sleep: noSleep,
+			getProvider: async (id) => scriptedProvider(id),
+		});
+		await expect(collect(badRequest.stream(call))).rejects.toThrow("bad request");
+
+		const midStream: Provider = {
+			id: "opencode-zen",
+			async *stream(): AsyncGenerator<StreamEvent> {
+				yield { type: "text", text: "partial" };
+				throw new ProviderError(502, "connection reset");
+			},
+		};
+		const partial = createFailoverProvider({ primary: midStream, policy: POLICY, sleep: noSleep });
+		await expect(collect(partial.stream(call))).rejects.toThrow("connection reset");
+
+		const unchained = createFailoverProvider({
+			primary: scriptedProvider("openrouter", [
+				new ProviderError(500, "a"),
+				new ProviderError(500, "b"),
+				new ProviderError(500, "c"),
+			]),
+			policy: POLICY,
+			sleep: noSleep,
+			getProvider: async (id) => scriptedProvider(id),
+		});
+		await expect(collect(unchained.stream({ ...call, model: "other" }))).rejects.toThrow("Provider error (500): c");
+	});
+});
+
+describe("handlePrompt with failover", () => {
+	const emptySkills: SkillRegistry = { get: () => undefined, list: () => [] };
+	let configDir: string;
+	let db: Database;
+
+	beforeAll(() => {
+		configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-failover-"));
+		writeUnifiedModelsConfig(configDir, {
+			"opencode-zen": [
+				{ id: "claude-sonnet-4-6", name: "Sonnet", contextWindow: 200_000, maxOutput: 16384, inputPrice: 3, outputPrice: 15 },
+			],
+			openrouter: [
+				{
+					id: "anthropic/claude-sonnet-4.6",
+					name: "Sonnet",
+					contextWindow: 200_000,
+					maxOutput: 16384,
+					inputPrice: 6,
+					outputPrice: 30,
+				},
+			],
+		});
+	});
+
+	afterAll(() => {
+		fs.rmSync(configDir, { recursive: true, force: true });
+	});
+
+	beforeEach(() => {
+		db = createTestDb();
+	});
+
+	afterEach(() => {
+		db.close();
+	});
+
+	test("shows the switch as a status, in the turn summary and in the message metadata", async () => {
+		const providers: Record<string, Provider> = {
+			"opencode-zen": scriptedProvider("opencode-zen", [new ProviderError(529, "overloaded")]),
+			openrouter: scriptedProvider("openrouter"),
+		};
+		const sent: { type: string; text?: string; summary?: string }[] = [];
+		const session = createSession(db, { provider: "opencode-zen", model: "claude-sonnet-4-6" });
+
+		await handlePrompt({
+			ws: { send: (msg: string) => sent.push(JSON.parse(msg)) },
+			db,
+			runtimeManager: { get: async (id) => providers[id] as Provider },
+			model: "claude-sonnet-4-6",
+			sessionId: session.id,
+			text: "hello",
+			projectRoot: os.tmpdir(),
+			configDir,
+			skills: emptySkills,
+			failover: { ...POLICY, retries: 0 },
+		});
+
+		expect(sent.filter((m) => m.type === "status").map((m) => m.text)).toContain(
+			"opencode-zen / claude-sonnet-4-6 failed (529) — failing over to openrouter / anthropic/claude-sonnet-4.6",
+		);
+		const done = sent.find((m) => m.type === "done");
+		expect(done?.summary).toEndWith(" | failover: opencode-zen → openrouter");
+		const assistant = getMessages(db, session.id).at(-1);
+		expect(assistant?.content).toBe("ok from openrouter");
+		expect(assistant?.metadata?.failover).toEqual([
+			{
+				from: { provider: "opencode-zen", model: "claude-sonnet-4-6" },
+				to: { provider: "openrouter", model: "anthropic/claude-sonnet-4.6" },
+				error: "529: overloaded",
+			},
+		]);
+	});
+
+	test("the turn is recorded, priced and reported under the backend that served it", async () => {
+		const providers: Record<string, Provider> = {
+			"opencode-zen": scriptedProvider("opencode-zen", [new ProviderError(529, "overloaded")]),
+			openrouter: scriptedProvider("openrouter"),
+		};
+		const session = createSession(db, { provider: "opencode-zen", model: "claude-sonnet-4-6" });
+
+		await handlePrompt({
+			ws: { send: () => {} },
+			db,
+			runtimeManager: { get: async (id) => providers[id] as Provider },
+			model: "claude-sonnet-4-6",
+			sessionId: session.id,
+			text: "hello",
+			projectRoot: os.tmpdir(),
+			configDir,
+			skills: emptySkills,
+			failover: { ...POLICY, retries: 0 },
+		});
+
+		const assistant = getMessages(db, session.id).at(-1);
+		expect(assistant?.metadata).toMatchObject({ turn_provider: "openrouter", turn_model: "anthropic/claude-sonnet-4.6" });
+		// 10 input tokens at $6 and 2 output tokens at $30 per million, the openrouter prices
+		expect(computeProjectCostDollarsSince(db, "", configDir)).toBeCloseTo(0.00012, 8);
+		expect(buildUsageReport(db, { configDir }).byModel.map((r) => r.key)).toEqual(["openrouter/anthropic/claude-sonnet-4.6"]);
+	});
+});
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { buildFileDiff, MAX_DIFF_LINES } from "../src/file/diff";
+
+describe("buildFileDiff", () => {
+	test("modified files get hunks with three lines of context", () => {
+		const before = "one\ntwo\nthree\nfour\nfive\nsix\nseven\n";
+		const after = "one\ntwo\nthree\nFOUR\nfive\nsix\nseven\n";
+
+		expect(buildFileDiff("src/a.ts", before, after)).toEqual({
+			path: "src/a.ts",
+			status: "modified",
+			added: 1,
+			removed: 1,
+			hunks: [
+				{
+					oldStart: 1,
+					oldLines: 7,
+					newStart: 1,
+					newLines: 7,
+					lines: [" one", " two", " three", "-four", "+FOUR", " five", " six", " seven"],
+				},
+			],
+		});
+	});
+
+	test("null before or after marks the file created or deleted", () => {
+		const created = buildFileDiff("new.ts", null, "a\nb\n");
+		expect(created.status).toBe("created");
+		expect(created.hunks[0]?.lines).toEqual(["+a", "+b"]);
+		expect([created.added, created.removed]).toEqual([2, 0]);
+
+		const deleted = buildFileDiff("old.ts", "a\n", null);
+		expect(deleted.status).toBe("deleted");
+		expect(deleted.hunks[0]?.lines).toEqual(["-a"]);
+	});
+
+	test("keeps the no-newline marker", () => {
+		expect(buildFileDiff("a.txt", "x", "y").hunks[0]?.lines).toEqual([
+			"-x",
+			"\\ No newline at end of file",
+			"+y",
+			"\\ No newline at end of file",
+		]);
+	});
+
+	test("drops the last hunks past the line limit but still counts them", () => {
+		const before = Array.from({ length: MAX_DIFF_LINES }, (_, i) => `line ${i}`).join("\n");
+		const after = Array.from({ length: MAX_DIFF_LINES }, (_, i) => `LINE ${i}`).join("\n");
+
+		const diff = buildFileDiff("big.txt", before, after);
+
+		expect(diff.truncated).toBe(true);
+		expect(diff.hunks).toEqual([]);
+		expect([diff.added, diff.removed]).toEqual([MAX_DIFF_LINES, MAX_DIFF_LINES]);
+	});
+
+	test("gives up on large rewrites and only counts their lines", () => {
+		const lines = 50_000;
+		const before = `${Array.from({ length: lines }, (_, i) => `line ${i}`).join("\n")}\n`;
+		const after = `${Array.from({ length: lines }, (_, i) => `LINE ${i}`).join("\n")}\n`;
+
+		const started = performance.now();
+		const diff = buildFileDiff("huge.txt", before, after);
+
+		expect(performance.now() - started).toBeLessThan(2000);
+		expect(diff).toEqual({
+			path: "huge.txt",
+			status: "modified",
+			added: lines,
+			removed: lines,
+			hunks: [],
+			truncated: true,
+		});
+	});
+
+	test("identical contents have no hunks", () => {
+		expect(buildFileDiff("same.txt", "x\n", "x\n")).toEqual({
+			path: "same.txt",
+			status: "modified",
+			added: 0,
+			removed: 0,
+			hunks: [],
+		});
+	});
+});
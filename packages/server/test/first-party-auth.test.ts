@@ -0,0 +1,49 @@
+import { describe, expect, test } from "bun:test";
+import { validateAnthropicKey } from "../src/auth/anthropic";
+import { validateOpenAIKey } from "../src/auth/openai";
+
+describe("validateAnthropicKey", () => {
+	test("lists models with the key and API version", async () => {
+		let seenUrl: string | undefined;
+		let seenHeaders: Record<string, string> = {};
+		await validateAnthropicKey("sk-ant", {
+			fetch: (async (url: string | URL | Request, init?: RequestInit) => {
+				seenUrl = String(url);
+				seenHeaders = init?.headers as Record<string, string>;
+				return Response.json({ data: [] });
+			}) as typeof fetch,
+		});
+		expect(seenUrl).toBe("https://api.anthropic.com/v1/models");
+		expect(seenHeaders).toEqual({ "x-api-key": "sk-ant", "anthropic-version": "2023-06-01" });
+	});
+
+	test("throws when Anthropic rejects the key", async () => {
+		await expect(
+			validateAnthropicKey("bad", {
+				fetch: (async () => new Response("invalid x-api-key", { status: 401 })) as unknown as typeof fetch,
+			}),
+		).rejects.toThrow("Anthropic validation failed: 401 invalid x-api-key");
+	});
+});
+
+describe("validateOpenAIKey", () => {
+	test("lists models with a bearer token and reports rejection", async () => {
+		let seenUrl: string | undefined;
+		let seenHeaders: Record<string, string> = {};
+		await validateOpenAIKey("sk-openai", {
+			fetch: (async (url: string | URL | Request, init?: RequestInit) => {
+				seenUrl = String(url);
+				seenHeaders = init?.headers as Record<string, string>;
+				return Response.json({ data: [] });
+			}) as typeof fetch,
+		});
+		expect(seenUrl).toBe("https://api.openai.com/v1/models");
+		expect(seenHeaders.Authorization).toBe("Bearer sk-openai");
+
+		await expect(
+			validateOpenAIKey("bad", {
+				fetch: (async () => new Response("Incorrect API key", { status: 401 })) as unknown as typeof fetch,
+			}),
+		).rejects.toThrow("OpenAI validation failed: 401 Incorrect API key");
+	});
+});
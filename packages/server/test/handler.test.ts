@@ -713,6 +713,55 @@ describe("handlePrompt", () => {
 		expect(stored[3].content).toBe("I see the files");
 	});
 
+	test("sends and persists the diff of a file write", async () => {
+		const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-handler-diff-"));
+		let callCount = 0;
+		const toolProvider: Provider = {
+			id: "openrouter",
+			async *stream(_opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+				callCount++;
+				if (callCount === 1) {
+					yield { type: "tool_call_start", index: 0, id: "call_1", name: "write_file" };
+					yield { type: "tool_call_delta", index: 0, arguments: '{"path":"notes.txt","content":"hello\\n"}' };
+					yield { type: "finish", reason: "tool_calls" };
+				} else {
+					yield { type: "text", text: "Done" };
+					yield { type: "finish", reason: "stop" };
+				}
+			},
+		};
+
+		try {
+			const ws = mockWs();
+			await handlePrompt({
+				ws,
+				db,
+				provider: toolProvider,
+				model: "test-model",
+				text: "write notes",
+				projectRoot: tmpDir,
+				configDir: tmpDir,
+				skills: emptySkills,
+			});
+
+			const msgs = ws.messages();
+			const expected = [
+				{
+					path: "notes.txt",
+					status: "created",
+					added: 1,
+					removed: 0,
+					hunks: [{ oldStart: 1, oldLines: 0, newStart: 1, newLines: 1, lines: ["+hello"] }],
+				},
+			];
+			expect(msgs.find((m: { type: string }) => m.type === "tool_result").diff).toEqual(expected);
+			const stored = getMessages(db, msgs.find((m: { type: string }) => m.type === "done").sessionId);
+			expect(stored.find((m) => m.role === "tool")?.metadata?.diff).toEqual(expected);
+		} finally {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		}
+	});
+
 	test("persists error message to DB on provider error", async () => {
 		const ws = mockWs();
 		const provider = failingProvider(429, "Rate limited");
@@ -1315,4 +1364,42 @@ describe("handlePrompt", () => {
 			memoryDb.close();
 		}
 	});
+
+	test("recalls relevant memories into the user message and keeps the system prompt stable", async () => {
+		const memoryDb = createTestDb();
+		try {
+			createMemory(memoryDb, { type: "feedback", title: "Migrations", content: "never edit applied migrations" });
+			createMemory(memoryDb, { type: "project", title: "Deploy", content: "make deploy" });
+			const provider = capturingProvider(["ok"]);
+			const ws = mockWs();
+			const prompt = (text: string, sessionId?: string) =>
+				handlePrompt({
+					ws,
+					db: memoryDb,
+					provider,
+					model: "test-model",
+					text,
+					sessionId,
+					projectRoot: "/tmp",
+					configDir: "/tmp",
+					skills: emptySkills,
+				});
+
+			await prompt("add a migration for users");
+			const sessionId = ws.messages().find((m) => m.type === "done")?.sessionId;
+			await prompt("hello again", sessionId);
+
+			const [first, second] = provider.captured;
+			expect(second?.messages[0]?.content).toBe(first?.messages[0]?.content as string);
+			expect(first?.messages[0]?.content).not.toContain("<recalled-memories>");
+			const userMessages = second?.messages.filter((m) => m.role === "user").map((m) => m.content as string) ?? [];
+			expect(userMessages[0]).toStartWith("add a migration for users\n\n<recalled-memories>");
+			expect(userMessages[0]).toContain("[feedback] Migrations");
+			expect(userMessages[0]).not.toContain("Deploy");
+			expect(userMessages[1]).toBe("hello again");
+			expect(getMessages(memoryDb, sessionId).map((m) => m.content)).toContain("add a migration for users");
+		} finally {
+			memoryDb.close();
+		}
+	});
 });
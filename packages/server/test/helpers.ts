@@ -1,7 +1,9 @@
 import { Database } from "bun:sqlite";
+import { ensureCheckpointSchema } from "../src/checkpoint/repository";
 import { ensureMemoriesSchema } from "../src/memory/repository";
 import type { ServerMessage } from "../src/protocol";
 import { createServer, type ServerOptions } from "../src/server";
+import { ensureSearchSchema } from "../src/session/search";
 
 export function createTestDb(): Database {
 	const db = new Database(":memory:");
@@ -17,7 +19,10 @@ export function createTestDb(): Database {
 			prompt_tokens INTEGER NOT NULL DEFAULT 0,
 			prompt_chars INTEGER NOT NULL DEFAULT 0,
 			context_limit INTEGER,
+			compaction_policy TEXT,
 			last_compaction TEXT,
+			forked_from TEXT,
+			fork_turn INTEGER,
 			created_at TEXT NOT NULL,
 			updated_at TEXT NOT NULL
 		)
@@ -35,6 +40,8 @@ export function createTestDb(): Database {
 	`);
 	db.exec("CREATE INDEX idx_messages_session ON messages(session_id, sort_order)");
 	ensureMemoriesSchema(db);
+	ensureCheckpointSchema(db);
+	ensureSearchSchema(db);
 	return db;
 }
 
@@ -0,0 +1,399 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createMcpClient, McpError } from "../src/mcp/client";
+import { resolveMcpServers } from "../src/mcp/config";
+import { createMcpManager, type McpManager } from "../src/mcp/manager";
+import { mcpToolName, renderMcpContent } from "../src/mcp/tool";
+import type { JsonRpcMessage, McpTransport } from "../src/mcp/transport";
+import { startTestServer } from "./helpers";
+
+const ctx = { projectRoot: "/tmp", sessionId: "s1" };
+
+const managers: McpManager[] = [];
+const servers: ReturnType<typeof Bun.serve>[] = [];
+const tmpDirs: string[] = [];
+
+afterEach(async () => {
+	for (const m of managers.splice(0)) await m.close();
+	for (const s of servers.splice(0)) s.stop(true);
+	for (const dir of tmpDirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** Answers an MCP request with two tools: `echo` (text) and `fail` (isError). */
+function respond(message: JsonRpcMessage): JsonRpcMessage | undefined {
+	if (message.id === undefined) return undefined;
+	switch (message.method) {
+		case "initialize":
+			return { jsonrpc: "2.0", id: message.id, result: { protocolVersion: "2025-06-18", serverInfo: { name: "fake" } } };
+		case "tools/list":
+			return {
+				jsonrpc: "2.0",
+				id: message.id,
+				result: {
+					tools: [
+						{
+							name: "echo",
+							description: "Echo text",
+							inputSchema: { type: "object", properties: { text: { type: "string" } } },
+						},
+						{ name: "fail" },
+					],
+				},
+			};
+		case "tools/call": {
+			const params = message.params as { name: string; arguments: { text?: string } };
+			if (params.name === "fail") {
+				return { jsonrpc: "2.0", id: message.id, result: { content: [{ type: "text", text: "boom" }], isError: true } };
+			}
+			return {
+				jsonrpc: "2.0",
+				id: message.id,
+				result: { content: [{ type: "text", text: `echo: ${params.arguments.text}` }] },
+			};
+		}
+		default:
+			return { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: "not found" } };
+	}
+}
+
+/** Write a stdio MCP server script implementing `respond` and return its path. */
+function writeStdioServer(): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-mcp-"));
+	tmpDirs.push(dir);
+	const file = path.join(dir, "server.ts");
+	fs.writeFileSync(
+		file,
+		`const respond = ${respond.toString()};
+let buffer = "";
+for await (const chunk of Bun.stdin.stream()) {
+	buffer += new TextDecoder().decode(chunk);
+	let i = buffer.indexOf("\\n");
+	while (i !== -1) {
+		const reply = respond(JSON.parse(buffer.slice(0, i)));
+		buffer = buffer.slice(i + 1);
+		if (reply) process.stdout.write(JSON.stringify(reply) + "\\n");
+		i = buffer.indexOf("\\n");
+	}
+}
+`,
+	);
+	return file;
+}
+
+function manage(manager: McpManager): McpManager {
+	managers.push(manager);
+	return manager;
+}
+
+describe("resolveMcpServers", () => {
+	test("merges layers with project entries replacing global ones by name", () => {
+		const servers = resolveMcpServers(
+			{ docs: { url: "http://localhost:9000/mcp", headers: { Authorization: "Bearer x", bad: 1 as unknown as string } } },
+			{
+				docs: { command: "docs-server" },
+				git: { command: "git-mcp", args: ["--stdio", 3 as unknown as string], env: { TOKEN: "t" } },
+			},
+		);
+		expect(servers).toEqual([
+			{ name: "docs", transport: "http", url: "http://localhost:9000/mcp", headers: { Authorization: "Bearer x" } },
+			{ name: "git", transport: "stdio", command: "git-mcp", args: ["--stdio"], env: { TOKEN: "t" } },
+		]);
+	});
+
+	test("drops disabled and invalid entries", () => {
+		const servers = resolveMcpServers(
+			{ git: { command: "git-mcp", disabled: true }, ftp: { url: "ftp://host" } as never },
+			{ git: { command: "git-mcp" }, legacy: { url: "http://localhost:1/sse", transport: "sse" } },
+		);
+		expect(servers.map((s) => `${s.name}:${s.transport}`)).toEqual(["legacy:sse"]);
+	});
+
+	test("returns an empty list when nothing is configured", () => {
+		expect(resolveMcpServers(undefined, undefined)).toEqual([]);
+	});
+});
+
+describe("MCP tool adaptation", () => {
+	test("mcpToolName namespaces and sanitizes names", () => {
+		expect(mcpToolName("git hub", "search.issues")).toBe("mcp__git_hub__search_issues");
+		expect(mcpToolName("s", "x".repeat(100))).toHaveLength(64);
+	});
+
+	test("mcpToolName keeps long names with a shared prefix apart", () => {
+		const prefix = "a_very_long_tool_name_that_goes_on_and_on_past_the_limit_";
+		const first = mcpToolName("server", `${prefix}first`);
+		const second = mcpToolName("server", `${prefix}second`);
+		expect(first).toHaveLength(64);
+		expect(second).toHaveLength(64);
+		expect(first).not.toBe(second);
+		expect(first).toMatch(/^mcp__server__a_very_long_tool_name.*_[0-9a-f]{8}$/);
+		expect(mcpToolName("server", `${prefix}first`)).toBe(first);
+	});
+
+	test("renderMcpContent flattens text and summarizes binary blocks", () => {
+		const text = renderMcpContent({
+			content: [
+				{ type: "text", text: "hello" },
+				{ type: "image", mimeType: "image/png", data: "AAAA" },
+				{ type: "resource", resource: { uri: "file:///a.txt", text: "file body" } },
+				{ type: "resource_link", uri: "file:///b.txt" },
+			],
+		});
+		expect(text).toBe("hello\n\n[image image/png omitted]\n\nfile body\n\n[resource file:///b.txt]");
+	});
+
+	test("renderMcpContent falls back to structured content", () => {
+		expect(renderMcpContent({ content: [], structuredContent: { ok: true } })).toBe('{\n  "ok": true\n}');
+	});
+});
+
+describe("MCP client", () => {
+	/** A transport whose sends never finish, like an HTTP reply that never arrives. */
+	function stalledTransport(): McpTransport & { sent: JsonRpcMessage[] } {
+		const sent: JsonRpcMessage[] = [];
+		return {
+			sent,
+			async start() {},
+			send(message) {
+				sent.push(message);
+				return message.id === undefined ? Promise.resolve() : new Promise(() => {});
+			},
+			async close() {},
+		};
+	}
+
+	test("a request times out while its send is still pending", async () => {
+		const client = createMcpClient(stalledTransport(), { requestTimeoutMs: 20 });
+		await expect(client.listTools()).rejects.toThrow(new McpError("tools/list timed out after 20ms"));
+	});
+
+	test("an aborted call rejects while its send is still pending and tells the server", async () => {
+		const transport = stalledTransport();
+		const client = createMcpClient(transport, { requestTimeoutMs: 5000 });
+		const controller = new AbortController();
+		const call = client.callTool("echo", {}, controller.signal);
+		while (transport.sent.length === 0) await Bun.sleep(1);
+
+		controller.abort();
+
+		await expect(call).rejects.toThrow(new McpError("tools/call aborted"));
+		expect(transport.sent.at(-1)).toEqual({
+			jsonrpc: "2.0",
+			method: "notifications/cancelled",
+			params: { requestId: 1 },
+		});
+	});
+});
+
+describe("stdio servers", () => {
+	test("lists tools and calls them through the adapted Tool", async () => {
+		const manager = manage(
+			createMcpManager({
+				servers: resolveMcpServers({ fake: { command: process.execPath, args: [writeStdioServer()] } }),
+				projectRoot: os.tmpdir(),
+				clientVersion: "test",
+			}),
+		);
+		await manager.start();
+
+		expect(manager.status()).toEqual([{ name: "fake", transport: "stdio", state: "connected", toolCount: 2 }]);
+		const tools = manager.tools();
+		expect(tools.map((t) => t.definition.function.name)).toEqual(["mcp__fake__echo", "mcp__fake__fail"]);
+		const echo = tools[0];
+		expect(echo?.definition.function.description).toBe("[MCP fake] Echo text");
+		expect(echo?.formatCall({ text: "hi" })).toBe('▸ fake/echo {"text":"hi"}');
+
+		const result = await echo?.execute({ text: "hi" }, ctx);
+		expect(result?.llmOutput).toBe("echo: hi");
+
+		const failed = await tools[1]?.execute({}, ctx);
+		expect(failed?.llmOutput).toBe("Error: boom");
+	});
+
+	test("records a failed launch instead of throwing", async () => {
+		const manager = manage(
+			createMcpManager({
+				servers: resolveMcpServers({
+					broken: { command: process.execPath, args: ["-e", "console.error('no token'); process.exit(3)"] },
+				}),
+				projectRoot: os.tmpdir(),
+				clientVersion: "test",
+			}),
+		);
+		await manager.start();
+
+		const [status] = manager.status();
+		expect(status?.state).toBe("error");
+		expect(status?.error).toContain("exited with code 3");
+		expect(status?.error).toContain("no token");
+		expect(manager.tools()).toEqual([]);
+	});
+});
+
+describe("HTTP servers", () => {
+	test("streamable HTTP: JSON replies and SSE-streamed replies", async () => {
+		const seenSessionIds: (string | null)[] = [];
+		const server = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				if (req.method === "DELETE") return new Response(null, { status: 204 });
+				seenSessionIds.push(req.headers.get("mcp-session-id"));
+				const message = (await req.json()) as JsonRpcMessage;
+				const reply = respond(message);
+				if (!reply) return new Response(null, { status: 202 });
+				if (message.method === "tools/call") {
+					return new Response(`event: message\ndata: ${JSON.stringify(reply)}\n\n`, {
+						headers: { "Content-Type": "text/event-stream" },
+					});
+				}
+				return Response.json(reply, { headers: { "Mcp-Session-Id": "abc" } });
+			},
+		});
+		servers.push(server);
+
+		const manager = manage(
+			createMcpManager({
+				servers: resolveMcpServers({ remote: { url: `http://localhost:${server.port}/mcp` } }),
+				projectRoot: os.tmpdir(),
+				clientVersion: "test",
+			}),
+		);
+		await manager.start();
+
+		expect(manager.status()[0]?.state).toBe("connected");
+		const result = await manager.tools()[0]?.execute({ text: "over http" }, ctx);
+		expect(result?.llmOutput).toBe("echo: over http");
+		// The session id from the initialize reply is sent on every later request
+		expect(seenSessionIds[0]).toBeNull();
+		expect(seenSessionIds.slice(1).every((id) => id === "abc")).toBe(true);
+	});
+
+	test("legacy SSE: replies arrive on the event stream", async () => {
+		let push: ((text: string) => void) | undefined;
+		const server = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				const url = new URL(req.url);
+				if (req.method === "GET" && url.pathname === "/sse") {
+					const stream = new ReadableStream<string>({
+						start(controller) {
+							push = (text) => controller.enqueue(text);
+							push("event: endpoint\ndata: /messages?session=1\n\n");
+						},
+					});
+					return new Response(stream, { headers: { "Content-Type": "text/event-stream" } });
+				}
+				if (req.method === "POST" && url.pathname === "/messages") {
+					const reply = respond((await req.json()) as JsonRpcMessage);
+					if (reply) push?.(`data: ${JSON.stringify(reply)}\n\n`);
+					return new Response(null, { status: 202 });
+				}
+				return new Response("not found", { status: 404 });
+			},
+		});
+		servers.push(server);
+
+		const manager = manage(
+			createMcpManager({
+				servers: resolveMcpServers({ legacy: { url: `http://localhost:${server.port}/sse`, transport: "sse" } }),
+				projectRoot: os.tmpdir(),
+				clientVersion: "test",
+			}),
+		);
+		await manager.start();
+
+		expect(manager.status()[0]).toEqual({ name: "legacy", transport: "sse", state: "connected", toolCount: 2 });
+		const result = await manager.tools()[0]?.execute({ text: "over sse" }, ctx);
+		expect(result?.llmOutput).toBe("echo: over sse");
+	});
+
+	test("legacy SSE: a server that never announces its endpoint fails after the timeout", async () => {
+		const server = Bun.serve({
+			port: 0,
+			fetch: () =>
+				new Response(new ReadableStream<string>({ start() {} }), { headers: { "Content-Type": "text/event-stream" } }),
+		});
+		servers.push(server);
+
+		const manager = manage(
+			createMcpManager({
+				servers: resolveMcpServers({ legacy: { url: `http://localhost:${server.port}/sse`, transport: "sse" } }),
+				projectRoot: os.tmpdir(),
+				clientVersion: "test",
+				requestTimeoutMs: 50,
+			}),
+		);
+		await manager.start();
+
+		expect(manager.status()[0]).toMatchObject({ state: "error", error: "connect timed out after 50ms" });
+		expect(manager.tools()).toEqual([]);
+	});
+
+	test("tools whose sanitized names clash are offered once", async () => {
+		const server = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				if (req.method === "DELETE") return new Response(null, { status: 204 });
+				const message = (await req.json()) as JsonRpcMessage;
+				if (message.method === "tools/list") {
+					return Response.json({ jsonrpc: "2.0", id: message.id, result: { tools: [{ name: "a.b" }, { name: "a_b" }] } });
+				}
+				const reply = respond(message);
+				return reply ? Response.json(reply) : new Response(null, { status: 202 });
+			},
+		});
+		servers.push(server);
+
+		const manager = manage(
+			createMcpManager({
+				servers: resolveMcpServers({ remote: { url: `http://localhost:${server.port}/mcp` } }),
+				projectRoot: os.tmpdir(),
+				clientVersion: "test",
+			}),
+		);
+		await manager.start();
+
+		expect(manager.tools().map((t) => t.definition.function.name)).toEqual(["mcp__remote__a_b"]);
+		expect(manager.status()[0]).toMatchObject({ state: "connected", toolCount: 1 });
+	});
+
+	test("HTTP errors mark the server as failed", async () => {
+		const server = Bun.serve({ port: 0, fetch: () => new Response("unauthorized", { status: 401 }) });
+		servers.push(server);
+
+		const manager = manage(
+			createMcpManager({
+				servers: resolveMcpServers({ remote: { url: `http://localhost:${server.port}/mcp` } }),
+				projectRoot: os.tmpdir(),
+				clientVersion: "test",
+			}),
+		);
+		await manager.start();
+
+		expect(manager.status()[0]).toMatchObject({ state: "error", error: expect.stringContaining("HTTP 401") });
+	});
+});
+
+describe("GET /bobai/mcp", () => {
+	test("returns server status, or an empty list without MCP", async () => {
+		const mcp = manage(
+			createMcpManager({
+				servers: resolveMcpServers({ fake: { command: process.execPath, args: [writeStdioServer()] } }),
+				projectRoot: os.tmpdir(),
+				clientVersion: "test",
+			}),
+		);
+		await mcp.start();
+
+		const withMcp = startTestServer({ port: 0, mcp });
+		const without = startTestServer({ port: 0 });
+		servers.push(withMcp.server, without.server);
+
+		const res = await fetch(`${withMcp.baseUrl}/bobai/mcp`);
+		expect(await res.json()).toEqual([{ name: "fake", transport: "stdio", state: "connected", toolCount: 2 }]);
+		const empty = await fetch(`${without.baseUrl}/bobai/mcp`);
+		expect(await empty.json()).toEqual([]);
+	});
+});
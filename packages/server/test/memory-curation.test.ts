@@ -0,0 +1,104 @@
+import type { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { listMemoriesForCuration, parseMemoryInput, parseMemoryPatch } from "../src/memory/curation";
+import { MEMORY_INDEX_MAX_ENTRIES } from "../src/memory/index";
+import { createMemory, deleteMemories, getMemory, listMemories } from "../src/memory/repository";
+import { createTestDb, startTestServer } from "./helpers";
+
+let db: Database;
+
+beforeEach(() => {
+	db = createTestDb();
+});
+
+afterEach(() => {
+	db.close();
+});
+
+describe("listMemoriesForCuration", () => {
+	test("marks the memories that fit in the index, whatever the type filter", () => {
+		for (let i = 0; i < MEMORY_INDEX_MAX_ENTRIES + 2; i++) {
+			createMemory(db, { type: i < 2 ? "user" : "project", title: `Memory ${i}`, content: "Content" });
+		}
+		// The two user memories are the oldest, so they are the ones left out of the index
+		db.prepare("UPDATE memories SET updated_at = '2026-01-01T00:00:00.000Z' WHERE type = 'user'").run();
+
+		const all = listMemoriesForCuration(db);
+		expect(all.index).toMatchObject({ shown: MEMORY_INDEX_MAX_ENTRIES, total: MEMORY_INDEX_MAX_ENTRIES + 2 });
+		expect(all.memories.filter((m) => !m.indexed).map((m) => m.type)).toEqual(["user", "user"]);
+
+		const users = listMemoriesForCuration(db, { type: "user" });
+		expect(users.memories).toHaveLength(2);
+		expect(users.memories.every((m) => !m.indexed)).toBe(true);
+		expect(users.index.shown).toBe(MEMORY_INDEX_MAX_ENTRIES);
+	});
+});
+
+describe("parseMemoryPatch / parseMemoryInput", () => {
+	test("trims fields, clears an empty description and rejects bad values", () => {
+		expect(parseMemoryPatch({ title: " New title ", description: "" })).toEqual({ title: "New title", description: null });
+		expect(parseMemoryPatch({ type: "secret" })).toBe("type must be one of: user, feedback, project, reference");
+		expect(parseMemoryPatch({ content: "  " })).toBe("content cannot be empty");
+		expect(parseMemoryPatch("nope")).toBe("Expected a JSON object");
+
+		expect(parseMemoryInput({ type: "feedback", title: "Tabs", content: "Use tabs" })).toEqual({
+			type: "feedback",
+			title: "Tabs",
+			content: "Use tabs",
+			description: undefined,
+		});
+		expect(parseMemoryInput({ title: "Tabs" })).toBe("type, title and content are required");
+	});
+});
+
+describe("deleteMemories", () => {
+	test("removes the given ids and counts them", () => {
+		const a = createMemory(db, { type: "project", title: "A", content: "a" });
+		const b = createMemory(db, { type: "project", title: "B", content: "b" });
+		createMemory(db, { type: "project", title: "C", content: "c" });
+		expect(deleteMemories(db, [a.id, b.id, "missing"])).toBe(2);
+		expect(deleteMemories(db, [])).toBe(0);
+		expect(listMemories(db).map((m) => m.title)).toEqual(["C"]);
+	});
+});
+
+describe("memory endpoints", () => {
+	test("create, list, edit and delete memories", async () => {
+		const { server, baseUrl } = startTestServer({ port: 0, db });
+		try {
+			const json = (method: string, url: string, body: unknown) =>
+				fetch(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+			const created = await json("POST", `${baseUrl}/bobai/memories`, {
+				type: "project",
+				title: "Build",
+				content: "bun run build",
+			});
+			expect(created.status).toBe(201);
+			const { id } = (await created.json()) as { id: string };
+			const other = createMemory(db, { type: "user", title: "Editor", content: "Uses vim" });
+			expect((await json("POST", `${baseUrl}/bobai/memories`, { type: "project" })).status).toBe(400);
+
+			const listing = (await (await fetch(`${baseUrl}/bobai/memories?type=project`)).json()) as {
+				memories: { id: string; indexed: boolean }[];
+				index: { total: number };
+			};
+			expect(listing.memories).toEqual([expect.objectContaining({ id, indexed: true })]);
+			expect(listing.index.total).toBe(2);
+			expect((await fetch(`${baseUrl}/bobai/memories?type=secret`)).status).toBe(400);
+
+			const patched = await json("PATCH", `${baseUrl}/bobai/memories/${id}`, { content: "bun run build:all" });
+			expect(((await patched.json()) as { content: string }).content).toBe("bun run build:all");
+			expect((await json("PATCH", `${baseUrl}/bobai/memories/${id}`, { title: "" })).status).toBe(400);
+			expect((await json("PATCH", `${baseUrl}/bobai/memories/missing`, { title: "x" })).status).toBe(404);
+
+			expect(await (await json("DELETE", `${baseUrl}/bobai/memories`, { ids: [id, other.id] })).json()).toEqual({
+				deleted: 2,
+			});
+			expect(getMemory(db, id)).toBeNull();
+			expect((await fetch(`${baseUrl}/bobai/memories/${id}`, { method: "DELETE" })).status).toBe(404);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
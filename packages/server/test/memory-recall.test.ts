@@ -0,0 +1,153 @@
+import { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	buildMemoryIndex,
+	buildMemoryRecall,
+	MEMORY_INDEX_MAX_ENTRIES,
+	MEMORY_RECALL_MAX_ENTRIES,
+	withRecalledMemories,
+} from "../src/memory/index";
+import {
+	createMemory,
+	deleteMemory,
+	ensureMemoriesSchema,
+	rankMemories,
+	searchMemories,
+	toMemoryRecallQuery,
+	updateMemory,
+} from "../src/memory/repository";
+import { recallMemories } from "../src/memory/scope";
+
+let db: Database;
+
+beforeEach(() => {
+	db = new Database(":memory:");
+	ensureMemoriesSchema(db);
+});
+
+afterEach(() => {
+	db.close();
+});
+
+describe("toMemoryRecallQuery", () => {
+	test("matches any distinct word as a prefix and drops stop words", () => {
+		expect(toMemoryRecallQuery("How do I run the Tests in src/parser.ts?")).toBe(
+			'"run"* OR "tests"* OR "src"* OR "parser"* OR "ts"*',
+		);
+		expect(toMemoryRecallQuery("the a of")).toBeNull();
+		expect(toMemoryRecallQuery('say "hi"')).toBe('"say"* OR "hi"*');
+	});
+});
+
+describe("rankMemories", () => {
+	test("ranks title matches above content matches and follows edits and deletes", () => {
+		const inContent = createMemory(db, { type: "project", title: "Notes", content: "the parser is hand written" });
+		const inTitle = createMemory(db, { type: "project", title: "Parser gotchas", content: "keep the lexer pure" });
+		createMemory(db, { type: "project", title: "Deploy", content: "push to main" });
+
+		expect(rankMemories(db, "fix the parser", 10).map((r) => r.memory.id)).toEqual([inTitle.id, inContent.id]);
+
+		updateMemory(db, inContent.id, { content: "nothing relevant" });
+		deleteMemory(db, inTitle.id);
+		expect(rankMemories(db, "fix the parser", 10)).toEqual([]);
+		expect(rankMemories(db, "deploy it", 10).map((r) => r.memory.title)).toEqual(["Deploy"]);
+	});
+
+	test("indexes memories saved before the index existed and degrades without it", () => {
+		const legacy = new Database(":memory:");
+		try {
+			legacy.exec(`CREATE TABLE memories (
+				id TEXT PRIMARY KEY, type TEXT NOT NULL, title TEXT NOT NULL, description TEXT,
+				content TEXT NOT NULL, session_id TEXT, created_at TEXT NOT NULL, updated_at TEXT NOT NULL)`);
+			legacy.prepare("INSERT INTO memories VALUES ('m1', 'project', 'Release', NULL, 'tag and push', NULL, 'x', 'x')").run();
+			ensureMemoriesSchema(legacy);
+			expect(rankMemories(legacy, "release", 10).map((r) => r.memory.id)).toEqual(["m1"]);
+
+			legacy.exec("DROP TABLE memories_fts");
+			expect(rankMemories(legacy, "release", 10)).toEqual([]);
+			expect(searchMemories(legacy, "Release").map((m) => m.id)).toEqual(["m1"]);
+		} finally {
+			legacy.close();
+		}
+	});
+});
+
+describe("searchMemories", () => {
+	test("puts relevant memories first, then other substring matches", () => {
+		createMemory(db, { type: "project", title: "Rebuild cache", content: "clear .cache first" });
+		createMemory(db, { type: "project", title: "Build", content: "bun run build" });
+		expect(searchMemories(db, "build").map((m) => m.title)).toEqual(["Build", "Rebuild cache"]);
+	});
+});
+
+describe("recallMemories", () => {
+	test("an old but relevant memory is recalled although it is not in the bounded index", () => {
+		const old = createMemory(db, { type: "feedback", title: "Migrations", content: "never edit applied migrations" });
+		db.prepare("UPDATE memories SET updated_at = '2025-01-01T00:00:00.000Z' WHERE id = ?").run(old.id);
+		for (let i = 0; i < MEMORY_INDEX_MAX_ENTRIES; i++) {
+			createMemory(db, { type: "project", title: `Recent ${i}`, content: "unrelated" });
+		}
+
+		expect(buildMemoryIndex(recallMemories(db, undefined, "hello"))).not.toContain("Migrations");
+		expect(buildMemoryRecall(recallMemories(db, undefined, "hello"))).toBe("");
+
+		const recalled = recallMemories(db, undefined, "add a migration for the users table");
+		expect(recalled[0]).toMatchObject({ id: old.id, relevant: true });
+		expect(recalled[1]?.relevant).toBe(false);
+		const recall = buildMemoryRecall(recalled);
+		expect(recall).toStartWith("<recalled-memories>\n");
+		expect(recall).toContain("[feedback] Migrations — never edit applied migrations");
+		expect(recall).not.toContain("Recent");
+	});
+
+	test("the recall block is bounded and rendered after the stored text", () => {
+		for (let i = 0; i < MEMORY_RECALL_MAX_ENTRIES + 3; i++) {
+			createMemory(db, { type: "project", title: `Parser note ${i}`, content: "parser detail" });
+		}
+		const recall = buildMemoryRecall(recallMemories(db, undefined, "parser"));
+		expect(recall.split("\n").filter((line) => line.startsWith("- "))).toHaveLength(MEMORY_RECALL_MAX_ENTRIES);
+
+		expect(withRecalledMemories("fix it", { memory_recall: recall })).toBe(`fix it\n\n${recall}`);
+		expect(withRecalledMemories("fix it", null)).toBe("fix it");
+	});
+
+	test("ranks across the project and global stores", () => {
+		const globalDb = new Database(":memory:");
+		try {
+			ensureMemoriesSchema(globalDb);
+			createMemory(db, { type: "project", title: "Build", content: "bun run build" });
+			createMemory(globalDb, { type: "feedback", title: "Code review", content: "flag missing tests in review" });
+			createMemory(globalDb, { type: "user", title: "Editor", content: "uses vim" });
+
+			const recalled = recallMemories(db, globalDb, "review my changes");
+			expect(recalled.map((m) => [m.title, m.scope, m.relevant])).toEqual([
+				["Code review", "global", true],
+				["Build", "project", false],
+				["Editor", "global", false],
+			]);
+		} finally {
+			globalDb.close();
+		}
+	});
+
+	test("interleaves the two stores by rank instead of comparing their scores", () => {
+		const globalDb = new Database(":memory:");
+		try {
+			ensureMemoriesSchema(globalDb);
+			// The global store has many matching memories, so its BM25 scores run lower than the project's
+			for (let i = 0; i < 5; i++) {
+				createMemory(globalDb, { type: "feedback", title: `Deploy rule ${i}`, content: `deploy step ${i}` });
+			}
+			createMemory(db, { type: "project", title: "Deploy", content: "deploy with make deploy" });
+			createMemory(db, { type: "project", title: "Notes", content: "deploy on fridays only" });
+
+			const relevant = recallMemories(db, globalDb, "deploy")
+				.filter((m) => m.relevant)
+				.map((m) => m.scope);
+			expect(relevant.slice(0, 4)).toEqual(["project", "global", "project", "global"]);
+			expect(relevant).toHaveLength(7);
+		} finally {
+			globalDb.close();
+		}
+	});
+});
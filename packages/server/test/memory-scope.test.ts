@@ -0,0 +1,208 @@
+import { Database } from "bun:sqlite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { handlePrompt } from "../src/handler";
+import { buildMemoryIndex } from "../src/memory/index";
+import { createMemory, ensureMemoriesSchema, getMemory, listMemories } from "../src/memory/repository";
+import { GLOBAL_MEMORY_DB_FILE, mergeMemoryScopes, openGlobalMemoryDb, promoteMemory } from "../src/memory/scope";
+import type { Provider, ProviderOptions, StreamEvent } from "../src/provider/provider";
+import type { SkillRegistry } from "../src/skill/skill";
+import { createMemoryTool } from "../src/tool/memory";
+import type { ToolContext } from "../src/tool/tool";
+import { createTestDb, startTestServer } from "./helpers";
+import { writeUnifiedModelsConfig } from "./test-models";
+
+const MODEL = "small-model";
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+
+let configDir: string;
+let db: Database;
+let globalDb: Database;
+
+beforeAll(() => {
+	configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-memory-scope-"));
+	writeUnifiedModelsConfig(configDir, {
+		openrouter: [{ id: MODEL, name: "Small", contextWindow: 10_000, maxOutput: 4096 }],
+	});
+});
+
+afterAll(() => {
+	fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+	db = createTestDb();
+	globalDb = new Database(":memory:");
+	ensureMemoriesSchema(globalDb);
+});
+
+afterEach(() => {
+	db.close();
+	globalDb.close();
+});
+
+describe("openGlobalMemoryDb", () => {
+	test("creates the store in the config dir", () => {
+		const dir = path.join(configDir, "nested");
+		const store = openGlobalMemoryDb(dir);
+		try {
+			createMemory(store, { type: "user", title: "Name", content: "Ada" });
+			expect(fs.existsSync(path.join(dir, GLOBAL_MEMORY_DB_FILE))).toBe(true);
+			expect(listMemories(store)).toHaveLength(1);
+		} finally {
+			store.close();
+		}
+	});
+});
+
+describe("mergeMemoryScopes / buildMemoryIndex", () => {
+	test("lists project memories first, drops shadowed global ones and labels the rest", () => {
+		const project = [createMemory(db, { type: "feedback", title: "Reviews", content: "Be terse in this repo" })];
+		const global = [
+			createMemory(globalDb, { type: "feedback", title: "reviews", content: "Be thorough" }),
+			createMemory(globalDb, { type: "user", title: "Editor", content: "Uses vim" }),
+		];
+
+		const merged = mergeMemoryScopes(project, global);
+		expect(merged.map((m) => [m.scope, m.title])).toEqual([
+			["project", "Reviews"],
+			["global", "Editor"],
+		]);
+
+		const index = buildMemoryIndex(merged, NOW);
+		expect(index).toContain("Entries marked `global` apply to every project");
+		expect(index).toContain("[feedback] Reviews — Be terse in this repo");
+		expect(index).toContain("[user, global] Editor — Uses vim");
+		expect(index).not.toContain("Be thorough");
+		expect(buildMemoryIndex(project, NOW)).not.toContain("global");
+	});
+});
+
+describe("promoteMemory", () => {
+	test("moves a project memory to the global store, updating a same-titled one", () => {
+		const local = createMemory(db, { type: "user", title: "Editor", description: "vim", content: "Uses vim" });
+		const stale = createMemory(globalDb, { type: "user", title: "editor", content: "Uses emacs" });
+
+		const promoted = promoteMemory(db, globalDb, local.id);
+		expect(promoted).toMatchObject({ id: stale.id, scope: "global", title: "Editor", content: "Uses vim" });
+		expect(getMemory(db, local.id)).toBeNull();
+		expect(listMemories(globalDb)).toHaveLength(1);
+		expect(promoteMemory(db, globalDb, local.id)).toBeNull();
+	});
+});
+
+describe("memory tool with a global store", () => {
+	const ctx: ToolContext = { projectRoot: "/tmp/project", sessionId: "sess-1" };
+
+	test("offers scope and promote only when the global store is given", () => {
+		const plain = createMemoryTool(db).definition.function.parameters.properties;
+		expect(plain.scope).toBeUndefined();
+		expect(plain.command.enum).not.toContain("promote");
+
+		const scoped = createMemoryTool(db, { globalDb }).definition.function.parameters.properties;
+		expect(scoped.scope?.enum).toEqual(["project", "global"]);
+		expect(scoped.command.enum).toContain("promote");
+		expect(createMemoryTool(db, { globalDb, readOnly: true }).definition.function.parameters.properties.command.enum).toEqual([
+			"list",
+			"search",
+			"get",
+		]);
+	});
+
+	test("saves to either store, lists both with labels and promotes", async () => {
+		const tool = createMemoryTool(db, { globalDb });
+		const saved = await tool.execute(
+			{ command: "save", scope: "global", type: "user", title: "Editor", content: "Uses vim" },
+			ctx,
+		);
+		expect(saved.llmOutput).toContain("to global memory");
+		await tool.execute({ command: "save", type: "project", title: "Build", content: "bun run build" }, ctx);
+		expect(listMemories(globalDb).map((m) => m.title)).toEqual(["Editor"]);
+		expect(listMemories(db).map((m) => m.title)).toEqual(["Build"]);
+
+		const list = await tool.execute({ command: "list" }, ctx);
+		expect(list.llmOutput).toContain("[project] Build");
+		expect(list.llmOutput).toContain("[user, global] Editor");
+		expect((await tool.execute({ command: "list", scope: "global" }, ctx)).llmOutput).not.toContain("Build");
+		expect((await tool.execute({ command: "search", query: "vim" }, ctx)).llmOutput).toContain("[user, global] Editor");
+
+		const editor = listMemories(globalDb)[0];
+		expect((await tool.execute({ command: "get", id: editor?.id }, ctx)).llmOutput).toContain("Scope: global");
+		await tool.execute({ command: "update", id: editor?.id, content: "Uses neovim" }, ctx);
+		expect(listMemories(globalDb)[0]?.content).toBe("Uses neovim");
+
+		const build = listMemories(db)[0];
+		const promoted = await tool.execute({ command: "promote", id: build?.id }, ctx);
+		expect(promoted.llmOutput).toContain('Promoted memory "Build" to global memory');
+		expect(listMemories(db)).toHaveLength(0);
+		expect((await tool.execute({ command: "promote", id: editor?.id }, ctx)).llmOutput).toContain("already global");
+		expect((await tool.execute({ command: "list", scope: "team" }, ctx)).llmOutput).toContain('invalid scope "team"');
+	});
+});
+
+describe("global memories in prompts and endpoints", () => {
+	const emptySkills: SkillRegistry = { get: () => undefined, list: () => [] };
+
+	test("the system prompt index includes global memories", async () => {
+		createMemory(globalDb, { type: "user", title: "Editor", content: "Uses vim" });
+		const calls: ProviderOptions[] = [];
+		const provider: Provider = {
+			id: "openrouter",
+			async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+				calls.push(opts);
+				yield { type: "text", text: "answer" };
+				yield { type: "finish", reason: "stop" };
+			},
+		};
+
+		await handlePrompt({
+			ws: { send: () => {} },
+			db,
+			globalMemoryDb: globalDb,
+			provider,
+			model: MODEL,
+			text: "hi",
+			projectRoot: os.tmpdir(),
+			configDir,
+			skills: emptySkills,
+		});
+
+		expect(calls[0]?.messages[0]?.content).toContain("[user, global] Editor — Uses vim");
+	});
+
+	test("create in a scope, list with scopes and promote", async () => {
+		const { server, baseUrl } = startTestServer({ port: 0, db, globalMemoryDb: globalDb });
+		try {
+			const post = (url: string, body: unknown) =>
+				fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+			const created = await post(`${baseUrl}/bobai/memories`, {
+				type: "user",
+				title: "Editor",
+				content: "Uses vim",
+				scope: "global",
+			});
+			expect(((await created.json()) as { scope: string }).scope).toBe("global");
+			const local = createMemory(db, { type: "project", title: "Build", content: "bun run build" });
+
+			const listing = (await (await fetch(`${baseUrl}/bobai/memories`)).json()) as {
+				memories: { title: string; scope: string; indexed: boolean }[];
+			};
+			expect(listing.memories.map((m) => [m.title, m.scope, m.indexed])).toEqual([
+				["Build", "project", true],
+				["Editor", "global", true],
+			]);
+			const globals = (await (await fetch(`${baseUrl}/bobai/memories?scope=global`)).json()) as { memories: unknown[] };
+			expect(globals.memories).toHaveLength(1);
+
+			const promoted = await post(`${baseUrl}/bobai/memories/${local.id}/promote`, {});
+			expect(((await promoted.json()) as { scope: string }).scope).toBe("global");
+			expect(listMemories(globalDb)).toHaveLength(2);
+			expect((await post(`${baseUrl}/bobai/memories/${local.id}/promote`, {})).status).toBe(404);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
@@ -0,0 +1,174 @@
+import type { Database } from "bun:sqlite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { resolveModelRoles, resolveRoleBackend } from "../src/provider/model-roles";
+import type { Provider, ProviderOptions, StreamEvent } from "../src/provider/provider";
+import { createSession, getMessages, getSession, listSubagentSessions } from "../src/session/repository";
+import type { SkillRegistry } from "../src/skill/skill";
+import { SubagentStatus } from "../src/subagent-status";
+import { createTaskTool, type TaskToolDeps } from "../src/tool/task";
+import { createTestDb } from "./helpers";
+import { writeUnifiedModelsConfig } from "./test-models";
+
+const emptySkills: SkillRegistry = { get: () => undefined, list: () => [] };
+
+/** Answers every call with "done on <id>" and records the requested models. */
+function recordingProvider(id: string, configDir: string): Provider & { models: string[] } {
+	const provider = {
+		id,
+		configDir,
+		models: [] as string[],
+		async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+			provider.models.push(opts.model);
+			yield { type: "text", text: `done on ${id}` };
+			yield { type: "finish", reason: "stop" };
+		},
+	};
+	return provider;
+}
+
+describe("resolveModelRoles", () => {
+	test("project roles win per role and invalid entries are dropped", () => {
+		const roles = resolveModelRoles(
+			{ subagent: { model: "cheap" }, compactionSummary: { provider: "nope", model: "m" } },
+			{ subagent: { model: "other" }, compactionSummary: { provider: "openrouter", model: "vendor/m" } },
+		);
+		expect(roles).toEqual({
+			subagent: { model: "cheap" },
+			compactionSummary: { provider: "openrouter", model: "vendor/m" },
+		});
+		expect(resolveModelRoles({ subagent: { provider: "openrouter" } })).toEqual({});
+	});
+});
+
+describe("model roles", () => {
+	let configDir: string;
+	let db: Database;
+	let parentSessionId: string;
+
+	beforeAll(() => {
+		configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-model-roles-"));
+		writeUnifiedModelsConfig(configDir, {
+			"opencode-go": [
+				{ id: "kimi-k2.6", name: "Kimi", contextWindow: 131072, maxOutput: 16384, inputPrice: 0.6, outputPrice: 2.4 },
+				{ id: "deepseek-v4-flash", name: "Flash", contextWindow: 131072, maxOutput: 16384, inputPrice: 0.27, outputPrice: 1.1 },
+			],
+			openrouter: [
+				{
+					id: "anthropic/claude-haiku-4.5",
+					name: "Haiku",
+					contextWindow: 128000,
+					maxOutput: 64000,
+					inputPrice: 0.5,
+					outputPrice: 5,
+				},
+			],
+		});
+	});
+
+	afterAll(() => {
+		fs.rmSync(configDir, { recursive: true, force: true });
+	});
+
+	beforeEach(() => {
+		db = createTestDb();
+		parentSessionId = createSession(db, { provider: "opencode-go", model: "kimi-k2.6" }).id;
+	});
+
+	afterEach(() => {
+		db.close();
+	});
+
+	function taskDeps(provider: Provider, overrides: Partial<TaskToolDeps> = {}): TaskToolDeps {
+		return {
+			db,
+			provider,
+			model: "kimi-k2.6",
+			parentSessionId,
+			projectRoot: os.tmpdir(),
+			skills: emptySkills,
+			instructions: [],
+			onEvent: () => {},
+			subagentStatus: new SubagentStatus(),
+			...overrides,
+		};
+	}
+
+	test("a role model missing from the catalog falls back to the session's with a warning", () => {
+		const session = { provider: "opencode-go" as const, model: "kimi-k2.6" };
+		const warnings: string[] = [];
+		const roles = resolveModelRoles({ subagent: { model: "deepseek-v4-flash" }, compactionSummary: { model: "gone" } });
+
+		expect(resolveRoleBackend(roles, "subagent", session, configDir)).toEqual({
+			provider: "opencode-go",
+			model: "deepseek-v4-flash",
+		});
+		expect(resolveRoleBackend(roles, "compactionSummary", session, configDir, (m) => warnings.push(m))).toBe(session);
+		expect(warnings).toEqual([
+			'Model "gone" for the compactionSummary role is not in the opencode-go catalog; using kimi-k2.6',
+		]);
+	});
+
+	test("subagents run on the subagent role's provider and model", async () => {
+		const parent = recordingProvider("opencode-go", configDir);
+		const router = recordingProvider("openrouter", configDir);
+		const tool = createTaskTool(
+			taskDeps(parent, {
+				modelRoles: resolveModelRoles({ subagent: { provider: "openrouter", model: "anthropic/claude-haiku-4.5" } }),
+				getProvider: async () => router,
+			}),
+		);
+
+		const result = await tool.execute({ description: "Explore", prompt: "Look around" }, { projectRoot: os.tmpdir() });
+
+		expect(result.llmOutput).toContain("done on openrouter");
+		expect(parent.models).toEqual([]);
+		expect(router.models).toEqual(["anthropic/claude-haiku-4.5"]);
+		const [child] = listSubagentSessions(db, parentSessionId);
+		expect(getSession(db, child?.id as string)).toMatchObject({
+			provider: "openrouter",
+			model: "anthropic/claude-haiku-4.5",
+		});
+		const reply = getMessages(db, child?.id as string).at(-1);
+		expect(reply?.metadata?.turn_model).toBe("anthropic/claude-haiku-4.5");
+		expect(reply?.metadata?.turn_provider).toBe("openrouter");
+	});
+
+	test("the model hint picks a catalog model on the subagent's provider", async () => {
+		const parent = recordingProvider("opencode-go", configDir);
+		const tool = createTaskTool(taskDeps(parent));
+		const description = tool.definition.function.parameters.properties.model?.description;
+		expect(description).toContain("Defaults to kimi-k2.6 on opencode-go");
+
+		const unknown = await tool.execute(
+			{ description: "Explore", prompt: "Look around", model: "gpt-9" },
+			{ projectRoot: os.tmpdir() },
+		);
+		expect(unknown.llmOutput).toBe(
+			'Error: model "gpt-9" is not in the opencode-go catalog. Omit model to use the default subagent model.',
+		);
+		expect(listSubagentSessions(db, parentSessionId)).toHaveLength(0);
+
+		await tool.execute(
+			{ description: "Explore", prompt: "Look around", model: "deepseek-v4-flash" },
+			{ projectRoot: os.tmpdir() },
+		);
+		expect(parent.models).toEqual(["deepseek-v4-flash"]);
+	});
+
+	test("a resumed subagent keeps the model it started on", async () => {
+		const parent = recordingProvider("opencode-go", configDir);
+		const first = createTaskTool(taskDeps(parent, { modelRoles: { subagent: { model: "deepseek-v4-flash" } } }));
+		await first.execute({ description: "Explore", prompt: "Look around" }, { projectRoot: os.tmpdir() });
+		const [child] = listSubagentSessions(db, parentSessionId);
+
+		const resumedTool = createTaskTool(taskDeps(parent));
+		await resumedTool.execute(
+			{ description: "Explore", prompt: "Keep going", task_id: child?.id },
+			{ projectRoot: os.tmpdir() },
+		);
+		expect(parent.models).toEqual(["deepseek-v4-flash", "deepseek-v4-flash"]);
+	});
+});
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { validateOpenAICompatibleEndpoint } from "../src/auth/openai-compatible";
+import { resolveValidatedDefaultBackend } from "../src/config/default-backend";
+import { createConfiguredProvider } from "../src/provider/factory";
+import { buildSortedProviderModelList } from "../src/provider/models";
+import { createOpenAICompatibleProvider } from "../src/provider/openai-compatible";
+import { loadOpenAICompatibleModels } from "../src/provider/openai-compatible-models";
+import type { StreamEvent } from "../src/provider/provider";
+import { getDefaultModelForProvider } from "../src/provider/providers";
+import { getProviderDescriptor } from "../src/provider/registry";
+
+function sseStream(chunks: Array<Record<string, unknown> | "[DONE]">): ReadableStream<Uint8Array> {
+	return new ReadableStream({
+		start(controller) {
+			for (const chunk of chunks) {
+				const payload = chunk === "[DONE]" ? "[DONE]" : JSON.stringify(chunk);
+				controller.enqueue(new TextEncoder().encode(`data: ${payload}\n\n`));
+			}
+			controller.close();
+		},
+	});
+}
+
+async function collect(events: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+	const out: StreamEvent[] = [];
+	for await (const event of events) out.push(event);
+	return out;
+}
+
+let configDir: string;
+
+function writeConfig(files: { bobai?: unknown; auth?: unknown }): void {
+	if (files.bobai) fs.writeFileSync(path.join(configDir, "bobai.json"), JSON.stringify(files.bobai));
+	if (files.auth) fs.writeFileSync(path.join(configDir, "auth.json"), JSON.stringify(files.auth));
+}
+
+beforeEach(() => {
+	configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-openai-compatible-"));
+});
+
+afterEach(() => {
+	fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+describe("openai-compatible models", () => {
+	test("are read from bobai.json without a models.json, with zero pricing by default", () => {
+		writeConfig({
+			bobai: {
+				openaiCompatible: {
+					models: [
+						{ id: "qwen2.5-coder:32b", contextWindow: 32768, maxOutput: 8192 },
+						{ id: "broken", contextWindow: 0, maxOutput: 8192 },
+						{ name: "no id", contextWindow: 8192, maxOutput: 1024 },
+						{ id: "llama3.3", name: "Llama 3.3", contextWindow: 131072, maxOutput: 4096, inputPrice: 0.1 },
+					],
+				},
+			},
+		});
+
+		expect(loadOpenAICompatibleModels(configDir)).toEqual([
+			{
+				id: "qwen2.5-coder:32b",
+				name: "qwen2.5-coder:32b",
+				contextWindow: 32768,
+				maxOutput: 8192,
+				inputPrice: 0,
+				outputPrice: 0,
+			},
+			{ id: "llama3.3", name: "Llama 3.3", contextWindow: 131072, maxOutput: 4096, inputPrice: 0.1, outputPrice: 0 },
+		]);
+		expect(getProviderDescriptor("openai-compatible")?.modelsConfigExists(configDir)).toBe(true);
+		expect(buildSortedProviderModelList("openai-compatible", configDir).map((m) => [m.id, m.cost])).toEqual([
+			["llama3.3", "[$0.10 $0.00]"],
+			["qwen2.5-coder:32b", "[$0.00 $0.00]"],
+		]);
+		expect(getDefaultModelForProvider("openai-compatible", configDir)).toBe("qwen2.5-coder:32b");
+		expect(getDefaultModelForProvider("deepseek", configDir)).toBe("deepseek-v4-flash");
+	});
+
+	test("a configured endpoint and model make a valid default backend", () => {
+		writeConfig({
+			bobai: { openaiCompatible: { models: [{ id: "local", contextWindow: 8192, maxOutput: 2048 }] } },
+			auth: { version: 1, providers: { "openai-compatible": { baseUrl: "http://localhost:8080/v1" } } },
+		});
+		const backend = resolveValidatedDefaultBackend({
+			project: { filePath: "project.json", provider: "openai-compatible", model: "local" },
+			global: { filePath: "global.json" },
+			configDir,
+		});
+		expect(backend).toEqual({ provider: "openai-compatible", model: "local" });
+	});
+
+	test("the factory explains how to declare models when there are none", async () => {
+		writeConfig({ auth: { version: 1, providers: { "openai-compatible": { baseUrl: "http://localhost:8080/v1" } } } });
+		await expect(createConfiguredProvider({ providerId: "openai-compatible", configDir })).rejects.toThrow(
+			/openaiCompatible\.models in bobai\.json/,
+		);
+	});
+});
+
+describe("openai-compatible provider", () => {
+	test("posts to the configured base URL with custom headers and no key", async () => {
+		writeConfig({ bobai: { openaiCompatible: { models: [{ id: "local", contextWindow: 8192, maxOutput: 2048 }] } } });
+		let capturedUrl = "";
+		let capturedHeaders: Record<string, string> = {};
+		const fetchFn = (async (url: string | URL | Request, init?: RequestInit) => {
+			capturedUrl = url.toString();
+			capturedHeaders = init?.headers as Record<string, string>;
+			return new Response(
+				sseStream([
+					{ choices: [{ delta: { content: "hi" } }] },
+					{ choices: [{ finish_reason: "stop" }], usage: { prompt_tokens: 100, completion_tokens: 2, total_tokens: 102 } },
+					"[DONE]",
+				]),
+				{ status: 200, headers: { "Content-Type": "text/event-stream" } },
+			);
+		}) as typeof fetch;
+
+		const provider = createOpenAICompatibleProvider(
+			{ baseUrl: "http://localhost:11434/v1/", headers: { "X-Team": "core" } },
+			undefined,
+			fetchFn,
+			configDir,
+		);
+		const events = await collect(provider.stream({ model: "local", messages: [{ role: "user", content: "hello" }] }));
+
+		expect(provider.id).toBe("openai-compatible");
+		expect(capturedUrl).toBe("http://localhost:11434/v1/chat/completions");
+		expect(capturedHeaders.Authorization).toBeUndefined();
+		expect(capturedHeaders["X-Team"]).toBe("core");
+		expect(events).toContainEqual({
+			type: "usage",
+			tokenCount: 100,
+			tokenLimit: 8192,
+			display: "openai-compatible | local [$0.00 $0.00] | $0.00 | 100 / 8192 | 1%",
+		});
+	});
+});
+
+describe("validateOpenAICompatibleEndpoint", () => {
+	test("lists the server's models, sending the key when there is one", async () => {
+		let seenUrl = "";
+		let seenHeaders: Record<string, string> = {};
+		const ids = await validateOpenAICompatibleEndpoint("http://localhost:8000/v1/", "vllm-key", {
+			fetch: (async (url: string | URL | Request, init?: RequestInit) => {
+				seenUrl = String(url);
+				seenHeaders = init?.headers as Record<string, string>;
+				return Response.json({ data: [{ id: "meta-llama/Llama-3.3-70B" }, { id: 7 }] });
+			}) as typeof fetch,
+		});
+		expect(seenUrl).toBe("http://localhost:8000/v1/models");
+		expect(seenHeaders.Authorization).toBe("Bearer vllm-key");
+		expect(ids).toEqual(["meta-llama/Llama-3.3-70B"]);
+	});
+
+	test("reports an unreachable server or an error status", async () => {
+		await expect(
+			validateOpenAICompatibleEndpoint("http://localhost:1/v1", "", {
+				fetch: (async () => {
+					throw new Error("Connection refused");
+				}) as unknown as typeof fetch,
+			}),
+		).rejects.toThrow("cannot reach http://localhost:1/v1/models: Connection refused");
+		await expect(
+			validateOpenAICompatibleEndpoint("http://localhost:8000/v1", "bad", {
+				fetch: (async () => new Response("Unauthorized", { status: 401 })) as unknown as typeof fetch,
+			}),
+		).rejects.toThrow(/401 Unauthorized/);
+	});
+});
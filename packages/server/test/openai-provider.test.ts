@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createOpenAIProvider } from "../src/provider/openai";
+import type { StreamEvent } from "../src/provider/provider";
+import { createTestModels, writeUnifiedModelsConfig } from "./test-models";
+
+function sseStream(events: Record<string, unknown>[]): ReadableStream<Uint8Array> {
+	return new ReadableStream({
+		start(controller) {
+			for (const event of events) {
+				controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`));
+			}
+			controller.close();
+		},
+	});
+}
+
+async function collect(events: AsyncIterable<StreamEvent>): Promise<StreamEvent[]> {
+	const out: StreamEvent[] = [];
+	for await (const event of events) out.push(event);
+	return out;
+}
+
+describe("openai provider", () => {
+	let configDir: string;
+
+	beforeEach(() => {
+		configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-openai-"));
+		writeUnifiedModelsConfig(configDir, {
+			openai: createTestModels([{ id: "gpt-5.4", contextWindow: 272000, maxOutput: 64000, inputPrice: 1, outputPrice: 4 }]),
+		});
+	});
+
+	afterEach(() => {
+		fs.rmSync(configDir, { recursive: true, force: true });
+	});
+
+	test("calls the Responses API directly, keyed to the session's prompt cache", async () => {
+		let capturedUrl = "";
+		let capturedInit: RequestInit | undefined;
+		const fetchFn = (async (url: string | URL | Request, init?: RequestInit) => {
+			capturedUrl = url.toString();
+			capturedInit = init;
+			return new Response(
+				sseStream([
+					{ type: "response.output_text.delta", delta: "hi" },
+					{ type: "response.completed", response: { usage: { input_tokens: 42, output_tokens: 2, total_tokens: 44 } } },
+				]),
+				{ status: 200, headers: { "Content-Type": "text/event-stream" } },
+			);
+		}) as typeof fetch;
+
+		const provider = createOpenAIProvider({ apiKey: "sk-openai" }, undefined, fetchFn, configDir);
+		await collect(
+			provider.stream({
+				model: "gpt-5.4",
+				messages: [{ role: "user", content: "hello" }],
+				sessionId: "12345678-1234-1234-1234-123456789abc",
+			}),
+		);
+
+		expect(provider.id).toBe("openai");
+		expect(capturedUrl).toBe("https://api.openai.com/v1/responses");
+		expect((capturedInit?.headers as Record<string, string>).Authorization).toBe("Bearer sk-openai");
+		const body = JSON.parse(capturedInit?.body as string);
+		expect(body.prompt_cache_key).toBe("12345678-1234-1234-1234-123456789abc");
+		expect(body.reasoning).toEqual({ effort: "medium", summary: "auto" });
+		expect(body.store).toBe(false);
+	});
+});
@@ -131,6 +131,7 @@ describe("OpenRouter session flow", () => {
 		expect(done?.summary).toMatch(/^ \| claude-haiku-4\.5 \| in: 7473 \| out: 3123 \| \$0\.02 \| \+7473 \| \d+\.\d{2}s$/);
 		const stored = getMessages(db, session.id);
 		expect(stored.at(-1)?.metadata?.turn_model).toBe("openrouter/free");
+		expect(stored.at(-1)?.metadata?.turn_provider).toBe("openrouter");
 		expect(stored.at(-1)?.metadata?.summary).toMatch(
 			/^ \| claude-haiku-4\.5 \| in: 7473 \| out: 3123 \| \$0\.02 \| \+7473 \| \d+\.\d{2}s$/,
 		);
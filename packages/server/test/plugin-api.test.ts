@@ -0,0 +1,450 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { handlePrompt } from "../src/handler";
+import { createLogger } from "../src/log/logger";
+import type { AfterToolCallEvent, BeforeTurnEvent } from "../src/plugins/api";
+import { runPluginCommand } from "../src/plugins/command";
+import { loadPlugins } from "../src/plugins/loader";
+import { appendPluginTools, createPluginRegistry } from "../src/plugins/registry";
+import type { Provider, ProviderOptions, StreamEvent } from "../src/provider/provider";
+import { isSupportedProvider, type ProviderId } from "../src/provider/providers";
+import { registerPluginProvider } from "../src/provider/registry";
+import { createProviderRuntimeManager } from "../src/provider/runtime-manager";
+import { createSession, getMessages } from "../src/session/repository";
+import type { Tool } from "../src/tool/tool";
+import { createTestDb, openWs, startTestServer } from "./helpers";
+
+const context = { version: "1.2.3", projectRoot: "/tmp/project" };
+
+function fakeTool(name: string, output = "ok"): Tool {
+	return {
+		definition: { type: "function", function: { name, description: name, parameters: { type: "object", properties: {} } } },
+		mergeable: false,
+		formatCall: () => `▸ ${name}`,
+		execute: async () => ({ llmOutput: output, uiOutput: output, mergeable: false }),
+	};
+}
+
+describe("plugin registry", () => {
+	test("collects registrations of loaded plugins only", () => {
+		const builder = createPluginRegistry();
+		const good = builder.add({ name: "good", scope: "global", path: "/p/good.js" }, context);
+		good.registerTool(fakeTool("good_tool"));
+		good.registerCommand({ name: "hello", description: "Say hello", run: () => "hi" });
+		good.addSystemPromptSection("Always be kind.");
+
+		const bad = builder.add({ name: "bad", scope: "project", path: "/p/bad.js" }, context);
+		bad.registerTool(fakeTool("bad_tool"));
+		bad.addSystemPromptSection("Never shown.");
+		builder.reject("bad", "failed", "boom");
+
+		const { registry } = builder;
+		expect(registry.tools().map((t) => t.definition.function.name)).toEqual(["good_tool"]);
+		expect(registry.getCommand("hello")?.description).toBe("Say hello");
+		expect(registry.systemPromptSections({ sessionId: "s", projectRoot: "/", subagent: false })).toEqual([
+			{ plugin: "good", content: "Always be kind." },
+		]);
+		expect(registry.status().map((p) => p.state)).toEqual(["loaded", "failed"]);
+	});
+
+	test("rejects invalid, built-in and duplicate registrations", () => {
+		const builder = createPluginRegistry();
+		const a = builder.add({ name: "a", scope: "global", path: "/p/a.js" }, context);
+		const b = builder.add({ name: "b", scope: "global", path: "/p/b.js" }, context);
+		a.registerCommand({ name: "lint", description: "", run: () => undefined });
+		a.registerTool(fakeTool("shared"));
+
+		expect(() => b.registerCommand({ name: "lint", description: "", run: () => undefined })).toThrow(
+			"already registered by plugin a",
+		);
+		expect(() => b.registerCommand({ name: "model", description: "", run: () => undefined })).toThrow("built-in");
+		expect(() => b.registerCommand({ name: "policy", description: "", run: () => undefined })).toThrow("built-in");
+		expect(() => b.registerCommand({ name: "lint2", description: "", run: () => undefined })).toThrow("invalid name");
+		expect(() => b.registerTool(fakeTool("shared"))).toThrow("already registered by plugin a");
+	});
+
+	test("registerProvider replaces built-in providers and adds new ones with their models", () => {
+		const builder = createPluginRegistry();
+		const api = builder.add({ name: "acme", scope: "global", path: "/p/acme.js" }, context);
+		const factory = async () => ({}) as Provider;
+		const models = [{ id: "acme-large", name: "Acme Large", contextWindow: 100_000, maxOutput: 8_000 }];
+
+		expect(() => api.registerProvider("openrouter", factory, { models })).toThrow("built-in provider");
+		expect(() => api.registerProvider("Acme LLM", factory, { models })).toThrow("invalid provider id");
+		expect(() => api.registerProvider("tavily", factory, { models })).toThrow("not a model provider");
+		expect(() => api.registerProvider("acme", factory)).toThrow("needs at least one model");
+
+		api.registerProvider("openrouter", factory);
+		api.registerProvider("acme", factory, { models, apiFamily: "anthropic-messages" });
+		expect(builder.registry.getProvider("openrouter")).toBe(factory);
+		expect(builder.registry.getProvider("acme" as ProviderId)).toBe(factory);
+		expect(builder.registry.addedProviders()).toEqual([
+			{ id: "acme", plugin: "acme", models, apiFamily: "anthropic-messages" },
+		]);
+
+		builder.reject("acme", "failed", "boom");
+		expect(builder.registry.addedProviders()).toEqual([]);
+	});
+
+	test("every built-in dot command is reserved", () => {
+		const commandSource = fs.readFileSync(path.join(import.meta.dir, "../src/command.ts"), "utf8");
+		const handleCommand = commandSource.slice(
+			commandSource.indexOf("export function handleCommand"),
+			commandSource.indexOf("function withSessionId"),
+		);
+		const serverCommands = [...handleCommand.matchAll(/case "(\w+)":/g)].map((m) => m[1] as string);
+		const uiSource = fs.readFileSync(path.join(import.meta.dir, "../../ui/src/commandParser.ts"), "utf8");
+		const uiCommands = [...uiSource.matchAll(/^\t(\w+): \{ name: "\w+"/gm)].map((m) => m[1] as string);
+		expect(serverCommands).toContain("pin");
+		expect(uiCommands).toContain("approve");
+
+		const api = createPluginRegistry().add({ name: "p", scope: "global", path: "/p/p.js" }, context);
+		for (const name of new Set([...serverCommands, ...uiCommands])) {
+			expect(() => api.registerCommand({ name, description: "", run: () => undefined })).toThrow("built-in");
+		}
+	});
+
+	test("hooks run in order and a failing hook does not stop the others", async () => {
+		const builder = createPluginRegistry();
+		const api = builder.add({ name: "hooks", scope: "global", path: "/p/hooks.js" }, context);
+		const seen: string[] = [];
+		api.onBeforeTurn(() => {
+			throw new Error("first hook fails");
+		});
+		api.onBeforeTurn((event) => {
+			seen.push(`before:${event.prompt}`);
+		});
+		api.onAfterToolCall(async (event) => {
+			seen.push(`after:${event.toolName}:${event.output}`);
+		});
+
+		await builder.registry.runBeforeTurn({ sessionId: "s", prompt: "hi", projectRoot: "/" });
+		await builder.registry.runAfterToolCall({ sessionId: "s", toolCallId: "c", toolName: "t", args: {}, output: "out" });
+
+		expect(seen).toEqual(["before:hi", "after:t:out"]);
+	});
+
+	test("appendPluginTools skips tools that clash with built-ins", () => {
+		const builder = createPluginRegistry();
+		const api = builder.add({ name: "p", scope: "global", path: "/p/p.js" }, context);
+		api.registerTool(fakeTool("read_file"));
+		api.registerTool(fakeTool("extra"));
+
+		const builtIn = fakeTool("read_file", "built-in");
+		const tools = [builtIn];
+		appendPluginTools(tools, builder.registry);
+
+		expect(tools.map((t) => t.definition.function.name)).toEqual(["read_file", "extra"]);
+		expect(tools[0]).toBe(builtIn);
+	});
+
+	test("runPluginCommand shapes output and errors like built-in commands", async () => {
+		const say = { name: "say", description: "", run: (args: string) => `said ${args}` };
+		const many = {
+			name: "many",
+			description: "",
+			run: async () => ({ messages: [{ text: "done", kind: "success" as const }] }),
+		};
+		const fail = {
+			name: "fail",
+			description: "",
+			run: () => {
+				throw new Error("nope");
+			},
+		};
+
+		expect(await runPluginCommand(say, { command: "say", args: "x", sessionId: "s1" }, "/")).toEqual({
+			ok: true,
+			sessionId: "s1",
+			messages: [{ text: "said x", kind: "info" }],
+		});
+		expect(await runPluginCommand(many, { command: "many", args: "" }, "/")).toEqual({
+			ok: true,
+			messages: [{ text: "done", kind: "success" }],
+		});
+		expect(await runPluginCommand(fail, { command: "fail", args: "" }, "/")).toEqual({
+			ok: false,
+			error: ".fail failed: nope",
+		});
+	});
+});
+
+describe("loadPlugins with setup(api)", () => {
+	let tmpDir: string;
+	let globalDir: string;
+	let projectDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-plugin-api-"));
+		globalDir = path.join(tmpDir, "config");
+		projectDir = path.join(tmpDir, "project", ".bobai");
+		fs.mkdirSync(path.join(globalDir, "plugins"), { recursive: true });
+		fs.mkdirSync(path.join(projectDir, "plugins"), { recursive: true });
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	function writePlugin(dir: string, file: string, source: string) {
+		fs.writeFileSync(path.join(dir, "plugins", file), source);
+	}
+
+	test("passes the API to function and object default exports", async () => {
+		writePlugin(
+			globalDir,
+			"greet.js",
+			`export default function setup(api) {
+				api.registerCommand({ name: "greet", description: "Greet " + api.version, run: () => "hello from " + api.name });
+			}`,
+		);
+		writePlugin(
+			projectDir,
+			"notes.ts",
+			`export default {
+				async setup(api) {
+					api.addSystemPromptSection((ctx) => "Project root: " + ctx.projectRoot);
+				},
+			};`,
+		);
+
+		const registry = await loadPlugins(globalDir, createLogger({ level: "error", logDir: tmpDir }), {
+			projectDir,
+			projectRoot: "/work",
+			version: "9.9.9",
+		});
+
+		expect(registry.status().map((p) => `${p.scope}:${p.name}:${p.state}`)).toEqual([
+			"global:greet:loaded",
+			"project:notes:loaded",
+		]);
+		expect(registry.getCommand("greet")?.description).toBe("Greet 9.9.9");
+		expect(registry.systemPromptSections({ sessionId: "s", projectRoot: "/work", subagent: false })).toEqual([
+			{ plugin: "notes", content: "Project root: /work" },
+		]);
+	});
+
+	test("project plugins replace global plugins with the same name", async () => {
+		writePlugin(globalDir, "lint.js", `export default (api) => api.addSystemPromptSection("global lint");`);
+		writePlugin(projectDir, "lint.js", `export default (api) => api.addSystemPromptSection("project lint");`);
+
+		const registry = await loadPlugins(globalDir, createLogger({ level: "error", logDir: tmpDir }), { projectDir });
+
+		expect(registry.status().map((p) => `${p.scope}:${p.name}`)).toEqual(["project:lint"]);
+		expect(registry.systemPromptSections({ sessionId: "s", projectRoot: "/", subagent: false })[0]?.content).toBe(
+			"project lint",
+		);
+	});
+
+	test("skips disabled plugins without importing them", async () => {
+		writePlugin(globalDir, "broken.js", `throw new Error("should not be imported");`);
+
+		const registry = await loadPlugins(globalDir, createLogger({ level: "error", logDir: tmpDir }), {
+			disabled: ["broken"],
+		});
+
+		expect(registry.status()).toEqual([
+			{ name: "broken", scope: "global", path: path.join(globalDir, "plugins", "broken.js"), state: "disabled" },
+		]);
+	});
+
+	test("a plugin whose setup throws is disabled with its partial registrations", async () => {
+		writePlugin(
+			globalDir,
+			"half.js",
+			`export default (api) => {
+				api.registerCommand({ name: "half", description: "", run: () => "x" });
+				throw new Error("setup failed");
+			};`,
+		);
+
+		const origLog = console.log;
+		console.log = () => {};
+		try {
+			const registry = await loadPlugins(globalDir, createLogger({ level: "error", logDir: tmpDir }));
+			expect(registry.status()[0]).toMatchObject({ state: "failed", error: "setup failed" });
+			expect(registry.commands()).toEqual([]);
+		} finally {
+			console.log = origLog;
+		}
+	});
+});
+
+describe("plugin integration", () => {
+	test("runtime manager uses a plugin provider, which can wrap the default one", async () => {
+		const builder = createPluginRegistry();
+		const api = builder.add({ name: "proxy", scope: "global", path: "/p/proxy.js" }, context);
+		const base: Provider = { id: "openrouter", stream: async function* () {} };
+		api.registerProvider("openrouter", async (ctx) => ({ ...(await ctx.createDefault()), id: "openrouter" }));
+
+		const manager = createProviderRuntimeManager(
+			{ configDir: "/tmp", plugins: builder.registry },
+			{ createProvider: async () => base },
+		);
+
+		const provider = await manager.get("openrouter");
+		expect(provider).not.toBe(base);
+		expect(provider.stream).toBe(base.stream);
+	});
+
+	test("a provider added by a plugin can be selected and runs turns", async () => {
+		const configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-plugin-provider-"));
+		const db = createTestDb();
+		const builder = createPluginRegistry();
+		const api = builder.add({ name: "acme", scope: "project", path: "/p/acme.js" }, context);
+		const models: string[] = [];
+		api.registerProvider(
+			"acme",
+			(ctx) => ({
+				id: "acme",
+				async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+					models.push(opts.model);
+					yield { type: "text", text: ctx.configDir === configDir ? "hi from acme" : "wrong context" };
+					yield { type: "finish", reason: "stop" };
+				},
+			}),
+			{
+				models: [
+					{ id: "acme-small", name: "Acme Small", contextWindow: 32_000, maxOutput: 4_000, inputPrice: 0.5, outputPrice: 1 },
+					{ id: "acme-large", name: "Acme Large", contextWindow: 200_000, maxOutput: 8_000, inputPrice: 3, outputPrice: 15 },
+				],
+			},
+		);
+		const unregister = builder.registry.addedProviders().map(registerPluginProvider);
+		const { server, baseUrl, wsUrl } = startTestServer({
+			port: 0,
+			db,
+			configDir,
+			runtimeManager: createProviderRuntimeManager({ configDir, plugins: builder.registry }),
+			projectRoot: "/tmp",
+			plugins: builder.registry,
+		});
+		const command = async (name: string, args: string, sessionId: string) => {
+			const res = await fetch(`${baseUrl}/bobai/command`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ command: name, args, sessionId }),
+			});
+			return (await res.json()) as { ok: boolean; error?: string };
+		};
+
+		try {
+			expect(isSupportedProvider("acme")).toBe(true);
+			const providers = await (await fetch(`${baseUrl}/bobai/providers`)).json();
+			expect(providers.providers).toEqual([{ index: 1, id: "acme", runtimeSupported: true }]);
+			const catalog = await (await fetch(`${baseUrl}/bobai/models?provider=acme`)).json();
+			expect(catalog.defaultModel).toBe("acme-small");
+			expect(catalog.models.map((m: { id: string; cost: string }) => `${m.id} ${m.cost}`)).toEqual([
+				"acme-large [$3.00 $15.00]",
+				"acme-small [$0.50 $1.00]",
+			]);
+
+			const session = createSession(db);
+			expect(await command("provider", "1", session.id)).toMatchObject({ ok: true });
+			expect(await command("model", "1", session.id)).toMatchObject({ ok: true });
+
+			const ws = await openWs(wsUrl);
+			const done = new Promise<Record<string, unknown>>((resolve) => {
+				ws.onmessage = (event) => {
+					const msg = JSON.parse(event.data as string);
+					if (msg.type === "done") resolve(msg);
+				};
+			});
+			ws.send(JSON.stringify({ type: "prompt", text: "hello", sessionId: session.id }));
+			expect(await done).toMatchObject({ provider: "acme", model: "acme-large" });
+			ws.close();
+			expect(models).toEqual(["acme-large"]);
+			expect(getMessages(db, session.id).at(-1)?.content).toBe("hi from acme");
+		} finally {
+			server.stop(true);
+			for (const remove of unregister) remove();
+			db.close();
+			fs.rmSync(configDir, { recursive: true, force: true });
+		}
+		expect(isSupportedProvider("acme")).toBe(false);
+	});
+
+	test("handlePrompt offers plugin tools, prompt sections and runs hooks", async () => {
+		const db = createTestDb();
+		const builder = createPluginRegistry();
+		const api = builder.add({ name: "audit", scope: "project", path: "/p/audit.js" }, context);
+		const before: BeforeTurnEvent[] = [];
+		const after: AfterToolCallEvent[] = [];
+		api.registerTool(fakeTool("audit_log", "audit ok"));
+		api.addSystemPromptSection("Log every change with audit_log.");
+		api.onBeforeTurn((event) => {
+			before.push(event);
+		});
+		api.onAfterToolCall((event) => {
+			after.push(event);
+		});
+
+		const captured: ProviderOptions[] = [];
+		let callCount = 0;
+		const provider: Provider = {
+			id: "openrouter",
+			async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+				captured.push(opts);
+				callCount++;
+				if (callCount === 1) {
+					yield { type: "tool_call_start", index: 0, id: "call_1", name: "audit_log" };
+					yield { type: "tool_call_delta", index: 0, arguments: '{"entry":"x"}' };
+					yield { type: "finish", reason: "tool_calls" };
+				} else {
+					yield { type: "text", text: "logged" };
+					yield { type: "finish", reason: "stop" };
+				}
+			},
+		};
+
+		const sent: string[] = [];
+		await handlePrompt({
+			ws: { send: (msg) => sent.push(msg) },
+			db,
+			provider,
+			model: "test-model",
+			text: "change things",
+			projectRoot: "/tmp",
+			configDir: "/tmp",
+			skills: { get: () => undefined, list: () => [] },
+			plugins: builder.registry,
+		});
+		db.close();
+
+		const sessionId = JSON.parse(sent.at(-1) as string).sessionId;
+		expect(captured[0]?.tools?.some((t) => t.function.name === "audit_log")).toBe(true);
+		expect(captured[0]?.messages[0]?.content).toContain('<plugin name="audit">\nLog every change with audit_log.\n</plugin>');
+		expect(before).toEqual([{ sessionId, prompt: "change things", projectRoot: "/tmp" }]);
+		expect(after).toEqual([
+			{ sessionId, toolCallId: "call_1", toolName: "audit_log", args: { entry: "x" }, output: "audit ok" },
+		]);
+	});
+
+	test("server lists plugins and routes plugin dot commands", async () => {
+		const db = createTestDb();
+		const builder = createPluginRegistry();
+		const api = builder.add({ name: "greet", scope: "global", path: "/p/greet.js" }, context);
+		api.registerCommand({ name: "greet", description: "Say hello", run: (args) => `hello ${args}` });
+		const { server, baseUrl } = startTestServer({ port: 0, db, plugins: builder.registry });
+
+		try {
+			const list = await (await fetch(`${baseUrl}/bobai/plugins`)).json();
+			expect(list).toEqual({
+				plugins: [{ name: "greet", scope: "global", path: "/p/greet.js", state: "loaded" }],
+				commands: [{ name: "greet", description: "Say hello" }],
+			});
+
+			const res = await fetch(`${baseUrl}/bobai/command`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ command: "greet", args: "world" }),
+			});
+			expect(await res.json()).toEqual({ ok: true, messages: [{ text: "hello world", kind: "info" }] });
+		} finally {
+			server.stop(true);
+			db.close();
+		}
+	});
+});
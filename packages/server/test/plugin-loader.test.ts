@@ -4,6 +4,7 @@ import os from "node:os";
 import path from "node:path";
 import { createLogger } from "../src/log/logger";
 import { loadPlugins } from "../src/plugins/loader";
+import type { PluginRegistry } from "../src/plugins/registry";
 
 describe("loadPlugins", () => {
 	let tmpDir: string;
@@ -112,61 +113,59 @@ describe("loadPlugins", () => {
 		expect(lines[2]).toContain("c-plugin.js");
 	});
 
-	test("exits with code 1 and prints plugin path and error when plugin throws", async () => {
+	test("disables a plugin that throws and prints its path and error", async () => {
 		const pluginsDir = path.join(tmpDir, "plugins");
 		fs.mkdirSync(pluginsDir);
 		const badPlugin = path.join(pluginsDir, "bad.js");
 		fs.writeFileSync(badPlugin, 'throw new Error("plugin exploded");');
 		const logger = createLogger({ level: "info", logDir });
 
-		let capturedExitCode: number | undefined;
-		const origExit = process.exit.bind(process);
-		process.exit = ((code?: number) => {
-			capturedExitCode = code;
-			throw new Error("_exit_sentinel");
-		}) as typeof process.exit;
-
+		const exitSpy = spyOn(process, "exit").mockImplementation(() => {
+			throw new Error("process.exit called");
+		});
 		const logged: string[] = [];
 		const origLog = console.log;
 		console.log = (...args: unknown[]) => {
 			logged.push(args.map(String).join(" "));
 		};
 
+		let registry: PluginRegistry;
 		try {
-			await loadPlugins(tmpDir, logger);
-		} catch (err) {
-			if (!(err instanceof Error) || err.message !== "_exit_sentinel") throw err;
+			registry = await loadPlugins(tmpDir, logger);
 		} finally {
-			process.exit = origExit;
+			exitSpy.mockRestore();
 			console.log = origLog;
 		}
 
-		expect(capturedExitCode).toBe(1);
+		expect(exitSpy).not.toHaveBeenCalled();
 		const output = logged.join("\n");
 		expect(output).toContain(badPlugin);
 		expect(output).toContain("plugin exploded");
+		expect(registry.status()).toEqual([
+			{ name: "bad", scope: "global", path: badPlugin, state: "failed", error: "plugin exploded" },
+		]);
+		expect(readLog()).toContain("ERROR PLUGIN global Failed to load plugin");
 	});
 
-	test("does not load subsequent plugins after one fails", async () => {
+	test("keeps loading subsequent plugins after one fails", async () => {
 		const pluginsDir = path.join(tmpDir, "plugins");
 		fs.mkdirSync(pluginsDir);
 		fs.writeFileSync(path.join(pluginsDir, "a-bad.js"), 'throw new Error("first fails");');
-		fs.writeFileSync(path.join(pluginsDir, "b-good.js"), "// should not be reached");
+		fs.writeFileSync(path.join(pluginsDir, "b-good.js"), "// still loaded");
 		const logger = createLogger({ level: "info", logDir });
 
-		const exitSpy = spyOn(process, "exit").mockImplementation(() => {
-			throw new Error("process.exit called");
-		});
-
+		const origLog = console.log;
+		console.log = () => {};
+		let registry: PluginRegistry;
 		try {
-			await loadPlugins(tmpDir, logger);
-		} catch {
-			// expected: exit was called
+			registry = await loadPlugins(tmpDir, logger);
 		} finally {
-			exitSpy.mockRestore();
+			console.log = origLog;
 		}
 
-		expect(readLog()).not.toContain("b-good.js");
+		expect(readLog()).toContain("Loaded plugin");
+		expect(readLog()).toContain("b-good.js");
+		expect(registry.status().map((p) => `${p.name}:${p.state}`)).toEqual(["a-bad:failed", "b-good:loaded"]);
 	});
 
 	test("loads a symlinked .js plugin", async () => {
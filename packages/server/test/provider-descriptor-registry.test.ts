@@ -10,6 +10,9 @@ describe("provider descriptor registry", () => {
 			"opencode-zen",
 			"amazon-bedrock",
 			"deepseek",
+			"anthropic",
+			"openai",
+			"openai-compatible",
 		]);
 		expect(registry.listAuthProviders().map((provider) => provider.id)).toEqual([
 			"openrouter",
@@ -17,6 +20,9 @@ describe("provider descriptor registry", () => {
 			"opencode-zen",
 			"amazon-bedrock",
 			"deepseek",
+			"anthropic",
+			"openai",
+			"openai-compatible",
 		]);
 		expect(registry.getProviderDescriptor("openrouter")?.defaultModel).toBe("openrouter/free");
 		expect(registry.getProviderDescriptor("opencode-go")?.defaultModel).toBe("deepseek-v4-flash");
@@ -16,9 +16,21 @@ describe("provider registry", () => {
 			"opencode-zen",
 			"amazon-bedrock",
 			"deepseek",
+			"anthropic",
+			"openai",
+			"openai-compatible",
 			"tavily",
 		]);
-		expect(SUPPORTED_RUNTIME_PROVIDERS).toEqual(["openrouter", "opencode-go", "opencode-zen", "amazon-bedrock", "deepseek"]);
+		expect(SUPPORTED_RUNTIME_PROVIDERS).toEqual([
+			"openrouter",
+			"opencode-go",
+			"opencode-zen",
+			"amazon-bedrock",
+			"deepseek",
+			"anthropic",
+			"openai",
+			"openai-compatible",
+		]);
 	});
 
 	test("recognizes supported runtime provider ids", () => {
@@ -69,6 +81,17 @@ describe("provider registry", () => {
 		expect(getDefaultModelForProvider("deepseek")).toBe("deepseek-v4-flash");
 	});
 
+	test("recognizes first-party anthropic and openai as runtime and auth providers", () => {
+		expect(isSupportedProvider("anthropic")).toBe(true);
+		expect(isSupportedAuthProvider("anthropic")).toBe(true);
+		expect(getDefaultModelForProvider("anthropic")).toBe("claude-opus-4-7");
+		expect(getProviderDescriptor("anthropic")?.getApiFamily("claude-haiku-4-5")).toBe("anthropic-messages");
+		expect(isSupportedProvider("openai")).toBe(true);
+		expect(isSupportedAuthProvider("openai")).toBe(true);
+		expect(getDefaultModelForProvider("openai")).toBe("gpt-5.4");
+		expect(getProviderDescriptor("openai")?.getApiFamily("gpt-5.4-mini")).toBe("openai-responses");
+	});
+
 	test("exposes provider descriptor metadata through the registry", () => {
 		expect(getProviderDescriptor("openrouter")?.defaultModel).toBe("openrouter/free");
 		expect(getProviderDescriptor("openrouter")?.getApiFamily("openrouter/free")).toBe("openai-chat-completions");
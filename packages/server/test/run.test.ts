@@ -0,0 +1,231 @@
+import type { Database } from "bun:sqlite";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { resolvePermissionPolicy } from "../src/permission/policy";
+import type { Provider, ProviderOptions, StreamEvent } from "../src/provider/provider";
+import { ProviderError } from "../src/provider/provider";
+import { type HeadlessRunOptions, RUN_EXIT, runHeadless } from "../src/run";
+import { createSession, getMessages, getSession } from "../src/session/repository";
+import type { SkillRegistry } from "../src/skill/skill";
+import { createTestDb } from "./helpers";
+
+const emptySkills: SkillRegistry = { get: () => undefined, list: () => [] };
+
+function textProvider(tokens: string[]): Provider {
+	return {
+		id: "openrouter",
+		async *stream(_opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+			for (const t of tokens) yield { type: "text", text: t };
+			yield { type: "finish", reason: "stop" };
+		},
+	};
+}
+
+/** Provider that calls one tool once, then answers with text. */
+function toolProvider(name: string, args: Record<string, unknown>): Provider {
+	let callCount = 0;
+	return {
+		id: "openrouter",
+		async *stream(_opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+			callCount++;
+			if (callCount === 1) {
+				yield { type: "tool_call_start", index: 0, id: "call_1", name };
+				yield { type: "tool_call_delta", index: 0, arguments: JSON.stringify(args) };
+				yield { type: "finish", reason: "tool_calls" };
+			} else {
+				yield { type: "text", text: "done reading" };
+				yield { type: "finish", reason: "stop" };
+			}
+		},
+	};
+}
+
+function readFileProvider(filePath: string): Provider {
+	return toolProvider("read_file", { path: filePath });
+}
+
+/** Provider whose main session starts a subagent that reads `filePath`; title requests (no tools) get a title. */
+function subagentReadProvider(filePath: string): Provider {
+	return {
+		id: "openrouter",
+		async *stream(opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+			const last = opts.messages.at(-1);
+			if (!opts.tools?.length) {
+				yield { type: "text", text: "Title" };
+			} else if (last?.role === "tool") {
+				yield { type: "text", text: "done" };
+			} else if (last?.role === "user" && last.content === "hi") {
+				yield { type: "tool_call_start", index: 0, id: "call_task", name: "task" };
+				yield { type: "tool_call_delta", index: 0, arguments: JSON.stringify({ description: "Read", prompt: "read it" }) };
+				yield { type: "finish", reason: "tool_calls" };
+				return;
+			} else {
+				yield { type: "tool_call_start", index: 0, id: "call_read", name: "read_file" };
+				yield { type: "tool_call_delta", index: 0, arguments: JSON.stringify({ path: filePath }) };
+				yield { type: "finish", reason: "tool_calls" };
+				return;
+			}
+			yield { type: "finish", reason: "stop" };
+		},
+	};
+}
+
+describe("runHeadless", () => {
+	let db: Database;
+	let projectRoot: string;
+
+	beforeAll(() => {
+		db = createTestDb();
+		projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-run-"));
+		fs.writeFileSync(path.join(projectRoot, "notes.txt"), "hello\n");
+	});
+
+	afterAll(() => {
+		db.close();
+		fs.rmSync(projectRoot, { recursive: true, force: true });
+	});
+
+	async function run(overrides: Partial<HeadlessRunOptions>) {
+		const out: string[] = [];
+		const err: string[] = [];
+		const code = await runHeadless({
+			db,
+			projectRoot,
+			configDir: projectRoot,
+			skills: emptySkills,
+			prompt: "hi",
+			defaultProviderId: "openrouter",
+			defaultModel: "test-model",
+			json: false,
+			stdout: (text) => out.push(text),
+			stderr: (text) => err.push(text),
+			...overrides,
+		});
+		return { code, stdout: out.join(""), stderr: err.join("") };
+	}
+
+	function sessionIdFromJson(stdout: string): string {
+		const events = stdout
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line));
+		return events.find((e) => e.type === "done").sessionId;
+	}
+
+	test("streams assistant text to stdout", async () => {
+		const result = await run({ provider: textProvider(["Hello", " world"]) });
+
+		expect(result.code).toBe(RUN_EXIT.ok);
+		expect(result.stdout).toBe("Hello world\n");
+		expect(result.stderr).toBe("");
+	});
+
+	test("--json writes one event per line", async () => {
+		const result = await run({ provider: textProvider(["Hi"]), json: true });
+
+		expect(result.code).toBe(RUN_EXIT.ok);
+		const events = result.stdout
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line));
+		const types = events.map((e) => e.type);
+		expect(types[0]).toBe("session_created");
+		expect(types).toContain("text");
+		expect(types).not.toContain("token");
+		expect(types).not.toContain("prompt_echo");
+		expect(types.at(-1)).toBe("done");
+		expect(events.find((e) => e.type === "text").text).toBe("Hi");
+
+		const sessionId = sessionIdFromJson(result.stdout);
+		expect(getMessages(db, sessionId).map((m) => m.role)).toEqual(["user", "assistant"]);
+	});
+
+	test("--session continues an existing session", async () => {
+		const first = await run({ provider: textProvider(["one"]), json: true });
+		const sessionId = sessionIdFromJson(first.stdout);
+
+		const second = await run({ provider: textProvider(["two"]), sessionId, prompt: "again" });
+
+		expect(second.code).toBe(RUN_EXIT.ok);
+		expect(getMessages(db, sessionId).map((m) => m.content)).toEqual(["hi", "one", "again", "two"]);
+	});
+
+	test("prints tool calls and exits with 2 when a tool fails", async () => {
+		const ok = await run({ provider: readFileProvider("notes.txt") });
+		expect(ok.code).toBe(RUN_EXIT.ok);
+		expect(ok.stdout).toContain("notes.txt");
+		expect(ok.stdout).toEndWith("done reading\n");
+
+		const failed = await run({ provider: readFileProvider("missing.txt") });
+		expect(failed.code).toBe(RUN_EXIT.toolFailure);
+		expect(failed.stderr).toBe("Error: file not found: missing.txt\n");
+	});
+
+	test("tool calls that need approval are denied and exit with 2", async () => {
+		const result = await run({
+			provider: readFileProvider("notes.txt"),
+			permissions: resolvePermissionPolicy({ tools: { read_file: "ask" } }),
+		});
+
+		expect(result.code).toBe(RUN_EXIT.toolFailure);
+		expect(result.stderr).toContain("Permission denied: read_file requires approval");
+	});
+
+	test("provider errors go to stderr and exit with 1", async () => {
+		const provider: Provider = {
+			id: "openrouter",
+			stream() {
+				async function* gen(): AsyncGenerator<StreamEvent> {
+					yield* [];
+					throw new ProviderError(500, "upstream down");
+				}
+				return gen();
+			},
+		};
+
+		const result = await run({ provider });
+
+		expect(result.code).toBe(RUN_EXIT.error);
+		expect(result.stderr).toContain("Error:");
+		expect(result.stderr).toContain("500");
+	});
+
+	test("rejects unknown providers and sessions before running", async () => {
+		const provider = await run({ provider: textProvider(["x"]), providerOverride: "nope" });
+		expect(provider.code).toBe(RUN_EXIT.error);
+		expect(provider.stderr).toBe("Error: Unsupported provider: nope\n");
+
+		const session = await run({ provider: textProvider(["x"]), sessionId: "missing", modelOverride: "other", json: true });
+		expect(session.code).toBe(RUN_EXIT.error);
+		expect(JSON.parse(session.stdout)).toEqual({ type: "error", message: "Session not found: missing" });
+	});
+
+	test("--model switches the model of an empty existing session", async () => {
+		const session = createSession(db, { provider: "openrouter", model: "test-model" });
+
+		const result = await run({ provider: textProvider(["ok"]), sessionId: session.id, modelOverride: "other-model" });
+
+		expect(result.code).toBe(RUN_EXIT.ok);
+		expect(getSession(db, session.id)?.model).toBe("other-model");
+	});
+
+	test("output that merely reads like an error is not a failure", async () => {
+		const result = await run({
+			provider: toolProvider("bash", { command: "echo 'Error: not really'" }),
+			availableTools: { shells: ["bash"], grepTools: [], git: false },
+			permissions: resolvePermissionPolicy({ tools: { bash: "allow" } }),
+		});
+
+		expect(result.code).toBe(RUN_EXIT.ok);
+		expect(result.stderr).toBe("");
+	});
+
+	test("a failed tool call in a subagent exits with 2", async () => {
+		const result = await run({ provider: subagentReadProvider("missing.txt") });
+
+		expect(result.code).toBe(RUN_EXIT.toolFailure);
+		expect(result.stderr).toBe("Error: file not found: missing.txt\n");
+	});
+});
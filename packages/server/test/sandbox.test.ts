@@ -0,0 +1,180 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import {
+	bubblewrapArgs,
+	createSandbox,
+	describeSandbox,
+	resolveSandboxSettings,
+	type SandboxStatus,
+} from "../src/platform/sandbox";
+import type { AvailableTools } from "../src/platform/types";
+import { createProcessManager } from "../src/process/manager";
+import { createBashTool } from "../src/tool/bash";
+import { getShellTool } from "../src/tool/registry-helpers";
+
+const withBubblewrap: AvailableTools = { shells: ["bash"], grepTools: [], git: false, sandbox: "bubblewrap" };
+const withoutBubblewrap: AvailableTools = { shells: ["bash"], grepTools: [], git: false };
+
+describe("resolveSandboxSettings", () => {
+	test("is off by default, with network and no extra paths", () => {
+		expect(resolveSandboxSettings(undefined, undefined)).toEqual({ enabled: false, network: true, writable: [] });
+	});
+
+	test("takes each field from the project when set there, otherwise from the global config", () => {
+		const settings = resolveSandboxSettings({ network: false }, { enabled: true, network: true, writable: ["~/.cache"] });
+		expect(settings).toEqual({ enabled: true, network: false, writable: ["~/.cache"] });
+		expect(resolveSandboxSettings({ enabled: false }, { enabled: true }).enabled).toBe(false);
+	});
+
+	test("drops writable entries that are not non-empty strings", () => {
+		const writable = ["build", "", "  ", 3] as unknown as string[];
+		expect(resolveSandboxSettings({ writable }, undefined).writable).toEqual(["build"]);
+	});
+});
+
+describe("createSandbox", () => {
+	test("returns undefined when the sandbox is not enabled", () => {
+		expect(createSandbox(resolveSandboxSettings(), withBubblewrap, "/work/app")).toBeUndefined();
+	});
+
+	test("resolves writable paths against the home and project directories", () => {
+		const settings = resolveSandboxSettings({
+			enabled: true,
+			writable: ["~/.cache/bun", "../shared", "/srv/data", "/srv/data"],
+		});
+		const sandbox = createSandbox(settings, withBubblewrap, "/work/app");
+		expect(sandbox?.status).toEqual({
+			mode: "bubblewrap",
+			network: true,
+			writable: [path.join(os.homedir(), ".cache/bun"), "/work/shared", "/srv/data"],
+		});
+	});
+
+	test("wraps the command in bwrap with the project as working directory", () => {
+		const sandbox = createSandbox(resolveSandboxSettings({ enabled: true }), withBubblewrap, "/work/app");
+		const argv = sandbox?.wrap(["/bin/bash", "-c", "ls"], "/work/app") ?? [];
+		expect(argv[0]).toBe("bwrap");
+		expect(argv.slice(-6)).toEqual(["--chdir", "/work/app", "--", "/bin/bash", "-c", "ls"]);
+	});
+
+	test("refuses to run commands when bubblewrap is not installed", () => {
+		const sandbox = createSandbox(resolveSandboxSettings({ enabled: true }), withoutBubblewrap, "/work/app");
+		expect(sandbox?.status.mode).toBe("unavailable");
+		expect(() => sandbox?.wrap(["/bin/bash", "-c", "ls"], "/work/app")).toThrow("bubblewrap (bwrap) is not installed");
+	});
+});
+
+describe("bubblewrapArgs", () => {
+	const status: SandboxStatus = { mode: "bubblewrap", network: true, writable: ["/srv/data"] };
+
+	test("mounts the root read-only and the project and extra paths writable after the private /tmp", () => {
+		const args = bubblewrapArgs(status, "/tmp/project", "/tmp/project");
+		expect(args.slice(0, 4)).toEqual(["bwrap", "--ro-bind", "/", "/"]);
+		const tmpfs = args.indexOf("--tmpfs");
+		expect(args.indexOf("--bind")).toBeGreaterThan(tmpfs);
+		expect(args.join(" ")).toContain("--bind /tmp/project /tmp/project --bind-try /srv/data /srv/data");
+		expect(args).not.toContain("--unshare-net");
+	});
+
+	test("keeps the project's .bobai, git config and git hooks read-only", () => {
+		const projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-sandbox-args-"));
+		try {
+			const bobaiDir = path.join(projectRoot, ".bobai");
+			const gitConfig = path.join(projectRoot, ".git", "config");
+			const gitHooks = path.join(projectRoot, ".git", "hooks");
+			const before = bubblewrapArgs(status, projectRoot, projectRoot).join(" ");
+			expect(before).toContain(`--bind-try /srv/data /srv/data --ro-bind ${bobaiDir} ${bobaiDir} --unshare-pid`);
+			expect(before).not.toContain(".git");
+
+			fs.mkdirSync(gitHooks, { recursive: true });
+			fs.writeFileSync(gitConfig, "[core]\n");
+			const after = bubblewrapArgs(status, projectRoot, projectRoot).join(" ");
+			expect(after).toContain(
+				`--ro-bind ${bobaiDir} ${bobaiDir} --ro-bind ${gitConfig} ${gitConfig} --ro-bind ${gitHooks} ${gitHooks} --unshare-pid`,
+			);
+		} finally {
+			fs.rmSync(projectRoot, { recursive: true, force: true });
+		}
+	});
+
+	test("detaches commands from the terminal", () => {
+		expect(bubblewrapArgs(status, "/work/app", "/work/app")).toContain("--new-session");
+	});
+
+	test("cuts the network when it is disabled", () => {
+		expect(bubblewrapArgs({ ...status, network: false }, "/work/app", "/work/app")).toContain("--unshare-net");
+	});
+});
+
+describe("describeSandbox", () => {
+	test("lists the writable paths and the network mode", () => {
+		expect(describeSandbox({ mode: "bubblewrap", network: false, writable: ["/srv/data"] })).toBe(
+			"shell commands run in a bubblewrap sandbox (writable: the project directory except .bobai, .git/config and .git/hooks, /srv/data; the rest of the filesystem is read-only; /tmp is private; network disabled)",
+		);
+	});
+
+	test("says when the sandbox cannot run", () => {
+		expect(describeSandbox({ mode: "unavailable", network: true, writable: [] })).toContain("enabled but unavailable");
+	});
+});
+
+describe("sandboxed shell tools", () => {
+	const unavailable = createSandbox(resolveSandboxSettings({ enabled: true }), withoutBubblewrap, os.tmpdir());
+
+	test("only bash is offered, since cmd and powershell cannot be sandboxed", () => {
+		expect(getShellTool("bash", unavailable)?.definition.function.name).toBe("bash");
+		expect(getShellTool("cmd", unavailable)).toBeUndefined();
+		expect(getShellTool("powershell", unavailable)).toBeUndefined();
+		expect(getShellTool("cmd")?.definition.function.name).toBe("cmd");
+	});
+
+	test("bash fails instead of running unconfined when the sandbox is unavailable", async () => {
+		const result = await createBashTool(unavailable).execute(
+			{ command: "echo hello" },
+			{ projectRoot: os.tmpdir(), sessionId: "s" },
+		);
+		expect(result.llmOutput).toStartWith("Error executing command: the sandbox is enabled");
+	});
+
+	test("background processes do not start when the sandbox is unavailable", () => {
+		const manager = createProcessManager({ projectRoot: os.tmpdir(), sandbox: unavailable });
+		expect(() => manager.start("s", "dev", "sleep 30")).toThrow("bubblewrap (bwrap) is not installed");
+		expect(manager.list("s")).toEqual([]);
+	});
+});
+
+describe.skipIf(Bun.which("bwrap") === null)("bubblewrap", () => {
+	let projectRoot: string;
+
+	beforeAll(() => {
+		projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-sandbox-"));
+		fs.mkdirSync(path.join(projectRoot, ".bobai"));
+		fs.mkdirSync(path.join(projectRoot, ".git", "hooks"), { recursive: true });
+		fs.writeFileSync(path.join(projectRoot, ".git", "config"), "[core]\n");
+	});
+
+	afterAll(() => {
+		fs.rmSync(projectRoot, { recursive: true, force: true });
+	});
+
+	test("commands write to the project but not to the rest of the filesystem", async () => {
+		const sandbox = createSandbox(resolveSandboxSettings({ enabled: true }), withBubblewrap, projectRoot);
+		const bash = createBashTool(sandbox);
+		const ctx = { projectRoot, sessionId: "s" };
+
+		const inside = await bash.execute({ command: "echo ok > inside.txt && cat inside.txt" }, ctx);
+		expect(inside.llmOutput).toBe("ok\n\nexit code: 0");
+		const outside = await bash.execute({ command: `touch ${os.homedir()}/bobai-sandbox-probe` }, ctx);
+		expect(outside.llmOutput).toContain("Read-only file system");
+		expect(fs.existsSync(path.join(os.homedir(), "bobai-sandbox-probe"))).toBe(false);
+		const bobai = await bash.execute({ command: "touch .bobai/bobai.json" }, ctx);
+		expect(bobai.llmOutput).toContain("Read-only file system");
+		const gitConfig = await bash.execute({ command: "echo '[core] hooksPath = /tmp' >> .git/config" }, ctx);
+		expect(gitConfig.llmOutput).toContain("Read-only file system");
+		expect(fs.readFileSync(path.join(projectRoot, ".git", "config"), "utf-8")).toBe("[core]\n");
+		const hook = await bash.execute({ command: "touch .git/hooks/pre-commit" }, ctx);
+		expect(hook.llmOutput).toContain("Read-only file system");
+	});
+});
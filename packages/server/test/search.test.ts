@@ -0,0 +1,163 @@
+import { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	appendMessage,
+	createSession,
+	createSubagentSession,
+	deleteSession,
+	updateMessageMetadata,
+	updateSessionTitle,
+} from "../src/session/repository";
+import { ensureSearchSchema, searchMessages, toFtsQuery } from "../src/session/search";
+import { createTestDb, startTestServer } from "./helpers";
+
+describe("toFtsQuery", () => {
+	test("quotes words and makes the last one a prefix", () => {
+		expect(toFtsQuery("migration scr")).toBe('"migration" "scr"*');
+	});
+
+	test("keeps punctuation inside quoted words", () => {
+		expect(toFtsQuery('db/migrate-2.ts "x')).toBe('"db/migrate-2.ts" "x"*');
+	});
+
+	test("returns null when there is nothing to search for", () => {
+		expect(toFtsQuery("  ")).toBeNull();
+		expect(toFtsQuery("- * ()")).toBeNull();
+	});
+});
+
+describe("searchMessages", () => {
+	let db: Database;
+
+	beforeEach(() => {
+		db = createTestDb();
+	});
+
+	afterEach(() => {
+		db.close();
+	});
+
+	test("finds prompts, replies and tool results with session, turn and role", () => {
+		const session = createSession(db);
+		updateSessionTitle(db, session.id, "Schema work");
+		appendMessage(db, session.id, "user", "set up the project");
+		appendMessage(db, session.id, "assistant", "done");
+		appendMessage(db, session.id, "user", "fix the migration script");
+		appendMessage(db, session.id, "tool", "ran migration 0042 successfully", { tool_call_id: "c1" });
+
+		const hits = searchMessages(db, "migration", 10);
+
+		expect(hits).toHaveLength(2);
+		const user = hits.find((h) => h.role === "user");
+		const tool = hits.find((h) => h.role === "tool");
+		expect(user).toMatchObject({ sessionId: session.id, sessionTitle: "Schema work", parentId: null, turn: 2 });
+		expect(user?.snippet).toBe("fix the migration script");
+		expect(tool?.turn).toBe(2);
+	});
+
+	test("indexes tool call names and arguments", () => {
+		const session = createSession(db);
+		appendMessage(db, session.id, "user", "look around");
+		appendMessage(db, session.id, "assistant", "", {
+			tool_calls: [{ id: "c1", type: "function", function: { name: "read_file", arguments: '{"path":"scripts/migrate.ts"}' } }],
+		});
+
+		const hits = searchMessages(db, "migrate.ts", 10);
+
+		expect(hits).toHaveLength(1);
+		expect(hits[0]?.role).toBe("assistant");
+		expect(hits[0]?.snippet).toContain("read_file");
+	});
+
+	test("matches every word, the last as a prefix", () => {
+		const session = createSession(db);
+		appendMessage(db, session.id, "user", "rename the migration helper");
+		appendMessage(db, session.id, "user", "delete the migration");
+
+		expect(searchMessages(db, "migration hel", 10).map((h) => h.snippet)).toEqual(["rename the migration helper"]);
+	});
+
+	test("includes subagent sessions", () => {
+		const parent = createSession(db);
+		const child = createSubagentSession(db, parent.id, "Explore", "m");
+		appendMessage(db, child.id, "user", "find the migration script");
+
+		const hits = searchMessages(db, "migration", 10);
+
+		expect(hits[0]).toMatchObject({ sessionId: child.id, parentId: parent.id, turn: 1 });
+	});
+
+	test("follows updates and deletes", () => {
+		const session = createSession(db);
+		const msg = appendMessage(db, session.id, "assistant", "calling a tool");
+		updateMessageMetadata(db, msg.id, {
+			tool_calls: [{ id: "c1", type: "function", function: { name: "bash", arguments: '{"command":"bun migrate"}' } }],
+		});
+		expect(searchMessages(db, "migrate", 10)).toHaveLength(1);
+
+		deleteSession(db, session.id);
+		expect(searchMessages(db, "migrate", 10)).toEqual([]);
+	});
+
+	test("respects the limit", () => {
+		const session = createSession(db);
+		for (let i = 0; i < 5; i++) appendMessage(db, session.id, "user", `migration ${i}`);
+
+		expect(searchMessages(db, "migration", 3)).toHaveLength(3);
+	});
+
+	test("returns nothing for an empty query", () => {
+		const session = createSession(db);
+		appendMessage(db, session.id, "user", "anything");
+
+		expect(searchMessages(db, "", 10)).toEqual([]);
+	});
+});
+
+describe("ensureSearchSchema", () => {
+	test("indexes messages that existed before the index was created", () => {
+		const db = new Database(":memory:");
+		db.exec("CREATE TABLE sessions (id TEXT PRIMARY KEY, title TEXT, parent_id TEXT)");
+		db.exec(
+			"CREATE TABLE messages (id TEXT PRIMARY KEY, session_id TEXT, role TEXT, content TEXT, created_at TEXT, sort_order INTEGER, metadata TEXT)",
+		);
+		db.exec("INSERT INTO sessions (id) VALUES ('s1')");
+		db.exec(
+			"INSERT INTO messages VALUES ('m1', 's1', 'system', 'legacy migration prompt', '2026-01-01', 0, NULL), ('m2', 's1', 'user', 'old migration question', '2026-01-01', 1, NULL)",
+		);
+
+		ensureSearchSchema(db);
+		ensureSearchSchema(db);
+
+		expect(searchMessages(db, "migration", 10).map((h) => h.messageId)).toEqual(["m2"]);
+		db.close();
+	});
+});
+
+describe("GET /bobai/search", () => {
+	test("returns hits for the query", async () => {
+		const db = createTestDb();
+		const session = createSession(db);
+		appendMessage(db, session.id, "user", "touch the migration script");
+		const { server, baseUrl } = startTestServer({ port: 0, db });
+		try {
+			const res = await fetch(`${baseUrl}/bobai/search?q=${encodeURIComponent("migration")}`);
+			expect(res.status).toBe(200);
+			const hits = (await res.json()) as { sessionId: string; turn: number }[];
+			expect(hits).toEqual([expect.objectContaining({ sessionId: session.id, turn: 1, role: "user" })]);
+		} finally {
+			server.stop(true);
+			db.close();
+		}
+	});
+
+	test("returns 503 without a database", async () => {
+		const { server, baseUrl } = startTestServer({ port: 0 });
+		try {
+			const res = await fetch(`${baseUrl}/bobai/search?q=x`);
+			expect(res.status).toBe(503);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { resolvePermissionPolicy } from "../src/permission/policy";
+import type { ServerMessage } from "../src/protocol";
+import type { Provider, ProviderOptions, StreamEvent } from "../src/provider/provider";
+import { getMessages, listSessions } from "../src/session/repository";
+import { createTestDb, openWs, startTestServer, waitForWsMessage } from "./helpers";
+
+const startedServers: Array<ReturnType<typeof startTestServer>> = [];
+const openDbs: ReturnType<typeof createTestDb>[] = [];
+const openSockets: WebSocket[] = [];
+
+afterEach(() => {
+	for (const ws of openSockets.splice(0)) {
+		try {
+			ws.close();
+		} catch {
+			// ignore cleanup errors
+		}
+	}
+	for (const started of startedServers.splice(0)) {
+		started.server.stop(true);
+	}
+	for (const db of openDbs.splice(0)) {
+		db.close();
+	}
+});
+
+/** Provider that asks for one bash call, then answers with text. */
+function bashThenTextProvider(command: string): Provider {
+	let callCount = 0;
+	return {
+		id: "openrouter",
+		async *stream(_opts: ProviderOptions): AsyncGenerator<StreamEvent> {
+			callCount++;
+			if (callCount === 1) {
+				yield { type: "tool_call_start", index: 0, id: "call_bash", name: "bash" };
+				yield { type: "tool_call_delta", index: 0, arguments: JSON.stringify({ command }) };
+				yield { type: "finish", reason: "tool_calls" };
+			} else {
+				yield { type: "text", text: "finished" };
+				yield { type: "finish", reason: "stop" };
+			}
+		},
+	};
+}
+
+async function startWithPolicy(command: string, permissions = resolvePermissionPolicy({ tools: { bash: "ask" } })) {
+	const db = createTestDb();
+	openDbs.push(db);
+	const started = startTestServer({
+		port: 0,
+		db,
+		providerId: "openrouter",
+		model: "test-model",
+		provider: bashThenTextProvider(command),
+		projectRoot: process.cwd(),
+		permissions,
+	});
+	startedServers.push(started);
+	const ws = await openWs(started.wsUrl);
+	openSockets.push(ws);
+	return { db, ws };
+}
+
+function toolResultContent(db: ReturnType<typeof createTestDb>): string | undefined {
+	const session = listSessions(db)[0];
+	if (!session) return undefined;
+	return getMessages(db, session.id).find((m) => m.role === "tool")?.content;
+}
+
+function isPermissionRequest(msg: ServerMessage): msg is Extract<ServerMessage, { type: "permission_request" }> {
+	return msg.type === "permission_request";
+}
+
+describe("server tool permissions", () => {
+	test("ask policy pauses the loop until the client approves", async () => {
+		const { db, ws } = await startWithPolicy("echo approved-run");
+		const request = waitForWsMessage(ws, isPermissionRequest);
+
+		ws.send(JSON.stringify({ type: "prompt", text: "run it" }));
+		const pending = await request;
+
+		expect(pending).toMatchObject({
+			type: "permission_request",
+			toolCallId: "call_bash",
+			tool: "bash",
+			detail: "echo approved-run",
+		});
+		expect(toolResultContent(db)).toBeUndefined();
+
+		const done = waitForWsMessage(ws, (m) => m.type === "done", 5000);
+		ws.send(JSON.stringify({ type: "permission_response", id: pending.id, approved: true }));
+		await done;
+
+		expect(toolResultContent(db)).toContain("approved-run");
+	});
+
+	test("denying the request returns a permission error to the model", async () => {
+		const { db, ws } = await startWithPolicy("echo denied-run");
+		const request = waitForWsMessage(ws, isPermissionRequest);
+
+		ws.send(JSON.stringify({ type: "prompt", text: "run it" }));
+		const pending = await request;
+		const done = waitForWsMessage(ws, (m) => m.type === "done", 5000);
+		ws.send(JSON.stringify({ type: "permission_response", id: pending.id, approved: false }));
+		await done;
+
+		const content = toolResultContent(db);
+		expect(content).toContain("Permission denied: bash was rejected by the user");
+		expect(content).not.toContain("denied-run\n");
+	});
+
+	test("leaving the session denies its pending requests", async () => {
+		const { db, ws } = await startWithPolicy("echo abandoned-run");
+		const request = waitForWsMessage(ws, isPermissionRequest);
+
+		ws.send(JSON.stringify({ type: "prompt", text: "run it" }));
+		await request;
+		const done = waitForWsMessage(ws, (m) => m.type === "done", 5000);
+		ws.send(JSON.stringify({ type: "unsubscribe" }));
+		await done;
+
+		expect(toolResultContent(db)).toContain("Permission denied: bash was rejected by the user");
+	});
+
+	test("deny rules block the call without asking", async () => {
+		const { db, ws } = await startWithPolicy(
+			"rm -rf build",
+			resolvePermissionPolicy({ tools: { bash: { action: "allow", deny: ["rm -rf*"] } } }),
+		);
+		let asked = false;
+		ws.addEventListener("message", (event) => {
+			if ((JSON.parse(event.data as string) as ServerMessage).type === "permission_request") asked = true;
+		});
+		const done = waitForWsMessage(ws, (m) => m.type === "done", 5000);
+
+		ws.send(JSON.stringify({ type: "prompt", text: "clean" }));
+		await done;
+
+		expect(asked).toBe(false);
+		expect(toolResultContent(db)).toContain('Permission denied: bash is blocked by deny rule "rm -rf*" for bash');
+	});
+
+	test("answering an unknown request id produces an error", async () => {
+		const { ws } = await startWithPolicy("echo hi");
+		const response = waitForWsMessage(ws, (m) => m.type === "error");
+
+		ws.send(JSON.stringify({ type: "permission_response", id: "missing", approved: true }));
+
+		expect(await response).toEqual({ type: "error", message: "No pending permission request with that id" });
+	});
+});
@@ -0,0 +1,229 @@
+import type { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	buildSessionBundle,
+	exportSession,
+	importSessionBundle,
+	renderSessionHtml,
+	renderSessionMarkdown,
+} from "../src/session/export";
+import {
+	appendMessage,
+	createSession,
+	createSubagentSession,
+	getMessages,
+	getSession,
+	listSubagentSessions,
+	updateSessionCompaction,
+	updateSessionCompactionPolicy,
+	updateSessionTitle,
+} from "../src/session/repository";
+import { createTestDb, startTestServer } from "./helpers";
+
+/** A session with one tool call that spawned a subagent, like a real task turn. */
+function seedSession(db: Database): { rootId: string; childId: string } {
+	const root = createSession(db, { provider: "openrouter", model: "openrouter/free" });
+	updateSessionTitle(db, root.id, "Fix <migration> script");
+	appendMessage(db, root.id, "user", "fix the migration script\nplease");
+	appendMessage(db, root.id, "assistant", "Looking into it.", {
+		tool_calls: [{ id: "c1", type: "function", function: { name: "task", arguments: '{"description":"explore"}' } }],
+		reasoning: [{ kind: "text", text: "Need to find the script first." }],
+	});
+	const child = createSubagentSession(db, root.id, "Explore scripts", "openrouter/free", "openrouter", "openai-chat");
+	appendMessage(db, child.id, "user", "find the migration script", { source: "agent" });
+	appendMessage(db, child.id, "assistant", "It is scripts/migrate.ts");
+	appendMessage(db, root.id, "tool", `It is scripts/migrate.ts\n\n[task_id: ${child.id}]`, {
+		tool_call_id: "c1",
+		format_call: "**task** explore",
+		ui_output: "It is `scripts/migrate.ts`",
+		subagent_session_id: child.id,
+	});
+	appendMessage(db, root.id, "assistant", "Fixed the **script**.");
+	updateSessionCompaction(db, root.id, {
+		multiplier: 1,
+		iterations: 1,
+		charsBefore: 100,
+		charsAfter: 80,
+		charBudget: 90,
+		charsPerToken: 4,
+		target: 0.5,
+		type: "normal",
+		elapsedMs: 3,
+	});
+	return { rootId: root.id, childId: child.id };
+}
+
+describe("session export", () => {
+	let db: Database;
+
+	beforeEach(() => {
+		db = createTestDb();
+	});
+
+	afterEach(() => {
+		db.close();
+	});
+
+	test("bundle holds the session, its subagents and compaction record", () => {
+		const { rootId, childId } = seedSession(db);
+
+		const bundle = buildSessionBundle(db, rootId);
+
+		expect(bundle?.format).toBe("bobai-session");
+		expect(bundle?.rootSessionId).toBe(rootId);
+		expect(bundle?.sessions.map((s) => s.session.id)).toEqual([rootId, childId]);
+		expect(bundle?.sessions[0]?.messages).toEqual(getMessages(db, rootId));
+		expect(bundle?.sessions[0]?.session.lastCompaction).toMatchObject({ charsBefore: 100, charsAfter: 80 });
+	});
+
+	test("returns null for an unknown session", () => {
+		expect(buildSessionBundle(db, "missing")).toBeNull();
+		expect(exportSession(db, "missing", "json")).toBeNull();
+	});
+
+	test("markdown transcript numbers turns and shows tool calls like the Chat view", () => {
+		const { rootId } = seedSession(db);
+		const markdown = renderSessionMarkdown(
+			buildSessionBundle(db, rootId) as NonNullable<ReturnType<typeof buildSessionBundle>>,
+		);
+
+		expect(markdown).toStartWith("# Fix <migration> script\n");
+		expect(markdown).toContain("- Model: openrouter / openrouter/free");
+		expect(markdown).toMatch(/## Turn 1 — .*\n\n> fix the migration script\n> please\n/);
+		expect(markdown).toContain("<details><summary>Reasoning</summary>\n\nNeed to find the script first.");
+		expect(markdown).toContain("**task** explore\n\nIt is `scripts/migrate.ts`\n\nFixed the **script**.");
+		expect(markdown).toContain("# Subagent: Explore scripts");
+	});
+
+	test("html page escapes message text", () => {
+		const { rootId } = seedSession(db);
+		const html = renderSessionHtml(buildSessionBundle(db, rootId) as NonNullable<ReturnType<typeof buildSessionBundle>>);
+
+		expect(html).toStartWith("<!doctype html>");
+		expect(html).toContain("<title>Fix &lt;migration&gt; script — Bob AI</title>");
+		expect(html).toContain('<div class="panel panel--user">fix the migration script\nplease<div class="panel-status">');
+		expect(html).toContain('<div class="panel panel--tool"><div class="md"><p><strong>task</strong> explore</p>');
+		expect(html).toContain("<p>It is <code>scripts/migrate.ts</code></p>");
+		expect(html).toContain("<p>Fixed the <strong>script</strong>.</p>");
+		expect(html).not.toContain("<migration>");
+	});
+
+	test("html page renders Markdown like the Chat view", () => {
+		const session = createSession(db, { provider: "openrouter", model: "openrouter/free" });
+		appendMessage(db, session.id, "user", "show me");
+		appendMessage(
+			db,
+			session.id,
+			"assistant",
+			"```ts\nconst ok = 1 < 2;\n```\n\n<script>alert(1)</script> [run](javascript:alert(1)) [docs](https://bun.sh)",
+		);
+
+		const html = renderSessionHtml(buildSessionBundle(db, session.id) as NonNullable<ReturnType<typeof buildSessionBundle>>);
+
+		expect(html).toContain('<pre><code class="language-ts">const ok = 1 &lt; 2;\n</code></pre>');
+		expect(html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+		expect(html).toContain('<a href="">run</a>');
+		expect(html).toContain('<a href="https://bun.sh">docs</a>');
+	});
+
+	test("exported files are named after the session title", () => {
+		const { rootId } = seedSession(db);
+		expect(exportSession(db, rootId, "markdown")?.fileName).toBe("bobai-fix-migration-script.md");
+		expect(exportSession(db, rootId, "html")?.contentType).toBe("text/html; charset=utf-8");
+	});
+});
+
+describe("session import", () => {
+	test("JSON export round-trips into another database", () => {
+		const source = createTestDb();
+		const { rootId, childId } = seedSession(source);
+		updateSessionCompactionPolicy(source, rootId, "aggressive");
+		const json = exportSession(source, rootId, "json")?.content as string;
+
+		const target = createTestDb();
+		const imported = importSessionBundle(target, JSON.parse(json));
+
+		expect(imported.compactionPolicy).toBe("aggressive");
+		expect(imported).toEqual(getSession(source, rootId) as NonNullable<ReturnType<typeof getSession>>);
+		expect(getMessages(target, rootId)).toEqual(getMessages(source, rootId));
+		expect(listSubagentSessions(target, rootId).map((s) => s.id)).toEqual([childId]);
+		expect(getMessages(target, childId)).toEqual(getMessages(source, childId));
+		source.close();
+		target.close();
+	});
+
+	test("an exported subagent session imports as a top-level session", () => {
+		const source = createTestDb();
+		const { childId } = seedSession(source);
+		const bundle = buildSessionBundle(source, childId);
+
+		const target = createTestDb();
+		expect(importSessionBundle(target, bundle).parentId).toBeNull();
+		source.close();
+		target.close();
+	});
+
+	test("refuses a session that already exists", () => {
+		const db = createTestDb();
+		const { rootId } = seedSession(db);
+		const bundle = buildSessionBundle(db, rootId);
+
+		expect(() => importSessionBundle(db, bundle)).toThrow(`Session ${rootId} already exists`);
+		db.close();
+	});
+
+	test("rejects files that are not session exports", () => {
+		const db = createTestDb();
+		expect(() => importSessionBundle(db, { hello: "world" })).toThrow("Not a Bob AI session export");
+		expect(() => importSessionBundle(db, { format: "bobai-session", version: 2, sessions: [] })).toThrow(
+			"Unsupported session export version: 2",
+		);
+		expect(() => importSessionBundle(db, { format: "bobai-session", version: 1, sessions: [{}] })).toThrow(
+			"malformed session entry",
+		);
+		db.close();
+	});
+});
+
+describe("export and import endpoints", () => {
+	test("GET /bobai/session/:id/export downloads the requested format", async () => {
+		const db = createTestDb();
+		const { rootId } = seedSession(db);
+		const { server, baseUrl } = startTestServer({ port: 0, db });
+		try {
+			const res = await fetch(`${baseUrl}/bobai/session/${rootId}/export?format=json`);
+			expect(res.status).toBe(200);
+			expect(res.headers.get("content-type")).toBe("application/json");
+			expect(res.headers.get("content-disposition")).toBe('attachment; filename="bobai-fix-migration-script.json"');
+			expect(((await res.json()) as { rootSessionId: string }).rootSessionId).toBe(rootId);
+
+			const markdown = await fetch(`${baseUrl}/bobai/session/${rootId}/export`);
+			expect(await markdown.text()).toStartWith("# Fix <migration> script");
+
+			expect((await fetch(`${baseUrl}/bobai/session/${rootId}/export?format=pdf`)).status).toBe(400);
+			expect((await fetch(`${baseUrl}/bobai/session/missing/export`)).status).toBe(404);
+		} finally {
+			server.stop(true);
+			db.close();
+		}
+	});
+
+	test("POST /bobai/session/import stores the bundle and reports conflicts", async () => {
+		const source = createTestDb();
+		const { rootId } = seedSession(source);
+		const json = exportSession(source, rootId, "json")?.content as string;
+		const db = createTestDb();
+		const { server, baseUrl } = startTestServer({ port: 0, db });
+		try {
+			const post = () => fetch(`${baseUrl}/bobai/session/import`, { method: "POST", body: json });
+
+			expect(await (await post()).json()).toEqual({ ok: true, sessionId: rootId, title: "Fix <migration> script" });
+			expect(getMessages(db, rootId)).toHaveLength(4);
+			expect(await (await post()).json()).toEqual({ ok: false, error: `Session ${rootId} already exists` });
+		} finally {
+			server.stop(true);
+			db.close();
+			source.close();
+		}
+	});
+});
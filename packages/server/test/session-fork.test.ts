@@ -0,0 +1,160 @@
+import type { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { handleCommand } from "../src/command";
+import {
+	appendMessage,
+	createSession,
+	createSubagentSession,
+	deleteSession,
+	forkSession,
+	getMessages,
+	getSession,
+	listSessions,
+	updateSessionContextLimit,
+	updateSessionTitle,
+} from "../src/session/repository";
+import { createTestDb, startTestServer } from "./helpers";
+
+let db: Database;
+
+beforeEach(() => {
+	db = createTestDb();
+});
+
+afterEach(() => {
+	db.close();
+});
+
+/** Three turns; turn 2 calls a tool. */
+function seedSession(): string {
+	const session = createSession(db, { provider: "openrouter", model: "openrouter/free", apiFamily: "openai-chat" });
+	updateSessionTitle(db, session.id, "Parser work");
+	appendMessage(db, session.id, "user", "first");
+	appendMessage(db, session.id, "assistant", "done 1");
+	appendMessage(db, session.id, "user", "second");
+	appendMessage(db, session.id, "assistant", "", {
+		tool_calls: [{ id: "c1", type: "function", function: { name: "read_file", arguments: '{"path":"a.ts"}' } }],
+	});
+	appendMessage(db, session.id, "tool", "contents of a.ts", { tool_call_id: "c1" });
+	appendMessage(db, session.id, "assistant", "done 2");
+	appendMessage(db, session.id, "user", "third");
+	appendMessage(db, session.id, "assistant", "done 3");
+	return session.id;
+}
+
+describe("forkSession", () => {
+	test("copies the first n turns into a new top-level session", () => {
+		const sourceId = seedSession();
+		updateSessionContextLimit(db, sourceId, 20000);
+
+		const fork = forkSession(db, sourceId, 2);
+
+		expect(fork).toMatchObject({
+			title: "Parser work (fork)",
+			provider: "openrouter",
+			model: "openrouter/free",
+			apiFamily: "openai-chat",
+			contextLimit: 20000,
+			parentId: null,
+			forkedFrom: sourceId,
+			forkTurn: 2,
+			promptTokens: 0,
+		});
+		const copied = getMessages(db, fork?.id as string);
+		expect(copied.map((m) => m.content)).toEqual(["first", "done 1", "second", "", "contents of a.ts", "done 2"]);
+		expect(copied[4]?.metadata).toEqual({ tool_call_id: "c1" });
+		expect(copied.map((m) => m.sortOrder)).toEqual([0, 1, 2, 3, 4, 5]);
+		expect(listSessions(db).map((s) => s.id)).toContain(fork?.id as string);
+	});
+
+	test("leaves the original session untouched", () => {
+		const sourceId = seedSession();
+		const before = getMessages(db, sourceId);
+
+		const fork = forkSession(db, sourceId, 3);
+
+		expect(getMessages(db, sourceId)).toEqual(before);
+		expect(getMessages(db, fork?.id as string)).toHaveLength(before.length);
+		expect(getMessages(db, fork?.id as string)[0]?.id).not.toBe(before[0]?.id);
+	});
+
+	test("the fork outlives the original session", () => {
+		const sourceId = seedSession();
+		const fork = forkSession(db, sourceId, 1);
+
+		deleteSession(db, sourceId);
+
+		expect(getSession(db, fork?.id as string)?.forkedFrom).toBe(sourceId);
+		expect(getMessages(db, fork?.id as string).map((m) => m.content)).toEqual(["first", "done 1"]);
+	});
+
+	test("returns null for an unknown session", () => {
+		expect(forkSession(db, "missing", 1)).toBeNull();
+	});
+});
+
+describe(".fork command", () => {
+	test("forks every turn by default and returns the new session", () => {
+		const sessionId = seedSession();
+
+		const result = handleCommand(db, { command: "fork", args: "", sessionId });
+
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.sessionId).not.toBe(sessionId);
+		expect(result.messages).toEqual([{ text: "Forked turns 1–3 of Parser work into a new session", kind: "success" }]);
+		expect(getSession(db, result.sessionId as string)).toMatchObject({ forkedFrom: sessionId, forkTurn: 3 });
+	});
+
+	test(".fork n keeps turns 1 to n", () => {
+		const sessionId = seedSession();
+
+		const result = handleCommand(db, { command: "fork", args: "1", sessionId });
+
+		expect(result).toMatchObject({ ok: true, messages: [{ text: "Forked turn 1 of Parser work into a new session" }] });
+		if (!result.ok) return;
+		expect(getMessages(db, result.sessionId as string).map((m) => m.content)).toEqual(["first", "done 1"]);
+	});
+
+	test("rejects turns outside the session", () => {
+		const sessionId = seedSession();
+		expect(handleCommand(db, { command: "fork", args: "4", sessionId })).toEqual({ ok: false, error: "Invalid turn: 4" });
+		expect(handleCommand(db, { command: "fork", args: "0", sessionId })).toEqual({ ok: false, error: "Invalid turn: 0" });
+		expect(handleCommand(db, { command: "fork", args: "two", sessionId })).toEqual({ ok: false, error: "Usage: .fork [n]" });
+	});
+
+	test("refuses empty, subagent and busy sessions", () => {
+		const sessionId = seedSession();
+		const child = createSubagentSession(db, sessionId, "Explore", "m", "openrouter", "openai-chat");
+		appendMessage(db, child.id, "user", "look around");
+
+		expect(handleCommand(db, { command: "fork", args: "" })).toEqual({ ok: false, error: "No session to fork" });
+		expect(handleCommand(db, { command: "fork", args: "", sessionId: createSession(db).id })).toEqual({
+			ok: false,
+			error: "Nothing to fork",
+		});
+		expect(handleCommand(db, { command: "fork", args: "", sessionId: child.id })).toEqual({
+			ok: false,
+			error: "Subagent sessions cannot be forked",
+		});
+		expect(handleCommand(db, { command: "fork", args: "", sessionId }, { isSessionBusy: () => true })).toEqual({
+			ok: false,
+			error: "Cannot fork while the agent is working",
+		});
+	});
+});
+
+describe("session load", () => {
+	test("reports the fork origin", async () => {
+		const sourceId = seedSession();
+		const fork = forkSession(db, sourceId, 2);
+		const { server, baseUrl } = startTestServer({ port: 0, db });
+		try {
+			const res = await fetch(`${baseUrl}/bobai/session/${fork?.id}/load`);
+			const data = (await res.json()) as { session: { parentId: string | null; forkedFrom: string; forkTurn: number } };
+			expect(data.session).toMatchObject({ parentId: null, forkedFrom: sourceId, forkTurn: 2 });
+		} finally {
+			server.stop(true);
+		}
+	});
+});
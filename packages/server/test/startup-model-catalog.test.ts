@@ -72,4 +72,24 @@ describe("ensureModelCatalogAvailable", () => {
 		expect(errors).toHaveLength(1);
 		expect(errors[0]).toContain("Using existing stale model catalog");
 	});
+
+	test("continues without a catalog when locally declared models can be used", async () => {
+		const errors: string[] = [];
+		const { ensureModelCatalogAvailable } = await import("../src/provider/model-catalog-startup");
+
+		await ensureModelCatalogAvailable({
+			catalogExists: () => false,
+			refreshCatalog: async () => {
+				throw new Error("offline");
+			},
+			canRunWithoutCatalog: () => true,
+			logger: {
+				error(_system: string, message: string) {
+					errors.push(message);
+				},
+			},
+		});
+
+		expect(errors).toEqual(["Model catalog refresh failed: offline. Only locally declared models are available."]);
+	});
 });
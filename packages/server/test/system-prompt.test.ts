@@ -251,6 +251,16 @@ describe("buildSystemPrompt", () => {
 		expect(result).not.toContain("- Branch:");
 	});
 
+	test("metadata block reports the sandbox only when it is enabled", () => {
+		const metadata: SystemPromptMetadata = {
+			date: "2025-07-14 Mon",
+			projectDir: "/home/user/projects/bobai",
+		};
+		expect(buildSystemPrompt([], [], { metadata })).not.toContain("- Sandbox:");
+		const sandboxed = buildSystemPrompt([], [], { metadata: { ...metadata, sandbox: "shell commands run in a sandbox" } });
+		expect(sandboxed).toContain("- Sandbox: shell commands run in a sandbox\n</metadata>");
+	});
+
 	test("metadata block appears after base and before skills", () => {
 		const metadata: SystemPromptMetadata = {
 			date: "2025-07-14 Mon",
@@ -636,12 +636,14 @@ describe("createTaskTool", () => {
 				subagentStatus: new SubagentStatus(),
 			});
 
-			await tool.execute({ description: "Test", prompt: "do it" }, { projectRoot: "/tmp" });
+			await tool.execute({ description: "Test", prompt: "check the merge freeze" }, { projectRoot: "/tmp" });
 
 			const opts = captured[0];
 			const systemPrompt = opts.messages[0].content as string;
 			// The subagent sees the same project memory index…
 			expect(systemPrompt).toContain("Q1 merge freeze");
+			// …and the memories relevant to its task come with the task prompt.
+			expect(opts.messages[1]?.content).toStartWith("check the merge freeze\n\n<recalled-memories>");
 			// …and the read-only instruction.
 			expect(systemPrompt).toContain("read-only");
 
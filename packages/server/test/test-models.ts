@@ -8,6 +8,8 @@ export function writeUnifiedModelsConfig(
 		"opencode-go"?: unknown[];
 		"opencode-zen"?: unknown[];
 		deepseek?: unknown[];
+		anthropic?: unknown[];
+		openai?: unknown[];
 		"amazon-bedrock"?: unknown[];
 	},
 ): void {
@@ -23,6 +25,8 @@ export function writeUnifiedModelsConfig(
 					"opencode-go": providers["opencode-go"] ?? [],
 					"opencode-zen": providers["opencode-zen"] ?? [],
 					deepseek: providers.deepseek ?? [],
+					anthropic: providers.anthropic ?? [],
+					openai: providers.openai ?? [],
 					"amazon-bedrock": providers["amazon-bedrock"] ?? [],
 				},
 			},
@@ -100,7 +100,9 @@ describe("unified model catalog", () => {
 		expect(typeof file.generatedAt).toBe("string");
 		expect(Object.keys(file.providers).sort()).toEqual([
 			"amazon-bedrock",
+			"anthropic",
 			"deepseek",
+			"openai",
 			"opencode-go",
 			"opencode-zen",
 			"openrouter",
@@ -0,0 +1,182 @@
+import type { Database } from "bun:sqlite";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { appendMessage, createSession, createSubagentSession, updateSessionTitle } from "../src/session/repository";
+import { buildUsageReport, renderUsageCsv, usageSinceDays } from "../src/session/usage";
+import { createTestDb, startTestServer } from "./helpers";
+import { writeUnifiedModelsConfig } from "./test-models";
+
+let configDir: string;
+let db: Database;
+
+beforeAll(() => {
+	configDir = fs.mkdtempSync(path.join(os.tmpdir(), "bobai-usage-"));
+	writeUnifiedModelsConfig(configDir, {
+		openrouter: [
+			// $1 per million input tokens, $10 per million output tokens, cache reads at $0.10
+			{
+				id: "priced",
+				name: "Priced",
+				contextWindow: 200000,
+				maxOutput: 16384,
+				inputPrice: 1,
+				outputPrice: 10,
+				cacheReadPrice: 0.1,
+			},
+			{ id: "free", name: "Free", contextWindow: 200000, maxOutput: 16384, inputPrice: 0, outputPrice: 0 },
+		],
+	});
+});
+
+afterAll(() => {
+	fs.rmSync(configDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+	db = createTestDb();
+});
+
+afterEach(() => {
+	db.close();
+});
+
+function seedTurn(
+	sessionId: string,
+	model: string,
+	metrics: { input: number; output: number; cached?: number },
+	provider?: string,
+) {
+	appendMessage(db, sessionId, "user", "go");
+	return appendMessage(db, sessionId, "assistant", "done", {
+		turn_model: model,
+		...(provider ? { turn_provider: provider } : {}),
+		turn_metrics: {
+			input_tokens_total: metrics.input,
+			output_tokens_total: metrics.output,
+			cached_input_tokens_total: metrics.cached ?? 0,
+			cache_creation_input_tokens_total: 0,
+		},
+	});
+}
+
+describe("buildUsageReport", () => {
+	test("groups turns by day, provider, model and session", () => {
+		const session = createSession(db, { provider: "openrouter", model: "priced" });
+		updateSessionTitle(db, session.id, "Parser work");
+		seedTurn(session.id, "priced", { input: 1_000_000, output: 100_000, cached: 500_000 });
+		seedTurn(session.id, "free", { input: 10_000, output: 1_000 });
+
+		const report = buildUsageReport(db, { configDir });
+
+		expect(report.total).toMatchObject({ turns: 2, inputTokens: 1_010_000, outputTokens: 101_000, cachedInputTokens: 500_000 });
+		// 500k uncached at $1 + 500k cached at $0.10 + 100k output at $10
+		expect(report.total.costDollars).toBeCloseTo(1.55);
+		expect(report.total.cacheHitRatio).toBeCloseTo(500_000 / 1_010_000);
+		expect(report.byDay).toHaveLength(1);
+		expect(report.byProvider.map((r) => r.key)).toEqual(["openrouter"]);
+		expect(report.byModel.map((r) => [r.label, r.turns])).toEqual([
+			["openrouter / priced", 1],
+			["openrouter / free", 1],
+		]);
+		expect(report.byModel[0]?.cacheHitRatio).toBe(0.5);
+		expect(report.bySession).toEqual([expect.objectContaining({ key: session.id, label: "Parser work", turns: 2 })]);
+	});
+
+	test("counts subagent turns toward the top-level session", () => {
+		const root = createSession(db, { provider: "openrouter", model: "priced" });
+		const child = createSubagentSession(db, root.id, "Explore", "priced", "openrouter");
+		const grandchild = createSubagentSession(db, child.id, "Deeper", "priced", "openrouter");
+		seedTurn(root.id, "priced", { input: 100_000, output: 0 });
+		seedTurn(child.id, "priced", { input: 100_000, output: 0 });
+		seedTurn(grandchild.id, "priced", { input: 100_000, output: 0 });
+
+		const report = buildUsageReport(db, { configDir });
+
+		expect(report.bySession).toHaveLength(1);
+		expect(report.bySession[0]).toMatchObject({ key: root.id, label: "(untitled)", turns: 3 });
+		expect(report.bySession[0]?.costDollars).toBeCloseTo(0.3);
+	});
+
+	test("only includes turns since the given time", () => {
+		const session = createSession(db, { provider: "openrouter", model: "priced" });
+		seedTurn(session.id, "priced", { input: 100_000, output: 0 });
+
+		const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+		expect(buildUsageReport(db, { configDir, since: usageSinceDays(1, tomorrow) }).total.turns).toBe(0);
+		expect(buildUsageReport(db, { configDir, since: usageSinceDays(2, tomorrow) }).total.turns).toBe(1);
+	});
+
+	test("attributes each turn to the provider that served it", () => {
+		const session = createSession(db, { provider: "gone-plugin", model: "x" });
+		seedTurn(session.id, "priced", { input: 1_000_000, output: 0 }, "openrouter");
+		// Recorded before turns stored their provider
+		seedTurn(session.id, "x", { input: 10, output: 0 });
+
+		const report = buildUsageReport(db, { configDir });
+
+		expect(report.byProvider.map((r) => [r.key, r.turns])).toEqual([
+			["openrouter", 1],
+			["gone-plugin", 1],
+		]);
+		expect(report.byModel[0]).toMatchObject({ key: "openrouter/priced", costDollars: 1 });
+	});
+
+	test("unpriced models and unknown providers count as free", () => {
+		const session = createSession(db, { provider: "gone-plugin", model: "x" });
+		seedTurn(session.id, "x", { input: 100_000, output: 100_000 });
+
+		const report = buildUsageReport(db, { configDir });
+
+		expect(report.total).toMatchObject({ turns: 1, costDollars: 0 });
+		expect(report.byProvider[0]?.key).toBe("gone-plugin");
+	});
+});
+
+describe("renderUsageCsv", () => {
+	test("writes every grouping with a header", () => {
+		const session = createSession(db, { provider: "openrouter", model: "priced" });
+		updateSessionTitle(db, session.id, 'Fix "quotes", commas');
+		seedTurn(session.id, "priced", { input: 1_000_000, output: 0 });
+
+		const lines = renderUsageCsv(buildUsageReport(db, { configDir })).trimEnd().split("\n");
+
+		expect(lines[0]).toBe(
+			"group,key,label,turns,input_tokens,output_tokens,cached_input_tokens,cache_creation_input_tokens,cache_hit_ratio,cost_usd",
+		);
+		expect(lines[1]).toBe("total,total,Total,1,1000000,0,0,0,0.0000,1.000000");
+		expect(lines.map((l) => l.split(",")[0])).toEqual(["group", "total", "day", "provider", "model", "session"]);
+		expect(lines[5]).toBe(`session,${session.id},"Fix ""quotes"", commas",1,1000000,0,0,0,0.0000,1.000000`);
+	});
+});
+
+describe("GET /bobai/usage", () => {
+	test("returns the report as JSON or CSV", async () => {
+		const session = createSession(db, { provider: "openrouter", model: "priced" });
+		seedTurn(session.id, "priced", { input: 100_000, output: 0 });
+		const { server, baseUrl } = startTestServer({ port: 0, db, configDir });
+		try {
+			const report = (await (await fetch(`${baseUrl}/bobai/usage?days=7`)).json()) as { total: { turns: number } };
+			expect(report.total.turns).toBe(1);
+
+			const csv = await fetch(`${baseUrl}/bobai/usage?format=csv`);
+			expect(csv.headers.get("content-type")).toBe("text/csv; charset=utf-8");
+			expect(csv.headers.get("content-disposition")).toBe('attachment; filename="bobai-usage.csv"');
+			expect(await csv.text()).toStartWith("group,key,label");
+
+			expect((await fetch(`${baseUrl}/bobai/usage?days=0`)).status).toBe(400);
+		} finally {
+			server.stop(true);
+		}
+	});
+
+	test("returns 503 without a database", async () => {
+		const { server, baseUrl } = startTestServer({ port: 0 });
+		try {
+			expect((await fetch(`${baseUrl}/bobai/usage`)).status).toBe(503);
+		} finally {
+			server.stop(true);
+		}
+	});
+});
@@ -44,6 +44,51 @@ describe("writeFileTool", () => {
 		expect(written).toBe("new content");
 	});
 
+	test("snapshots the file before overwriting it", async () => {
+		const snapshots: string[] = [];
+		const target = path.join(tmpDir, "snapshot-me.txt");
+		fs.writeFileSync(target, "before");
+		FileTime.read("test-session", target);
+
+		await writeFileTool.execute(
+			{ path: "snapshot-me.txt", content: "after" },
+			{
+				...ctx,
+				snapshotFile: (filePath) => snapshots.push(`${filePath}=${fs.readFileSync(filePath, "utf-8")}`),
+			},
+		);
+
+		expect(snapshots).toEqual([`${target}=before`]);
+	});
+
+	test("does not snapshot when the stale-read check rejects the write", async () => {
+		const snapshots: string[] = [];
+		await writeFileTool.execute(
+			{ path: "existing.txt", content: "never written" },
+			{ ...ctx, snapshotFile: (filePath) => snapshots.push(filePath) },
+		);
+		expect(snapshots).toEqual([]);
+	});
+
+	test("reports the diff against the previous content", async () => {
+		fs.writeFileSync(path.join(tmpDir, "diffed.txt"), "a\nb\n");
+		FileTime.read("test-session", path.join(tmpDir, "diffed.txt"));
+
+		const overwritten = await writeFileTool.execute({ path: "diffed.txt", content: "a\nc\n" }, ctx);
+		expect(overwritten.metadata?.diff).toEqual([
+			{
+				path: "diffed.txt",
+				status: "modified",
+				added: 1,
+				removed: 1,
+				hunks: [{ oldStart: 1, oldLines: 2, newStart: 1, newLines: 2, lines: [" a", "-b", "+c"] }],
+			},
+		]);
+
+		const created = await writeFileTool.execute({ path: "diffed-new.txt", content: "x\n" }, ctx);
+		expect(created.metadata?.diff).toMatchObject([{ path: "diffed-new.txt", status: "created", added: 1, removed: 0 }]);
+	});
+
 	test("creates parent directories automatically", async () => {
 		await writeFileTool.execute({ path: "deep/nested/dir/file.txt", content: "deep" }, ctx);
 		const written = fs.readFileSync(path.join(tmpDir, "deep/nested/dir/file.txt"), "utf-8");
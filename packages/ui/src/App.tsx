@@ -1,27 +1,36 @@
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ChatMessageList } from "./ChatMessageList";
 import { ContextMessageList } from "./ContextMessageList";
 import { type DispatchDeps, dispatchCommandResult, handleSessionShortcut, handleSlashCommand } from "./commandHandlers";
 import type { ViewMode } from "./commandParser";
 import {
 	FULL_DOT_COMMANDS,
+	isImmediateDotCommand,
 	LOCKED_DOT_COMMANDS,
 	parseDotInput,
 	parseSlashInput,
 	READ_ONLY_DOT_COMMANDS,
 	STREAMING_DOT_COMMANDS,
 	shouldAutoFillTitle,
+	withPluginCommands,
 } from "./commandParser";
 import { DotCommandPanel, type ModelListItem, type ProviderListItem, resolveCommandTree } from "./DotCommandPanel";
 import { resolveDotTree } from "./DotCommandTree";
-import type { CompactionDetail, CompactionStats, ContextMessage } from "./formatUtils";
+import type { CompactionDetail, CompactionStats, ContextMessage, UsageReport } from "./formatUtils";
 import { useAutoScroll } from "./hooks/useAutoScroll";
 import { useGlobalKeyboard } from "./hooks/useGlobalKeyboard";
 import { useInputHistory } from "./hooks/useInputHistory";
 import { useSessionRouting } from "./hooks/useSessionRouting";
 import { Markdown } from "./Markdown";
-import type { StagedSkill } from "./protocol";
+import { McpStatus } from "./McpStatus";
+import { MemoriesView } from "./MemoriesView";
+import { PermissionPanel } from "./PermissionPanel";
+import { ProcessStatus } from "./ProcessStatus";
+import type { MemoryListing, PinSummary, StagedSkill } from "./protocol";
+import { SandboxStatus } from "./SandboxStatus";
 import { SlashCommandPanel } from "./SlashCommandPanel";
+import type { CheckpointItem, PolicyListItem, SearchResultItem } from "./trees/commandTrees";
+import { UsageView } from "./UsageView";
 import { useWebSocket } from "./useWebSocket";
 
 export function App() {
@@ -44,8 +53,13 @@ export function App() {
 		subagents,
 		parentId,
 		parentTitle,
+		forkOrigin,
 		projectInfo,
+		mcpServers,
+		processes,
+		pluginCommands,
 		loadSession,
+		reloadSession,
 		getSessionId,
 		setSessionId,
 		volatileMessages,
@@ -61,6 +75,8 @@ export function App() {
 		peekSubagentFromDb,
 		exitSubagentPeek,
 		sendCancel,
+		permissionRequests,
+		respondPermission,
 	} = useWebSocket();
 	const [input, setInput] = useState("");
 	const [modelList, setModelList] = useState<ModelListItem[] | null>(null);
@@ -81,6 +97,8 @@ export function App() {
 		stats: CompactionStats | null;
 		details: Record<string, CompactionDetail> | null;
 	} | null>(null);
+	const [usageReport, setUsageReport] = useState<UsageReport | null>(null);
+	const [memoryListing, setMemoryListing] = useState<MemoryListing | null>(null);
 	const textareaRef = useRef<HTMLTextAreaElement>(null);
 	const titleAutoFilledRef = useRef(false);
 	const committedArgsRef = useRef<string | null>(null);
@@ -92,8 +110,14 @@ export function App() {
 		titleAutoFilledRef.current = false;
 	}, [title]);
 
-	const { messagesRef, scrollToBottom, peekSubagentWithScroll, peekSubagentFromDbWithScroll, exitSubagentPeekWithScroll } =
-		useAutoScroll(autoScrollRef, peekSubagent, peekSubagentFromDb, exitSubagentPeek, setView);
+	const {
+		messagesRef,
+		scrollToBottom,
+		scrollToTurn,
+		peekSubagentWithScroll,
+		peekSubagentFromDbWithScroll,
+		exitSubagentPeekWithScroll,
+	} = useAutoScroll(autoScrollRef, peekSubagent, peekSubagentFromDb, exitSubagentPeek, setView);
 
 	const { pendingNewTitle } = useSessionRouting(
 		loadSession,
@@ -153,15 +177,28 @@ export function App() {
 			.catch(() => setCompactionData(null));
 	}, [getSessionId, viewingSubagentId]);
 
-	const isReadOnly =
-		!!parentId || sessionLocked || viewingSubagentId !== null || view.mode === "context" || view.mode === "compaction";
+	const fetchUsage = useCallback(() => {
+		fetch("/bobai/usage")
+			.then((res) => res.json())
+			.then((data: UsageReport) => setUsageReport(data))
+			.catch(() => setUsageReport(null));
+	}, []);
+
+	const fetchMemories = useCallback(() => {
+		fetch("/bobai/memories")
+			.then((res) => res.json())
+			.then((data: MemoryListing) => setMemoryListing(data))
+			.catch(() => setMemoryListing(null));
+	}, []);
+
+	const isReadOnly = !!parentId || sessionLocked || viewingSubagentId !== null || view.mode !== "chat";
 	const activeDotCommands = isStreaming
 		? STREAMING_DOT_COMMANDS
 		: sessionLocked
 			? LOCKED_DOT_COMMANDS
 			: isReadOnly
 				? READ_ONLY_DOT_COMMANDS
-				: FULL_DOT_COMMANDS;
+				: withPluginCommands(FULL_DOT_COMMANDS, pluginCommands);
 
 	function clearInput() {
 		setInput("");
@@ -238,6 +275,11 @@ export function App() {
 		{ index: number; id: string; title: string | null; updatedAt: string; owned: boolean }[] | null
 	>(null);
 	const [subagentList, setSubagentList] = useState<{ index: number; title: string; sessionId: string }[] | null>(null);
+	const [checkpointList, setCheckpointList] = useState<CheckpointItem[] | null>(null);
+	const [searchResults, setSearchResults] = useState<SearchResultItem[] | null>(null);
+	const [policyList, setPolicyList] = useState<PolicyListItem[] | null>(null);
+	const [pins, setPins] = useState<PinSummary | null>(null);
+	const pinnedIds = useMemo(() => new Set(pins?.toolCallIds ?? []), [pins]);
 
 	// Fetch session list for .session panel
 	// biome-ignore lint/correctness/useExhaustiveDependencies: activeDotCommands depends on component state
@@ -270,6 +312,101 @@ export function App() {
 		}
 	}, [input, parentId, getSessionId]);
 
+	// Fetch turn list for .checkpoint and .fork panels
+	// biome-ignore lint/correctness/useExhaustiveDependencies: activeDotCommands depends on component state
+	useEffect(() => {
+		const parsed = parseDotInput(input, activeDotCommands);
+		if (parsed?.mode === "args" && (parsed.command === "checkpoint" || parsed.command === "fork")) {
+			const sid = getSessionId();
+			if (!sid) {
+				setCheckpointList([]);
+				return;
+			}
+			fetch(`/bobai/session/${sid}/checkpoints`)
+				.then((res) => res.json())
+				.then((data) => setCheckpointList(data))
+				.catch(() => setCheckpointList(null));
+		} else {
+			setCheckpointList(null);
+		}
+	}, [input, getSessionId]);
+
+	// Fetch compaction policies for .policy panel
+	// biome-ignore lint/correctness/useExhaustiveDependencies: activeDotCommands depends on component state
+	useEffect(() => {
+		const parsed = parseDotInput(input, activeDotCommands);
+		if (parsed?.mode === "args" && parsed.command === "policy") {
+			const sid = getSessionId();
+			fetch(sid ? `/bobai/compaction/policies?sessionId=${sid}` : "/bobai/compaction/policies")
+				.then((res) => res.json())
+				.then((data: { policies: Omit<PolicyListItem, "current">[]; current: string }) =>
+					setPolicyList(data.policies.map((p) => ({ ...p, current: p.name === data.current }))),
+				)
+				.catch(() => setPolicyList(null));
+		} else {
+			setPolicyList(null);
+		}
+	}, [input, getSessionId]);
+
+	// Fetch the session's pins for the Chat view toggles and the status bar — again after
+	// every turn, since the token estimate follows the session's measured ratio
+	const pinSessionId = parentId ? null : getSessionId();
+	useEffect(() => {
+		if (!pinSessionId) {
+			setPins(null);
+			return;
+		}
+		if (isStreaming) return;
+		fetch(`/bobai/session/${pinSessionId}/pins`)
+			.then((res) => (res.ok ? res.json() : null))
+			.then((data: PinSummary | null) => setPins(data))
+			.catch(() => setPins(null));
+	}, [pinSessionId, isStreaming]);
+
+	const togglePin = useCallback(
+		(toolCallIds: string[], pinned: boolean) => {
+			const sid = getSessionId();
+			if (!sid) return;
+			fetch(`/bobai/session/${sid}/pins`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ toolCallIds, pinned }),
+			})
+				.then((res) => res.json())
+				.then((data: PinSummary | { error: string }) => {
+					if ("error" in data) addVolatileMessage(data.error, "error");
+					else setPins(data);
+				})
+				.catch(() => addVolatileMessage("Failed to update pins", "error"));
+		},
+		[getSessionId, addVolatileMessage],
+	);
+
+	// Fetch full-text search results for .search panel
+	// biome-ignore lint/correctness/useExhaustiveDependencies: activeDotCommands depends on component state
+	useEffect(() => {
+		const parsed = parseDotInput(input, activeDotCommands);
+		const query = parsed?.mode === "args" && parsed.command === "search" ? parsed.args.trim() : "";
+		if (!query) {
+			setSearchResults(null);
+			return;
+		}
+		// Keep showing the previous results until the new ones arrive, and
+		// ignore responses for a query the user has already typed past
+		let stale = false;
+		fetch(`/bobai/search?q=${encodeURIComponent(query)}`)
+			.then((res) => res.json())
+			.then((data) => {
+				if (!stale) setSearchResults(data);
+			})
+			.catch(() => {
+				if (!stale) setSearchResults(null);
+			});
+		return () => {
+			stale = true;
+		};
+	}, [input]);
+
 	function handleDotCommit(commitPath: string) {
 		committedArgsRef.current = commitPath;
 		submit();
@@ -281,16 +418,22 @@ export function App() {
 
 		const parsed = parseDotInput(text, activeDotCommands);
 
-		// Stop is handled directly — no tree needed
-		const isStop =
-			(parsed?.mode === "args" && parsed.command === "stop") ||
-			(parsed?.mode === "select" && parsed.matches.length === 1 && parsed.matches[0]?.name === "stop");
-		if (isStop) {
+		// Stop, approve and deny are handled directly — no tree needed
+		if (isImmediateDotCommand(parsed, "stop")) {
 			sendCancel();
 			clearInput();
 			return;
 		}
 
+		const isApprove = isImmediateDotCommand(parsed, "approve");
+		if (isApprove || isImmediateDotCommand(parsed, "deny")) {
+			if (!respondPermission(isApprove)) {
+				addVolatileMessage("No pending permission request", "error");
+			}
+			clearInput();
+			return;
+		}
+
 		if (!parsed) {
 			// Not a dot command — handle slash / normal prompt
 			const slashParsed = parseSlashInput(text, skillList, isReadOnly);
@@ -309,7 +452,7 @@ export function App() {
 				return;
 			}
 
-			if (view.mode === "context" || view.mode === "compaction") {
+			if (view.mode !== "chat") {
 				addVolatileMessage("Read-only view", "error");
 				clearInput();
 				return;
@@ -390,6 +533,10 @@ export function App() {
 			contextLimit,
 			title,
 			configuredModelList,
+			checkpointList,
+			pluginCommands,
+			searchResults,
+			policyList,
 		);
 		if (!tree) {
 			clearInput();
@@ -418,6 +565,8 @@ export function App() {
 			setWelcomeMarkdown,
 			fetchContext,
 			fetchCompactedContext,
+			fetchUsage,
+			fetchMemories,
 			scrollToBottom,
 			currentProvider: provider,
 			getSessionId,
@@ -426,6 +575,9 @@ export function App() {
 			addVolatileMessage,
 			clearVolatileMessages,
 			loadSession,
+			scrollToTurn,
+			reloadSession,
+			setPins,
 			subagents,
 			peekSubagentWithScroll,
 			peekSubagentFromDbWithScroll,
@@ -492,6 +644,9 @@ export function App() {
 									| {projectInfo.git.branch}:{projectInfo.git.revision}
 								</span>
 							)}
+							{projectInfo?.sandbox && <SandboxStatus sandbox={projectInfo.sandbox} />}
+							<McpStatus servers={mcpServers} />
+							<ProcessStatus processes={processes} />
 							{peekingSubagentTitle !== null ? (
 								<span className="status-bar-title">
 									{" "}
@@ -502,6 +657,11 @@ export function App() {
 									{" "}
 									| {parentTitle ?? "(untitled)"} | {title ?? "(untitled)"}
 								</span>
+							) : forkOrigin ? (
+								<span className="status-bar-title">
+									{" "}
+									| {forkOrigin.title ?? "(untitled)"} @ turn {forkOrigin.turn} | {title ?? "(untitled)"}
+								</span>
 							) : (
 								title && <span className="status-bar-title"> | {title}</span>
 							)}
@@ -510,7 +670,14 @@ export function App() {
 						" connecting..."
 					)}
 				</span>
-				<span>{status}</span>
+				<span>
+					{pins && pins.toolCallIds.length > 0 && !viewingSubagentId && (
+						<span className="status-bar-pins">
+							{pins.toolCallIds.length} pinned ~{pins.tokens} tokens |{" "}
+						</span>
+					)}
+					{status}
+				</span>
 			</div>
 
 			<div className="messages" role="log" aria-live="polite" ref={messagesRef}>
@@ -529,7 +696,13 @@ export function App() {
 							parentId={parentId}
 							peekSubagentWithScroll={peekSubagentWithScroll}
 							peekSubagentFromDbWithScroll={peekSubagentFromDbWithScroll}
+							pinnedIds={pinnedIds}
+							onTogglePin={isReadOnly ? undefined : togglePin}
 						/>
+					) : view.mode === "usage" ? (
+						<UsageView report={usageReport} />
+					) : view.mode === "memories" ? (
+						<MemoriesView listing={memoryListing} onChanged={fetchMemories} />
 					) : (
 						<ContextMessageList
 							contextMessages={contextMessages}
@@ -559,8 +732,13 @@ export function App() {
 				contextLimit={contextLimit}
 				currentTitle={title}
 				onCommit={handleDotCommit}
+				checkpointList={checkpointList}
+				pluginCommands={pluginCommands}
+				searchResults={searchResults}
+				policyList={policyList}
 			/>
 			<SlashCommandPanel parsed={parsedSlashInput} />
+			<PermissionPanel requests={permissionRequests} />
 
 			<div className="panel panel--prompt">
 				<textarea
@@ -588,17 +766,19 @@ export function App() {
 					}}
 					onKeyDown={handleKeyDown}
 					placeholder={
-						isStreaming && viewingSubagentId
-							? "Escape to return — .stop to cancel"
-							: isStreaming
-								? "Agent working — .stop to cancel"
-								: viewingSubagentId
-									? "Viewing subagent — press Escape to return"
-									: sessionLocked
-										? "Use .new or .session to navigate"
-										: isReadOnly
-											? "Dot commands only (read-only)"
-											: "Type a message..."
+						permissionRequests.length > 0
+							? "Permission needed — .approve or .deny"
+							: isStreaming && viewingSubagentId
+								? "Escape to return — .stop to cancel"
+								: isStreaming
+									? "Agent working — .stop to cancel"
+									: viewingSubagentId
+										? "Viewing subagent — press Escape to return"
+										: sessionLocked
+											? "Use .new or .session to navigate"
+											: isReadOnly
+												? "Dot commands only (read-only)"
+												: "Type a message..."
 					}
 					disabled={!connected}
 				/>
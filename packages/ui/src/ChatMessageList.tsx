@@ -1,3 +1,4 @@
+import { DiffView } from "./DiffView";
 import { formatMsgSummary, groupParts, type Panel } from "./formatUtils";
 import { Markdown } from "./Markdown";
 import type { Message, SubagentInfo } from "./protocol";
@@ -16,6 +17,8 @@ export function ChatMessageList({
 	parentId,
 	peekSubagentWithScroll,
 	peekSubagentFromDbWithScroll,
+	pinnedIds,
+	onTogglePin,
 }: {
 	messages: Message[];
 	subagents: SubagentInfo[];
@@ -24,9 +27,14 @@ export function ChatMessageList({
 	parentId: string | null;
 	peekSubagentWithScroll: (sessionId: string) => void;
 	peekSubagentFromDbWithScroll: (sessionId: string) => void;
+	/** tool_call_ids pinned in the session; only read when onTogglePin is set. */
+	pinnedIds?: ReadonlySet<string>;
+	/** Pin or unpin the tool results behind a panel. Omitted in read-only views. */
+	onTogglePin?: (toolCallIds: string[], pinned: boolean) => void;
 }) {
 	const elements: React.ReactNode[] = [];
 	let key = 0;
+	let turn = 0;
 
 	for (let m = 0; m < messages.length; m++) {
 		const msg = messages[m];
@@ -34,8 +42,9 @@ export function ChatMessageList({
 		const isLastMsg = m === messages.length - 1;
 		if (msg.role === "user") {
 			const isSubagentView = viewingSubagentId !== null || parentId !== null;
+			turn++;
 			elements.push(
-				<div key={key++} className="panel panel--user">
+				<div key={key++} className="panel panel--user" data-turn={turn}>
 					{isSubagentView ? <Markdown>{msg.text}</Markdown> : msg.text}
 					<div className="panel-status">{msg.timestamp}</div>
 				</div>,
@@ -91,10 +100,23 @@ export function ChatMessageList({
 						}
 					: undefined;
 				const shouldObserve = isStreaming && isLastMsg && !panel.completed;
+				// A merged panel stands for several results; it counts as pinned when all of them are
+				const toolCallIds = [panel.id, ...(panel.mergedIds ?? [])];
+				const pinned = toolCallIds.every((id) => pinnedIds?.has(id));
+				const togglePin = onTogglePin && panel.completed ? () => onTogglePin(toolCallIds, !pinned) : undefined;
 
 				elements.push(
-					<ToolPanel key={key++} content={panel.content} onNavigate={onNavigate} observe={shouldObserve} hidden={panel.hidden}>
+					<ToolPanel
+						key={key++}
+						content={panel.content}
+						onNavigate={onNavigate}
+						observe={shouldObserve}
+						hidden={panel.hidden}
+						pinned={togglePin ? pinned : undefined}
+						onTogglePin={togglePin}
+					>
 						<Markdown>{panel.content}</Markdown>
+						{panel.diffs && <DiffView diffs={panel.diffs} />}
 						{panel.summary && <div className="panel-status">{panel.summary}</div>}
 						{!panel.summary && isLast && msg.timestamp && (
 							<div className="panel-status">
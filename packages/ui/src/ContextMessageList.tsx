@@ -1,5 +1,5 @@
-import type { CompactionDetail, CompactionStats, ContextMessage } from "./formatUtils";
-import { formatCompactionSummary, formatToolHeader, truncateChars, truncateContent } from "./formatUtils";
+import type { CompactionDetail, CompactionStats, CompactionSummaryStats, ContextMessage } from "./formatUtils";
+import { formatCompactionSummary, formatSummaryHeader, formatToolHeader, truncateChars, truncateContent } from "./formatUtils";
 import { Markdown } from "./Markdown";
 
 export type ContextViewMode = "raw" | "compaction";
@@ -42,6 +42,13 @@ function renderMessagePanels(
 					<pre className="context-body">{isRaw ? truncateContent(msg.content, opts.lineLimit) : msg.content?.trim()}</pre>
 				</div>,
 			);
+		} else if (msg.role === "user" && msg.metadata?.compaction_summary) {
+			elements.push(
+				<div key={key++} className="panel panel--context">
+					<div className="context-header">{formatSummaryHeader(msg.metadata.compaction_summary as CompactionSummaryStats)}</div>
+					<pre className="context-body">{msg.content.trim()}</pre>
+				</div>,
+			);
 		} else if (msg.role === "user") {
 			const indexPrefix = !isRaw && msg.messageIndex !== undefined ? `#${msg.messageIndex} ` : "";
 			elements.push(
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { formatFileDiffPatch, formatHunkHeader } from "./formatUtils";
+import type { DiffHunk, FileDiff } from "./protocol";
+
+type DiffRow =
+	| { kind: "hunk"; text: string }
+	| { kind: "context" | "added" | "removed"; oldNumber?: number; newNumber?: number; text: string }
+	| { kind: "note"; text: string };
+
+/** A hunk as table rows, numbering each line on the side(s) it belongs to. */
+function hunkRows(hunk: DiffHunk): DiffRow[] {
+	const rows: DiffRow[] = [{ kind: "hunk", text: formatHunkHeader(hunk) }];
+	let oldNumber = hunk.oldStart;
+	let newNumber = hunk.newStart;
+	for (const line of hunk.lines) {
+		if (line.startsWith("+")) rows.push({ kind: "added", newNumber: newNumber++, text: line });
+		else if (line.startsWith("-")) rows.push({ kind: "removed", oldNumber: oldNumber++, text: line });
+		else if (line.startsWith("\\")) rows.push({ kind: "note", text: line });
+		else rows.push({ kind: "context", oldNumber: oldNumber++, newNumber: newNumber++, text: line });
+	}
+	return rows;
+}
+
+// The panel folds on double-click; clicks on the file controls should not.
+const stopDoubleClick = (e: React.MouseEvent) => e.stopPropagation();
+
+function FileDiffView({ diff }: { diff: FileDiff }) {
+	const [open, setOpen] = useState(true);
+	const [copied, setCopied] = useState(false);
+
+	const copyPatch = () => {
+		navigator.clipboard.writeText(formatFileDiffPatch(diff)).then(
+			() => setCopied(true),
+			() => setCopied(false),
+		);
+	};
+
+	return (
+		<div className="diff-file">
+			<div className="diff-file-header">
+				<button
+					type="button"
+					className="diff-file-toggle"
+					aria-expanded={open}
+					onClick={() => setOpen((prev) => !prev)}
+					onDoubleClick={stopDoubleClick}
+				>
+					{open ? "▾" : "▸"} {diff.path}
+				</button>
+				{diff.status !== "modified" && <span className="diff-file-status"> {diff.status}</span>}{" "}
+				<span className="diff-added">+{diff.added}</span> <span className="diff-removed">-{diff.removed}</span>
+				<button
+					type="button"
+					className="diff-file-copy"
+					title="Copy this file's changes as a unified diff"
+					onClick={copyPatch}
+					onDoubleClick={stopDoubleClick}
+					onMouseLeave={() => setCopied(false)}
+				>
+					{copied ? "copied" : "copy patch"}
+				</button>
+			</div>
+			{open && (
+				<table className="diff-table">
+					<tbody>
+						{diff.hunks.flatMap(hunkRows).map((row, i) =>
+							row.kind === "hunk" || row.kind === "note" ? (
+								// biome-ignore lint/suspicious/noArrayIndexKey: rows are derived from immutable hunks
+								<tr key={i} className={`diff-row diff-row--${row.kind}`}>
+									<td colSpan={2} />
+									<td className="diff-text">{row.text}</td>
+								</tr>
+							) : (
+								// biome-ignore lint/suspicious/noArrayIndexKey: rows are derived from immutable hunks
+								<tr key={i} className={`diff-row diff-row--${row.kind}`}>
+									<td className="diff-line-number">{row.oldNumber}</td>
+									<td className="diff-line-number">{row.newNumber}</td>
+									<td className="diff-text">{row.text}</td>
+								</tr>
+							),
+						)}
+						{diff.truncated && (
+							<tr className="diff-row diff-row--note">
+								<td colSpan={2} />
+								<td className="diff-text">… diff truncated; the counts above include every change</td>
+							</tr>
+						)}
+					</tbody>
+				</table>
+			)}
+		</div>
+	);
+}
+
+/**
+ * The files a write_file, edit_file or apply_patch call changed, as inline
+ * diffs with old and new line numbers. Each file folds on its own and copies
+ * as a patch; the whole panel still folds like any tool panel.
+ */
+export function DiffView({ diffs }: { diffs: FileDiff[] }) {
+	return (
+		<div className="diff-view">
+			{diffs.map((diff, i) => (
+				// biome-ignore lint/suspicious/noArrayIndexKey: the same path may appear twice in a merged panel
+				<FileDiffView key={i} diff={diff} />
+			))}
+		</div>
+	);
+}
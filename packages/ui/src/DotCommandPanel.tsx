@@ -3,13 +3,25 @@ import { DotCommandNavigator } from "./DotCommandNavigator";
 import type { DotTreeNode } from "./DotCommandTree";
 import { resolveDotTree } from "./DotCommandTree";
 import {
+	type CheckpointItem,
+	createCheckpointTree,
+	createForkTree,
 	createLimitTree,
 	createModelTree,
+	createPluginCommandTree,
+	createPolicyTree,
 	createProviderTree,
+	createSearchTree,
 	createSessionTree,
 	createSubagentTree,
 	createTitleTree,
+	exportTree,
 	newTree,
+	type PolicyListItem,
+	pinTree,
+	type SearchResultItem,
+	undoTree,
+	unpinTree,
 	viewTree,
 } from "./trees/commandTrees";
 import { createConfigurationTree } from "./trees/configurationTree";
@@ -29,6 +41,10 @@ export function DotCommandPanel({
 	currentTitle,
 	onCommit,
 	configuredModelList,
+	checkpointList,
+	pluginCommands,
+	searchResults,
+	policyList,
 }: {
 	parsed: ParsedDotInput | null;
 	modelList: ModelListItem[] | null;
@@ -42,6 +58,11 @@ export function DotCommandPanel({
 	onCommit?: (commitPath: string) => void;
 	/** Model list for the configured provider — used by the config tree, not the session's model list. */
 	configuredModelList?: ModelListItem[] | null;
+	checkpointList?: CheckpointItem[] | null;
+	/** Commands registered by server plugins. */
+	pluginCommands?: DotCommand[];
+	searchResults?: SearchResultItem[] | null;
+	policyList?: PolicyListItem[] | null;
 }) {
 	if (!parsed) {
 		return null;
@@ -63,6 +84,10 @@ export function DotCommandPanel({
 			contextLimit,
 			currentTitle,
 			configuredModelList,
+			checkpointList,
+			pluginCommands,
+			searchResults,
+			policyList,
 		);
 		if (tree) {
 			const treeState = resolveDotTree(tree, parsed.args);
@@ -102,6 +127,10 @@ export function resolveCommandTree(
 	contextLimit: number | null,
 	currentTitle: string | null,
 	configuredModelList?: ModelListItem[] | null,
+	checkpointList?: CheckpointItem[] | null,
+	pluginCommands?: DotCommand[],
+	searchResults?: SearchResultItem[] | null,
+	policyList?: PolicyListItem[] | null,
 ): DotTreeNode | null {
 	switch (command) {
 		case "model":
@@ -110,19 +139,37 @@ export function resolveCommandTree(
 			return createProviderTree(providerList);
 		case "view":
 			return viewTree;
+		case "export":
+			return exportTree;
 		case "new":
 			return newTree;
 		case "title":
 			return createTitleTree(currentTitle);
 		case "limit":
 			return createLimitTree(contextLimit);
+		case "policy":
+			return createPolicyTree(policyList ?? null);
+		case "pin":
+			return pinTree;
+		case "unpin":
+			return unpinTree;
 		case "session":
 			return createSessionTree(sessionList, getSessionId, sessionLocked);
 		case "subagent":
 			return createSubagentTree(subagentList);
 		case "configuration":
 			return createConfigurationTree(providerList, configuredModelList ?? modelList);
-		default:
-			return null;
+		case "undo":
+			return undoTree;
+		case "checkpoint":
+			return createCheckpointTree(checkpointList ?? null);
+		case "fork":
+			return createForkTree(checkpointList ?? null);
+		case "search":
+			return createSearchTree(searchResults ?? null);
+		default: {
+			const pluginCommand = pluginCommands?.find((c) => c.name === command);
+			return pluginCommand ? createPluginCommandTree(pluginCommand) : null;
+		}
 	}
 }
@@ -0,0 +1,25 @@
+import type { McpServerStatus } from "./protocol";
+
+function describe(server: McpServerStatus): string {
+	if (server.state === "connected") return `${server.name}: connected, ${server.toolCount} tool(s)`;
+	if (server.state === "error") return `${server.name}: ${server.error ?? "failed"}`;
+	return `${server.name}: connecting...`;
+}
+
+/** Status bar segment summarizing MCP servers: connected/total, red when any failed. Details on hover. */
+export function McpStatus({ servers }: { servers: McpServerStatus[] }) {
+	if (servers.length === 0) return null;
+
+	const connected = servers.filter((s) => s.state === "connected").length;
+	const failed = servers.some((s) => s.state === "error");
+
+	return (
+		<span
+			className={failed ? "status-bar-title status-bar-mcp--error" : "status-bar-title"}
+			title={servers.map(describe).join("\n")}
+		>
+			{" "}
+			| MCP {connected}/{servers.length}
+		</span>
+	);
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { MEMORY_TYPES, type MemoryEntry, type MemoryListing, type MemoryType } from "./protocol";
+
+type Draft = { type: MemoryType; title: string; description: string; content: string };
+
+async function requestJson(url: string, method: string, body: unknown): Promise<string | null> {
+	try {
+		const res = await fetch(url, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+		if (res.ok) return null;
+		const text = await res.text();
+		try {
+			return (JSON.parse(text) as { error?: string }).error ?? text;
+		} catch {
+			return text;
+		}
+	} catch (err) {
+		return err instanceof Error ? err.message : String(err);
+	}
+}
+
+/**
+ * Project memories for human curation: filter by type, edit one in place,
+ * delete a selection, promote a project memory to the global store.
+ * Entries outside the bounded prompt index are marked.
+ */
+export function MemoriesView({ listing, onChanged }: { listing: MemoryListing | null; onChanged: () => void }) {
+	const [filter, setFilter] = useState<MemoryType | null>(null);
+	const [selected, setSelected] = useState<ReadonlySet<string>>(new Set());
+	const [editing, setEditing] = useState<{ id: string; draft: Draft } | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	if (!listing) {
+		return (
+			<div key="empty" className="panel panel--context">
+				No memory data available.
+			</div>
+		);
+	}
+	if (listing.memories.length === 0) {
+		return (
+			<div key="empty" className="panel panel--context">
+				No memories saved yet.
+			</div>
+		);
+	}
+
+	const visible = filter ? listing.memories.filter((m) => m.type === filter) : listing.memories;
+	const selectedVisible = visible.filter((m) => selected.has(m.id)).map((m) => m.id);
+	const allSelected = visible.length > 0 && selectedVisible.length === visible.length;
+
+	function pickFilter(type: MemoryType | null) {
+		setFilter(type);
+		setSelected(new Set());
+	}
+
+	function toggle(id: string) {
+		setSelected((prev) => {
+			const next = new Set(prev);
+			if (next.has(id)) next.delete(id);
+			else next.add(id);
+			return next;
+		});
+	}
+
+	function startEdit(memory: MemoryEntry) {
+		setError(null);
+		setEditing({
+			id: memory.id,
+			draft: { type: memory.type, title: memory.title, description: memory.description ?? "", content: memory.content },
+		});
+	}
+
+	function updateDraft(patch: Partial<Draft>) {
+		setEditing((prev) => (prev ? { ...prev, draft: { ...prev.draft, ...patch } } : prev));
+	}
+
+	async function saveEdit() {
+		if (!editing) return;
+		const failure = await requestJson(`/bobai/memories/${encodeURIComponent(editing.id)}`, "PATCH", editing.draft);
+		setError(failure);
+		if (failure) return;
+		setEditing(null);
+		onChanged();
+	}
+
+	async function promote(memory: MemoryEntry) {
+		const failure = await requestJson(`/bobai/memories/${encodeURIComponent(memory.id)}/promote`, "POST", {});
+		setError(failure);
+		if (!failure) onChanged();
+	}
+
+	async function deleteSelected() {
+		const failure = await requestJson("/bobai/memories", "DELETE", { ids: selectedVisible });
+		setError(failure);
+		if (failure) return;
+		setSelected(new Set());
+		onChanged();
+	}
+
+	const { index } = listing;
+	const count = (type: MemoryType) => listing.memories.filter((m) => m.type === type).length;
+
+	return (
+		<div className="panel panel--context">
+			<div className="context-header">
+				memories | {index.shown} of {index.total} in the prompt index (max {index.maxEntries} entries, {index.maxBytes} bytes)
+			</div>
+			<div className="memories-toolbar">
+				<button type="button" aria-pressed={filter === null} onClick={() => pickFilter(null)}>
+					all ({listing.memories.length})
+				</button>
+				{MEMORY_TYPES.map((type) => (
+					<button key={type} type="button" aria-pressed={filter === type} onClick={() => pickFilter(type)}>
+						{type} ({count(type)})
+					</button>
+				))}
+				<label>
+					<input
+						type="checkbox"
+						checked={allSelected}
+						onChange={() => setSelected(allSelected ? new Set() : new Set(visible.map((m) => m.id)))}
+					/>{" "}
+					select all
+				</label>
+				<button type="button" className="memories-delete" disabled={selectedVisible.length === 0} onClick={deleteSelected}>
+					delete selected ({selectedVisible.length})
+				</button>
+			</div>
+			{error && <div className="memories-error">{error}</div>}
+			{visible.map((memory) =>
+				editing?.id === memory.id ? (
+					<div key={memory.id} className="memory-entry memory-entry--editing">
+						<div className="memory-entry-fields">
+							<select
+								aria-label="type"
+								value={editing.draft.type}
+								onChange={(e) => updateDraft({ type: e.target.value as MemoryType })}
+							>
+								{MEMORY_TYPES.map((type) => (
+									<option key={type} value={type}>
+										{type}
+									</option>
+								))}
+							</select>
+							<input aria-label="title" value={editing.draft.title} onChange={(e) => updateDraft({ title: e.target.value })} />
+							<input
+								aria-label="description"
+								placeholder="description"
+								value={editing.draft.description}
+								onChange={(e) => updateDraft({ description: e.target.value })}
+							/>
+							<textarea
+								aria-label="content"
+								rows={Math.min(20, editing.draft.content.split("\n").length + 1)}
+								value={editing.draft.content}
+								onChange={(e) => updateDraft({ content: e.target.value })}
+							/>
+						</div>
+						<button type="button" onClick={saveEdit}>
+							save
+						</button>{" "}
+						<button type="button" onClick={() => setEditing(null)}>
+							cancel
+						</button>
+					</div>
+				) : (
+					<div key={memory.id} className={`memory-entry${memory.indexed ? "" : " memory-entry--unindexed"}`}>
+						<div className="memory-entry-header">
+							<input
+								type="checkbox"
+								aria-label={`select ${memory.title}`}
+								checked={selected.has(memory.id)}
+								onChange={() => toggle(memory.id)}
+							/>{" "}
+							[{memory.scope === "global" ? `${memory.type}, global` : memory.type}] {memory.title} | {memory.id.slice(0, 8)} |{" "}
+							{memory.updatedAt.slice(0, 10)} | {memory.indexed ? "in index" : "not in index"} |{" "}
+							<button type="button" onClick={() => startEdit(memory)}>
+								edit
+							</button>
+							{memory.scope === "project" && (
+								<>
+									{" "}
+									<button type="button" title="Move to the global store shared by all projects" onClick={() => promote(memory)}>
+										promote to global
+									</button>
+								</>
+							)}
+						</div>
+						{memory.description && <div className="memory-entry-description">{memory.description}</div>}
+						<div className="context-body">{memory.content}</div>
+					</div>
+				),
+			)}
+		</div>
+	);
+}
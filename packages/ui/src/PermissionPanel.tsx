@@ -0,0 +1,19 @@
+import type { PermissionRequest } from "./protocol";
+
+export function PermissionPanel({ requests }: { requests: PermissionRequest[] }) {
+	const current = requests[0];
+	if (!current) return null;
+
+	const queued = requests.length - 1;
+
+	return (
+		<div className="panel panel--permission">
+			<div className="permission-header">
+				Allow <span className="permission-tool">{current.tool}</span>?
+				{queued > 0 && <span className="permission-queued"> ({queued} more waiting)</span>}
+			</div>
+			<div className="permission-detail">{current.detail}</div>
+			<div className="permission-hint">.approve to run it — .deny to reject</div>
+		</div>
+	);
+}
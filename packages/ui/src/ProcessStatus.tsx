@@ -0,0 +1,20 @@
+import type { BackgroundProcessStatus } from "./protocol";
+
+function describe(process: BackgroundProcessStatus): string {
+	if (process.state === "running") return `${process.name} (pid ${process.pid}): ${process.command}`;
+	if (process.state === "exited") return `${process.name}: exited with code ${process.exitCode}`;
+	return `${process.name}: killed`;
+}
+
+/** Status bar segment counting the session's running background processes. Details on hover. */
+export function ProcessStatus({ processes }: { processes: BackgroundProcessStatus[] }) {
+	const running = processes.filter((p) => p.state === "running").length;
+	if (running === 0) return null;
+
+	return (
+		<span className="status-bar-title" title={processes.map(describe).join("\n")}>
+			{" "}
+			| {running} process{running === 1 ? "" : "es"}
+		</span>
+	);
+}
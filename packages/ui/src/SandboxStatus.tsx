@@ -0,0 +1,20 @@
+import type { SandboxStatus as SandboxStatusInfo } from "./protocol";
+
+function describe(sandbox: SandboxStatusInfo): string {
+	if (sandbox.mode === "unavailable") return "Sandbox enabled, but bubblewrap (bwrap) is not installed: shell commands fail";
+	const writable = ["project directory", ...sandbox.writable].join("\n  ");
+	return `Shell commands run in bubblewrap\nWritable:\n  ${writable}\nNetwork: ${sandbox.network ? "allowed" : "disabled"}`;
+}
+
+/** Status bar segment showing the shell sandbox mode, red when it cannot run. Details on hover. */
+export function SandboxStatus({ sandbox }: { sandbox: SandboxStatusInfo }) {
+	const unavailable = sandbox.mode === "unavailable";
+	const label = unavailable ? "sandbox unavailable" : sandbox.network ? "sandbox" : "sandbox, no network";
+
+	return (
+		<span className={unavailable ? "status-bar-title status-bar-sandbox--error" : "status-bar-title"} title={describe(sandbox)}>
+			{" "}
+			| {label}
+		</span>
+	);
+}
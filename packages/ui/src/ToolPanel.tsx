@@ -2,7 +2,8 @@ import { useCallback, useEffect, useRef, useState } from "react";
 
 /**
  * Panels taller than COLLAPSE_LINES are auto-collapsed (CSS max-height clips
- * the .md child). With monospace font and line-height: 1, 1 em = 1 line.
+ * the .md child, and the .diff-view after it). With monospace font and
+ * line-height: 1, 1 em = 1 line.
  */
 export const COLLAPSE_LINES = 6;
 
@@ -10,7 +11,8 @@ export const COLLAPSE_LINES = 6;
  * Wraps a tool-call panel with collapse/expand behaviour.
  *
  * Collapse detection: after mount, compare the rendered `.md` child's
- * scrollHeight against COLLAPSE_LINES × font-size. If content overflows,
+ * scrollHeight (plus the `.diff-view`'s, for file changes) against
+ * COLLAPSE_LINES × font-size. If content overflows,
  * the panel auto-collapses (CSS `max-height: 6em` clips the overflow).
  * Double-click toggles between collapsed and expanded states.
  *
@@ -20,6 +22,9 @@ export const COLLAPSE_LINES = 6;
  * different content. This happens when positional keys (key={n}) collide
  * across view transitions (e.g. parent → subagent).
  * See FINDINGS.md "React key reuse across view transitions".
+ *
+ * With `onTogglePin`, a pin toggle in the corner keeps the tool result out
+ * of compaction; `pinned` marks the panel as pinned.
  */
 export function ToolPanel({
 	children,
@@ -27,6 +32,8 @@ export function ToolPanel({
 	onNavigate,
 	observe,
 	hidden,
+	pinned,
+	onTogglePin,
 }: {
 	children: React.ReactNode;
 	/** Raw markdown — used as a signal dep for re-measurement, not rendered. */
@@ -36,6 +43,8 @@ export function ToolPanel({
 	observe?: boolean;
 	/** If true, the panel is rendered with display:none (hidden until merge decision). */
 	hidden?: boolean;
+	pinned?: boolean;
+	onTogglePin?: () => void;
 }) {
 	const ref = useRef<HTMLDivElement>(null);
 	const [collapsed, setCollapsed] = useState<boolean | null>(null);
@@ -51,7 +60,8 @@ export function ToolPanel({
 		// Small tolerance so <hr> borders (1px each) don't push a
 		// panel that fits in COLLAPSE_LINES over the threshold.
 		const maxHeight = lineHeight * COLLAPSE_LINES + 4;
-		const overflows = md.scrollHeight > maxHeight;
+		const diffView = ref.current.querySelector(".diff-view");
+		const overflows = md.scrollHeight + (diffView?.scrollHeight ?? 0) > maxHeight;
 		collapsible.current = overflows;
 		setCollapsed(overflows);
 	}, []);
@@ -89,12 +99,24 @@ export function ToolPanel({
 	};
 
 	const isExpanded = collapsible.current && !collapsed;
-	const cls = `panel panel--tool${collapsed ? " panel--collapsed" : ""}${isExpanded ? " panel--expanded" : ""}${onNavigate ? " panel--navigable" : ""}`;
+	const cls = `panel panel--tool${collapsed ? " panel--collapsed" : ""}${isExpanded ? " panel--expanded" : ""}${onNavigate ? " panel--navigable" : ""}${pinned ? " panel--pinned" : ""}`;
 	const style = hidden ? { display: "none" as const } : undefined;
 
 	return (
 		// biome-ignore lint/a11y/noStaticElementInteractions: double-click fold is a convenience shortcut, not primary interaction
 		<div ref={ref} className={cls} style={style} onDoubleClick={handleDoubleClick}>
+			{onTogglePin && (
+				<button
+					type="button"
+					className="panel-pin"
+					aria-pressed={pinned ?? false}
+					title={pinned ? "Pinned: compaction keeps this result. Click to unpin." : "Pin: keep this result out of compaction"}
+					onClick={onTogglePin}
+					onDoubleClick={(e) => e.stopPropagation()}
+				>
+					{pinned ? "pinned" : "pin"}
+				</button>
+			)}
 			{children}
 		</div>
 	);
@@ -0,0 +1,30 @@
+import { formatUsageReport, type UsageReport } from "./formatUtils";
+import { Markdown } from "./Markdown";
+
+/** Spend and token usage across all sessions of the project, with a CSV download. */
+export function UsageView({ report }: { report: UsageReport | null }) {
+	if (!report) {
+		return (
+			<div key="empty" className="panel panel--context">
+				No usage data available.
+			</div>
+		);
+	}
+	if (report.total.turns === 0) {
+		return (
+			<div key="empty" className="panel panel--context">
+				No turns recorded yet.
+			</div>
+		);
+	}
+	return (
+		<div className="panel panel--context">
+			<div className="context-header">
+				usage | <a href="/bobai/usage?format=csv">download CSV</a>
+			</div>
+			<div className="context-body">
+				<Markdown>{formatUsageReport(report)}</Markdown>
+			</div>
+		</div>
+	);
+}
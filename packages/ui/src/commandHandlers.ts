@@ -1,6 +1,6 @@
 import type { DotCommandResult, ViewMode } from "./commandParser";
 import { VIEW_MODES } from "./commandParser";
-import type { StagedSkill, SubagentInfo } from "./protocol";
+import type { PinSummary, StagedSkill, SubagentInfo } from "./protocol";
 
 // ---------------------------------------------------------------------------
 // Shared helpers
@@ -14,6 +14,8 @@ type PostResult =
 			provider?: string;
 			model?: string;
 			contextLimit?: number | null;
+			truncated?: boolean;
+			pins?: PinSummary;
 			messages?: { text: string; kind: "info" | "success" | "error" }[];
 	  }
 	| { ok: false; error?: string };
@@ -92,15 +94,19 @@ export function handleViewCommand(
 		setView: React.Dispatch<React.SetStateAction<{ mode: ViewMode; lineLimit: number }>>;
 		fetchContext: () => void;
 		fetchCompactedContext: () => void;
+		fetchUsage: () => void;
+		fetchMemories: () => void;
 		scrollToBottom: () => void;
 	},
 ): void {
-	const viewMap: Record<string, ViewMode> = { "1": "chat", "2": "context", "3": "compaction" };
+	const viewMap: Record<string, ViewMode> = { "1": "chat", "2": "context", "3": "compaction", "4": "usage", "5": "memories" };
 	params.setView((prev) => {
 		const currentIdx = VIEW_MODES.indexOf(prev.mode);
 		const next = result.arg ? (viewMap[result.arg] ?? prev.mode) : (VIEW_MODES[(currentIdx + 1) % VIEW_MODES.length] ?? "chat");
 		if (next === "context") params.fetchContext();
 		if (next === "compaction") params.fetchCompactedContext();
+		if (next === "usage") params.fetchUsage();
+		if (next === "memories") params.fetchMemories();
 		return { ...prev, mode: next };
 	});
 	requestAnimationFrame(() => params.scrollToBottom());
@@ -258,6 +264,65 @@ export function handleLimitCommand(
 	);
 }
 
+// ---------------------------------------------------------------------------
+// handlePolicyCommand
+// ---------------------------------------------------------------------------
+
+export function handlePolicyCommand(
+	result: { args: string },
+	params: {
+		getSessionId: () => string | null;
+		setSessionId: (id: string) => void;
+		addVolatileMessage: (text: string, kind: "error" | "success" | "info") => void;
+		clearVolatileMessages: () => void;
+	},
+): void {
+	postDotCommand(
+		"policy",
+		result.args,
+		params.getSessionId(),
+		(res) => {
+			params.clearVolatileMessages();
+			if (res.sessionId) params.setSessionId(res.sessionId);
+			for (const msg of res.messages ?? []) {
+				params.addVolatileMessage(msg.text, msg.kind);
+			}
+		},
+		params.addVolatileMessage,
+	);
+}
+
+// ---------------------------------------------------------------------------
+// handlePinCommand — .pin and .unpin
+// ---------------------------------------------------------------------------
+
+export function handlePinCommand(
+	command: "pin" | "unpin",
+	args: string,
+	params: {
+		getSessionId: () => string | null;
+		setSessionId: (id: string) => void;
+		setPins: (pins: PinSummary) => void;
+		addVolatileMessage: (text: string, kind: "error" | "success" | "info") => void;
+		clearVolatileMessages: () => void;
+	},
+): void {
+	postDotCommand(
+		command,
+		args,
+		params.getSessionId(),
+		(res) => {
+			params.clearVolatileMessages();
+			if (res.sessionId) params.setSessionId(res.sessionId);
+			if (res.pins) params.setPins(res.pins);
+			for (const msg of res.messages ?? []) {
+				params.addVolatileMessage(msg.text, msg.kind);
+			}
+		},
+		params.addVolatileMessage,
+	);
+}
+
 // ---------------------------------------------------------------------------
 // handleSessionCommand
 // ---------------------------------------------------------------------------
@@ -378,6 +443,169 @@ export function handleConfigurationCommand(
 	);
 }
 
+// ---------------------------------------------------------------------------
+// handleRollbackCommand — .undo and .checkpoint
+// ---------------------------------------------------------------------------
+
+export function handleRollbackCommand(
+	command: "undo" | "checkpoint",
+	args: string,
+	params: {
+		getSessionId: () => string | null;
+		reloadSession: (id: string) => Promise<boolean>;
+		addVolatileMessage: (text: string, kind: "error" | "success" | "info") => void;
+		clearVolatileMessages: () => void;
+	},
+): void {
+	postDotCommand(
+		command,
+		args,
+		params.getSessionId(),
+		(res) => {
+			const showMessages = () => {
+				for (const msg of res.messages ?? []) {
+					params.addVolatileMessage(msg.text, msg.kind);
+				}
+			};
+			params.clearVolatileMessages();
+			// The server cut the conversation back — re-read it so the chat matches the database
+			if (res.truncated && res.sessionId) {
+				params.reloadSession(res.sessionId).then(showMessages);
+			} else {
+				showMessages();
+			}
+		},
+		params.addVolatileMessage,
+	);
+}
+
+// ---------------------------------------------------------------------------
+// handleForkCommand — continue in a copy of the session
+// ---------------------------------------------------------------------------
+
+export function handleForkCommand(
+	result: { turn: string },
+	params: {
+		getSessionId: () => string | null;
+		loadSession: (id: string) => Promise<boolean>;
+		setStagedSkills: React.Dispatch<React.SetStateAction<StagedSkill[]>>;
+		setView: React.Dispatch<React.SetStateAction<{ mode: ViewMode; lineLimit: number }>>;
+		addVolatileMessage: (text: string, kind: "error" | "success" | "info") => void;
+	},
+): void {
+	postDotCommand(
+		"fork",
+		result.turn,
+		params.getSessionId(),
+		(res) => {
+			if (!res.sessionId) return;
+			params.setStagedSkills([]);
+			params.setView((prev) => ({ ...prev, mode: "chat" }));
+			params.loadSession(res.sessionId).then((loaded) => {
+				if (!loaded) {
+					params.addVolatileMessage("Failed to load session", "error");
+					return;
+				}
+				for (const msg of res.messages ?? []) {
+					params.addVolatileMessage(msg.text, msg.kind);
+				}
+			});
+		},
+		params.addVolatileMessage,
+	);
+}
+
+// ---------------------------------------------------------------------------
+// handlePluginCommand — commands registered by server plugins
+// ---------------------------------------------------------------------------
+
+export function handlePluginCommand(
+	result: { name: string; args: string },
+	params: {
+		getSessionId: () => string | null;
+		addVolatileMessage: (text: string, kind: "error" | "success" | "info") => void;
+		clearVolatileMessages: () => void;
+	},
+): void {
+	postDotCommand(
+		result.name,
+		result.args,
+		params.getSessionId(),
+		(res) => {
+			params.clearVolatileMessages();
+			for (const msg of res.messages ?? []) {
+				params.addVolatileMessage(msg.text, msg.kind);
+			}
+		},
+		params.addVolatileMessage,
+	);
+}
+
+// ---------------------------------------------------------------------------
+// handleSearchCommand — jump to a .search hit
+// ---------------------------------------------------------------------------
+
+export function handleSearchCommand(
+	result: { sessionId: string; turn: number },
+	params: {
+		getSessionId: () => string | null;
+		loadSession: (id: string) => Promise<boolean>;
+		setStagedSkills: React.Dispatch<React.SetStateAction<StagedSkill[]>>;
+		setView: React.Dispatch<React.SetStateAction<{ mode: ViewMode; lineLimit: number }>>;
+		scrollToTurn: (turn: number) => void;
+		addVolatileMessage: (text: string, kind: "error" | "success" | "info") => void;
+	},
+): void {
+	if (!result.sessionId) {
+		params.addVolatileMessage("No matching message", "error");
+		return;
+	}
+
+	params.setView((prev) => ({ ...prev, mode: "chat" }));
+	if (result.sessionId === params.getSessionId()) {
+		params.scrollToTurn(result.turn);
+		return;
+	}
+	params.setStagedSkills([]);
+	params.loadSession(result.sessionId).then((loaded) => {
+		if (loaded) {
+			params.scrollToTurn(result.turn);
+		} else {
+			params.addVolatileMessage("Failed to load session", "error");
+		}
+	});
+}
+
+// ---------------------------------------------------------------------------
+// handleExportCommand — download the current session
+// ---------------------------------------------------------------------------
+
+const EXPORT_FORMATS = ["markdown", "json", "html"];
+
+export function handleExportCommand(
+	result: { format: string },
+	params: {
+		getSessionId: () => string | null;
+		addVolatileMessage: (text: string, kind: "error" | "success" | "info") => void;
+	},
+): void {
+	const sessionId = params.getSessionId();
+	if (!sessionId) {
+		params.addVolatileMessage("No session to export", "error");
+		return;
+	}
+	const format = result.format || "markdown";
+	if (!EXPORT_FORMATS.includes(format)) {
+		params.addVolatileMessage(`Unknown export format: ${format}`, "error");
+		return;
+	}
+	// The server sends Content-Disposition: attachment, so this downloads without leaving the page
+	const link = document.createElement("a");
+	link.href = `/bobai/session/${sessionId}/export?format=${format}`;
+	link.download = "";
+	link.click();
+}
+
 // ---------------------------------------------------------------------------
 // handleSessionShortcut
 // ---------------------------------------------------------------------------
@@ -449,6 +677,8 @@ export type DispatchDeps = {
 	// view
 	fetchContext: () => void;
 	fetchCompactedContext: () => void;
+	fetchUsage: () => void;
+	fetchMemories: () => void;
 	scrollToBottom: () => void;
 	// model / provider / title / limit / configuration
 	currentProvider: string | null;
@@ -457,8 +687,13 @@ export type DispatchDeps = {
 	setContextLimit: (cl: number | null) => void;
 	addVolatileMessage: (text: string, kind: "error" | "success" | "info") => void;
 	clearVolatileMessages: () => void;
-	// session
-	loadSession: (id: string) => void;
+	// session / search / fork
+	loadSession: (id: string) => Promise<boolean>;
+	scrollToTurn: (turn: number) => void;
+	// undo / checkpoint
+	reloadSession: (id: string) => Promise<boolean>;
+	// pin / unpin
+	setPins: (pins: PinSummary) => void;
 	// subagent
 	subagents: SubagentInfo[];
 	peekSubagentWithScroll: (sessionId: string) => void;
@@ -495,6 +730,8 @@ export function dispatchCommandResult(result: DotCommandResult, deps: DispatchDe
 					setView: deps.setView,
 					fetchContext: deps.fetchContext,
 					fetchCompactedContext: deps.fetchCompactedContext,
+					fetchUsage: deps.fetchUsage,
+					fetchMemories: deps.fetchMemories,
 					scrollToBottom: deps.scrollToBottom,
 				},
 			);
@@ -556,6 +793,27 @@ export function dispatchCommandResult(result: DotCommandResult, deps: DispatchDe
 				},
 			);
 			break;
+		case "policy":
+			handlePolicyCommand(
+				{ args: result.args },
+				{
+					getSessionId: deps.getSessionId,
+					setSessionId: deps.setSessionId,
+					addVolatileMessage: deps.addVolatileMessage,
+					clearVolatileMessages: deps.clearVolatileMessages,
+				},
+			);
+			break;
+		case "pin":
+		case "unpin":
+			handlePinCommand(result.command, result.args, {
+				getSessionId: deps.getSessionId,
+				setSessionId: deps.setSessionId,
+				setPins: deps.setPins,
+				addVolatileMessage: deps.addVolatileMessage,
+				clearVolatileMessages: deps.clearVolatileMessages,
+			});
+			break;
 		case "session":
 			handleSessionCommand(
 				{ action: result.action, sessionId: result.sessionId, title: result.title, owned: result.owned },
@@ -594,5 +852,55 @@ export function dispatchCommandResult(result: DotCommandResult, deps: DispatchDe
 				},
 			);
 			break;
+		case "undo":
+		case "checkpoint":
+			handleRollbackCommand(result.command, result.command === "undo" ? result.count : result.args, {
+				getSessionId: deps.getSessionId,
+				reloadSession: deps.reloadSession,
+				addVolatileMessage: deps.addVolatileMessage,
+				clearVolatileMessages: deps.clearVolatileMessages,
+			});
+			break;
+		case "fork":
+			handleForkCommand(
+				{ turn: result.turn },
+				{
+					getSessionId: deps.getSessionId,
+					loadSession: deps.loadSession,
+					setStagedSkills: deps.setStagedSkills,
+					setView: deps.setView,
+					addVolatileMessage: deps.addVolatileMessage,
+				},
+			);
+			break;
+		case "export":
+			handleExportCommand(
+				{ format: result.format },
+				{ getSessionId: deps.getSessionId, addVolatileMessage: deps.addVolatileMessage },
+			);
+			break;
+		case "search":
+			handleSearchCommand(
+				{ sessionId: result.sessionId, turn: result.turn },
+				{
+					getSessionId: deps.getSessionId,
+					loadSession: deps.loadSession,
+					setStagedSkills: deps.setStagedSkills,
+					setView: deps.setView,
+					scrollToTurn: deps.scrollToTurn,
+					addVolatileMessage: deps.addVolatileMessage,
+				},
+			);
+			break;
+		case "plugin":
+			handlePluginCommand(
+				{ name: result.name, args: result.args },
+				{
+					getSessionId: deps.getSessionId,
+					addVolatileMessage: deps.addVolatileMessage,
+					clearVolatileMessages: deps.clearVolatileMessages,
+				},
+			);
+			break;
 	}
 }
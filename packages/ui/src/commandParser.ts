@@ -19,7 +19,7 @@ export type ParsedSlashInput = {
 	matches: SkillInfo[];
 };
 
-export const VIEW_MODES = ["chat", "context", "compaction"] as const;
+export const VIEW_MODES = ["chat", "context", "compaction", "usage", "memories"] as const;
 export type ViewMode = (typeof VIEW_MODES)[number];
 
 // ---------------------------------------------------------------------------
@@ -30,23 +30,42 @@ export type DotCommandResult =
 	| { command: "new"; title: string }
 	| { command: "title"; text: string }
 	| { command: "limit"; value: string }
+	| { command: "policy"; args: string }
+	| { command: "pin"; args: string }
+	| { command: "unpin"; args: string }
 	| { command: "view"; arg: string }
 	| { command: "model"; args: string }
 	| { command: "provider"; args: string }
 	| { command: "session"; action: "load" | "delete" | "shortcut"; sessionId: string; title: string | null; owned: boolean }
 	| { command: "subagent"; sessionId: string; title: string }
-	| { command: "configuration"; args: string };
+	| { command: "configuration"; args: string }
+	| { command: "undo"; count: string }
+	| { command: "checkpoint"; args: string }
+	| { command: "search"; sessionId: string; turn: number }
+	| { command: "export"; format: string }
+	| { command: "fork"; turn: string }
+	| { command: "plugin"; name: string; args: string };
 
 export const ALL_DOT_COMMANDS: Record<string, DotCommand> = {
+	approve: { name: "approve", description: "Allow the pending tool call" },
+	checkpoint: { name: "checkpoint", description: "Roll back to before a turn" },
 	configuration: { name: "configuration", description: "Manage global and project configuration" },
+	deny: { name: "deny", description: "Reject the pending tool call" },
+	export: { name: "export", description: "Download the session as Markdown, JSON or HTML" },
+	fork: { name: "fork", description: "Continue in a new session from an earlier turn" },
 	limit: { name: "limit", description: "Set or clear context size limit" },
 	model: { name: "model", description: "Switch the AI model" },
 	new: { name: "new", description: "Start a new session" },
+	pin: { name: "pin", description: "Keep a tool result out of compaction" },
+	policy: { name: "policy", description: "Switch the compaction policy" },
 	provider: { name: "provider", description: "Switch the AI provider" },
+	search: { name: "search", description: "Search messages in all sessions" },
 	session: { name: "session", description: "Switch to another session" },
 	stop: { name: "stop", description: "Stop the current response" },
 	subagent: { name: "subagent", description: "View subagent sessions" },
 	title: { name: "title", description: "Set session title" },
+	undo: { name: "undo", description: "Undo the last turns and their file edits" },
+	unpin: { name: "unpin", description: "Let compaction reach pinned tool results again" },
 	view: { name: "view", description: "Switch view mode" },
 };
 
@@ -57,19 +76,35 @@ export const pick = (...keys: string[]): DotCommand[] =>
 	});
 
 export const FULL_DOT_COMMANDS = pick(
+	"checkpoint",
 	"configuration",
+	"export",
+	"fork",
 	"limit",
 	"model",
 	"new",
+	"pin",
+	"policy",
 	"provider",
+	"search",
 	"session",
 	"subagent",
 	"title",
+	"undo",
+	"unpin",
 	"view",
 );
-export const READ_ONLY_DOT_COMMANDS = pick("configuration", "new", "session", "subagent", "title", "view");
+/** Built-in commands plus commands registered by server plugins, sorted by name. */
+export function withPluginCommands(commands: DotCommand[], pluginCommands: DotCommand[]): DotCommand[] {
+	if (pluginCommands.length === 0) return commands;
+	const builtIn = new Set(commands.map((c) => c.name));
+	const extra = pluginCommands.filter((c) => !builtIn.has(c.name) && !Object.hasOwn(ALL_DOT_COMMANDS, c.name));
+	return [...commands, ...extra].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const READ_ONLY_DOT_COMMANDS = pick("configuration", "export", "new", "search", "session", "subagent", "title", "view");
 export const LOCKED_DOT_COMMANDS = pick("configuration", "new", "session");
-export const STREAMING_DOT_COMMANDS = pick("configuration", "stop", "subagent");
+export const STREAMING_DOT_COMMANDS = pick("approve", "configuration", "deny", "stop", "subagent");
 
 export function parseDotInput(text: string, activeDotCommands: DotCommand[]): ParsedDotInput | null {
 	if (!text.startsWith(".")) return null;
@@ -107,6 +142,15 @@ export function parseDotInput(text: string, activeDotCommands: DotCommand[]): Pa
 	return { mode: "select" as const, prefix: cmdPart, matches, args: "", command: undefined };
 }
 
+/**
+ * True when the input unambiguously names a command that runs on submit
+ * without a tree (`.stop`, `.approve`, `.deny`), typed in full or abbreviated.
+ */
+export function isImmediateDotCommand(parsed: ParsedDotInput | null, name: string): boolean {
+	if (parsed?.mode === "args") return parsed.command === name;
+	return parsed?.mode === "select" && parsed.matches.length === 1 && parsed.matches[0]?.name === name;
+}
+
 export function fuzzyMatchSkill(query: string, name: string): number | null {
 	return fuzzyMatch(query, name, SLASH_FUZZY_OPTIONS);
 }
@@ -25,6 +25,12 @@ export function createEventRouter() {
 				return { target: "parent", msg };
 			}
 
+			// Permission requests always go to parent — subagent tool calls are
+			// approved from the main prompt, whichever session is being viewed
+			if (msg.type === "permission_request") {
+				return { target: "parent", msg };
+			}
+
 			// Child events: has a truthy sessionId field
 			if ("sessionId" in msg && msg.sessionId) {
 				const sid = msg.sessionId as string;
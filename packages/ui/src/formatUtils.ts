@@ -1,4 +1,4 @@
-import type { MessagePart } from "./protocol";
+import type { FileDiff, MessagePart } from "./protocol";
 
 export type Panel =
 	| { type: "text"; content: string }
@@ -12,6 +12,10 @@ export type Panel =
 			hidden?: boolean;
 			summary?: string;
 			subagentSessionId?: string;
+			/** Ids of the tool calls merged into this panel after the first one. */
+			mergedIds?: string[];
+			/** Files the tool changed, rendered as diffs below the content. */
+			diffs?: FileDiff[];
 	  };
 
 export interface ContextMessage {
@@ -38,6 +42,24 @@ export interface CompactionStats {
 	messagesBefore: Record<string, number>;
 	messagesAfter: Record<string, number>;
 	toolReach?: ToolReachEntry[];
+	/** Compaction policy whose targets and tool constants produced the decisions. */
+	policy?: string;
+	/** Present when an LLM-written summary replaced the evicted span. */
+	summary?: CompactionSummaryStats;
+}
+
+export interface CompactionSummaryStats {
+	/** Conversation messages covered by the summary, counted from the start. */
+	coveredMessages: number;
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+	costDollars: number;
+}
+
+/** Header for the panel that stands in for the summarized span. */
+export function formatSummaryHeader(summary: CompactionSummaryStats): string {
+	return `summary of #1-#${summary.coveredMessages} | in: ${summary.inputTokens} | out: ${summary.outputTokens} | $${summary.costDollars.toFixed(4)}`;
 }
 
 export interface ToolReachEntry {
@@ -49,6 +71,31 @@ export interface ToolReachEntry {
 	evictionDistance: number;
 }
 
+/** Token and cost totals for a group of turns (GET /bobai/usage). */
+export interface UsageTotals {
+	turns: number;
+	inputTokens: number;
+	outputTokens: number;
+	cachedInputTokens: number;
+	cacheCreationInputTokens: number;
+	cacheHitRatio: number;
+	costDollars: number;
+}
+
+export interface UsageRow extends UsageTotals {
+	key: string;
+	label: string;
+}
+
+export interface UsageReport {
+	since: string | null;
+	total: UsageTotals;
+	byDay: UsageRow[];
+	byProvider: UsageRow[];
+	byModel: UsageRow[];
+	bySession: UsageRow[];
+}
+
 export interface CompactionDetail {
 	distance: number;
 	compactionFactor: number;
@@ -58,8 +105,12 @@ export interface CompactionDetail {
 	wasCompacted: boolean;
 	wasEvicted: boolean;
 	belowMinSavings?: boolean;
+	/** Pinned with `.pin`: kept verbatim whatever the factor. */
+	pinned?: boolean;
 	savedChars: number;
 	savedArgsChars: number;
+	/** Compaction policy that produced this decision. */
+	policy?: string;
 }
 
 export function formatToolHeader(
@@ -87,9 +138,14 @@ export function formatToolHeader(
 	if (detail.argsThreshold !== undefined) {
 		detailParts.push(`arguments=${detail.argsThreshold.toFixed(2)}`);
 	}
+	if (detail.policy) {
+		detailParts.push(`policy=${detail.policy}`);
+	}
 
 	// Action
-	if (detail.wasEvicted) {
+	if (detail.pinned) {
+		detailParts.push("pinned");
+	} else if (detail.wasEvicted) {
 		detailParts.push("evicted");
 	} else if (detail.wasCompacted || detail.savedArgsChars > 0) {
 		detailParts.push("compacted");
@@ -109,6 +165,40 @@ export function formatToolHeader(
 	return `${idParts.join(" | ")} | ${detailParts.join(" | ")}`;
 }
 
+/** A running tool's call with the output received so far, laid out like bash's final panel. */
+function formatLiveOutput(call: string, output: string): string {
+	return `${call}\n\n---\n\n\`\`\`\n${output.replace(/\n$/, "")}\n\`\`\``;
+}
+
+/**
+ * The call line of a tool panel whose diff is rendered separately: the
+ * formatted call of edit_file and apply_patch carries its own diff fence
+ * after a blank line, which the structured diff replaces.
+ */
+function formatDiffHeading(content: string): string {
+	const end = content.indexOf("\n\n");
+	return end === -1 ? content : content.slice(0, end);
+}
+
+/** A hunk header; an empty side starts at the line before, as in `diff -u`. */
+export function formatHunkHeader(hunk: FileDiff["hunks"][number]): string {
+	const oldStart = hunk.oldLines === 0 ? hunk.oldStart - 1 : hunk.oldStart;
+	const newStart = hunk.newLines === 0 ? hunk.newStart - 1 : hunk.newStart;
+	return `@@ -${oldStart},${hunk.oldLines} +${newStart},${hunk.newLines} @@`;
+}
+
+/** A file diff as unified diff text that `git apply` and `patch -p1` accept. */
+export function formatFileDiffPatch(diff: FileDiff): string {
+	const lines = [
+		`--- ${diff.status === "created" ? "/dev/null" : `a/${diff.path}`}`,
+		`+++ ${diff.status === "deleted" ? "/dev/null" : `b/${diff.path}`}`,
+	];
+	for (const hunk of diff.hunks) {
+		lines.push(formatHunkHeader(hunk), ...hunk.lines);
+	}
+	return `${lines.join("\n")}\n`;
+}
+
 export function groupParts(parts: MessagePart[]): Panel[] {
 	// Pass 1: Create panels for each part
 	const raw: Panel[] = [];
@@ -128,7 +218,7 @@ export function groupParts(parts: MessagePart[]): Panel[] {
 			const panel: Panel & { type: "tool" } = {
 				type: "tool",
 				id: part.id,
-				content: part.content,
+				content: part.liveOutput ? formatLiveOutput(part.content, part.liveOutput) : part.content,
 				completed: false,
 				mergeable: part.mergeable,
 			};
@@ -151,6 +241,10 @@ export function groupParts(parts: MessagePart[]): Panel[] {
 				if (part.subagentSessionId) {
 					panel.subagentSessionId = part.subagentSessionId;
 				}
+				if (part.diff && part.diff.length > 0) {
+					panel.content = formatDiffHeading(panel.content);
+					panel.diffs = part.diff;
+				}
 			}
 		}
 	}
@@ -170,6 +264,8 @@ export function groupParts(parts: MessagePart[]): Panel[] {
 			prev.mergeable
 		) {
 			prev.content = `${prev.content}  \n${panel.content}`;
+			prev.mergedIds = [...(prev.mergedIds ?? []), panel.id];
+			if (panel.diffs) prev.diffs = [...(prev.diffs ?? []), ...panel.diffs];
 		} else {
 			// Surviving panel — if hidden and complete, unhide it
 			if (panel.type === "tool" && panel.hidden && panel.completed) {
@@ -212,6 +308,7 @@ export function formatCompactionSummary(stats: CompactionStats): string {
 
 	// Section 1: Compaction parameters
 	sections.push("# Compaction parameters");
+	if (stats.policy) sections.push(`- policy: ${stats.policy}`);
 	sections.push(`- default max distance: ${stats.parameters.defaultMaxDistance}`);
 	sections.push("");
 
@@ -246,6 +343,15 @@ export function formatCompactionSummary(stats: CompactionStats): string {
 		sections.push(`| ${role} | ${before} | ${after} |`);
 	}
 
+	if (stats.summary) {
+		sections.push("");
+		sections.push("# Summarization");
+		sections.push(`- summarized messages: 1-${stats.summary.coveredMessages}`);
+		sections.push(`- model: ${stats.summary.model}`);
+		sections.push(`- tokens: ${stats.summary.inputTokens} in, ${stats.summary.outputTokens} out`);
+		sections.push(`- estimated cost: $${stats.summary.costDollars.toFixed(4)}`);
+	}
+
 	// Section 4: Compaction reach at current multiplier
 	if (stats.toolReach && stats.toolReach.length > 0) {
 		const maxDistance = (stats.messagesAfter.total ?? 0) - 1;
@@ -285,3 +391,41 @@ export function formatCompactionSummary(stats: CompactionStats): string {
 
 	return sections.join("\n");
 }
+
+function formatUsageCells(row: UsageTotals): string {
+	const cacheHit = row.inputTokens > 0 ? `${(row.cacheHitRatio * 100).toFixed(0)}%` : "—";
+	return `${row.turns} | ${row.inputTokens} | ${row.outputTokens} | ${row.cachedInputTokens} | ${row.cacheCreationInputTokens} | ${cacheHit} | $${row.costDollars.toFixed(2)}`;
+}
+
+export function formatUsageReport(report: UsageReport): string {
+	const sections: string[] = [];
+	const header = "| turns | in | out | cache read | cache write | cache hit | cost |";
+	const divider = "|---|---|---|---|---|---|---|---|";
+
+	sections.push("# Total");
+	sections.push("");
+	sections.push(`| ${header}`);
+	sections.push(divider);
+	sections.push(`| all | ${formatUsageCells(report.total)} |`);
+
+	const groups: [string, string, UsageRow[]][] = [
+		["By day", "day", report.byDay],
+		["By provider", "provider", report.byProvider],
+		["By model", "model", report.byModel],
+		["By session (subagents included)", "session", report.bySession],
+	];
+	for (const [title, column, rows] of groups) {
+		if (rows.length === 0) continue;
+		sections.push("");
+		sections.push(`# ${title}`);
+		sections.push("");
+		sections.push(`| ${column} ${header}`);
+		sections.push(divider);
+		for (const row of rows) {
+			// Session titles are user text; keep them from breaking the table
+			sections.push(`| ${row.label.replace(/\|/g, "\\|")} | ${formatUsageCells(row)} |`);
+		}
+	}
+
+	return sections.join("\n");
+}
@@ -61,6 +61,30 @@ export function useAutoScroll(
 		}
 	}, [autoScrollRef, exitSubagentPeek, setView]);
 
+	// Scroll a user turn (1-based, see data-turn in ChatMessageList) to the top
+	// of the view and mark it. Waits two frames so a just-loaded session is
+	// rendered first; turn 0 (before any prompt) scrolls to the top.
+	const scrollToTurn = useCallback(
+		(turn: number) => {
+			autoScrollRef.current = false;
+			requestAnimationFrame(() => {
+				requestAnimationFrame(() => {
+					const el = messagesRef.current;
+					if (!el) return;
+					for (const found of el.querySelectorAll(".panel--found")) found.classList.remove("panel--found");
+					const target = el.querySelector<HTMLElement>(`[data-turn="${turn}"]`);
+					if (!target) {
+						el.scrollTop = 0;
+						return;
+					}
+					target.scrollIntoView({ block: "start" });
+					target.classList.add("panel--found");
+				});
+			});
+		},
+		[autoScrollRef],
+	);
+
 	// Unified scroll listener: determine autoscroll based on position.
 	// Fires on every scroll event (mouse wheel, PageUp/Down, programmatic).
 	useEffect(() => {
@@ -89,6 +113,7 @@ export function useAutoScroll(
 	return {
 		messagesRef,
 		scrollToBottom,
+		scrollToTurn,
 		peekSubagentWithScroll,
 		peekSubagentFromDbWithScroll,
 		exitSubagentPeekWithScroll,
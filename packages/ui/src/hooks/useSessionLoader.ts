@@ -1,7 +1,7 @@
 import { useCallback } from "react";
 import type { createEventRouter } from "../eventRouter";
 import type { StoredMessage } from "../messageReconstruction";
-import type { Message, SubagentInfo } from "../protocol";
+import type { ForkOrigin, Message, SubagentInfo } from "../protocol";
 import { applyLoadedSessionState, createLockedSessionState } from "../sessionLoaderState";
 import { buildSessionUrl } from "../urlUtils";
 
@@ -14,6 +14,7 @@ interface UseSessionLoaderOptions {
 	setModel: React.Dispatch<React.SetStateAction<string | null>>;
 	setParentId: React.Dispatch<React.SetStateAction<string | null>>;
 	setParentTitle: React.Dispatch<React.SetStateAction<string | null>>;
+	setForkOrigin: React.Dispatch<React.SetStateAction<ForkOrigin | null>>;
 	setSubagents: React.Dispatch<React.SetStateAction<SubagentInfo[]>>;
 	setStatus: React.Dispatch<React.SetStateAction<string>>;
 	setContextLimit: React.Dispatch<React.SetStateAction<number | null>>;
@@ -38,6 +39,7 @@ export function useSessionLoader({
 	setModel,
 	setParentId,
 	setParentTitle,
+	setForkOrigin,
 	setSubagents,
 	setStatus,
 	setContextLimit,
@@ -53,7 +55,7 @@ export function useSessionLoader({
 	autoScrollRef,
 }: UseSessionLoaderOptions) {
 	const loadSession = useCallback(
-		async (targetId: string, options?: { skipUrlUpdate?: boolean }): Promise<boolean> => {
+		async (targetId: string, options?: { skipUrlUpdate?: boolean; skipOwnershipCheck?: boolean }): Promise<boolean> => {
 			setWelcomeMarkdown(null);
 			// Clear peek state
 			if (viewingSubagentIdRef.current) {
@@ -64,27 +66,30 @@ export function useSessionLoader({
 			eventRouter.current.clearAllBuffers();
 			setSessionLocked(false);
 
-			// Check ownership before loading to avoid flicker
-			try {
-				const ownershipRes = await fetch(`/bobai/session/${targetId}/ownership`);
-				if (ownershipRes.ok) {
-					const ownershipData = await ownershipRes.json();
-					if (ownershipData.owned) {
-						// Session is owned by another tab — go straight to locked state
-						const lockedState = createLockedSessionState(targetId);
-						sessionId.current = lockedState.sessionId;
-						setSessionLocked(lockedState.sessionLocked);
-						addVolatileMessage(lockedState.volatileMessage.text, lockedState.volatileMessage.kind);
-						setMessages(lockedState.messages);
-						if (!options?.skipUrlUpdate) {
-							history.pushState(null, "", buildSessionUrl(targetId));
+			// Check ownership before loading to avoid flicker. Reloading the session
+			// this tab already owns skips the check — it would report our own lock.
+			if (!options?.skipOwnershipCheck) {
+				try {
+					const ownershipRes = await fetch(`/bobai/session/${targetId}/ownership`);
+					if (ownershipRes.ok) {
+						const ownershipData = await ownershipRes.json();
+						if (ownershipData.owned) {
+							// Session is owned by another tab — go straight to locked state
+							const lockedState = createLockedSessionState(targetId);
+							sessionId.current = lockedState.sessionId;
+							setSessionLocked(lockedState.sessionLocked);
+							addVolatileMessage(lockedState.volatileMessage.text, lockedState.volatileMessage.kind);
+							setMessages(lockedState.messages);
+							if (!options?.skipUrlUpdate) {
+								history.pushState(null, "", buildSessionUrl(targetId));
+							}
+							sendSubscribe(targetId);
+							return true;
 						}
-						sendSubscribe(targetId);
-						return true;
 					}
+				} catch {
+					// Ownership check failed — proceed with normal load
 				}
-			} catch {
-				// Ownership check failed — proceed with normal load
 			}
 
 			try {
@@ -97,6 +102,8 @@ export function useSessionLoader({
 						provider: string | null;
 						model: string | null;
 						parentId: string | null;
+						forkedFrom?: string | null;
+						forkTurn?: number | null;
 						contextLimit: number | null;
 					};
 					messages: StoredMessage[];
@@ -133,6 +140,16 @@ export function useSessionLoader({
 				} else {
 					setParentTitle(null);
 				}
+
+				// Fetch the original session's title for the fork breadcrumb
+				const { forkedFrom, forkTurn } = data.session;
+				if (forkedFrom && forkTurn) {
+					const originRes = await fetch(`/bobai/session/${forkedFrom}/load`);
+					const originTitle = originRes.ok ? ((await originRes.json()).session.title as string | null) : null;
+					setForkOrigin({ sessionId: forkedFrom, title: originTitle, turn: forkTurn });
+				} else {
+					setForkOrigin(null);
+				}
 				return true;
 			} catch {
 				return false;
@@ -148,6 +165,7 @@ export function useSessionLoader({
 			setModel,
 			setParentId,
 			setParentTitle,
+			setForkOrigin,
 			setSubagents,
 			setStatus,
 			setContextLimit,
@@ -10,6 +10,21 @@ export function appendPart(prev: Message[], part: MessagePart): Message[] {
 	return [...prev, { role: "assistant", parts: [part] }];
 }
 
+/** Live output kept per running tool; older output is dropped from the front. */
+export const LIVE_OUTPUT_MAX_CHARS = 16_000;
+
+/** Append live output to the running tool call `id` in the last assistant message. */
+export function appendToolOutput(prev: Message[], id: string, text: string): Message[] {
+	const last = prev.at(-1);
+	if (last?.role !== "assistant") return prev;
+	const index = last.parts.findLastIndex((p) => p.type === "tool_call" && p.id === id);
+	const part = last.parts[index];
+	if (part?.type !== "tool_call") return prev;
+	const liveOutput = `${part.liveOutput ?? ""}${text}`.slice(-LIVE_OUTPUT_MAX_CHARS);
+	const updatedParts = [...last.parts.slice(0, index), { ...part, liveOutput }, ...last.parts.slice(index + 1)];
+	return [...prev.slice(0, -1), { ...last, parts: updatedParts }];
+}
+
 /** Append text to the last text part of the last assistant message, or create one. */
 export function appendText(prev: Message[], text: string): Message[] {
 	const last = prev.at(-1);
@@ -1,5 +1,5 @@
 import { formatStoredTimestamp } from "./format";
-import type { Message, MessagePart } from "./protocol";
+import type { FileDiff, Message, MessagePart } from "./protocol";
 
 export interface StoredMessage {
 	id: string;
@@ -133,6 +133,7 @@ export function reconstructMessages(stored: StoredMessage[]): Message[] {
 				const mergeable = msg.metadata?.mergeable !== undefined ? (msg.metadata.mergeable as boolean) : true;
 				const summary = msg.metadata?.tool_summary as string | undefined;
 				const subagentSessionId = msg.metadata?.subagent_session_id as string | undefined;
+				const diff = msg.metadata?.diff as FileDiff[] | undefined;
 				currentAssistant.parts.push({
 					type: "tool_result",
 					id: toolCallId,
@@ -140,6 +141,7 @@ export function reconstructMessages(stored: StoredMessage[]): Message[] {
 					mergeable,
 					...(summary ? { summary } : {}),
 					...(subagentSessionId ? { subagentSessionId } : {}),
+					...(diff ? { diff } : {}),
 				});
 			}
 		}
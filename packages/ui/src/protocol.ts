@@ -4,18 +4,32 @@ export type ServerMessage =
 	| { type: "reasoning_token"; text: string; sessionId?: string }
 	| { type: "reasoning_end"; sessionId?: string }
 	| { type: "tool_call"; id: string; output: string; mergeable: boolean; sessionId?: string }
-	| { type: "tool_result"; id: string; output: string | null; mergeable: boolean; summary?: string; sessionId?: string }
+	| {
+			type: "tool_result";
+			id: string;
+			output: string | null;
+			mergeable: boolean;
+			summary?: string;
+			diff?: FileDiff[];
+			sessionId?: string;
+	  }
+	| { type: "tool_output"; id: string; output: string; sessionId?: string }
 	| { type: "prompt_echo"; text: string; sessionId?: string }
 	| { type: "done"; sessionId: string; provider?: string; model: string; title?: string | null; summary?: string }
 	| { type: "error"; message: string; sessionId?: string }
+	| { type: "warning"; message: string }
 	| { type: "status"; text: string; sessionId?: string }
 	| { type: "session_created"; sessionId: string }
 	| { type: "session_subscribed"; sessionId: string }
 	| { type: "session_locked"; sessionId: string }
 	| { type: "subagent_start"; sessionId: string; title: string; toolCallId: string }
 	| { type: "subagent_done"; sessionId: string; model: string; summary?: string }
+	| { type: "permission_request"; id: string; toolCallId: string; tool: string; detail: string; sessionId: string }
+	| { type: "processes"; sessionId: string; processes: BackgroundProcessStatus[] }
 	| { type: "db_disconnected" };
 
+export type PermissionRequest = Extract<ServerMessage, { type: "permission_request" }>;
+
 export type RouteResult =
 	| { target: "parent"; msg: ServerMessage }
 	| { target: "child"; sessionId: string }
@@ -28,9 +42,96 @@ export type SubagentInfo = {
 	toolCallId: string;
 };
 
+/** The session a `.fork` copied its turns from, shown in the status bar. */
+export type ForkOrigin = {
+	sessionId: string;
+	title: string | null;
+	turn: number;
+};
+
 export type ProjectInfo = {
 	dir: string;
 	git?: { branch: string; revision: string };
+	/** Present when the `sandbox` section of bobai.json enables the shell sandbox. */
+	sandbox?: SandboxStatus;
+};
+
+/** How shell commands are sandboxed; "unavailable" when enabled but bubblewrap is missing. */
+export type SandboxStatus = {
+	mode: "bubblewrap" | "unavailable";
+	network: boolean;
+	writable: string[];
+};
+
+/** One hunk of a unified diff; each line starts with " ", "+", "-" or "\" (no newline at end of file). */
+export type DiffHunk = {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	lines: string[];
+};
+
+/** What write_file, edit_file or apply_patch changed in one file. */
+export type FileDiff = {
+	path: string;
+	status: "modified" | "created" | "deleted";
+	added: number;
+	removed: number;
+	hunks: DiffHunk[];
+	/** The last hunks were dropped to keep the message small; `added` and `removed` still count them. */
+	truncated?: boolean;
+};
+
+/** Connection state of one configured MCP server (GET /bobai/mcp). */
+export type McpServerStatus = {
+	name: string;
+	transport: "stdio" | "http" | "sse";
+	state: "connecting" | "connected" | "error";
+	toolCount: number;
+	error?: string;
+};
+
+/** A background process started with the `process` tool (sent in "processes" messages). */
+export type BackgroundProcessStatus = {
+	name: string;
+	command: string;
+	state: "running" | "exited" | "killed";
+	pid: number;
+	exitCode: number | null;
+	startedAt: string;
+};
+
+export const MEMORY_TYPES = ["user", "feedback", "project", "reference"] as const;
+export type MemoryType = (typeof MEMORY_TYPES)[number];
+
+/** A project memory as listed in the Memories view (GET /bobai/memories). */
+export type MemoryEntry = {
+	id: string;
+	type: MemoryType;
+	title: string;
+	description: string | null;
+	content: string;
+	sessionId: string | null;
+	createdAt: string;
+	updatedAt: string;
+	/** "global" memories live in ~/.config/bobai/memory.db and apply to every project. */
+	scope: "project" | "global";
+	/** Whether the memory is in the bounded index injected into the system prompt. */
+	indexed: boolean;
+};
+
+export type MemoryListing = {
+	memories: MemoryEntry[];
+	index: { shown: number; total: number; maxEntries: number; maxBytes: number };
+};
+
+/** The session's pinned tool results and what they cost (GET /bobai/session/:id/pins). */
+export type PinSummary = {
+	toolCallIds: string[];
+	chars: number;
+	/** Estimated at the session's measured chars-per-token ratio. */
+	tokens: number;
 };
 
 export type StagedSkill = { name: string; content: string };
@@ -40,7 +141,14 @@ export type VolatileMessage = { text: string; kind: "error" | "success" | "info"
 export type MessagePart =
 	| { type: "text"; content: string }
 	| { type: "reasoning"; content: string }
-	| { type: "tool_call"; id: string; content: string; mergeable: boolean }
+	| {
+			type: "tool_call";
+			id: string;
+			content: string;
+			mergeable: boolean;
+			/** Output received while the tool runs; replaced by the tool_result once it finishes. */
+			liveOutput?: string;
+	  }
 	| {
 			type: "tool_result";
 			id: string;
@@ -48,6 +156,7 @@ export type MessagePart =
 			mergeable: boolean;
 			summary?: string;
 			subagentSessionId?: string;
+			diff?: FileDiff[];
 	  };
 
 export type Message =
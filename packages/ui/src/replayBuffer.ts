@@ -1,6 +1,6 @@
 import { formatTimestamp } from "./format";
-import { appendPart, appendReasoning, appendText, startReasoning } from "./messageBuilder";
-import type { Message } from "./protocol";
+import { appendPart, appendReasoning, appendText, appendToolOutput, startReasoning } from "./messageBuilder";
+import type { FileDiff, Message } from "./protocol";
 
 type BufferedEvent = { type: string; [key: string]: unknown };
 
@@ -29,6 +29,8 @@ export function replayBufferToMessages(events: BufferedEvent[]): Message[] {
 				content: event.output as string,
 				mergeable: (event.mergeable as boolean) ?? false,
 			});
+		} else if (event.type === "tool_output") {
+			messages = appendToolOutput(messages, event.id as string, event.output as string);
 		} else if (event.type === "tool_result") {
 			messages = appendPart(messages, {
 				type: "tool_result",
@@ -36,6 +38,7 @@ export function replayBufferToMessages(events: BufferedEvent[]): Message[] {
 				content: event.output as string,
 				mergeable: event.mergeable as boolean,
 				summary: event.summary as string | undefined,
+				...(event.diff ? { diff: event.diff as FileDiff[] } : {}),
 			});
 		}
 		// All other event types (status, error, done, etc.) are not message-producing — skip
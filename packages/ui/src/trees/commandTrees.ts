@@ -4,6 +4,7 @@ import { fuzzyFilterAndSort } from "../fuzzySearch";
 
 export type ModelListItem = { index: number; id: string; cost: string; contextWindow: number };
 export type ProviderListItem = { index: number; id: string; runtimeSupported: boolean };
+export type PolicyListItem = { index: number; name: string; description: string; current: boolean };
 
 function formatContextWindow(cw: number): string {
 	return `${Math.round(cw / 1000)}k`;
@@ -34,6 +35,20 @@ export const viewTree: DotTreeNode = {
 					commitValue: "3",
 					kind: "action" as const,
 				},
+				{
+					id: "view.4",
+					label: "4: Usage",
+					description: "Spend and tokens across sessions",
+					commitValue: "4",
+					kind: "action" as const,
+				},
+				{
+					id: "view.5",
+					label: "5: Memories",
+					description: "Browse, edit and delete project memories",
+					commitValue: "5",
+					kind: "action" as const,
+				},
 			],
 			f,
 		),
@@ -43,6 +58,41 @@ export const viewTree: DotTreeNode = {
 	},
 };
 
+// ── export ──────────────────────────────────────────────────────────────────
+
+export const exportTree: DotTreeNode = {
+	id: "export",
+	label: "export",
+	description: "Download the session",
+	kind: "menu",
+	// Match by index ("2") or by format name ("json")
+	children: (f: string) =>
+		[
+			{
+				id: "export.1",
+				label: "1: Markdown",
+				description: "Readable transcript",
+				commitValue: "markdown",
+				kind: "action" as const,
+			},
+			{
+				id: "export.2",
+				label: "2: JSON",
+				description: "Lossless, with subagents — can be imported",
+				commitValue: "json",
+				kind: "action" as const,
+			},
+			{
+				id: "export.3",
+				label: "3: HTML",
+				description: "Static page laid out like the Chat view",
+				commitValue: "html",
+				kind: "action" as const,
+			},
+		].filter((n) => !f || n.label.startsWith(f) || n.commitValue.startsWith(f.toLowerCase())),
+	extract: (state) => ({ command: "export" as const, format: resolvedCommitPath(state)[0] ?? "" }),
+};
+
 // ── new / title / limit ─────────────────────────────────────────────────────
 
 export const newTree: DotTreeNode = {
@@ -83,6 +133,56 @@ export function createLimitTree(currentLimit: number | null): DotTreeNode {
 	};
 }
 
+/** Text node for a command registered by a server plugin; the typed text is passed as its args. */
+export function createPluginCommandTree(command: { name: string; description: string }): DotTreeNode {
+	return {
+		id: command.name,
+		label: command.name,
+		description: command.description,
+		kind: "text",
+		extract: (state) => ({
+			command: "plugin" as const,
+			name: command.name,
+			args: state.value,
+		}),
+	};
+}
+
+export const undoTree: DotTreeNode = {
+	id: "undo",
+	label: "undo",
+	description: "Number of turns to undo (default 1)",
+	kind: "text",
+	extract: (state) => ({
+		command: "undo" as const,
+		count: state.value,
+	}),
+};
+
+// ── pin / unpin ─────────────────────────────────────────────────────────────
+
+export const pinTree: DotTreeNode = {
+	id: "pin",
+	label: "pin",
+	description: 'File path or "last" (empty lists the pins)',
+	kind: "text",
+	extract: (state) => ({
+		command: "pin" as const,
+		args: state.value,
+	}),
+};
+
+export const unpinTree: DotTreeNode = {
+	id: "unpin",
+	label: "unpin",
+	description: 'File path or "last" (empty unpins all)',
+	kind: "text",
+	extract: (state) => ({
+		command: "unpin" as const,
+		args: state.value,
+	}),
+};
+
 // ── model ───────────────────────────────────────────────────────────────────
 
 export function createModelTree(modelList: ModelListItem[] | null): DotTreeNode {
@@ -151,6 +251,38 @@ export function createProviderTree(providerList: ProviderListItem[] | null): Dot
 	};
 }
 
+// ── policy ──────────────────────────────────────────────────────────────────
+
+export function createPolicyTree(policyList: PolicyListItem[] | null): DotTreeNode {
+	return {
+		id: "policy",
+		label: "policy",
+		description: "Switch the compaction policy",
+		kind: "menu",
+		children: (f: string) => {
+			if (!policyList) return [{ id: "policy.loading", label: "Loading policies...", kind: "action" as const }];
+			const filtered = filterList(
+				policyList,
+				f,
+				(p) => p.name,
+				(p) => p.index,
+			);
+			if (filtered.length === 0) return [{ id: "policy.none", label: "No matching policies", kind: "action" as const }];
+			return filtered.map((p) => ({
+				id: `policy.${p.index}`,
+				label: `${p.index}: ${p.name}${p.current ? " (current)" : ""}`,
+				description: p.description,
+				commitValue: String(p.index),
+				kind: "action" as const,
+			}));
+		},
+		extract: (state) => {
+			const path = resolvedCommitPath(state);
+			return { command: "policy" as const, args: path.join(" ") };
+		},
+	};
+}
+
 // ── session ─────────────────────────────────────────────────────────────────
 
 interface SessionItem {
@@ -309,6 +441,175 @@ export function createSubagentTree(subagents: SubagentItem[] | null): DotTreeNod
 	};
 }
 
+// ── checkpoint ──────────────────────────────────────────────────────────────
+
+export type CheckpointItem = { index: number; text: string; createdAt: string; files: string[] };
+
+/**
+ * Children callback for an individual checkpoint node.
+ * Offers "Files only" — roll back the workspace but keep the conversation —
+ * under the same exact-match rule as session delete.
+ */
+function checkpointFilesChildren(checkpointIndex: number, filter: string): DotTreeNode[] {
+	const filesNode: DotTreeNode = {
+		id: `checkpoint.${checkpointIndex}.files`,
+		label: "Files only",
+		description: "Restore files, keep the conversation",
+		commitValue: "files",
+		kind: "action" as const,
+	};
+	if (!filter || filter === "files") return [filesNode];
+	return [];
+}
+
+export function createCheckpointTree(checkpoints: CheckpointItem[] | null): DotTreeNode {
+	return {
+		id: "checkpoint",
+		label: "checkpoint",
+		description: "Roll back to before a turn",
+		kind: "menu",
+		children: (f: string) => {
+			if (!checkpoints) return [{ id: "checkpoint.loading", label: "Loading checkpoints...", kind: "action" as const }];
+			if (checkpoints.length === 0) return [{ id: "checkpoint.empty", label: "No turns yet", kind: "action" as const }];
+			const filtered = filterList(
+				checkpoints,
+				f,
+				(c) => c.text,
+				(c) => c.index,
+			);
+			if (filtered.length === 0) return [{ id: "checkpoint.none", label: "No matching turns", kind: "action" as const }];
+			const padWidth = String(Math.max(...filtered.map((c) => c.index))).length;
+			return filtered.map((c) => {
+				const localTime = new Date(c.createdAt)
+					.toLocaleTimeString("sv-SE", { hour: "2-digit", minute: "2-digit", second: "2-digit", hour12: false })
+					.replace(",", "");
+				const prompt = c.text.split("\n")[0] ?? "";
+				const files = c.files.length === 1 ? "1 file" : `${c.files.length} files`;
+				return {
+					id: `checkpoint.${c.index}`,
+					label: `${c.index}: ${prompt}`,
+					description: `${localTime} (${files})`,
+					segments: [
+						{ text: `${String(c.index).padStart(padWidth, " ")}: ` },
+						{ text: localTime, muted: true },
+						{ text: " — " },
+						{ text: prompt },
+						{ text: ` (${files})`, muted: true },
+					],
+					commitValue: String(c.index),
+					kind: "menu" as const,
+					children: (childFilter: string) => checkpointFilesChildren(c.index, childFilter),
+				};
+			});
+		},
+		extract: (state) => ({
+			command: "checkpoint" as const,
+			args: resolvedCommitPath(state).join(" "),
+		}),
+	};
+}
+
+// ── fork ────────────────────────────────────────────────────────────────────
+
+/** Turn picker for `.fork`: the fork keeps the chosen turn and every turn before it. */
+export function createForkTree(checkpoints: CheckpointItem[] | null): DotTreeNode {
+	return {
+		id: "fork",
+		label: "fork",
+		description: "Continue in a new session from an earlier turn",
+		kind: "menu",
+		children: (f: string) => {
+			if (!checkpoints) return [{ id: "fork.loading", label: "Loading turns...", kind: "action" as const }];
+			if (checkpoints.length === 0) return [{ id: "fork.empty", label: "No turns yet", kind: "action" as const }];
+			const filtered = filterList(
+				checkpoints,
+				f,
+				(c) => c.text,
+				(c) => c.index,
+			);
+			if (filtered.length === 0) return [{ id: "fork.none", label: "No matching turns", kind: "action" as const }];
+			const padWidth = String(Math.max(...filtered.map((c) => c.index))).length;
+			return filtered.map((c) => {
+				const prompt = c.text.split("\n")[0] ?? "";
+				const range = c.index === 1 ? "keep turn 1" : `keep turns 1–${c.index}`;
+				return {
+					id: `fork.${c.index}`,
+					label: `${c.index}: ${prompt}`,
+					description: range,
+					segments: [
+						{ text: `${String(c.index).padStart(padWidth, " ")}: ` },
+						{ text: prompt },
+						{ text: ` (${range})`, muted: true },
+					],
+					commitValue: String(c.index),
+					kind: "action" as const,
+				};
+			});
+		},
+		extract: (state) => ({
+			command: "fork" as const,
+			turn: resolvedCommitPath(state)[0] ?? "",
+		}),
+	};
+}
+
+// ── search ──────────────────────────────────────────────────────────────────
+
+export type SearchResultItem = {
+	messageId: string;
+	sessionId: string;
+	sessionTitle: string | null;
+	parentId: string | null;
+	role: "user" | "assistant" | "tool";
+	turn: number;
+	snippet: string;
+	createdAt: string;
+};
+
+/**
+ * Results come ranked from the server for the whole query, so children ignore
+ * the filter. Enter jumps to the best match; clicking a row commits its index.
+ */
+export function createSearchTree(results: SearchResultItem[] | null): DotTreeNode {
+	return {
+		id: "search",
+		label: "search",
+		description: "Search messages in all sessions",
+		kind: "menu",
+		children: (f: string) => {
+			if (!results) {
+				if (!f) return [{ id: "search.hint", label: "Type to search all sessions", kind: "action" as const }];
+				return [{ id: "search.loading", label: "Searching...", kind: "action" as const }];
+			}
+			if (results.length === 0) return [{ id: "search.none", label: "No matching messages", kind: "action" as const }];
+			const padWidth = String(results.length).length;
+			return results.map((r, i) => {
+				const index = i + 1;
+				const title = r.sessionTitle || "untitled";
+				const where = `${title}${r.parentId ? " (subagent)" : ""} · turn ${r.turn} · ${r.role}`;
+				return {
+					id: `search.${index}`,
+					label: `${index}: ${r.snippet}`,
+					description: where,
+					segments: [
+						{ text: `${String(index).padStart(padWidth, " ")}: ` },
+						{ text: where, muted: true },
+						{ text: " — " },
+						{ text: r.snippet },
+					],
+					commitValue: String(index),
+					kind: "action" as const,
+				};
+			});
+		},
+		extract: (state) => {
+			const first = resolvedCommitPath(state)[0];
+			const hit = results?.[Number(first) - 1] ?? (state.visible.length > 0 ? results?.[0] : undefined);
+			return { command: "search" as const, sessionId: hit?.sessionId ?? "", turn: hit?.turn ?? 0 };
+		},
+	};
+}
+
 // ── helpers ─────────────────────────────────────────────────────────────────
 
 function pf(items: DotTreeNode[], filter: string): DotTreeNode[] {
@@ -1,9 +1,21 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import type { DotCommand } from "./commandParser";
 import { createEventRouter } from "./eventRouter";
 import { formatTimestamp } from "./format";
 import { useSessionLoader } from "./hooks/useSessionLoader";
 import { useSubagentPeek } from "./hooks/useSubagentPeek";
-import type { Message, ProjectInfo, ServerMessage, StagedSkill, SubagentInfo, VolatileMessage } from "./protocol";
+import type {
+	BackgroundProcessStatus,
+	ForkOrigin,
+	McpServerStatus,
+	Message,
+	PermissionRequest,
+	ProjectInfo,
+	ServerMessage,
+	StagedSkill,
+	SubagentInfo,
+	VolatileMessage,
+} from "./protocol";
 import { buildSessionUrl } from "./urlUtils";
 import { applyStreamingEvent, applySubagentLifecycle, stampStreamingCompletion } from "./websocketEventState";
 
@@ -30,10 +42,15 @@ export function useWebSocket() {
 	const [subagents, setSubagents] = useState<SubagentInfo[]>([]);
 	const [parentId, setParentId] = useState<string | null>(null);
 	const [parentTitle, setParentTitle] = useState<string | null>(null);
+	const [forkOrigin, setForkOrigin] = useState<ForkOrigin | null>(null);
 	const [projectInfo, setProjectInfo] = useState<ProjectInfo | null>(null);
+	const [mcpServers, setMcpServers] = useState<McpServerStatus[]>([]);
+	const [processes, setProcesses] = useState<BackgroundProcessStatus[]>([]);
+	const [pluginCommands, setPluginCommands] = useState<DotCommand[]>([]);
 	const [volatileMessages, setVolatileMessages] = useState<VolatileMessage[]>([]);
 	const [sessionLocked, setSessionLocked] = useState(false);
 	const [welcomeMarkdown, setWelcomeMarkdown] = useState<string | null>(null);
+	const [permissionRequests, setPermissionRequests] = useState<PermissionRequest[]>([]);
 	const sessionId = useRef<string | null>(null);
 	const dbDisconnected = useRef(false);
 	const addVolatileMessage = useCallback((text: string, kind: VolatileMessage["kind"]) => {
@@ -71,6 +88,19 @@ export function useWebSocket() {
 				if (data) setProjectInfo(data);
 			})
 			.catch(() => {});
+		// MCP servers connect in the background — refresh their state alongside project info
+		fetch("/bobai/mcp")
+			.then((res) => (res.ok ? res.json() : null))
+			.then((data) => {
+				if (Array.isArray(data)) setMcpServers(data);
+			})
+			.catch(() => {});
+		fetch("/bobai/plugins")
+			.then((res) => (res.ok ? res.json() : null))
+			.then((data) => {
+				if (Array.isArray(data?.commands)) setPluginCommands(data.commands);
+			})
+			.catch(() => {});
 	}, []);
 
 	const sendSubscribe = useCallback((sid: string) => {
@@ -105,6 +135,7 @@ export function useWebSocket() {
 
 			if (msg.type === "session_locked") {
 				setSessionLocked(true);
+				setProcesses([]);
 				addVolatileMessage(SESSION_LOCKED_MESSAGE, "error");
 				return;
 			}
@@ -115,6 +146,12 @@ export function useWebSocket() {
 				return;
 			}
 
+			// Carries a sessionId but is not a subagent event — the list of the session this tab owns
+			if (msg.type === "processes") {
+				if (msg.sessionId === sessionId.current) setProcesses(msg.processes);
+				return;
+			}
+
 			if (msg.type === "db_disconnected") {
 				dbDisconnected.current = true;
 				addVolatileMessage(
@@ -125,6 +162,11 @@ export function useWebSocket() {
 				return;
 			}
 
+			if (msg.type === "warning") {
+				addVolatileMessage(msg.message, "info");
+				return;
+			}
+
 			// Route through event router
 			const result = eventRouter.current.route(msg);
 
@@ -152,6 +194,11 @@ export function useWebSocket() {
 			// result.target === "parent" — handle streaming events, done, error, status
 			const isPeeking = viewingSubagentIdRef.current !== null;
 
+			if (msg.type === "permission_request") {
+				setPermissionRequests((prev) => [...prev, msg]);
+				return;
+			}
+
 			if (
 				msg.type === "token" ||
 				msg.type === "reasoning_start" ||
@@ -159,6 +206,7 @@ export function useWebSocket() {
 				msg.type === "reasoning_end" ||
 				msg.type === "tool_call" ||
 				msg.type === "tool_result" ||
+				msg.type === "tool_output" ||
 				msg.type === "error" ||
 				msg.type === "prompt_echo"
 			) {
@@ -182,6 +230,7 @@ export function useWebSocket() {
 					setMessages((prev) => stampStreamingCompletion(prev, msg, formatTimestamp()));
 				}
 				setIsStreaming(false);
+				setPermissionRequests([]);
 				fetchProjectInfo();
 			}
 
@@ -195,6 +244,7 @@ export function useWebSocket() {
 
 			if (msg.type === "error") {
 				setIsStreaming(false);
+				setPermissionRequests([]);
 			}
 		};
 
@@ -268,6 +318,20 @@ export function useWebSocket() {
 		ws.current.send(JSON.stringify({ type: "cancel" }));
 	}, [isStreaming]);
 
+	// Answer the oldest pending permission request; the server resumes that tool call
+	const respondPermission = useCallback(
+		(approved: boolean) => {
+			const pending = permissionRequests[0];
+			if (!pending) return false;
+			setPermissionRequests((prev) => prev.filter((r) => r.id !== pending.id));
+			if (ws.current && ws.current.readyState === WebSocket.OPEN) {
+				ws.current.send(JSON.stringify({ type: "permission_response", id: pending.id, approved }));
+			}
+			return true;
+		},
+		[permissionRequests],
+	);
+
 	const newChat = useCallback(() => {
 		// Clear peek state
 		if (viewingSubagentIdRef.current) {
@@ -288,8 +352,11 @@ export function useWebSocket() {
 		setSubagents([]);
 		setParentId(null);
 		setParentTitle(null);
+		setForkOrigin(null);
 		clearVolatileMessages();
 		setSessionLocked(false);
+		setPermissionRequests([]);
+		setProcesses([]);
 		history.pushState(null, "", "/bobai");
 	}, [
 		sendUnsubscribe,
@@ -309,6 +376,7 @@ export function useWebSocket() {
 		setModel,
 		setParentId,
 		setParentTitle,
+		setForkOrigin,
 		setSubagents,
 		setStatus,
 		setContextLimit,
@@ -324,12 +392,20 @@ export function useWebSocket() {
 		autoScrollRef,
 	});
 
+	// Re-read the current session after the server rewrote its history (.undo / .checkpoint)
+	const reloadSession = useCallback(
+		(id: string) => loadSession(id, { skipUrlUpdate: true, skipOwnershipCheck: true }),
+		[loadSession],
+	);
+
 	return {
 		messages,
 		connected,
 		isStreaming,
 		sendPrompt,
 		sendCancel,
+		permissionRequests,
+		respondPermission,
 		newChat,
 		provider,
 		setProvider,
@@ -344,8 +420,13 @@ export function useWebSocket() {
 		subagents,
 		parentId,
 		parentTitle,
+		forkOrigin,
 		projectInfo,
+		mcpServers,
+		processes,
+		pluginCommands,
 		loadSession,
+		reloadSession,
 		getSessionId: () => sessionId.current,
 		setSessionId: (id: string) => {
 			const shouldSubscribe = shouldSubscribeToSession(sessionId.current, id);
@@ -1,4 +1,4 @@
-import { appendPart, appendReasoning, appendText, startReasoning } from "./messageBuilder";
+import { appendPart, appendReasoning, appendText, appendToolOutput, startReasoning } from "./messageBuilder";
 import type { Message, MessagePart, ServerMessage, SubagentInfo } from "./protocol";
 
 function isStreamingMessage(msg: ServerMessage): msg is Extract<
@@ -12,6 +12,7 @@ function isStreamingMessage(msg: ServerMessage): msg is Extract<
 			| "reasoning_end"
 			| "tool_call"
 			| "tool_result"
+			| "tool_output"
 			| "error";
 	}
 > {
@@ -23,6 +24,7 @@ function isStreamingMessage(msg: ServerMessage): msg is Extract<
 		msg.type === "reasoning_end" ||
 		msg.type === "tool_call" ||
 		msg.type === "tool_result" ||
+		msg.type === "tool_output" ||
 		msg.type === "error"
 	);
 }
@@ -80,6 +82,10 @@ export function applyStreamingEvent(messages: Message[], msg: ServerMessage, now
 		return appendPart(messages, part);
 	}
 
+	if (msg.type === "tool_output") {
+		return appendToolOutput(messages, msg.id, msg.output);
+	}
+
 	if (msg.type === "tool_result") {
 		const part: MessagePart = {
 			type: "tool_result",
@@ -87,6 +93,7 @@ export function applyStreamingEvent(messages: Message[], msg: ServerMessage, now
 			content: msg.output,
 			mergeable: msg.mergeable,
 			summary: msg.summary,
+			...(msg.diff ? { diff: msg.diff } : {}),
 		};
 		return appendPart(messages, part);
 	}
@@ -13,7 +13,16 @@ mock.module("../src/Markdown", () => ({
 // getComputedStyle — simplify to a wrapper div for unit-testing ChatMessageList.
 mock.module("../src/ToolPanel", () => ({
 	COLLAPSE_LINES: 6,
-	ToolPanel: ({ children }: { children: React.ReactNode }) => <div className="panel panel--tool">{children}</div>,
+	ToolPanel: ({ children, pinned, onTogglePin }: { children: React.ReactNode; pinned?: boolean; onTogglePin?: () => void }) => (
+		<div className="panel panel--tool">
+			{onTogglePin && (
+				<button type="button" className="panel-pin" aria-pressed={pinned} onClick={onTogglePin}>
+					pin
+				</button>
+			)}
+			{children}
+		</div>
+	),
 }));
 
 // Import AFTER mocks are registered
@@ -53,6 +62,13 @@ describe("ChatMessageList", () => {
 		expect(container.innerHTML).toBe("");
 	});
 
+	test("user messages are numbered by turn for .search jumps", () => {
+		const messages = [mkUserMsg("first"), mkAssistantMsg([{ type: "text", content: "reply" }]), mkUserMsg("second")];
+		const { container } = render(<ChatMessageList messages={messages} {...defaultProps} />);
+		const turns = [...container.querySelectorAll(".panel--user")].map((el) => el.getAttribute("data-turn"));
+		expect(turns).toEqual(["1", "2"]);
+	});
+
 	test("user message renders with text and timestamp", () => {
 		const { container } = render(<ChatMessageList messages={[mkUserMsg("Hello!", "14:30:00")]} {...defaultProps} />);
 		const panel = container.querySelector(".panel--user");
@@ -98,6 +114,59 @@ describe("ChatMessageList", () => {
 		expect(toolPanel?.textContent).toContain("Running bash...");
 	});
 
+	test("tool result with a file diff renders the call line and the diff", () => {
+		const msg = mkAssistantMsg([
+			{ type: "tool_call", id: "tc_1", content: "▸ Editing a.ts\n\n```diff\n- a\n+ b\n```", mergeable: false },
+			{
+				type: "tool_result",
+				id: "tc_1",
+				content: null,
+				mergeable: false,
+				diff: [
+					{
+						path: "a.ts",
+						status: "modified",
+						added: 1,
+						removed: 1,
+						hunks: [{ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ["-a", "+b"] }],
+					},
+				],
+			},
+		]);
+		const { container } = render(<ChatMessageList messages={[msg]} {...defaultProps} />);
+		expect(container.querySelector(".panel--tool .md")?.textContent).toBe("▸ Editing a.ts");
+		expect(container.querySelectorAll(".panel--tool .diff-view .diff-row--added")).toHaveLength(1);
+	});
+
+	test("completed tool panels toggle the pin for every result they stand for", () => {
+		const msg = mkAssistantMsg([
+			{ type: "tool_call", id: "tc1", content: "Reading a.ts", mergeable: true },
+			{ type: "tool_result", id: "tc1", output: "a", mergeable: true },
+			{ type: "tool_call", id: "tc2", content: "Reading b.ts", mergeable: true },
+			{ type: "tool_result", id: "tc2", output: "b", mergeable: true },
+			{ type: "tool_call", id: "tc3", content: "Running bash...", mergeable: false },
+		]);
+		const onTogglePin = mock(() => {});
+		const { container } = render(
+			<ChatMessageList messages={[msg]} {...defaultProps} pinnedIds={new Set(["tc1"])} onTogglePin={onTogglePin} />,
+		);
+		const buttons = container.querySelectorAll<HTMLButtonElement>(".panel-pin");
+		// The running bash call has no toggle yet
+		expect(buttons).toHaveLength(1);
+		expect(buttons[0]?.getAttribute("aria-pressed")).toBe("false");
+		buttons[0]?.click();
+		expect(onTogglePin).toHaveBeenCalledWith(["tc1", "tc2"], true);
+	});
+
+	test("read-only views render no pin toggle", () => {
+		const msg = mkAssistantMsg([
+			{ type: "tool_call", id: "tc1", content: "Reading a.ts", mergeable: true },
+			{ type: "tool_result", id: "tc1", output: "a", mergeable: true },
+		]);
+		const { container } = render(<ChatMessageList messages={[msg]} {...defaultProps} />);
+		expect(container.querySelector(".panel-pin")).toBeNull();
+	});
+
 	test("assistant message with timestamp shows timestamp in panel-status", () => {
 		const msg = mkAssistantMsg([{ type: "text", content: "Done." }], { timestamp: "16:45:00", model: "gpt-4" });
 		const { container } = render(<ChatMessageList messages={[msg]} {...defaultProps} />);
@@ -164,6 +164,21 @@ describe("ContextMessageList — compaction mode", () => {
 		expect(headers[0]?.textContent).toBe("user | excluded");
 	});
 
+	test("renders the compaction summary with its token cost", () => {
+		const summary = { coveredMessages: 12, model: "m", inputTokens: 900, outputTokens: 40, costDollars: 0.0012 };
+		const data = {
+			messages: [mkMsg("user", "[Summary of conversation messages 1-12]\n\n## Goals", { compaction_summary: summary })],
+			stats: null,
+			details: null,
+		};
+		const { container } = render(
+			<ContextMessageList contextMessages={noopContext} compactionData={data} viewMode="compaction" lineLimit={0} />,
+		);
+		const headers = container.querySelectorAll(".context-header");
+		expect(headers).toHaveLength(1);
+		expect(headers[0]?.textContent).toBe("summary of #1-#12 | in: 900 | out: 40 | $0.0012");
+	});
+
 	test("does not render whitespace-only assistant text panel in compaction mode", () => {
 		const data = {
 			messages: [
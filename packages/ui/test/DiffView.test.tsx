@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, mock, test } from "bun:test";
+import { act, cleanup, fireEvent, render } from "@testing-library/react";
+import { DiffView } from "../src/DiffView";
+import type { FileDiff } from "../src/protocol";
+
+afterEach(cleanup);
+
+const edited: FileDiff = {
+	path: "src/a.ts",
+	status: "modified",
+	added: 2,
+	removed: 1,
+	hunks: [{ oldStart: 10, oldLines: 3, newStart: 10, newLines: 4, lines: [" one", "-two", "+TWO", "+2.5", " three"] }],
+};
+
+const created: FileDiff = {
+	path: "src/new.ts",
+	status: "created",
+	added: 1,
+	removed: 0,
+	hunks: [{ oldStart: 1, oldLines: 0, newStart: 1, newLines: 1, lines: ["+x", "\\ No newline at end of file"] }],
+};
+
+function rowText(row: Element): string[] {
+	return [...row.querySelectorAll("td")].map((cell) => cell.textContent ?? "");
+}
+
+describe("DiffView", () => {
+	test("numbers each line on the side it belongs to", () => {
+		const { container } = render(<DiffView diffs={[edited]} />);
+		const rows = [...container.querySelectorAll(".diff-row")];
+
+		expect(rows.map((row) => row.className.replace("diff-row diff-row--", ""))).toEqual([
+			"hunk",
+			"context",
+			"removed",
+			"added",
+			"added",
+			"context",
+		]);
+		expect(rowText(rows[0] as Element)).toEqual(["", "@@ -10,3 +10,4 @@"]);
+		expect(rows.slice(1).map(rowText)).toEqual([
+			["10", "10", " one"],
+			["11", "", "-two"],
+			["", "11", "+TWO"],
+			["", "12", "+2.5"],
+			["12", "13", " three"],
+		]);
+	});
+
+	test("file header shows the path, status and line counts", () => {
+		const { container } = render(<DiffView diffs={[edited, created]} />);
+		const headers = [...container.querySelectorAll(".diff-file-header")].map((h) => h.textContent);
+
+		expect(headers[0]).toBe("▾ src/a.ts +2 -1copy patch");
+		expect(headers[1]).toBe("▾ src/new.ts created +1 -0copy patch");
+		expect(container.querySelector(".diff-row--note")?.textContent).toBe("\\ No newline at end of file");
+	});
+
+	test("each file folds on its own", () => {
+		const { container, getAllByRole } = render(<DiffView diffs={[edited, created]} />);
+		const toggle = getAllByRole("button", { name: /src\/a\.ts/ })[0] as HTMLElement;
+
+		fireEvent.click(toggle);
+
+		expect(toggle.getAttribute("aria-expanded")).toBe("false");
+		expect(toggle.textContent).toBe("▸ src/a.ts");
+		expect(container.querySelectorAll(".diff-table")).toHaveLength(1);
+	});
+
+	test("double-clicking the file controls does not reach the tool panel", () => {
+		const onPanelDoubleClick = mock(() => {});
+		const { getAllByRole } = render(
+			// biome-ignore lint/a11y/noStaticElementInteractions: stands in for ToolPanel's double-click fold
+			<div onDoubleClick={onPanelDoubleClick}>
+				<DiffView diffs={[edited]} />
+			</div>,
+		);
+
+		for (const button of getAllByRole("button")) fireEvent.doubleClick(button);
+
+		expect(onPanelDoubleClick).not.toHaveBeenCalled();
+	});
+
+	test("copies a file as a patch", async () => {
+		const writeText = mock(() => Promise.resolve());
+		Object.defineProperty(navigator, "clipboard", { value: { writeText }, configurable: true });
+		const { getAllByRole } = render(<DiffView diffs={[created]} />);
+		const copy = getAllByRole("button", { name: "copy patch" })[0] as HTMLElement;
+
+		await act(async () => {
+			fireEvent.click(copy);
+		});
+
+		expect(writeText).toHaveBeenCalledWith(
+			"--- /dev/null\n+++ b/src/new.ts\n@@ -0,0 +1,1 @@\n+x\n\\ No newline at end of file\n",
+		);
+		expect(copy.textContent).toBe("copied");
+		fireEvent.mouseLeave(copy);
+		expect(copy.textContent).toBe("copy patch");
+	});
+
+	test("says when the diff was truncated", () => {
+		const { container } = render(<DiffView diffs={[{ ...edited, truncated: true }]} />);
+		expect(container.querySelector(".diff-table")?.textContent).toContain("diff truncated");
+	});
+});
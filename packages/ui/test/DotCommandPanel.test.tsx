@@ -1,7 +1,8 @@
 import { describe, expect, test } from "bun:test";
 import { render, screen } from "@testing-library/react";
 import type { ParsedDotInput } from "../src/commandParser";
-import { DotCommandPanel } from "../src/DotCommandPanel";
+import { DotCommandPanel, resolveCommandTree } from "../src/DotCommandPanel";
+import { resolveDotTree } from "../src/DotCommandTree";
 
 const noopGetSessionId = () => null;
 
@@ -379,15 +380,210 @@ describe("DotCommandPanel", () => {
 		expect(rows[24]).toContain("Task 25");
 	});
 
+	// --- Policy panel ---
+
+	test("policy panel: lists policies and marks the session's current one", () => {
+		const parsed = dot({ command: "policy", args: "" });
+		const policies = [
+			{ index: 1, name: "default", description: "Built-in targets", current: false },
+			{ index: 2, name: "aggressive", description: "Compact early and deep", current: true },
+		];
+		const { container } = render(<DotCommandPanel {...defaultProps} parsed={parsed} policyList={policies} />);
+		const text = container.textContent ?? "";
+		expect(text).toContain("1: default");
+		expect(text).toContain("2: aggressive (current)");
+		expect(text).toContain("Compact early and deep");
+	});
+
+	test("policy panel: shows 'Loading policies...' when null", () => {
+		const parsed = dot({ command: "policy", args: "" });
+		render(<DotCommandPanel {...defaultProps} parsed={parsed} />);
+		expect(screen.queryByText("Loading policies...")).not.toBeNull();
+	});
+
+	// --- Checkpoint panel ---
+
+	test("checkpoint panel: shows turns with index, prompt and file count", () => {
+		const parsed = dot({ command: "checkpoint", args: "" });
+		const checkpoints = [
+			{ index: 1, text: "add tests\nplease", createdAt: "2025-01-15T10:30:00Z", files: ["a.ts", "b.ts"] },
+			{ index: 2, text: "fix lint", createdAt: "2025-01-15T11:00:00Z", files: ["a.ts"] },
+		];
+		const { container } = render(<DotCommandPanel {...defaultProps} parsed={parsed} checkpointList={checkpoints} />);
+		const text = container.textContent ?? "";
+		expect(text).toContain("add tests");
+		expect(text).not.toContain("please");
+		expect(text).toContain("(2 files)");
+		expect(text).toContain("fix lint");
+		expect(text).toContain("(1 file)");
+	});
+
+	test("checkpoint panel: shows 'Loading checkpoints...' when null", () => {
+		const parsed = dot({ command: "checkpoint", args: "" });
+		render(<DotCommandPanel {...defaultProps} parsed={parsed} />);
+		expect(screen.queryByText("Loading checkpoints...")).not.toBeNull();
+	});
+
+	test("checkpoint panel: shows 'No turns yet' when empty", () => {
+		const parsed = dot({ command: "checkpoint", args: "" });
+		render(<DotCommandPanel {...defaultProps} parsed={parsed} checkpointList={[]} />);
+		expect(screen.queryByText("No turns yet")).not.toBeNull();
+	});
+
+	test("checkpoint panel: index with trailing space offers files-only rollback", () => {
+		const parsed = dot({ command: "checkpoint", args: "1 " });
+		const checkpoints = [{ index: 1, text: "add tests", createdAt: "2025-01-15T10:30:00Z", files: [] }];
+		const { container } = render(<DotCommandPanel {...defaultProps} parsed={parsed} checkpointList={checkpoints} />);
+		expect(container.textContent ?? "").toContain("Files only");
+	});
+
+	test("checkpoint tree: extracts index and files-only flag", () => {
+		const checkpoints = [{ index: 1, text: "add tests", createdAt: "2025-01-15T10:30:00Z", files: [] }];
+		const tree = resolveCommandTree(
+			"checkpoint",
+			null,
+			null,
+			null,
+			null,
+			noopGetSessionId,
+			false,
+			null,
+			null,
+			null,
+			checkpoints,
+		);
+		expect(tree?.extract?.(resolveDotTree(tree, "1"))).toEqual({ command: "checkpoint", args: "1" });
+		expect(tree?.extract?.(resolveDotTree(tree, "1 files"))).toEqual({ command: "checkpoint", args: "1 files" });
+	});
+
+	test("undo tree: extracts the turn count", () => {
+		const tree = resolveCommandTree("undo", null, null, null, null, noopGetSessionId, false, null, null);
+		expect(tree?.extract?.(resolveDotTree(tree, "3"))).toEqual({ command: "undo", count: "3" });
+	});
+
+	// --- Fork ---
+
+	test("fork tree: picks a turn by number, none means every turn", () => {
+		const turns = [
+			{ index: 1, text: "first prompt", createdAt: "2026-01-01T10:00:00Z", files: [] },
+			{ index: 2, text: "second prompt", createdAt: "2026-01-01T10:05:00Z", files: ["a.ts"] },
+		];
+		const tree = resolveCommandTree("fork", null, null, null, null, noopGetSessionId, false, null, null, null, turns);
+		expect(tree?.extract?.(resolveDotTree(tree, "2"))).toEqual({ command: "fork", turn: "2" });
+		expect(tree?.extract?.(resolveDotTree(tree, ""))).toEqual({ command: "fork", turn: "" });
+		const labels = tree?.children?.("").map((c) => c.description);
+		expect(labels).toEqual(["keep turn 1", "keep turns 1–2"]);
+	});
+
+	// --- Export ---
+
+	test("export tree: picks a format by index or name", () => {
+		const tree = resolveCommandTree("export", null, null, null, null, noopGetSessionId, false, null, null);
+		expect(tree?.extract?.(resolveDotTree(tree, "2"))).toEqual({ command: "export", format: "json" });
+		expect(tree?.extract?.(resolveDotTree(tree, "ht"))).toEqual({ command: "export", format: "html" });
+		expect(tree?.extract?.(resolveDotTree(tree, ""))).toEqual({ command: "export", format: "" });
+	});
+
+	test("export panel: lists the formats", () => {
+		const { container } = render(<DotCommandPanel {...defaultProps} parsed={dot({ command: "export", args: "" })} />);
+		const text = container.textContent ?? "";
+		expect(text).toContain("1: Markdown");
+		expect(text).toContain("3: HTML");
+	});
+
+	// --- Search ---
+
+	const searchResults = [
+		{
+			messageId: "m1",
+			sessionId: "s1",
+			sessionTitle: "Schema work",
+			parentId: null,
+			role: "user" as const,
+			turn: 2,
+			snippet: "fix the migration script",
+			createdAt: "2025-01-15T10:30:00Z",
+		},
+		{
+			messageId: "m2",
+			sessionId: "s2",
+			sessionTitle: null,
+			parentId: "s1",
+			role: "tool" as const,
+			turn: 1,
+			snippet: "ran migration 0042",
+			createdAt: "2025-01-15T10:31:00Z",
+		},
+	];
+
+	function searchTree(results: typeof searchResults | null) {
+		return resolveCommandTree("search", null, null, null, null, noopGetSessionId, false, null, null, null, null, [], results);
+	}
+
+	test("search panel: shows session, turn, role and snippet of each hit", () => {
+		const parsed = dot({ command: "search", args: "migration" });
+		const { container } = render(<DotCommandPanel {...defaultProps} parsed={parsed} searchResults={searchResults} />);
+		const text = container.textContent ?? "";
+		expect(text).toContain("Schema work · turn 2 · user — fix the migration script");
+		expect(text).toContain("untitled (subagent) · turn 1 · tool — ran migration 0042");
+	});
+
+	test("search panel: hints before a query and shows an empty state", () => {
+		render(<DotCommandPanel {...defaultProps} parsed={dot({ command: "search", args: "" })} />);
+		expect(screen.queryByText("Type to search all sessions")).not.toBeNull();
+	});
+
+	test("search tree: Enter picks the best hit, an index picks that hit", () => {
+		const tree = searchTree(searchResults);
+		expect(tree?.extract?.(resolveDotTree(tree, "migration script"))).toEqual({ command: "search", sessionId: "s1", turn: 2 });
+		expect(tree?.extract?.(resolveDotTree(tree, "2"))).toEqual({ command: "search", sessionId: "s2", turn: 1 });
+	});
+
+	test("search tree: no hits extract an empty session", () => {
+		const tree = searchTree([]);
+		expect(tree?.extract?.(resolveDotTree(tree, "nothing"))).toEqual({ command: "search", sessionId: "", turn: 0 });
+	});
+
+	test("plugin tree: extracts the plugin command name and args", () => {
+		const pluginCommands = [{ name: "greet", description: "Say hello" }];
+		const tree = resolveCommandTree(
+			"greet",
+			null,
+			null,
+			null,
+			null,
+			noopGetSessionId,
+			false,
+			null,
+			null,
+			null,
+			null,
+			pluginCommands,
+		);
+		expect(tree?.extract?.(resolveDotTree(tree, "world"))).toEqual({ command: "plugin", name: "greet", args: "world" });
+	});
+
+	test("unknown command without plugins: no tree", () => {
+		expect(resolveCommandTree("greet", null, null, null, null, noopGetSessionId, false, null, null)).toBeNull();
+	});
+
+	test("undo panel: shows text prompt", () => {
+		const parsed = dot({ command: "undo", args: "" });
+		const { container } = render(<DotCommandPanel {...defaultProps} parsed={parsed} />);
+		expect(container.textContent ?? "").toContain("Number of turns to undo");
+	});
+
 	// --- View panel ---
 
-	test("view panel: shows all 3 view modes with descriptions", () => {
+	test("view panel: shows all 5 view modes with descriptions", () => {
 		const parsed = dot({ command: "view", args: "" });
 		const { container } = render(<DotCommandPanel {...defaultProps} parsed={parsed} />);
 		const text = container.textContent ?? "";
 		expect(text).toContain("1: Chat — Grouped panels, markdown");
 		expect(text).toContain("2: Context — Raw DB messages, plain text");
 		expect(text).toContain("3: Compaction — Compacted view (what LLM sees)");
+		expect(text).toContain("4: Usage — Spend and tokens across sessions");
+		expect(text).toContain("5: Memories — Browse, edit and delete project memories");
 	});
 
 	// --- Unrecognized command ---
@@ -0,0 +1,33 @@
+import { describe, expect, test } from "bun:test";
+import { render } from "@testing-library/react";
+import { McpStatus } from "../src/McpStatus";
+import type { McpServerStatus } from "../src/protocol";
+
+function server(name: string, state: McpServerStatus["state"], extra: Partial<McpServerStatus> = {}): McpServerStatus {
+	return { name, transport: "stdio", state, toolCount: 0, ...extra };
+}
+
+describe("McpStatus", () => {
+	test("renders nothing when no servers are configured", () => {
+		const { container } = render(<McpStatus servers={[]} />);
+		expect(container.innerHTML).toBe("");
+	});
+
+	test("shows connected count and per-server details on hover", () => {
+		const { container } = render(
+			<McpStatus servers={[server("github", "connected", { toolCount: 12 }), server("docs", "connecting")]} />,
+		);
+		const span = container.querySelector("span");
+		expect(span?.textContent).toContain("MCP 1/2");
+		expect(span?.getAttribute("title")).toBe("github: connected, 12 tool(s)\ndocs: connecting...");
+		expect(span?.className).not.toContain("status-bar-mcp--error");
+	});
+
+	test("highlights failed servers and shows their error", () => {
+		const { container } = render(<McpStatus servers={[server("jira", "error", { error: "HTTP 401" })]} />);
+		const span = container.querySelector("span");
+		expect(span?.textContent).toContain("MCP 0/1");
+		expect(span?.className).toContain("status-bar-mcp--error");
+		expect(span?.getAttribute("title")).toBe("jira: HTTP 401");
+	});
+});
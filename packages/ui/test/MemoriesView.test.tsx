@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { act, fireEvent, render } from "@testing-library/react";
+import { MemoriesView } from "../src/MemoriesView";
+import type { MemoryEntry, MemoryListing } from "../src/protocol";
+
+function memory(id: string, overrides: Partial<MemoryEntry> = {}): MemoryEntry {
+	return {
+		id,
+		type: "project",
+		title: `Title ${id}`,
+		description: null,
+		content: `Content ${id}`,
+		sessionId: null,
+		createdAt: "2026-10-01T00:00:00.000Z",
+		updatedAt: "2026-10-02T00:00:00.000Z",
+		scope: "project",
+		indexed: true,
+		...overrides,
+	};
+}
+
+function listing(memories: MemoryEntry[]): MemoryListing {
+	return {
+		memories,
+		index: { shown: memories.filter((m) => m.indexed).length, total: memories.length, maxEntries: 32, maxBytes: 4000 },
+	};
+}
+
+const sample = listing([
+	memory("aaaaaaaa-1", { type: "user", title: "Editor", description: "Uses vim", scope: "global" }),
+	memory("bbbbbbbb-2"),
+	memory("cccccccc-3", { indexed: false }),
+]);
+
+describe("MemoriesView", () => {
+	const originalFetch = global.fetch;
+	let fetchMock: ReturnType<typeof mock>;
+
+	beforeEach(() => {
+		fetchMock = mock(() => Promise.resolve(new Response("{}", { status: 200 })));
+		global.fetch = fetchMock as unknown as typeof fetch;
+	});
+
+	afterEach(() => {
+		global.fetch = originalFetch;
+	});
+
+	function buttonByText(container: HTMLElement, text: string): HTMLButtonElement {
+		const button = [...container.querySelectorAll("button")].find((b) => b.textContent?.startsWith(text));
+		if (!button) throw new Error(`No button "${text}"`);
+		return button;
+	}
+
+	test("shows empty states", () => {
+		expect(render(<MemoriesView listing={null} onChanged={() => {}} />).container.textContent).toBe(
+			"No memory data available.",
+		);
+		expect(render(<MemoriesView listing={listing([])} onChanged={() => {}} />).container.textContent).toBe(
+			"No memories saved yet.",
+		);
+	});
+
+	test("marks memories outside the prompt index and filters by type", () => {
+		const { container } = render(<MemoriesView listing={sample} onChanged={() => {}} />);
+		expect(container.querySelector(".context-header")?.textContent).toContain("2 of 3 in the prompt index");
+		expect(container.querySelectorAll(".memory-entry--unindexed")).toHaveLength(1);
+		expect(container.textContent).toContain("Uses vim");
+
+		fireEvent.click(buttonByText(container, "user (1)"));
+		expect(container.querySelectorAll(".memory-entry")).toHaveLength(1);
+		expect(container.textContent).toContain("[user, global] Editor");
+		// Global memories cannot be promoted again
+		expect(container.textContent).not.toContain("promote to global");
+	});
+
+	test("promotes a project memory to global", async () => {
+		const onChanged = mock(() => {});
+		const { container } = render(<MemoriesView listing={sample} onChanged={onChanged} />);
+		await act(async () => {
+			fireEvent.click(buttonByText(container, "promote to global"));
+		});
+		const [url, opts] = fetchMock.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe("/bobai/memories/bbbbbbbb-2/promote");
+		expect(opts.method).toBe("POST");
+		expect(onChanged).toHaveBeenCalledTimes(1);
+	});
+
+	test("edits a memory in place", async () => {
+		const onChanged = mock(() => {});
+		const { container } = render(<MemoriesView listing={sample} onChanged={onChanged} />);
+		fireEvent.click(container.querySelectorAll<HTMLButtonElement>(".memory-entry button")[1] as HTMLButtonElement);
+		const content = container.querySelector<HTMLTextAreaElement>('textarea[aria-label="content"]');
+		expect(content?.value).toBe("Content bbbbbbbb-2");
+		fireEvent.change(content as HTMLTextAreaElement, { target: { value: "Updated" } });
+
+		await act(async () => {
+			fireEvent.click(buttonByText(container, "save"));
+		});
+
+		const [url, opts] = fetchMock.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe("/bobai/memories/bbbbbbbb-2");
+		expect(opts.method).toBe("PATCH");
+		expect(JSON.parse(opts.body as string)).toEqual({
+			type: "project",
+			title: "Title bbbbbbbb-2",
+			description: "",
+			content: "Updated",
+		});
+		expect(onChanged).toHaveBeenCalledTimes(1);
+		expect(container.querySelector("textarea")).toBeNull();
+	});
+
+	test("shows the server's error and keeps the editor open", async () => {
+		fetchMock.mockImplementation(() => Promise.resolve(Response.json({ error: "title cannot be empty" }, { status: 400 })));
+		const onChanged = mock(() => {});
+		const { container } = render(<MemoriesView listing={sample} onChanged={onChanged} />);
+		fireEvent.click(buttonByText(container, "edit"));
+		await act(async () => {
+			fireEvent.click(buttonByText(container, "save"));
+		});
+		expect(container.querySelector(".memories-error")?.textContent).toBe("title cannot be empty");
+		expect(container.querySelector("textarea")).not.toBeNull();
+		expect(onChanged).not.toHaveBeenCalled();
+	});
+
+	test("deletes the selected memories in one request", async () => {
+		const onChanged = mock(() => {});
+		const { container } = render(<MemoriesView listing={sample} onChanged={onChanged} />);
+		expect(buttonByText(container, "delete selected").disabled).toBe(true);
+
+		fireEvent.click(container.querySelector('input[aria-label="select Editor"]') as HTMLInputElement);
+		fireEvent.click(container.querySelector('input[aria-label="select Title cccccccc-3"]') as HTMLInputElement);
+		await act(async () => {
+			fireEvent.click(buttonByText(container, "delete selected (2)"));
+		});
+
+		const [url, opts] = fetchMock.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe("/bobai/memories");
+		expect(opts.method).toBe("DELETE");
+		expect(JSON.parse(opts.body as string)).toEqual({ ids: ["aaaaaaaa-1", "cccccccc-3"] });
+		expect(onChanged).toHaveBeenCalledTimes(1);
+	});
+
+	test("select all covers the filtered memories only", () => {
+		const { container } = render(<MemoriesView listing={sample} onChanged={() => {}} />);
+		fireEvent.click(buttonByText(container, "project (2)"));
+		fireEvent.click(container.querySelector(".memories-toolbar input") as HTMLInputElement);
+		expect(buttonByText(container, "delete selected").textContent).toBe("delete selected (2)");
+	});
+});
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+import { render, screen } from "@testing-library/react";
+import { PermissionPanel } from "../src/PermissionPanel";
+import type { PermissionRequest } from "../src/protocol";
+
+function request(id: string, tool: string, detail: string): PermissionRequest {
+	return { type: "permission_request", id, toolCallId: `call_${id}`, tool, detail, sessionId: "s1" };
+}
+
+describe("PermissionPanel", () => {
+	test("renders nothing when no request is pending", () => {
+		const { container } = render(<PermissionPanel requests={[]} />);
+		expect(container.innerHTML).toBe("");
+	});
+
+	test("shows the tool, its detail and how to answer", () => {
+		const { container } = render(<PermissionPanel requests={[request("p1", "bash", "rm -rf build")]} />);
+		expect(container.querySelector(".permission-tool")?.textContent).toBe("bash");
+		expect(screen.queryByText("rm -rf build")).not.toBeNull();
+		expect(screen.queryByText(/\.approve to run it/)).not.toBeNull();
+		expect(screen.queryByText(/more waiting/)).toBeNull();
+	});
+
+	test("shows only the oldest request and counts the rest", () => {
+		render(<PermissionPanel requests={[request("p1", "bash", "npm test"), request("p2", "write_file", "src/a.ts")]} />);
+		expect(screen.queryByText("npm test")).not.toBeNull();
+		expect(screen.queryByText("src/a.ts")).toBeNull();
+		expect(screen.queryByText(/1 more waiting/)).not.toBeNull();
+	});
+});
@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test";
+import { render } from "@testing-library/react";
+import { ProcessStatus } from "../src/ProcessStatus";
+import type { BackgroundProcessStatus } from "../src/protocol";
+
+function proc(name: string, state: BackgroundProcessStatus["state"], extra: Partial<BackgroundProcessStatus> = {}) {
+	return { name, command: "bun run dev", state, pid: 4242, exitCode: null, startedAt: "2026-01-01T00:00:00Z", ...extra };
+}
+
+describe("ProcessStatus", () => {
+	test("renders nothing when no process is running", () => {
+		const { container } = render(<ProcessStatus processes={[proc("build", "exited", { exitCode: 0 })]} />);
+		expect(container.innerHTML).toBe("");
+	});
+
+	test("counts running processes and lists every process on hover", () => {
+		const { container } = render(
+			<ProcessStatus processes={[proc("dev", "running"), proc("tests", "exited", { exitCode: 1 }), proc("logs", "killed")]} />,
+		);
+		const span = container.querySelector("span");
+		expect(span?.textContent).toContain("| 1 process");
+		expect(span?.getAttribute("title")).toBe("dev (pid 4242): bun run dev\ntests: exited with code 1\nlogs: killed");
+	});
+
+	test("pluralizes the count", () => {
+		const { container } = render(<ProcessStatus processes={[proc("dev", "running"), proc("watch", "running")]} />);
+		expect(container.querySelector("span")?.textContent).toContain("| 2 processes");
+	});
+});
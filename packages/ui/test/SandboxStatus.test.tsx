@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+import { render } from "@testing-library/react";
+import { SandboxStatus } from "../src/SandboxStatus";
+
+describe("SandboxStatus", () => {
+	test("shows the sandbox and its writable paths on hover", () => {
+		const { container } = render(<SandboxStatus sandbox={{ mode: "bubblewrap", network: true, writable: ["/srv/data"] }} />);
+		const span = container.querySelector("span");
+		expect(span?.textContent).toContain("| sandbox");
+		expect(span?.getAttribute("title")).toBe(
+			"Shell commands run in bubblewrap\nWritable:\n  project directory\n  /srv/data\nNetwork: allowed",
+		);
+		expect(span?.className).not.toContain("status-bar-sandbox--error");
+	});
+
+	test("mentions a disabled network", () => {
+		const { container } = render(<SandboxStatus sandbox={{ mode: "bubblewrap", network: false, writable: [] }} />);
+		expect(container.querySelector("span")?.textContent).toContain("| sandbox, no network");
+	});
+
+	test("highlights a sandbox that cannot run", () => {
+		const { container } = render(<SandboxStatus sandbox={{ mode: "unavailable", network: true, writable: [] }} />);
+		const span = container.querySelector("span");
+		expect(span?.textContent).toContain("| sandbox unavailable");
+		expect(span?.className).toContain("status-bar-sandbox--error");
+	});
+});
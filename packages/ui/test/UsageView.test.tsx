@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import { render } from "@testing-library/react";
+import type { UsageReport } from "../src/formatUtils";
+import { UsageView } from "../src/UsageView";
+
+const totals = {
+	turns: 2,
+	inputTokens: 400,
+	outputTokens: 40,
+	cachedInputTokens: 100,
+	cacheCreationInputTokens: 0,
+	cacheHitRatio: 0.25,
+	costDollars: 0.5,
+};
+
+function report(overrides: Partial<UsageReport> = {}): UsageReport {
+	return {
+		since: null,
+		total: totals,
+		byDay: [],
+		byProvider: [{ key: "openrouter", label: "openrouter", ...totals }],
+		byModel: [],
+		bySession: [],
+		...overrides,
+	};
+}
+
+describe("UsageView", () => {
+	test("shows an empty state without data", () => {
+		const { container } = render(<UsageView report={null} />);
+		expect(container.textContent).toBe("No usage data available.");
+	});
+
+	test("shows an empty state before the first turn", () => {
+		const { container } = render(<UsageView report={report({ total: { ...totals, turns: 0 } })} />);
+		expect(container.textContent).toBe("No turns recorded yet.");
+	});
+
+	test("renders the report and a CSV download link", () => {
+		const { container } = render(<UsageView report={report()} />);
+		expect(container.querySelector(".context-header a")?.getAttribute("href")).toBe("/bobai/usage?format=csv");
+		expect(container.textContent).toContain("By provider");
+		expect(container.textContent).toContain("openrouter");
+		expect(container.textContent).toContain("$0.50");
+	});
+});
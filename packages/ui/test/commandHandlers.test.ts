@@ -1,10 +1,17 @@
 import { beforeEach, describe, expect, mock, test } from "bun:test";
 import {
 	handleConfigurationCommand,
+	handleExportCommand,
+	handleForkCommand,
 	handleLimitCommand,
 	handleModelCommand,
 	handleNewCommand,
+	handlePinCommand,
+	handlePluginCommand,
+	handlePolicyCommand,
 	handleProviderCommand,
+	handleRollbackCommand,
+	handleSearchCommand,
 	handleSessionCommand,
 	handleSessionShortcut,
 	handleSlashCommand,
@@ -139,6 +146,8 @@ describe("handleViewCommand", () => {
 			setView: mock(() => {}),
 			fetchContext: mock(() => {}),
 			fetchCompactedContext: mock(() => {}),
+			fetchUsage: mock(() => {}),
+			fetchMemories: mock(() => {}),
 			scrollToBottom: mock(() => {}),
 			...overrides,
 		};
@@ -181,11 +190,41 @@ describe("handleViewCommand", () => {
 		expect(updater({ mode: "context", lineLimit: 0 })).toEqual({ mode: "compaction", lineLimit: 0 });
 	});
 
-	test("empty arg cycles from compaction to chat", () => {
+	test('arg="4" sets view to usage and calls fetchUsage', () => {
+		const params = makeParams();
+		handleViewCommand({ arg: "4" }, params);
+		const updater = extractUpdater<ViewUpdater>(params.setView);
+		expect(updater({ mode: "chat", lineLimit: 0 })).toEqual({ mode: "usage", lineLimit: 0 });
+		expect(params.fetchUsage).toHaveBeenCalledTimes(1);
+	});
+
+	test("empty arg cycles from compaction to usage", () => {
 		const params = makeParams();
 		handleViewCommand({ arg: "" }, params);
 		const updater = extractUpdater<ViewUpdater>(params.setView);
-		expect(updater({ mode: "compaction", lineLimit: 0 })).toEqual({ mode: "chat", lineLimit: 0 });
+		expect(updater({ mode: "compaction", lineLimit: 0 })).toEqual({ mode: "usage", lineLimit: 0 });
+	});
+
+	test('arg="5" sets view to memories and calls fetchMemories', () => {
+		const params = makeParams();
+		handleViewCommand({ arg: "5" }, params);
+		const updater = extractUpdater<ViewUpdater>(params.setView);
+		expect(updater({ mode: "chat", lineLimit: 0 })).toEqual({ mode: "memories", lineLimit: 0 });
+		expect(params.fetchMemories).toHaveBeenCalledTimes(1);
+	});
+
+	test("empty arg cycles from usage to memories", () => {
+		const params = makeParams();
+		handleViewCommand({ arg: "" }, params);
+		const updater = extractUpdater<ViewUpdater>(params.setView);
+		expect(updater({ mode: "usage", lineLimit: 0 })).toEqual({ mode: "memories", lineLimit: 0 });
+	});
+
+	test("empty arg cycles from memories to chat", () => {
+		const params = makeParams();
+		handleViewCommand({ arg: "" }, params);
+		const updater = extractUpdater<ViewUpdater>(params.setView);
+		expect(updater({ mode: "memories", lineLimit: 0 })).toEqual({ mode: "chat", lineLimit: 0 });
 	});
 
 	test("invalid arg keeps current mode", () => {
@@ -487,6 +526,82 @@ describe("handleLimitCommand", () => {
 	});
 });
 
+describe("handlePolicyCommand", () => {
+	function makeParams() {
+		return {
+			getSessionId: () => "s1",
+			setSessionId: mock(() => {}),
+			addVolatileMessage: mock(() => {}),
+			clearVolatileMessages: mock(() => {}),
+		};
+	}
+
+	test("shows the server's confirmation", async () => {
+		fetchMock.mockImplementation(() =>
+			Promise.resolve(
+				jsonResponse({ ok: true, sessionId: "s1", messages: [{ text: "Compaction policy: aggressive", kind: "success" }] }),
+			),
+		);
+		const params = makeParams();
+		handlePolicyCommand({ args: "3" }, params);
+		await flushPromises();
+		const [, opts] = fetchMock.mock.calls[0] as [string, RequestInit];
+		expect(JSON.parse(opts.body as string)).toEqual({ command: "policy", args: "3", sessionId: "s1" });
+		expect(params.setSessionId).toHaveBeenCalledWith("s1");
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Compaction policy: aggressive", "success");
+	});
+
+	test("on failure sets volatile error", async () => {
+		fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: false, error: "Unknown compaction policy" })));
+		const params = makeParams();
+		handlePolicyCommand({ args: "tiny" }, params);
+		await flushPromises();
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Unknown compaction policy", "error");
+	});
+});
+
+describe("handlePinCommand", () => {
+	function makeParams() {
+		return {
+			getSessionId: () => "s1",
+			setSessionId: mock(() => {}),
+			setPins: mock(() => {}),
+			addVolatileMessage: mock(() => {}),
+			clearVolatileMessages: mock(() => {}),
+		};
+	}
+
+	test("updates the pins and shows the server's confirmation", async () => {
+		const pins = { toolCallIds: ["r3"], chars: 40, tokens: 13 };
+		fetchMock.mockImplementation(() =>
+			Promise.resolve(
+				jsonResponse({
+					ok: true,
+					sessionId: "s1",
+					pins,
+					messages: [{ text: "Pinned read_file src/a.ts (~13 tokens pinned)", kind: "success" }],
+				}),
+			),
+		);
+		const params = makeParams();
+		handlePinCommand("pin", "a.ts", params);
+		await flushPromises();
+		const [, opts] = fetchMock.mock.calls[0] as [string, RequestInit];
+		expect(JSON.parse(opts.body as string)).toEqual({ command: "pin", args: "a.ts", sessionId: "s1" });
+		expect(params.setPins).toHaveBeenCalledWith(pins);
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Pinned read_file src/a.ts (~13 tokens pinned)", "success");
+	});
+
+	test("on failure sets volatile error and keeps the pins", async () => {
+		fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: false, error: "Nothing is pinned" })));
+		const params = makeParams();
+		handlePinCommand("unpin", "", params);
+		await flushPromises();
+		expect(params.setPins).not.toHaveBeenCalled();
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Nothing is pinned", "error");
+	});
+});
+
 // ===========================================================================
 // 7. handleSessionCommand
 // ===========================================================================
@@ -755,6 +870,270 @@ describe("handleConfigurationCommand", () => {
 	});
 });
 
+// ===========================================================================
+// 10b. handleRollbackCommand
+// ===========================================================================
+
+describe("handleRollbackCommand", () => {
+	function makeParams(overrides: Partial<Parameters<typeof handleRollbackCommand>[2]> = {}) {
+		return {
+			getSessionId: () => "s1",
+			reloadSession: mock(() => Promise.resolve(true)),
+			addVolatileMessage: mock(() => {}),
+			clearVolatileMessages: mock(() => {}),
+			...overrides,
+		};
+	}
+
+	test("posts the command and its args for the current session", () => {
+		const params = makeParams();
+		handleRollbackCommand("undo", "2", params);
+		const [url, opts] = fetchMock.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe("/bobai/command");
+		expect(JSON.parse(opts.body as string)).toEqual({ command: "undo", args: "2", sessionId: "s1" });
+	});
+
+	test("truncated conversation: reloads the session, then shows messages", async () => {
+		fetchMock.mockImplementation(() =>
+			Promise.resolve(
+				jsonResponse({
+					ok: true,
+					sessionId: "s1",
+					truncated: true,
+					messages: [{ text: "Rolled back", kind: "success" as const }],
+				}),
+			),
+		);
+		const params = makeParams();
+		handleRollbackCommand("undo", "", params);
+		await flushPromises();
+		expect(params.reloadSession).toHaveBeenCalledWith("s1");
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Rolled back", "success");
+	});
+
+	test("files-only rollback: shows messages without reloading", async () => {
+		fetchMock.mockImplementation(() =>
+			Promise.resolve(
+				jsonResponse({
+					ok: true,
+					sessionId: "s1",
+					truncated: false,
+					messages: [{ text: "restored a.ts", kind: "info" as const }],
+				}),
+			),
+		);
+		const params = makeParams();
+		handleRollbackCommand("checkpoint", "1 files", params);
+		await flushPromises();
+		expect(params.reloadSession).toHaveBeenCalledTimes(0);
+		expect(params.clearVolatileMessages).toHaveBeenCalledTimes(1);
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("restored a.ts", "info");
+	});
+
+	test("on failure: shows error message", async () => {
+		fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: false, error: "Nothing to undo" })));
+		const params = makeParams();
+		handleRollbackCommand("undo", "", params);
+		await flushPromises();
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Nothing to undo", "error");
+	});
+});
+
+// ===========================================================================
+// 10b0. handleForkCommand
+// ===========================================================================
+
+describe("handleForkCommand", () => {
+	function makeParams(overrides: Partial<Parameters<typeof handleForkCommand>[1]> = {}) {
+		return {
+			getSessionId: () => "s1",
+			loadSession: mock(() => Promise.resolve(true)),
+			setStagedSkills: mock(() => {}),
+			setView: mock(() => {}),
+			addVolatileMessage: mock(() => {}),
+			...overrides,
+		};
+	}
+
+	test("posts the turn for the current session", () => {
+		handleForkCommand({ turn: "2" }, makeParams());
+		const [url, opts] = fetchMock.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe("/bobai/command");
+		expect(JSON.parse(opts.body as string)).toEqual({ command: "fork", args: "2", sessionId: "s1" });
+	});
+
+	test("on success: opens the fork in the chat view, then shows messages", async () => {
+		fetchMock.mockImplementation(() =>
+			Promise.resolve(
+				jsonResponse({ ok: true, sessionId: "fork-1", messages: [{ text: "Forked turns 1–2", kind: "success" as const }] }),
+			),
+		);
+		const params = makeParams();
+		handleForkCommand({ turn: "2" }, params);
+		await flushPromises();
+		expect(params.loadSession).toHaveBeenCalledWith("fork-1");
+		expect(params.setStagedSkills).toHaveBeenCalledWith([]);
+		const updater = extractUpdater(params.setView) as ViewUpdater;
+		expect(updater({ mode: "context", lineLimit: 3 })).toEqual({ mode: "chat", lineLimit: 3 });
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Forked turns 1–2", "success");
+	});
+
+	test("fork that fails to load: shows error", async () => {
+		fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: true, sessionId: "fork-1" })));
+		const params = makeParams({ loadSession: mock(() => Promise.resolve(false)) });
+		handleForkCommand({ turn: "" }, params);
+		await flushPromises();
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Failed to load session", "error");
+	});
+
+	test("on failure: shows error message", async () => {
+		fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: false, error: "Nothing to fork" })));
+		const params = makeParams();
+		handleForkCommand({ turn: "" }, params);
+		await flushPromises();
+		expect(params.loadSession).toHaveBeenCalledTimes(0);
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Nothing to fork", "error");
+	});
+});
+
+// ===========================================================================
+// 10b1. handleExportCommand
+// ===========================================================================
+
+describe("handleExportCommand", () => {
+	function makeParams(overrides: Partial<Parameters<typeof handleExportCommand>[1]> = {}) {
+		return {
+			getSessionId: () => "s1",
+			addVolatileMessage: mock(() => {}),
+			...overrides,
+		};
+	}
+
+	function captureDownloads(): string[] {
+		const hrefs: string[] = [];
+		HTMLAnchorElement.prototype.click = function (this: HTMLAnchorElement) {
+			hrefs.push(this.getAttribute("href") ?? "");
+		};
+		return hrefs;
+	}
+
+	test("downloads the current session in the chosen format", () => {
+		const hrefs = captureDownloads();
+		handleExportCommand({ format: "html" }, makeParams());
+		expect(hrefs).toEqual(["/bobai/session/s1/export?format=html"]);
+	});
+
+	test("defaults to markdown", () => {
+		const hrefs = captureDownloads();
+		handleExportCommand({ format: "" }, makeParams());
+		expect(hrefs).toEqual(["/bobai/session/s1/export?format=markdown"]);
+	});
+
+	test("without a session: shows error", () => {
+		const hrefs = captureDownloads();
+		const params = makeParams({ getSessionId: () => null });
+		handleExportCommand({ format: "json" }, params);
+		expect(hrefs).toEqual([]);
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("No session to export", "error");
+	});
+
+	test("unknown format: shows error", () => {
+		const params = makeParams();
+		handleExportCommand({ format: "pdf" }, params);
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Unknown export format: pdf", "error");
+	});
+});
+
+// ===========================================================================
+// 10b2. handleSearchCommand
+// ===========================================================================
+
+describe("handleSearchCommand", () => {
+	function makeParams(overrides: Partial<Parameters<typeof handleSearchCommand>[1]> = {}) {
+		return {
+			getSessionId: () => "current",
+			loadSession: mock(() => Promise.resolve(true)),
+			setStagedSkills: mock(() => {}),
+			setView: mock(() => {}),
+			scrollToTurn: mock(() => {}),
+			addVolatileMessage: mock(() => {}),
+			...overrides,
+		};
+	}
+
+	test("no hit: shows error", () => {
+		const params = makeParams();
+		handleSearchCommand({ sessionId: "", turn: 0 }, params);
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("No matching message", "error");
+		expect(params.loadSession).toHaveBeenCalledTimes(0);
+	});
+
+	test("hit in the current session: scrolls without reloading", () => {
+		const params = makeParams();
+		handleSearchCommand({ sessionId: "current", turn: 3 }, params);
+		expect(params.loadSession).toHaveBeenCalledTimes(0);
+		expect(params.scrollToTurn).toHaveBeenCalledWith(3);
+		expect(extractUpdater(params.setView)({ mode: "context", lineLimit: 5 })).toEqual({ mode: "chat", lineLimit: 5 });
+	});
+
+	test("hit in another session: loads it, then scrolls to the turn", async () => {
+		const params = makeParams();
+		handleSearchCommand({ sessionId: "s2", turn: 2 }, params);
+		expect(params.loadSession).toHaveBeenCalledWith("s2");
+		expect(params.setStagedSkills).toHaveBeenCalledWith([]);
+		await flushPromises();
+		expect(params.scrollToTurn).toHaveBeenCalledWith(2);
+	});
+
+	test("session fails to load: shows error", async () => {
+		const params = makeParams({ loadSession: mock(() => Promise.resolve(false)) });
+		handleSearchCommand({ sessionId: "s2", turn: 2 }, params);
+		await flushPromises();
+		expect(params.scrollToTurn).toHaveBeenCalledTimes(0);
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Failed to load session", "error");
+	});
+});
+
+// ===========================================================================
+// 10c. handlePluginCommand
+// ===========================================================================
+
+describe("handlePluginCommand", () => {
+	function makeParams() {
+		return {
+			getSessionId: () => "s1",
+			addVolatileMessage: mock(() => {}),
+			clearVolatileMessages: mock(() => {}),
+		};
+	}
+
+	test("posts the plugin command and its args for the current session", () => {
+		handlePluginCommand({ name: "greet", args: "world" }, makeParams());
+		const [url, opts] = fetchMock.mock.calls[0] as [string, RequestInit];
+		expect(url).toBe("/bobai/command");
+		expect(JSON.parse(opts.body as string)).toEqual({ command: "greet", args: "world", sessionId: "s1" });
+	});
+
+	test("on success: shows the returned messages", async () => {
+		fetchMock.mockImplementation(() =>
+			Promise.resolve(jsonResponse({ ok: true, messages: [{ text: "Hello, world", kind: "info" as const }] })),
+		);
+		const params = makeParams();
+		handlePluginCommand({ name: "greet", args: "world" }, params);
+		await flushPromises();
+		expect(params.clearVolatileMessages).toHaveBeenCalledTimes(1);
+		expect(params.addVolatileMessage).toHaveBeenCalledWith("Hello, world", "info");
+	});
+
+	test("on failure: shows error message", async () => {
+		fetchMock.mockImplementation(() => Promise.resolve(jsonResponse({ ok: false, error: ".greet failed: boom" })));
+		const params = makeParams();
+		handlePluginCommand({ name: "greet", args: "" }, params);
+		await flushPromises();
+		expect(params.addVolatileMessage).toHaveBeenCalledWith(".greet failed: boom", "error");
+	});
+});
+
 // ===========================================================================
 // 11. handleSlashCommand
 // ===========================================================================
@@ -1,7 +1,15 @@
 import { describe, expect, test } from "bun:test";
 import * as commandParser from "../src/commandParser";
 
-const { FULL_DOT_COMMANDS, parseDotInput, parseSlashInput, STREAMING_DOT_COMMANDS, shouldAutoFillTitle } = commandParser;
+const {
+	FULL_DOT_COMMANDS,
+	isImmediateDotCommand,
+	parseDotInput,
+	parseSlashInput,
+	STREAMING_DOT_COMMANDS,
+	shouldAutoFillTitle,
+	withPluginCommands,
+} = commandParser;
 
 describe("parseDotInput", () => {
 	test("non-dot input returns null", () => {
@@ -111,6 +119,30 @@ describe("parseDotInput", () => {
 	});
 });
 
+describe("isImmediateDotCommand", () => {
+	test("matches the full command name", () => {
+		expect(isImmediateDotCommand(parseDotInput(".approve", STREAMING_DOT_COMMANDS), "approve")).toBe(true);
+	});
+
+	test("matches an unambiguous abbreviation", () => {
+		expect(isImmediateDotCommand(parseDotInput(".de", STREAMING_DOT_COMMANDS), "deny")).toBe(true);
+	});
+
+	test("matches when trailing args are typed", () => {
+		expect(isImmediateDotCommand(parseDotInput(".stop now", STREAMING_DOT_COMMANDS), "stop")).toBe(true);
+	});
+
+	test("does not match ambiguous prefixes or other commands", () => {
+		expect(isImmediateDotCommand(parseDotInput(".s", STREAMING_DOT_COMMANDS), "stop")).toBe(false);
+		expect(isImmediateDotCommand(parseDotInput(".approve", STREAMING_DOT_COMMANDS), "deny")).toBe(false);
+		expect(isImmediateDotCommand(null, "stop")).toBe(false);
+	});
+
+	test("approve and deny are not available outside streaming", () => {
+		expect(isImmediateDotCommand(parseDotInput(".approve", FULL_DOT_COMMANDS), "approve")).toBe(false);
+	});
+});
+
 describe("fuzzy matcher", () => {
 	test("exports a shared fuzzy match helper", () => {
 		expect(typeof commandParser.fuzzyMatch).toBe("function");
@@ -225,6 +257,26 @@ describe("parseSlashInput", () => {
 	});
 });
 
+describe("withPluginCommands", () => {
+	test("returns the built-in list when there are no plugin commands", () => {
+		expect(withPluginCommands(FULL_DOT_COMMANDS, [])).toBe(FULL_DOT_COMMANDS);
+	});
+
+	test("merges plugin commands in name order", () => {
+		const merged = withPluginCommands(FULL_DOT_COMMANDS, [{ name: "greet", description: "Say hello" }]);
+		const names = merged.map((c) => c.name);
+		expect(names).toContain("greet");
+		expect(names).toEqual([...names].sort());
+		expect(parseDotInput(".gre", merged)?.matches.map((c) => c.name)).toEqual(["greet"]);
+	});
+
+	test("skips plugin commands named like built-in commands", () => {
+		const merged = withPluginCommands(STREAMING_DOT_COMMANDS, [{ name: "model", description: "Shadow" }]);
+		expect(merged.map((c) => c.name)).not.toContain("model");
+		expect(merged.filter((c) => c.name === "stop")).toHaveLength(1);
+	});
+});
+
 describe("shouldAutoFillTitle", () => {
 	const parse = (input: string, cmds = FULL_DOT_COMMANDS) => parseDotInput(input, cmds);
 
@@ -28,6 +28,20 @@ describe("event routing", () => {
 		expect(result).toEqual({ target: "parent", msg: expect.objectContaining({ type: "done" }) });
 	});
 
+	test("permission_request is routed to parent even when it comes from a child session", () => {
+		const router = createEventRouter();
+		const msg = {
+			type: "permission_request" as const,
+			id: "p1",
+			toolCallId: "call_1",
+			tool: "bash",
+			detail: "npm test",
+			sessionId: "child-1",
+		};
+		expect(router.route(msg)).toEqual({ target: "parent", msg });
+		expect(router.getBuffer("child-1")).toHaveLength(0);
+	});
+
 	test("subagent_start and subagent_done are routed to lifecycle handler", () => {
 		const router = createEventRouter();
 		const r1 = router.route({ type: "subagent_start", sessionId: "child-1", title: "Task", toolCallId: "call_1" });
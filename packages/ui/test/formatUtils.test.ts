@@ -3,13 +3,27 @@ import {
 	type CompactionDetail,
 	type CompactionStats,
 	formatCompactionSummary,
+	formatFileDiffPatch,
 	formatMsgSummary,
 	formatToolHeader,
+	formatUsageReport,
 	groupParts,
 	truncateChars,
 	truncateContent,
+	type UsageReport,
 } from "../src/formatUtils";
-import type { MessagePart } from "../src/protocol";
+import type { FileDiff, MessagePart } from "../src/protocol";
+
+function fileDiff(path: string, extra: Partial<FileDiff> = {}): FileDiff {
+	return {
+		path,
+		status: "modified",
+		added: 1,
+		removed: 1,
+		hunks: [{ oldStart: 1, oldLines: 2, newStart: 1, newLines: 2, lines: [" a", "-b", "+c"] }],
+		...extra,
+	};
+}
 
 // ---------------------------------------------------------------------------
 // groupParts
@@ -37,6 +51,19 @@ describe("groupParts", () => {
 		expect(groupParts(parts)).toEqual([{ type: "tool", id: "tc1", content: "done!", completed: true, mergeable: false }]);
 	});
 
+	test("running tool_call with live output → output shown below the call until the result replaces it", () => {
+		const running: MessagePart[] = [
+			{ type: "tool_call", id: "tc1", content: "```bash\nmake\n```", mergeable: false, liveOutput: "step 1\nstep 2\n" },
+		];
+		expect(groupParts(running)[0]).toMatchObject({
+			content: "```bash\nmake\n```\n\n---\n\n```\nstep 1\nstep 2\n```",
+			completed: false,
+		});
+
+		const finished: MessagePart[] = [...running, { type: "tool_result", id: "tc1", content: "final", mergeable: false }];
+		expect(groupParts(finished)[0]).toMatchObject({ content: "final", completed: true });
+	});
+
 	test("tool_call followed by tool_result with null content → completed panel keeps tool_call content", () => {
 		const parts: MessagePart[] = [
 			{ type: "tool_call", id: "tc1", content: "running...", mergeable: false },
@@ -60,6 +87,7 @@ describe("groupParts", () => {
 			content: "result1  \nresult2",
 			completed: true,
 			mergeable: true,
+			mergedIds: ["tc2"],
 		});
 	});
 
@@ -106,6 +134,31 @@ describe("groupParts", () => {
 		expect(panel.subagentSessionId).toBe("sub-123");
 	});
 
+	test("tool_result with diff → panel keeps the call line and carries the diff", () => {
+		const diff = fileDiff("src/a.ts");
+		const parts: MessagePart[] = [
+			{ type: "tool_call", id: "tc1", content: "▸ Editing src/a.ts\n\n```diff\n- b\n+ c\n```", mergeable: false },
+			{ type: "tool_result", id: "tc1", content: null, mergeable: false, diff: [diff] },
+		];
+		expect(groupParts(parts)).toEqual([
+			{ type: "tool", id: "tc1", content: "▸ Editing src/a.ts", completed: true, mergeable: false, diffs: [diff] },
+		]);
+	});
+
+	test("merged panels → diffs concatenated in call order", () => {
+		const first = fileDiff("a.txt", { status: "created" });
+		const second = fileDiff("b.txt");
+		const parts: MessagePart[] = [
+			{ type: "tool_call", id: "tc1", content: "▸ Writing a.txt", mergeable: true },
+			{ type: "tool_result", id: "tc1", content: "▸ Writing a.txt (2 bytes)", mergeable: true, diff: [first] },
+			{ type: "tool_call", id: "tc2", content: "▸ Writing b.txt", mergeable: true },
+			{ type: "tool_result", id: "tc2", content: "▸ Writing b.txt (2 bytes)", mergeable: true, diff: [second] },
+		];
+		const panel = groupParts(parts)[0] as { content: string; diffs?: FileDiff[] };
+		expect(panel.content).toBe("▸ Writing a.txt (2 bytes)  \n▸ Writing b.txt (2 bytes)");
+		expect(panel.diffs).toEqual([first, second]);
+	});
+
 	test("single reasoning part → single reasoning panel", () => {
 		const parts: MessagePart[] = [{ type: "reasoning", content: "let me think..." }];
 		expect(groupParts(parts)).toEqual([{ type: "reasoning", content: "let me think..." }]);
@@ -138,6 +191,25 @@ describe("groupParts", () => {
 	});
 });
 
+describe("formatFileDiffPatch", () => {
+	test("modified file → a/ and b/ headers and its hunks", () => {
+		expect(formatFileDiffPatch(fileDiff("src/a.ts"))).toBe("--- a/src/a.ts\n+++ b/src/a.ts\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n");
+	});
+
+	test("created and deleted files → /dev/null side starting at line 0", () => {
+		const created = fileDiff("new.txt", {
+			status: "created",
+			hunks: [{ oldStart: 1, oldLines: 0, newStart: 1, newLines: 1, lines: ["+x"] }],
+		});
+		expect(formatFileDiffPatch(created)).toBe("--- /dev/null\n+++ b/new.txt\n@@ -0,0 +1,1 @@\n+x\n");
+		const deleted = fileDiff("old.txt", {
+			status: "deleted",
+			hunks: [{ oldStart: 1, oldLines: 1, newStart: 1, newLines: 0, lines: ["-x"] }],
+		});
+		expect(formatFileDiffPatch(deleted)).toBe("--- a/old.txt\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-x\n");
+	});
+});
+
 // ---------------------------------------------------------------------------
 // truncateContent
 // ---------------------------------------------------------------------------
@@ -256,6 +328,34 @@ describe("formatToolHeader", () => {
 		expect(result).not.toContain("position=");
 	});
 
+	test("with policy → names the policy behind the decision", () => {
+		const detail: CompactionDetail = {
+			compactionFactor: 1,
+			distance: 150,
+			baseDistance: 150,
+			wasCompacted: false,
+			wasEvicted: true,
+			savedChars: 0,
+			savedArgsChars: 0,
+			policy: "keep-reads",
+		};
+		expect(formatToolHeader("tc1", "bash", detail)).toContain("| policy=keep-reads | evicted");
+	});
+
+	test("pinned → says so instead of a compaction action", () => {
+		const detail: CompactionDetail = {
+			compactionFactor: 1,
+			distance: 150,
+			baseDistance: 150,
+			wasCompacted: false,
+			wasEvicted: false,
+			savedChars: 0,
+			savedArgsChars: 0,
+			pinned: true,
+		};
+		expect(formatToolHeader("tc1", "read_file", detail)).toContain("| pinned");
+	});
+
 	test("with charsPerToken → includes token savings", () => {
 		const detail: CompactionDetail = {
 			compactionFactor: 0.8,
@@ -404,6 +504,27 @@ describe("formatCompactionSummary", () => {
 		expect(result).toContain("| user | 20 | 15 |");
 		expect(result).toContain("| assistant | 40 | 30 |");
 		expect(result).toContain("| tool | 39 | 34 |");
+		expect(result).not.toContain("- policy:");
+	});
+
+	test("names the compaction policy", () => {
+		const stats: CompactionStats = {
+			multiplier: 1,
+			iterations: 1,
+			charsBefore: 100,
+			charsAfter: 50,
+			charBudget: 60,
+			charsPerToken: 3,
+			type: "pre-prompt",
+			parameters: { defaultMaxDistance: 100 },
+			estimatedContextNeeded: 0.5,
+			target: 0.35,
+			elapsedMs: 1,
+			messagesBefore: { total: 3 },
+			messagesAfter: { total: 2 },
+			policy: "aggressive",
+		};
+		expect(formatCompactionSummary(stats)).toContain("# Compaction parameters\n- policy: aggressive\n");
 	});
 
 	test("includes compaction reach section when toolReach is provided", () => {
@@ -567,4 +688,69 @@ describe("formatCompactionSummary", () => {
 		// maxDistance = 19, both compaction (420) and eviction (600) unreachable
 		expect(result).toContain("| task | output | 0.70 | 300 | 600 | always | never | never |");
 	});
+
+	test("reports the summarization call when a summary replaced the evicted span", () => {
+		const stats: CompactionStats = {
+			multiplier: 0.5,
+			iterations: 9,
+			charsBefore: 50000,
+			charsAfter: 20000,
+			charBudget: 25000,
+			charsPerToken: 3.5,
+			type: "pre-prompt",
+			parameters: { defaultMaxDistance: 100 },
+			estimatedContextNeeded: 0.9,
+			target: 0.5,
+			elapsedMs: 3,
+			messagesBefore: { total: 10 },
+			messagesAfter: { total: 6 },
+			summary: { coveredMessages: 7, model: "m", inputTokens: 900, outputTokens: 40, costDollars: 0.0012 },
+		};
+		const result = formatCompactionSummary(stats);
+		expect(result).toContain("# Summarization\n- summarized messages: 1-7\n- model: m");
+		expect(result).toContain("- tokens: 900 in, 40 out");
+		expect(result).toContain("- estimated cost: $0.0012");
+		expect(formatCompactionSummary({ ...stats, summary: undefined })).not.toContain("# Summarization");
+	});
+});
+
+// ---------------------------------------------------------------------------
+// formatUsageReport
+// ---------------------------------------------------------------------------
+describe("formatUsageReport", () => {
+	const totals = {
+		turns: 3,
+		inputTokens: 1000,
+		outputTokens: 200,
+		cachedInputTokens: 250,
+		cacheCreationInputTokens: 50,
+		cacheHitRatio: 0.25,
+		costDollars: 1.234,
+	};
+	const report: UsageReport = {
+		since: null,
+		total: totals,
+		byDay: [{ key: "2026-10-19", label: "2026-10-19", ...totals }],
+		byProvider: [{ key: "openrouter", label: "openrouter", ...totals }],
+		byModel: [{ key: "openrouter/m", label: "openrouter / m", ...totals }],
+		bySession: [{ key: "s1", label: "a | b", ...totals }],
+	};
+
+	test("renders a table per grouping with cache hit ratio and cost", () => {
+		const result = formatUsageReport(report);
+		expect(result).toContain("| | turns | in | out | cache read | cache write | cache hit | cost |");
+		expect(result).toContain("| all | 3 | 1000 | 200 | 250 | 50 | 25% | $1.23 |");
+		expect(result).toContain("# By day\n\n| day | turns");
+		expect(result).toContain("| openrouter / m | 3 |");
+		expect(result).toContain("# By session (subagents included)");
+		expect(result).toContain("| a \\| b | 3 |");
+	});
+
+	test("skips empty groups and shows no ratio without input tokens", () => {
+		const empty = { ...totals, inputTokens: 0, cachedInputTokens: 0, cacheHitRatio: 0 };
+		const result = formatUsageReport({ ...report, total: empty, byDay: [], byModel: [], bySession: [] });
+		expect(result).toContain("| all | 3 | 0 | 200 | 0 | 50 | — | $1.23 |");
+		expect(result).not.toContain("# By day");
+		expect(result).toContain("# By provider");
+	});
 });
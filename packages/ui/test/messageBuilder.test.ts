@@ -1,5 +1,12 @@
 import { describe, expect, test } from "bun:test";
-import { appendPart, appendReasoning, appendText, startReasoning } from "../src/messageBuilder";
+import {
+	appendPart,
+	appendReasoning,
+	appendText,
+	appendToolOutput,
+	LIVE_OUTPUT_MAX_CHARS,
+	startReasoning,
+} from "../src/messageBuilder";
 import type { Message, MessagePart } from "../src/protocol";
 
 describe("appendPart", () => {
@@ -192,3 +199,43 @@ describe("appendReasoning", () => {
 		}
 	});
 });
+
+describe("appendToolOutput", () => {
+	test("accumulates output on the matching running tool call", () => {
+		const prev: Message[] = [
+			{
+				role: "assistant",
+				parts: [
+					{ type: "tool_call", id: "tc1", content: "```bash\nnpm test\n```", mergeable: false },
+					{ type: "tool_call", id: "tc2", content: "```bash\nls\n```", mergeable: false },
+				],
+			},
+		];
+		let messages = appendToolOutput(prev, "tc1", "PASS a\n");
+		messages = appendToolOutput(messages, "tc1", "PASS b\n");
+		if (messages[0]?.role === "assistant") {
+			expect(messages[0].parts[0]).toEqual({
+				type: "tool_call",
+				id: "tc1",
+				content: "```bash\nnpm test\n```",
+				mergeable: false,
+				liveOutput: "PASS a\nPASS b\n",
+			});
+			expect(messages[0].parts[1]).toBe(prev[0]?.role === "assistant" ? prev[0].parts[1] : undefined);
+		}
+	});
+
+	test("keeps only the tail of long output", () => {
+		const prev: Message[] = [{ role: "assistant", parts: [{ type: "tool_call", id: "tc1", content: "x", mergeable: false }] }];
+		const messages = appendToolOutput(appendToolOutput(prev, "tc1", "a".repeat(LIVE_OUTPUT_MAX_CHARS)), "tc1", "end");
+		const part = messages[0]?.role === "assistant" ? messages[0].parts[0] : undefined;
+		expect(part?.type === "tool_call" && part.liveOutput).toBe(`${"a".repeat(LIVE_OUTPUT_MAX_CHARS - 3)}end`);
+	});
+
+	test("output for an unknown call or without an assistant message is ignored", () => {
+		const prev: Message[] = [{ role: "user", text: "hello", timestamp: "2025-01-01 00:00:00" }];
+		expect(appendToolOutput(prev, "tc1", "x")).toBe(prev);
+		const assistant: Message[] = [{ role: "assistant", parts: [{ type: "text", content: "hi" }] }];
+		expect(appendToolOutput(assistant, "tc1", "x")).toBe(assistant);
+	});
+});
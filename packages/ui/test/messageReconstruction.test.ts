@@ -209,6 +209,45 @@ describe("reconstructMessages", () => {
 		}
 	});
 
+	test("restores the file diff from tool metadata", () => {
+		const diff = [
+			{
+				path: "x.ts",
+				status: "modified",
+				added: 1,
+				removed: 1,
+				hunks: [{ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ["-a", "+b"] }],
+			},
+		];
+		const stored = [
+			{
+				id: "2",
+				sessionId: "s",
+				role: "assistant" as const,
+				content: "",
+				createdAt: "2026-03-06T01:00:00Z",
+				sortOrder: 1,
+				metadata: {
+					tool_calls: [{ id: "call_1", type: "function", function: { name: "edit_file", arguments: '{"path":"x.ts"}' } }],
+				},
+			},
+			{
+				id: "3",
+				sessionId: "s",
+				role: "tool" as const,
+				content: "Edited x.ts",
+				createdAt: "2026-03-06T01:00:01Z",
+				sortOrder: 2,
+				metadata: { tool_call_id: "call_1", format_call: "▸ Editing x.ts", ui_output: null, mergeable: false, diff },
+			},
+		];
+		const result = reconstructMessages(stored);
+		if (result[0].role === "assistant") {
+			const toolResult = result[0].parts.find((p) => p.type === "tool_result");
+			expect(toolResult).toMatchObject({ content: null, diff });
+		}
+	});
+
 	test("preserves null content when ui_output is explicitly null (task tool)", () => {
 		const stored = [
 			{
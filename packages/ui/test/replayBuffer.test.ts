@@ -43,6 +43,25 @@ describe("replayBufferToMessages", () => {
 		}
 	});
 
+	test("tool_result keeps the file diff", () => {
+		const diff = [
+			{
+				path: "a.txt",
+				status: "created" as const,
+				added: 1,
+				removed: 0,
+				hunks: [{ oldStart: 1, oldLines: 0, newStart: 1, newLines: 1, lines: ["+a"] }],
+			},
+		];
+		const msgs = replayBufferToMessages([
+			{ type: "tool_call" as const, id: "tc1", output: "▸ Writing a.txt", mergeable: true, sessionId: "c1" },
+			{ type: "tool_result" as const, id: "tc1", output: "▸ Writing a.txt (2 bytes)", mergeable: true, diff, sessionId: "c1" },
+		]);
+		if (msgs[0].role === "assistant") {
+			expect(msgs[0].parts[1]).toMatchObject({ type: "tool_result", id: "tc1", diff });
+		}
+	});
+
 	test("tool_result creates a tool_result part", () => {
 		const events = [
 			{ type: "tool_call" as const, id: "tc1", output: "▸ read_file foo.ts", mergeable: true, sessionId: "c1" },
@@ -230,4 +249,21 @@ describe("replayBufferToMessages", () => {
 			expect(msgs[0].parts[2].type).toBe("tool_call");
 		}
 	});
+
+	test("tool_output → live output on the running tool call", () => {
+		const events = [
+			{ type: "tool_call" as const, id: "tc1", output: "▸ bash make", mergeable: false, sessionId: "c1" },
+			{ type: "tool_output" as const, id: "tc1", output: "compiling\n", sessionId: "c1" },
+		];
+		const msgs = replayBufferToMessages(events);
+		if (msgs[0]?.role === "assistant") {
+			expect(msgs[0].parts[0]).toEqual({
+				type: "tool_call",
+				id: "tc1",
+				content: "▸ bash make",
+				mergeable: false,
+				liveOutput: "compiling\n",
+			});
+		}
+	});
 });
@@ -31,6 +31,7 @@ describe("useSessionLoader integration", () => {
 			model: null as string | null,
 			parentId: null as string | null,
 			parentTitle: null as string | null,
+			forkOrigin: null as { sessionId: string; title: string | null; turn: number } | null,
 			subagents: [] as Array<{ sessionId: string; title: string; status: "running" | "done"; toolCallId: string }>,
 			status: "",
 			volatileMessages: [] as Array<{ text: string; kind: "error" | "success" | "info" }>,
@@ -72,6 +73,9 @@ describe("useSessionLoader integration", () => {
 				setParentTitle: (value) => {
 					state.parentTitle = typeof value === "function" ? value(state.parentTitle) : value;
 				},
+				setForkOrigin: (value) => {
+					state.forkOrigin = typeof value === "function" ? value(state.forkOrigin) : value;
+				},
 				setSubagents: (value) => {
 					state.subagents = typeof value === "function" ? value(state.subagents) : value;
 				},
@@ -175,4 +179,39 @@ describe("useSessionLoader integration", () => {
 		expect(sendSubscribe).toHaveBeenCalledWith("s1");
 		await hook.unmount();
 	});
+
+	test("loadSession fetches the original session title for a fork", async () => {
+		fetchMock
+			.mockResolvedValueOnce({ ok: true, json: async () => ({ owned: false }) })
+			.mockResolvedValueOnce({
+				ok: true,
+				json: async () => ({
+					session: {
+						id: "fork-1",
+						title: "Loaded chat (fork)",
+						provider: null,
+						model: null,
+						parentId: null,
+						forkedFrom: "s1",
+						forkTurn: 2,
+						contextLimit: null,
+					},
+					messages: [],
+					status: null,
+				}),
+			})
+			.mockResolvedValueOnce({ ok: true, json: async () => ({ session: { title: "Loaded chat" } }) });
+
+		const { state, hookPromise } = setupHook();
+		const hook = await hookPromise;
+
+		await act(async () => {
+			await hook.getValue().loadSession("fork-1");
+		});
+
+		expect(state.parentTitle).toBeNull();
+		expect(state.forkOrigin).toEqual({ sessionId: "s1", title: "Loaded chat", turn: 2 });
+		expect(fetchMock.mock.calls[2]?.[0]).toBe("/bobai/session/s1/load");
+		await hook.unmount();
+	});
 });
@@ -158,4 +158,55 @@ describe("useWebSocket integration", () => {
 		}
 		await hook.unmount();
 	});
+
+	test("permission requests queue up and respondPermission answers the oldest one", async () => {
+		const hook = await renderTestHook(() => useWebSocket());
+		const socket = MockWebSocket.instances[0];
+		if (!socket) {
+			throw new Error("Expected WebSocket instance");
+		}
+
+		await act(async () => {
+			socket.simulateOpen();
+			hook.getValue().sendPrompt("Run the tests");
+		});
+		await act(async () => {
+			socket.simulateMessage({
+				type: "permission_request",
+				id: "p1",
+				toolCallId: "c1",
+				tool: "bash",
+				detail: "npm test",
+				sessionId: "s1",
+			});
+			socket.simulateMessage({
+				type: "permission_request",
+				id: "p2",
+				toolCallId: "c2",
+				tool: "bash",
+				detail: "make",
+				sessionId: "child-1",
+			});
+		});
+		expect(hook.getValue().permissionRequests.map((r) => r.id)).toEqual(["p1", "p2"]);
+
+		let answered = false;
+		await act(async () => {
+			answered = hook.getValue().respondPermission(true);
+		});
+		expect(answered).toBe(true);
+		expect(socket.sent).toContain(JSON.stringify({ type: "permission_response", id: "p1", approved: true }));
+		expect(hook.getValue().permissionRequests.map((r) => r.id)).toEqual(["p2"]);
+
+		await act(async () => {
+			socket.simulateMessage({ type: "done", sessionId: "s1", model: "gpt-4.1" });
+		});
+		expect(hook.getValue().permissionRequests).toEqual([]);
+
+		await act(async () => {
+			answered = hook.getValue().respondPermission(false);
+		});
+		expect(answered).toBe(false);
+		await hook.unmount();
+	});
 });
@@ -56,6 +56,30 @@ describe("applyStreamingEvent", () => {
 		]);
 	});
 
+	test("tool_result carries the file diff into its part", () => {
+		const diff = [
+			{
+				path: "a.txt",
+				status: "modified" as const,
+				added: 1,
+				removed: 1,
+				hunks: [{ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ["-a", "+b"] }],
+			},
+		];
+		const messages = applyStreamingEvent(
+			[],
+			{ type: "tool_result", id: "tc1", output: null, mergeable: false, diff },
+			"2026-05-06 10:00:01",
+		);
+
+		expect(messages).toEqual([
+			{
+				role: "assistant",
+				parts: [{ type: "tool_result", id: "tc1", content: null, mergeable: false, summary: undefined, diff }],
+			},
+		]);
+	});
+
 	test("reasoning_start creates a new reasoning part in the current assistant message", () => {
 		let messages: Message[] = [{ role: "assistant", parts: [] }];
 		messages = applyStreamingEvent(messages, { type: "reasoning_start" }, "2026-05-06 10:00:00");
@@ -159,6 +183,20 @@ describe("applyStreamingEvent", () => {
 		]);
 	});
 
+	test("tool_output streams into the running tool call until its result arrives", () => {
+		let messages: Message[] = [];
+		messages = applyStreamingEvent(messages, { type: "tool_call", id: "t1", output: "ls", mergeable: false }, "");
+		messages = applyStreamingEvent(messages, { type: "tool_output", id: "t1", output: "a.ts\n" }, "");
+		messages = applyStreamingEvent(messages, { type: "tool_output", id: "t1", output: "b.ts\n" }, "");
+
+		expect(messages).toEqual([
+			{
+				role: "assistant",
+				parts: [{ type: "tool_call", id: "t1", content: "ls", mergeable: false, liveOutput: "a.ts\nb.ts\n" }],
+			},
+		]);
+	});
+
 	test("error event is converted into assistant text part", () => {
 		const messages = applyStreamingEvent([], { type: "error", message: "Oops" }, "2026-05-06 10:00:00");
 		expect(messages).toEqual([{ role: "assistant", parts: [{ type: "text", content: "Error: Oops" }] }]);